@@ -0,0 +1,297 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { AnalysisItemStatus } from '@/constants/analysisBatches';
+
+interface BatchSummary {
+  _id: string;
+  totalItems: number;
+  counts: Record<AnalysisItemStatus, number>;
+  finished: boolean;
+  createdAt: string;
+}
+
+interface BatchItem {
+  _id: string;
+  order: number;
+  imageUrl: string;
+  location: string;
+  section: string;
+  subSection: string;
+  status: AnalysisItemStatus;
+  error: string | null;
+}
+
+interface AnalysisBatchPanelProps {
+  inspectionId: string;
+  // Hints applied to every photo in a new batch
+  location: string;
+  section: string;
+  subSection: string;
+  selectedColor: string;
+}
+
+// How often a running batch is refreshed
+const POLL_INTERVAL_MS = 3000;
+// Photos uploaded to R2 at the same time while preparing a batch
+const UPLOAD_CONCURRENCY = 3;
+
+const STATUS_LABELS: Record<AnalysisItemStatus, string> = {
+  queued: 'Queued',
+  running: 'Analyzing',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const STATUS_CLASSES: Record<AnalysisItemStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+async function uploadPhoto(file: File): Promise<string> {
+  const presignedRes = await fetch(
+    `/api/r2api?action=presigned&fileName=${encodeURIComponent(file.name)}&contentType=${encodeURIComponent(file.type)}`
+  );
+  if (!presignedRes.ok) {
+    throw new Error(`Failed to get presigned URL: ${await presignedRes.text()}`);
+  }
+  const { uploadUrl, publicUrl } = await presignedRes.json();
+  const putRes = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers: { 'Content-Type': file.type },
+    body: file,
+  });
+  if (!putRes.ok) {
+    throw new Error(`Failed to upload ${file.name}: ${putRes.status}`);
+  }
+  return publicUrl;
+}
+
+/**
+ * Sends many photos for AI analysis at once and follows the latest batch for the inspection
+ * until every photo is done or failed
+ */
+export default function AnalysisBatchPanel({ inspectionId, location, section, subSection, selectedColor }: AnalysisBatchPanelProps) {
+  const [batch, setBatch] = useState<BatchSummary | null>(null);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState('');
+  const [retrying, setRetrying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchBatch = useCallback(async (batchId: string) => {
+    try {
+      const response = await fetch(`/api/analysis-batches/${batchId}`, { credentials: 'include' });
+      if (!response.ok) return;
+      const result = await response.json();
+      setBatch(result.batch);
+      setItems(Array.isArray(result.items) ? result.items : []);
+    } catch (error) {
+      console.error('Error fetching analysis batch:', error);
+    }
+  }, []);
+
+  // Pick up the inspection's latest batch, e.g. one still running from before a reload
+  useEffect(() => {
+    if (!inspectionId) return;
+    (async () => {
+      try {
+        const response = await fetch(`/api/analysis-batches?inspectionId=${inspectionId}`, { credentials: 'include' });
+        if (!response.ok) return;
+        const { batches } = await response.json();
+        if (Array.isArray(batches) && batches.length > 0) {
+          await fetchBatch(batches[0]._id);
+        }
+      } catch (error) {
+        console.error('Error fetching analysis batches:', error);
+      }
+    })();
+  }, [inspectionId, fetchBatch]);
+
+  useEffect(() => {
+    if (!batch || batch.finished) return;
+    const interval = setInterval(() => fetchBatch(batch._id), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [batch, fetchBatch]);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []).filter((file) => file.type.startsWith('image/'));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+
+    setMessage('');
+    setUploadProgress({ done: 0, total: files.length });
+
+    const urls: (string | null)[] = new Array(files.length).fill(null);
+    let next = 0;
+    let done = 0;
+    const uploadNext = async (): Promise<void> => {
+      const index = next++;
+      if (index >= files.length) return;
+      try {
+        urls[index] = await uploadPhoto(files[index]);
+      } catch (error) {
+        console.error('Error uploading batch photo:', error);
+      }
+      setUploadProgress({ done: ++done, total: files.length });
+      return uploadNext();
+    };
+    await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, files.length) }, uploadNext));
+
+    const uploaded = urls.filter((url): url is string => Boolean(url));
+    const skipped = files.length - uploaded.length;
+    setUploadProgress(null);
+    if (uploaded.length === 0) {
+      setMessage('None of the photos could be uploaded. Please try again.');
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/analysis-batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          inspectionId,
+          items: uploaded.map((imageUrl) => ({
+            imageUrl,
+            location: location || undefined,
+            section: section || undefined,
+            subSection: subSection || undefined,
+            selectedColor,
+          })),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start batch analysis');
+      }
+      setMessage(skipped > 0 ? `${skipped} photo(s) could not be uploaded and were left out.` : '');
+      await fetchBatch(result.batch._id);
+    } catch (error: any) {
+      console.error('Error creating analysis batch:', error);
+      setMessage(error.message || 'Failed to start batch analysis');
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!batch) return;
+    setRetrying(true);
+    try {
+      const response = await fetch(`/api/analysis-batches/${batch._id}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        setMessage(result.error || 'Failed to retry photos');
+      }
+      await fetchBatch(batch._id);
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const finishedCount = batch ? batch.counts.done + batch.counts.failed : 0;
+  const percent = batch ? Math.round((finishedCount / batch.totalItems) * 100) : 0;
+  const busy = Boolean(uploadProgress) || Boolean(batch && !batch.finished);
+
+  return (
+    <div className="mx-auto my-6 w-full max-w-3xl rounded-xl border bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-base font-semibold">Batch analysis</h3>
+          <p className="text-xs text-muted-foreground">
+            Analyze many photos at once. Each photo becomes a defect using the location, section and subsection selected above.
+          </p>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button type="button" onClick={() => fileInputRef.current?.click()} disabled={busy}>
+          <i className="fas fa-images mr-2"></i>
+          Select photos
+        </Button>
+      </div>
+
+      {uploadProgress && (
+        <p className="mt-3 text-sm text-muted-foreground">
+          <i className="fas fa-spinner fa-spin mr-2"></i>
+          Uploading photos {uploadProgress.done}/{uploadProgress.total}...
+        </p>
+      )}
+
+      {message && <p className="mt-3 text-sm text-red-600">{message}</p>}
+
+      {batch && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">
+              {batch.finished ? 'Finished' : 'In progress'}: {finishedCount} of {batch.totalItems} photos
+            </span>
+            <div className="flex gap-1">
+              {(Object.keys(STATUS_LABELS) as AnalysisItemStatus[])
+                .filter((status) => batch.counts[status] > 0)
+                .map((status) => (
+                  <Badge key={status} variant="outline" className={cn('border-transparent', STATUS_CLASSES[status])}>
+                    {STATUS_LABELS[status]} {batch.counts[status]}
+                  </Badge>
+                ))}
+            </div>
+          </div>
+          <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-gray-100">
+            <div
+              className={cn('h-full transition-all', batch.counts.failed > 0 ? 'bg-amber-500' : 'bg-green-500')}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+
+          <ul className="mt-3 max-h-72 divide-y overflow-y-auto rounded border">
+            {items.map((item) => (
+              <li key={item._id} className="flex items-center gap-3 px-3 py-2">
+                <img src={item.imageUrl} alt="" className="h-10 w-10 flex-shrink-0 rounded object-cover" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm">
+                    Photo {item.order + 1}
+                    {[item.section, item.subSection, item.location].filter(Boolean).length > 0 && (
+                      <span className="text-muted-foreground">
+                        {' '}
+                        · {[item.section, item.subSection, item.location].filter(Boolean).join(' / ')}
+                      </span>
+                    )}
+                  </p>
+                  {item.error && <p className="truncate text-xs text-red-600">{item.error}</p>}
+                </div>
+                <Badge variant="outline" className={cn('border-transparent', STATUS_CLASSES[item.status])}>
+                  {item.status === 'running' && <i className="fas fa-spinner fa-spin mr-1"></i>}
+                  {STATUS_LABELS[item.status]}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+
+          {batch.counts.failed > 0 && (
+            <div className="mt-3 flex justify-end">
+              <Button type="button" variant="outline" size="sm" onClick={handleRetry} disabled={retrying}>
+                <i className={cn('fas fa-redo mr-2', retrying && 'fa-spin')}></i>
+                Retry failed ({batch.counts.failed})
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
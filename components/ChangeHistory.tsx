@@ -0,0 +1,232 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AuditAction,
+  AuditEntityType,
+} from '@/constants/auditLog';
+
+interface HistoryChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+interface HistoryEntry {
+  _id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  changes: HistoryChange[];
+  actor: { _id: string; name: string } | null;
+  origin: { method?: string; path?: string; ip?: string };
+  restorable: boolean;
+  restoredFrom: string | null;
+  createdAt: string;
+}
+
+type ChangeHistoryTarget = { inspection: string } | { entityType: AuditEntityType; entityId: string };
+
+interface ChangeHistoryProps {
+  // An inspection's history also covers its defects and information sections
+  target: ChangeHistoryTarget;
+  // Called after a version is restored so the page can reload what changed
+  onRestored?: (entityType: AuditEntityType, entityId: string) => void | Promise<void>;
+}
+
+const ALL_TYPES = 'all';
+// Create and delete entries list every field; only the first few are shown until expanded
+const COLLAPSED_CHANGES = 6;
+const MAX_VALUE_LENGTH = 120;
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+export default function ChangeHistory({ target, onRestored }: ChangeHistoryProps) {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [typeFilter, setTypeFilter] = useState<string>(ALL_TYPES);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [restoring, setRestoring] = useState<HistoryEntry | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const query = new URLSearchParams(
+    'inspection' in target ? { inspection: target.inspection } : { entityType: target.entityType, entityId: target.entityId }
+  ).toString();
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/audit-log?${query}`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load change history');
+      }
+      setEntries(data.entries);
+    } catch (error: any) {
+      console.error('Error fetching change history:', error);
+      toast.error(error.message || 'Failed to load change history');
+      setEntries([]);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const restoreVersion = async () => {
+    if (!restoring) return;
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/audit-log/${restoring._id}/restore`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore version');
+      }
+
+      toast.success(`${AUDIT_ENTITY_LABELS[restoring.entityType]} restored`);
+      setRestoring(null);
+      await fetchHistory();
+      await onRestored?.(data.entityType, data.entityId);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to restore version');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleExpanded = (entryId: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
+  const presentTypes = Array.from(new Set((entries || []).map((entry) => entry.entityType)));
+  const visibleEntries = (entries || []).filter((entry) => typeFilter === ALL_TYPES || entry.entityType === typeFilter);
+
+  return (
+    <div className="space-y-4">
+      {'inspection' in target && presentTypes.length > 1 && (
+        <div className="flex justify-end">
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TYPES}>All changes</SelectItem>
+              {presentTypes.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {AUDIT_ENTITY_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {!entries ? (
+        <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : visibleEntries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+      ) : (
+        <ol className="space-y-3">
+          {visibleEntries.map((entry) => {
+            const isExpanded = expanded.has(entry._id);
+            const shownChanges = isExpanded ? entry.changes : entry.changes.slice(0, COLLAPSED_CHANGES);
+            return (
+              <li key={entry._id} className="p-3 bg-card border rounded-lg text-sm">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium">
+                      {AUDIT_ACTION_LABELS[entry.action]} {AUDIT_ENTITY_LABELS[entry.entityType].toLowerCase()}
+                      {'inspection' in target && entry.entityType !== 'inspection' && (
+                        <span className="ml-1 font-normal text-muted-foreground">#{entry.entityId.slice(-6)}</span>
+                      )}
+                      {entry.restoredFrom && (
+                        <span className="ml-1 font-normal text-muted-foreground">from an earlier version</span>
+                      )}
+                    </p>
+                    <p className="mt-0.5 text-xs text-muted-foreground">
+                      {entry.actor?.name || 'System'} · {new Date(entry.createdAt).toLocaleString()}
+                      {entry.origin.method && entry.origin.path && ` · ${entry.origin.method} ${entry.origin.path}`}
+                      {entry.origin.ip && ` · ${entry.origin.ip}`}
+                    </p>
+                  </div>
+                  {entry.restorable && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => setRestoring(entry)}>
+                      Restore previous version
+                    </Button>
+                  )}
+                </div>
+
+                {shownChanges.length > 0 && (
+                  <table className="mt-2 w-full text-xs">
+                    <tbody>
+                      {shownChanges.map((change) => (
+                        <tr key={change.path} className="border-t align-top">
+                          <td className="py-1 pr-3 font-mono text-muted-foreground whitespace-nowrap">{change.path}</td>
+                          <td className="py-1 pr-3 break-all line-through text-muted-foreground">{formatValue(change.before)}</td>
+                          <td className="py-1 break-all">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {entry.changes.length > COLLAPSED_CHANGES && (
+                  <button
+                    type="button"
+                    className="mt-1 text-xs text-primary hover:underline"
+                    onClick={() => toggleExpanded(entry._id)}
+                  >
+                    {isExpanded ? 'Show fewer fields' : `Show all ${entry.changes.length} fields`}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <AlertDialog open={Boolean(restoring)} onOpenChange={(open) => !open && !saving && setRestoring(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore previous version?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {restoring?.action === 'delete'
+                ? `The deleted ${restoring ? AUDIT_ENTITY_LABELS[restoring.entityType].toLowerCase() : ''} is recreated as it was.`
+                : `The ${restoring ? AUDIT_ENTITY_LABELS[restoring.entityType].toLowerCase() : ''} goes back to how it was before this change. Later edits are replaced, and the restore is recorded in the history.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                restoreVersion();
+              }}
+              disabled={saving}
+            >
+              {saving ? 'Restoring…' : 'Restore'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
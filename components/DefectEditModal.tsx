@@ -5,6 +5,7 @@ import HeaderImageUploader from './HeaderImageUploader';
 import LocationSearch from './LocationSearch';
 import FileUpload from './FileUpload';
 import { LOCATION_OPTIONS } from '../constants/locations';
+import { AnnotationDocument, hasAnnotations, migrateLegacyAnnotations } from '@/lib/annotations';
 import dynamic from 'next/dynamic';
 
 const InformationSections = dynamic(() => import('./InformationSections'), { 
@@ -79,7 +80,7 @@ interface Defect {
   isThreeSixty?: boolean; // 360° photo flag
   additional_images?: Array<{ url: string; location: string; isThreeSixty?: boolean }>; // Multiple location photos (supports 360)
   base_cost?: number; // Base cost from AI analysis
-  annotations?: any[]; // Annotation shapes (arrows, circles, squares, freehand)
+  annotations?: AnnotationDocument; // Annotation shapes, see lib/annotations.ts
   originalImage?: string; // Original image without annotations
 }
 
@@ -418,7 +419,7 @@ export default function DefectEditModal({ isOpen, onClose, inspectionId }: Defec
           console.log(`Defect ${idx}:`, {
             id: defect._id,
             hasAnnotations: !!defect.annotations,
-            annotationsCount: defect.annotations?.length || 0,
+            annotationShapes: defect.annotations?.shapes?.length || 0,
             hasOriginalImage: !!defect.originalImage
           });
         });
@@ -557,7 +558,7 @@ export default function DefectEditModal({ isOpen, onClose, inspectionId }: Defec
     console.log('🎨 handleAnnotateMainImage called for defect:', defect._id);
     console.log('📊 Defect data:', {
       hasAnnotations: !!defect.annotations,
-      annotationsCount: defect.annotations?.length || 0,
+      annotationShapes: defect.annotations?.shapes?.length || 0,
       hasOriginalImage: !!defect.originalImage,
       originalImage: defect.originalImage,
       currentImage: defect.image
@@ -568,9 +569,11 @@ export default function DefectEditModal({ isOpen, onClose, inspectionId }: Defec
     localStorage.setItem('editingInspectionId', inspectionId);
 
     // Pass annotations and original image for re-editing
-    if (defect.annotations && defect.annotations.length > 0) {
-      console.log('✅ Saving annotations to localStorage:', defect.annotations);
-      localStorage.setItem('defectAnnotations', JSON.stringify(defect.annotations));
+    // Records saved before annotation documents existed still hold a plain array
+    const annotations = migrateLegacyAnnotations(defect.annotations);
+    if (hasAnnotations(annotations)) {
+      console.log('✅ Saving annotations to localStorage:', annotations);
+      localStorage.setItem('defectAnnotations', JSON.stringify(annotations));
     } else {
       console.log('⚠️ No annotations found in defect, removing from localStorage');
       localStorage.removeItem('defectAnnotations');
@@ -1524,7 +1527,7 @@ export default function DefectEditModal({ isOpen, onClose, inspectionId }: Defec
                                 
                                 {(!displayDefect.additional_images || displayDefect.additional_images.length === 0) && (
                                   <p style={{ color: '#6c757d', fontSize: '0.85rem', fontStyle: 'italic', margin: 0 }}>
-                                    No additional location photos yet. Click "Add Location Photo" to add photos from different locations with the same defect.
+                                    No additional location photos yet. Click &quot;Add Location Photo&quot; to add photos from different locations with the same defect.
                                   </p>
                                 )}
                               </div>
@@ -2,17 +2,47 @@
 
 import React, { useRef, useState, useEffect, useCallback } from "react";
 import styles from './ImageEditor.module.css';
+import {
+  AnnotationDocument,
+  AnnotationFrame,
+  AnnotationShape,
+  createAnnotationDocument,
+  isQuarterTurn,
+  normalizeAnnotationShape,
+  normalizeRotation,
+  placeAnnotationShape,
+} from '@/lib/annotations';
+import {
+  drawAnnotationPrimitives,
+  getCalloutRadius,
+  getShapeBlurRegion,
+  getShapePrimitives,
+  getTextLabelBox,
+  pixelateRegion,
+  renderAnnotatedCanvas,
+} from '@/lib/annotation-renderer';
 
 interface Point {
   x: number;
   y: number;
 }
 
+// Markup tools drawn on top of the photo:
+// text: label centred on `center`
+// callout: numbered bubble at points[1] with a leader line to the spot at points[0]
+// measure: dimension line from points[0] to points[1] labelled with the typed length
+// blur: pixelated rectangle (center/width/height, like square) that hides what is under it
+const MARKUP_TOOLS = ['text', 'callout', 'measure', 'blur'] as const;
+
+type MarkupTool = (typeof MARKUP_TOOLS)[number];
+
+const isMarkupTool = (value: string): value is MarkupTool => (MARKUP_TOOLS as readonly string[]).includes(value);
+
 interface Line {
   points: Point[];
   color: string;
   size: number;
-  type: 'draw' | 'arrow' | 'circle' | 'square';
+  type: 'draw' | 'arrow' | 'circle' | 'square' | MarkupTool;
   id: number;
   rotation?: number;
   scale?: number;
@@ -20,6 +50,7 @@ interface Line {
   radius?: number; // Keep for backward compatibility
   width?: number;
   height?: number;
+  text?: string; // Label text, callout number or measured length
 }
 
 interface CropAction {
@@ -44,7 +75,16 @@ interface DeleteAction {
   id: number;
 }
 
-type Action = Line | CropAction | RotateAction | DeleteAction;
+interface EditAction {
+  type: 'edit';
+  previousLine: Line;
+  line: Line;
+  id: number;
+}
+
+type Action = Line | CropAction | RotateAction | DeleteAction | EditAction;
+
+export type EditorMode = 'none' | 'crop' | 'arrow' | 'circle' | 'square' | MarkupTool;
 
 interface CropFrame {
   x: number;
@@ -54,7 +94,7 @@ interface CropFrame {
 }
 
 interface ImageEditorProps {
-  activeMode: 'none' | 'crop' | 'arrow' | 'circle' | 'square';
+  activeMode: EditorMode;
   onCropStateChange: (hasFrame: boolean) => void;
   onUndo: () => void;
   onRedo: () => void;
@@ -69,8 +109,8 @@ interface ImageEditorProps {
   setThumbnail: (thumb: string | null) => void;
   preloadedImage?: HTMLImageElement | null; // New prop for preloaded images
   preloadedFile?: File | null; // New prop for preloaded file
-  preloadedAnnotations?: Line[]; // Editable annotations to load
-  onAnnotationsChange?: (annotations: Line[]) => void; // Callback when annotations change
+  preloadedAnnotations?: AnnotationDocument | null; // Editable annotations to load
+  onAnnotationsChange?: (annotations: AnnotationDocument) => void; // Callback when annotations change
 }
 
 const ImageEditor: React.FC<ImageEditorProps> = ({
@@ -252,31 +292,27 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
     }
   }, [preloadedImage, preloadedFile]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Preloaded annotation document, waiting for the photo to be laid out so it can be placed
+  const pendingAnnotationsRef = useRef<AnnotationDocument | null>(null);
+
   // Load preloaded annotations if provided
   useEffect(() => {
     console.log('🔍 preloadedAnnotations useEffect triggered');
-    console.log('  - preloadedAnnotations:', preloadedAnnotations);
-    console.log('  - is array:', Array.isArray(preloadedAnnotations));
-    console.log('  - length:', preloadedAnnotations?.length || 0);
-    console.log('  - current lines.length:', lines.length);
-
-    if (preloadedAnnotations && preloadedAnnotations.length > 0) {
-      console.log('📥 Loading preloaded annotations:', preloadedAnnotations.length);
-      console.log('  - Sample annotation:', JSON.stringify(preloadedAnnotations[0]));
-      setLines(preloadedAnnotations);
-
-      // Find max ID to continue from
-      const maxId = Math.max(0, ...preloadedAnnotations.map(line => line.id || 0));
-      setLineIdCounter(maxId + 1);
-
-      console.log('✅ Annotations loaded, next ID will be:', maxId + 1);
-
-      // Verify lines were set
-      setTimeout(() => {
-        console.log('🔍 Verification: lines.length after setLines:', lines.length);
-      }, 100);
-    } else {
-      console.log('⚠️ NOT loading annotations - empty or undefined');
+    console.log('  - shapes:', preloadedAnnotations?.shapes.length || 0);
+    console.log('  - legacy lines:', preloadedAnnotations?.legacy?.lines.length || 0);
+
+    if (!preloadedAnnotations) return;
+
+    if (preloadedAnnotations.shapes.length > 0) {
+      // Placed by the render pass once the photo is on the canvas with this rotation
+      pendingAnnotationsRef.current = preloadedAnnotations;
+      setImageRotation(preloadedAnnotations.rotation);
+      setCanvasSizeVersion(v => v + 1);
+    } else if (preloadedAnnotations.legacy?.lines.length) {
+      // Saved before annotation documents existed, in this canvas's pixels; load them as they are
+      const legacyLines = preloadedAnnotations.legacy.lines as Line[];
+      setLines(legacyLines);
+      setLineIdCounter(Math.max(0, ...legacyLines.map(line => line.id || 0)) + 1);
     }
   }, [preloadedAnnotations]);
 
@@ -307,7 +343,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
     const isInteracting = isDraggingArrow || isMovingShape || isResizingShape || isResizingArrow || isDrawing;
 
     if (!isInteracting && onAnnotationsChange) {
-      onAnnotationsChange(lines);
+      onAnnotationsChange(toAnnotationDocument(lines));
     }
   }, [lines]); // eslint-disable-line react-hooks/exhaustive-deps
   */
@@ -529,6 +565,8 @@ const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
   } | null>(null);
   const isMovingRef = useRef(false);
   const linesRef = useRef<Line[]>([]);
+  // Markup shape as it was when a move/resize started, so the change can be undone as an edit
+  const markupSnapshotRef = useRef<Line | null>(null);
 
   // Frame counter for throttling setLines calls to prevent "Maximum update depth exceeded"
   // By skipping frames, we reduce setLines calls from 60+/sec to ~20/sec
@@ -724,6 +762,16 @@ const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const currentTime = Date.now();
       const timeDiff = currentTime - lastTapTime;
       
+      // Double tap on a label, callout or measure line re-opens its text
+      if (timeDiff < 300) {
+        const tappedMarkup = getEditableMarkupAt({ x: mouseX, y: mouseY });
+        if (tappedMarkup) {
+          setLastTapTime(0);
+          editMarkupText(tappedMarkup);
+          return;
+        }
+      }
+
       if (timeDiff < 300 && selectedArrowId !== null) {
         const clickedArrow = lines.find(line => 
           line.type === 'arrow' && isPointInArrow(line, { x: mouseX, y: mouseY })
@@ -855,170 +903,13 @@ const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
         Math.round(image.naturalHeight || image.height || displayCanvas.height)
       );
 
-      // If rotated by 90/270, swap canvas dimensions to avoid cropping or stretching
-      const normalizedRotation = ((imageRotation % 360) + 360) % 360;
-      const quarterTurn = normalizedRotation === 90 || normalizedRotation === 270;
-
-      const exportCanvas = document.createElement('canvas');
-      exportCanvas.width = naturalWidth;
-      exportCanvas.height = naturalHeight;
-
-      const ctx = exportCanvas.getContext('2d', {
-        willReadFrequently: false,
-        alpha: false,
-      });
-
-      if (!ctx) {
+      // Same document and renderer as the saved annotations, at the photo's full resolution
+      const exportCanvas = renderAnnotatedCanvas(image, naturalWidth, naturalHeight, toAnnotationDocument(lines));
+      if (!exportCanvas) {
         console.error('❌ Could not get export canvas context');
         return null;
       }
 
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-      ctx.clearRect(0, 0, naturalWidth, naturalHeight);
-
-      if (imageRotation !== 0) {
-        ctx.save();
-        // rotate around the center of the export canvas
-        ctx.translate(exportCanvas.width / 2, exportCanvas.height / 2);
-        ctx.rotate((imageRotation * Math.PI) / 180);
-        // draw the image centered at natural size (no distortion)
-        ctx.drawImage(image, -naturalWidth / 2, -naturalHeight / 2, naturalWidth, naturalHeight);
-        ctx.restore();
-      } else {
-        // no rotation, draw at natural size, top-left
-        ctx.drawImage(image, 0, 0, naturalWidth, naturalHeight);
-      }
-
-      const metrics = renderMetricsRef.current;
-      const baseDrawWidth = metrics.drawWidth || displayCanvas.width;
-      const baseDrawHeight = metrics.drawHeight || displayCanvas.height;
-      const offsetX = metrics.offsetX || 0;
-      const offsetY = metrics.offsetY || 0;
-
-      const safeDrawWidth = baseDrawWidth || displayCanvas.width;
-      const safeDrawHeight = baseDrawHeight || displayCanvas.height;
-
-      const scaleX = safeDrawWidth !== 0 ? naturalWidth / safeDrawWidth : 1;
-      const scaleY = safeDrawHeight !== 0 ? naturalHeight / safeDrawHeight : 1;
-      const avgScale = (scaleX + scaleY) / 2;
-
-      const transformPoint = (point: Point): Point => {
-        // First, adjust for offset and scale
-        let x = (point.x - offsetX) * scaleX;
-        let y = (point.y - offsetY) * scaleY;
-
-        // Then, adjust for rotation if needed
-        if (imageRotation !== 0) {
-          const centerX = naturalWidth / 2;
-          const centerY = naturalHeight / 2;
-          const angle = (imageRotation * Math.PI) / 180;
-
-          // Translate to origin
-          x -= centerX;
-          y -= centerY;
-
-          // Rotate
-          const cos = Math.cos(angle);
-          const sin = Math.sin(angle);
-          const rotatedX = x * cos - y * sin;
-          const rotatedY = x * sin + y * cos;
-
-          // Translate back
-          x = rotatedX + centerX;
-          y = rotatedY + centerY;
-        }
-
-        return { x, y };
-      };
-
-      const sanitizePoint = (point: Point): Point => ({
-        x: Number.isFinite(point.x) ? point.x : 0,
-        y: Number.isFinite(point.y) ? point.y : 0,
-      });
-
-      // Draw annotations – rotate context with the image so positions match what user saw
-      ctx.save();
-      if (imageRotation !== 0) {
-        ctx.translate(exportCanvas.width / 2, exportCanvas.height / 2);
-        ctx.rotate((imageRotation * Math.PI) / 180);
-        ctx.translate(-exportCanvas.width / 2, -exportCanvas.height / 2);
-      }
-
-      lines.forEach((line) => {
-        const scaledPoints = line.points.map((pt) => sanitizePoint(transformPoint(pt)));
-
-        const scaledLine: Line = {
-          ...line,
-          points: scaledPoints,
-          size: line.size * avgScale,
-        };
-
-        if (line.center) {
-          scaledLine.center = sanitizePoint(transformPoint(line.center));
-        }
-        if (line.radius !== undefined) {
-          scaledLine.radius = line.radius * avgScale;
-        }
-        if (line.width !== undefined) {
-          scaledLine.width = line.width * scaleX;
-        }
-        if (line.height !== undefined) {
-          scaledLine.height = line.height * scaleY;
-        }
-
-        ctx.strokeStyle = line.color;
-        ctx.fillStyle = line.color;
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        ctx.lineWidth = scaledLine.size;
-
-        if (scaledLine.type === 'draw') {
-          ctx.beginPath();
-          scaledLine.points.forEach((pt, index) => {
-            if (index === 0) ctx.moveTo(pt.x, pt.y);
-            else ctx.lineTo(pt.x, pt.y);
-          });
-          ctx.stroke();
-        } else if (scaledLine.type === 'arrow' && scaledLine.points.length >= 2) {
-          drawTransformedArrow(ctx, scaledLine);
-        } else if (
-          scaledLine.type === 'circle' &&
-          scaledLine.center &&
-          scaledLine.width !== undefined &&
-          scaledLine.height !== undefined
-        ) {
-          const scaledThickness = Math.max(2, scaledLine.size);
-          drawCircle(
-            ctx,
-            scaledLine.center.x,
-            scaledLine.center.y,
-            scaledLine.width,
-            scaledLine.height,
-            scaledLine.color,
-            scaledThickness
-          );
-        } else if (
-          scaledLine.type === 'square' &&
-          scaledLine.center &&
-          scaledLine.width !== undefined &&
-          scaledLine.height !== undefined
-        ) {
-          const scaledThickness = Math.max(2, scaledLine.size);
-          drawSquare(
-            ctx,
-            scaledLine.center.x,
-            scaledLine.center.y,
-            scaledLine.width,
-            scaledLine.height,
-            scaledLine.color,
-            scaledThickness
-          );
-        }
-      });
-
-      ctx.restore();
-
       const quality = 0.98;
       const dataUrl = exportCanvas.toDataURL('image/jpeg', quality);
       const byteString = atob(dataUrl.split(",")[1]);
@@ -1087,6 +978,8 @@ const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
         return [...prev, lastAction.line];
       });
       setSelectedArrowId(lastAction.line.id);
+    } else if (lastAction.type === 'edit') {
+      setLines(prev => prev.map(line => line.id === lastAction.id ? lastAction.previousLine : line));
     } else {
       // Handle undo for drawing actions (arrow, circle, square)
       setLines(prev => prev.filter(line => line.id !== lastAction.id));
@@ -1158,6 +1051,8 @@ const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
     } else if (lastRedoAction.type === 'delete') {
       setLines(prev => prev.filter(line => line.id !== lastRedoAction.line.id));
       setSelectedArrowId(null);
+    } else if (lastRedoAction.type === 'edit') {
+      setLines(prev => prev.map(line => line.id === lastRedoAction.id ? lastRedoAction.line : line));
     } else if (lastRedoAction.type !== 'rotate') {
       // Handle redo for drawing actions (arrow, circle, square) only
       // Skip rotation actions (they should never be in redoHistory anymore)
@@ -1191,7 +1086,7 @@ const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
     saveAction(deleteAction);
 
     if (onAnnotationsChange) {
-      onAnnotationsChange(updatedLines);
+      onAnnotationsChange(toAnnotationDocument(updatedLines));
     }
 
     if (typeof window !== 'undefined') {
@@ -1459,6 +1354,155 @@ const captureImage = () => {
     setDrawingColor(newColor);
   };
 
+  // Hit test for the markup tools (text, callout, measure, blur)
+  const isPointInMarkup = (line: Line, point: Point, tolerance: number = 10) => {
+    if (line.type === 'text' && line.center && line.text) {
+      const box = getTextLabelBox(line.center, line.text, line.size);
+      return point.x >= box.left - tolerance && point.x <= box.left + box.width + tolerance &&
+        point.y >= box.top - tolerance && point.y <= box.top + box.height + tolerance;
+    } else if (line.type === 'callout' && line.points.length >= 2) {
+      const bubble = line.points[1];
+      return Math.hypot(point.x - bubble.x, point.y - bubble.y) <= getCalloutRadius(line.size) + tolerance ||
+        getDistanceToSegment(point, line.points[0], bubble) <= tolerance;
+    } else if (line.type === 'measure' && line.points.length >= 2) {
+      return getDistanceToSegment(point, line.points[0], line.points[1]) <= line.size + tolerance;
+    } else if (line.type === 'blur' && line.center && line.width !== undefined && line.height !== undefined) {
+      return Math.abs(point.x - line.center.x) <= line.width / 2 + tolerance &&
+        Math.abs(point.y - line.center.y) <= line.height / 2 + tolerance;
+    }
+    return false;
+  };
+
+  // Draggable end of a callout (the spot it points at) or of a measure line
+  const getMarkupEndpointAt = (line: Line, point: Point): 'start' | 'end' | null => {
+    if ((line.type !== 'callout' && line.type !== 'measure') || line.points.length < 2) return null;
+    const tolerance = 15;
+    if (Math.hypot(point.x - line.points[0].x, point.y - line.points[0].y) <= tolerance) return 'start';
+    if (line.type === 'measure' && Math.hypot(point.x - line.points[1].x, point.y - line.points[1].y) <= tolerance) return 'end';
+    return null;
+  };
+
+  // Select a markup shape and start resizing or moving it, from any mode
+  const beginMarkupInteraction = (shape: Line, mouseX: number, mouseY: number) => {
+    setSelectedArrowId(shape.id);
+    markupSnapshotRef.current = shape;
+
+    const endpoint = getMarkupEndpointAt(shape, { x: mouseX, y: mouseY });
+    if (endpoint) {
+      setIsResizingShape(true);
+      setResizeHandle(endpoint);
+      setInitialShapeData({ id: shape.id });
+      return;
+    }
+
+    if (shape.type === 'blur' && shape.center && shape.width !== undefined && shape.height !== undefined) {
+      const tolerance = 20;
+      const clickedHandle = getRectHandles(shape.center, shape.width, shape.height).find(handle =>
+        Math.abs(mouseX - handle.x) < tolerance && Math.abs(mouseY - handle.y) < tolerance
+      );
+      if (clickedHandle) {
+        setIsResizingShape(true);
+        setResizeHandle(clickedHandle.name);
+        setInitialShapeData({
+          center: shape.center,
+          width: shape.width,
+          height: shape.height,
+          id: shape.id
+        });
+        return;
+      }
+    }
+
+    const anchor = shape.center || shape.points[0];
+    setIsMovingShape(true);
+    setMoveOffset({ x: mouseX - anchor.x, y: mouseY - anchor.y });
+  };
+
+  const getNextCalloutNumber = () => {
+    const numbers = lines
+      .filter(line => line.type === 'callout')
+      .map(line => parseInt(line.text || '', 10))
+      .filter(n => Number.isFinite(n));
+    return numbers.length > 0 ? Math.max(...numbers) + 1 : 1;
+  };
+
+  // Returns the trimmed text, or null when the prompt was cancelled or left empty
+  const promptForMarkupText = (type: 'text' | 'callout' | 'measure', current: string) => {
+    const messages = {
+      text: 'Label text',
+      callout: 'Callout number (e.g. the defect number)',
+      measure: 'Measured length (e.g. 4\' 6" or 1.2 m)',
+    };
+    const value = window.prompt(messages[type], current);
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : null;
+  };
+
+  // Builds the shape for a finished text/callout/measure/blur gesture; null when it was too small or cancelled
+  const createMarkupLine = (tool: MarkupTool, start: Point, end: Point | null): Line | null => {
+    const base = { color: drawingColor, size: Math.max(2, shapeThickness), id: lineIdCounter };
+
+    if (tool === 'text') {
+      const text = promptForMarkupText('text', '');
+      return text ? { ...base, type: 'text', points: [start], center: start, text } : null;
+    }
+    if (tool === 'callout') {
+      const text = promptForMarkupText('callout', String(getNextCalloutNumber()));
+      return text ? { ...base, type: 'callout', points: [start, end || start], text } : null;
+    }
+    if (!end) return null;
+    if (tool === 'measure') {
+      if (Math.hypot(end.x - start.x, end.y - start.y) < 10) return null;
+      const text = promptForMarkupText('measure', '');
+      return text ? { ...base, type: 'measure', points: [start, end], text } : null;
+    }
+
+    const width = Math.abs(end.x - start.x);
+    const height = Math.abs(end.y - start.y);
+    if (width < 5 || height < 5) return null;
+    return {
+      ...base,
+      type: 'blur',
+      points: [start, end],
+      center: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+      width,
+      height
+    };
+  };
+
+  const getEditableMarkupAt = (point: Point) =>
+    lines.find(line =>
+      (line.type === 'text' || line.type === 'callout' || line.type === 'measure') && isPointInMarkup(line, point)
+    );
+
+  // Re-opens the text of a label, callout or measure line
+  const editMarkupText = (line: Line) => {
+    if (line.type !== 'text' && line.type !== 'callout' && line.type !== 'measure') return;
+    const text = promptForMarkupText(line.type, line.text || '');
+    if (!text || text === line.text) return;
+
+    const updatedLine: Line = { ...line, text };
+    const newLines = lines.map(l => l.id === line.id ? updatedLine : l);
+    setLines(newLines);
+    setSelectedArrowId(line.id);
+    saveAction({ type: 'edit', id: line.id, previousLine: line, line: updatedLine });
+
+    queueMicrotask(() => {
+      if (onAnnotationsChange) {
+        onAnnotationsChange(toAnnotationDocument(newLines));
+      }
+    });
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!canvasRef.current) return;
+    const rect = canvasRef.current.getBoundingClientRect();
+    const target = getEditableMarkupAt({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    if (target) {
+      editMarkupText(target);
+    }
+  };
+
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!canvasRef.current) return;
     
@@ -1540,11 +1584,16 @@ const captureImage = () => {
           const bottom = line.center.y + line.height / 2;
           return mouseX >= left && mouseX <= right && mouseY >= top && mouseY <= bottom;
         }
-        return false;
+        return isPointInMarkup(line, { x: mouseX, y: mouseY });
       });
       
       if (clickedShape) {
         setSelectedArrowId(clickedShape.id);
+
+        if (isMarkupTool(clickedShape.type)) {
+          beginMarkupInteraction(clickedShape, mouseX, mouseY);
+          return;
+        }
         
         if (clickedShape.type === 'arrow') {
           // Rotation handle removed; skip rotate detection
@@ -1748,12 +1797,17 @@ const captureImage = () => {
           const bottom = line.center.y + line.height / 2;
           return mouseX >= left && mouseX <= right && mouseY >= top && mouseY <= bottom;
         }
-        return false;
+        return isPointInMarkup(line, { x: mouseX, y: mouseY });
       });
 
       if (clickedShape) {
         setSelectedArrowId(clickedShape.id);
 
+        if (isMarkupTool(clickedShape.type)) {
+          beginMarkupInteraction(clickedShape, mouseX, mouseY);
+          return;
+        }
+
         if (clickedShape.type === 'arrow') {
           // Rotation handle removed; skip rotate detection
           const center = getArrowCenter(clickedShape);
@@ -1898,12 +1952,17 @@ const captureImage = () => {
           const bottom = line.center.y + line.height / 2;
           return mouseX >= left - 15 && mouseX <= right + 15 && mouseY >= top - 15 && mouseY <= bottom + 15;
         }
-        return false;
+        return isPointInMarkup(line, { x: mouseX, y: mouseY });
       });
 
       if (clickedShape) {
         setSelectedArrowId(clickedShape.id);
 
+        if (isMarkupTool(clickedShape.type)) {
+          beginMarkupInteraction(clickedShape, mouseX, mouseY);
+          return;
+        }
+
         if (clickedShape.type === 'arrow') {
           // Handle arrow selection in circle/square mode
           const center = getArrowCenter(clickedShape);
@@ -2029,6 +2088,18 @@ const captureImage = () => {
       setIsDrawing(true);
       setCurrentLine([{ x: mouseX, y: mouseY }]);
       return;
+    } else if (isMarkupTool(activeMode)) {
+      const clickedMarkup = lines.find(line => isPointInMarkup(line, { x: mouseX, y: mouseY }));
+      if (clickedMarkup) {
+        beginMarkupInteraction(clickedMarkup, mouseX, mouseY);
+        return;
+      }
+
+      // Start a new label/callout/measure line/blur region; it is created on mouse up
+      setSelectedArrowId(null);
+      setIsDrawing(true);
+      setCurrentLine([{ x: mouseX, y: mouseY }]);
+      return;
     }
   };
 
@@ -2178,7 +2249,7 @@ const captureImage = () => {
                     { x: newCenterX + line.width! / 2, y: newCenterY + line.height! / 2 }
                   ]
                 };
-              } else if (line.type === 'square') {
+              } else if (line.type === 'square' || line.type === 'blur') {
                 return {
                   ...line,
                   center: { x: newCenterX, y: newCenterY },
@@ -2193,6 +2264,24 @@ const captureImage = () => {
                 const deltaX = newCenterX - oldCenter.x;
                 const deltaY = newCenterY - oldCenter.y;
 
+                return {
+                  ...line,
+                  points: line.points.map(point => ({
+                    x: point.x + deltaX,
+                    y: point.y + deltaY
+                  }))
+                };
+              } else if (line.type === 'text') {
+                return {
+                  ...line,
+                  center: { x: newCenterX, y: newCenterY },
+                  points: [{ x: newCenterX, y: newCenterY }]
+                };
+              } else if (line.type === 'callout' || line.type === 'measure') {
+                // Moved by their first point, the anchor used when the move started
+                const deltaX = newCenterX - line.points[0].x;
+                const deltaY = newCenterY - line.points[0].y;
+
                 return {
                   ...line,
                   points: line.points.map(point => ({
@@ -2263,8 +2352,19 @@ const captureImage = () => {
             return updatedLines;
           });
         }
-      } else if (shape?.type === 'square' && initialShapeData.width !== undefined && initialShapeData.height !== undefined) {
-        // Square resizing
+      } else if ((shape?.type === 'callout' || shape?.type === 'measure') && (resizeHandle === 'start' || resizeHandle === 'end')) {
+        // Dragging one end of a callout leader or measure line
+        const pointIndex = resizeHandle === 'start' ? 0 : 1;
+
+        if (frameCounterRef.current++ % 3 === 0) {
+          setLines(prev => prev.map(line =>
+            line.id === initialShapeData.id
+              ? { ...line, points: line.points.map((point, i) => i === pointIndex ? { x: mouseX, y: mouseY } : point) }
+              : line
+          ));
+        }
+      } else if ((shape?.type === 'square' || shape?.type === 'blur') && initialShapeData.width !== undefined && initialShapeData.height !== undefined) {
+        // Square (and blur region) resizing
         let newWidth = initialShapeData.width;
         let newHeight = initialShapeData.height;
 
@@ -2381,7 +2481,7 @@ const captureImage = () => {
           const bottom = line.center.y + line.height / 2;
           return mouseX >= left && mouseX <= right && mouseY >= top && mouseY <= bottom;
         }
-        return false;
+        return isPointInMarkup(line, { x: mouseX, y: mouseY });
       });
       setHoveredArrowId(hoveredShape ? hoveredShape.id : null);
     } else if (activeMode === 'arrow') {
@@ -2432,11 +2532,11 @@ const captureImage = () => {
             const bottom = line.center.y + line.height / 2;
             return mouseX >= left && mouseX <= right && mouseY >= top && mouseY <= bottom;
           }
-          return false;
+          return isPointInMarkup(line, { x: mouseX, y: mouseY });
         });
         setHoveredArrowId(hoveredShape ? hoveredShape.id : null);
       }
-    } else if ((activeMode === 'circle' || activeMode === 'square') && isDrawing && currentLine && hasDragged) {
+    } else if ((activeMode === 'circle' || activeMode === 'square' || isMarkupTool(activeMode)) && isDrawing && currentLine && hasDragged) {
       // Update the current line with the new mouse position for real-time preview
       if (currentLine.length >= 1) {
         setCurrentLine([currentLine[0], { x: mouseX, y: mouseY }]);
@@ -2469,9 +2569,13 @@ const captureImage = () => {
           const bottom = line.center.y + line.height / 2;
           return mouseX >= left - 15 && mouseX <= right + 15 && mouseY >= top - 15 && mouseY <= bottom + 15;
         }
-        return false;
+        return isPointInMarkup(line, { x: mouseX, y: mouseY });
       });
       setHoveredArrowId(hoveredShape ? hoveredShape.id : null);
+    } else if (isMarkupTool(activeMode)) {
+      // Markup tools only pick up markup shapes; anywhere else starts a new one
+      const hoveredMarkup = lines.find(line => isPointInMarkup(line, { x: mouseX, y: mouseY }));
+      setHoveredArrowId(hoveredMarkup ? hoveredMarkup.id : null);
     }
   }, [activeMode, cropFrame, resizingCropHandle, isDraggingCrop, dragCropOffset, isDrawing, selectedArrowId, lines, isDraggingArrow, interactionMode, dragArrowOffset, currentLine, currentArrowSize, hoveredArrowId, isResizingShape, initialShapeData, resizeHandle, isMovingShape, moveOffset, hasDragged, dragStartPoint, circleColor, squareColor, isResizingArrow, arrowResizeEnd]);
 
@@ -2521,7 +2625,7 @@ const captureImage = () => {
       // Notify parent after render cycle completes to avoid "setState in render" error
       queueMicrotask(() => {
         if (onAnnotationsChange) {
-          onAnnotationsChange(newLines);
+          onAnnotationsChange(toAnnotationDocument(newLines));
         }
       });
     } else if ((activeMode === 'circle' || activeMode === 'square') && isDrawing && currentLine && currentLine.length >= 2 && hasDragged) {
@@ -2574,7 +2678,42 @@ const captureImage = () => {
       // Notify parent after render cycle completes to avoid "setState in render" error
       queueMicrotask(() => {
         if (onAnnotationsChange) {
-          onAnnotationsChange(newLines);
+          onAnnotationsChange(toAnnotationDocument(newLines));
+        }
+      });
+    } else if (isMarkupTool(activeMode) && isDrawing && currentLine && currentLine.length >= 1) {
+      const end = hasDragged && currentLine.length >= 2 ? currentLine[currentLine.length - 1] : null;
+      const newLine = createMarkupLine(activeMode, currentLine[0], end);
+      setCurrentLine(null);
+
+      if (newLine) {
+        setLineIdCounter(prev => prev + 1);
+        const newLines = [...lines, newLine];
+        setLines(newLines);
+        setSelectedArrowId(newLine.id);
+        saveAction(newLine);
+
+        // Notify parent after render cycle completes to avoid "setState in render" error
+        queueMicrotask(() => {
+          if (onAnnotationsChange) {
+            onAnnotationsChange(toAnnotationDocument(newLines));
+          }
+        });
+      }
+    }
+
+    // Moving or resizing a markup shape is recorded as an edit, so undo puts it back where it was
+    const markupBefore = markupSnapshotRef.current;
+    markupSnapshotRef.current = null;
+    const markupAfter = markupBefore && (isMovingShape || isResizingShape)
+      ? lines.find(line => line.id === markupBefore.id)
+      : undefined;
+
+    if (markupBefore && markupAfter && markupAfter !== markupBefore) {
+      saveAction({ type: 'edit', id: markupBefore.id, previousLine: markupBefore, line: markupAfter });
+      queueMicrotask(() => {
+        if (onAnnotationsChange) {
+          onAnnotationsChange(toAnnotationDocument(lines));
         }
       });
     }
@@ -2587,7 +2726,7 @@ const captureImage = () => {
     
     if (isMovingShape) {
       // Save the final position to action history
-      if (selectedArrowId !== null) {
+      if (selectedArrowId !== null && !markupBefore) {
         const movedShape = lines.find(line => line.id === selectedArrowId);
         if (movedShape) {
           saveAction(movedShape);
@@ -2710,6 +2849,116 @@ const captureImage = () => {
     };
   };
 
+  // Editor lines to shared annotation shapes and back, both in canvas pixels
+  const lineToShape = (line: Line): AnnotationShape | null => {
+    const base = { id: line.id, color: line.color, size: Math.max(1, line.size) };
+
+    switch (line.type) {
+      case 'draw':
+        return line.points.length >= 2 ? { ...base, type: 'draw', points: line.points } : null;
+      case 'arrow': {
+        if (line.points.length < 2) return null;
+        // Bake in the pinch rotation and scale so the arrow is saved exactly as shown
+        const center = getArrowCenter(line);
+        const scale = line.scale || 1;
+        const cos = Math.cos(line.rotation || 0);
+        const sin = Math.sin(line.rotation || 0);
+        const transform = (point: Point) => {
+          const dx = (point.x - center.x) * scale;
+          const dy = (point.y - center.y) * scale;
+          return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+        };
+        return {
+          ...base,
+          type: 'arrow',
+          size: base.size * scale,
+          from: transform(line.points[0]),
+          to: transform(line.points[line.points.length - 1]),
+        };
+      }
+      case 'circle':
+      case 'square':
+      case 'blur':
+        if (!line.center || line.width === undefined || line.height === undefined) return null;
+        return { ...base, type: line.type, center: line.center, width: line.width, height: line.height };
+      case 'text':
+        return line.center && line.text ? { ...base, type: 'text', position: line.center, text: line.text } : null;
+      case 'callout':
+        return line.points.length >= 2
+          ? { ...base, type: 'callout', target: line.points[0], bubble: line.points[1], text: line.text || '' }
+          : null;
+      case 'measure':
+        return line.points.length >= 2
+          ? { ...base, type: 'measure', from: line.points[0], to: line.points[1], text: line.text || '' }
+          : null;
+    }
+  };
+
+  const shapeToLine = (shape: AnnotationShape): Line => {
+    const base = { id: shape.id, color: shape.color, size: shape.size };
+
+    switch (shape.type) {
+      case 'draw':
+        return { ...base, type: 'draw', points: shape.points };
+      case 'arrow':
+        return {
+          ...base,
+          type: 'arrow',
+          points: [shape.from, shape.to],
+          rotation: 0,
+          scale: 1,
+          center: { x: (shape.from.x + shape.to.x) / 2, y: (shape.from.y + shape.to.y) / 2 },
+        };
+      case 'circle':
+      case 'square':
+      case 'blur': {
+        const { center, width, height } = shape;
+        return {
+          ...base,
+          type: shape.type,
+          points: [
+            { x: center.x - width / 2, y: center.y - height / 2 },
+            { x: center.x + width / 2, y: center.y + height / 2 },
+          ],
+          center,
+          width,
+          height,
+        };
+      }
+      case 'text':
+        return { ...base, type: 'text', points: [shape.position], center: shape.position, text: shape.text };
+      case 'callout':
+        return { ...base, type: 'callout', points: [shape.target, shape.bubble], text: shape.text };
+      case 'measure':
+        return { ...base, type: 'measure', points: [shape.from, shape.to], text: shape.text };
+    }
+  };
+
+  // Where the rotated photo sits on the canvas; null until the photo has been laid out
+  const getEditorFrame = (): AnnotationFrame | null => {
+    const canvas = canvasRef.current;
+    const { drawWidth, drawHeight } = renderMetricsRef.current;
+    if (!canvas || !image || !drawWidth || !drawHeight) return null;
+
+    // The photo is centred on the canvas and rotated about the canvas centre
+    const rotation = normalizeRotation(imageRotation);
+    const width = isQuarterTurn(rotation) ? drawHeight : drawWidth;
+    const height = isQuarterTurn(rotation) ? drawWidth : drawHeight;
+    return { left: (canvas.width - width) / 2, top: (canvas.height - height) / 2, width, height, rotation };
+  };
+
+  // Lines as an annotation document, relative to the original photo rather than this canvas
+  const toAnnotationDocument = (source: Line[]): AnnotationDocument => {
+    const frame = getEditorFrame();
+    const shapes = frame
+      ? source
+          .map(lineToShape)
+          .filter((shape): shape is AnnotationShape => !!shape)
+          .map(shape => normalizeAnnotationShape(shape, frame))
+      : [];
+    return createAnnotationDocument(shapes, normalizeRotation(imageRotation));
+  };
+
   // Updated to accept a tolerance parameter for larger selection area
   const isPointInArrow = (line: Line, point: Point, tolerance: number = 15) => {
     if (line.points.length < 2) return false;
@@ -2958,6 +3207,81 @@ const drawSquare = (
 
 
 
+  const getDistanceToSegment = (point: Point, from: Point, to: Point) => {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - from.x) * dx + (point.y - from.y) * dy) / lenSq));
+    return Math.hypot(point.x - (from.x + t * dx), point.y - (from.y + t * dy));
+  };
+
+  const getRectHandles = (center: Point, width: number, height: number) => [
+    { x: center.x - width/2 - 5, y: center.y - height/2 - 5, name: 'top-left' },
+    { x: center.x + width/2 + 5, y: center.y - height/2 - 5, name: 'top-right' },
+    { x: center.x + width/2 + 5, y: center.y + height/2 + 5, name: 'bottom-right' },
+    { x: center.x - width/2 - 5, y: center.y + height/2 + 5, name: 'bottom-left' },
+    { x: center.x, y: center.y - height/2 - 5, name: 'top' },
+    { x: center.x + width/2 + 5, y: center.y, name: 'right' },
+    { x: center.x, y: center.y + height/2 + 5, name: 'bottom' },
+    { x: center.x - width/2 - 5, y: center.y, name: 'left' }
+  ];
+
+  // Shapes are drawn through the shared annotation renderer, so the canvas matches the saved image
+  const drawAnnotationLine = (ctx: CanvasRenderingContext2D, line: Line) => {
+    const shape = lineToShape(line);
+    if (shape) drawAnnotationPrimitives(ctx, getShapePrimitives(shape));
+  };
+
+  const drawBlurLines = (ctx: CanvasRenderingContext2D, source: Line[]) => {
+    source.forEach(line => {
+      const shape = line.type === 'blur' ? lineToShape(line) : null;
+      const region = shape && getShapeBlurRegion(shape);
+      if (region) pixelateRegion(ctx, region);
+    });
+  };
+
+  const drawMarkupSelection = (ctx: CanvasRenderingContext2D, line: Line) => {
+    let handles: Point[] = [];
+
+    ctx.save();
+    ctx.strokeStyle = 'rgba(0, 123, 255, 0.8)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([5, 5]);
+    if (line.type === 'text' && line.center && line.text) {
+      const box = getTextLabelBox(line.center, line.text, line.size);
+      ctx.strokeRect(box.left - 4, box.top - 4, box.width + 8, box.height + 8);
+    } else if (line.type === 'blur' && line.center && line.width !== undefined && line.height !== undefined) {
+      ctx.strokeRect(line.center.x - line.width / 2, line.center.y - line.height / 2, line.width, line.height);
+      handles = getRectHandles(line.center, line.width, line.height);
+    } else if (line.type === 'callout' && line.points.length >= 2) {
+      const bubble = line.points[1];
+      ctx.beginPath();
+      ctx.arc(bubble.x, bubble.y, getCalloutRadius(line.size) + 5, 0, 2 * Math.PI);
+      ctx.stroke();
+      handles = [line.points[0]];
+    } else if (line.type === 'measure' && line.points.length >= 2) {
+      handles = [line.points[0], line.points[1]];
+    }
+    ctx.setLineDash([]);
+
+    handles.forEach(h => {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.beginPath();
+      ctx.arc(h.x, h.y, 6, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.fillStyle = 'rgba(0, 123, 255, 0.9)';
+      ctx.beginPath();
+      ctx.arc(h.x, h.y, 4, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.strokeStyle = 'rgba(0, 123, 255, 1)';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.arc(h.x, h.y, 4, 0, 2 * Math.PI);
+      ctx.stroke();
+    });
+    ctx.restore();
+  };
+
   const drawTransformedArrow = (ctx: CanvasRenderingContext2D, line: Line) => {
     if (line.points.length < 2) return;
     
@@ -3054,6 +3378,19 @@ const drawSquare = (
 
     renderMetricsRef.current = currentMetrics;
 
+    // Place preloaded annotations once the photo is laid out with their rotation
+    const pendingAnnotations = pendingAnnotationsRef.current;
+    const frame = pendingAnnotations && pendingAnnotations.rotation === normalizeRotation(imageRotation) ? getEditorFrame() : null;
+    if (pendingAnnotations && frame) {
+      pendingAnnotationsRef.current = null;
+      const placed = pendingAnnotations.shapes.map(shape => shapeToLine(placeAnnotationShape(shape, frame)));
+      setLines(placed);
+      setLineIdCounter(Math.max(0, ...placed.map(line => line.id)) + 1);
+    }
+
+    // Blur regions first so they only hide the photo, never other annotations
+    drawBlurLines(ctx, lines);
+
     // Draw existing lines
     lines.forEach(line => {
       ctx.strokeStyle = line.color;
@@ -3063,12 +3400,7 @@ const drawSquare = (
       ctx.fillStyle = line.color;
       
       if (line.type === 'draw') {
-        ctx.beginPath();
-        line.points.forEach((pt, i) => {
-          if (i === 0) ctx.moveTo(pt.x, pt.y);
-          else ctx.lineTo(pt.x, pt.y);
-        });
-        ctx.stroke();
+        drawAnnotationLine(ctx, line);
       } else if (line.type === 'arrow' && line.points.length >= 2) {
         // Draw hover effect if this arrow is hovered
         if (hoveredArrowId === line.id && selectedArrowId !== line.id) {
@@ -3080,7 +3412,7 @@ const drawSquare = (
         }
         
         // Draw the main arrow
-        drawTransformedArrow(ctx, line);
+        drawAnnotationLine(ctx, line);
         
         // Show subtle selection indicator
         if (selectedArrowId === line.id) {
@@ -3153,7 +3485,7 @@ const drawSquare = (
         }
         
         // Draw the main circle
-        drawCircle(ctx, line.center.x, line.center.y, line.width || 0, line.height || 0, line.color, line.size || shapeThickness);
+        drawAnnotationLine(ctx, line);
         
         // Show selection indicator
         if (selectedArrowId === line.id) {
@@ -3210,7 +3542,7 @@ const drawSquare = (
         }
         
         // Draw the main square
-        drawSquare(ctx, line.center.x, line.center.y, line.width, line.height, line.color, line.size || shapeThickness);
+        drawAnnotationLine(ctx, line);
         
         // Show selection indicator
         if (selectedArrowId === line.id) {
@@ -3261,6 +3593,19 @@ const drawSquare = (
             ctx.stroke();
           });
         }
+      } else if (isMarkupTool(line.type)) {
+        drawAnnotationLine(ctx, line);
+
+        if (selectedArrowId === line.id) {
+          drawMarkupSelection(ctx, line);
+        } else if (hoveredArrowId === line.id && line.type === 'blur' && line.center && line.width !== undefined && line.height !== undefined) {
+          // Blur regions have no outline of their own, so show where they are on hover
+          ctx.strokeStyle = 'rgba(0, 123, 255, 0.5)';
+          ctx.lineWidth = 1;
+          ctx.setLineDash([5, 5]);
+          ctx.strokeRect(line.center.x - line.width / 2, line.center.y - line.height / 2, line.width, line.height);
+          ctx.setLineDash([]);
+        }
       }
     });
 
@@ -3298,6 +3643,30 @@ const drawSquare = (
         const width = Math.abs(endPoint.x - startPoint.x);
         const height = Math.abs(endPoint.y - startPoint.y);
   drawSquare(ctx, center.x, center.y, width, height, squareColor, Math.max(2, shapeThickness));
+      } else if (isMarkupTool(activeMode)) {
+        // Text labels and plain-click callouts have nothing to preview until mouse up
+        if (currentLine.length >= 2 && hasDragged) {
+          const from = currentLine[0];
+          const to = currentLine[currentLine.length - 1];
+          const preview = { color: drawingColor, size: Math.max(2, shapeThickness), id: -1 };
+
+          if (activeMode === 'callout') {
+            drawAnnotationLine(ctx, { ...preview, type: 'callout', points: [from, to], text: String(getNextCalloutNumber()) });
+          } else if (activeMode === 'measure') {
+            drawAnnotationLine(ctx, { ...preview, type: 'measure', points: [from, to], text: '' });
+          } else if (activeMode === 'blur') {
+            const left = Math.min(from.x, to.x);
+            const top = Math.min(from.y, to.y);
+            const width = Math.abs(to.x - from.x);
+            const height = Math.abs(to.y - from.y);
+            drawBlurLines(ctx, [{ ...preview, type: 'blur', points: [from, to], center: { x: left + width / 2, y: top + height / 2 }, width, height }]);
+            ctx.strokeStyle = 'rgba(0, 123, 255, 0.8)';
+            ctx.lineWidth = 1;
+            ctx.setLineDash([5, 5]);
+            ctx.strokeRect(left, top, width, height);
+            ctx.setLineDash([]);
+          }
+        }
       } else {
         ctx.beginPath();
         currentLine.forEach((pt, i) => {
@@ -3339,8 +3708,10 @@ const drawSquare = (
         default:
           return 'ns-resize';
       }
-    } else if (activeMode === 'crop' || activeMode === 'circle' || activeMode === 'square') {
-      return 'crosshair';
+    } else if (activeMode === 'text') {
+      return hoveredArrowId !== null ? 'grab' : 'text';
+    } else if (activeMode === 'crop' || activeMode === 'circle' || activeMode === 'square' || isMarkupTool(activeMode)) {
+      return isMarkupTool(activeMode) && hoveredArrowId !== null ? 'grab' : 'crosshair';
     } else if (activeMode === 'arrow') {
       if (interactionMode === 'move') return 'grabbing';
       if (interactionMode === 'rotate') return 'grab';
@@ -3353,7 +3724,7 @@ const drawSquare = (
         if (hoveredShape) {
           if (hoveredShape.type === 'arrow') {
             return 'pointer';
-          } else if (hoveredShape.type === 'circle' || hoveredShape.type === 'square') {
+          } else if (hoveredShape.type === 'circle' || hoveredShape.type === 'square' || isMarkupTool(hoveredShape.type)) {
             return 'grab';
           }
         }
@@ -3531,6 +3902,7 @@ const drawSquare = (
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
+        onDoubleClick={handleDoubleClick}
         onTouchStart={handleTouchStart}
         onTouchMove={handleTouchMove}
         onTouchEnd={handleTouchEnd}
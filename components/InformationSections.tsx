@@ -4,6 +4,7 @@ import { useRouter } from 'next/navigation';
 import FileUpload from './FileUpload';
 import LocationSearch from './LocationSearch';
 import { LOCATION_OPTIONS } from '../constants/locations';
+import { AnnotationDocument } from '@/lib/annotations';
 
 interface ISectionChecklist {
   _id: string;
@@ -25,7 +26,7 @@ interface ISection {
 
 interface IBlockImage {
   url: string;
-  annotations?: string;
+  annotations?: AnnotationDocument;
   checklist_id?: string; // Associate image with specific checklist item
   location?: string; // Location tag for the image (e.g., "Garage", "Left Side of House")
   isThreeSixty?: boolean; // 360° photo flag
@@ -291,7 +292,9 @@ const InformationSections: React.FC<InformationSectionsProps> = ({ inspectionId
     setLoadingSections(true);
     setError(null);
     try {
-      const res = await fetch('/api/information-sections/sections', { cache: 'no-store' });
+      // Sections come from the template chosen for this inspection (or its services / company default)
+      const query = inspectionId ? `?inspectionId=${encodeURIComponent(inspectionId)}` : '';
+      const res = await fetch(`/api/information-sections/sections${query}`, { cache: 'no-store' });
       const json = await res.json();
       if (!json.success) throw new Error(json.error || 'Failed to load sections');
       setSections(json.data);
@@ -300,7 +303,7 @@ const InformationSections: React.FC<InformationSectionsProps> = ({ inspectionId
     } finally {
       setLoadingSections(false);
     }
-  }, []);
+  }, [inspectionId]);
 
   const fetchBlocks = useCallback(async () => {
     if (!inspectionId) return;
@@ -3408,7 +3411,7 @@ const InformationSections: React.FC<InformationSectionsProps> = ({ inspectionId
             ⚠️ No Sections Found
           </div>
           <div style={{ fontSize: '0.875rem', color: '#78350f', marginBottom: '1rem' }}>
-            The database doesn't have any inspection sections configured yet.
+            The database doesn&apos;t have any inspection sections configured yet.
           </div>
           <div style={{ fontSize: '0.8125rem', color: '#78350f', backgroundColor: 'white', padding: '0.75rem', borderRadius: '0.375rem', textAlign: 'left' }}>
             <strong>To fix this:</strong><br />
@@ -5366,7 +5369,7 @@ const InformationSections: React.FC<InformationSectionsProps> = ({ inspectionId
                   📋 Answer Choices (Select Options)
                 </label>
                 <p style={{ fontSize: '0.75rem', color: '#6b7280', marginBottom: '0.75rem' }}>
-                  Manage predefined options for this checklist item. Add new options using "Add Custom Answer" in the inspection block editor.
+                  Manage predefined options for this checklist item. Add new options using &quot;Add Custom Answer&quot; in the inspection block editor.
                 </p>
 
                 {/* List of Choices */}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+interface AppNotification {
+  _id: string;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  read: boolean;
+  createdAt: string;
+}
+
+// How often the unread count is refreshed while the app is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export default function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications', { credentials: 'include' });
+      if (!response.ok) return;
+      const result = await response.json();
+      setNotifications(Array.isArray(result.notifications) ? result.notifications : []);
+      setUnreadCount(result.unreadCount || 0);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      setNotifications((prev) => prev.map((item) => (!ids || ids.includes(item._id) ? { ...item, read: true } : item)));
+      setUnreadCount((prev) => (ids ? Math.max(0, prev - ids.length) : 0));
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const handleOpen = (item: AppNotification) => {
+    if (!item.read) markRead([item._id]);
+    setOpen(false);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (value) fetchNotifications();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="text-sm font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => markRead()}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">You&apos;re all caught up.</p>
+          ) : (
+            notifications.map((item) => {
+              const content = (
+                <>
+                  <p className={cn('text-sm', !item.read && 'font-semibold')}>{item.title}</p>
+                  {item.message && <p className="line-clamp-2 text-xs text-muted-foreground">{item.message}</p>}
+                  <p className="mt-1 text-[11px] text-muted-foreground">
+                    {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+                  </p>
+                </>
+              );
+              const className = cn('block border-b px-4 py-3 last:border-b-0 hover:bg-muted/50', !item.read && 'bg-blue-50/60');
+
+              return item.link ? (
+                <Link key={item._id} href={item.link} className={className} onClick={() => handleOpen(item)}>
+                  {content}
+                </Link>
+              ) : (
+                <button key={item._id} type="button" className={cn(className, 'w-full text-left')} onClick={() => handleOpen(item)}>
+                  {content}
+                </button>
+              );
+            })
+          )}
+        </div>
+        <div className="border-t px-4 py-2 text-right">
+          <Link href="/settings" className="text-xs text-muted-foreground hover:underline" onClick={() => setOpen(false)}>
+            Notification settings
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
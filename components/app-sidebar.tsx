@@ -24,6 +24,10 @@ import {
 	CalendarCheck,
 	Contact,
 	ListChecks,
+	LayoutTemplate,
+	Mail,
+	ListTodo,
+	ClipboardCheck,
 } from "lucide-react";
 
 import {
@@ -71,6 +75,11 @@ const data = {
 					url: "/services",
 					icon: Wrench,
 				},
+				{
+					title: "Inspection Templates",
+					url: "/templates",
+					icon: LayoutTemplate,
+				},
 				{
 					title: "Discount Codes",
 					url: "/discount-codes",
@@ -96,6 +105,11 @@ const data = {
 					url: "/availability",
 					icon: CalendarClock,
 				},
+				{
+					title: "My Tasks",
+					url: "/tasks",
+					icon: ListTodo,
+				},
 			],
 		},
 		{
@@ -141,6 +155,11 @@ const data = {
 						url: "/online-scheduler",
 						icon: CalendarCheck,
 					},
+					{
+						title: "Email Templates",
+						url: "/email-templates",
+						icon: Mail,
+					},
 					{
 						title: "Scheduling Options",
 						url: "/scheduling-options",
@@ -151,6 +170,11 @@ const data = {
 						url: "/reusable-dropdowns",
 						icon: ListChecks,
 					},
+					{
+						title: "Task Templates",
+						url: "/task-templates",
+						icon: ClipboardCheck,
+					},
 				],
 			},
 	],
@@ -0,0 +1,9 @@
+export const ANALYSIS_ITEM_STATUSES = ['queued', 'running', 'done', 'failed'] as const;
+
+export type AnalysisItemStatus = (typeof ANALYSIS_ITEM_STATUSES)[number];
+
+// Photos analyzed at the same time for one batch, unless the request asks for fewer
+export const DEFAULT_ANALYSIS_BATCH_CONCURRENCY = 3;
+export const MAX_ANALYSIS_BATCH_CONCURRENCY = 10;
+
+export const MAX_ANALYSIS_BATCH_ITEMS = 200;
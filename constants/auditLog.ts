@@ -0,0 +1,40 @@
+export const AUDIT_ENTITY_TYPES = [
+  'inspection',
+  'defect',
+  'information_block',
+  'service',
+  'client',
+  'agent',
+  'agency',
+  'person',
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  inspection: 'Inspection',
+  defect: 'Defect',
+  information_block: 'Information Section',
+  service: 'Service',
+  client: 'Client',
+  agent: 'Agent',
+  agency: 'Agency',
+  person: 'Person',
+};
+
+// Records whose earlier versions can be put back from the history
+export const RESTORABLE_AUDIT_ENTITY_TYPES = ['defect', 'information_block'] as const satisfies readonly AuditEntityType[];
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore'] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  restore: 'Restored',
+};
+
+export const isAuditEntityType = (value: unknown): value is AuditEntityType =>
+  typeof value === 'string' && (AUDIT_ENTITY_TYPES as readonly string[]).includes(value);
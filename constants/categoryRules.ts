@@ -0,0 +1,20 @@
+export const CATEGORY_RULE_TYPES = [
+  'Total Inspections Count',
+  'Total Revenue',
+  'First Inspection',
+  'Last Inspection',
+  "Buyer's Agent Inspection Count",
+  "Seller's Agent Inspection Count",
+  "Buyer's Agent Revenue",
+  "Seller's Agent Revenue",
+  "Buyer's Agent First Inspection",
+  "Seller's Agent First Inspection",
+  "Buyer's Agent Last Inspection",
+  "Seller's Agent Last Inspection",
+] as const;
+
+export type CategoryRuleType = (typeof CATEGORY_RULE_TYPES)[number];
+
+export const CATEGORY_RULE_CONDITIONS = ['Equal To', 'Greater Than', 'Less Than'] as const;
+
+export type CategoryRuleCondition = (typeof CATEGORY_RULE_CONDITIONS)[number];
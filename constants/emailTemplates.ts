@@ -0,0 +1,153 @@
+export const EMAIL_EVENTS = [
+  'booking_confirmation',
+  'inspection_reminder',
+  'inspector_assignment',
+  'report_published',
+  'agreement_pending',
+  'online_booking',
+  'inspection_rescheduled',
+  'inspection_cancelled',
+] as const;
+
+export type EmailEvent = (typeof EMAIL_EVENTS)[number];
+
+export const EMAIL_RECIPIENTS = ['clients', 'agents', 'listingAgents', 'inspector'] as const;
+
+export type EmailRecipient = (typeof EMAIL_RECIPIENTS)[number];
+
+export interface EmailTemplateDefinition {
+  label: string;
+  description: string;
+  subject: string;
+  body: string;
+  recipients: EmailRecipient[];
+  // online_booking always goes to the Online Scheduler notification address
+  fixedRecipients?: boolean;
+}
+
+export const EMAIL_RECIPIENT_LABELS: Record<EmailRecipient, string> = {
+  clients: 'Clients',
+  agents: "Buyer's agents",
+  listingAgents: 'Listing agents',
+  inspector: 'Inspector',
+};
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailEvent, EmailTemplateDefinition> = {
+  booking_confirmation: {
+    label: 'Booking Confirmation',
+    description: 'Sent when an inspection is confirmed.',
+    subject: 'Your inspection at [ADDRESS] is confirmed',
+    body:
+      '<p>Hi [CLIENT_FIRST_NAME],</p>' +
+      '<p>Your inspection at <strong>[ADDRESS]</strong> is confirmed for [INSPECTION_DATE] at [INSPECTION_TIME] with [INSPECTOR_NAME].</p>' +
+      '<p>Services: [SERVICES]<br>Total: [PRICE]</p>' +
+      '<p>You can pay your invoice online at [PAY_LINK]</p>' +
+      '<p>Add it to your calendar: [CALENDAR_LINK]</p>' +
+      '<p>Questions? Call us at [INSPECTION_COMPANY_PHONE].</p>' +
+      '<p>[INSPECTION_COMPANY]</p>',
+    recipients: ['clients', 'agents'],
+  },
+  inspection_reminder: {
+    label: 'Inspection Reminder',
+    description: 'Sent about 24 hours before a confirmed inspection.',
+    subject: 'Reminder: inspection tomorrow at [ADDRESS]',
+    body:
+      '<p>Hi [CLIENT_FIRST_NAME],</p>' +
+      '<p>This is a reminder that your inspection at <strong>[ADDRESS]</strong> is scheduled for [INSPECTION_DATE] at [INSPECTION_TIME].</p>' +
+      '<p>Your inspector is [INSPECTOR_NAME].</p>' +
+      '<p>[INSPECTION_COMPANY]</p>',
+    recipients: ['clients', 'agents'],
+  },
+  inspector_assignment: {
+    label: 'Inspector Assignment',
+    description: 'Sent to the inspector when they are assigned to an inspection.',
+    subject: 'New inspection assigned: [ADDRESS] on [INSPECTION_DATE]',
+    body:
+      '<p>Hi [INSPECTOR_FIRST_NAME],</p>' +
+      '<p>You have been assigned the inspection at <strong>[ADDRESS]</strong> on [INSPECTION_DATE] at [INSPECTION_TIME].</p>' +
+      '<p>Client: [CLIENT_NAME] [CLIENT_CONTACT_INFO]<br>Services: [SERVICES]</p>' +
+      '<p>[EDIT_LINK]</p>',
+    recipients: ['inspector'],
+  },
+  report_published: {
+    label: 'Report Published',
+    description: 'Sent the first time the inspection report is published.',
+    subject: 'Your inspection report for [ADDRESS] is ready',
+    body:
+      '<p>Hi [CLIENT_FIRST_NAME],</p>' +
+      '<p>The inspection report for <strong>[ADDRESS]</strong> is ready.</p>' +
+      '<p>[REPORT_LINK]</p>' +
+      '<p>[INSPECTION_COMPANY]</p>',
+    recipients: ['clients', 'agents'],
+  },
+  agreement_pending: {
+    label: 'Agreement Pending',
+    description: 'Sent when an inspection has agreements the client has not signed yet.',
+    subject: 'Please sign your inspection agreement for [ADDRESS]',
+    body:
+      '<p>Hi [CLIENT_FIRST_NAME],</p>' +
+      '<p>Your inspection at <strong>[ADDRESS]</strong> on [INSPECTION_DATE] has an agreement waiting for your signature.</p>' +
+      '<p>[SIGN_LINK]</p>' +
+      '<p>[INSPECTION_COMPANY]</p>',
+    recipients: ['clients'],
+  },
+  online_booking: {
+    label: 'Online Scheduler Booking',
+    description: 'Sent to the Online Scheduler notification address when a client books online.',
+    subject: 'New online booking: [ADDRESS] on [INSPECTION_DATE]',
+    body:
+      '<p>[CLIENT_NAME] booked an inspection at <strong>[ADDRESS]</strong> for [INSPECTION_DATE] at [INSPECTION_TIME].</p>' +
+      '<p>Inspector: [INSPECTOR_NAME]<br>Services: [SERVICES]<br>Total: [PRICE]</p>' +
+      '<p>Client: [CLIENT_CONTACT_INFO]</p>' +
+      '<p>[EDIT_LINK]</p>',
+    recipients: [],
+    fixedRecipients: true,
+  },
+  inspection_rescheduled: {
+    label: 'Inspection Rescheduled',
+    description: "Sent when a confirmed inspection's time, inspector or address changes.",
+    subject: 'Your inspection at [ADDRESS] has been updated',
+    body:
+      '<p>Hi [CLIENT_FIRST_NAME],</p>' +
+      '<p>Your inspection at <strong>[ADDRESS]</strong> is now scheduled for [INSPECTION_DATE] at [INSPECTION_TIME] with [INSPECTOR_NAME].</p>' +
+      '<p>The attached invite updates the appointment in your calendar.</p>' +
+      '<p>[INSPECTION_COMPANY]</p>',
+    recipients: ['clients', 'agents'],
+  },
+  inspection_cancelled: {
+    label: 'Inspection Cancelled',
+    description: 'Sent when a confirmed inspection is deleted.',
+    subject: 'Your inspection at [ADDRESS] has been cancelled',
+    body:
+      '<p>Hi [CLIENT_FIRST_NAME],</p>' +
+      '<p>Your inspection at <strong>[ADDRESS]</strong> on [INSPECTION_DATE] has been cancelled.</p>' +
+      '<p>Questions? Call us at [INSPECTION_COMPANY_PHONE].</p>' +
+      '<p>[INSPECTION_COMPANY]</p>',
+    recipients: ['clients', 'agents'],
+  },
+};
+
+// Placeholders offered in the email template editor
+export const EMAIL_MERGE_FIELDS: Array<{ token: string; description: string }> = [
+  { token: '[CLIENT_NAME]', description: 'Client’s full name.' },
+  { token: '[CLIENT_FIRST_NAME]', description: 'Client’s first name.' },
+  { token: '[CLIENT_CONTACT_INFO]', description: 'Client email plus phone number.' },
+  { token: '[AGENT_NAME]', description: 'Client agent’s full name.' },
+  { token: '[SELLING_AGENT_NAME]', description: 'Listing agent’s full name.' },
+  { token: '[ADDRESS]', description: 'Full inspection address.' },
+  { token: '[INSPECTION_DATE]', description: 'Scheduled inspection date.' },
+  { token: '[INSPECTION_TIME]', description: 'Inspection start time.' },
+  { token: '[INSPECTOR_NAME]', description: 'Primary inspector’s full name.' },
+  { token: '[INSPECTOR_FIRST_NAME]', description: 'Primary inspector’s first name.' },
+  { token: '[SERVICES]', description: 'Comma-separated list of services.' },
+  { token: '[PRICE]', description: 'Total cost of the inspection.' },
+  { token: '[ORDER_ID]', description: 'Order identifier for the inspection.' },
+  { token: '[REPORT_LINK]', description: 'Link to the published report.' },
+  { token: '[SIGN_LINK]', description: 'Link to the agreement signing page.' },
+  { token: '[PAY_LINK]', description: 'Link to pay the inspection invoice online.' },
+  { token: '[CALENDAR_LINK]', description: 'Link to add the inspection to a calendar (.ics).' },
+  { token: '[PAID]', description: 'Yes/No if the inspection is paid.' },
+  { token: '[EDIT_LINK]', description: 'Internal link to the inspection.' },
+  { token: '[INSPECTION_COMPANY]', description: 'Company name.' },
+  { token: '[INSPECTION_COMPANY_PHONE]', description: 'Company phone number.' },
+];
@@ -0,0 +1,91 @@
+export const INSPECTION_STATUSES = [
+  'unconfirmed',
+  'scheduled',
+  'confirmed',
+  'in_progress',
+  'report_draft',
+  'published',
+  'closed',
+  'cancelled',
+  'no_show',
+] as const;
+
+export type InspectionStatus = (typeof INSPECTION_STATUSES)[number];
+
+export const INSPECTION_STATUS_LABELS: Record<InspectionStatus, string> = {
+  unconfirmed: 'Unconfirmed',
+  scheduled: 'Scheduled',
+  confirmed: 'Confirmed',
+  in_progress: 'In Progress',
+  report_draft: 'Report Draft',
+  published: 'Published',
+  closed: 'Closed',
+  cancelled: 'Cancelled',
+  no_show: 'No-Show',
+};
+
+export const INSPECTION_STATUS_COLORS: Record<InspectionStatus, string> = {
+  unconfirmed: 'bg-amber-100 text-amber-800',
+  scheduled: 'bg-slate-100 text-slate-800',
+  confirmed: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-indigo-100 text-indigo-800',
+  report_draft: 'bg-purple-100 text-purple-800',
+  published: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-200 text-gray-700',
+  cancelled: 'bg-red-100 text-red-800',
+  no_show: 'bg-orange-100 text-orange-800',
+};
+
+/**
+ * Where each status may go next. Closed and cancelled inspections can only be reopened by a company admin.
+ */
+export const INSPECTION_STATUS_TRANSITIONS: Record<InspectionStatus, InspectionStatus[]> = {
+  unconfirmed: ['scheduled', 'confirmed', 'cancelled'],
+  scheduled: ['confirmed', 'in_progress', 'cancelled', 'no_show'],
+  confirmed: ['scheduled', 'in_progress', 'cancelled', 'no_show'],
+  in_progress: ['confirmed', 'report_draft', 'published'],
+  report_draft: ['in_progress', 'published'],
+  published: ['closed'],
+  closed: ['published'],
+  cancelled: ['scheduled'],
+  no_show: ['scheduled', 'closed'],
+};
+
+// Statuses an inspection can be created in
+export const INITIAL_INSPECTION_STATUSES = ['unconfirmed', 'scheduled', 'confirmed'] as const satisfies readonly InspectionStatus[];
+
+// Inspections in these statuses no longer hold their inspectors' time
+export const INACTIVE_INSPECTION_STATUSES = ['cancelled', 'no_show'] as const satisfies readonly InspectionStatus[];
+
+// Free-form values stored before the lifecycle existed
+const LEGACY_INSPECTION_STATUSES: Record<string, InspectionStatus> = {
+  pending: 'scheduled',
+  approved: 'confirmed',
+  'in-progress': 'in_progress',
+  completed: 'closed',
+};
+
+export const isInspectionStatus = (value: unknown): value is InspectionStatus =>
+  typeof value === 'string' && (INSPECTION_STATUSES as readonly string[]).includes(value);
+
+/**
+ * The lifecycle status for a stored value, mapping legacy values such as "Pending" onto it.
+ * Anything unrecognised reads as scheduled, the old default.
+ */
+export function normalizeInspectionStatus(value: unknown): InspectionStatus {
+  if (isInspectionStatus(value)) return value;
+  if (typeof value !== 'string') return 'scheduled';
+  const key = value.trim().toLowerCase();
+  if (isInspectionStatus(key)) return key;
+  return LEGACY_INSPECTION_STATUSES[key] || 'scheduled';
+}
+
+/**
+ * Every stored value that reads as the given status, for querying inspections saved before the lifecycle existed
+ */
+export const getStoredStatusValues = (status: InspectionStatus): string[] => [
+  status,
+  ...Object.entries(LEGACY_INSPECTION_STATUSES)
+    .filter(([, mapped]) => mapped === status)
+    .flatMap(([legacy]) => [legacy, legacy.replace(/(^|-)\w/g, (match) => match.toUpperCase())]),
+];
@@ -0,0 +1,48 @@
+export const TASK_NOTIFICATION_EVENTS = ['task_assigned', 'task_comment', 'task_due_soon', 'task_overdue'] as const;
+
+export type TaskNotificationEvent = (typeof TASK_NOTIFICATION_EVENTS)[number];
+
+export const TASK_NOTIFICATION_EVENT_LABELS: Record<TaskNotificationEvent, { label: string; description: string }> = {
+  task_assigned: {
+    label: 'Task assigned',
+    description: 'Someone gives you a task, or a task template creates one for you.',
+  },
+  task_comment: {
+    label: 'New comment',
+    description: 'Someone comments on a task you are assigned to, created or commented on.',
+  },
+  task_due_soon: {
+    label: 'Due soon',
+    description: 'One of your open tasks is due within the next day.',
+  },
+  task_overdue: {
+    label: 'Overdue',
+    description: 'One of your open tasks has passed its due date.',
+  },
+};
+
+export const NOTIFICATION_CHANNELS = ['email', 'inApp'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export interface NotificationPreferences {
+  tasks: Record<TaskNotificationEvent, Record<NotificationChannel, boolean>>;
+  // Morning email listing the user's overdue tasks and those due that day
+  dailyDigest: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  tasks: {
+    task_assigned: { email: true, inApp: true },
+    task_comment: { email: false, inApp: true },
+    task_due_soon: { email: true, inApp: true },
+    task_overdue: { email: true, inApp: true },
+  },
+  dailyDigest: true,
+};
+
+// How far ahead of the due date the "due soon" reminder goes out
+export const TASK_DUE_SOON_HOURS = 24;
+
+// Hour of the day, in the company's time zone, the daily digest is sent
+export const TASK_DIGEST_HOUR = 7;
@@ -0,0 +1,28 @@
+export const PAYMENT_METHODS = ['cash', 'check', 'card', 'online'] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+// Methods the office can record by hand; online payments come from the payment provider
+export const MANUAL_PAYMENT_METHODS = ['cash', 'check', 'card'] as const satisfies readonly PaymentMethod[];
+
+export type ManualPaymentMethod = (typeof MANUAL_PAYMENT_METHODS)[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  check: 'Check',
+  card: 'Card',
+  online: 'Online',
+};
+
+export const INVOICE_STATUSES = ['unpaid', 'partially_paid', 'paid', 'refunded'] as const;
+
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number];
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  unpaid: 'Unpaid',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  refunded: 'Refunded',
+};
+
+export const INVOICE_CURRENCY = 'usd';
@@ -0,0 +1,23 @@
+export const SMS_EVENTS = ['booking_complete'] as const;
+
+export type SmsEvent = (typeof SMS_EVENTS)[number];
+
+// Placeholders offered in SMS templates; any agreement/email merge field also works
+export const SMS_TEMPLATE_PLACEHOLDERS = [
+  '[INSPECTION_COMPANY]',
+  '[CLIENT_NAME]',
+  '[INSPECTOR_NAME]',
+  '[ADDRESS]',
+  '[INSPECTION_DATE]',
+  '[INSPECTION_TIME]',
+  '[SERVICES]',
+  '[ORDER_ID]',
+] as const;
+
+export const DEFAULT_SMS_TEMPLATES: Record<SmsEvent, string> = {
+  booking_complete:
+    '[INSPECTION_COMPANY]: New booking from [CLIENT_NAME] for [ADDRESS] on [INSPECTION_DATE] at [INSPECTION_TIME] ([SERVICES]).',
+};
+
+// Keeps templated messages to a few SMS segments
+export const SMS_TEMPLATE_MAX_LENGTH = 480;
@@ -0,0 +1,72 @@
+import type { InspectionStatus } from './inspectionStatuses';
+
+export const TASK_TYPES = ['Confirm', 'Inquiry', 'Networking', 'Scheduling', 'Other'] as const;
+
+export type TaskType = (typeof TASK_TYPES)[number];
+
+export const TASK_PRIORITIES = ['Low', 'Normal', 'High'] as const;
+
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+export const TASK_STATUSES = ['On Hold', 'In Progress', 'Complete'] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+/**
+ * Inspection events that create tasks from a company's task templates
+ */
+export const TASK_TEMPLATE_TRIGGERS = [
+  'inspection_created',
+  'inspection_confirmed',
+  'inspection_started',
+  'report_published',
+  'inspection_closed',
+  'inspection_cancelled',
+  'inspection_no_show',
+] as const;
+
+export type TaskTemplateTrigger = (typeof TASK_TEMPLATE_TRIGGERS)[number];
+
+export const TASK_TEMPLATE_TRIGGER_LABELS: Record<TaskTemplateTrigger, string> = {
+  inspection_created: 'Inspection booked',
+  inspection_confirmed: 'Inspection confirmed',
+  inspection_started: 'Inspection started',
+  report_published: 'Report published',
+  inspection_closed: 'Inspection closed',
+  inspection_cancelled: 'Inspection cancelled',
+  inspection_no_show: 'Marked no-show',
+};
+
+// Entering one of these statuses fires the matching trigger
+export const STATUS_TASK_TRIGGERS: Partial<Record<InspectionStatus, TaskTemplateTrigger>> = {
+  confirmed: 'inspection_confirmed',
+  in_progress: 'inspection_started',
+  published: 'report_published',
+  closed: 'inspection_closed',
+  cancelled: 'inspection_cancelled',
+  no_show: 'inspection_no_show',
+};
+
+// What a template's due offset is counted from
+export const TASK_DUE_ANCHORS = ['inspection_date', 'trigger'] as const;
+
+export type TaskDueAnchor = (typeof TASK_DUE_ANCHORS)[number];
+
+export const TASK_DUE_ANCHOR_LABELS: Record<TaskDueAnchor, string> = {
+  inspection_date: 'the inspection date',
+  trigger: 'the event',
+};
+
+// Who a templated task is given to
+export const TASK_ASSIGNEE_RULES = ['inspector', 'creator', 'user'] as const;
+
+export type TaskAssigneeRule = (typeof TASK_ASSIGNEE_RULES)[number];
+
+export const TASK_ASSIGNEE_RULE_LABELS: Record<TaskAssigneeRule, string> = {
+  inspector: 'Lead inspector',
+  creator: 'Whoever booked the inspection',
+  user: 'A specific team member',
+};
+
+export const isTaskTemplateTrigger = (value: unknown): value is TaskTemplateTrigger =>
+  typeof value === 'string' && (TASK_TEMPLATE_TRIGGERS as readonly string[]).includes(value);
@@ -0,0 +1,344 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+
+import Agreement from '@/src/models/Agreement';
+import AgreementSignature, { AgreementSignatureMethod, AgreementSignatureStatus } from '@/src/models/AgreementSignature';
+import Client from '@/src/models/Client';
+import Company from '@/src/models/Company';
+import Inspection from '@/src/models/Inspection';
+import Service from '@/src/models/Service';
+import { applyMergeFields, getInspectionMergeFields, loadInspectionForMerge } from './merge-fields';
+import { getInvoiceMergeFieldOptions } from './invoices';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+const APP_URL = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+const DEFAULT_INSTRUCTIONS = 'Please read through and sign:';
+// A drawn signature is a small PNG; anything far larger is not one
+const MAX_SIGNATURE_IMAGE_LENGTH = 500_000;
+
+export interface SigningDocument {
+  _id: string;
+  name: string;
+  status: AgreementSignatureStatus;
+  html: string;
+  signerName?: string;
+  signedAt?: Date;
+}
+
+export interface SigningSession {
+  companyName: string;
+  signatureType: 'checkbox' | 'written';
+  instructions: string;
+  clientName: string;
+  address: string;
+  inspectionDate: string;
+  documents: SigningDocument[];
+  complete: boolean;
+}
+
+export interface SignAgreementsInput {
+  signerName?: string;
+  signatureType?: AgreementSignatureMethod;
+  signatureData?: string;
+  accepted?: boolean;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export const getSigningLink = (token: string) => `${APP_URL}/sign/${token}`;
+
+const signatureKey = (client: unknown, agreement: unknown) => `${client}:${agreement}`;
+
+/**
+ * Agreements attached to any of the inspection's services, without duplicates
+ */
+async function getServiceAgreementIds(services: Array<{ serviceId?: unknown }> = []) {
+  const serviceIds = services.map((service) => service.serviceId).filter(Boolean);
+  if (serviceIds.length === 0) {
+    return [];
+  }
+
+  const serviceDocs = await Service.find({ _id: { $in: serviceIds } }).select('agreementIds').lean();
+  const ids = new Set<string>();
+  for (const service of serviceDocs) {
+    for (const agreementId of service.agreementIds || []) {
+      ids.add(agreementId.toString());
+    }
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Mirror the signature state on the inspection's clientAgreedToTerms flag.
+ * Returns true when nothing is left to sign.
+ */
+export async function refreshAgreementStatus(inspectionId: ObjectIdLike): Promise<boolean> {
+  const [total, pending] = await Promise.all([
+    AgreementSignature.countDocuments({ inspection: inspectionId }),
+    AgreementSignature.countDocuments({ inspection: inspectionId, status: 'pending' }),
+  ]);
+
+  // Inspections without agreements keep whatever the scheduler recorded
+  if (total > 0) {
+    await Inspection.updateOne({ _id: inspectionId }, { $set: { clientAgreedToTerms: pending === 0 } });
+  }
+
+  return pending === 0;
+}
+
+/**
+ * Bring the inspection's signature requests in line with its clients and the agreements on its
+ * services: one request per client and agreement. Signed agreements are kept as the record of what
+ * was signed; pending requests that no longer apply are dropped. Errors are logged, never thrown.
+ */
+export async function syncAgreementSignatures(inspectionId: ObjectIdLike) {
+  try {
+    const inspection = await Inspection.findById(inspectionId)
+      .select('companyId clients services.serviceId')
+      .lean();
+    if (!inspection) return;
+
+    const agreementIds = await getServiceAgreementIds(inspection.services);
+    const agreements = agreementIds.length > 0
+      ? await Agreement.find({ _id: { $in: agreementIds }, company: inspection.companyId }).select('name').lean()
+      : [];
+
+    const existing = await AgreementSignature.find({ inspection: inspection._id })
+      .select('client agreement token status')
+      .lean();
+    const existingKeys = new Set(existing.map((signature) => signatureKey(signature.client, signature.agreement)));
+    const tokens = new Map(existing.map((signature) => [signature.client.toString(), signature.token]));
+
+    const wanted = new Set<string>();
+    const missing = [];
+    for (const clientId of (inspection.clients || []).map((id) => id.toString())) {
+      const token = tokens.get(clientId) ?? crypto.randomBytes(24).toString('hex');
+      tokens.set(clientId, token);
+
+      for (const agreement of agreements) {
+        const key = signatureKey(clientId, agreement._id);
+        wanted.add(key);
+        if (!existingKeys.has(key)) {
+          missing.push({
+            company: inspection.companyId,
+            inspection: inspection._id,
+            agreement: agreement._id,
+            agreementName: agreement.name,
+            client: clientId,
+            token,
+          });
+        }
+      }
+    }
+
+    if (missing.length > 0) {
+      await AgreementSignature.insertMany(missing, { ordered: false }).catch((error) => {
+        // Another request created the same signature first
+        if (error?.code !== 11000) throw error;
+      });
+    }
+
+    const stale = existing
+      .filter((signature) => signature.status === 'pending' && !wanted.has(signatureKey(signature.client, signature.agreement)))
+      .map((signature) => signature._id);
+    if (stale.length > 0) {
+      await AgreementSignature.deleteMany({ _id: { $in: stale } });
+    }
+
+    await refreshAgreementStatus(inspectionId);
+  } catch (error) {
+    console.error('Error syncing agreement signatures:', error);
+  }
+}
+
+/**
+ * Drop unsigned requests for an agreement that is being deleted so they cannot block reports
+ */
+export async function removePendingAgreementSignatures(agreementId: ObjectIdLike) {
+  const inspectionIds = await AgreementSignature.distinct('inspection', { agreement: agreementId, status: 'pending' });
+  await AgreementSignature.deleteMany({ agreement: agreementId, status: 'pending' });
+  for (const inspectionId of inspectionIds) {
+    await refreshAgreementStatus(inspectionId);
+  }
+}
+
+export async function hasPendingAgreementSignatures(inspectionId: ObjectIdLike) {
+  return Boolean(await AgreementSignature.exists({ inspection: inspectionId, status: 'pending' }));
+}
+
+/**
+ * Clients with something left to sign, with the token for their signing link
+ */
+export async function getPendingSigners(inspectionId: ObjectIdLike) {
+  const pending = await AgreementSignature.find({ inspection: inspectionId, status: 'pending' })
+    .select('client token')
+    .lean();
+
+  const byClient = new Map<string, { client: mongoose.Types.ObjectId; token: string }>();
+  for (const signature of pending) {
+    byClient.set(signature.client.toString(), { client: signature.client, token: signature.token });
+  }
+  return Array.from(byClient.values());
+}
+
+/**
+ * Signature status of every agreement on the inspection, for the office. Pending ones carry the
+ * client's signing link so it can be shared by other means.
+ */
+export async function listInspectionSignatures(inspectionId: ObjectIdLike, companyId: ObjectIdLike) {
+  const signatures = await AgreementSignature.find({ inspection: inspectionId, company: companyId })
+    .select('-renderedHtml -signatureData -contentHash')
+    .populate('client', 'firstName lastName companyName isCompany email')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  return signatures.map(({ token, ...signature }) => ({
+    ...signature,
+    signingLink: getSigningLink(token),
+  }));
+}
+
+async function loadSigningContext(token: string) {
+  if (!token || !/^[a-f0-9]{48}$/.test(token)) {
+    return null;
+  }
+
+  const signatures = await AgreementSignature.find({ token }).sort({ createdAt: 1 }).lean();
+  if (signatures.length === 0) {
+    return null;
+  }
+
+  const inspection = await loadInspectionForMerge(signatures[0].inspection);
+  if (!inspection || inspection.deletedAt) {
+    return null;
+  }
+
+  const [client, company, agreements, invoiceFields] = await Promise.all([
+    Client.findById(signatures[0].client).select('firstName lastName companyName isCompany email phone mobilePhone').lean<any>(),
+    Company.findById(signatures[0].company).select('name agreementSignatureType agreementClientInstructions').lean(),
+    Agreement.find({ _id: { $in: signatures.filter((s) => s.status === 'pending').map((s) => s.agreement) } })
+      .select('content')
+      .lean(),
+    getInvoiceMergeFieldOptions(inspection._id),
+  ]);
+
+  const fields = getInspectionMergeFields(inspection, {
+    ...invoiceFields,
+    client: client ?? undefined,
+    signLink: getSigningLink(token),
+  });
+  const contentById = new Map(agreements.map((agreement) => [agreement._id.toString(), agreement.content]));
+  const render = (agreementId: mongoose.Types.ObjectId) =>
+    applyMergeFields(contentById.get(agreementId.toString()) || '', fields, { html: true });
+
+  return { signatures, inspection, company, fields, render };
+}
+
+type SigningContext = NonNullable<Awaited<ReturnType<typeof loadSigningContext>>>;
+
+const toSession = ({ signatures, company, fields, render }: SigningContext): SigningSession => ({
+  companyName: company?.name || fields.INSPECTION_COMPANY,
+  signatureType: company?.agreementSignatureType === 'written' ? 'written' : 'checkbox',
+  instructions: company?.agreementClientInstructions || DEFAULT_INSTRUCTIONS,
+  clientName: fields.CLIENT_NAME,
+  address: fields.ADDRESS,
+  inspectionDate: [fields.INSPECTION_DATE, fields.INSPECTION_TIME].filter(Boolean).join(' at '),
+  documents: signatures.map((signature) => ({
+    _id: signature._id.toString(),
+    name: signature.agreementName,
+    status: signature.status,
+    // Signed agreements always show the copy that was signed
+    html: signature.status === 'signed' ? signature.renderedHtml || '' : render(signature.agreement),
+    signerName: signature.signerName,
+    signedAt: signature.signedAt,
+  })),
+  complete: signatures.every((signature) => signature.status === 'signed'),
+});
+
+/**
+ * Everything the public signing page shows for a signing link, or null for an unknown link
+ */
+export async function getSigningSession(token: string): Promise<SigningSession | null> {
+  const context = await loadSigningContext(token);
+  return context ? toSession(context) : null;
+}
+
+/**
+ * Sign every pending agreement behind a signing link. Each agreement keeps the signer's name,
+ * IP address, time and the rendered text they agreed to, which does not change afterwards.
+ */
+export async function signAgreements(
+  token: string,
+  input: SignAgreementsInput
+): Promise<{
+  session?: SigningSession;
+  inspectionId?: mongoose.Types.ObjectId;
+  allSigned?: boolean;
+  error?: string;
+  notFound?: boolean;
+}> {
+  const context = await loadSigningContext(token);
+  if (!context) {
+    return { error: 'This signing link is not valid', notFound: true };
+  }
+
+  const signerName = input.signerName?.trim();
+  if (!signerName) {
+    return { error: 'Please enter your full name' };
+  }
+
+  const { signatureType } = toSession(context);
+  let method: AgreementSignatureMethod;
+  let signatureData: string | undefined;
+
+  if (signatureType === 'checkbox') {
+    if (!input.accepted) {
+      return { error: 'Please confirm you agree to the terms' };
+    }
+    method = 'checkbox';
+  } else if (input.signatureType === 'drawn') {
+    if (!input.signatureData?.startsWith('data:image/png;base64,') || input.signatureData.length > MAX_SIGNATURE_IMAGE_LENGTH) {
+      return { error: 'Please draw your signature' };
+    }
+    method = 'drawn';
+    signatureData = input.signatureData;
+  } else if (input.signatureType === 'typed') {
+    signatureData = input.signatureData?.trim();
+    if (!signatureData) {
+      return { error: 'Please type your signature' };
+    }
+    method = 'typed';
+  } else {
+    return { error: 'A signature is required' };
+  }
+
+  const signedAt = new Date();
+  for (const signature of context.signatures) {
+    if (signature.status !== 'pending') continue;
+
+    const renderedHtml = context.render(signature.agreement);
+    await AgreementSignature.updateOne(
+      { _id: signature._id, status: 'pending' },
+      {
+        $set: {
+          status: 'signed',
+          signerName,
+          signatureType: method,
+          signatureData,
+          signedAt,
+          ipAddress: input.ipAddress,
+          userAgent: input.userAgent,
+          renderedHtml,
+          contentHash: crypto.createHash('sha256').update(renderedHtml).digest('hex'),
+        },
+      }
+    );
+  }
+
+  const inspectionId = context.inspection._id as mongoose.Types.ObjectId;
+  const allSigned = await refreshAgreementStatus(inspectionId);
+  const session = await getSigningSession(token);
+
+  return { session: session ?? undefined, inspectionId, allSigned };
+}
@@ -0,0 +1,422 @@
+import mongoose from 'mongoose';
+import { Client } from '@upstash/qstash';
+import { z } from 'zod';
+
+import dbConnect from './db';
+import { createDefect } from './defect';
+import { analysisToDefectFields, getAnalysisProvider } from './defect-analysis';
+import { AnnotationValidationError, normalizeAnnotationsInput } from './annotations';
+import { getR2PublicUrl, resolveR2KeyFromUrl } from './r2';
+import AnalysisBatch, { IAnalysisBatch } from '@/src/models/AnalysisBatch';
+import AnalysisBatchItem, { IAnalysisBatchItem } from '@/src/models/AnalysisBatchItem';
+import Inspection from '@/src/models/Inspection';
+import { IUser } from '@/src/models/User';
+import {
+  ANALYSIS_ITEM_STATUSES,
+  AnalysisItemStatus,
+  DEFAULT_ANALYSIS_BATCH_CONCURRENCY,
+  MAX_ANALYSIS_BATCH_CONCURRENCY,
+  MAX_ANALYSIS_BATCH_ITEMS,
+} from '@/constants/analysisBatches';
+
+type BatchViewer = Pick<IUser, '_id' | 'company'>;
+
+// A running item whose worker has not reported back in this long is assumed lost and picked up again
+const STALE_ITEM_MS = 10 * 60 * 1000;
+// Times a lost item is picked up again before it is marked failed
+const MAX_ITEM_ATTEMPTS = 3;
+
+export class AnalysisBatchError extends Error {
+  readonly status: 400 | 404 | 409;
+
+  constructor(message: string, status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'AnalysisBatchError';
+    this.status = status;
+  }
+}
+
+const hint = z.string().trim().max(200).optional();
+
+const AnalysisBatchInputSchema = z.object({
+  inspectionId: z.string().refine((id) => mongoose.isValidObjectId(id), 'Invalid inspectionId'),
+  concurrency: z.number().int().min(1).max(MAX_ANALYSIS_BATCH_CONCURRENCY).optional(),
+  items: z
+    .array(
+      z.object({
+        imageUrl: z.string().min(1),
+        originalImage: z.string().min(1).optional(),
+        annotations: z.unknown().optional(),
+        description: z.string().trim().max(5000).optional(),
+        location: hint,
+        section: hint,
+        subSection: hint,
+        selectedColor: z.string().trim().max(20).optional(),
+      })
+    )
+    .min(1, 'At least one photo is required')
+    .max(MAX_ANALYSIS_BATCH_ITEMS, `At most ${MAX_ANALYSIS_BATCH_ITEMS} photos per batch`),
+});
+
+export type AnalysisBatchInput = z.infer<typeof AnalysisBatchInputSchema>;
+
+export function parseAnalysisBatchInput(body: unknown): { data?: AnalysisBatchInput; error?: string } {
+  const result = AnalysisBatchInputSchema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message };
+  }
+  return { data: result.data };
+}
+
+export interface AnalysisBatchSummary {
+  _id: string;
+  inspectionId: string;
+  concurrency: number;
+  totalItems: number;
+  counts: Record<AnalysisItemStatus, number>;
+  // True once no item is queued or running
+  finished: boolean;
+  createdAt: string;
+}
+
+export interface AnalysisBatchItemView {
+  _id: string;
+  order: number;
+  imageUrl: string;
+  description: string;
+  location: string;
+  section: string;
+  subSection: string;
+  status: AnalysisItemStatus;
+  attempts: number;
+  error: string | null;
+  defectId: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+// Photos are only taken from our own bucket, so providers never fetch arbitrary URLs for us
+function toBucketUrl(url: string, field: string): string {
+  const key = resolveR2KeyFromUrl(url);
+  if (!key) {
+    throw new AnalysisBatchError(`${field} must be an uploaded photo`);
+  }
+  return getR2PublicUrl(key);
+}
+
+async function summarizeBatches(batches: IAnalysisBatch[]): Promise<AnalysisBatchSummary[]> {
+  const grouped = await AnalysisBatchItem.aggregate<{ _id: { batchId: mongoose.Types.ObjectId; status: AnalysisItemStatus }; count: number }>([
+    { $match: { batchId: { $in: batches.map((batch) => batch._id) } } },
+    { $group: { _id: { batchId: '$batchId', status: '$status' }, count: { $sum: 1 } } },
+  ]);
+
+  return batches.map((batch) => {
+    const counts = Object.fromEntries(ANALYSIS_ITEM_STATUSES.map((status) => [status, 0])) as Record<AnalysisItemStatus, number>;
+    for (const row of grouped) {
+      if (row._id.batchId.equals(batch._id as mongoose.Types.ObjectId)) counts[row._id.status] = row.count;
+    }
+    return {
+      _id: String(batch._id),
+      inspectionId: batch.inspectionId.toString(),
+      concurrency: batch.concurrency,
+      totalItems: batch.totalItems,
+      counts,
+      finished: counts.queued === 0 && counts.running === 0,
+      createdAt: batch.createdAt.toISOString(),
+    };
+  });
+}
+
+function toItemView(item: IAnalysisBatchItem): AnalysisBatchItemView {
+  return {
+    _id: String(item._id),
+    order: item.order,
+    imageUrl: item.imageUrl,
+    description: item.description || '',
+    location: item.location || '',
+    section: item.section || '',
+    subSection: item.subSection || '',
+    status: item.status,
+    attempts: item.attempts,
+    error: item.error || null,
+    defectId: item.defectId ? item.defectId.toString() : null,
+    startedAt: item.startedAt ? item.startedAt.toISOString() : null,
+    finishedAt: item.finishedAt ? item.finishedAt.toISOString() : null,
+  };
+}
+
+async function findViewerBatch(viewer: BatchViewer, batchId: string) {
+  if (!mongoose.isValidObjectId(batchId)) {
+    throw new AnalysisBatchError('Invalid batch id');
+  }
+  const batch = await AnalysisBatch.findOne({ _id: batchId, companyId: viewer.company });
+  if (!batch) {
+    throw new AnalysisBatchError('Analysis batch not found', 404);
+  }
+  return batch;
+}
+
+/**
+ * Queue every photo for analysis and start up to the batch's concurrency of workers.
+ * Annotations are checked up front so one bad document rejects the batch instead of failing later.
+ */
+export async function createAnalysisBatch(viewer: BatchViewer, input: AnalysisBatchInput): Promise<AnalysisBatchSummary> {
+  await dbConnect();
+
+  const inspection = await Inspection.exists({ _id: input.inspectionId, companyId: viewer.company });
+  if (!inspection) {
+    throw new AnalysisBatchError('Inspection not found', 404);
+  }
+
+  const items = input.items.map((item, index) => {
+    let annotations;
+    try {
+      annotations = normalizeAnnotationsInput(item.annotations) ?? undefined;
+    } catch (err) {
+      if (err instanceof AnnotationValidationError) {
+        throw new AnalysisBatchError(`items.${index}.annotations: ${err.message}`);
+      }
+      throw err;
+    }
+    return {
+      order: index,
+      imageUrl: toBucketUrl(item.imageUrl, `items.${index}.imageUrl`),
+      originalImage: item.originalImage ? toBucketUrl(item.originalImage, `items.${index}.originalImage`) : undefined,
+      annotations,
+      description: item.description,
+      location: item.location,
+      section: item.section,
+      subSection: item.subSection,
+      selectedColor: item.selectedColor,
+    };
+  });
+
+  const batch = await AnalysisBatch.create({
+    inspectionId: input.inspectionId,
+    companyId: viewer.company,
+    createdBy: viewer._id,
+    concurrency: input.concurrency || DEFAULT_ANALYSIS_BATCH_CONCURRENCY,
+    totalItems: items.length,
+  });
+  await AnalysisBatchItem.insertMany(
+    items.map((item) => ({ ...item, batchId: batch._id, inspectionId: batch.inspectionId, status: 'queued' }))
+  );
+
+  await dispatchAnalysisWorkers(String(batch._id), Math.min(batch.concurrency, items.length));
+
+  const [summary] = await summarizeBatches([batch]);
+  return summary;
+}
+
+/**
+ * Most recent batches for an inspection, newest first
+ */
+export async function listAnalysisBatches(viewer: BatchViewer, inspectionId: string, limit = 10): Promise<AnalysisBatchSummary[]> {
+  await dbConnect();
+
+  if (!mongoose.isValidObjectId(inspectionId)) {
+    throw new AnalysisBatchError('Invalid inspectionId');
+  }
+  const batches = await AnalysisBatch.find({ inspectionId, companyId: viewer.company }).sort({ createdAt: -1 }).limit(limit);
+  return summarizeBatches(batches);
+}
+
+export async function getAnalysisBatch(
+  viewer: BatchViewer,
+  batchId: string
+): Promise<{ batch: AnalysisBatchSummary; items: AnalysisBatchItemView[] }> {
+  await dbConnect();
+
+  const batch = await findViewerBatch(viewer, batchId);
+  // Polling is what notices a batch whose last worker died; a failed dispatch still shows progress
+  await resumeAnalysisBatch(batch, { onlyIfStalled: true }).catch((err) =>
+    console.error(`Could not resume analysis batch ${batchId}:`, err)
+  );
+  const [[summary], items] = await Promise.all([
+    summarizeBatches([batch]),
+    AnalysisBatchItem.find({ batchId: batch._id }).sort({ order: 1 }),
+  ]);
+  return { batch: summary, items: items.map(toItemView) };
+}
+
+/**
+ * Put failed items (all of them, or just itemIds) back in the queue, along with items whose worker
+ * died, and start workers for them. Returns how many failed items were queued again.
+ */
+export async function retryFailedAnalysisItems(viewer: BatchViewer, batchId: string, itemIds?: string[]): Promise<number> {
+  await dbConnect();
+
+  const batch = await findViewerBatch(viewer, batchId);
+  const filter: Record<string, unknown> = { batchId: batch._id, status: 'failed' };
+  if (itemIds) {
+    filter._id = { $in: itemIds.filter((id) => mongoose.isValidObjectId(id)) };
+  }
+
+  const { modifiedCount } = await AnalysisBatchItem.updateMany(filter, {
+    $set: { status: 'queued', attempts: 0 },
+    $unset: { error: '', startedAt: '', finishedAt: '' },
+  });
+  // Also covers items left queued when starting workers failed earlier
+  const queued = await resumeAnalysisBatch(batch);
+  if (queued === 0) {
+    throw new AnalysisBatchError('No failed items to retry', 409);
+  }
+  return modifiedCount;
+}
+
+/**
+ * Start workers for the batch's queued items, filling the slots its running items leave free.
+ * Stale running items are queued first: their worker's chain ended with it, so nothing else would
+ * pick them up. With onlyIfStalled, workers are only started when no live worker is left to take
+ * the queue. Returns how many items are queued.
+ */
+async function resumeAnalysisBatch(batch: IAnalysisBatch, options: { onlyIfStalled?: boolean } = {}): Promise<number> {
+  const batchId = batch._id as mongoose.Types.ObjectId;
+  const requeued = await requeueStaleItems(batchId);
+  const [queued, running] = await Promise.all([
+    AnalysisBatchItem.countDocuments({ batchId, status: 'queued' }),
+    countActiveItems(batchId),
+  ]);
+
+  if (!options.onlyIfStalled || requeued > 0 || running === 0) {
+    await dispatchAnalysisWorkers(String(batchId), Math.min(batch.concurrency - running, queued));
+  }
+  return queued;
+}
+
+/**
+ * Running items whose worker has not reported back within STALE_ITEM_MS go back in the queue, or
+ * fail once they have had MAX_ITEM_ATTEMPTS. Returns how many were queued again.
+ */
+async function requeueStaleItems(batchId: mongoose.Types.ObjectId): Promise<number> {
+  const now = new Date();
+  const stale = { batchId, status: 'running', startedAt: { $lt: new Date(now.getTime() - STALE_ITEM_MS) } };
+
+  await AnalysisBatchItem.updateMany(
+    { ...stale, attempts: { $gte: MAX_ITEM_ATTEMPTS } },
+    { $set: { status: 'failed', error: 'Analysis timed out', finishedAt: now } }
+  );
+  const { modifiedCount } = await AnalysisBatchItem.updateMany(stale, {
+    $set: { status: 'queued' },
+    $unset: { startedAt: '' },
+  });
+  return modifiedCount;
+}
+
+function countActiveItems(batchId: mongoose.Types.ObjectId) {
+  return AnalysisBatchItem.countDocuments({
+    batchId,
+    status: 'running',
+    startedAt: { $gte: new Date(Date.now() - STALE_ITEM_MS) },
+  });
+}
+
+/**
+ * Claim the next queued item of a batch, analyze it and create its defect. Returns the item, or
+ * null when nothing was claimed: the queue is empty, or the batch already has as many items
+ * running as its concurrency allows. Analysis failures are recorded on the item, not thrown.
+ */
+export async function processNextAnalysisItem(batchId: string): Promise<AnalysisBatchItemView | null> {
+  await dbConnect();
+
+  const batch = await AnalysisBatch.findById(batchId);
+  if (!batch) return null;
+
+  await requeueStaleItems(batch._id as mongoose.Types.ObjectId);
+
+  if ((await countActiveItems(batch._id as mongoose.Types.ObjectId)) >= batch.concurrency) {
+    return null;
+  }
+
+  const item = await AnalysisBatchItem.findOneAndUpdate(
+    { batchId: batch._id, status: 'queued' },
+    { $set: { status: 'running', startedAt: new Date() }, $unset: { error: '', finishedAt: '' }, $inc: { attempts: 1 } },
+    { sort: { order: 1 }, new: true }
+  );
+  if (!item) return null;
+
+  try {
+    const result = await getAnalysisProvider().analyze({
+      imageUrl: item.imageUrl,
+      description: item.description || '',
+      location: item.location,
+      section: item.section,
+      subSection: item.subSection,
+    });
+
+    const defectData = {
+      inspection_id: item.inspectionId.toString(),
+      image: item.imageUrl,
+      location: item.location || '',
+      section: item.section || '',
+      subsection: item.subSection || '',
+      ...analysisToDefectFields(result),
+      defect_description: result.defect || item.description || '',
+      color: item.selectedColor || undefined,
+      type: 'image',
+      isThreeSixty: false,
+      additional_images: [],
+      annotations: item.annotations || null,
+      originalImage: item.originalImage || item.imageUrl,
+    };
+    const defectId = await createDefect(defectData);
+
+    item.status = 'done';
+    item.defectId = new mongoose.Types.ObjectId(defectId);
+  } catch (err: any) {
+    console.error(`Analysis of batch item ${item._id} failed:`, err);
+    item.status = 'failed';
+    item.error = err?.message || 'Analysis failed';
+  }
+  item.finishedAt = new Date();
+  await item.save();
+
+  return toItemView(item);
+}
+
+/**
+ * One worker turn: process an item, then hand the batch to a fresh worker while items remain
+ * queued. Each worker is one chain, so a batch never has more chains than its concurrency.
+ */
+export async function runAnalysisWorker(batchId: string): Promise<AnalysisBatchItemView | null> {
+  const item = await processNextAnalysisItem(batchId);
+  if (item && (await AnalysisBatchItem.exists({ batchId, status: 'queued' }))) {
+    await dispatchAnalysisWorkers(batchId, 1);
+  }
+  return item;
+}
+
+/**
+ * Start workers through QStash, each delivered to /api/analysis-batches/process. Without
+ * QSTASH_TOKEN (local development) the workers run in this process instead.
+ */
+async function dispatchAnalysisWorkers(batchId: string, count: number) {
+  if (count <= 0) return;
+
+  const token = process.env.QSTASH_TOKEN;
+  if (!token) {
+    for (let i = 0; i < count; i++) {
+      void (async () => {
+        try {
+          while (await processNextAnalysisItem(batchId));
+        } catch (err) {
+          console.error(`Local analysis worker for batch ${batchId} stopped:`, err);
+        }
+      })();
+    }
+    return;
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
+  if (!baseUrl) {
+    throw new Error('Missing NEXT_PUBLIC_BASE_URL environment variable');
+  }
+
+  const client = new Client({ token });
+  await Promise.all(
+    Array.from({ length: count }, () =>
+      client.publishJSON({ url: `${baseUrl}/api/analysis-batches/process`, body: { batchId } })
+    )
+  );
+}
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+
+import { AnnotationDocument, parseAnnotationDocument } from './annotations';
+import { ANNOTATION_RENDERER_VERSION, buildAnnotationScene, renderAnnotationSvg } from './annotation-renderer';
+import { getR2Object, getR2PublicUrl, r2ObjectExists, resolveR2KeyFromUrl, uploadToR2 } from './r2';
+
+// Longest side of photos rendered for reports: A4 at 300 dpi
+export const REPORT_IMAGE_MAX_DIMENSION = 2480;
+
+const JPEG_QUALITY = 90;
+
+export interface AnnotatedImageOptions {
+  // Shrink the photo so its longest side is at most this many pixels; full resolution when unset
+  maxDimension?: number;
+}
+
+/**
+ * Draws an annotation document over the original photo, the way the editor's export does: the
+ * photo is turned upright (EXIF) and rotated as the document says, blur regions are pixelated and
+ * the shapes are drawn on top from the shared renderer's SVG. Returns a JPEG.
+ */
+export async function renderAnnotatedImage(
+  original: Buffer,
+  doc: AnnotationDocument,
+  options: AnnotatedImageOptions = {}
+): Promise<Buffer> {
+  let upright = sharp(original).rotate();
+  if (options.maxDimension) {
+    upright = upright.resize(options.maxDimension, options.maxDimension, { fit: 'inside', withoutEnlargement: true });
+  }
+  const { data: uprightData, info: uprightInfo } = await upright.raw().toBuffer({ resolveWithObject: true });
+
+  // One rotation per sharp pipeline, so the document's turn is applied to the upright pixels separately
+  const { data, info } = await sharp(uprightData, {
+    raw: { width: uprightInfo.width, height: uprightInfo.height, channels: uprightInfo.channels },
+  })
+    .rotate(doc.rotation)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const raw = { width: info.width, height: info.height, channels: info.channels };
+
+  const scene = buildAnnotationScene(doc, uprightInfo.width, uprightInfo.height);
+  const layers: sharp.OverlayOptions[] = [];
+
+  // Blur regions first so they only hide the photo, never other annotations
+  for (const region of scene.blurRegions) {
+    const left = Math.max(0, Math.floor(region.left));
+    const top = Math.max(0, Math.floor(region.top));
+    const width = Math.min(info.width, Math.ceil(region.left + region.width)) - left;
+    const height = Math.min(info.height, Math.ceil(region.top + region.height)) - top;
+    if (width < 1 || height < 1) continue;
+
+    const { data: small, info: smallInfo } = await sharp(data, { raw })
+      .extract({ left, top, width, height })
+      .resize(Math.max(1, Math.ceil(width / region.blockSize)), Math.max(1, Math.ceil(height / region.blockSize)), {
+        fit: 'fill',
+      })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const blocks = await sharp(small, {
+      raw: { width: smallInfo.width, height: smallInfo.height, channels: smallInfo.channels },
+    })
+      .resize(width, height, { fit: 'fill', kernel: 'nearest' })
+      .png()
+      .toBuffer();
+    layers.push({ input: blocks, left, top });
+  }
+
+  if (scene.primitives.length > 0) {
+    layers.push({ input: Buffer.from(renderAnnotationSvg(scene)), left: 0, top: 0 });
+  }
+
+  return sharp(data, { raw }).composite(layers).jpeg({ quality: JPEG_QUALITY }).toBuffer();
+}
+
+/**
+ * URL of the annotated version of an R2-hosted photo, rendered on first use and cached in R2.
+ * The cache key covers the photo, the document, the size and the renderer version, so editing the
+ * annotations or changing how shapes are drawn produces a fresh render. Returns null when there is
+ * nothing to render: legacy annotations that were never converted, or a photo outside R2 (only
+ * our own bucket is read, never arbitrary URLs).
+ */
+export async function getAnnotatedImageUrl(
+  originalImage: string,
+  annotations: unknown,
+  options: AnnotatedImageOptions = {}
+): Promise<string | null> {
+  const { data: doc, error } = parseAnnotationDocument(annotations);
+  if (error || !doc || doc.shapes.length === 0) return null;
+
+  const sourceKey = resolveR2KeyFromUrl(originalImage);
+  if (!sourceKey) return null;
+
+  const hash = crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify({
+        renderer: ANNOTATION_RENDERER_VERSION,
+        source: sourceKey,
+        rotation: doc.rotation,
+        shapes: doc.shapes,
+        maxDimension: options.maxDimension ?? null,
+      })
+    )
+    .digest('hex');
+  const key = `annotated/${hash.slice(0, 40)}.jpg`;
+
+  if (await r2ObjectExists(key)) return getR2PublicUrl(key);
+
+  const { buffer } = await getR2Object(sourceKey);
+  const rendered = await renderAnnotatedImage(buffer, doc, options);
+  return uploadToR2(rendered, key, 'image/jpeg');
+}
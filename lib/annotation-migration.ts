@@ -0,0 +1,45 @@
+import clientPromise from './mongodb';
+import InspectionInformationBlock from '@/src/models/InspectionInformationBlock';
+import { migrateLegacyAnnotations } from './annotations';
+
+const DB_NAME = 'agi_inspections_db';
+
+/**
+ * One-off upgrade of annotations saved before annotation documents existed: canvas-pixel arrays
+ * on defects and the 'annotated' marker string on information block images (see
+ * migrateLegacyAnnotations). Empty legacy values are removed. Safe to run more than once.
+ */
+export async function migrateLegacyAnnotationRecords(): Promise<{
+  defectsMigrated: number;
+  informationBlocksMigrated: number;
+}> {
+  const client = await clientPromise;
+  const defects = client.db(DB_NAME).collection('defects');
+
+  let defectsMigrated = 0;
+  const legacyDefects = defects.find({ annotations: { $type: 'array' } }, { projection: { annotations: 1 } });
+  for await (const defect of legacyDefects) {
+    const annotations = migrateLegacyAnnotations(defect.annotations);
+    await defects.updateOne(
+      { _id: defect._id },
+      annotations ? { $set: { annotations } } : { $unset: { annotations: '' } }
+    );
+    defectsMigrated++;
+  }
+
+  let informationBlocksMigrated = 0;
+  const legacyBlocks = await InspectionInformationBlock.find({ 'images.annotations': { $type: 'string' } })
+    .select('images')
+    .lean();
+  for (const block of legacyBlocks) {
+    const images = block.images.map((image) => {
+      const { annotations, ...rest } = image as typeof image & { annotations?: unknown };
+      const migrated = migrateLegacyAnnotations(annotations);
+      return migrated ? { ...rest, annotations: migrated } : rest;
+    });
+    await InspectionInformationBlock.updateOne({ _id: block._id }, { $set: { images } });
+    informationBlocksMigrated++;
+  }
+
+  return { defectsMigrated, informationBlocksMigrated };
+}
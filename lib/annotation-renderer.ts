@@ -0,0 +1,417 @@
+import {
+  AnnotationDocument,
+  AnnotationPoint,
+  AnnotationShape,
+  getImageFrame,
+  placeAnnotationShape,
+} from './annotations';
+
+/*
+ * One renderer for annotation documents, used wherever an annotated photo is drawn: the editor
+ * canvas, the flattened image the editor uploads, and the server. Shapes are turned into plain
+ * primitives (SVG path data and centred text) so every backend draws exactly the same geometry;
+ * only the final painting differs (canvas Path2D in the browser, SVG markup on the server).
+ *
+ * Blur regions are not primitives: they pixelate the photo underneath, so they must be applied to
+ * the image before anything else is drawn on top.
+ */
+
+// Bump whenever shapes are drawn differently; server renders cached under the old version are then
+// regenerated instead of reused
+export const ANNOTATION_RENDERER_VERSION = 1;
+
+export type AnnotationPrimitive =
+  | {
+      kind: 'path';
+      // SVG path data, also accepted by the canvas Path2D constructor
+      d: string;
+      fill?: string;
+      fillOpacity?: number;
+      stroke?: string;
+      strokeOpacity?: number;
+      strokeWidth?: number;
+    }
+  | {
+      kind: 'text';
+      // Centre of the text
+      x: number;
+      y: number;
+      text: string;
+      fontSize: number;
+      fill: string;
+    };
+
+export interface AnnotationBlurRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  // Side of one pixelation block, in the same pixels as the region
+  blockSize: number;
+}
+
+export interface AnnotationScene {
+  width: number;
+  height: number;
+  blurRegions: AnnotationBlurRegion[];
+  primitives: AnnotationPrimitive[];
+}
+
+export const ANNOTATION_FONT_FAMILY = 'Arial, Helvetica, sans-serif';
+
+// Dark outline drawn under shapes so they stand out on busy photos
+const HALO_COLOR = '#000000';
+const HALO_OPACITY = 0.35;
+
+const num = (value: number) => String(Math.round((Number.isFinite(value) ? value : 0) * 100) / 100);
+
+const polyline = (points: AnnotationPoint[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'}${num(p.x)} ${num(p.y)}`).join(' ');
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number) =>
+  `M${num(cx - rx)} ${num(cy)} A${num(rx)} ${num(ry)} 0 1 0 ${num(cx + rx)} ${num(cy)} ` +
+  `A${num(rx)} ${num(ry)} 0 1 0 ${num(cx - rx)} ${num(cy)} Z`;
+
+const rect = (left: number, top: number, width: number, height: number) =>
+  `M${num(left)} ${num(top)} H${num(left + width)} V${num(top + height)} H${num(left)} Z`;
+
+// Font size follows the stroke size so labels can be made bigger or smaller
+export const getTextFontSize = (size: number) => Math.max(12, size * 6);
+
+export const getCalloutRadius = (size: number) => Math.max(12, size * 4);
+
+export const getBlurBlockSize = (width: number, height: number) => Math.max(8, Math.round(Math.max(width, height) / 10));
+
+/**
+ * Width of bold Arial text, estimated from character classes rather than measured so the server
+ * (which has no fonts to measure with) sizes label boxes exactly like the browser does
+ */
+export function estimateTextWidth(text: string, fontSize: number) {
+  let em = 0;
+  for (const char of text) {
+    if ("ijlI.,:;'!|".includes(char)) em += 0.28;
+    else if ('frt()[]-/ '.includes(char)) em += 0.34;
+    else if ('mwMW@%'.includes(char)) em += 0.89;
+    else if (/[0-9]/.test(char)) em += 0.556;
+    else if (/[A-Z]/.test(char)) em += 0.72;
+    else em += 0.6;
+  }
+  return em * fontSize;
+}
+
+/**
+ * Box around a text label, including its background padding
+ */
+export function getTextLabelBox(center: AnnotationPoint, text: string, size: number) {
+  const fontSize = getTextFontSize(size);
+  const padding = Math.round(fontSize * 0.35);
+  const width = estimateTextWidth(text, fontSize) + padding * 2;
+  const height = fontSize + padding * 2;
+  return { left: center.x - width / 2, top: center.y - height / 2, width, height, fontSize };
+}
+
+function textLabelPrimitives(center: AnnotationPoint, text: string, color: string, size: number): AnnotationPrimitive[] {
+  const box = getTextLabelBox(center, text, size);
+  return [
+    {
+      kind: 'path',
+      d: rect(box.left, box.top, box.width, box.height),
+      // Light backing keeps the label readable on busy photos
+      fill: '#ffffff',
+      fillOpacity: 0.85,
+      stroke: color,
+      strokeWidth: Math.max(1, box.fontSize / 12),
+    },
+    { kind: 'text', x: center.x, y: center.y, text, fontSize: box.fontSize, fill: color },
+  ];
+}
+
+function arrowPrimitives(from: AnnotationPoint, to: AnnotationPoint, color: string, size: number): AnnotationPrimitive[] {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const distance = Math.hypot(dx, dy);
+
+  // Thickness and head size grow with the arrow's length
+  const thickness = Math.max(size, 2) + distance * 0.05;
+  const headLength = Math.max(thickness, 0.1) + distance * 0.3;
+  const angle = Math.atan2(dy, dx);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  // Shaft, tapering slightly towards the tail
+  const shaftEnd = { x: to.x - headLength * 0.7 * cos, y: to.y - headLength * 0.7 * sin };
+  const tail = (thickness * 0.9) / 2;
+  const front = (thickness * 1.2) / 2;
+  const shaft = polyline([
+    { x: from.x - tail * sin, y: from.y + tail * cos },
+    { x: from.x + tail * sin, y: from.y - tail * cos },
+    { x: shaftEnd.x + front * sin, y: shaftEnd.y - front * cos },
+    { x: shaftEnd.x - front * sin, y: shaftEnd.y + front * cos },
+  ]);
+
+  // Head with a curved back
+  const left = { x: to.x - headLength * Math.cos(angle - Math.PI / 8), y: to.y - headLength * Math.sin(angle - Math.PI / 8) };
+  const right = { x: to.x - headLength * Math.cos(angle + Math.PI / 8), y: to.y - headLength * Math.sin(angle + Math.PI / 8) };
+  const control = { x: to.x - headLength * 0.8 * cos, y: to.y - headLength * 0.8 * sin };
+  const head =
+    `M${num(to.x)} ${num(to.y)} L${num(left.x)} ${num(left.y)} ` +
+    `Q${num(control.x)} ${num(control.y)} ${num(right.x)} ${num(right.y)} Z`;
+
+  return [
+    { kind: 'path', d: `${shaft} Z`, fill: color },
+    { kind: 'path', d: head, fill: color, stroke: color, strokeWidth: 1 },
+  ];
+}
+
+function outlinePrimitives(d: string, color: string, size: number): AnnotationPrimitive[] {
+  const lineWidth = Math.max(2, size);
+  return [
+    { kind: 'path', d, stroke: HALO_COLOR, strokeOpacity: HALO_OPACITY, strokeWidth: lineWidth + 3 },
+    { kind: 'path', d, stroke: color, strokeWidth: lineWidth },
+  ];
+}
+
+function calloutPrimitives(target: AnnotationPoint, bubble: AnnotationPoint, label: string, color: string, size: number) {
+  const radius = getCalloutRadius(size);
+  const primitives: AnnotationPrimitive[] = [];
+
+  // Leader line and dot on the spot, only when the bubble was dragged away from it
+  if (Math.hypot(bubble.x - target.x, bubble.y - target.y) > radius) {
+    const dot = Math.max(3, size);
+    primitives.push(
+      { kind: 'path', d: polyline([target, bubble]), stroke: color, strokeWidth: Math.max(2, size * 0.75) },
+      { kind: 'path', d: ellipse(target.x, target.y, dot, dot), fill: color }
+    );
+  }
+
+  primitives.push(
+    {
+      kind: 'path',
+      d: ellipse(bubble.x, bubble.y, radius, radius),
+      fill: color,
+      stroke: '#ffffff',
+      strokeWidth: Math.max(2, radius / 8),
+    },
+    {
+      kind: 'text',
+      x: bubble.x,
+      y: bubble.y,
+      text: label,
+      fontSize: Math.round(radius * (label.length > 2 ? 0.8 : 1.1)),
+      fill: '#ffffff',
+    }
+  );
+  return primitives;
+}
+
+function measurePrimitives(from: AnnotationPoint, to: AnnotationPoint, label: string, color: string, size: number) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const tickHalf = size + 3;
+  const nx = -Math.sin(angle) * tickHalf;
+  const ny = Math.cos(angle) * tickHalf;
+  const lineWidth = Math.max(2, size * 0.75);
+
+  // The line plus a perpendicular tick at each end
+  const d = [
+    polyline([from, to]),
+    polyline([{ x: from.x - nx, y: from.y - ny }, { x: from.x + nx, y: from.y + ny }]),
+    polyline([{ x: to.x - nx, y: to.y - ny }, { x: to.x + nx, y: to.y + ny }]),
+  ].join(' ');
+
+  const primitives: AnnotationPrimitive[] = [
+    { kind: 'path', d, stroke: HALO_COLOR, strokeOpacity: HALO_OPACITY, strokeWidth: lineWidth + 3 },
+    { kind: 'path', d, stroke: color, strokeWidth: lineWidth },
+  ];
+  if (label) {
+    primitives.push(...textLabelPrimitives({ x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 }, label, color, size));
+  }
+  return primitives;
+}
+
+/**
+ * Primitives for one shape already in pixel space (see placeAnnotationShape). Blur regions have none.
+ */
+export function getShapePrimitives(shape: AnnotationShape): AnnotationPrimitive[] {
+  switch (shape.type) {
+    case 'draw':
+      return [{ kind: 'path', d: polyline(shape.points), stroke: shape.color, strokeWidth: shape.size }];
+    case 'arrow':
+      return arrowPrimitives(shape.from, shape.to, shape.color, shape.size);
+    case 'circle':
+      return outlinePrimitives(ellipse(shape.center.x, shape.center.y, shape.width / 2, shape.height / 2), shape.color, shape.size);
+    case 'square':
+      return outlinePrimitives(
+        rect(shape.center.x - shape.width / 2, shape.center.y - shape.height / 2, shape.width, shape.height),
+        shape.color,
+        shape.size
+      );
+    case 'text':
+      return textLabelPrimitives(shape.position, shape.text, shape.color, shape.size);
+    case 'callout':
+      return calloutPrimitives(shape.target, shape.bubble, shape.text, shape.color, shape.size);
+    case 'measure':
+      return measurePrimitives(shape.from, shape.to, shape.text, shape.color, shape.size);
+    case 'blur':
+      return [];
+  }
+}
+
+/**
+ * Blur region for a shape already in pixel space, or null for other shapes and empty regions
+ */
+export function getShapeBlurRegion(shape: AnnotationShape): AnnotationBlurRegion | null {
+  if (shape.type !== 'blur' || shape.width < 1 || shape.height < 1) return null;
+  return {
+    left: shape.center.x - shape.width / 2,
+    top: shape.center.y - shape.height / 2,
+    width: shape.width,
+    height: shape.height,
+    blockSize: getBlurBlockSize(shape.width, shape.height),
+  };
+}
+
+/**
+ * Everything needed to draw `doc` over an image of `imageWidth` × `imageHeight` (the original,
+ * before rotation). The scene is the size of the rotated image.
+ */
+export function buildAnnotationScene(doc: AnnotationDocument, imageWidth: number, imageHeight: number): AnnotationScene {
+  const frame = getImageFrame(imageWidth, imageHeight, doc.rotation);
+  const shapes = doc.shapes.map((shape) => placeAnnotationShape(shape, frame));
+
+  return {
+    width: frame.width,
+    height: frame.height,
+    blurRegions: shapes.map(getShapeBlurRegion).filter((region): region is AnnotationBlurRegion => !!region),
+    primitives: shapes.flatMap(getShapePrimitives),
+  };
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * The scene's primitives as a standalone SVG the size of the scene, with a transparent background
+ */
+export function renderAnnotationSvg(scene: Pick<AnnotationScene, 'width' | 'height' | 'primitives'>): string {
+  const body = scene.primitives
+    .map((primitive) => {
+      if (primitive.kind === 'text') {
+        return (
+          `<text x="${num(primitive.x)}" y="${num(primitive.y)}" font-family="${ANNOTATION_FONT_FAMILY}" ` +
+          `font-weight="bold" font-size="${num(primitive.fontSize)}" text-anchor="middle" ` +
+          `dominant-baseline="central" fill="${primitive.fill}">${escapeXml(primitive.text)}</text>`
+        );
+      }
+
+      const attrs = [`d="${primitive.d}"`, `fill="${primitive.fill || 'none'}"`];
+      if (primitive.fill && primitive.fillOpacity !== undefined) attrs.push(`fill-opacity="${primitive.fillOpacity}"`);
+      if (primitive.stroke) {
+        attrs.push(
+          `stroke="${primitive.stroke}"`,
+          `stroke-width="${num(primitive.strokeWidth ?? 1)}"`,
+          'stroke-linecap="round"',
+          'stroke-linejoin="round"'
+        );
+        if (primitive.strokeOpacity !== undefined) attrs.push(`stroke-opacity="${primitive.strokeOpacity}"`);
+      }
+      return `<path ${attrs.join(' ')}/>`;
+    })
+    .join('');
+
+  const width = num(scene.width);
+  const height = num(scene.height);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${body}</svg>`;
+}
+
+/*
+ * Canvas backend (browser only)
+ */
+
+export function drawAnnotationPrimitives(ctx: CanvasRenderingContext2D, primitives: AnnotationPrimitive[]) {
+  ctx.save();
+  ctx.setLineDash([]);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  primitives.forEach((primitive) => {
+    if (primitive.kind === 'text') {
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = primitive.fill;
+      ctx.font = `bold ${primitive.fontSize}px ${ANNOTATION_FONT_FAMILY}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(primitive.text, primitive.x, primitive.y);
+      return;
+    }
+
+    const path = new Path2D(primitive.d);
+    if (primitive.fill) {
+      ctx.globalAlpha = primitive.fillOpacity ?? 1;
+      ctx.fillStyle = primitive.fill;
+      ctx.fill(path);
+    }
+    if (primitive.stroke) {
+      ctx.globalAlpha = primitive.strokeOpacity ?? 1;
+      ctx.strokeStyle = primitive.stroke;
+      ctx.lineWidth = primitive.strokeWidth ?? 1;
+      ctx.stroke(path);
+    }
+  });
+  ctx.restore();
+}
+
+/**
+ * Pixelates whatever is already painted under the region. The region is in canvas pixels and
+ * ignores the context's transform.
+ */
+export function pixelateRegion(ctx: CanvasRenderingContext2D, region: AnnotationBlurRegion) {
+  const sx = Math.max(0, Math.floor(region.left));
+  const sy = Math.max(0, Math.floor(region.top));
+  const sw = Math.min(ctx.canvas.width, Math.ceil(region.left + region.width)) - sx;
+  const sh = Math.min(ctx.canvas.height, Math.ceil(region.top + region.height)) - sy;
+  if (sw < 1 || sh < 1) return;
+
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.ceil(sw / region.blockSize));
+  small.height = Math.max(1, Math.ceil(sh / region.blockSize));
+  const smallCtx = small.getContext('2d');
+  if (!smallCtx) return;
+  smallCtx.drawImage(ctx.canvas, sx, sy, sw, sh, 0, 0, small.width, small.height);
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, small.width, small.height, sx, sy, sw, sh);
+  ctx.restore();
+}
+
+/**
+ * Draws the image rotated as the document says, at its full resolution, with the annotations on top
+ */
+export function renderAnnotatedCanvas(
+  image: CanvasImageSource,
+  imageWidth: number,
+  imageHeight: number,
+  doc: AnnotationDocument
+): HTMLCanvasElement | null {
+  const scene = buildAnnotationScene(doc, imageWidth, imageHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(scene.width);
+  canvas.height = Math.round(scene.height);
+
+  const ctx = canvas.getContext('2d', { alpha: false });
+  if (!ctx) return null;
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.save();
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((doc.rotation * Math.PI) / 180);
+  ctx.drawImage(image, -imageWidth / 2, -imageHeight / 2, imageWidth, imageHeight);
+  ctx.restore();
+
+  // Blur regions first so they only hide the photo, never other annotations
+  scene.blurRegions.forEach((region) => pixelateRegion(ctx, region));
+  drawAnnotationPrimitives(ctx, scene.primitives);
+  return canvas;
+}
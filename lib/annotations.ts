@@ -0,0 +1,258 @@
+import { z } from 'zod';
+
+/*
+ * Annotation documents: the shapes drawn on a photo in the image editor, stored next to the
+ * original (unannotated) image so the photo can be re-opened for editing and re-rendered.
+ *
+ * Positions are fractions of the original image as uploaded: x of its width and y of its height,
+ * 0 at the top/left edge and 1 at the bottom/right edge. Rectangle widths and heights use the
+ * same units. Stroke widths and font sizes are fractions of the image's longer side. `rotation`
+ * is the clockwise turn the inspector gave the photo in the editor; it is applied to the image
+ * before the shapes are drawn, so shapes stay attached to the same spot in the photo.
+ *
+ * This module has no server-only imports so the editor can use it too.
+ */
+
+export const ANNOTATION_DOCUMENT_VERSION = 1;
+
+export const ANNOTATION_ROTATIONS = [0, 90, 180, 270] as const;
+
+export type AnnotationRotation = (typeof ANNOTATION_ROTATIONS)[number];
+
+// Upper bounds keep a single document to a sensible size
+const MAX_SHAPES = 500;
+const MAX_DRAW_POINTS = 5000;
+const MAX_TEXT_LENGTH = 200;
+
+// Shapes may hang a little past the image edges; anything further out is a bad conversion
+const coordinateSchema = z.number().finite().min(-1).max(2);
+
+const pointSchema = z.object({ x: coordinateSchema, y: coordinateSchema });
+
+const extentSchema = z.number().finite().min(0).max(3);
+
+// Hex only: colours end up in SVG attributes on the server
+const colorSchema = z.string().regex(/^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i, 'must be a hex colour');
+
+const textSchema = z.string().trim().min(1).max(MAX_TEXT_LENGTH);
+
+const shapeBase = {
+  id: z.number().int().nonnegative(),
+  color: colorSchema,
+  size: z.number().finite().positive().max(1),
+};
+
+const boxFields = { center: pointSchema, width: extentSchema, height: extentSchema };
+
+const shapeSchema = z.discriminatedUnion('type', [
+  z.object({ ...shapeBase, type: z.literal('draw'), points: z.array(pointSchema).min(2).max(MAX_DRAW_POINTS) }),
+  z.object({ ...shapeBase, type: z.literal('arrow'), from: pointSchema, to: pointSchema }),
+  z.object({ ...shapeBase, type: z.literal('circle'), ...boxFields }),
+  z.object({ ...shapeBase, type: z.literal('square'), ...boxFields }),
+  z.object({ ...shapeBase, type: z.literal('blur'), ...boxFields }),
+  z.object({ ...shapeBase, type: z.literal('text'), position: pointSchema, text: textSchema }),
+  z.object({ ...shapeBase, type: z.literal('callout'), target: pointSchema, bubble: pointSchema, text: textSchema }),
+  z.object({ ...shapeBase, type: z.literal('measure'), from: pointSchema, to: pointSchema, text: textSchema }),
+]);
+
+const documentSchema = z.object({
+  version: z.literal(ANNOTATION_DOCUMENT_VERSION),
+  rotation: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]),
+  shapes: z.array(shapeSchema).max(MAX_SHAPES),
+  // Canvas-pixel shapes saved before documents existed, kept as they were (see migrateLegacyAnnotations)
+  legacy: z.object({ lines: z.array(z.unknown()) }).optional(),
+});
+
+export type AnnotationPoint = z.infer<typeof pointSchema>;
+export type AnnotationShape = z.infer<typeof shapeSchema>;
+export type AnnotationShapeType = AnnotationShape['type'];
+export type AnnotationDocument = z.infer<typeof documentSchema>;
+
+/**
+ * Thrown when annotations sent to the server don't match the document schema; answer with 400
+ */
+export class AnnotationValidationError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnnotationValidationError';
+  }
+}
+
+export function createAnnotationDocument(shapes: AnnotationShape[] = [], rotation: AnnotationRotation = 0): AnnotationDocument {
+  return { version: ANNOTATION_DOCUMENT_VERSION, rotation, shapes };
+}
+
+export function isAnnotationDocument(value: unknown): value is AnnotationDocument {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && (value as any).version === ANNOTATION_DOCUMENT_VERSION;
+}
+
+/**
+ * True when the document has anything to draw, including legacy shapes still waiting to be converted
+ */
+export function hasAnnotations(doc: AnnotationDocument | null | undefined): boolean {
+  return !!doc && (doc.shapes.length > 0 || (doc.legacy?.lines.length ?? 0) > 0);
+}
+
+export function parseAnnotationDocument(input: unknown): { data: AnnotationDocument | null; error: string | null } {
+  const result = documentSchema.safeParse(input);
+  if (result.success) return { data: result.data, error: null };
+
+  const issue = result.error.issues[0];
+  const path = issue.path.join('.');
+  return { data: null, error: path ? `annotations.${path}: ${issue.message}` : `annotations: ${issue.message}` };
+}
+
+/**
+ * Upgrades annotations saved before documents existed. Defects stored an array of editor shapes
+ * in canvas pixels, and information block images stored the string 'annotated'. The canvas size
+ * those pixels refer to was never saved, so the shapes can't be placed on the image here; they
+ * are kept under `legacy` and the editor converts them the next time the photo is opened (the
+ * flattened image saved with them is still what reports show). Returns null when there is
+ * nothing to keep.
+ */
+export function migrateLegacyAnnotations(value: unknown): AnnotationDocument | null {
+  if (isAnnotationDocument(value)) return value;
+  if (Array.isArray(value)) {
+    return value.length ? { ...createAnnotationDocument(), legacy: { lines: value } } : null;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    return { ...createAnnotationDocument(), legacy: { lines: [] } };
+  }
+  return null;
+}
+
+/**
+ * Validates annotations on their way into the database. Legacy arrays and strings are upgraded,
+ * null clears the field and undefined leaves it alone. Throws AnnotationValidationError when a
+ * document doesn't match the schema.
+ */
+export function normalizeAnnotationsInput(value: unknown): AnnotationDocument | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (Array.isArray(value) || typeof value === 'string') return migrateLegacyAnnotations(value);
+
+  const { data, error } = parseAnnotationDocument(value);
+  if (error || !data) throw new AnnotationValidationError(error || 'annotations: invalid document');
+  return data;
+}
+
+/*
+ * Frames: where the rotated image sits in some pixel space (the editor canvas, or the output image
+ * when rendering). Shapes are converted between document units and that pixel space through one.
+ */
+
+export interface AnnotationFrame {
+  left: number;
+  top: number;
+  // Size of the image as it appears, i.e. after rotation
+  width: number;
+  height: number;
+  rotation: AnnotationRotation;
+}
+
+export function normalizeRotation(degrees: number): AnnotationRotation {
+  const turned = ((Math.round(degrees / 90) * 90) % 360 + 360) % 360;
+  return turned as AnnotationRotation;
+}
+
+export function isQuarterTurn(rotation: AnnotationRotation) {
+  return rotation === 90 || rotation === 270;
+}
+
+/**
+ * Frame for an image of `width` × `height` (before rotation) filling an output image edge to edge
+ */
+export function getImageFrame(width: number, height: number, rotation: AnnotationRotation): AnnotationFrame {
+  return isQuarterTurn(rotation)
+    ? { left: 0, top: 0, width: height, height: width, rotation }
+    : { left: 0, top: 0, width, height, rotation };
+}
+
+// Rotates a point of the unit square clockwise by `rotation`, and back
+function rotateUnit(x: number, y: number, rotation: AnnotationRotation): AnnotationPoint {
+  if (rotation === 90) return { x: 1 - y, y: x };
+  if (rotation === 180) return { x: 1 - x, y: 1 - y };
+  if (rotation === 270) return { x: y, y: 1 - x };
+  return { x, y };
+}
+
+function unrotateUnit(x: number, y: number, rotation: AnnotationRotation): AnnotationPoint {
+  if (rotation === 90) return { x: y, y: 1 - x };
+  if (rotation === 180) return { x: 1 - x, y: 1 - y };
+  if (rotation === 270) return { x: 1 - y, y: x };
+  return { x, y };
+}
+
+function toPixelPoint(point: AnnotationPoint, frame: AnnotationFrame): AnnotationPoint {
+  const rotated = rotateUnit(point.x, point.y, frame.rotation);
+  return { x: frame.left + rotated.x * frame.width, y: frame.top + rotated.y * frame.height };
+}
+
+function toDocumentPoint(point: AnnotationPoint, frame: AnnotationFrame): AnnotationPoint {
+  return unrotateUnit((point.x - frame.left) / frame.width, (point.y - frame.top) / frame.height, frame.rotation);
+}
+
+/**
+ * Converts a document shape to the frame's pixel space. The result has the same structure, with
+ * positions, extents and sizes in pixels.
+ */
+export function placeAnnotationShape(shape: AnnotationShape, frame: AnnotationFrame): AnnotationShape {
+  const place = (point: AnnotationPoint) => toPixelPoint(point, frame);
+  const size = shape.size * Math.max(frame.width, frame.height);
+  const quarter = isQuarterTurn(frame.rotation);
+
+  switch (shape.type) {
+    case 'draw':
+      return { ...shape, size, points: shape.points.map(place) };
+    case 'arrow':
+    case 'measure':
+      return { ...shape, size, from: place(shape.from), to: place(shape.to) };
+    case 'circle':
+    case 'square':
+    case 'blur':
+      return {
+        ...shape,
+        size,
+        center: place(shape.center),
+        width: (quarter ? shape.height : shape.width) * frame.width,
+        height: (quarter ? shape.width : shape.height) * frame.height,
+      };
+    case 'text':
+      return { ...shape, size, position: place(shape.position) };
+    case 'callout':
+      return { ...shape, size, target: place(shape.target), bubble: place(shape.bubble) };
+  }
+}
+
+/**
+ * Inverse of placeAnnotationShape: converts a shape in the frame's pixel space to document units
+ */
+export function normalizeAnnotationShape(shape: AnnotationShape, frame: AnnotationFrame): AnnotationShape {
+  const normalize = (point: AnnotationPoint) => toDocumentPoint(point, frame);
+  const size = shape.size / Math.max(frame.width, frame.height);
+  const quarter = isQuarterTurn(frame.rotation);
+
+  switch (shape.type) {
+    case 'draw':
+      return { ...shape, size, points: shape.points.map(normalize) };
+    case 'arrow':
+    case 'measure':
+      return { ...shape, size, from: normalize(shape.from), to: normalize(shape.to) };
+    case 'circle':
+    case 'square':
+    case 'blur':
+      return {
+        ...shape,
+        size,
+        center: normalize(shape.center),
+        width: quarter ? shape.height / frame.height : shape.width / frame.width,
+        height: quarter ? shape.width / frame.width : shape.height / frame.height,
+      };
+    case 'text':
+      return { ...shape, size, position: normalize(shape.position) };
+    case 'callout':
+      return { ...shape, size, target: normalize(shape.target), bubble: normalize(shape.bubble) };
+  }
+}
@@ -0,0 +1,299 @@
+import mongoose from 'mongoose';
+
+import dbConnect from './db';
+import AuditLog, { IAuditChange, IAuditOrigin } from '@/src/models/AuditLog';
+import Inspection from '@/src/models/Inspection';
+import InspectionInformationBlock from '@/src/models/InspectionInformationBlock';
+import { IUser } from '@/src/models/User';
+import {
+  AuditAction,
+  AuditEntityType,
+  RESTORABLE_AUDIT_ENTITY_TYPES,
+} from '@/constants/auditLog';
+import { FINANCIAL_FIELDS, hasPermission } from './permissions';
+import { getDefect, replaceDefect } from './defect';
+import { AnnotationValidationError, normalizeAnnotationsInput } from './annotations';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// The signed-in user making the change, if any
+type AuditActor = (Pick<IUser, '_id' | 'company'> & Partial<IUser>) | null | undefined;
+
+// Bookkeeping that changes on every write and would bury the real changes
+const IGNORED_FIELDS = ['__v', 'updatedAt', 'emailLog'];
+
+const MAX_HISTORY_ENTRIES = 200;
+
+/**
+ * Thrown when a version can't be restored; `status` is the HTTP status to answer with
+ */
+export class AuditRestoreError extends Error {
+  readonly status: 400 | 404 | 409;
+
+  constructor(message: string, status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'AuditRestoreError';
+    this.status = status;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * A record as plain JSON: ids and dates become strings, so snapshots compare and store the same way
+ */
+function toSnapshot(doc: unknown): Record<string, unknown> | null {
+  if (!doc) return null;
+  const source = typeof (doc as any).toObject === 'function' ? (doc as any).toObject() : doc;
+  const snapshot = JSON.parse(JSON.stringify(source));
+  if (!isPlainObject(snapshot)) return null;
+  IGNORED_FIELDS.forEach((field) => delete snapshot[field]);
+  return snapshot;
+}
+
+// Nested objects are compared field by field; arrays are compared as a whole
+function flatten(value: Record<string, unknown>, prefix = '', into: Record<string, unknown> = {}) {
+  for (const [key, entry] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(entry) && Object.keys(entry).length > 0) {
+      flatten(entry, path, into);
+    } else {
+      into[path] = entry;
+    }
+  }
+  return into;
+}
+
+export function diffSnapshots(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): IAuditChange[] {
+  const flatBefore = before ? flatten(before) : {};
+  const flatAfter = after ? flatten(after) : {};
+  const paths = Array.from(new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)])).sort();
+
+  return paths
+    .filter((path) => JSON.stringify(flatBefore[path]) !== JSON.stringify(flatAfter[path]))
+    .map((path) => ({ path, before: flatBefore[path], after: flatAfter[path] }));
+}
+
+/**
+ * Where a change came from: the API route and the client that called it
+ */
+export function getRequestOrigin(req: Request): IAuditOrigin {
+  const forwardedFor = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return {
+    method: req.method,
+    path: new URL(req.url).pathname,
+    ip: forwardedFor || req.headers.get('x-real-ip') || undefined,
+    userAgent: req.headers.get('user-agent')?.slice(0, 300) || undefined,
+  };
+}
+
+export interface AuditEventInput {
+  entityType: AuditEntityType;
+  entityId: ObjectIdLike;
+  action: AuditAction;
+  before?: unknown;
+  after?: unknown;
+  // Parent inspection of a defect or information block
+  inspection?: ObjectIdLike | null;
+  // Defaults to the actor's company, then the parent inspection's
+  company?: ObjectIdLike | null;
+  restoredFrom?: ObjectIdLike;
+}
+
+/**
+ * Add a change to the audit log. Best effort: a failure is logged and never fails the request.
+ * Updates that changed nothing are skipped.
+ */
+export async function recordAuditEvent(req: Request, actor: AuditActor, input: AuditEventInput) {
+  try {
+    await dbConnect();
+
+    const before = toSnapshot(input.before);
+    const after = toSnapshot(input.after);
+    const changes = diffSnapshots(before, after);
+    if (input.action === 'update' && changes.length === 0) return;
+
+    let company = input.company || actor?.company || null;
+    if (!company && input.inspection && mongoose.Types.ObjectId.isValid(input.inspection)) {
+      company = (await Inspection.findById(input.inspection).select('companyId').lean())?.companyId || null;
+    }
+    if (!company) return;
+
+    await AuditLog.create({
+      company,
+      actor: actor?._id,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      inspection: input.inspection || undefined,
+      action: input.action,
+      before,
+      after,
+      changes,
+      origin: getRequestOrigin(req),
+      restoredFrom: input.restoredFrom,
+    });
+  } catch (error) {
+    console.error('Error recording audit log entry:', error);
+  }
+}
+
+export interface AuditHistoryEntry {
+  _id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  changes: IAuditChange[];
+  actor: { _id: string; name: string } | null;
+  origin: IAuditOrigin;
+  // Whether the record can be put back the way it was before this change
+  restorable: boolean;
+  restoredFrom: string | null;
+  createdAt: string;
+}
+
+/**
+ * History of one record, or with `inspection` of an inspection together with its defects and
+ * information blocks, newest first. Pricing changes are left out for viewers without financial access.
+ */
+export async function getAuditHistory(
+  viewer: AuditActor,
+  target: { entityType: AuditEntityType; entityId: ObjectIdLike } | { inspection: ObjectIdLike }
+): Promise<AuditHistoryEntry[]> {
+  await dbConnect();
+
+  const filter = 'inspection' in target
+    ? { $or: [{ entityType: 'inspection', entityId: target.inspection }, { inspection: target.inspection }] }
+    : { entityType: target.entityType, entityId: target.entityId };
+
+  const entries = await AuditLog.find({ company: viewer?.company, ...filter })
+    .select('-before -after')
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(MAX_HISTORY_ENTRIES)
+    .populate('actor', 'firstName lastName email')
+    .lean();
+
+  // Restoring needs the earlier snapshot, which the listing leaves out
+  const restorableIds = new Set(
+    (
+      await AuditLog.find({
+        _id: { $in: entries.map((entry) => entry._id) },
+        entityType: { $in: RESTORABLE_AUDIT_ENTITY_TYPES },
+        before: { $ne: null },
+      })
+        .select('_id')
+        .lean()
+    ).map((entry) => String(entry._id))
+  );
+  const showFinancials = hasPermission(viewer, 'can_access_financial_data');
+
+  return entries.map((entry) => {
+    const actor = entry.actor as unknown as Partial<IUser> | undefined;
+    return {
+      _id: String(entry._id),
+      entityType: entry.entityType,
+      entityId: String(entry.entityId),
+      action: entry.action,
+      changes: showFinancials
+        ? entry.changes
+        : entry.changes.filter((change) => !FINANCIAL_FIELDS.some((field) => change.path.split('.').includes(field))),
+      actor: actor?._id
+        ? {
+            _id: String(actor._id),
+            name: `${actor.firstName || ''} ${actor.lastName || ''}`.trim() || actor.email || 'Unknown user',
+          }
+        : null,
+      origin: entry.origin || {},
+      restorable: restorableIds.has(String(entry._id)),
+      restoredFrom: entry.restoredFrom ? String(entry.restoredFrom) : null,
+      createdAt: new Date(entry.createdAt).toISOString(),
+    };
+  });
+}
+
+/**
+ * Put a defect or information block back the way it was before a logged change. Deleted records are
+ * recreated with their original id. The restore is itself logged.
+ */
+/**
+ * An information block snapshot back in stored form: ids and dates cast by the schema, and
+ * image annotations checked the same way as when they were first saved
+ */
+function reviveInformationBlock(version: Record<string, any>) {
+  const images = Array.isArray(version.images) ? version.images : [];
+  try {
+    return InspectionInformationBlock.castObject({
+      ...version,
+      images: images.map(({ annotations, ...image }: Record<string, any>) => {
+        const annotationDocument = normalizeAnnotationsInput(annotations);
+        return annotationDocument ? { ...image, annotations: annotationDocument } : image;
+      }),
+    });
+  } catch (error: any) {
+    throw new AuditRestoreError(`This version can no longer be restored: ${error?.message || 'invalid data'}`);
+  }
+}
+
+export async function restoreAuditVersion(req: Request, actor: AuditActor, entryId: ObjectIdLike) {
+  if (!mongoose.Types.ObjectId.isValid(entryId)) {
+    throw new AuditRestoreError('Invalid history entry ID', 400);
+  }
+
+  await dbConnect();
+
+  const entry = await AuditLog.findOne({ _id: entryId, company: actor?.company }).lean();
+  if (!entry) {
+    throw new AuditRestoreError('History entry not found', 404);
+  }
+  if (!(RESTORABLE_AUDIT_ENTITY_TYPES as readonly string[]).includes(entry.entityType)) {
+    throw new AuditRestoreError('Only defects and information sections can be restored');
+  }
+  if (!entry.before) {
+    throw new AuditRestoreError('There is no earlier version to restore');
+  }
+
+  const entityId = String(entry.entityId);
+  const { _id, ...version } = entry.before;
+  let current: unknown;
+  let restored: unknown;
+
+  if (entry.entityType === 'defect') {
+    current = await getDefect(entityId);
+    try {
+      await replaceDefect(entityId, version);
+    } catch (error) {
+      if (error instanceof AnnotationValidationError) {
+        throw new AuditRestoreError(`This version can no longer be restored: ${error.message}`);
+      }
+      throw error;
+    }
+    restored = await getDefect(entityId);
+  } else {
+    current = await InspectionInformationBlock.findById(entityId).lean();
+    try {
+      await InspectionInformationBlock.replaceOne({ _id: entityId }, reviveInformationBlock(version), { upsert: true });
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        throw new AuditRestoreError('This inspection already has another block for that section. Delete it first.', 409);
+      }
+      throw error;
+    }
+    restored = await InspectionInformationBlock.findById(entityId).lean();
+  }
+
+  await recordAuditEvent(req, actor, {
+    entityType: entry.entityType,
+    entityId,
+    action: 'restore',
+    before: current,
+    after: restored,
+    inspection: entry.inspection,
+    company: entry.company,
+    restoredFrom: entry._id as mongoose.Types.ObjectId,
+  });
+
+  return { entityType: entry.entityType, entityId, data: toSnapshot(restored) };
+}
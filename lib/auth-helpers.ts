@@ -3,6 +3,7 @@ import { NextRequest } from 'next/server';
 import User from '../src/models/User';
 import dbConnect from './db';
 import { getToken } from './cookies';
+import { assertRoutePermission } from './permissions';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
@@ -24,9 +25,21 @@ export function verifyToken(token: string): JWTPayload | null {
 }
 
 /**
- * Get current authenticated user from request
+ * Get current authenticated user from request.
+ * Also enforces the route permission policy in lib/permissions.ts and throws
+ * PermissionDeniedError when the user lacks the capability the route requires.
  */
 export async function getCurrentUser(request: NextRequest) {
+  const user = await findAuthenticatedUser(request);
+
+  if (user) {
+    assertRoutePermission(user, request.nextUrl.pathname, request.method);
+  }
+
+  return user;
+}
+
+async function findAuthenticatedUser(request: NextRequest) {
   try {
     await dbConnect();
 
@@ -51,4 +64,3 @@ export async function getCurrentUser(request: NextRequest) {
     return null;
   }
 }
-
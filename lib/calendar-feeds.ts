@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import dbConnect from './db';
+import Company from '@/src/models/Company';
+import Event from '@/src/models/Event';
+import Inspection from '@/src/models/Inspection';
+import User from '@/src/models/User';
+import { buildIcsCalendar, IcsAttendee, IcsEvent, IcsMethod } from './ical';
+import { getInspectionDurationMinutes } from './scheduling';
+import { EmailAttachment } from './email';
+import { normalizeInspectionStatus } from '@/constants/inspectionStatuses';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export type CalendarFeedScope = 'inspector' | 'company';
+
+const APP_URL = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+const UID_DOMAIN = new URL(APP_URL).host;
+
+// Feeds cover recent history and the year ahead; calendar apps drop what falls out of the window
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const generateToken = () => crypto.randomBytes(24).toString('hex');
+
+export const getCalendarFeedUrl = (token: string) => `${APP_URL}/api/public/calendar/feeds/${token}`;
+
+export const getInspectionCalendarLink = (token: string) => `${APP_URL}/api/public/calendar/inspections/${token}`;
+
+/**
+ * Deleted inspections and ones marked cancelled are both called off in calendars
+ */
+export const isCancelledInspection = (inspection: { deletedAt?: Date | null; status?: string }) =>
+  Boolean(inspection.deletedAt) || normalizeInspectionStatus(inspection.status) === 'cancelled';
+
+const fullName = (person?: { firstName?: string; lastName?: string; companyName?: string; isCompany?: boolean } | null) => {
+  if (!person) return '';
+  if (person.isCompany && person.companyName) return person.companyName;
+  return [person.firstName, person.lastName].filter(Boolean).join(' ');
+};
+
+const formatAddress = (location: any = {}) =>
+  [location.address, location.unit, location.city, [location.state, location.zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+const serviceNames = (inspection: any): string =>
+  (inspection.pricing?.services || []).map((service: { name?: string }) => service.name).filter(Boolean).join(', ');
+
+/**
+ * The secret for a user's or company's feed URL, created on first use. Regenerating it breaks
+ * every existing subscription.
+ */
+export async function getCalendarFeedToken(
+  scope: CalendarFeedScope,
+  id: ObjectIdLike,
+  options: { regenerate?: boolean } = {}
+): Promise<string | null> {
+  await dbConnect();
+
+  const Model = (scope === 'company' ? Company : User) as mongoose.Model<any>;
+  const doc = await Model.findById(id).select('+calendarFeedToken').lean<{ calendarFeedToken?: string }>();
+  if (!doc) return null;
+
+  if (doc.calendarFeedToken && !options.regenerate) {
+    return doc.calendarFeedToken;
+  }
+
+  const token = generateToken();
+  await Model.updateOne({ _id: id }, { $set: { calendarFeedToken: token } });
+  return token;
+}
+
+/**
+ * The token behind an inspection's "add to calendar" link, created on first use
+ */
+export async function getInspectionCalendarToken(inspectionId: ObjectIdLike): Promise<string | null> {
+  await dbConnect();
+
+  const inspection = await Inspection.findOneAndUpdate(
+    { _id: inspectionId, calendarToken: { $exists: false } },
+    { $set: { calendarToken: generateToken() } },
+    { new: true }
+  )
+    .select('calendarToken')
+    .lean();
+  if (inspection?.calendarToken) {
+    return inspection.calendarToken;
+  }
+
+  const existing = await Inspection.findById(inspectionId).select('calendarToken').lean();
+  return existing?.calendarToken ?? null;
+}
+
+interface InspectionIcsOptions {
+  // Clients and agents see the appointment, not internal details or client contacts
+  audience: 'staff' | 'client';
+  companyName?: string;
+  companyPhone?: string;
+}
+
+function inspectionToIcsEvent(inspection: any, options: InspectionIcsOptions): IcsEvent {
+  const start = new Date(inspection.date);
+  const address = formatAddress(inspection.location);
+  const services = serviceNames(inspection);
+  const inspectorName = inspection.inspector && typeof inspection.inspector === 'object' ? fullName(inspection.inspector) : '';
+  const teamNames = (inspection.inspectors || [])
+    .filter((member: any) => member && typeof member === 'object' && String(member._id) !== String(inspection.inspector?._id))
+    .map(fullName)
+    .filter(Boolean)
+    .join(', ');
+
+  const description = options.audience === 'staff'
+    ? [
+        services && `Services: ${services}`,
+        ...(inspection.clients || []).map(
+          (client: any) => `Client: ${[fullName(client), client.email, client.phone || client.mobilePhone].filter(Boolean).join(' · ')}`
+        ),
+        inspectorName && `Inspector: ${inspectorName}`,
+        teamNames && `Also on site: ${teamNames}`,
+        inspection.orderId && `Order #${inspection.orderId}`,
+      ]
+    : [
+        services && `Services: ${services}`,
+        inspectorName && `Inspector: ${inspectorName}`,
+        options.companyName && [options.companyName, options.companyPhone].filter(Boolean).join(' · '),
+      ];
+
+  return {
+    uid: `inspection-${inspection._id}@${UID_DOMAIN}`,
+    sequence: inspection.calendarSequence || 0,
+    start,
+    end: new Date(start.getTime() + getInspectionDurationMinutes(inspection) * 60000),
+    summary: options.audience === 'staff'
+      ? `Inspection: ${address || 'No address'}`
+      : `Home inspection${options.companyName ? ` with ${options.companyName}` : ''}`,
+    description: description.filter(Boolean).join('\n'),
+    location: address || undefined,
+    url: options.audience === 'staff' ? `${APP_URL}/inspections/${inspection._id}/edit` : undefined,
+    status: isCancelledInspection(inspection) ? 'CANCELLED' : inspection.confirmedInspection === false ? 'TENTATIVE' : 'CONFIRMED',
+    lastModified: inspection.updatedAt ? new Date(inspection.updatedAt) : undefined,
+  };
+}
+
+function eventToIcsEvent(event: any, inspection?: any): IcsEvent {
+  const address = inspection ? formatAddress(inspection.location) : '';
+
+  return {
+    uid: `event-${event._id}@${UID_DOMAIN}`,
+    sequence: event.sequence || 0,
+    start: new Date(event.startDate),
+    end: new Date(event.endDate),
+    summary: address ? `${event.name}: ${address}` : event.name,
+    description: event.description || undefined,
+    location: address || undefined,
+    url: inspection ? `${APP_URL}/inspections/${inspection._id}/edit` : undefined,
+    // Events of a deleted or cancelled inspection are called off with it
+    status: inspection && isCancelledInspection(inspection) ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: event.updatedAt ? new Date(event.updatedAt) : undefined,
+  };
+}
+
+const FEED_INSPECTION_FIELDS =
+  'date location pricing.services pricing.totalDurationHours services inspector inspectors clients orderId status confirmedInspection calendarSequence deletedAt updatedAt';
+
+/**
+ * The iCal feed behind a subscription token: the inspections an inspector leads or is on the team
+ * for plus their events, or every inspection and event in the company. Deleted inspections stay in
+ * the feed as cancellations.
+ */
+export async function getCalendarFeed(token: string): Promise<{ name: string; calendar: string } | null> {
+  if (!token) return null;
+  await dbConnect();
+
+  const user = await User.findOne({ calendarFeedToken: token, isActive: true }).select('firstName lastName company').lean();
+  const company = user
+    ? null
+    : await Company.findOne({ calendarFeedToken: token }).select('name').lean();
+  if (!user && !company) return null;
+
+  const now = Date.now();
+  const window = { $gte: new Date(now - FEED_PAST_DAYS * DAY_MS), $lte: new Date(now + FEED_FUTURE_DAYS * DAY_MS) };
+  const inspectionFilter = user
+    ? { companyId: user.company, $or: [{ inspector: user._id }, { inspectors: user._id }], date: window }
+    : { companyId: company!._id, date: window };
+
+  const inspections = await Inspection.find(inspectionFilter)
+    .select(FEED_INSPECTION_FIELDS)
+    .populate('clients', 'firstName lastName companyName isCompany email phone mobilePhone')
+    .populate('inspector', 'firstName lastName')
+    .populate('inspectors', 'firstName lastName')
+    .populate('services.serviceId', 'baseDurationHours')
+    .sort({ date: 1 })
+    .lean();
+
+  const events = await Event.find(
+    user
+      ? { inspector: user._id, startDate: window }
+      : { inspectionId: { $in: inspections.map((inspection) => inspection._id) } }
+  ).lean();
+
+  // An inspector's events can belong to inspections assigned to someone else
+  const eventInspectionIds = events
+    .map((event) => String(event.inspectionId))
+    .filter((id) => !inspections.some((inspection) => String(inspection._id) === id));
+  const eventInspections = eventInspectionIds.length
+    ? await Inspection.find({ _id: { $in: eventInspectionIds } }).select('location status deletedAt').lean()
+    : [];
+  const inspectionsById = new Map<string, any>(
+    [...inspections, ...eventInspections].map((inspection) => [String(inspection._id), inspection])
+  );
+
+  const name = user ? `${fullName(user)} – Inspections` : `${company!.name} – Inspections`;
+  const calendar = buildIcsCalendar({
+    name,
+    events: [
+      ...inspections.map((inspection) => inspectionToIcsEvent(inspection, { audience: 'staff' })),
+      ...events.map((event) => eventToIcsEvent(event, inspectionsById.get(String(event.inspectionId)))),
+    ],
+  });
+
+  return { name, calendar };
+}
+
+/**
+ * A single inspection as an .ics file for clients and agents. Emailed invites use REQUEST so
+ * calendar apps offer to add them; a deleted or cancelled inspection becomes a CANCEL of the same UID.
+ */
+export async function getInspectionInvite(
+  lookup: { inspectionId?: ObjectIdLike; token?: string },
+  method: Exclude<IcsMethod, 'CANCEL'> = 'PUBLISH'
+): Promise<{ filename: string; content: string; method: IcsMethod } | null> {
+  await dbConnect();
+
+  const filter = lookup.token ? { calendarToken: lookup.token } : { _id: lookup.inspectionId };
+  if (!lookup.token && !mongoose.Types.ObjectId.isValid(String(lookup.inspectionId))) {
+    return null;
+  }
+
+  const inspection = await Inspection.findOne(filter)
+    .select(`${FEED_INSPECTION_FIELDS} companyId agents`)
+    .populate('inspector', 'firstName lastName')
+    .populate('clients', 'firstName lastName companyName isCompany email')
+    .populate('agents', 'firstName lastName email')
+    .populate('companyId', 'name phone email')
+    .populate('services.serviceId', 'baseDurationHours')
+    .lean<any>();
+  if (!inspection || !inspection.date) return null;
+
+  const company = inspection.companyId && typeof inspection.companyId === 'object' ? inspection.companyId : {};
+  const attendees: IcsAttendee[] = [...(inspection.clients || []), ...(inspection.agents || [])]
+    .filter((contact: any) => contact?.email)
+    .map((contact: any) => ({ name: fullName(contact) || undefined, email: contact.email }));
+  const resolvedMethod: IcsMethod = isCancelledInspection(inspection) ? 'CANCEL' : method;
+
+  const content = buildIcsCalendar({
+    method: resolvedMethod,
+    events: [
+      {
+        ...inspectionToIcsEvent(inspection, {
+          audience: 'client',
+          companyName: company.name,
+          companyPhone: company.phone,
+        }),
+        organizer: company.email ? { name: company.name, email: company.email } : undefined,
+        attendees: resolvedMethod === 'PUBLISH' ? undefined : attendees,
+      },
+    ],
+  });
+
+  return { filename: 'inspection.ics', content, method: resolvedMethod };
+}
+
+/**
+ * The invite attached to booking emails, or null when the inspection has no date yet
+ */
+export async function getInspectionInviteAttachment(inspectionId: ObjectIdLike): Promise<EmailAttachment | null> {
+  const invite = await getInspectionInvite({ inspectionId }, 'REQUEST');
+  if (!invite) return null;
+
+  return {
+    filename: invite.filename,
+    content: Buffer.from(invite.content),
+    contentType: `text/calendar; charset=utf-8; method=${invite.method}`,
+  };
+}
@@ -0,0 +1,411 @@
+import mongoose from 'mongoose';
+import Category, { ICategory, ICategoryRule } from '@/src/models/Category';
+import Inspection from '@/src/models/Inspection';
+import Service from '@/src/models/Service';
+import Agent from '@/src/models/Agent';
+import Client from '@/src/models/Client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ContactType = 'Agent' | 'Client';
+type ContactRole = 'all' | 'buyer' | 'seller';
+
+interface InspectionStat {
+  date: Date;
+  revenue: number;
+}
+
+type ContactStats = Record<ContactRole, InspectionStat[]>;
+
+interface ContactSummary {
+  _id: mongoose.Types.ObjectId;
+  firstName?: string;
+  lastName?: string;
+  companyName?: string;
+  isCompany?: boolean;
+  email?: string;
+  categories?: mongoose.Types.ObjectId[];
+}
+
+export interface CategoryContactChange {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+export interface CategoryEvaluationResult {
+  categoryId: string;
+  categoryName: string;
+  contactType: ContactType;
+  added: CategoryContactChange[];
+  removed: CategoryContactChange[];
+}
+
+interface EvaluateOptions {
+  categoryId?: string;
+  contactIds?: mongoose.Types.ObjectId[];
+  dryRun?: boolean;
+}
+
+const emptyStats = (): ContactStats => ({ all: [], buyer: [], seller: [] });
+
+const toIdStrings = (values: unknown): string[] =>
+  Array.isArray(values)
+    ? values.filter(Boolean).map((value: any) => (value._id ?? value).toString())
+    : [];
+
+/**
+ * Resolve which contact role a rule type refers to.
+ * Buyer's agents are the inspection `agents`, seller's agents the `listingAgent`s.
+ */
+function getRuleRole(ruleType: string): ContactRole {
+  if (ruleType.startsWith("Buyer's Agent")) return 'buyer';
+  if (ruleType.startsWith("Seller's Agent")) return 'seller';
+  return 'all';
+}
+
+function getWindow(rule: ICategoryRule, now: Date): { start: number; end: number } | null {
+  if (!rule.within || !rule.days) {
+    return null;
+  }
+  const span = rule.days * DAY_MS;
+  return rule.within === 'Last'
+    ? { start: now.getTime() - span, end: now.getTime() }
+    : { start: now.getTime(), end: now.getTime() + span };
+}
+
+/**
+ * Compute the metric a rule compares against.
+ * - "... Count" rules: number of inspections in the window
+ * - "... Revenue" rules: summed inspection revenue in the window
+ * - "... First/Last Inspection" rules: days elapsed since that inspection (negative when it is upcoming),
+ *   or null when the contact has no inspection in the window
+ */
+function computeRuleMetric(rule: ICategoryRule, stats: ContactStats, now: Date): number | null {
+  const window = getWindow(rule, now);
+  const inspections = stats[getRuleRole(rule.ruleType)].filter((stat) => {
+    if (!window) return true;
+    const time = stat.date.getTime();
+    return time >= window.start && time <= window.end;
+  });
+
+  if (rule.ruleType.endsWith('Revenue')) {
+    const total = inspections.reduce((sum, stat) => sum + stat.revenue, 0);
+    return Math.round(total * 100) / 100;
+  }
+
+  if (rule.ruleType.endsWith('First Inspection') || rule.ruleType.endsWith('Last Inspection')) {
+    if (inspections.length === 0) {
+      return null;
+    }
+    const times = inspections.map((stat) => stat.date.getTime());
+    const target = rule.ruleType.endsWith('First Inspection') ? Math.min(...times) : Math.max(...times);
+    return Math.floor((now.getTime() - target) / DAY_MS);
+  }
+
+  return inspections.length;
+}
+
+function evaluateRule(rule: ICategoryRule, stats: ContactStats, now: Date): boolean {
+  const metric = computeRuleMetric(rule, stats, now);
+  if (metric === null) {
+    return false;
+  }
+
+  switch (rule.condition) {
+    case 'Equal To':
+      return metric === rule.count;
+    case 'Greater Than':
+      return metric > rule.count;
+    case 'Less Than':
+      return metric < rule.count;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a category's rule chain left to right.
+ * The first rule's operation is ignored; every following rule is joined with its own AND/OR (AND by default).
+ */
+export function evaluateRuleChain(rules: ICategoryRule[], stats: ContactStats, now: Date = new Date()): boolean {
+  if (!rules || rules.length === 0) {
+    return false;
+  }
+
+  return rules.reduce<boolean>((result, rule, index) => {
+    const passes = evaluateRule(rule, stats, now);
+    if (index === 0) return passes;
+    return rule.operation === 'OR' ? result || passes : result && passes;
+  }, false);
+}
+
+/**
+ * Revenue for a single inspection: the persisted quote total when available, otherwise
+ * service base costs plus the add-on fees stored on the inspection
+ */
+export function getInspectionRevenue(
+  inspection: {
+    pricing?: { total?: number } | null;
+    services?: Array<{ serviceId?: mongoose.Types.ObjectId; addOns?: Array<{ addFee?: number }> }>;
+  },
+  serviceCosts: Map<string, number>
+): number {
+  if (typeof inspection.pricing?.total === 'number') {
+    return inspection.pricing.total;
+  }
+
+  return (inspection.services || []).reduce((total, service) => {
+    const baseCost = service.serviceId ? serviceCosts.get(service.serviceId.toString()) ?? 0 : 0;
+    const addOnTotal = (service.addOns || []).reduce((sum, addOn) => sum + (Number(addOn.addFee) || 0), 0);
+    return total + baseCost + addOnTotal;
+  }, 0);
+}
+
+async function buildContactStats(
+  companyId: mongoose.Types.ObjectId,
+  contactIds?: mongoose.Types.ObjectId[]
+): Promise<{ agents: Map<string, ContactStats>; clients: Map<string, ContactStats> }> {
+  const query: Record<string, any> = {
+    companyId,
+    $and: [{ $or: [{ deletedAt: null }, { deletedAt: { $exists: false } }] }],
+  };
+
+  if (contactIds) {
+    query.$and.push({
+      $or: [
+        { agents: { $in: contactIds } },
+        { listingAgent: { $in: contactIds } },
+        { clients: { $in: contactIds } },
+      ],
+    });
+  }
+
+  const [inspections, services] = await Promise.all([
+    Inspection.find(query).select('date services pricing.total agents listingAgent clients').lean(),
+    Service.find({ company: companyId }).select('_id baseCost').lean(),
+  ]);
+
+  const serviceCosts = new Map<string, number>(
+    services.map((service) => [service._id.toString(), Number(service.baseCost) || 0])
+  );
+
+  const agents = new Map<string, ContactStats>();
+  const clients = new Map<string, ContactStats>();
+
+  const record = (map: Map<string, ContactStats>, id: string, role: ContactRole, stat: InspectionStat) => {
+    if (!map.has(id)) map.set(id, emptyStats());
+    map.get(id)![role].push(stat);
+  };
+
+  for (const inspection of inspections) {
+    if (!inspection.date) continue;
+
+    const stat: InspectionStat = {
+      date: new Date(inspection.date),
+      revenue: getInspectionRevenue(inspection as any, serviceCosts),
+    };
+
+    const buyerAgentIds = toIdStrings(inspection.agents);
+    const sellerAgentIds = toIdStrings(inspection.listingAgent);
+
+    buyerAgentIds.forEach((id) => record(agents, id, 'buyer', stat));
+    sellerAgentIds.forEach((id) => record(agents, id, 'seller', stat));
+    // An agent on both sides of the same inspection still counts once overall
+    new Set([...buyerAgentIds, ...sellerAgentIds]).forEach((id) => record(agents, id, 'all', stat));
+
+    toIdStrings(inspection.clients).forEach((id) => record(clients, id, 'all', stat));
+  }
+
+  return { agents, clients };
+}
+
+const formatContactName = (contact: ContactSummary): string => {
+  if (contact.isCompany) {
+    return contact.companyName || '';
+  }
+  return `${contact.firstName || ''} ${contact.lastName || ''}`.trim();
+};
+
+async function loadContacts(
+  contactType: ContactType,
+  companyId: mongoose.Types.ObjectId,
+  contactIds?: mongoose.Types.ObjectId[]
+): Promise<ContactSummary[]> {
+  const query: Record<string, any> = { company: companyId };
+  if (contactIds) {
+    query._id = { $in: contactIds };
+  }
+
+  if (contactType === 'Agent') {
+    return Agent.find(query).select('firstName lastName email categories').lean<ContactSummary[]>();
+  }
+  return Client.find(query)
+    .select('firstName lastName companyName isCompany email categories')
+    .lean<ContactSummary[]>();
+}
+
+/**
+ * Evaluate auto-categorizing rules for a company and (unless dryRun) apply the resulting category changes.
+ * When contactIds is provided only those contacts are considered, which keeps inspection-triggered runs cheap.
+ */
+export async function evaluateAutoCategories(
+  companyId: mongoose.Types.ObjectId | string,
+  options: EvaluateOptions = {}
+): Promise<CategoryEvaluationResult[]> {
+  const companyObjectId = new mongoose.Types.ObjectId(companyId.toString());
+  const now = new Date();
+
+  const categoryQuery: Record<string, any> = {
+    company: companyObjectId,
+    autoCategorizing: true,
+    autoCategoryPerson: { $in: ['Agent', 'Client'] },
+  };
+  if (options.categoryId) {
+    categoryQuery._id = new mongoose.Types.ObjectId(options.categoryId);
+  }
+
+  const categories = await Category.find(categoryQuery).lean<ICategory[]>();
+  const activeCategories = categories.filter((category) => Array.isArray(category.rules) && category.rules.length > 0);
+  if (activeCategories.length === 0) {
+    return [];
+  }
+
+  const stats = await buildContactStats(companyObjectId, options.contactIds);
+  const contactCache = new Map<ContactType, ContactSummary[]>();
+  const results: CategoryEvaluationResult[] = [];
+
+  for (const category of activeCategories) {
+    const contactType = category.autoCategoryPerson as ContactType;
+    if (!contactCache.has(contactType)) {
+      contactCache.set(contactType, await loadContacts(contactType, companyObjectId, options.contactIds));
+    }
+
+    const categoryId = (category._id as mongoose.Types.ObjectId).toString();
+    const statsMap = contactType === 'Agent' ? stats.agents : stats.clients;
+    const added: ContactSummary[] = [];
+    const removed: ContactSummary[] = [];
+
+    for (const contact of contactCache.get(contactType)!) {
+      const hasCategory = toIdStrings(contact.categories).includes(categoryId);
+      const passes = evaluateRuleChain(category.rules, statsMap.get(contact._id.toString()) ?? emptyStats(), now);
+
+      if (passes && !hasCategory) {
+        added.push(contact);
+      } else if (!passes && hasCategory && category.removeCategoryOnRuleFail) {
+        removed.push(contact);
+      }
+    }
+
+    if (!options.dryRun) {
+      const ContactModel: mongoose.Model<any> = contactType === 'Agent' ? Agent : Client;
+      const categoryObjectId = category._id as mongoose.Types.ObjectId;
+
+      if (added.length > 0) {
+        await ContactModel.updateMany(
+          { _id: { $in: added.map((contact) => contact._id) } },
+          { $addToSet: { categories: categoryObjectId } }
+        );
+      }
+      if (removed.length > 0) {
+        await ContactModel.updateMany(
+          { _id: { $in: removed.map((contact) => contact._id) } },
+          { $pull: { categories: categoryObjectId } }
+        );
+      }
+    }
+
+    const toChange = (contact: ContactSummary): CategoryContactChange => ({
+      _id: contact._id.toString(),
+      name: formatContactName(contact),
+      email: contact.email || '',
+    });
+
+    results.push({
+      categoryId,
+      categoryName: category.name,
+      contactType,
+      added: added.map(toChange),
+      removed: removed.map(toChange),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Collect the agent, listing agent and client IDs attached to an inspection
+ */
+export async function getInspectionContactIds(inspectionId: string): Promise<mongoose.Types.ObjectId[]> {
+  if (!mongoose.Types.ObjectId.isValid(inspectionId)) {
+    return [];
+  }
+
+  const inspection = await Inspection.findById(inspectionId).select('agents listingAgent clients').lean();
+  if (!inspection) {
+    return [];
+  }
+
+  return [...(inspection.agents || []), ...(inspection.listingAgent || []), ...(inspection.clients || [])];
+}
+
+/**
+ * Re-evaluate auto categories for the contacts on an inspection after it was created, updated, deleted or restored.
+ * previousContactIds covers contacts that were removed from the inspection by an update.
+ * Failures are logged rather than thrown so the inspection request itself never fails because of categorizing.
+ */
+export async function refreshAutoCategoriesForInspection(
+  inspectionId: string,
+  previousContactIds: mongoose.Types.ObjectId[] = []
+): Promise<void> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(inspectionId)) {
+      return;
+    }
+
+    const inspection = await Inspection.findById(inspectionId).select('companyId agents listingAgent clients').lean();
+    if (!inspection?.companyId) {
+      return;
+    }
+
+    const contactIds = [
+      ...previousContactIds,
+      ...(inspection.agents || []),
+      ...(inspection.listingAgent || []),
+      ...(inspection.clients || []),
+    ];
+    if (contactIds.length === 0) {
+      return;
+    }
+
+    const uniqueIds = Array.from(new Set(contactIds.map((id) => id.toString()))).map(
+      (id) => new mongoose.Types.ObjectId(id)
+    );
+
+    await evaluateAutoCategories(inspection.companyId, { contactIds: uniqueIds });
+  } catch (error) {
+    console.error('Auto categorizing error:', error);
+  }
+}
+
+/**
+ * Nightly batch: re-evaluate every company that has at least one auto-categorizing category
+ */
+export async function runAutoCategorizationForAllCompanies(): Promise<{ companyId: string; changes: number }[]> {
+  const companyIds: mongoose.Types.ObjectId[] = await Category.distinct('company', { autoCategorizing: true });
+  const summary: { companyId: string; changes: number }[] = [];
+
+  for (const companyId of companyIds) {
+    try {
+      const results = await evaluateAutoCategories(companyId);
+      summary.push({
+        companyId: companyId.toString(),
+        changes: results.reduce((total, result) => total + result.added.length + result.removed.length, 0),
+      });
+    } catch (error) {
+      console.error(`Auto categorizing failed for company ${companyId}:`, error);
+    }
+  }
+
+  return summary;
+}
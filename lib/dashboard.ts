@@ -0,0 +1,290 @@
+import mongoose from 'mongoose';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import dbConnect from './db';
+import Agent from '@/src/models/Agent';
+import Inspection from '@/src/models/Inspection';
+import Invoice from '@/src/models/Invoice';
+import Task from '@/src/models/Task';
+import { IUser } from '@/src/models/User';
+import { hasPermission } from './permissions';
+import { addDaysToDateKey, isDateKey, startOfDayInTimeZone, toDateKey } from '@/src/lib/time-zones';
+
+export type DashboardTrendInterval = 'day' | 'week' | 'month';
+
+export interface DashboardRange {
+  // Calendar days (YYYY-MM-DD) in the company's time zone, `to` inclusive
+  from: string;
+  to: string;
+  timeZone: string;
+}
+
+export interface DashboardTrendPoint {
+  // Start of the bucket (yyyy-MM-dd)
+  period: string;
+  label: string;
+  inspections: number;
+  revenue?: number;
+}
+
+export interface DashboardAgent {
+  agentId: string;
+  name: string;
+  inspections: number;
+  revenue?: number;
+}
+
+export interface DashboardTask {
+  _id: string;
+  title: string;
+  taskType: string;
+  priority: string;
+  status: string;
+  dueDate: Date;
+  overdue: boolean;
+  inspectionId: string;
+  address?: string;
+}
+
+export interface DashboardMetrics {
+  range: { from: string; to: string };
+  interval: DashboardTrendInterval;
+  inspectionsToday: number;
+  inspectionsThisWeek: number;
+  inspectionsInRange: number;
+  pendingConfirmation: number;
+  reportsNotGenerated: number;
+  // Only present for users with can_access_financial_data
+  revenue?: {
+    booked: number;
+    collected: number;
+  };
+  trend: DashboardTrendPoint[];
+  topAgents: DashboardAgent[];
+  myTasks: DashboardTask[];
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const TOP_AGENT_LIMIT = 5;
+const TASK_LIMIT = 10;
+
+const notDeleted = { $or: [{ deletedAt: null }, { deletedAt: { $exists: false } }] };
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Rejects keys like 2024-02-31 that only look like dates
+const isValidDateKey = (value: string) => isDateKey(value) && addDaysToDateKey(value, 0) === value;
+
+/**
+ * Parse the from/to query values (yyyy-MM-dd), falling back to the last 30 days. Both ends are inclusive whole
+ * days in the company's time zone.
+ */
+export function parseDashboardRange(
+  from: string | null | undefined,
+  to: string | null | undefined,
+  timeZone: string
+): DashboardRange | { error: string } {
+  if ((from && !isValidDateKey(from)) || (to && !isValidDateKey(to))) {
+    return { error: 'Invalid date range' };
+  }
+
+  const end = to || toDateKey(new Date(), timeZone);
+  const start = from || addDaysToDateKey(end, -(DEFAULT_RANGE_DAYS - 1));
+  if (start > end) {
+    return { error: 'The start date must be before the end date' };
+  }
+
+  return { from: start, to: end, timeZone };
+}
+
+/**
+ * The instants the range covers, from the start of its first day to the end of its last
+ */
+function rangeBounds(range: DashboardRange) {
+  return {
+    start: startOfDayInTimeZone(range.from, range.timeZone),
+    end: new Date(startOfDayInTimeZone(addDaysToDateKey(range.to, 1), range.timeZone).getTime() - 1),
+  };
+}
+
+/**
+ * Day buckets for ranges up to a month, weeks up to six months, months beyond that
+ */
+function getTrendInterval(range: DashboardRange): DashboardTrendInterval {
+  const days = differenceInCalendarDays(parseISO(range.to), parseISO(range.from)) + 1;
+  if (days <= 31) return 'day';
+  if (days <= 183) return 'week';
+  return 'month';
+}
+
+// Works on calendar days only, so the server's own zone never shifts a bucket
+function bucketStart(dateKey: string, interval: DashboardTrendInterval): Date {
+  const day = parseISO(dateKey);
+  if (interval === 'month') return startOfMonth(day);
+  if (interval === 'week') return startOfWeek(day);
+  return day;
+}
+
+function buildEmptyTrend(range: DashboardRange, interval: DashboardTrendInterval, withRevenue: boolean) {
+  const points = new Map<string, DashboardTrendPoint>();
+  const step = interval === 'month' ? addMonths : interval === 'week' ? addWeeks : addDays;
+
+  const last = parseISO(range.to);
+
+  for (let cursor = bucketStart(range.from, interval); cursor <= last; cursor = step(cursor, 1)) {
+    const period = format(cursor, 'yyyy-MM-dd');
+    points.set(period, {
+      period,
+      label: format(cursor, interval === 'month' ? 'MMM yyyy' : 'MMM d'),
+      inspections: 0,
+      ...(withRevenue ? { revenue: 0 } : {}),
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Everything the dashboard shows for one company. Revenue figures are left out unless the user may
+ * see financial data.
+ */
+export async function getDashboardMetrics(
+  user: Pick<IUser, '_id' | 'company'> & Partial<IUser>,
+  range: DashboardRange
+): Promise<DashboardMetrics> {
+  await dbConnect();
+
+  const companyId = new mongoose.Types.ObjectId(String(user.company));
+  const withRevenue = hasPermission(user, 'can_access_financial_data');
+  const interval = getTrendInterval(range);
+
+  const { timeZone } = range;
+  const { start: rangeStart, end: rangeEnd } = rangeBounds(range);
+  const now = new Date();
+  const today = toDateKey(now, timeZone);
+  const weekStart = format(bucketStart(today, 'week'), 'yyyy-MM-dd');
+  const dayBounds = (first: string, days: number) => ({
+    $gte: startOfDayInTimeZone(first, timeZone),
+    $lt: startOfDayInTimeZone(addDaysToDateKey(first, days), timeZone),
+  });
+  const active = { companyId, ...notDeleted };
+
+  const [
+    inspectionsToday,
+    inspectionsThisWeek,
+    pendingConfirmation,
+    reportsNotGenerated,
+    inRange,
+    tasks,
+  ] = await Promise.all([
+    Inspection.countDocuments({ ...active, date: dayBounds(today, 1) }),
+    Inspection.countDocuments({ ...active, date: dayBounds(weekStart, 7) }),
+    Inspection.countDocuments({ ...active, status: 'unconfirmed' }),
+    // Only inspections that have already happened can be waiting on a report
+    Inspection.countDocuments({ ...active, date: { $lte: now }, htmlReportGeneratedAt: null }),
+    Inspection.find({ ...active, date: { $gte: rangeStart, $lte: rangeEnd } })
+      .select('date agents pricing.total')
+      .lean(),
+    Task.find({ companyId, assignedTo: user._id, status: { $ne: 'Complete' } })
+      .sort({ dueDate: 1 })
+      .limit(TASK_LIMIT)
+      .populate('inspectionId', 'location.address')
+      .lean(),
+  ]);
+
+  const trend = buildEmptyTrend(range, interval, withRevenue);
+  const agentTotals = new Map<string, { inspections: number; revenue: number }>();
+  let booked = 0;
+
+  inRange.forEach((inspection: any) => {
+    const total = inspection.pricing?.total || 0;
+    booked += total;
+
+    const point = trend.get(format(bucketStart(toDateKey(new Date(inspection.date), timeZone), interval), 'yyyy-MM-dd'));
+    if (point) {
+      point.inspections += 1;
+      if (withRevenue) point.revenue = roundCurrency((point.revenue || 0) + total);
+    }
+
+    (inspection.agents || []).forEach((agentId: mongoose.Types.ObjectId) => {
+      const key = String(agentId);
+      const entry = agentTotals.get(key) || { inspections: 0, revenue: 0 };
+      entry.inspections += 1;
+      entry.revenue += total;
+      agentTotals.set(key, entry);
+    });
+  });
+
+  const topAgentIds = Array.from(agentTotals.entries())
+    .sort((a, b) => b[1].inspections - a[1].inspections || b[1].revenue - a[1].revenue)
+    .slice(0, TOP_AGENT_LIMIT);
+
+  const agents = topAgentIds.length
+    ? await Agent.find({ _id: { $in: topAgentIds.map(([agentId]) => agentId) } })
+        .select('firstName lastName')
+        .lean()
+    : [];
+  const agentNames = new Map(agents.map((agent) => [String(agent._id), [agent.firstName, agent.lastName].filter(Boolean).join(' ')]));
+
+  const metrics: DashboardMetrics = {
+    range: { from: rangeStart.toISOString(), to: rangeEnd.toISOString() },
+    interval,
+    inspectionsToday,
+    inspectionsThisWeek,
+    inspectionsInRange: inRange.length,
+    pendingConfirmation,
+    reportsNotGenerated,
+    trend: Array.from(trend.values()),
+    topAgents: topAgentIds.map(([agentId, totals]) => ({
+      agentId,
+      name: agentNames.get(agentId) || 'Unknown agent',
+      inspections: totals.inspections,
+      ...(withRevenue ? { revenue: roundCurrency(totals.revenue) } : {}),
+    })),
+    myTasks: tasks.map((task: any) => ({
+      _id: String(task._id),
+      title: task.title,
+      taskType: task.taskType,
+      priority: task.priority,
+      status: task.status,
+      dueDate: task.dueDate,
+      overdue: new Date(task.dueDate) < now,
+      inspectionId: String(task.inspectionId?._id || task.inspectionId),
+      address: task.inspectionId?.location?.address,
+    })),
+  };
+
+  if (withRevenue) {
+    // Money actually received in the range, net of refunds
+    const [collected] = await Invoice.aggregate([
+      { $match: { company: companyId } },
+      { $unwind: '$payments' },
+      { $match: { 'payments.receivedAt': { $gte: rangeStart, $lte: rangeEnd } } },
+      {
+        $group: {
+          _id: null,
+          total: {
+            $sum: {
+              $cond: [{ $eq: ['$payments.type', 'refund'] }, { $multiply: ['$payments.amount', -1] }, '$payments.amount'],
+            },
+          },
+        },
+      },
+    ]);
+
+    metrics.revenue = {
+      booked: roundCurrency(booked),
+      collected: roundCurrency(collected?.total || 0),
+    };
+  }
+
+  return metrics;
+}
@@ -0,0 +1,389 @@
+import crypto from 'crypto';
+import { readFile } from 'fs/promises';
+import OpenAI from 'openai';
+import type { ChatCompletionCreateParamsNonStreaming, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { z } from 'zod';
+import { getR2ObjectAsDataURI, resolveR2KeyFromUrl } from './r2';
+
+/**
+ * What a provider must return for a defect photo. Every field is required and nothing else is
+ * allowed, so the same schema drives OpenAI structured outputs and validation of any other model.
+ */
+export const AnalysisResultSchema = z
+  .object({
+    defect: z.string().describe('Full narrative description of the defect for the report'),
+    short_description: z.string().describe('One-line summary of the defect'),
+    materials_names: z.string().describe('Materials needed for the repair, comma separated'),
+    materials_total_cost: z.number().min(0).describe('Estimated material cost in USD'),
+    labor_type: z.string().describe('Type of contractor needed, e.g. Electrician or Roofer'),
+    labor_rate: z.number().min(0).describe('Hourly labor rate in USD'),
+    hours_required: z.number().min(0).describe('Estimated hours for the repair'),
+    recommendation: z.string().describe('Professional recommendation for addressing the defect'),
+  })
+  .strict();
+
+export type AnalysisResult = z.infer<typeof AnalysisResultSchema>;
+
+export interface DefectAnalysisRequest {
+  imageUrl: string;
+  description: string;
+  location?: string;
+  section?: string;
+  subSection?: string;
+}
+
+/**
+ * Anything that can turn a defect photo and the inspector's notes into an AnalysisResult.
+ * Providers throw when the model cannot be reached or never returns a valid result.
+ */
+export interface DefectAnalysisProvider {
+  name: string;
+  analyze(request: DefectAnalysisRequest): Promise<AnalysisResult>;
+}
+
+export class AnalysisOutputError extends Error {
+  readonly status = 502;
+
+  constructor(message: string, public output?: string) {
+    super(message);
+    this.name = 'AnalysisOutputError';
+  }
+}
+
+const SYSTEM_PROMPT = `You are an expert home inspector analyzing a photo of a defect found during an inspection.
+Use the photo together with the inspector's description and location to estimate the repair.
+Reply with a single JSON object and nothing else, with exactly these fields:
+- defect: full description of the defect, written for the inspection report
+- short_description: one-line summary of the defect
+- materials_names: materials needed for the repair, comma separated
+- materials_total_cost: estimated material cost in USD (number)
+- labor_type: type of contractor needed (e.g. "Electrician", "Roofer")
+- labor_rate: hourly labor rate in USD (number)
+- hours_required: estimated hours for the repair (number)
+- recommendation: professional recommendation for addressing the defect`;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Parses a model reply as an AnalysisResult. The reply must be the JSON object itself; a
+ * surrounding markdown code fence, which smaller models add despite the prompt, is tolerated.
+ */
+export function parseAnalysisResult(output: string): { data?: AnalysisResult; error?: string } {
+  const text = output
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { error: 'Reply is not valid JSON' };
+  }
+
+  const result = AnalysisResultSchema.safeParse(json);
+  if (!result.success) {
+    return {
+      error: result.error.issues
+        .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+        .join('; '),
+    };
+  }
+  return { data: result.data };
+}
+
+function describeRequest({ description, location, section, subSection }: DefectAnalysisRequest): string {
+  return [
+    description && `Description: ${description}`,
+    location && `Location: ${location}`,
+    section && `Section: ${section}`,
+    subSection && `Subsection: ${subSection}`,
+  ]
+    .filter(Boolean)
+    .join('\n') || 'No notes from the inspector; describe what the photo shows.';
+}
+
+/**
+ * Defect fields filled from an analysis. The estimate is materials plus labor; it is also kept
+ * as base_cost, which later gets multiplied by the number of photos of the defect.
+ */
+export function analysisToDefectFields(result: AnalysisResult) {
+  const totalCost = result.materials_total_cost + result.labor_rate * result.hours_required;
+  return {
+    defect_description: result.defect,
+    defect_short_description: result.short_description,
+    materials: result.materials_names,
+    material_total_cost: totalCost,
+    labor_type: result.labor_type,
+    labor_rate: result.labor_rate,
+    hours_required: result.hours_required,
+    recommendation: result.recommendation,
+    base_cost: totalCost,
+  };
+}
+
+export interface ChatAnalysisOptions {
+  model: string;
+  maxAttempts?: number;
+}
+
+/**
+ * Analysis through a chat completions endpoint with image input. A reply that fails validation
+ * is sent back to the model with the problems listed, up to maxAttempts calls in all.
+ */
+export abstract class ChatAnalysisProvider implements DefectAnalysisProvider {
+  abstract name: string;
+
+  constructor(
+    protected client: OpenAI,
+    protected options: ChatAnalysisOptions
+  ) {}
+
+  protected abstract responseFormat(): ChatCompletionCreateParamsNonStreaming['response_format'];
+
+  protected async imageInput(imageUrl: string): Promise<string> {
+    return imageUrl;
+  }
+
+  async analyze(request: DefectAnalysisRequest): Promise<AnalysisResult> {
+    const messages: ChatCompletionMessageParam[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: describeRequest(request) },
+          { type: 'image_url', image_url: { url: await this.imageInput(request.imageUrl) } },
+        ],
+      },
+    ];
+
+    const maxAttempts = this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    let output = '';
+    let error = '';
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const completion = await this.client.chat.completions.create({
+        model: this.options.model,
+        messages,
+        response_format: this.responseFormat(),
+        temperature: 0.2,
+      });
+
+      const message = completion.choices[0]?.message;
+      output = message?.content || '';
+      if (message?.refusal) {
+        throw new AnalysisOutputError(`Model refused the analysis: ${message.refusal}`, output);
+      }
+
+      const parsed = parseAnalysisResult(output);
+      if (parsed.data) return parsed.data;
+
+      error = parsed.error || 'Invalid reply';
+      messages.push(
+        { role: 'assistant', content: output },
+        {
+          role: 'user',
+          content: `That reply was not a valid result (${error}). Reply again with only the JSON object described in the instructions.`,
+        }
+      );
+    }
+
+    throw new AnalysisOutputError(`No valid analysis after ${maxAttempts} attempts: ${error}`, output);
+  }
+}
+
+/**
+ * OpenAI chat completions with vision, constrained to the schema with structured outputs
+ */
+export class OpenAIAnalysisProvider extends ChatAnalysisProvider {
+  name = 'openai';
+
+  constructor(apiKey: string, options: ChatAnalysisOptions) {
+    super(new OpenAI({ apiKey }), options);
+  }
+
+  protected responseFormat() {
+    return zodResponseFormat(AnalysisResultSchema, 'defect_analysis');
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (Ollama, vLLM, LM Studio, ...). Structured
+ * output support varies between them, so the schema is enforced by validation only, and the
+ * photo is sent inline because a local server may not be able to download it. Only photos in our
+ * R2 bucket are read, straight from the bucket, so a request cannot make the server fetch
+ * arbitrary URLs.
+ */
+export class OpenAICompatibleAnalysisProvider extends ChatAnalysisProvider {
+  name = 'local';
+
+  constructor(baseURL: string, options: ChatAnalysisOptions & { apiKey?: string }) {
+    // The SDK insists on a key; local servers generally ignore it
+    super(new OpenAI({ baseURL, apiKey: options.apiKey || 'local' }), options);
+  }
+
+  protected responseFormat() {
+    return undefined;
+  }
+
+  protected async imageInput(imageUrl: string): Promise<string> {
+    if (imageUrl.startsWith('data:')) return imageUrl;
+
+    const key = resolveR2KeyFromUrl(imageUrl);
+    if (!key) {
+      throw new Error('Only uploaded photos can be analyzed');
+    }
+    return getR2ObjectAsDataURI(key);
+  }
+}
+
+export interface AnalysisFixture {
+  // Picked when the description contains any of these words (case-insensitive)
+  keywords: string[];
+  result: AnalysisResult;
+}
+
+export const DEFAULT_ANALYSIS_FIXTURES: AnalysisFixture[] = [
+  {
+    keywords: ['roof', 'shingle', 'flashing', 'gutter'],
+    result: {
+      defect: 'Damaged and lifted asphalt shingles were observed, which can allow water into the roof structure.',
+      short_description: 'Damaged roof shingles',
+      materials_names: 'Asphalt shingles, roofing nails, roofing sealant',
+      materials_total_cost: 120,
+      labor_type: 'Roofer',
+      labor_rate: 85,
+      hours_required: 3,
+      recommendation: 'Recommend a qualified roofing contractor replace the damaged shingles and check the surrounding area.',
+    },
+  },
+  {
+    keywords: ['electrical', 'outlet', 'wire', 'wiring', 'breaker', 'panel', 'gfci', 'switch'],
+    result: {
+      defect: 'An electrical component was found damaged or improperly installed, which presents a shock and fire hazard.',
+      short_description: 'Electrical safety hazard',
+      materials_names: 'GFCI receptacle, cover plate, wire connectors',
+      materials_total_cost: 45,
+      labor_type: 'Electrician',
+      labor_rate: 110,
+      hours_required: 1.5,
+      recommendation: 'Recommend a licensed electrician evaluate and correct the condition.',
+    },
+  },
+  {
+    keywords: ['leak', 'plumbing', 'pipe', 'drain', 'faucet', 'water heater', 'toilet'],
+    result: {
+      defect: 'Active moisture was observed at the plumbing, indicating a leak that can damage surrounding materials.',
+      short_description: 'Plumbing leak',
+      materials_names: 'Compression fittings, PTFE tape, supply line',
+      materials_total_cost: 35,
+      labor_type: 'Plumber',
+      labor_rate: 95,
+      hours_required: 2,
+      recommendation: 'Recommend a licensed plumber locate and repair the source of the leak.',
+    },
+  },
+  {
+    keywords: [],
+    result: {
+      defect: 'A defect was observed that requires repair to prevent further deterioration.',
+      short_description: 'Repair needed',
+      materials_names: 'General repair materials',
+      materials_total_cost: 50,
+      labor_type: 'Handyman',
+      labor_rate: 65,
+      hours_required: 2,
+      recommendation: 'Recommend a qualified contractor evaluate and repair as needed.',
+    },
+  },
+];
+
+/**
+ * Development and test provider: never calls a model. The first fixture with a keyword in the
+ * description wins; otherwise one is picked from a hash of the request, so the same photo and
+ * notes always get the same result.
+ */
+export class MockAnalysisProvider implements DefectAnalysisProvider {
+  name = 'mock';
+
+  constructor(private fixtures: AnalysisFixture[] | (() => Promise<AnalysisFixture[]>) = DEFAULT_ANALYSIS_FIXTURES) {}
+
+  async analyze(request: DefectAnalysisRequest): Promise<AnalysisResult> {
+    const fixtures = typeof this.fixtures === 'function' ? await this.fixtures() : this.fixtures;
+    if (fixtures.length === 0) {
+      throw new Error('Mock analysis provider has no fixtures');
+    }
+
+    const description = request.description.toLowerCase();
+    const match = fixtures.find((fixture) => fixture.keywords.some((k) => description.includes(k.toLowerCase())));
+    if (match) return { ...match.result };
+
+    const hash = crypto.createHash('sha256').update(`${request.imageUrl}\n${request.description}`).digest();
+    return { ...fixtures[hash.readUInt32BE(0) % fixtures.length].result };
+  }
+}
+
+/**
+ * Reads mock fixtures from a JSON file holding an array of { keywords, result }. Results are
+ * checked against the schema so a bad fixture fails loudly instead of producing odd defects.
+ */
+export async function loadAnalysisFixtures(file: string): Promise<AnalysisFixture[]> {
+  const parsed = z
+    .array(z.object({ keywords: z.array(z.string()).default([]), result: AnalysisResultSchema }))
+    .safeParse(JSON.parse(await readFile(file, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid analysis fixtures in ${file}: ${parsed.error.issues[0]?.message}`);
+  }
+  return parsed.data;
+}
+
+let providerOverride: DefectAnalysisProvider | null = null;
+
+/**
+ * Swap in a provider that answers without calling a model, e.g. a fake in tests; null goes back
+ * to the one picked from the environment.
+ */
+export function setAnalysisProvider(provider: DefectAnalysisProvider | null) {
+  providerOverride = provider;
+}
+
+/**
+ * Provider chosen by AI_ANALYSIS_PROVIDER ('openai', 'local' or 'mock'), OpenAI when it is unset.
+ * The mock writes canned defects into real reports, so it only runs when named explicitly; without
+ * OPENAI_API_KEY analysis fails rather than falling back to it. AI_ANALYSIS_MODEL picks the model,
+ * the local provider needs AI_ANALYSIS_BASE_URL and the mock reads AI_ANALYSIS_FIXTURES_FILE when set.
+ */
+export function getAnalysisProvider(): DefectAnalysisProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+
+  const { OPENAI_API_KEY, AI_ANALYSIS_MODEL, AI_ANALYSIS_BASE_URL, AI_ANALYSIS_API_KEY, AI_ANALYSIS_FIXTURES_FILE } =
+    process.env;
+  const providerName = process.env.AI_ANALYSIS_PROVIDER || 'openai';
+
+  if (providerName === 'openai') {
+    if (!OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY is not configured; set it or choose another AI_ANALYSIS_PROVIDER');
+    }
+    return new OpenAIAnalysisProvider(OPENAI_API_KEY, { model: AI_ANALYSIS_MODEL || 'gpt-4o' });
+  }
+
+  if (providerName === 'local') {
+    if (!AI_ANALYSIS_BASE_URL || !AI_ANALYSIS_MODEL) {
+      throw new Error('AI_ANALYSIS_PROVIDER is local but AI_ANALYSIS_BASE_URL or AI_ANALYSIS_MODEL is not configured');
+    }
+    return new OpenAICompatibleAnalysisProvider(AI_ANALYSIS_BASE_URL, {
+      model: AI_ANALYSIS_MODEL,
+      apiKey: AI_ANALYSIS_API_KEY,
+    });
+  }
+
+  if (providerName === 'mock') {
+    return new MockAnalysisProvider(
+      AI_ANALYSIS_FIXTURES_FILE ? () => loadAnalysisFixtures(AI_ANALYSIS_FIXTURES_FILE) : DEFAULT_ANALYSIS_FIXTURES
+    );
+  }
+
+  throw new Error(`Unknown AI_ANALYSIS_PROVIDER: ${providerName}`);
+}
@@ -1,6 +1,7 @@
 // lib/defect.ts
 import clientPromise from "./mongodb";
 import { ObjectId } from "mongodb";
+import { AnnotationDocument, normalizeAnnotationsInput } from "./annotations";
 
 const DB_NAME = "agi_inspections_db"; // change this
 
@@ -22,15 +23,20 @@ export async function createDefect(data: {
   isThreeSixty?: boolean; // Mark as 360° photo
   additional_images?: Array<{ url: string; location: string; isThreeSixty?: boolean }>; // Multiple location photos (support 360)
   base_cost?: number; // Initial AI-calculated cost (before multiplying by image count)
-  annotations?: any[]; // Store annotation shapes (arrows, circles, squares, freehand) as JSON
+  annotations?: AnnotationDocument | null; // Editable annotation shapes, see lib/annotations.ts
   originalImage?: string; // Original image without annotations (for re-editing)
 }) {
   const client = await clientPromise;
   const db = client.db(DB_NAME);
 
+  // Throws AnnotationValidationError before anything is written
+  const { annotations, ...rest } = data;
+  const annotationDocument = normalizeAnnotationsInput(annotations);
+
   // ensure inspection_id stored as ObjectId
   const defectData = {
-    ...data,
+    ...rest,
+    ...(annotationDocument ? { annotations: annotationDocument } : {}),
     inspection_id: new ObjectId(data.inspection_id),
   };
 
@@ -73,9 +79,13 @@ export async function updateDefect(defectId: string, inspectionId: string, updat
   additional_images?: Array<{ url: string; location: string; isThreeSixty?: boolean }>; // Multiple location photos (support 360)
   base_cost?: number; // Base cost for calculation
   image?: string; // Allow updating the main image
-  annotations?: any[]; // Update annotation shapes
+  annotations?: AnnotationDocument | null; // Update annotation shapes; null removes them
   originalImage?: string; // Update original image
 }) {
+  // Throws AnnotationValidationError before anything is written
+  const { annotations, ...rest } = updates;
+  const annotationDocument = normalizeAnnotationsInput(annotations);
+
   const client = await clientPromise;
   const db = client.db(DB_NAME);
 
@@ -85,9 +95,42 @@ export async function updateDefect(defectId: string, inspectionId: string, updat
       inspection_id: new ObjectId(inspectionId), // ensure it belongs to the right inspection
     },
     {
-      $set: updates,
+      $set: annotationDocument ? { ...rest, annotations: annotationDocument } : rest,
+      ...(annotationDocument === null ? { $unset: { annotations: "" } } : {}),
     }
   );
 
   return result;
-}
\ No newline at end of file
+}
+
+export async function getDefect(defectId: string) {
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  return await db.collection("defects").findOne({ _id: new ObjectId(defectId) });
+}
+
+// Put back an earlier version of a defect, recreating it if it was deleted
+export async function replaceDefect(defectId: string, data: Record<string, any>) {
+  // Versions come from JSON snapshots, so ids, dates and annotations are turned back into their stored types
+  const { _id, annotations, ...defectData } = data;
+  const annotationDocument = normalizeAnnotationsInput(annotations);
+  const revived: Record<string, any> = {
+    ...defectData,
+    ...(annotationDocument ? { annotations: annotationDocument } : {}),
+    inspection_id: new ObjectId(String(data.inspection_id)),
+  };
+  for (const field of ["createdAt", "updatedAt"]) {
+    if (revived[field]) revived[field] = new Date(revived[field]);
+  }
+
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+
+  const result = await db.collection("defects").replaceOne(
+    { _id: new ObjectId(defectId) },
+    revived,
+    { upsert: true }
+  );
+
+  return result;
+}
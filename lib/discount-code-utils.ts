@@ -1,7 +1,7 @@
 import mongoose from 'mongoose';
 
 import Service, { IService, IServiceAddOn } from '@/src/models/Service';
-import { DiscountCodeType, IDiscountCode } from '@/src/models/DiscountCode';
+import DiscountCode, { DiscountCodeType, IDiscountCode } from '@/src/models/DiscountCode';
 
 interface DiscountCodeAddOnInput {
   serviceId?: unknown;
@@ -337,3 +337,31 @@ export async function withDiscountCodeRelations(
 }
 
 
+
+/**
+ * Look up an active discount code by its code string and make sure it can still be redeemed
+ */
+export async function findRedeemableDiscountCode(
+  companyId: mongoose.Types.ObjectId | string,
+  code: string
+): Promise<{ discountCode?: DiscountCodeLean; error?: string; status?: number }> {
+  const discountCode = await DiscountCode.findOne({
+    company: companyId,
+    code: code.trim(),
+    active: true,
+  }).lean<DiscountCodeLean>();
+
+  if (!discountCode) {
+    return { error: 'Invalid discount code', status: 404 };
+  }
+
+  if (discountCode.expirationDate && new Date(discountCode.expirationDate) < new Date()) {
+    return { error: 'Discount code has expired', status: 400 };
+  }
+
+  if (discountCode.maxUses && (discountCode.usageCount ?? 0) >= discountCode.maxUses) {
+    return { error: 'Discount code has reached maximum uses', status: 400 };
+  }
+
+  return { discountCode };
+}
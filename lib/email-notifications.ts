@@ -0,0 +1,433 @@
+import mongoose from 'mongoose';
+
+import Inspection, { IInspectionEmailLogEntry } from '@/src/models/Inspection';
+import EmailTemplate from '@/src/models/EmailTemplate';
+import OnlineScheduler from '@/src/models/OnlineScheduler';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_EVENTS,
+  EmailEvent,
+  EmailRecipient,
+} from '@/constants/emailTemplates';
+import { sendEmail } from './email';
+import { getPendingSigners, getSigningLink } from './agreement-signatures';
+import { getReportReleaseStatus } from './report-release';
+import { getInvoiceMergeFieldOptions } from './invoices';
+import {
+  getInspectionCalendarLink,
+  getInspectionCalendarToken,
+  getInspectionInviteAttachment,
+  isCancelledInspection,
+} from './calendar-feeds';
+import {
+  applyMergeFields,
+  getInspectionMergeFields,
+  getInspectionTeam,
+  InspectionMergeFieldOptions,
+  loadInspectionForMerge,
+  MergeInspection,
+} from './merge-fields';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// Emails about the appointment itself carry it as a calendar invite
+const CALENDAR_INVITE_EVENTS: EmailEvent[] = [
+  'booking_confirmation',
+  'inspection_reminder',
+  'inspector_assignment',
+  'inspection_rescheduled',
+  'inspection_cancelled',
+];
+
+export interface ResolvedEmailTemplate {
+  event: EmailEvent;
+  label: string;
+  description: string;
+  subject: string;
+  body: string;
+  enabled: boolean;
+  recipients: EmailRecipient[];
+  fixedRecipients: boolean;
+  // False while the company still uses the built-in default
+  customized: boolean;
+}
+
+interface SendInspectionEmailOptions extends InspectionMergeFieldOptions {
+  // Manual sends ignore disableAutomatedNotifications and disabled templates
+  manual?: boolean;
+  sentBy?: ObjectIdLike;
+  // Address only this client (plus the template's other groups) and fill CLIENT_* with them
+  clientId?: ObjectIdLike;
+  // Address only these members of the inspection team, e.g. the ones just assigned
+  inspectorIds?: ObjectIdLike[];
+}
+
+const toResolvedTemplate = (event: EmailEvent, custom?: any): ResolvedEmailTemplate => {
+  const defaults = DEFAULT_EMAIL_TEMPLATES[event];
+  return {
+    event,
+    label: defaults.label,
+    description: defaults.description,
+    subject: custom?.subject || defaults.subject,
+    body: custom?.body || defaults.body,
+    enabled: custom ? custom.enabled !== false : true,
+    recipients: defaults.fixedRecipients ? [] : custom?.recipients ?? defaults.recipients,
+    fixedRecipients: Boolean(defaults.fixedRecipients),
+    customized: Boolean(custom),
+  };
+};
+
+/**
+ * Every automated email for a company, with the company's edits applied over the defaults
+ */
+export async function listEmailTemplates(companyId: ObjectIdLike): Promise<ResolvedEmailTemplate[]> {
+  const customTemplates = await EmailTemplate.find({ company: companyId }).lean();
+  const byEvent = new Map(customTemplates.map((template) => [template.event, template]));
+  return EMAIL_EVENTS.map((event) => toResolvedTemplate(event, byEvent.get(event)));
+}
+
+export async function getEmailTemplate(companyId: ObjectIdLike, event: EmailEvent): Promise<ResolvedEmailTemplate> {
+  const custom = await EmailTemplate.findOne({ company: companyId, event }).lean();
+  return toResolvedTemplate(event, custom);
+}
+
+export const isEmailEvent = (value: unknown): value is EmailEvent =>
+  typeof value === 'string' && (EMAIL_EVENTS as readonly string[]).includes(value);
+
+export const wrapEmailBody = (body: string, companyName: string) => `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    </head>
+    <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f4f4f4;">
+      <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f4f4f4; padding: 20px;">
+        <tr>
+          <td align="center">
+            <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden;">
+              <tr>
+                <td style="padding: 30px; color: #333333; line-height: 1.6; font-size: 15px;">
+                  ${body}
+                </td>
+              </tr>
+              <tr>
+                <td style="background-color: #f8f8f8; padding: 20px; text-align: center; border-top: 1px solid #eeeeee;">
+                  <p style="color: #999999; margin: 0; font-size: 13px;">© ${new Date().getFullYear()} ${companyName}</p>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </body>
+  </html>
+`;
+
+/**
+ * Addresses for the template's recipient groups. Contacts' ccEmail addresses are copied.
+ */
+async function resolveRecipients(
+  inspection: MergeInspection,
+  template: ResolvedEmailTemplate,
+  options: Pick<SendInspectionEmailOptions, 'clientId' | 'inspectorIds'> = {}
+): Promise<{ to: string[]; cc: string[] }> {
+  const { clientId, inspectorIds } = options;
+  const to: string[] = [];
+  const cc: string[] = [];
+
+  if (template.event === 'online_booking') {
+    const scheduler = await OnlineScheduler.findOne({ company: inspection.companyId?._id ?? inspection.companyId })
+      .select('emailForCompleteBooking emailNotificationAddress')
+      .lean();
+    if (scheduler?.emailForCompleteBooking && scheduler.emailNotificationAddress) {
+      to.push(scheduler.emailNotificationAddress);
+    }
+  } else {
+    const groups: Record<EmailRecipient, Array<{ email?: string; ccEmail?: string } | null | undefined>> = {
+      clients: (inspection.clients || []).filter(
+        (client: { _id?: unknown } | null) => !clientId || String(client?._id) === String(clientId)
+      ),
+      agents: inspection.agents || [],
+      listingAgents: inspection.listingAgent || [],
+      inspector: getInspectionTeam(inspection).filter(
+        (member) => !inspectorIds || inspectorIds.some((id) => String(id) === String(member._id))
+      ),
+    };
+
+    for (const recipient of template.recipients) {
+      for (const contact of groups[recipient] || []) {
+        if (contact?.email) to.push(contact.email);
+        if (contact?.ccEmail) cc.push(contact.ccEmail);
+      }
+    }
+  }
+
+  const uniqueTo = Array.from(new Set(to.map((email) => email.trim().toLowerCase()).filter(Boolean)));
+  const uniqueCc = Array.from(new Set(cc.map((email) => email.trim().toLowerCase()).filter(Boolean)))
+    .filter((email) => !uniqueTo.includes(email));
+
+  return { to: uniqueTo, cc: uniqueCc };
+}
+
+async function logEmail(inspectionId: ObjectIdLike, entry: IInspectionEmailLogEntry) {
+  await Inspection.updateOne({ _id: inspectionId }, { $push: { emailLog: entry } });
+  return entry;
+}
+
+/**
+ * Render and send one of the company's email templates for an inspection and log the attempt
+ * on the inspection. Returns null when nothing was attempted (template disabled, or an
+ * Online Scheduler booking email the company has not turned on).
+ */
+export async function sendInspectionEmail(
+  inspectionId: ObjectIdLike,
+  event: EmailEvent,
+  options: SendInspectionEmailOptions = {}
+): Promise<IInspectionEmailLogEntry | null> {
+  const inspection = await loadInspectionForMerge(inspectionId);
+  // A deleted inspection only gets its cancellation
+  if (!inspection || (inspection.deletedAt && event !== 'inspection_cancelled')) {
+    return null;
+  }
+
+  const companyId = inspection.companyId?._id ?? inspection.companyId;
+  const template = await getEmailTemplate(companyId, event);
+  if (!template.enabled && !options.manual) {
+    return null;
+  }
+
+  const client = options.clientId
+    ? inspection.clients?.find((candidate: { _id?: unknown } | null) => String(candidate?._id) === String(options.clientId))
+    : undefined;
+  const calendarToken = await getInspectionCalendarToken(inspection._id);
+  const fields = getInspectionMergeFields(inspection, {
+    ...(await getInvoiceMergeFieldOptions(inspection._id)),
+    signLink: options.signLink,
+    calendarLink: calendarToken ? getInspectionCalendarLink(calendarToken) : undefined,
+    client,
+  });
+  const subject = applyMergeFields(template.subject, fields);
+  const sentBy = options.sentBy ? new mongoose.Types.ObjectId(String(options.sentBy)) : undefined;
+  const baseEntry = { event, subject, sentBy, sentAt: new Date() };
+
+  // The company's own booking alert is not a client notification
+  if (inspection.disableAutomatedNotifications && !options.manual && event !== 'online_booking') {
+    return logEmail(inspection._id, {
+      ...baseEntry,
+      to: [],
+      cc: [],
+      status: 'skipped',
+      error: 'Automated notifications are disabled for this inspection',
+    });
+  }
+
+  const { to, cc } = await resolveRecipients(inspection, template, options);
+  if (to.length === 0) {
+    if (event === 'online_booking') {
+      return null;
+    }
+    return logEmail(inspection._id, { ...baseEntry, to, cc, status: 'skipped', error: 'No recipients with an email address' });
+  }
+
+  const html = wrapEmailBody(applyMergeFields(template.body, fields, { html: true }), fields.INSPECTION_COMPANY);
+  const invite = CALENDAR_INVITE_EVENTS.includes(event) ? await getInspectionInviteAttachment(inspection._id) : null;
+  const result = await sendEmail({
+    to,
+    cc,
+    subject,
+    html,
+    replyTo: inspection.companyId?.email || undefined,
+    attachments: invite ? [invite] : undefined,
+  });
+
+  return logEmail(inspection._id, {
+    ...baseEntry,
+    to,
+    cc,
+    status: result.success ? 'sent' : 'failed',
+    messageId: result.id,
+    error: result.success ? undefined : String(result.error || 'Failed to send email'),
+  });
+}
+
+const hasSent = (inspection: { emailLog?: IInspectionEmailLogEntry[] } | null, event: EmailEvent) =>
+  Boolean(inspection?.emailLog?.some((entry) => entry.event === event && entry.status === 'sent'));
+
+/**
+ * Ask each client with unsigned agreements to sign them, each with their own signing link
+ */
+export async function sendAgreementPendingEmails(
+  inspectionId: ObjectIdLike,
+  options: Pick<SendInspectionEmailOptions, 'manual' | 'sentBy'> = {}
+): Promise<IInspectionEmailLogEntry[]> {
+  const entries: IInspectionEmailLogEntry[] = [];
+  for (const signer of await getPendingSigners(inspectionId)) {
+    const entry = await sendInspectionEmail(inspectionId, 'agreement_pending', {
+      ...options,
+      clientId: signer.client,
+      signLink: getSigningLink(signer.token),
+    });
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Workflows for a newly created inspection: confirmation (when already confirmed), inspector
+ * assignment, pending agreements and, for Online Scheduler bookings, the company's booking alert.
+ * Failures are logged and never thrown so they cannot fail the booking.
+ */
+export async function sendNewInspectionEmails(inspectionId: ObjectIdLike, options: { onlineBooking?: boolean } = {}) {
+  try {
+    const inspection = await Inspection.findById(inspectionId)
+      .select('confirmedInspection inspector inspectors')
+      .lean();
+    if (!inspection) return;
+
+    if (options.onlineBooking) {
+      await sendInspectionEmail(inspectionId, 'online_booking');
+    }
+    if (inspection.confirmedInspection) {
+      await sendInspectionEmail(inspectionId, 'booking_confirmation');
+    }
+    if (inspection.inspector || inspection.inspectors?.length) {
+      await sendInspectionEmail(inspectionId, 'inspector_assignment');
+    }
+    await sendAgreementPendingEmails(inspectionId);
+  } catch (error) {
+    console.error('Error sending new inspection emails:', error);
+  }
+}
+
+export interface InspectionNotificationState {
+  inspector?: string | null;
+  inspectors?: string[];
+  confirmedInspection?: boolean;
+  calendarSequence?: number;
+}
+
+/**
+ * Snapshot of the fields whose changes trigger emails, taken before an update
+ */
+export async function getInspectionNotificationState(inspectionId: ObjectIdLike): Promise<InspectionNotificationState | null> {
+  if (!mongoose.Types.ObjectId.isValid(inspectionId)) {
+    return null;
+  }
+
+  const inspection = await Inspection.findById(inspectionId).select('inspector inspectors confirmedInspection calendarSequence').lean();
+  if (!inspection) return null;
+
+  return {
+    inspector: inspection.inspector ? inspection.inspector.toString() : null,
+    inspectors: (inspection.inspectors || []).map(String),
+    confirmedInspection: Boolean(inspection.confirmedInspection),
+    calendarSequence: inspection.calendarSequence || 0,
+  };
+}
+
+/**
+ * Workflows after an inspection update: the confirmation (and pending agreement reminder) the
+ * first time it is confirmed, an assignment email to whoever joined the team or became lead, and
+ * an updated invite when an already confirmed appointment moves.
+ */
+export async function sendInspectionUpdateEmails(
+  inspectionId: ObjectIdLike,
+  previous: InspectionNotificationState | null
+) {
+  if (!previous) return;
+
+  try {
+    const inspection = await Inspection.findById(inspectionId)
+      .select('confirmedInspection inspector inspectors emailLog calendarSequence')
+      .lean();
+    if (!inspection) return;
+
+    const moved = (inspection.calendarSequence || 0) > (previous.calendarSequence || 0);
+    if (moved && previous.confirmedInspection && inspection.confirmedInspection && hasSent(inspection, 'booking_confirmation')) {
+      await sendInspectionEmail(inspectionId, 'inspection_rescheduled');
+    }
+
+    if (inspection.confirmedInspection && !previous.confirmedInspection) {
+      if (!hasSent(inspection, 'booking_confirmation')) {
+        await sendInspectionEmail(inspectionId, 'booking_confirmation');
+      }
+      if (!hasSent(inspection, 'agreement_pending')) {
+        await sendAgreementPendingEmails(inspectionId);
+      }
+    }
+
+    const inspectorId = inspection.inspector ? inspection.inspector.toString() : null;
+    const assigned = new Set(
+      (inspection.inspectors || []).map(String).filter((id) => !(previous.inspectors || []).includes(id))
+    );
+    if (inspectorId && inspectorId !== previous.inspector) {
+      assigned.add(inspectorId);
+    }
+    if (assigned.size > 0) {
+      await sendInspectionEmail(inspectionId, 'inspector_assignment', { inspectorIds: Array.from(assigned) });
+    }
+  } catch (error) {
+    console.error('Error sending inspection update emails:', error);
+  }
+}
+
+/**
+ * Cancel the appointment in the calendars of everyone who was sent the confirmation, once it is
+ * deleted or marked cancelled
+ */
+export async function sendInspectionCancelledEmail(inspectionId: ObjectIdLike) {
+  try {
+    const inspection = await Inspection.findById(inspectionId).select('emailLog deletedAt status').lean();
+    if (!inspection || !isCancelledInspection(inspection) || !hasSent(inspection, 'booking_confirmation')) return;
+
+    await sendInspectionEmail(inspectionId, 'inspection_cancelled');
+  } catch (error) {
+    console.error('Error sending inspection cancelled email:', error);
+  }
+}
+
+/**
+ * Tell clients and agents the report is ready, the first time it is both published and released.
+ * Called again once whatever held the report back is resolved.
+ */
+export async function sendReportPublishedEmail(inspectionId: ObjectIdLike) {
+  try {
+    const inspection = await Inspection.findById(inspectionId).select('emailLog htmlReportUrl pdfReportUrl').lean();
+    if (!inspection || hasSent(inspection, 'report_published')) return;
+    if (!inspection.htmlReportUrl && !inspection.pdfReportUrl) return;
+    if (!(await getReportReleaseStatus(inspectionId)).released) return;
+
+    await sendInspectionEmail(inspectionId, 'report_published');
+  } catch (error) {
+    console.error('Error sending report published email:', error);
+  }
+}
+
+/**
+ * Send the reminder for confirmed inspections starting within the next 24 hours that have
+ * not had one yet. Meant to run hourly.
+ */
+export async function sendDueInspectionReminders(now = new Date()): Promise<number> {
+  const inspections = await Inspection.find({
+    date: { $gt: now, $lte: new Date(now.getTime() + 24 * 60 * 60 * 1000) },
+    confirmedInspection: true,
+    disableAutomatedNotifications: { $ne: true },
+    deletedAt: null,
+    'emailLog.event': { $ne: 'inspection_reminder' },
+  })
+    .select('_id')
+    .lean();
+
+  let sent = 0;
+  for (const inspection of inspections) {
+    try {
+      const entry = await sendInspectionEmail(inspection._id as mongoose.Types.ObjectId, 'inspection_reminder');
+      if (entry?.status === 'sent') sent++;
+    } catch (error) {
+      console.error(`Error sending reminder for inspection ${inspection._id}:`, error);
+    }
+  }
+
+  return sent;
+}
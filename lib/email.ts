@@ -5,6 +5,47 @@ const resend = new Resend(process.env.RESEND_API_KEY);
 const FROM_EMAIL = process.env.FROM_EMAIL || 'onboarding@resend.dev';
 const APP_URL = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
 
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
+export interface SendEmailOptions {
+  to: string[];
+  cc?: string[];
+  subject: string;
+  html: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Send an arbitrary email. Returns the provider message id, or the error instead of throwing.
+ */
+export async function sendEmail({ to, cc, subject, html, replyTo, attachments }: SendEmailOptions) {
+  try {
+    const { data, error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to,
+      cc: cc && cc.length > 0 ? cc : undefined,
+      subject,
+      html,
+      replyTo,
+      attachments: attachments && attachments.length > 0 ? attachments : undefined,
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, id: data?.id };
+  } catch (error: any) {
+    console.error('Error sending email:', error);
+    return { success: false, error: error?.message || 'Failed to send email' };
+  }
+}
+
 export async function sendVerificationEmail(email: string, token: string) {
   const verificationUrl = `${APP_URL}/api/auth/verify-email?token=${token}`;
 
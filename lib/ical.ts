@@ -0,0 +1,134 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for inspection feeds and invites. Times are written in UTC
+ * so calendar apps convert them to the viewer's zone themselves.
+ */
+
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export type IcsStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface IcsAttendee {
+  name?: string;
+  email: string;
+}
+
+export interface IcsEvent {
+  // Stable across updates so calendar apps replace their copy instead of adding another
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: IcsStatus;
+  organizer?: IcsAttendee;
+  attendees?: IcsAttendee[];
+  lastModified?: Date;
+}
+
+export interface IcsCalendar {
+  name?: string;
+  method?: IcsMethod;
+  events: IcsEvent[];
+}
+
+const PRODUCT_ID = '-//ReportWriter AI//Inspections//EN';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function formatIcsDate(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split a content line into 75-octet pieces, continuing each with a leading space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const pieces: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of Array.from(line)) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = pieces.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      pieces.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  pieces.push(current);
+
+  return pieces.join('\r\n ');
+}
+
+const person = (property: string, attendee: IcsAttendee, params = '') =>
+  `${property}${attendee.name ? `;CN="${attendee.name.replace(/"/g, "'")}"` : ''}${params}:mailto:${attendee.email}`;
+
+function eventLines(event: IcsEvent, method?: IcsMethod, stamp = new Date()): string[] {
+  const status = method === 'CANCEL' ? 'CANCELLED' : event.status;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcsDate(stamp)}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (status) lines.push(`STATUS:${status}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsDate(event.lastModified)}`);
+  if (event.organizer) lines.push(person('ORGANIZER', event.organizer));
+  (event.attendees || []).forEach((attendee) => {
+    lines.push(person('ATTENDEE', attendee, ';ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION'));
+  });
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize a calendar. REQUEST and CANCEL are for emailed invites; feeds use PUBLISH.
+ */
+export function buildIcsCalendar({ name, method = 'PUBLISH', events }: IcsCalendar): string {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+  ];
+
+  if (name) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(name)}`);
+  }
+  events.forEach((event) => lines.push(...eventLines(event, method, stamp)));
+  lines.push('END:VCALENDAR');
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
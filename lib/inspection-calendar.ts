@@ -0,0 +1,207 @@
+import mongoose from 'mongoose';
+import dbConnect from './db';
+import Availability from '@/src/models/Availability';
+import Company from '@/src/models/Company';
+import Event from '@/src/models/Event';
+import Inspection from '@/src/models/Inspection';
+import User from '@/src/models/User';
+import { normalizeInspectionStatus } from '@/constants/inspectionStatuses';
+import type { DayKey } from '@/src/constants/availability';
+import type { DateSpecificAvailability, TimeBlock } from '@/src/models/Availability';
+import { normalizeDaysRecord } from '@/src/lib/availability-utils';
+import { addDaysToDateKey, isDateKey, resolveTimeZone, startOfDayInTimeZone } from '@/src/lib/time-zones';
+import { getInspectionAssignments, InspectorAssignment } from './scheduling';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// A six-week month grid is the widest view the calendar asks for
+const MAX_CALENDAR_DAYS = 42;
+
+export interface CalendarRange {
+  // Calendar days (YYYY-MM-DD) in the company's time zone, `to` inclusive
+  from: string;
+  to: string;
+}
+
+export interface CalendarInspector {
+  _id: string;
+  name: string;
+  availability: {
+    days: Record<DayKey, { openSchedule: TimeBlock[]; timeSlots: string[] }>;
+    dateSpecific: DateSpecificAvailability[];
+    timeZone: string | null;
+  };
+}
+
+export interface CalendarInspection {
+  _id: string;
+  date: string;
+  status: string;
+  confirmedInspection: boolean;
+  orderId?: number;
+  address: string;
+  inspector: string | null;
+  // Everyone working the inspection and how long each is there, the lead included
+  assignments: InspectorAssignment[];
+  serviceAssignments: Array<{ serviceId: string; inspector: string }>;
+}
+
+export interface CalendarEvent {
+  _id: string;
+  inspectionId: string;
+  name: string;
+  inspector: string | null;
+  startDate: string;
+  endDate: string;
+}
+
+export interface InspectionCalendar {
+  range: CalendarRange;
+  timeZone: string;
+  viewMode: 'openSchedule' | 'timeSlots';
+  inspectors: CalendarInspector[];
+  inspections: CalendarInspection[];
+  events: CalendarEvent[];
+}
+
+export function parseCalendarRange(from?: string | null, to?: string | null): CalendarRange | { error: string } {
+  if (!isDateKey(from) || !isDateKey(to)) {
+    return { error: 'from and to must be dates in YYYY-MM-DD form' };
+  }
+  if (to < from) {
+    return { error: 'to must not be before from' };
+  }
+  if (addDaysToDateKey(from, MAX_CALENDAR_DAYS - 1) < to) {
+    return { error: `The calendar shows at most ${MAX_CALENDAR_DAYS} days at a time` };
+  }
+  return { from, to };
+}
+
+const formatAddress = (location: any = {}) =>
+  [location.address, location.unit, location.city].filter(Boolean).join(', ');
+
+/**
+ * Everything the inspections calendar draws for a range of days: each inspector's weekly hours
+ * and blocked dates, the inspections they work and their events. `inspectorId` narrows it to one
+ * inspector's lane.
+ */
+export async function getInspectionCalendar(
+  companyId: ObjectIdLike,
+  range: CalendarRange,
+  options: { inspectorId?: string | null } = {}
+): Promise<InspectionCalendar> {
+  await dbConnect();
+
+  const company = await Company.findById(companyId).select('timeZone availabilityViewMode').lean();
+  const timeZone = resolveTimeZone(company?.timeZone);
+  const from = startOfDayInTimeZone(range.from, timeZone);
+  const to = startOfDayInTimeZone(addDaysToDateKey(range.to, 1), timeZone);
+
+  const inspectorFilter = options.inspectorId && mongoose.Types.ObjectId.isValid(options.inspectorId)
+    ? new mongoose.Types.ObjectId(options.inspectorId)
+    : null;
+
+  const [users, availabilities, inspections, events] = await Promise.all([
+    User.find({
+      company: companyId,
+      role: 'inspector',
+      isActive: true,
+      ...(inspectorFilter ? { _id: inspectorFilter } : {}),
+    })
+      .select('firstName lastName email')
+      .sort({ firstName: 1, lastName: 1 })
+      .lean(),
+    Availability.find({ company: companyId, ...(inspectorFilter ? { inspector: inspectorFilter } : {}) }).lean(),
+    Inspection.find({
+      companyId,
+      date: { $gte: from, $lt: to },
+      $and: [
+        { $or: [{ deletedAt: null }, { deletedAt: { $exists: false } }] },
+        ...(inspectorFilter ? [{ $or: [{ inspector: inspectorFilter }, { inspectors: inspectorFilter }] }] : []),
+      ],
+    })
+      .select(
+        'date status confirmedInspection orderId location inspector inspectors serviceAssignments services ' +
+          'pricing.totalDurationHours pricing.services.serviceId pricing.services.hours pricing.services.addOns.hours'
+      )
+      .populate('services.serviceId', 'baseDurationHours')
+      .sort({ date: 1 })
+      .lean(),
+    Event.find({
+      startDate: { $lt: to },
+      endDate: { $gt: from },
+      ...(inspectorFilter ? { inspector: inspectorFilter } : {}),
+    })
+      .select('inspectionId name inspector startDate endDate')
+      .sort({ startDate: 1 })
+      .lean(),
+  ]);
+
+  // Events don't carry the company, so keep the ones whose inspection belongs to it
+  const eventInspectionIds = Array.from(new Set(events.map((event) => String(event.inspectionId))));
+  const companyInspectionIds = new Set(
+    (
+      await Inspection.find({
+        _id: { $in: eventInspectionIds },
+        companyId,
+        $or: [{ deletedAt: null }, { deletedAt: { $exists: false } }],
+      })
+        .select('_id')
+        .lean()
+    ).map((inspection) => String(inspection._id))
+  );
+
+  const availabilityByInspector = new Map(availabilities.map((availability) => [String(availability.inspector), availability]));
+
+  return {
+    range,
+    timeZone,
+    viewMode: company?.availabilityViewMode === 'timeSlots' ? 'timeSlots' : 'openSchedule',
+    inspectors: users.map((user) => {
+      const availability = availabilityByInspector.get(String(user._id));
+      const days = (availability?.days || []).reduce(
+        (acc, day) => {
+          acc[day.day as DayKey] = { openSchedule: day.openSchedule ?? [], timeSlots: day.timeSlots ?? [] };
+          return acc;
+        },
+        {} as Partial<Record<DayKey, { openSchedule: TimeBlock[]; timeSlots: string[] }>>
+      );
+
+      return {
+        _id: String(user._id),
+        name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+        availability: {
+          days: normalizeDaysRecord(days),
+          dateSpecific: (availability?.dateSpecific || []).filter(
+            (entry) => entry.date >= addDaysToDateKey(range.from, -1) && entry.date <= addDaysToDateKey(range.to, 1)
+          ),
+          timeZone: availability?.timeZone || null,
+        },
+      };
+    }),
+    inspections: inspections.map((inspection: any) => ({
+      _id: String(inspection._id),
+      date: new Date(inspection.date).toISOString(),
+      status: normalizeInspectionStatus(inspection.status),
+      confirmedInspection: inspection.confirmedInspection !== false,
+      orderId: inspection.orderId,
+      address: formatAddress(inspection.location),
+      inspector: inspection.inspector ? String(inspection.inspector) : null,
+      assignments: getInspectionAssignments(inspection),
+      serviceAssignments: (inspection.serviceAssignments || []).map((assignment: any) => ({
+        serviceId: String(assignment.serviceId),
+        inspector: String(assignment.inspector),
+      })),
+    })),
+    events: events
+      .filter((event) => companyInspectionIds.has(String(event.inspectionId)))
+      .map((event) => ({
+        _id: String(event._id),
+        inspectionId: String(event.inspectionId),
+        name: event.name,
+        inspector: event.inspector ? String(event.inspector) : null,
+        startDate: new Date(event.startDate).toISOString(),
+        endDate: new Date(event.endDate).toISOString(),
+      })),
+  };
+}
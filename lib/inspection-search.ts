@@ -0,0 +1,531 @@
+import mongoose from 'mongoose';
+import dbConnect from './db';
+import Agent from '@/src/models/Agent';
+import Client from '@/src/models/Client';
+import Company from '@/src/models/Company';
+import Event from '@/src/models/Event';
+import Inspection, { IInspection } from '@/src/models/Inspection';
+import Invoice from '@/src/models/Invoice';
+import SchedulingOptions from '@/src/models/SchedulingOptions';
+import Service from '@/src/models/Service';
+import { INVOICE_STATUSES, INVOICE_STATUS_LABELS, InvoiceStatus } from '@/constants/payments';
+import {
+  getStoredStatusValues,
+  INSPECTION_STATUS_LABELS,
+  INSPECTION_STATUSES,
+  InspectionStatus,
+  isInspectionStatus,
+  normalizeInspectionStatus,
+} from '@/constants/inspectionStatuses';
+import { addDaysToDateKey, formatInTimeZone, isDateKey, resolveTimeZone, startOfDayInTimeZone } from '@/src/lib/time-zones';
+import { formatInspection } from './inspection';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export const INSPECTION_SORT_FIELDS = {
+  date: 'date',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  orderId: 'orderId',
+  status: 'status',
+  address: 'location.address',
+  city: 'location.city',
+  zip: 'location.zip',
+  total: 'pricing.total',
+} as const;
+
+export type InspectionSortField = keyof typeof INSPECTION_SORT_FIELDS;
+
+export type InspectionPaymentFilter = InvoiceStatus | 'none';
+
+export type InspectionReportFilter = 'published' | 'unpublished';
+
+export interface InspectionSearchQuery {
+  search?: string;
+  // Calendar days (YYYY-MM-DD) in the company's time zone, both inclusive
+  from?: string;
+  to?: string;
+  inspector?: string;
+  statuses?: InspectionStatus[];
+  service?: string;
+  agent?: string;
+  agency?: string;
+  client?: string;
+  referralSource?: string;
+  zip?: string;
+  county?: string;
+  payment?: InspectionPaymentFilter;
+  report?: InspectionReportFilter;
+  // Values to match in customData, keyed by custom field key
+  customData?: Record<string, string>;
+  deleted?: boolean;
+  sort: InspectionSortField;
+  order: 'asc' | 'desc';
+  page: number;
+  pageSize: number;
+}
+
+export interface InspectionSearchResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export const DEFAULT_INSPECTION_PAGE_SIZE = 25;
+const MAX_INSPECTION_PAGE_SIZE = 100;
+// Exports past this size should be narrowed down with filters first
+export const MAX_INSPECTION_EXPORT_ROWS = 5000;
+
+const CUSTOM_DATA_PREFIX = 'cf.';
+const CUSTOM_FIELD_KEY = /^[A-Za-z0-9_-]+$/;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toObjectId = (value?: string | null) =>
+  value && mongoose.Types.ObjectId.isValid(value) ? new mongoose.Types.ObjectId(value) : null;
+
+/**
+ * Read a search from URL parameters, e.g. `?status=scheduled,confirmed&from=2025-01-01&cf.gateCode=1234`.
+ * Preset queries are stored in the same form.
+ */
+export function parseInspectionSearchParams(params: URLSearchParams): InspectionSearchQuery | { error: string } {
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+
+  const from = get('from');
+  const to = get('to');
+  if ((from && !isDateKey(from)) || (to && !isDateKey(to))) {
+    return { error: 'from and to must be dates in YYYY-MM-DD form' };
+  }
+  if (from && to && to < from) {
+    return { error: 'to must not be before from' };
+  }
+
+  const statuses = get('status')?.split(',').map((status) => status.trim()).filter(Boolean);
+  if (statuses?.some((status) => !isInspectionStatus(status))) {
+    return { error: `status must be a comma-separated list of: ${INSPECTION_STATUSES.join(', ')}` };
+  }
+
+  const payment = get('payment');
+  if (payment && payment !== 'none' && !INVOICE_STATUSES.includes(payment as InvoiceStatus)) {
+    return { error: `payment must be one of: none, ${INVOICE_STATUSES.join(', ')}` };
+  }
+
+  const report = get('report');
+  if (report && report !== 'published' && report !== 'unpublished') {
+    return { error: 'report must be published or unpublished' };
+  }
+
+  const invalidId = ['service', 'agent', 'agency', 'client', 'inspector'].find((key) => {
+    const value = get(key);
+    return value && !(key === 'inspector' && value === 'me') && !mongoose.Types.ObjectId.isValid(value);
+  });
+  if (invalidId) {
+    return { error: `Invalid ${invalidId} ID` };
+  }
+
+  const sort = get('sort') || 'date';
+  if (!Object.prototype.hasOwnProperty.call(INSPECTION_SORT_FIELDS, sort)) {
+    return { error: `sort must be one of: ${Object.keys(INSPECTION_SORT_FIELDS).join(', ')}` };
+  }
+
+  const customData: Record<string, string> = {};
+  params.forEach((value, key) => {
+    const fieldKey = key.slice(CUSTOM_DATA_PREFIX.length);
+    if (key.startsWith(CUSTOM_DATA_PREFIX) && CUSTOM_FIELD_KEY.test(fieldKey) && value.trim()) {
+      customData[fieldKey] = value.trim();
+    }
+  });
+
+  const page = Math.max(parseInt(get('page') || '1', 10) || 1, 1);
+  const pageSize = Math.min(
+    Math.max(parseInt(get('pageSize') || String(DEFAULT_INSPECTION_PAGE_SIZE), 10) || DEFAULT_INSPECTION_PAGE_SIZE, 1),
+    MAX_INSPECTION_PAGE_SIZE
+  );
+
+  return {
+    search: get('q'),
+    from,
+    to,
+    inspector: get('inspector'),
+    statuses: statuses as InspectionStatus[] | undefined,
+    service: get('service'),
+    agent: get('agent'),
+    agency: get('agency'),
+    client: get('client'),
+    referralSource: get('referralSource'),
+    zip: get('zip'),
+    county: get('county'),
+    payment: payment as InspectionPaymentFilter | undefined,
+    report: report as InspectionReportFilter | undefined,
+    customData,
+    deleted: get('deleted') === 'true',
+    sort: sort as InspectionSortField,
+    order: get('order') === 'asc' ? 'asc' : 'desc',
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * The search parameters worth saving in a preset: validated, without the page being viewed
+ */
+export function normalizePresetQuery(query: unknown): { query?: string; error?: string } {
+  const params = new URLSearchParams(typeof query === 'string' ? query.replace(/^\?/, '') : '');
+  params.delete('page');
+
+  const parsed = parseInspectionSearchParams(params);
+  if ('error' in parsed) {
+    return { error: parsed.error };
+  }
+  return { query: params.toString() };
+}
+
+export const formatFilterPreset = (preset: any) => ({
+  _id: String(preset._id),
+  name: preset.name,
+  query: preset.query || '',
+  updatedAt: preset.updatedAt ? new Date(preset.updatedAt).toISOString() : null,
+});
+
+/**
+ * A custom field value as typed into a filter, matched against how it may have been stored
+ */
+function customValueCandidates(value: string): unknown[] {
+  const candidates: unknown[] = [value];
+  if (value === 'true' || value === 'false') candidates.push(value === 'true');
+  if (value !== '' && !Number.isNaN(Number(value))) candidates.push(Number(value));
+  return candidates;
+}
+
+/**
+ * The MongoDB filter behind a search. Filters combine with AND; the text search matches the address,
+ * order number, clients and agents.
+ */
+export async function buildInspectionSearchFilter(
+  companyId: ObjectIdLike,
+  query: Omit<InspectionSearchQuery, 'sort' | 'order' | 'page' | 'pageSize'>
+): Promise<Record<string, any>> {
+  await dbConnect();
+
+  const company = new mongoose.Types.ObjectId(String(companyId));
+  const conditions: Record<string, any>[] = [{ companyId: company }];
+  const idsMatching = (ids: unknown[]) => ({ _id: { $in: ids } });
+
+  conditions.push(
+    query.deleted
+      ? { deletedAt: { $ne: null, $exists: true } }
+      : { $or: [{ deletedAt: null }, { deletedAt: { $exists: false } }] }
+  );
+
+  if (query.from || query.to) {
+    const companyDoc = await Company.findById(company).select('timeZone').lean();
+    const timeZone = resolveTimeZone(companyDoc?.timeZone);
+    conditions.push({
+      date: {
+        ...(query.from ? { $gte: startOfDayInTimeZone(query.from, timeZone) } : {}),
+        ...(query.to ? { $lt: startOfDayInTimeZone(addDaysToDateKey(query.to, 1), timeZone) } : {}),
+      },
+    });
+  }
+
+  const inspectorId = toObjectId(query.inspector);
+  if (inspectorId) {
+    // Inspections they lead, work on, or have an event for
+    const eventInspectionIds = await Event.distinct('inspectionId', { inspector: inspectorId });
+    conditions.push({
+      $or: [{ inspector: inspectorId }, { inspectors: inspectorId }, idsMatching(eventInspectionIds)],
+    });
+  }
+
+  if (query.statuses?.length) {
+    // Inspections saved before the lifecycle existed still hold the old status names
+    conditions.push({ status: { $in: query.statuses.flatMap(getStoredStatusValues) } });
+  }
+
+  if (query.service) {
+    conditions.push({ 'services.serviceId': toObjectId(query.service) });
+  }
+
+  if (query.agent) {
+    const agentId = toObjectId(query.agent);
+    conditions.push({ $or: [{ agents: agentId }, { listingAgent: agentId }] });
+  }
+
+  if (query.agency) {
+    const agencyAgentIds = await Agent.distinct('_id', { company, agency: toObjectId(query.agency) });
+    conditions.push({ $or: [{ agents: { $in: agencyAgentIds } }, { listingAgent: { $in: agencyAgentIds } }] });
+  }
+
+  if (query.client) {
+    conditions.push({ clients: toObjectId(query.client) });
+  }
+
+  if (query.referralSource) {
+    conditions.push({ referralSource: new RegExp(`^${escapeRegex(query.referralSource)}$`, 'i') });
+  }
+
+  if (query.zip) {
+    conditions.push({ 'location.zip': new RegExp(`^${escapeRegex(query.zip)}`, 'i') });
+  }
+
+  if (query.county) {
+    conditions.push({ 'location.county': new RegExp(`^${escapeRegex(query.county)}$`, 'i') });
+  }
+
+  if (query.payment) {
+    if (query.payment === 'none') {
+      conditions.push({ _id: { $nin: await Invoice.distinct('inspection', { company }) } });
+    } else {
+      conditions.push(idsMatching(await Invoice.distinct('inspection', { company, status: query.payment })));
+    }
+  }
+
+  if (query.report) {
+    const published = [
+      { pdfReportUrl: { $nin: [null, ''] } },
+      { htmlReportUrl: { $nin: [null, ''] } },
+    ];
+    conditions.push(query.report === 'published' ? { $or: published } : { $nor: published });
+  }
+
+  Object.entries(query.customData || {}).forEach(([fieldKey, value]) => {
+    conditions.push({ [`customData.${fieldKey}`]: { $in: customValueCandidates(value) } });
+  });
+
+  const search = query.search?.trim();
+  if (search) {
+    const searchRegex = new RegExp(escapeRegex(search), 'i');
+    const [clientIds, agentIds] = await Promise.all([
+      Client.distinct('_id', {
+        company,
+        $or: [{ firstName: searchRegex }, { lastName: searchRegex }, { companyName: searchRegex }, { email: searchRegex }],
+      }),
+      Agent.distinct('_id', {
+        company,
+        $or: [{ firstName: searchRegex }, { lastName: searchRegex }, { email: searchRegex }],
+      }),
+    ]);
+    const orderId = /^\d+$/.test(search) ? Number(search) : null;
+
+    conditions.push({
+      $or: [
+        { 'location.address': searchRegex },
+        { 'location.city': searchRegex },
+        { 'location.state': searchRegex },
+        { 'location.zip': searchRegex },
+        { clients: { $in: clientIds } },
+        { agents: { $in: agentIds } },
+        { listingAgent: { $in: agentIds } },
+        ...(orderId !== null ? [{ orderId }] : []),
+      ],
+    });
+  }
+
+  return { $and: conditions };
+}
+
+export interface InspectionFilterOptions {
+  referralSources: string[];
+  counties: string[];
+  services: Array<{ value: string; label: string }>;
+  customFields: Array<{ fieldKey: string; name: string; fieldType: string; dropdownOptions: string[] }>;
+}
+
+/**
+ * Choices for the filter controls that come from the company's own data. Clients, agents and
+ * agencies are looked up as the user types instead.
+ */
+export async function getInspectionFilterOptions(companyId: ObjectIdLike): Promise<InspectionFilterOptions> {
+  await dbConnect();
+
+  const company = new mongoose.Types.ObjectId(String(companyId));
+  const [referralSources, counties, services, schedulingOptions] = await Promise.all([
+    Inspection.distinct('referralSource', { companyId: company }),
+    Inspection.distinct('location.county', { companyId: company }),
+    Service.find({ company }).select('name').sort({ orderIndex: 1, createdAt: 1 }).lean(),
+    SchedulingOptions.findOne({ company }).select('customFields').lean(),
+  ]);
+
+  const clean = (values: unknown[]) =>
+    Array.from(new Set(values.filter((value): value is string => typeof value === 'string' && value.trim() !== '')))
+      .sort((a, b) => a.localeCompare(b));
+
+  return {
+    referralSources: clean(referralSources),
+    counties: clean(counties),
+    services: services.map((service) => ({ value: String(service._id), label: service.name })),
+    customFields: [...(schedulingOptions?.customFields || [])]
+      .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0))
+      .map((field) => ({
+        fieldKey: field.fieldKey,
+        name: field.name,
+        fieldType: field.fieldType,
+        dropdownOptions: field.dropdownOptions || [],
+      })),
+  };
+}
+
+const populateSummary = (query: mongoose.Query<any[], any>) =>
+  query
+    .populate('agents', 'firstName lastName email')
+    .populate('clients', 'firstName lastName companyName isCompany email phone')
+    .populate('listingAgent', 'firstName lastName email')
+    .populate('inspector', 'firstName lastName')
+    .populate('inspectors', 'firstName lastName');
+
+const sortFor = (query: Pick<InspectionSearchQuery, 'sort' | 'order'>) => {
+  const direction = query.order === 'asc' ? 1 : -1;
+  // _id keeps pages stable when the sort field ties
+  return { [INSPECTION_SORT_FIELDS[query.sort]]: direction, _id: direction } as Record<string, 1 | -1>;
+};
+
+/**
+ * One page of the inspections matching a search, formatted like `getAllInspections`
+ */
+export async function searchInspections(
+  companyId: ObjectIdLike,
+  query: InspectionSearchQuery
+): Promise<InspectionSearchResult<NonNullable<ReturnType<typeof formatInspection>>>> {
+  const filter = await buildInspectionSearchFilter(companyId, query);
+
+  const [total, docs] = await Promise.all([
+    Inspection.countDocuments(filter),
+    populateSummary(
+      Inspection.find(filter)
+        .sort(sortFor(query))
+        .skip((query.page - 1) * query.pageSize)
+        .limit(query.pageSize)
+    ).lean<any[]>(),
+  ]);
+
+  return {
+    items: docs.map((doc) => formatInspection(doc as IInspection)).filter((item) => item !== null),
+    total,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages: Math.max(Math.ceil(total / query.pageSize), 1),
+  };
+}
+
+const personName = (person: any) =>
+  person?.isCompany && person.companyName
+    ? person.companyName
+    : [person?.firstName, person?.lastName].filter(Boolean).join(' ');
+
+const names = (people: any[] = []) => people.map(personName).filter(Boolean).join('; ');
+
+/**
+ * Quote a CSV cell. Cells that spreadsheet apps would run as formulas are prefixed with a quote mark.
+ */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const toCsv = (rows: unknown[][]) => `${rows.map((row) => row.map(csvCell).join(',')).join('\r\n')}\r\n`;
+
+/**
+ * Every inspection matching a search as CSV, up to MAX_INSPECTION_EXPORT_ROWS, in the search's sort
+ * order. Invoice columns are only included with `includeFinancials`.
+ */
+export async function exportInspectionsCsv(
+  companyId: ObjectIdLike,
+  query: InspectionSearchQuery,
+  options: { includeFinancials?: boolean } = {}
+): Promise<{ csv: string; rows: number; truncated: boolean }> {
+  const filter = await buildInspectionSearchFilter(companyId, query);
+
+  const [company, schedulingOptions, total, docs] = await Promise.all([
+    Company.findById(companyId).select('timeZone').lean(),
+    SchedulingOptions.findOne({ company: companyId }).select('customFields').lean(),
+    Inspection.countDocuments(filter),
+    populateSummary(Inspection.find(filter).sort(sortFor(query)).limit(MAX_INSPECTION_EXPORT_ROWS))
+      .select('-officeNotes -emailLog')
+      .lean<any[]>(),
+  ]);
+
+  const timeZone = resolveTimeZone(company?.timeZone);
+  const customFields = [...(schedulingOptions?.customFields || [])].sort(
+    (a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0)
+  );
+  const invoices = options.includeFinancials
+    ? await Invoice.find({ inspection: { $in: docs.map((doc) => doc._id) } })
+        .select('inspection status total amountPaid balance')
+        .lean()
+    : [];
+  const invoicesByInspection = new Map(invoices.map((invoice) => [String(invoice.inspection), invoice]));
+
+  const header = [
+    'Order ID',
+    'Date',
+    'Time',
+    'Status',
+    'Confirmed',
+    'Address',
+    'Unit',
+    'City',
+    'State',
+    'Zip',
+    'County',
+    'Lead Inspector',
+    'Inspectors',
+    'Services',
+    'Clients',
+    'Client Emails',
+    "Buyer's Agents",
+    'Listing Agents',
+    'Referral Source',
+    'Report Published',
+    ...(options.includeFinancials ? ['Total', 'Paid', 'Balance', 'Payment Status'] : []),
+    ...customFields.map((field) => field.name),
+  ];
+
+  const rows = docs.map((doc) => {
+    const date = doc.date ? new Date(doc.date) : null;
+    const invoice = invoicesByInspection.get(String(doc._id));
+    const location = doc.location || {};
+
+    return [
+      doc.orderId ?? '',
+      date ? formatInTimeZone(date, timeZone, { year: 'numeric', month: '2-digit', day: '2-digit' }) : '',
+      date ? formatInTimeZone(date, timeZone, { hour: 'numeric', minute: '2-digit' }) : '',
+      INSPECTION_STATUS_LABELS[normalizeInspectionStatus(doc.status)],
+      doc.confirmedInspection === false ? 'No' : 'Yes',
+      location.address,
+      location.unit,
+      location.city,
+      location.state,
+      location.zip,
+      location.county,
+      personName(doc.inspector),
+      names(doc.inspectors),
+      (doc.pricing?.services || []).map((service: { name?: string }) => service.name).filter(Boolean).join('; '),
+      names(doc.clients),
+      (doc.clients || []).map((client: any) => client?.email).filter(Boolean).join('; '),
+      names(doc.agents),
+      names(doc.listingAgent),
+      doc.referralSource,
+      doc.pdfReportUrl || doc.htmlReportUrl ? 'Yes' : 'No',
+      ...(options.includeFinancials
+        ? [
+            doc.pricing?.total ?? invoice?.total ?? '',
+            invoice?.amountPaid ?? '',
+            invoice?.balance ?? '',
+            invoice ? INVOICE_STATUS_LABELS[invoice.status] : 'No invoice',
+          ]
+        : []),
+      ...customFields.map((field) => {
+        const value = doc.customData?.[field.fieldKey];
+        return Array.isArray(value) ? value.join('; ') : value;
+      }),
+    ];
+  });
+
+  return { csv: toCsv([header, ...rows]), rows: rows.length, truncated: total > rows.length };
+}
@@ -0,0 +1,271 @@
+import mongoose from 'mongoose';
+
+import dbConnect from './db';
+import Inspection, { IInspection } from '@/src/models/Inspection';
+import InspectionStatusChange from '@/src/models/InspectionStatusChange';
+import Task from '@/src/models/Task';
+import { IUser } from '@/src/models/User';
+import {
+  INSPECTION_STATUS_LABELS,
+  INSPECTION_STATUS_TRANSITIONS,
+  InspectionStatus,
+  normalizeInspectionStatus,
+} from '@/constants/inspectionStatuses';
+import { hasPermission, Permission, PermissionDeniedError } from './permissions';
+import {
+  getInspectionNotificationState,
+  InspectionNotificationState,
+  sendInspectionCancelledEmail,
+  sendInspectionUpdateEmails,
+  sendReportPublishedEmail,
+} from './email-notifications';
+import { createTasksForInspectionEvent } from './task-templates';
+import { STATUS_TASK_TRIGGERS } from '@/constants/tasks';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// The signed-in user making the change; null for changes the system makes on its own
+type StatusActor = (Pick<IUser, '_id' | 'company'> & Partial<IUser>) | null;
+
+/**
+ * Thrown when a status change is refused; `status` is the HTTP status to answer with
+ */
+export class InspectionStatusError extends Error {
+  readonly status: 400 | 404 | 409;
+
+  constructor(message: string, status: 400 | 404 | 409 = 409) {
+    super(message);
+    this.name = 'InspectionStatusError';
+    this.status = status;
+  }
+}
+
+// Only company admins may reopen a closed or cancelled inspection
+const ADMIN_ONLY_FROM: InspectionStatus[] = ['closed', 'cancelled'];
+
+/**
+ * Permissions allowed to make a transition; the user needs any one of them
+ */
+export function getStatusTransitionPermissions(from: InspectionStatus, to: InspectionStatus): Permission[] {
+  if (ADMIN_ONLY_FROM.includes(from)) return ['is_company_admin'];
+  if (to === 'published') return ['can_publish'];
+  if (to === 'in_progress' || to === 'report_draft' || to === 'closed') return ['can_edit_inspections'];
+  return ['can_schedule', 'can_edit_inspections'];
+}
+
+export interface StatusTransitionOption {
+  status: InspectionStatus;
+  label: string;
+  allowed: boolean;
+}
+
+export function getStatusTransitionOptions(from: InspectionStatus, user: StatusActor): StatusTransitionOption[] {
+  return INSPECTION_STATUS_TRANSITIONS[from].map((status) => ({
+    status,
+    label: INSPECTION_STATUS_LABELS[status],
+    allowed: getStatusTransitionPermissions(from, status).some((permission) => hasPermission(user, permission)),
+  }));
+}
+
+// Fields kept in step with the status so older workflows (reminders, invites) keep reading them
+const STATUS_FIELDS: Partial<Record<InspectionStatus, Record<string, unknown>>> = {
+  unconfirmed: { confirmedInspection: false },
+  scheduled: { confirmedInspection: false },
+  confirmed: { confirmedInspection: true },
+};
+
+interface StatusChangeContext {
+  inspectionId: ObjectIdLike;
+  from: InspectionStatus;
+  to: InspectionStatus;
+  user: StatusActor;
+  previous: InspectionNotificationState | null;
+  inspection: { companyId: mongoose.Types.ObjectId; createdBy?: mongoose.Types.ObjectId; inspector?: mongoose.Types.ObjectId };
+}
+
+/**
+ * Work done after an inspection enters a status. Failures are logged rather than undoing the change.
+ */
+const STATUS_SIDE_EFFECTS: Partial<Record<InspectionStatus, (context: StatusChangeContext) => Promise<unknown>>> = {
+  // The confirmation and pending agreement emails go out the first time it is confirmed
+  confirmed: ({ inspectionId, previous }) => sendInspectionUpdateEmails(inspectionId, previous),
+  cancelled: ({ inspectionId }) => sendInspectionCancelledEmail(inspectionId),
+  published: ({ inspectionId }) => sendReportPublishedEmail(inspectionId),
+  // Someone has to chase the client for a new time
+  no_show: async ({ inspectionId, user, inspection }) => {
+    const assignee = user?._id || inspection.createdBy || inspection.inspector;
+    if (!assignee) return;
+
+    await Task.create({
+      inspectionId,
+      companyId: inspection.companyId,
+      taskType: 'Scheduling',
+      assignedTo: assignee,
+      priority: 'High',
+      dueDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      title: 'Reschedule no-show inspection',
+      description: 'Nobody was available to let the inspector in. Contact the client to book a new time.',
+      status: 'On Hold',
+      createdBy: assignee,
+    });
+  },
+};
+
+export interface ChangeInspectionStatusOptions {
+  user: StatusActor;
+  note?: string;
+}
+
+/**
+ * Move an inspection to another status. Checks the transition is allowed from the current status and
+ * that the user may make it, records it in the status history, then runs the status's side effects.
+ * The update only applies if nobody changed the status in the meantime.
+ */
+export async function changeInspectionStatus(
+  inspectionId: ObjectIdLike,
+  to: InspectionStatus,
+  { user, note }: ChangeInspectionStatusOptions
+): Promise<{ from: InspectionStatus; to: InspectionStatus; changed: boolean }> {
+  if (!mongoose.Types.ObjectId.isValid(inspectionId)) {
+    throw new InspectionStatusError('Invalid inspection ID format', 400);
+  }
+
+  await dbConnect();
+
+  const inspection = await Inspection.findById(inspectionId)
+    .select('companyId status createdBy inspector deletedAt pdfReportUrl htmlReportUrl')
+    .lean();
+  if (!inspection || (user && String(user.company) !== String(inspection.companyId))) {
+    throw new InspectionStatusError('Inspection not found', 404);
+  }
+
+  const from = normalizeInspectionStatus(inspection.status);
+  if (from === to) {
+    return { from, to, changed: false };
+  }
+
+  if (!INSPECTION_STATUS_TRANSITIONS[from].includes(to)) {
+    throw new InspectionStatusError(
+      `A ${INSPECTION_STATUS_LABELS[from].toLowerCase()} inspection can't be marked ${INSPECTION_STATUS_LABELS[to].toLowerCase()}`
+    );
+  }
+
+  const required = getStatusTransitionPermissions(from, to);
+  if (user && !required.some((permission) => hasPermission(user, permission))) {
+    throw new PermissionDeniedError(required);
+  }
+
+  if (inspection.deletedAt) {
+    throw new InspectionStatusError('Restore the inspection before changing its status');
+  }
+  if (to === 'published' && !inspection.pdfReportUrl && !inspection.htmlReportUrl) {
+    throw new InspectionStatusError('Generate the report before publishing it', 400);
+  }
+
+  const previous = await getInspectionNotificationState(inspectionId);
+  const result = await Inspection.updateOne(
+    // Matching the stored value keeps two simultaneous changes from both applying
+    { _id: inspection._id, status: inspection.status ?? { $exists: false } },
+    {
+      $set: { status: to, ...STATUS_FIELDS[to] },
+      // Calendar feeds show cancelled appointments as cancelled and reinstated ones as booked again
+      ...(to === 'cancelled' || from === 'cancelled' ? { $inc: { calendarSequence: 1 } } : {}),
+    }
+  );
+  if (result.matchedCount === 0) {
+    throw new InspectionStatusError('The inspection status was changed by someone else. Reload and try again.');
+  }
+
+  await InspectionStatusChange.create({
+    inspection: inspection._id,
+    company: inspection.companyId,
+    from,
+    to,
+    changedBy: user?._id,
+    note: note?.trim() || undefined,
+  });
+
+  try {
+    await STATUS_SIDE_EFFECTS[to]?.({ inspectionId, from, to, user, previous, inspection });
+  } catch (error) {
+    console.error(`Error running ${to} status side effects:`, error);
+  }
+
+  const taskTrigger = STATUS_TASK_TRIGGERS[to];
+  if (taskTrigger) {
+    await createTasksForInspectionEvent(inspectionId, taskTrigger, user?._id as mongoose.Types.ObjectId | undefined);
+  }
+
+  return { from, to, changed: true };
+}
+
+/**
+ * Move an inspection being worked on to published once its report is generated.
+ * Inspections in any other status are left alone.
+ */
+export async function markInspectionReportPublished(inspectionId: ObjectIdLike, user: StatusActor) {
+  try {
+    const inspection = await Inspection.findById(inspectionId).select('status').lean();
+    const status = normalizeInspectionStatus(inspection?.status);
+    if (!inspection || (status !== 'in_progress' && status !== 'report_draft')) return;
+
+    await changeInspectionStatus(inspectionId, 'published', { user, note: 'Report generated' });
+  } catch (error) {
+    console.error('Error marking inspection report published:', error);
+  }
+}
+
+/**
+ * Note the status an inspection was created in as the first entry of its history
+ */
+export async function recordInitialInspectionStatus(
+  inspection: Pick<IInspection, '_id' | 'companyId' | 'status'>,
+  changedBy?: ObjectIdLike | null
+) {
+  try {
+    await InspectionStatusChange.create({
+      inspection: inspection._id,
+      company: inspection.companyId,
+      from: null,
+      to: normalizeInspectionStatus(inspection.status),
+      changedBy: changedBy || undefined,
+    });
+  } catch (error) {
+    console.error('Error recording initial inspection status:', error);
+  }
+}
+
+export interface InspectionStatusHistoryEntry {
+  _id: string;
+  from: InspectionStatus | null;
+  to: InspectionStatus;
+  changedBy: { _id: string; name: string } | null;
+  note: string;
+  createdAt: string;
+}
+
+export async function getInspectionStatusHistory(inspectionId: ObjectIdLike): Promise<InspectionStatusHistoryEntry[]> {
+  await dbConnect();
+
+  const entries = await InspectionStatusChange.find({ inspection: inspectionId })
+    .sort({ createdAt: 1, _id: 1 })
+    .populate('changedBy', 'firstName lastName email')
+    .lean();
+
+  return entries.map((entry) => {
+    const changedBy = entry.changedBy as unknown as Partial<IUser> | undefined;
+    return {
+      _id: String(entry._id),
+      from: entry.from ?? null,
+      to: entry.to,
+      changedBy: changedBy?._id
+        ? {
+            _id: String(changedBy._id),
+            name: `${changedBy.firstName || ''} ${changedBy.lastName || ''}`.trim() || changedBy.email || 'Unknown user',
+          }
+        : null,
+      note: entry.note || '',
+      createdAt: new Date(entry.createdAt).toISOString(),
+    };
+  });
+}
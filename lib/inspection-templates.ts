@@ -0,0 +1,309 @@
+import mongoose from 'mongoose';
+
+import InspectionTemplate, { IInspectionTemplate } from '@/src/models/InspectionTemplate';
+import Section from '@/src/models/Section';
+import SectionChecklist from '@/src/models/SectionChecklist';
+import Service from '@/src/models/Service';
+import Inspection from '@/src/models/Inspection';
+import Company from '@/src/models/Company';
+import InspectionInformationBlock from '@/src/models/InspectionInformationBlock';
+
+export const SYSTEM_TEMPLATE_NAME = 'System Default';
+export const DEFAULT_COMPANY_TEMPLATE_NAME = 'Residential';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+interface CloneTemplateOptions {
+  companyId: ObjectIdLike;
+  name: string;
+  description?: string;
+  createdBy?: ObjectIdLike;
+  isDefault?: boolean;
+}
+
+const toObjectId = (value: ObjectIdLike) =>
+  typeof value === 'string' ? new mongoose.Types.ObjectId(value) : value;
+
+/**
+ * Get (or create) the system default template
+ */
+export async function getSystemTemplate(): Promise<IInspectionTemplate> {
+  let template = await InspectionTemplate.findOne({ isSystem: true, company: null });
+
+  if (!template) {
+    template = await InspectionTemplate.create({
+      name: SYSTEM_TEMPLATE_NAME,
+      company: null,
+      isSystem: true,
+      isDefault: false,
+    });
+  }
+
+  return template;
+}
+
+/**
+ * Create a company template with no sections, e.g. as the target of an import
+ */
+export async function createEmptyTemplate(
+  options: CloneTemplateOptions,
+  clonedFrom?: mongoose.Types.ObjectId
+): Promise<{ template?: IInspectionTemplate; error?: string }> {
+  const companyId = toObjectId(options.companyId);
+
+  const existing = await InspectionTemplate.findOne({ company: companyId, name: options.name.trim() })
+    .collation({ locale: 'en', strength: 2 })
+    .lean();
+  if (existing) {
+    return { error: 'A template with this name already exists' };
+  }
+
+  const template = await InspectionTemplate.create({
+    name: options.name.trim(),
+    description: options.description?.trim() || undefined,
+    company: companyId,
+    isSystem: false,
+    isDefault: options.isDefault ?? false,
+    clonedFrom,
+    createdBy: options.createdBy ? toObjectId(options.createdBy) : undefined,
+  });
+
+  return { template };
+}
+
+/**
+ * Copy a template's sections and checklists into a new company template
+ */
+export async function cloneTemplate(
+  sourceTemplateId: ObjectIdLike,
+  options: CloneTemplateOptions
+): Promise<{ template?: IInspectionTemplate; error?: string }> {
+  const source = await InspectionTemplate.findById(sourceTemplateId).lean<IInspectionTemplate>();
+  if (!source) {
+    return { error: 'Source template not found' };
+  }
+
+  const companyId = toObjectId(options.companyId);
+
+  // A company may only clone the system default or one of its own templates
+  if (!source.isSystem && source.company?.toString() !== companyId.toString()) {
+    return { error: 'Source template not found' };
+  }
+
+  const { template, error } = await createEmptyTemplate(options, source._id as mongoose.Types.ObjectId);
+  if (!template) {
+    return { error };
+  }
+
+  const sections = await Section.find({ template: source._id }).sort({ order_index: 1 }).lean();
+
+  for (const section of sections) {
+    const newSection = await Section.create({
+      name: section.name,
+      order_index: section.order_index,
+      template: template._id,
+      company: companyId,
+    });
+
+    const checklists = await SectionChecklist.find({ section_id: section._id }).lean();
+    if (checklists.length > 0) {
+      await SectionChecklist.insertMany(
+        checklists.map((checklist) => ({
+          section_id: newSection._id,
+          company: companyId,
+          text: checklist.text,
+          value: checklist.value,
+          comment: checklist.comment,
+          type: checklist.type,
+          tab: checklist.tab,
+          answer_choices: checklist.answer_choices,
+          default_checked: checklist.default_checked,
+          default_selected_answers: checklist.default_selected_answers,
+          order_index: checklist.order_index,
+        }))
+      );
+    }
+  }
+
+  return { template };
+}
+
+/**
+ * Get the company's default template, cloning one from the system default the first time
+ */
+export async function ensureCompanyDefaultTemplate(
+  companyId: ObjectIdLike,
+  createdBy?: ObjectIdLike
+): Promise<IInspectionTemplate> {
+  const companyObjectId = toObjectId(companyId);
+
+  const defaultTemplate = await InspectionTemplate.findOne({ company: companyObjectId, isDefault: true });
+  if (defaultTemplate) {
+    return defaultTemplate;
+  }
+
+  const firstTemplate = await InspectionTemplate.findOne({ company: companyObjectId }).sort({ createdAt: 1 });
+  if (firstTemplate) {
+    firstTemplate.isDefault = true;
+    await firstTemplate.save();
+    return firstTemplate;
+  }
+
+  const systemTemplate = await getSystemTemplate();
+  const { template, error } = await cloneTemplate(systemTemplate._id as mongoose.Types.ObjectId, {
+    companyId: companyObjectId,
+    name: DEFAULT_COMPANY_TEMPLATE_NAME,
+    createdBy,
+    isDefault: true,
+  });
+
+  if (!template) {
+    throw new Error(error || 'Failed to create default template');
+  }
+
+  return template;
+}
+
+/**
+ * Validate a template id chosen for a service or inspection. Returns null when it is empty
+ * or does not belong to the company.
+ */
+export async function findCompanyTemplateId(
+  companyId: ObjectIdLike,
+  templateId: unknown
+): Promise<mongoose.Types.ObjectId | null> {
+  if (typeof templateId !== 'string' || !mongoose.Types.ObjectId.isValid(templateId)) {
+    return null;
+  }
+
+  const template = await InspectionTemplate.findOne({ _id: templateId, company: toObjectId(companyId) })
+    .select('_id')
+    .lean();
+  return template ? (template._id as mongoose.Types.ObjectId) : null;
+}
+
+/**
+ * Make one template the company's default and clear the flag on the others
+ */
+export async function setDefaultTemplate(companyId: ObjectIdLike, templateId: ObjectIdLike) {
+  const companyObjectId = toObjectId(companyId);
+  await InspectionTemplate.updateMany(
+    { company: companyObjectId, _id: { $ne: toObjectId(templateId) } },
+    { $set: { isDefault: false } }
+  );
+  await InspectionTemplate.updateOne(
+    { company: companyObjectId, _id: toObjectId(templateId) },
+    { $set: { isDefault: true } }
+  );
+}
+
+/**
+ * Remove a template together with its sections and checklists
+ */
+export async function deleteTemplateContents(templateId: ObjectIdLike) {
+  const templateObjectId = toObjectId(templateId);
+  const sectionIds = await Section.find({ template: templateObjectId }).distinct('_id');
+
+  await SectionChecklist.deleteMany({ section_id: { $in: sectionIds } });
+  await Section.deleteMany({ template: templateObjectId });
+  await Service.updateMany({ inspectionTemplate: templateObjectId }, { $set: { inspectionTemplate: null } });
+  await Inspection.updateMany({ inspectionTemplate: templateObjectId }, { $unset: { inspectionTemplate: 1 } });
+  await InspectionTemplate.deleteOne({ _id: templateObjectId });
+}
+
+/**
+ * Template used for an inspection: the inspection's own choice, then the first of its services
+ * with a template, then the company default
+ */
+export async function resolveInspectionTemplateId(
+  inspectionId: ObjectIdLike
+): Promise<mongoose.Types.ObjectId | null> {
+  if (!mongoose.Types.ObjectId.isValid(inspectionId)) {
+    return null;
+  }
+
+  const inspection = await Inspection.findById(inspectionId)
+    .select('companyId inspectionTemplate services.serviceId')
+    .lean();
+  if (!inspection) {
+    return null;
+  }
+
+  if (inspection.inspectionTemplate) {
+    return inspection.inspectionTemplate as mongoose.Types.ObjectId;
+  }
+
+  const serviceIds = (inspection.services || []).map((service) => service.serviceId).filter(Boolean);
+  if (serviceIds.length > 0) {
+    const services = await Service.find({ _id: { $in: serviceIds }, inspectionTemplate: { $ne: null } })
+      .select('_id inspectionTemplate')
+      .lean();
+    const byId = new Map(services.map((service) => [service._id.toString(), service.inspectionTemplate]));
+    for (const serviceId of serviceIds) {
+      const templateId = byId.get(serviceId.toString());
+      if (templateId) {
+        return templateId as mongoose.Types.ObjectId;
+      }
+    }
+  }
+
+  if (!inspection.companyId) {
+    return null;
+  }
+
+  const defaultTemplate = await ensureCompanyDefaultTemplate(inspection.companyId);
+  return defaultTemplate._id as mongoose.Types.ObjectId;
+}
+
+/**
+ * One-off migration from the single global template: drops the old global section name index,
+ * moves existing sections into the system default template and gives every company its own copy.
+ * Inspections whose information blocks use the old sections are pinned to the system template,
+ * since the company copies have new section and checklist ids. Safe to run more than once.
+ */
+export async function migrateGlobalSectionsToCompanies(): Promise<{
+  systemTemplateId: string;
+  companiesMigrated: number;
+  inspectionsPinned: number;
+}> {
+  try {
+    await Section.collection.dropIndex('name_1');
+  } catch {
+    // Index already dropped or never created
+  }
+  await Section.syncIndexes();
+  await SectionChecklist.syncIndexes();
+
+  // Sections created before templates existed have no template and are adopted by the system one
+  const systemTemplate = await getSystemTemplate();
+  await Section.updateMany(
+    { $or: [{ template: null }, { template: { $exists: false } }] },
+    { $set: { template: systemTemplate._id, company: null } }
+  );
+  await SectionChecklist.updateMany({ company: { $exists: false } }, { $set: { company: null } });
+
+  const systemSectionIds = await Section.find({ template: systemTemplate._id }).distinct('_id');
+  const inspectionIds = await InspectionInformationBlock.find({ section_id: { $in: systemSectionIds } }).distinct(
+    'inspection_id'
+  );
+  const { modifiedCount: inspectionsPinned } = await Inspection.updateMany(
+    {
+      _id: { $in: inspectionIds },
+      $or: [{ inspectionTemplate: null }, { inspectionTemplate: { $exists: false } }],
+    },
+    { $set: { inspectionTemplate: systemTemplate._id } }
+  );
+
+  const companies = await Company.find({}).select('_id createdBy').lean();
+  let companiesMigrated = 0;
+
+  for (const company of companies) {
+    const hasTemplate = await InspectionTemplate.exists({ company: company._id });
+    if (hasTemplate) continue;
+
+    await ensureCompanyDefaultTemplate(company._id as mongoose.Types.ObjectId, company.createdBy);
+    companiesMigrated++;
+  }
+
+  return { systemTemplateId: systemTemplate._id!.toString(), companiesMigrated, inspectionsPinned };
+}
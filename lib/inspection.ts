@@ -1,18 +1,107 @@
 // lib/inspection.ts
 import dbConnect from "./db";
-import Inspection, { IInspection } from "@/src/models/Inspection";
+import Inspection, { IInspection, IInspectionPricing } from "@/src/models/Inspection";
 import mongoose from "mongoose";
 import Client from "@/src/models/Client";
 import Agent from "@/src/models/Agent";
+import Event from "@/src/models/Event";
 import { IUser } from "@/src/models/User";
 import { IDiscountCode } from "@/src/models/DiscountCode";
+import { getStoredStatusValues, normalizeInspectionStatus } from "@/constants/inspectionStatuses";
+import { recordInitialInspectionStatus } from "./inspection-status";
+import { createTasksForInspectionEvent } from "./task-templates";
+import { STATUS_TASK_TRIGGERS } from "@/constants/tasks";
+
+type IdLike = string | mongoose.Types.ObjectId;
+
+export type ServiceAssignmentInput = {
+  serviceId: IdLike;
+  inspector?: IdLike | null;
+};
+
+type InspectionTeamInput = {
+  inspector?: IdLike | null;
+  inspectors?: IdLike[] | null;
+  serviceAssignments?: ServiceAssignmentInput[] | null;
+};
+
+const toObjectId = (value: unknown) =>
+  value && mongoose.Types.ObjectId.isValid(String(value)) ? new mongoose.Types.ObjectId(String(value)) : null;
+
+/**
+ * Keep the lead, team and per-service assignees consistent: the lead defaults to the first team
+ * member, the team always includes the lead and every assignee, and services left with the lead
+ * aren't stored as assignments.
+ */
+export function normalizeInspectionTeam(team: InspectionTeamInput) {
+  const inspectors = (team.inspectors || []).map(toObjectId).filter((id): id is mongoose.Types.ObjectId => Boolean(id));
+  const lead = toObjectId(team.inspector) ?? inspectors[0] ?? null;
+
+  const assignmentsByService = new Map<string, { serviceId: mongoose.Types.ObjectId; inspector: mongoose.Types.ObjectId }>();
+  (team.serviceAssignments || []).forEach((assignment) => {
+    const serviceId = toObjectId(assignment.serviceId);
+    const inspector = toObjectId(assignment.inspector);
+    if (serviceId && inspector && !(lead && inspector.equals(lead))) {
+      assignmentsByService.set(String(serviceId), { serviceId, inspector });
+    }
+  });
+  const serviceAssignments = Array.from(assignmentsByService.values());
+
+  const members = new Map<string, mongoose.Types.ObjectId>();
+  [lead, ...inspectors, ...serviceAssignments.map((assignment) => assignment.inspector)].forEach((id) => {
+    if (id) members.set(String(id), id);
+  });
+
+  return { inspector: lead, inspectors: Array.from(members.values()), serviceAssignments };
+}
+
+export const TEAM_FIELDS = ['inspector', 'inspectors', 'serviceAssignments'] as const;
+
+/**
+ * Apply a partial team change to an inspection's current team. Replacing the lead drops the old
+ * one from the team, and services of anyone taken off the team go back to the lead.
+ */
+export async function mergeInspectionTeam(inspectionId: string, data: InspectionTeamInput) {
+  const current = await Inspection.findById(inspectionId).select('inspector inspectors serviceAssignments').lean();
+  const currentLead = current?.inspector ? String(current.inspector) : null;
+
+  const inspector = 'inspector' in data ? data.inspector : current?.inspector;
+  const inspectors = 'inspectors' in data
+    ? data.inspectors
+    : (current?.inspectors || []).filter((id) => !('inspector' in data) || String(id) !== currentLead);
+  let serviceAssignments: ServiceAssignmentInput[] = 'serviceAssignments' in data
+    ? data.serviceAssignments || []
+    : current?.serviceAssignments || [];
+
+  if (!('serviceAssignments' in data)) {
+    const team = new Set([inspector, ...(inspectors || [])].filter(Boolean).map(String));
+    serviceAssignments = serviceAssignments.filter((assignment) => team.has(String(assignment.inspector)));
+  }
+
+  return normalizeInspectionTeam({ inspector, inspectors, serviceAssignments });
+}
+
+const formatUserSummary = (user: any) =>
+  user && typeof user === 'object' && '_id' in user
+    ? {
+        _id: user._id?.toString() || '',
+        firstName: user.firstName || '',
+        lastName: user.lastName || '',
+        email: user.email || '',
+        phone: user.phoneNumber || '',
+        photoUrl: user.profileImageUrl || '',
+      }
+    : null;
 
 type CreateInspectionParams = {
   companyId: string;
   status?: string;
   date?: string | Date;
+  timeZone?: string;
   createdBy?: string;
   inspector?: string;
+  inspectors?: IdLike[];
+  serviceAssignments?: ServiceAssignmentInput[];
   companyOwnerRequested?: boolean;
   services?: Array<{
     serviceId: string;
@@ -23,6 +112,8 @@ type CreateInspectionParams = {
     }>;
   }>;
   discountCode?: string;
+  pricing?: IInspectionPricing;
+  inspectionTemplate?: string | null;
   location?: {
     address?: string;
     unit?: string;
@@ -46,7 +137,7 @@ type CreateInspectionParams = {
   customData?: Record<string, any>;
 };
 
-const formatInspection = (doc: IInspection | null) => {
+export const formatInspection = (doc: IInspection | null) => {
   if (!doc) return null;
   
   // Format client names
@@ -145,16 +236,24 @@ const formatInspection = (doc: IInspection | null) => {
 
   // Format inspector (could be populated or just an ID)
   const inspectorDoc = doc.inspector as IUser | mongoose.Types.ObjectId | undefined;
-  const formattedInspector = inspectorDoc && typeof inspectorDoc === 'object' && '_id' in inspectorDoc
-    ? {
-        _id: inspectorDoc._id?.toString() || '',
-        firstName: (inspectorDoc as IUser).firstName || '',
-        lastName: (inspectorDoc as IUser).lastName || '',
-        email: (inspectorDoc as IUser).email || '',
-        phone: (inspectorDoc as IUser).phoneNumber || '',
-        photoUrl: (inspectorDoc as IUser).profileImageUrl || '',
-      }
-    : null;
+  const formattedInspector = formatUserSummary(inspectorDoc);
+
+  // Format the team (lead included) and who does each service; a null inspector means the lead
+  const teamDocs = (doc.inspectors || []) as Array<IUser | mongoose.Types.ObjectId>;
+  const formattedInspectors = teamDocs.map(formatUserSummary).filter(Boolean);
+  const inspectorIds = teamDocs.map((member: any) => (member?._id ?? member)?.toString()).filter(Boolean);
+  const pricedServiceNames = new Map<string, string>(
+    (doc.pricing?.services || []).map((line) => [String(line.serviceId), line.name || ''])
+  );
+  const formattedServiceAssignments = (doc.services || []).map((service) => {
+    const serviceId = service.serviceId?.toString() || '';
+    const assignment = (doc.serviceAssignments || []).find((entry) => String(entry.serviceId) === serviceId);
+    return {
+      serviceId,
+      serviceName: pricedServiceNames.get(serviceId) || '',
+      inspectorId: assignment ? String((assignment.inspector as any)?._id ?? assignment.inspector) : null,
+    };
+  });
 
   // Format discount code (could be populated or just an ID)
   const discountCodeDoc = doc.discountCode as IDiscountCode | mongoose.Types.ObjectId | undefined;
@@ -202,16 +301,22 @@ const formatInspection = (doc: IInspection | null) => {
   return {
     _id: doc._id?.toString(),
     id: doc._id?.toString(),
-    status: doc.status ?? "Pending",
+    status: normalizeInspectionStatus(doc.status),
     date: doc.date ? new Date(doc.date).toISOString() : null,
+    timeZone: doc.timeZone ?? null,
     companyId: doc.companyId ? doc.companyId.toString() : null,
     createdBy: doc.createdBy ? doc.createdBy.toString() : null,
     inspector: formattedInspector,
     inspectorId: inspectorDoc ? (typeof inspectorDoc === 'object' && '_id' in inspectorDoc ? inspectorDoc._id?.toString() : (inspectorDoc as mongoose.Types.ObjectId).toString()) : null,
+    inspectors: formattedInspectors,
+    inspectorIds,
+    serviceAssignments: formattedServiceAssignments,
     companyOwnerRequested: doc.companyOwnerRequested ?? false,
     services: doc.services ?? null,
     discountCode: formattedDiscountCode,
     discountCodeId: discountCodeDoc ? (typeof discountCodeDoc === 'object' && '_id' in discountCodeDoc ? discountCodeDoc._id?.toString() : (discountCodeDoc as mongoose.Types.ObjectId).toString()) : null,
+    pricing: doc.pricing ?? null,
+    inspectionTemplate: doc.inspectionTemplate ? doc.inspectionTemplate.toString() : null,
     location: doc.location ?? null,
     headerImage: doc.headerImage ?? null,
     headerText: doc.headerText ?? null,
@@ -267,11 +372,16 @@ export async function createInspection({
   companyId,
   status,
   date,
+  timeZone,
   createdBy,
   inspector,
+  inspectors,
+  serviceAssignments,
   companyOwnerRequested,
   services,
   discountCode,
+  pricing,
+  inspectionTemplate,
   location,
   requirePaymentToReleaseReports,
   paymentNotes,
@@ -291,18 +401,26 @@ export async function createInspection({
   await dbConnect();
 
   const inspectionData: any = {
-    status: status ?? "Pending",
+    // Without an explicit status the confirmation flag decides where the lifecycle starts
+    status: normalizeInspectionStatus(status ?? (confirmedInspection === false ? 'scheduled' : 'confirmed')),
     date: date ? new Date(date) : new Date(),
     companyId: new mongoose.Types.ObjectId(companyId),
   };
 
+  if (timeZone) {
+    inspectionData.timeZone = timeZone;
+  }
+
   if (createdBy && mongoose.Types.ObjectId.isValid(createdBy)) {
     inspectionData.createdBy = new mongoose.Types.ObjectId(createdBy);
   }
 
-  if (inspector && mongoose.Types.ObjectId.isValid(inspector)) {
-    inspectionData.inspector = new mongoose.Types.ObjectId(inspector);
+  const team = normalizeInspectionTeam({ inspector, inspectors, serviceAssignments });
+  if (team.inspector) {
+    inspectionData.inspector = team.inspector;
   }
+  inspectionData.inspectors = team.inspectors;
+  inspectionData.serviceAssignments = team.serviceAssignments;
 
   if (companyOwnerRequested !== undefined) {
     inspectionData.companyOwnerRequested = companyOwnerRequested;
@@ -319,6 +437,14 @@ export async function createInspection({
     inspectionData.discountCode = new mongoose.Types.ObjectId(discountCode);
   }
 
+  if (pricing) {
+    inspectionData.pricing = pricing;
+  }
+
+  if (inspectionTemplate && mongoose.Types.ObjectId.isValid(inspectionTemplate)) {
+    inspectionData.inspectionTemplate = new mongoose.Types.ObjectId(inspectionTemplate);
+  }
+
   if (location) {
     inspectionData.location = {};
     if (location.address) inspectionData.location.address = String(location.address).trim();
@@ -373,6 +499,13 @@ export async function createInspection({
   }
 
   const inspection = await Inspection.create(inspectionData);
+  await recordInitialInspectionStatus(inspection, inspectionData.createdBy);
+  await createTasksForInspectionEvent(inspection._id as mongoose.Types.ObjectId, 'inspection_created', inspectionData.createdBy);
+  // Booked straight into a status such as confirmed also counts as reaching it
+  const statusTrigger = STATUS_TASK_TRIGGERS[normalizeInspectionStatus(inspection.status)];
+  if (statusTrigger) {
+    await createTasksForInspectionEvent(inspection._id as mongoose.Types.ObjectId, statusTrigger, inspectionData.createdBy);
+  }
   return formatInspection(inspection);
 }
 
@@ -382,6 +515,8 @@ export async function getAllInspections(
   options?: {
     filter?: 'all' | 'today' | 'tomorrow' | 'pending' | 'in-progress' | 'trash';
     search?: string;
+    // Only inspections this user leads, works on, or has an event for
+    inspector?: string;
   }
 ) {
   if (!companyId) {
@@ -437,11 +572,23 @@ export async function getAllInspections(
     }
   }
 
+  if (options?.inspector && mongoose.Types.ObjectId.isValid(options.inspector)) {
+    const inspectorId = new mongoose.Types.ObjectId(options.inspector);
+    const eventInspectionIds = await Event.distinct('inspectionId', { inspector: inspectorId });
+    queryConditions.push({
+      $or: [
+        { inspector: inspectorId },
+        { inspectors: inspectorId },
+        { _id: { $in: eventInspectionIds } },
+      ],
+    });
+  }
+
   // Handle status filters
   if (filter === 'pending') {
-    queryConditions.push({ status: 'Pending' });
+    queryConditions.push({ status: { $in: [...getStoredStatusValues('unconfirmed'), ...getStoredStatusValues('scheduled')] } });
   } else if (filter === 'in-progress') {
-    queryConditions.push({ status: 'In-Progress' });
+    queryConditions.push({ status: { $in: getStoredStatusValues('in_progress') } });
   }
 
   // Combine all conditions with $and
@@ -452,6 +599,8 @@ export async function getAllInspections(
     .populate('agents', 'firstName lastName')
     .populate('clients', 'firstName lastName companyName isCompany')
     .populate('listingAgent', 'firstName lastName')
+    .populate('inspector', 'firstName lastName')
+    .populate('inspectors', 'firstName lastName')
     .sort({ updatedAt: -1 })
     .lean();
 
@@ -537,6 +686,7 @@ export async function getInspection(inspectionId: string) {
 
   const inspection = await Inspection.findById(inspectionId)
     .populate('inspector', 'firstName lastName email phoneNumber profileImageUrl')
+    .populate('inspectors', 'firstName lastName email phoneNumber profileImageUrl')
     .populate('clients', 'firstName lastName companyName email phone isCompany')
     .populate('agents', 'firstName lastName email phone photoUrl')
     .populate('listingAgent', 'firstName lastName email phone photoUrl')
@@ -561,7 +711,9 @@ export async function deleteInspection(inspectionId: string) {
       _id: new mongoose.Types.ObjectId(inspectionId)
     },
     {
-      $set: { deletedAt: new Date() }
+      $set: { deletedAt: new Date() },
+      // Calendar feeds and invites turn this into a cancellation
+      $inc: { calendarSequence: 1 },
     }
   );
 
@@ -571,9 +723,30 @@ export async function deleteInspection(inspectionId: string) {
   };
 }
 
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Whether an update moves the appointment (time, inspector or address), which calendar invites
+ * and feeds have to pick up
+ */
+async function changesAppointment(inspectionId: string, updateData: Record<string, any>) {
+  if (!['date', 'inspector', 'location'].some((key) => key in updateData)) {
+    return false;
+  }
+
+  const current = await Inspection.findById(inspectionId).select('date inspector location').lean();
+  if (!current) return false;
+
+  return (
+    ('date' in updateData && new Date(updateData.date).getTime() !== (current.date ? new Date(current.date).getTime() : NaN)) ||
+    ('inspector' in updateData && String(updateData.inspector ?? '') !== String(current.inspector ?? '')) ||
+    ('location' in updateData && !sameValue({ ...current.location }, { ...current.location, ...updateData.location }))
+  );
+}
+
 // 5. Update inspection - can update any inspection field including headerImage and headerText
+// Status changes go through changeInspectionStatus so the lifecycle rules and history apply
 export async function updateInspection(inspectionId: string, data: Partial<{
-  status: string;
   date: string | Date;
   headerImage: string;
   headerText: string; // legacy single-line header
@@ -584,12 +757,15 @@ export async function updateInspection(inspectionId: string, data: Partial<{
   pdfReportGeneratedAt: Date; // timestamp when PDF was generated
   htmlReportGeneratedAt: Date; // timestamp when HTML was generated
   hidePricing: boolean; // hide cost estimates in all report formats
-  inspector: string; // inspector ID
+  inspector: string | null; // lead inspector ID
+  inspectors: string[]; // everyone working the inspection
+  serviceAssignments: ServiceAssignmentInput[]; // services done by someone other than the lead
   clients: string[]; // array of client IDs
   agents: string[]; // array of agent IDs
   listingAgent: string[]; // array of listing agent IDs
   referralSource: string; // referral source
   discountCode: string; // discount code ID
+  inspectionTemplate: string | null; // inspection template ID, null to fall back to the services/company default
   customData: Record<string, any>; // custom field data
   internalNotes: string; // internal notes
   closingDate: { date?: string | Date; lastModifiedBy?: string; lastModifiedAt?: Date }; // closing date with metadata
@@ -604,13 +780,15 @@ export async function updateInspection(inspectionId: string, data: Partial<{
   // Filter out undefined values to only update fields that are provided
   const updateData = Object.entries(data).reduce((acc, [key, value]) => {
     if (value !== undefined) {
-      // Convert IDs to ObjectId for reference fields
-      if (key === 'inspector' && value && mongoose.Types.ObjectId.isValid(value as string)) {
-        acc[key] = new mongoose.Types.ObjectId(value as string);
+      // Convert IDs to ObjectId for reference fields; the team is merged below and the status is never set here
+      if ((TEAM_FIELDS as readonly string[]).includes(key) || key === 'status') {
+        return acc;
       } else if (key === 'discountCode' && value && mongoose.Types.ObjectId.isValid(value as string)) {
         acc[key] = new mongoose.Types.ObjectId(value as string);
+      } else if (key === 'inspectionTemplate') {
+        acc[key] = value && mongoose.Types.ObjectId.isValid(value as string) ? new mongoose.Types.ObjectId(value as string) : null;
       } else if ((key === 'clients' || key === 'agents' || key === 'listingAgent') && Array.isArray(value)) {
-        acc[key] = value.map((id: string) => 
+        acc[key] = (value as string[]).map((id: string) => 
           mongoose.Types.ObjectId.isValid(id) ? new mongoose.Types.ObjectId(id) : id
         );
       } else if (key === 'closingDate' || key === 'endOfInspectionPeriod') {
@@ -634,13 +812,21 @@ export async function updateInspection(inspectionId: string, data: Partial<{
     return acc;
   }, {} as Record<string, any>);
 
+  if (TEAM_FIELDS.some((key) => data[key] !== undefined)) {
+    const teamChanges = Object.fromEntries(TEAM_FIELDS.filter((key) => data[key] !== undefined).map((key) => [key, data[key]]));
+    Object.assign(updateData, await mergeInspectionTeam(inspectionId, teamChanges));
+  }
+
   if (Object.keys(updateData).length === 0) {
     return { matchedCount: 0, modifiedCount: 0 };
   }
 
   const result = await Inspection.updateOne(
     { _id: new mongoose.Types.ObjectId(inspectionId) },
-    { $set: updateData }
+    {
+      $set: updateData,
+      ...((await changesAppointment(inspectionId, updateData)) ? { $inc: { calendarSequence: 1 } } : {}),
+    }
   );
 
   return {
@@ -0,0 +1,367 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+
+import Company from '@/src/models/Company';
+import Inspection, { IInspectionPricing } from '@/src/models/Inspection';
+import Invoice, { IInvoice, IInvoiceLineItem, IInvoicePayment } from '@/src/models/Invoice';
+import { INVOICE_CURRENCY, InvoiceStatus, PaymentMethod } from '@/constants/payments';
+import { getPaymentProvider } from './payments';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+const APP_URL = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const formatCurrency = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+export interface RecordPaymentInput {
+  type: 'payment' | 'refund';
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  notes?: string;
+  recordedBy?: ObjectIdLike;
+  provider?: string;
+  providerPaymentId?: string;
+  refundOf?: ObjectIdLike;
+}
+
+export interface InvoicePaymentSummary {
+  amountPaid: number;
+  amountRefunded: number;
+  balance: number;
+  status: InvoiceStatus;
+}
+
+export const getPaymentLink = (paymentToken: string) => `${APP_URL}/pay/${paymentToken}`;
+
+/**
+ * Invoice lines for the inspection's stored quote: each service and add-on at its fee, the discount
+ * as a negative line and the combined taxes
+ */
+export function buildInvoiceLineItems(pricing?: IInspectionPricing | null): IInvoiceLineItem[] {
+  if (!pricing) return [];
+
+  const lines: IInvoiceLineItem[] = [];
+  for (const service of pricing.services || []) {
+    lines.push({ kind: 'service', description: service.name, amount: service.fee, serviceId: service.serviceId });
+    for (const addOn of service.addOns || []) {
+      lines.push({ kind: 'add_on', description: `${service.name}: ${addOn.name}`, amount: addOn.fee, serviceId: service.serviceId });
+    }
+  }
+
+  if (pricing.discountTotal > 0) {
+    lines.push({
+      kind: 'discount',
+      description: pricing.discountCode?.code ? `Discount (${pricing.discountCode.code})` : 'Discount',
+      amount: -pricing.discountTotal,
+    });
+  }
+
+  for (const tax of pricing.taxes || []) {
+    lines.push({ kind: 'tax', description: `${tax.name} (${tax.percent}%)`, amount: tax.amount });
+  }
+
+  return lines;
+}
+
+/**
+ * Paid, refunded and outstanding amounts for an invoice total and its recorded payments
+ */
+export function summarizeInvoicePayments(total: number, payments: Array<Pick<IInvoicePayment, 'type' | 'amount'>>): InvoicePaymentSummary {
+  const amountPaid = roundCurrency(payments.filter((p) => p.type === 'payment').reduce((sum, p) => sum + p.amount, 0));
+  const amountRefunded = roundCurrency(payments.filter((p) => p.type === 'refund').reduce((sum, p) => sum + p.amount, 0));
+  const net = roundCurrency(amountPaid - amountRefunded);
+  const balance = Math.max(0, roundCurrency(total - net));
+
+  let status: InvoiceStatus;
+  if (total > 0 && net <= 0) {
+    status = amountRefunded > 0 ? 'refunded' : 'unpaid';
+  } else {
+    status = balance > 0 ? 'partially_paid' : 'paid';
+  }
+
+  return { amountPaid, amountRefunded, balance, status };
+}
+
+function applyPaymentSummary(invoice: IInvoice) {
+  const summary = summarizeInvoicePayments(invoice.total, invoice.payments);
+  const wasPaid = invoice.status === 'paid';
+  Object.assign(invoice, summary);
+  if (summary.status === 'paid' && !wasPaid) {
+    invoice.paidAt = new Date();
+  } else if (summary.status !== 'paid') {
+    invoice.paidAt = undefined;
+  }
+}
+
+/**
+ * Create or refresh the inspection's invoice from its current quote. Recorded payments are kept and
+ * the balance is recalculated against the new total. Errors are logged and null returned.
+ */
+export async function syncInspectionInvoice(inspectionId: ObjectIdLike): Promise<IInvoice | null> {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(inspectionId)) {
+      return null;
+    }
+
+    const inspection = await Inspection.findById(inspectionId).select('companyId pricing orderId').lean();
+    if (!inspection) return null;
+
+    const invoice = (await Invoice.findOne({ inspection: inspection._id })) ?? new Invoice({
+      company: inspection.companyId,
+      inspection: inspection._id,
+      number: inspection.orderId ? `INV-${inspection.orderId}` : `INV-${String(inspection._id).slice(-8).toUpperCase()}`,
+      paymentToken: crypto.randomBytes(24).toString('hex'),
+    });
+
+    const pricing = inspection.pricing;
+    invoice.lineItems = buildInvoiceLineItems(pricing);
+    invoice.subtotal = pricing?.subtotal ?? 0;
+    invoice.discountTotal = pricing?.discountTotal ?? 0;
+    invoice.taxTotal = pricing?.taxTotal ?? 0;
+    invoice.total = pricing?.total ?? 0;
+    applyPaymentSummary(invoice);
+
+    try {
+      await invoice.save();
+    } catch (error: any) {
+      // Another request created the invoice first
+      if (error?.code === 11000 && invoice.isNew) {
+        return Invoice.findOne({ inspection: inspection._id });
+      }
+      throw error;
+    }
+
+    return invoice;
+  } catch (error) {
+    console.error('Error syncing inspection invoice:', error);
+    return null;
+  }
+}
+
+/**
+ * Amount still owed on the inspection. Inspections without an invoice yet owe their quoted total.
+ */
+export async function getInspectionBalanceDue(inspectionId: ObjectIdLike): Promise<number> {
+  const invoice = await Invoice.findOne({ inspection: inspectionId }).select('balance').lean();
+  if (invoice) {
+    return invoice.balance;
+  }
+
+  const inspection = await Inspection.findById(inspectionId).select('pricing.total').lean();
+  return inspection?.pricing?.total ?? 0;
+}
+
+/**
+ * The [PAY_LINK] and [PAID] merge fields for the inspection's invoice, if it has one
+ */
+export async function getInvoiceMergeFieldOptions(inspectionId: ObjectIdLike): Promise<{ payLink?: string; paid?: boolean }> {
+  const invoice = await Invoice.findOne({ inspection: inspectionId }).select('paymentToken status').lean();
+  return invoice ? { payLink: getPaymentLink(invoice.paymentToken), paid: invoice.status === 'paid' } : {};
+}
+
+/**
+ * Record a payment or refund against an invoice. Refunds of online payments are sent back through
+ * the payment provider first.
+ */
+export async function recordInvoicePayment(
+  invoice: IInvoice,
+  input: RecordPaymentInput
+): Promise<{ invoice?: IInvoice; payment?: IInvoicePayment; error?: string }> {
+  const amount = roundCurrency(Number(input.amount));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: 'Amount must be greater than zero' };
+  }
+
+  let { method, provider, providerPaymentId } = input;
+
+  if (input.type === 'payment') {
+    if (amount > invoice.balance) {
+      return { error: `Payment exceeds the balance due of ${formatCurrency(invoice.balance)}` };
+    }
+  } else {
+    const refundable = roundCurrency(invoice.amountPaid - invoice.amountRefunded);
+    if (amount > refundable) {
+      return { error: `Refund exceeds the ${formatCurrency(refundable)} paid` };
+    }
+
+    if (input.refundOf) {
+      const original = invoice.payments.find(
+        (payment) => payment.type === 'payment' && payment._id.toString() === input.refundOf!.toString()
+      );
+      if (!original) {
+        return { error: 'Payment to refund not found' };
+      }
+
+      const alreadyRefunded = invoice.payments
+        .filter((payment) => payment.type === 'refund' && payment.refundOf?.toString() === original._id.toString())
+        .reduce((sum, payment) => sum + payment.amount, 0);
+      if (amount > roundCurrency(original.amount - alreadyRefunded)) {
+        return { error: `Refund exceeds the ${formatCurrency(roundCurrency(original.amount - alreadyRefunded))} left on that payment` };
+      }
+
+      if (original.method === 'online' && original.providerPaymentId) {
+        try {
+          const paymentProvider = getPaymentProvider();
+          const refund = await paymentProvider.refund(original.providerPaymentId, amount);
+          method = 'online';
+          provider = paymentProvider.name;
+          providerPaymentId = refund.id;
+        } catch (error: any) {
+          return { error: error.message || 'The payment provider rejected the refund' };
+        }
+      }
+    }
+  }
+
+  invoice.payments.push({
+    type: input.type,
+    method,
+    amount,
+    reference: input.reference?.trim() || undefined,
+    notes: input.notes?.trim() || undefined,
+    provider,
+    providerPaymentId,
+    refundOf: input.refundOf ? new mongoose.Types.ObjectId(input.refundOf.toString()) : undefined,
+    recordedBy: input.recordedBy ? new mongoose.Types.ObjectId(input.recordedBy.toString()) : undefined,
+    receivedAt: new Date(),
+  } as IInvoicePayment);
+  applyPaymentSummary(invoice);
+  await invoice.save();
+
+  return { invoice, payment: invoice.payments[invoice.payments.length - 1] };
+}
+
+/**
+ * What the client's payment page shows
+ */
+export async function getPublicInvoice(paymentToken: string) {
+  if (!paymentToken || !/^[a-f0-9]{48}$/.test(paymentToken)) {
+    return null;
+  }
+
+  const invoice = await Invoice.findOne({ paymentToken }).lean();
+  if (!invoice) return null;
+
+  const [company, inspection] = await Promise.all([
+    Company.findById(invoice.company).select('name').lean(),
+    Inspection.findById(invoice.inspection).select('location date deletedAt').lean(),
+  ]);
+  if (!inspection || inspection.deletedAt) return null;
+
+  const location = inspection.location || {};
+  return {
+    number: invoice.number,
+    companyName: company?.name || '',
+    address: [location.address, location.unit, location.city, [location.state, location.zip].filter(Boolean).join(' ')]
+      .filter(Boolean)
+      .join(', '),
+    inspectionDate: inspection.date,
+    lineItems: invoice.lineItems,
+    subtotal: invoice.subtotal,
+    discountTotal: invoice.discountTotal,
+    taxTotal: invoice.taxTotal,
+    total: invoice.total,
+    amountPaid: invoice.amountPaid,
+    amountRefunded: invoice.amountRefunded,
+    balance: invoice.balance,
+    status: invoice.status,
+    payments: invoice.payments.map((payment) => ({
+      type: payment.type,
+      method: payment.method,
+      amount: payment.amount,
+      receivedAt: payment.receivedAt,
+    })),
+  };
+}
+
+export type PublicInvoice = NonNullable<Awaited<ReturnType<typeof getPublicInvoice>>>;
+
+/**
+ * Start an online card payment for the invoice's balance and return where to send the client
+ */
+export async function createInvoiceCheckout(paymentToken: string): Promise<{ url?: string; error?: string }> {
+  const invoice = await Invoice.findOne({ paymentToken });
+  if (!invoice) {
+    return { error: 'Invoice not found' };
+  }
+  if (invoice.balance <= 0) {
+    return { error: 'This invoice has already been paid' };
+  }
+
+  const provider = getPaymentProvider();
+  const paymentLink = getPaymentLink(paymentToken);
+  const session = await provider.createCheckout({
+    amount: invoice.balance,
+    currency: INVOICE_CURRENCY,
+    description: `Invoice ${invoice.number}`,
+    reference: String(invoice._id),
+    successUrl: `${paymentLink}?session_id={CHECKOUT_SESSION_ID}`,
+    cancelUrl: paymentLink,
+  });
+
+  invoice.checkoutSessions.push({ provider: provider.name, sessionId: session.id, amount: invoice.balance, createdAt: new Date() });
+  await invoice.save();
+
+  return { url: session.url };
+}
+
+/**
+ * Record the payment for a checkout the client finished. Safe to call more than once per session.
+ */
+export async function completeInvoiceCheckout(
+  paymentToken: string,
+  sessionId: string
+): Promise<{ invoice?: IInvoice; paid?: boolean; error?: string }> {
+  const invoice = await Invoice.findOne({ paymentToken });
+  if (!invoice) {
+    return { error: 'Invoice not found' };
+  }
+
+  const session = invoice.checkoutSessions.find((entry) => entry.sessionId === sessionId);
+  if (!session) {
+    return { error: 'Checkout session not found' };
+  }
+
+  if (invoice.payments.some((payment) => payment.reference === sessionId)) {
+    return { invoice, paid: true };
+  }
+
+  const provider = getPaymentProvider();
+  const checkout = await provider.getCheckout(sessionId);
+  if (checkout.status !== 'paid') {
+    return { invoice, paid: false };
+  }
+
+  // Online payments are recorded as received even if the total changed since checkout started.
+  // The filter keeps a session from being recorded twice when the return page is reloaded.
+  const pushed = await Invoice.updateOne(
+    { _id: invoice._id, 'payments.reference': { $ne: sessionId } },
+    {
+      $push: {
+        payments: {
+          type: 'payment',
+          method: 'online',
+          amount: roundCurrency(checkout.amount),
+          reference: sessionId,
+          provider: provider.name,
+          providerPaymentId: checkout.paymentId,
+          receivedAt: new Date(),
+        },
+      },
+    }
+  );
+
+  const updated = await Invoice.findById(invoice._id);
+  if (!updated) {
+    return { error: 'Invoice not found' };
+  }
+  if (pushed.modifiedCount > 0) {
+    applyPaymentSummary(updated);
+    await updated.save();
+  }
+
+  return { invoice: updated, paid: true };
+}
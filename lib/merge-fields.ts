@@ -0,0 +1,234 @@
+import mongoose from 'mongoose';
+
+import Inspection from '@/src/models/Inspection';
+import { resolveTimeZone } from '@/src/lib/time-zones';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export type MergeFieldValues = Record<string, string>;
+
+export interface InspectionMergeFieldOptions {
+  // Link to the client's agreement signing page
+  signLink?: string;
+  // Link to the client's invoice payment page, and whether that invoice is paid
+  payLink?: string;
+  paid?: boolean;
+  // Link that downloads the appointment as an .ics file
+  calendarLink?: string;
+  // The client the CLIENT_* fields describe; defaults to the inspection's first client
+  client?: MergeContact;
+}
+
+export interface MergeContact {
+  firstName?: string;
+  lastName?: string;
+  companyName?: string;
+  isCompany?: boolean;
+  email?: string;
+  phone?: string;
+  mobilePhone?: string;
+  phoneNumber?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  credentials?: string;
+}
+
+const APP_URL = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+
+const fullName = (person?: MergeContact | null) => {
+  if (!person) return '';
+  if (person.isCompany && person.companyName) return person.companyName;
+  return [person.firstName, person.lastName].filter(Boolean).join(' ');
+};
+
+const phoneOf = (person?: MergeContact | null) => person?.phone || person?.mobilePhone || person?.phoneNumber || '';
+
+const contactInfo = (person?: MergeContact | null) => [person?.email, phoneOf(person)].filter(Boolean).join(' ');
+
+const joinAddress = (...parts: Array<string | undefined>) => parts.filter(Boolean).join(', ');
+
+const formatCurrency = (value?: number) =>
+  typeof value === 'number'
+    ? value.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+    : '';
+
+const formatDate = (date: Date | null | undefined, timeZone: string) =>
+  date ? date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', timeZone }) : '';
+
+const formatTime = (date: Date | null | undefined, timeZone: string) =>
+  date ? date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone }) : '';
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Load an inspection with everything the merge fields and notification recipients need
+ */
+export async function loadInspectionForMerge(inspectionId: ObjectIdLike) {
+  if (!mongoose.Types.ObjectId.isValid(inspectionId)) {
+    return null;
+  }
+
+  return Inspection.findById(inspectionId)
+    .populate('clients', 'firstName lastName companyName isCompany email ccEmail phone mobilePhone')
+    .populate('agents', 'firstName lastName email ccEmail phone address city state zip')
+    .populate('listingAgent', 'firstName lastName email ccEmail phone address city state zip')
+    .populate('inspector', 'firstName lastName email phoneNumber credentials smsOptIn')
+    .populate('inspectors', 'firstName lastName email phoneNumber credentials')
+    .populate('companyId', 'name phone email website address city state zip timeZone')
+    .lean<any>();
+}
+
+export type MergeInspection = NonNullable<Awaited<ReturnType<typeof loadInspectionForMerge>>>;
+
+/**
+ * Everyone working the inspection, lead first. Inspections from before teams only have the lead.
+ */
+export function getInspectionTeam(inspection: MergeInspection): Array<MergeContact & { _id: unknown }> {
+  const lead = inspection.inspector && typeof inspection.inspector === 'object' ? inspection.inspector : null;
+  const members = (inspection.inspectors || []).filter(
+    (member: any) => member && typeof member === 'object' && String(member._id) !== String(lead?._id)
+  );
+  return lead ? [lead, ...members] : members;
+}
+
+/**
+ * Values for the [TOKEN] placeholders shared by agreements, email and SMS templates
+ */
+export function getInspectionMergeFields(
+  inspection: MergeInspection,
+  options: InspectionMergeFieldOptions = {}
+): MergeFieldValues {
+  const location = inspection.location || {};
+  const company = inspection.companyId && typeof inspection.companyId === 'object' ? inspection.companyId : {};
+  const client: MergeContact | undefined = options.client ?? inspection.clients?.[0];
+  const agent: MergeContact | undefined = inspection.agents?.[0];
+  const listingAgent: MergeContact | undefined = inspection.listingAgent?.[0];
+  const inspector: MergeContact | undefined = inspection.inspector && typeof inspection.inspector === 'object'
+    ? inspection.inspector
+    : undefined;
+  const team = getInspectionTeam(inspection);
+
+  // Dates read the same in every email, wherever the server runs
+  const timeZone = resolveTimeZone(inspection.timeZone, company.timeZone);
+  const date = inspection.date ? new Date(inspection.date) : null;
+  const durationHours = inspection.pricing?.totalDurationHours || 0;
+  const endDate = date && durationHours > 0 ? new Date(date.getTime() + durationHours * 60 * 60 * 1000) : null;
+  const pricedServices: Array<{ name?: string; total?: number }> = inspection.pricing?.services || [];
+  const reportLink = inspection.htmlReportUrl || inspection.pdfReportUrl || '';
+
+  return {
+    ADDRESS: joinAddress(location.address, location.unit, location.city, [location.state, location.zip].filter(Boolean).join(' ')),
+    STREET: [location.address, location.unit].filter(Boolean).join(' '),
+    CITY: location.city || '',
+    STATE: location.state || '',
+    ZIP: location.zip || '',
+    COUNTY: location.county || '',
+    YEAR_BUILT: location.yearBuild ? String(location.yearBuild) : '',
+    FOUNDATION: location.foundation || '',
+    SQUARE_FEET: location.squareFeet ? String(location.squareFeet) : '',
+
+    NOTES: inspection.internalNotes || '',
+    PRICE: formatCurrency(inspection.pricing?.total),
+    FEES: pricedServices.map((service) => `${service.name} ${formatCurrency(service.total)}`).join(', '),
+    SERVICES: pricedServices.map((service) => service.name).filter(Boolean).join(', '),
+    DESCRIPTION: pricedServices.map((service) => service.name).filter(Boolean).join(', '),
+    PUBLISHED: reportLink ? 'Yes' : 'No',
+    AGREED: inspection.clientAgreedToTerms ? 'Yes' : 'No',
+    PAID: options.paid ? 'Yes' : 'No',
+    ORDER_ID: inspection.orderId ? String(inspection.orderId) : '',
+    CURRENT_DATE: formatDate(new Date(), timeZone),
+    CURRENT_YEAR: String(new Date().getFullYear()),
+
+    CLIENT_NAME: fullName(client),
+    CLIENT_FIRST_NAME: client?.firstName || fullName(client),
+    CLIENT_CONTACT_INFO: contactInfo(client),
+    CLIENT_PHONE: phoneOf(client),
+    CLIENT_EMAIL: client?.email || '',
+
+    AGENT_NAME: fullName(agent),
+    AGENT_FIRST_NAME: agent?.firstName || '',
+    AGENT_CONTACT_INFO: contactInfo(agent),
+    AGENT_PHONE: phoneOf(agent),
+    AGENT_EMAIL: agent?.email || '',
+    AGENT_ADDRESS: agent?.address || '',
+    AGENT_FULL_ADDRESS: joinAddress(agent?.address, agent?.city, [agent?.state, agent?.zip].filter(Boolean).join(' ')),
+    AGENT_CITY: agent?.city || '',
+    AGENT_STATE: agent?.state || '',
+    AGENT_ZIP: agent?.zip || '',
+
+    SELLING_AGENT_NAME: fullName(listingAgent),
+    SELLING_AGENT_FIRST_NAME: listingAgent?.firstName || '',
+    SELLING_AGENT_CONTACT_INFO: contactInfo(listingAgent),
+    LISTING_AGENT_PHONE: phoneOf(listingAgent),
+    LISTING_AGENT_EMAIL: listingAgent?.email || '',
+    SELLING_AGENT_ADDRESS: listingAgent?.address || '',
+    SELLING_AGENT_FULL_ADDRESS: joinAddress(
+      listingAgent?.address,
+      listingAgent?.city,
+      [listingAgent?.state, listingAgent?.zip].filter(Boolean).join(' ')
+    ),
+    SELLING_AGENT_CITY: listingAgent?.city || '',
+    SELLING_AGENT_STATE: listingAgent?.state || '',
+    SELLING_AGENT_ZIP: listingAgent?.zip || '',
+
+    INSPECTION_DATE: formatDate(date, timeZone),
+    INSPECTION_TIME: formatTime(date, timeZone),
+    INSPECTION_END_TIME: formatTime(endDate, timeZone),
+    EDIT_LINK: `${APP_URL}/inspections/${inspection._id}/edit`,
+    SIGN_LINK: options.signLink || '',
+    PAY_LINK: options.payLink || '',
+    CALENDAR_LINK: options.calendarLink || '',
+    REPORT_LINK: reportLink,
+    REPORT_TEXT_LINK: reportLink,
+    REPORT_PUBLISHED_LINK: reportLink,
+    REPORT_PUBLISHED_TEXT_LINK: reportLink,
+
+    INSPECTOR_NAME: fullName(inspector),
+    INSPECTOR_FIRST_NAME: inspector?.firstName || '',
+    INSPECTORS: team.map(fullName).filter(Boolean).join(', '),
+    INSPECTORS_FIRST_NAMES: team.map((member) => member.firstName).filter(Boolean).join(', '),
+    INSPECTOR_PHONE: phoneOf(inspector),
+    INSPECTOR_EMAIL: inspector?.email || '',
+    INSPECTOR_CREDENTIALS: inspector?.credentials || '',
+    INSPECTOR_INITIALS: [inspector?.firstName, inspector?.lastName].map((name) => name?.[0] || '').join('').toUpperCase(),
+
+    INSPECTION_COMPANY: company.name || '',
+    INSPECTION_COMPANY_PHONE: company.phone || '',
+    COMPANY_ADDRESS: company.address || '',
+    COMPANY_CITY: company.city || '',
+    COMPANY_STATE: company.state || '',
+    COMPANY_ZIP: company.zip || '',
+    COMPANY_PHONE: company.phone || '',
+    COMPANY_WEBSITE: company.website || '',
+  };
+}
+
+/**
+ * Replace [TOKEN] placeholders with their values. Tokens without a value are left untouched.
+ * With html set, values are escaped and links become anchors.
+ */
+export function applyMergeFields(
+  template: string,
+  fields: MergeFieldValues,
+  options: { html?: boolean } = {}
+): string {
+  return template.replace(/\[([A-Z0-9_]+)\]/g, (token, key: string, offset: number) => {
+    if (!(key in fields)) return token;
+
+    const value = fields[key];
+    if (!options.html) return value;
+
+    const escaped = escapeHtml(value);
+    // Tokens inside an attribute such as href="[REPORT_LINK]" only get the escaped value
+    const insideAttribute = template[offset - 1] === '"';
+    return !insideAttribute && /^https?:\/\//.test(value) ? `<a href="${escaped}">${escaped}</a>` : escaped;
+  });
+}
@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+
+export interface CheckoutRequest {
+  amount: number;
+  currency: string;
+  description: string;
+  // Our invoice id, kept on the provider's record
+  reference: string;
+  customerEmail?: string;
+  // May contain {CHECKOUT_SESSION_ID}, replaced with the session id on return
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+}
+
+export interface CheckoutStatus {
+  status: 'open' | 'paid' | 'expired';
+  amount: number;
+  // Identifies the captured payment for refunds
+  paymentId?: string;
+}
+
+export interface RefundResult {
+  id?: string;
+}
+
+/**
+ * Anything that can take a card payment online. Providers throw when a request is rejected.
+ */
+export interface PaymentProvider {
+  name: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  getCheckout(sessionId: string): Promise<CheckoutStatus>;
+  refund(paymentId: string, amount: number): Promise<RefundResult>;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Hosted card payments through the Stripe Checkout REST API
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  name = 'stripe';
+
+  constructor(private secretKey: string) {}
+
+  private async request(path: string, init: { method?: string; body?: URLSearchParams } = {}) {
+    const response = await fetch(`https://api.stripe.com/v1/${path}`, {
+      method: init.method || 'GET',
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: init.body,
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error?.message || `Stripe request failed with status ${response.status}`);
+    }
+    return result;
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const body = new URLSearchParams({
+      mode: 'payment',
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+      client_reference_id: request.reference,
+      'metadata[invoiceId]': request.reference,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': request.currency,
+      'line_items[0][price_data][unit_amount]': String(toCents(request.amount)),
+      'line_items[0][price_data][product_data][name]': request.description,
+    });
+    if (request.customerEmail) {
+      body.set('customer_email', request.customerEmail);
+    }
+
+    const session = await this.request('checkout/sessions', { method: 'POST', body });
+    return { id: session.id, url: session.url };
+  }
+
+  async getCheckout(sessionId: string): Promise<CheckoutStatus> {
+    const session = await this.request(`checkout/sessions/${encodeURIComponent(sessionId)}`);
+    return {
+      status: session.payment_status === 'paid' ? 'paid' : session.status === 'expired' ? 'expired' : 'open',
+      amount: (session.amount_total || 0) / 100,
+      paymentId: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id,
+    };
+  }
+
+  async refund(paymentId: string, amount: number): Promise<RefundResult> {
+    const refund = await this.request('refunds', {
+      method: 'POST',
+      body: new URLSearchParams({ payment_intent: paymentId, amount: String(toCents(amount)) }),
+    });
+    return { id: refund.id };
+  }
+}
+
+/**
+ * Development provider: every checkout is approved straight away and sends the client back to the
+ * success URL. The amount travels in the session id, so nothing has to be stored.
+ */
+export class LocalPaymentProvider implements PaymentProvider {
+  name = 'local';
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const id = `local_cs_${toCents(request.amount)}_${crypto.randomBytes(8).toString('hex')}`;
+    return { id, url: request.successUrl.replace('{CHECKOUT_SESSION_ID}', id) };
+  }
+
+  async getCheckout(sessionId: string): Promise<CheckoutStatus> {
+    const match = sessionId.match(/^local_cs_(\d+)_[a-f0-9]+$/);
+    if (!match) {
+      throw new Error('Unknown checkout session');
+    }
+    return { status: 'paid', amount: Number(match[1]) / 100, paymentId: sessionId.replace('local_cs_', 'local_pi_') };
+  }
+
+  async refund(paymentId: string, amount: number): Promise<RefundResult> {
+    return { id: `local_re_${crypto.randomBytes(8).toString('hex')}` };
+  }
+}
+
+let providerOverride: PaymentProvider | null = null;
+
+/**
+ * Route checkouts and refunds through another provider, e.g. a fake in tests; null restores the
+ * configured one.
+ */
+export function setPaymentProvider(provider: PaymentProvider | null) {
+  providerOverride = provider;
+}
+
+/**
+ * Stripe when STRIPE_SECRET_KEY is set. The local provider approves every checkout without
+ * moving money, so it must be asked for with PAYMENT_PROVIDER=local and never runs in production;
+ * with nothing configured, online payments fail instead of marking invoices paid.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+
+  const { STRIPE_SECRET_KEY, PAYMENT_PROVIDER } = process.env;
+
+  if (PAYMENT_PROVIDER === 'local') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('PAYMENT_PROVIDER=local cannot be used in production');
+    }
+    return new LocalPaymentProvider();
+  }
+  if (PAYMENT_PROVIDER && PAYMENT_PROVIDER !== 'stripe') {
+    throw new Error(`Unknown PAYMENT_PROVIDER: ${PAYMENT_PROVIDER}`);
+  }
+  if (!STRIPE_SECRET_KEY) {
+    throw new Error('Online payments are not configured');
+  }
+  return new StripePaymentProvider(STRIPE_SECRET_KEY);
+}
@@ -1,3 +1,5 @@
+import type { AnnotationDocument } from './annotations';
+
 export type DefectItem = {
   section: string;
   subsection: string;
@@ -13,11 +15,13 @@ export type DefectItem = {
   display_number?: string; // Dynamic numbering like "3.1.2"
   additional_images?: Array<{ url: string; location: string }>; // Multiple location photos
   base_cost?: number; // Base cost (AI-calculated from first image)
+  originalImage?: string; // Unannotated photo; with annotations, reports re-render the image from it
+  annotations?: AnnotationDocument;
 };
 
 export type InformationBlockImage = {
   url: string;
-  annotations?: string;
+  annotations?: AnnotationDocument;
   checklist_id?: string;
   location?: string;
 };
@@ -0,0 +1,222 @@
+import { NextResponse } from 'next/server';
+import type { IUser } from '../src/models/User';
+
+export type Permission =
+  | 'can_schedule'
+  | 'can_schedule_self'
+  | 'can_publish'
+  | 'can_add_to_template'
+  | 'can_edit_template'
+  | 'can_manage_contacts'
+  | 'can_access_conversations'
+  | 'can_access_financial_data'
+  | 'can_edit_inspections'
+  | 'can_delete_inspections'
+  | 'is_company_admin';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface RoutePermissionRule {
+  // Route path using the same [param] segments as the app router folders
+  path: string;
+  methods: HttpMethod[] | '*';
+  // The user needs at least one of these permissions
+  anyOf: Permission[];
+}
+
+const MUTATING: HttpMethod[] = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  can_schedule: 'schedule inspections',
+  can_schedule_self: 'schedule their own inspections',
+  can_publish: 'publish reports',
+  can_add_to_template: 'add to the inspection template',
+  can_edit_template: 'edit the inspection template',
+  can_manage_contacts: 'manage contacts',
+  can_access_conversations: 'access conversations',
+  can_access_financial_data: 'access financial data',
+  can_edit_inspections: 'edit inspections',
+  can_delete_inspections: 'delete inspections',
+  is_company_admin: 'manage company settings',
+};
+
+/**
+ * Route → required permission policy. The first matching rule wins, so list specific paths before general ones.
+ * Routes that match no rule only require an authenticated user.
+ */
+export const ROUTE_PERMISSIONS: RoutePermissionRule[] = [
+  // Inspections
+  { path: '/api/inspections', methods: ['POST'], anyOf: ['can_schedule', 'can_schedule_self'] },
+  { path: '/api/inspections/holds', methods: MUTATING, anyOf: ['can_schedule', 'can_schedule_self'] },
+  { path: '/api/inspections/[inspectionId]', methods: ['PUT'], anyOf: ['can_edit_inspections'] },
+  { path: '/api/inspections/[inspectionId]', methods: ['PATCH', 'DELETE'], anyOf: ['can_delete_inspections'] },
+  { path: '/api/inspections/[inspectionId]/status', methods: ['POST'], anyOf: ['can_schedule', 'can_edit_inspections', 'can_publish'] },
+  { path: '/api/inspections/[inspectionId]/events', methods: MUTATING, anyOf: ['can_edit_inspections', 'can_schedule'] },
+  { path: '/api/inspections/[inspectionId]/events/[eventId]', methods: MUTATING, anyOf: ['can_edit_inspections', 'can_schedule'] },
+  { path: '/api/inspections/[inspectionId]/emails', methods: MUTATING, anyOf: ['can_edit_inspections', 'can_schedule'] },
+  { path: '/api/inspections/[inspectionId]/invoice', methods: '*', anyOf: ['can_access_financial_data'] },
+  { path: '/api/inspections/[inspectionId]/invoice/payments', methods: '*', anyOf: ['can_access_financial_data'] },
+  { path: '/api/audit-log/[entryId]/restore', methods: MUTATING, anyOf: ['can_edit_inspections'] },
+  { path: '/api/defects', methods: MUTATING, anyOf: ['can_edit_inspections'] },
+  { path: '/api/defects/[defectId]', methods: MUTATING, anyOf: ['can_edit_inspections'] },
+
+  // Services, pricing and discounts
+  { path: '/api/services', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/services/reorder', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/services/[serviceId]', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/services/[serviceId]/duplicate', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/modifiers', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/modifiers/[modifierId]', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/discount-codes', methods: '*', anyOf: ['can_access_financial_data'] },
+  { path: '/api/discount-codes/[discountCodeId]', methods: '*', anyOf: ['can_access_financial_data'] },
+
+  // Contacts
+  { path: '/api/agents', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/agents/[agentId]', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/agencies', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/agencies/[agencyId]', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/agent-teams', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/agent-teams/[agentTeamId]', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/clients', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/clients/[clientId]', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/people', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/people/[personId]', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/categories', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/categories/[categoryId]', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+  { path: '/api/categories/auto-categorize', methods: MUTATING, anyOf: ['can_manage_contacts'] },
+
+  // Inspection template
+  { path: '/api/inspection-templates', methods: MUTATING, anyOf: ['can_edit_template'] },
+  { path: '/api/inspection-templates/[templateId]', methods: MUTATING, anyOf: ['can_edit_template'] },
+  { path: '/api/inspection-templates/[templateId]/import', methods: MUTATING, anyOf: ['can_edit_template'] },
+  { path: '/api/information-sections/sections', methods: MUTATING, anyOf: ['can_edit_template'] },
+  { path: '/api/information-sections/sections/reorder', methods: MUTATING, anyOf: ['can_edit_template'] },
+  // After the sections paths, which the [inspectionId] pattern would also match
+  { path: '/api/information-sections/[inspectionId]', methods: MUTATING, anyOf: ['can_edit_inspections'] },
+  { path: '/api/checklists', methods: ['POST'], anyOf: ['can_add_to_template', 'can_edit_template'] },
+  { path: '/api/checklists/[checklistId]', methods: MUTATING, anyOf: ['can_edit_template'] },
+
+  // Reports
+  { path: '/api/reports/generate', methods: MUTATING, anyOf: ['can_publish'] },
+  { path: '/api/reports/upload-html', methods: MUTATING, anyOf: ['can_publish'] },
+
+  // Company settings
+  { path: '/api/agreements', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/agreements/settings', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/agreements/[agreementId]', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/availability/time-zone', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/scheduling-options', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/scheduling-options/custom-fields', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/scheduling-options/custom-fields/reorder', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/online-scheduler', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/email-templates/[event]', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/social-links', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/sample-reports', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/sample-reports/reorder', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/sample-reports/[id]', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/reusable-dropdowns', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/task-templates', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/task-templates/[templateId]', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/team', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/team/[userId]', methods: MUTATING, anyOf: ['is_company_admin'] },
+  { path: '/api/admin/revoke-access', methods: '*', anyOf: ['is_company_admin'] },
+];
+
+/**
+ * Fields removed from API responses for users without can_access_financial_data
+ */
+export const FINANCIAL_FIELDS = ['pricing', 'paymentNotes', 'baseCost', 'addFee', 'taxes'];
+
+const compiledRules = ROUTE_PERMISSIONS.map((rule) => ({
+  ...rule,
+  pattern: new RegExp(`^${rule.path.replace(/\[[^\]]+\]/g, '[^/]+')}/?$`),
+}));
+
+/**
+ * Thrown by getCurrentUser when the authenticated user lacks the permission a route requires
+ */
+export class PermissionDeniedError extends Error {
+  readonly status = 403;
+  readonly permissions: Permission[];
+
+  constructor(permissions: Permission[]) {
+    super(`You do not have permission to ${permissions.map((permission) => PERMISSION_LABELS[permission]).join(' or ')}`);
+    this.name = 'PermissionDeniedError';
+    this.permissions = permissions;
+  }
+}
+
+type PermissionHolder = Partial<Pick<IUser, Permission>> | null | undefined;
+
+/**
+ * Company admins implicitly hold every permission
+ */
+export function hasPermission(user: PermissionHolder, permission: Permission): boolean {
+  if (!user) return false;
+  return Boolean(user.is_company_admin || user[permission]);
+}
+
+export function getRequiredPermissions(pathname: string, method: string): Permission[] | null {
+  const upperMethod = method.toUpperCase() as HttpMethod;
+  const rule = compiledRules.find(
+    (entry) => entry.pattern.test(pathname) && (entry.methods === '*' || entry.methods.includes(upperMethod))
+  );
+  return rule ? rule.anyOf : null;
+}
+
+/**
+ * Throws PermissionDeniedError when the route policy requires a permission the user does not have
+ */
+export function assertRoutePermission(user: PermissionHolder, pathname: string, method: string): void {
+  const required = getRequiredPermissions(pathname, method);
+  if (required && !required.some((permission) => hasPermission(user, permission))) {
+    throw new PermissionDeniedError(required);
+  }
+}
+
+/**
+ * Consistent 403 body: { error, code: 'FORBIDDEN', requiredPermissions }
+ */
+export function forbiddenResponse(permissions: Permission[], message?: string) {
+  return NextResponse.json(
+    {
+      error: message || new PermissionDeniedError(permissions).message,
+      code: 'FORBIDDEN',
+      requiredPermissions: permissions,
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * Turn a PermissionDeniedError caught in a route handler into the standard 403 response
+ */
+export function permissionErrorResponse(error: unknown) {
+  return error instanceof PermissionDeniedError ? forbiddenResponse(error.permissions) : null;
+}
+
+/**
+ * Recursively remove financial fields from a response payload unless the user may see them
+ */
+export function stripFinancialFields<T>(data: T, user: PermissionHolder): T {
+  if (hasPermission(user, 'can_access_financial_data')) {
+    return data;
+  }
+
+  const strip = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(strip);
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date) && value.constructor === Object) {
+      return Object.keys(value).reduce((acc, key) => {
+        if (!FINANCIAL_FIELDS.includes(key)) {
+          acc[key] = strip(value[key]);
+        }
+        return acc;
+      }, {} as Record<string, any>);
+    }
+    return value;
+  };
+
+  return strip(data);
+}
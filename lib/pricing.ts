@@ -0,0 +1,421 @@
+import mongoose from 'mongoose';
+import Service, { IServiceAddOn, IServiceModifier, IServiceTax } from '@/src/models/Service';
+import Inspection, {
+  IInspectionPricing,
+  IInspectionPricingAddOn,
+  IInspectionPricingModifier,
+  IInspectionPricingService,
+  IInspectionPricingTax,
+} from '@/src/models/Inspection';
+import { MODIFIER_FIELDS } from '@/constants/modifierOptions';
+import { DiscountCodeLean } from '@/lib/discount-code-utils';
+
+export interface QuoteServiceInput {
+  serviceId: string;
+  addOns?: Array<{ name: string }>;
+}
+
+export interface QuoteLocationInput {
+  zip?: string;
+  county?: string;
+  squareFeet?: number;
+  yearBuild?: number;
+  foundation?: string;
+}
+
+export interface QuoteInput {
+  companyId: mongoose.Types.ObjectId | string;
+  services: QuoteServiceInput[];
+  location?: QuoteLocationInput;
+  customData?: Record<string, any>;
+  discountCode?: DiscountCodeLean | null;
+}
+
+export type QuoteModifierLine = IInspectionPricingModifier;
+export type QuoteAddOnLine = IInspectionPricingAddOn;
+export type QuoteTaxLine = IInspectionPricingTax;
+export type QuoteServiceLine = IInspectionPricingService;
+export type InspectionQuote = IInspectionPricing;
+
+type ServiceForQuote = {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  baseCost?: number;
+  baseDurationHours?: number;
+  modifiers?: IServiceModifier[];
+  addOns?: IServiceAddOn[];
+  taxes?: IServiceTax[];
+};
+
+const SQ_FT_TO_SQM = 0.092903;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+const fieldLabels = new Map<string, string>(MODIFIER_FIELDS.map((field) => [field.key, field.label]));
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isNaN(num) ? undefined : num;
+};
+
+/**
+ * Resolve the value a modifier field compares against.
+ * Built-in fields come from the inspection location; anything else (vacant_occupied, utilities_on,
+ * company-defined modifier fields, distances) is read from customData by modifier key.
+ */
+function getModifierFieldValue(
+  field: string,
+  location: QuoteLocationInput | undefined,
+  customData: Record<string, any> | undefined
+): string | number | undefined {
+  const squareFeet = toNumber(location?.squareFeet);
+  const yearBuilt = toNumber(location?.yearBuild);
+
+  switch (field) {
+    case 'sq_ft':
+      return squareFeet;
+    case 'sqm':
+      return squareFeet !== undefined ? squareFeet * SQ_FT_TO_SQM : toNumber(customData?.sqm);
+    case 'year_built':
+      return yearBuilt;
+    case 'age_of_home':
+      return yearBuilt !== undefined ? new Date().getFullYear() - yearBuilt : undefined;
+    case 'zip_postal_code':
+      return location?.zip;
+    case 'county':
+      return location?.county;
+    case 'foundation':
+      return location?.foundation;
+    default: {
+      const raw = customData?.[field];
+      if (raw === undefined || raw === null || raw === '') return undefined;
+      return typeof raw === 'boolean' ? (raw ? 'Yes' : 'No') : raw;
+    }
+  }
+}
+
+/**
+ * Apply a single modifier. Returns null when the modifier does not match.
+ * - equals: case-insensitive match, flat fee/hours
+ * - per_unit: fee/hours multiplied by the field value
+ * - per_unit_over: fee/hours multiplied by the amount above greaterThan
+ * - range (default): flat fee/hours when greaterThan < value <= lessThanOrEqual (either bound optional)
+ */
+function applyModifier(
+  modifier: IServiceModifier,
+  location: QuoteLocationInput | undefined,
+  customData: Record<string, any> | undefined
+): QuoteModifierLine | null {
+  const value = getModifierFieldValue(modifier.field, location, customData);
+  if (value === undefined) {
+    return null;
+  }
+
+  const addFee = Number(modifier.addFee) || 0;
+  const addHours = Number(modifier.addHours) || 0;
+  const line = (units: number): QuoteModifierLine => ({
+    field: modifier.field,
+    label: fieldLabels.get(modifier.field) || modifier.field,
+    ...(modifier.type ? { type: modifier.type } : {}),
+    fee: roundCurrency(addFee * units),
+    hours: roundHours(addHours * units),
+  });
+
+  if (modifier.equals !== undefined && modifier.equals !== null && `${modifier.equals}`.trim() !== '') {
+    return `${value}`.trim().toLowerCase() === `${modifier.equals}`.trim().toLowerCase() ? line(1) : null;
+  }
+
+  const numericValue = toNumber(value);
+  if (numericValue === undefined) {
+    return null;
+  }
+
+  if (modifier.type === 'per_unit') {
+    return numericValue > 0 ? line(numericValue) : null;
+  }
+
+  if (modifier.type === 'per_unit_over') {
+    const threshold = toNumber(modifier.greaterThan) ?? 0;
+    return numericValue > threshold ? line(numericValue - threshold) : null;
+  }
+
+  const greaterThan = toNumber(modifier.greaterThan);
+  const lessThanOrEqual = toNumber(modifier.lessThanOrEqual);
+  if (greaterThan === undefined && lessThanOrEqual === undefined) {
+    return null;
+  }
+  if (greaterThan !== undefined && !(numericValue > greaterThan)) {
+    return null;
+  }
+  if (lessThanOrEqual !== undefined && !(numericValue <= lessThanOrEqual)) {
+    return null;
+  }
+  return line(1);
+}
+
+function applyModifiers(
+  modifiers: IServiceModifier[] | undefined,
+  location: QuoteLocationInput | undefined,
+  customData: Record<string, any> | undefined
+): QuoteModifierLine[] {
+  return (modifiers || [])
+    .map((modifier) => applyModifier(modifier, location, customData))
+    .filter((line): line is QuoteModifierLine => line !== null);
+}
+
+const sumFees = (lines: { fee: number }[]) => lines.reduce((sum, line) => sum + line.fee, 0);
+const sumHours = (lines: { hours: number }[]) => lines.reduce((sum, line) => sum + line.hours, 0);
+const sumAmounts = (lines: { amount: number }[]) => lines.reduce((sum, line) => sum + line.amount, 0);
+
+/**
+ * Spread a discount over eligible line amounts. Percent codes discount each line by the same rate;
+ * amount codes are capped at the eligible total and distributed proportionally (the last line absorbs rounding).
+ */
+function allocateDiscount(amounts: number[], discountCode: DiscountCodeLean): number[] {
+  const eligibleTotal = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (eligibleTotal <= 0) {
+    return amounts.map(() => 0);
+  }
+
+  const value = Number(discountCode.value) || 0;
+  if (discountCode.type === 'percent') {
+    const rate = Math.min(Math.max(value, 0), 100) / 100;
+    return amounts.map((amount) => roundCurrency(amount * rate));
+  }
+
+  const discountTotal = roundCurrency(Math.min(Math.max(value, 0), eligibleTotal));
+  let allocated = 0;
+  let lastEligibleIndex = -1;
+  amounts.forEach((amount, index) => {
+    if (amount > 0) lastEligibleIndex = index;
+  });
+
+  return amounts.map((amount, index) => {
+    if (amount <= 0) return 0;
+    if (index === lastEligibleIndex) {
+      return roundCurrency(discountTotal - allocated);
+    }
+    const share = roundCurrency((amount / eligibleTotal) * discountTotal);
+    allocated += share;
+    return share;
+  });
+}
+
+/**
+ * Build an itemized quote for a set of services using the Service definitions stored for the company.
+ * Client-supplied prices are never trusted: base costs, add-on costs, modifiers and taxes are all read from the database.
+ */
+export async function buildInspectionQuote(
+  input: QuoteInput
+): Promise<{ quote?: InspectionQuote; error?: string }> {
+  const { location, customData, discountCode } = input;
+  const requestedServices = Array.isArray(input.services) ? input.services : [];
+
+  if (requestedServices.length === 0) {
+    return { error: 'At least one service is required' };
+  }
+
+  const serviceIds = requestedServices.map((service) => service?.serviceId);
+  if (serviceIds.some((id) => !id || !mongoose.Types.ObjectId.isValid(id))) {
+    return { error: 'Invalid service ID' };
+  }
+
+  const serviceDocs = await Service.find({
+    _id: { $in: serviceIds.map((id) => new mongoose.Types.ObjectId(id)) },
+    company: new mongoose.Types.ObjectId(input.companyId.toString()),
+  })
+    .select('_id name baseCost baseDurationHours modifiers addOns taxes')
+    .lean<ServiceForQuote[]>();
+
+  const serviceMap = new Map(serviceDocs.map((service) => [service._id.toString(), service]));
+
+  const lines: QuoteServiceLine[] = [];
+  for (const requested of requestedServices) {
+    const service = serviceMap.get(requested.serviceId);
+    if (!service) {
+      return { error: 'Service not found' };
+    }
+
+    const serviceModifiers = applyModifiers(service.modifiers, location, customData);
+    const addOnLines: QuoteAddOnLine[] = [];
+
+    for (const requestedAddOn of requested.addOns || []) {
+      const requestedName = typeof requestedAddOn?.name === 'string' ? requestedAddOn.name.trim().toLowerCase() : '';
+      const addOn = (service.addOns || []).find((entry) => entry.name.toLowerCase() === requestedName);
+      if (!addOn) {
+        return { error: `Add-on "${requestedAddOn?.name}" is not available for ${service.name}` };
+      }
+
+      const addOnModifiers = applyModifiers(addOn.modifiers, location, customData);
+      addOnLines.push({
+        name: addOn.name,
+        baseCost: Number(addOn.baseCost) || 0,
+        baseDurationHours: Number(addOn.baseDurationHours) || 0,
+        modifiers: addOnModifiers,
+        fee: roundCurrency((Number(addOn.baseCost) || 0) + sumFees(addOnModifiers)),
+        hours: roundHours((Number(addOn.baseDurationHours) || 0) + sumHours(addOnModifiers)),
+        discount: 0,
+      });
+    }
+
+    const fee = roundCurrency((Number(service.baseCost) || 0) + sumFees(serviceModifiers));
+    lines.push({
+      serviceId: service._id.toString(),
+      name: service.name,
+      baseCost: Number(service.baseCost) || 0,
+      baseDurationHours: Number(service.baseDurationHours) || 0,
+      modifiers: serviceModifiers,
+      addOns: addOnLines,
+      fee,
+      hours: roundHours((Number(service.baseDurationHours) || 0) + sumHours(serviceModifiers)),
+      discount: 0,
+      subtotal: roundCurrency(fee + sumFees(addOnLines)),
+      taxes: [],
+      total: 0,
+    });
+  }
+
+  if (discountCode) {
+    const appliesToServices = (discountCode.appliesToServices ?? []).map((id) => id.toString());
+    const appliesToAddOns = discountCode.appliesToAddOns ?? [];
+    const appliesToEverything = appliesToServices.length === 0 && appliesToAddOns.length === 0;
+
+    // Flatten service and add-on lines so a single allocation covers the whole order
+    const targets: Array<{ amount: number; assign: (discount: number) => void }> = [];
+    lines.forEach((line) => {
+      const serviceEligible = appliesToEverything || appliesToServices.includes(line.serviceId);
+      targets.push({
+        amount: serviceEligible ? line.fee : 0,
+        assign: (discount) => { line.discount = discount; },
+      });
+      line.addOns.forEach((addOn) => {
+        const addOnEligible =
+          appliesToEverything ||
+          appliesToAddOns.some(
+            (entry) =>
+              entry.service.toString() === line.serviceId &&
+              entry.addOnName.toLowerCase() === addOn.name.toLowerCase()
+          );
+        targets.push({
+          amount: addOnEligible ? addOn.fee : 0,
+          assign: (discount) => { addOn.discount = discount; },
+        });
+      });
+    });
+
+    allocateDiscount(targets.map((target) => target.amount), discountCode).forEach((discount, index) =>
+      targets[index].assign(discount)
+    );
+  }
+
+  // Taxes are defined per service and apply to that service plus its add-ons, after discounts
+  const taxTotals = new Map<string, QuoteTaxLine>();
+  lines.forEach((line) => {
+    const service = serviceMap.get(line.serviceId)!;
+    const lineDiscount = line.discount + line.addOns.reduce((sum, addOn) => sum + addOn.discount, 0);
+    const taxableAmount = Math.max(0, line.subtotal - lineDiscount);
+
+    line.taxes = [...(service.taxes || [])]
+      .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0))
+      .map((tax) => ({
+        name: tax.name,
+        percent: Number(tax.addPercent) || 0,
+        amount: roundCurrency(taxableAmount * ((Number(tax.addPercent) || 0) / 100)),
+      }));
+
+    line.taxes.forEach((tax) => {
+      const key = `${tax.name}:${tax.percent}`;
+      const existing = taxTotals.get(key);
+      taxTotals.set(key, existing ? { ...existing, amount: roundCurrency(existing.amount + tax.amount) } : { ...tax });
+    });
+
+    line.total = roundCurrency(taxableAmount + sumAmounts(line.taxes));
+  });
+
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.subtotal, 0));
+  const discountTotal = roundCurrency(
+    lines.reduce((sum, line) => sum + line.discount + line.addOns.reduce((addOnSum, addOn) => addOnSum + addOn.discount, 0), 0)
+  );
+  const taxes = Array.from(taxTotals.values());
+  const taxTotal = roundCurrency(sumAmounts(taxes));
+
+  return {
+    quote: {
+      services: lines,
+      discountCode: discountCode
+        ? {
+            _id: discountCode._id.toString(),
+            code: discountCode.code || '',
+            type: discountCode.type || 'amount',
+            value: Number(discountCode.value) || 0,
+          }
+        : null,
+      subtotal,
+      discountTotal,
+      taxes,
+      taxTotal,
+      total: roundCurrency(Math.max(0, subtotal - discountTotal) + taxTotal),
+      totalDurationHours: roundHours(
+        lines.reduce((sum, line) => sum + line.hours + sumHours(line.addOns), 0)
+      ),
+      calculatedAt: new Date(),
+    },
+  };
+}
+
+/**
+ * Map a quote back onto the Inspection `services` shape so the stored add-on fees/hours match what was charged
+ */
+export function quoteToInspectionServices(quote: InspectionQuote) {
+  return quote.services.map((line) => ({
+    serviceId: line.serviceId,
+    addOns: line.addOns.map((addOn) => ({
+      name: addOn.name,
+      addFee: addOn.fee,
+      addHours: addOn.hours,
+    })),
+  }));
+}
+
+/**
+ * Recompute and persist the quote for an existing inspection, e.g. after its services, location or discount changed
+ */
+export async function recalculateInspectionPricing(inspectionId: string): Promise<InspectionQuote | null> {
+  if (!mongoose.Types.ObjectId.isValid(inspectionId)) {
+    return null;
+  }
+
+  const inspection = await Inspection.findById(inspectionId)
+    .select('companyId services location customData discountCode')
+    .populate('discountCode')
+    .lean();
+
+  if (!inspection || !inspection.services || inspection.services.length === 0) {
+    return null;
+  }
+
+  const { quote, error } = await buildInspectionQuote({
+    companyId: inspection.companyId,
+    services: inspection.services.map((service) => ({
+      serviceId: service.serviceId.toString(),
+      addOns: service.addOns,
+    })),
+    location: inspection.location,
+    customData: inspection.customData,
+    discountCode: (inspection.discountCode as unknown as DiscountCodeLean) ?? null,
+  });
+
+  if (error || !quote) {
+    console.warn(`Could not recalculate pricing for inspection ${inspectionId}: ${error}`);
+    return null;
+  }
+
+  await Inspection.updateOne(
+    { _id: inspection._id },
+    { $set: { pricing: quote, services: quoteToInspectionServices(quote) } }
+  );
+
+  return quote;
+}
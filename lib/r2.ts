@@ -3,6 +3,7 @@ import {
   ListBucketsCommand,
   ListObjectsV2Command,
   GetObjectCommand,
+  HeadObjectCommand,
   PutObjectCommand,
   DeleteObjectCommand,
   CopyObjectCommand,
@@ -158,6 +159,33 @@ export async function getR2Object(key: string): Promise<{ buffer: Buffer; conten
   return { buffer, contentType: res.ContentType };
 }
 
+// Check whether an object exists without downloading it. Used to find cached renders.
+export async function r2ObjectExists(key: string): Promise<boolean> {
+  if (!process.env.CLOUDFLARE_R2_BUCKET) {
+    throw new Error("R2 bucket name is not configured");
+  }
+  try {
+    await S3.send(
+      new HeadObjectCommand({
+        Bucket: process.env.CLOUDFLARE_R2_BUCKET,
+        Key: key,
+      })
+    );
+    return true;
+  } catch (error: any) {
+    if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) return false;
+    throw error;
+  }
+}
+
+// Public URL of an object in the bucket, matching what uploadToR2 returns
+export function getR2PublicUrl(key: string): string {
+  if (!public_url) {
+    throw new Error("Cloudflare public URL is not configured");
+  }
+  return `${public_url}/${key}`;
+}
+
 // Convenience: get object as data URI string
 export async function getR2ObjectAsDataURI(key: string): Promise<string> {
   const { buffer, contentType } = await getR2Object(key);
@@ -240,4 +268,17 @@ export async function generatePresignedUploadUrl(
   console.log(`🔗 Upload URL (private endpoint):`, uploadUrl);
 
   return { uploadUrl, publicUrl, key };
-}
\ No newline at end of file
+}
+// Generate a short-lived presigned URL for reading a private object, e.g. an access-checked report
+export async function generatePresignedDownloadUrl(
+  key: string,
+  expiresIn: number = 300 // 5 minutes default
+): Promise<string> {
+  const filename = key.split('/').pop() || 'file';
+  const command = new GetObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+    ResponseContentDisposition: `inline; filename="${filename}"`,
+  });
+  return getSignedUrl(S3, command, { expiresIn });
+}
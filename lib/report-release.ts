@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+
+import Inspection from '@/src/models/Inspection';
+import { hasPendingAgreementSignatures } from './agreement-signatures';
+import { getInspectionBalanceDue } from './invoices';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export type ReportReleaseBlocker = 'agreements' | 'payment';
+
+export interface ReportReleaseStatus {
+  released: boolean;
+  blockers: ReportReleaseBlocker[];
+}
+
+export const REPORT_RELEASE_BLOCKER_MESSAGES: Record<ReportReleaseBlocker, string> = {
+  agreements: 'The inspection agreement must be signed before the report is released.',
+  payment: 'The inspection must be paid for before the report is released.',
+};
+
+/**
+ * Whether clients and agents may see the inspection's published report, and what is holding it back.
+ * The company's own users can always see it.
+ */
+export async function getReportReleaseStatus(inspectionId: ObjectIdLike): Promise<ReportReleaseStatus> {
+  const blockers: ReportReleaseBlocker[] = [];
+
+  if (await hasPendingAgreementSignatures(inspectionId)) {
+    blockers.push('agreements');
+  }
+
+  // Payment is required unless the office turned it off for this inspection
+  const inspection = await Inspection.findById(inspectionId).select('requirePaymentToReleaseReports').lean();
+  if (inspection?.requirePaymentToReleaseReports !== false && (await getInspectionBalanceDue(inspectionId)) > 0) {
+    blockers.push('payment');
+  }
+
+  return { released: blockers.length === 0, blockers };
+}
+
+/**
+ * Whether the viewer belongs to the company that owns the inspection
+ */
+export const isCompanyViewer = (
+  user: { company?: unknown } | null | undefined,
+  companyId: unknown
+) => Boolean(user?.company && companyId && String(user.company) === String(companyId));
+
+/**
+ * Published reports are stored as reports/inspection-<id>/inspection-<id>-<mode>-<timestamp>.<html|pdf>.
+ * Returns the inspection id for those keys and null for anything else, such as report images.
+ */
+export const getInspectionIdFromReportKey = (key: string) => {
+  const match = key.match(/^reports\/inspection-([a-f0-9]{24})\/inspection-\1-[^/]+\.(?:html|pdf)$/);
+  return match ? match[1] : null;
+};
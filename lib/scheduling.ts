@@ -0,0 +1,553 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import dbConnect from './db';
+import Availability from '@/src/models/Availability';
+import BookingHold from '@/src/models/BookingHold';
+import Company from '@/src/models/Company';
+import Event from '@/src/models/Event';
+import Inspection from '@/src/models/Inspection';
+import ScheduleLock from '@/src/models/ScheduleLock';
+import SchedulingOptions from '@/src/models/SchedulingOptions';
+import User from '@/src/models/User';
+import { BOOKING_HOLD_MINUTES, DEFAULT_BOOKING_DURATION_MINUTES } from '@/src/constants/availability';
+import { INACTIVE_INSPECTION_STATUSES } from '@/constants/inspectionStatuses';
+import { normalizeDaysRecord } from '@/src/lib/availability-utils';
+import {
+  getAvailableSlotsForDate,
+  overlapsBusyInterval,
+  type InspectorAvailability,
+} from '@/src/lib/inspection-availability';
+import { formatInTimeZone, isDateKey, resolveTimeZone, toDateKey, zonedTimeToUtc } from '@/src/lib/time-zones';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+export type BusySource = 'inspection' | 'event' | 'hold';
+
+export interface ScheduleBusyInterval {
+  start: Date;
+  end: Date;
+  source: BusySource;
+}
+
+export interface SchedulingRules {
+  travelBufferMinutes: number;
+  // "In-Progress bookings block schedule": unsubmitted New Inspection forms hold their time
+  holdsBlockSchedule: boolean;
+}
+
+export interface BusyIntervalOptions {
+  rules?: SchedulingRules;
+  // The caller's own hold shouldn't block the booking it was made for
+  ignoreHoldsBy?: ObjectIdLike | null;
+  // An inspection or event being rescheduled doesn't conflict with itself
+  ignoreInspectionId?: ObjectIdLike | null;
+  ignoreEventId?: ObjectIdLike | null;
+}
+
+export interface SlotRequest {
+  companyId: ObjectIdLike;
+  inspectorId: ObjectIdLike;
+  start: Date;
+  durationMinutes: number;
+  // Zone used to describe a conflicting booking
+  timeZone: string;
+  // User making the booking, whose hold is released once it's saved
+  userId?: ObjectIdLike | null;
+}
+
+export interface InspectorAssignment {
+  inspectorId: string;
+  durationMinutes: number;
+}
+
+/**
+ * A booking for everyone working an inspection, each for their own share of it
+ */
+export interface TeamSlotRequest extends Omit<SlotRequest, 'inspectorId' | 'durationMinutes'> {
+  assignments: InspectorAssignment[];
+}
+
+export interface ScheduleConflict extends ScheduleBusyInterval {
+  inspectorId: string;
+}
+
+// Bookings longer than this aren't expected; it bounds how far back to look for ones still running
+const MAX_BOOKING_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const LOCK_TTL_MS = 15 * 1000;
+const LOCK_RETRY_MS = 100;
+const LOCK_ATTEMPTS = 50;
+
+const notDeleted = { $or: [{ deletedAt: null }, { deletedAt: { $exists: false } }] };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface ScheduledDateInput {
+  // "YYYY-MM-DD" with a separate time, or an ISO timestamp
+  date?: string | Date | null;
+  // "HH:MM" wall-clock time in the scheduling time zone
+  time?: string | null;
+}
+
+/**
+ * The zone an inspector's hours and bookings are expressed in: their own override if set,
+ * otherwise the company's
+ */
+export async function getSchedulingTimeZone(companyId: ObjectIdLike, inspectorId?: ObjectIdLike | null): Promise<string> {
+  await dbConnect();
+
+  const [company, availability] = await Promise.all([
+    Company.findById(companyId).select('timeZone').lean(),
+    inspectorId && mongoose.Types.ObjectId.isValid(inspectorId)
+      ? Availability.findOne({ company: companyId, inspector: inspectorId }).select('timeZone').lean()
+      : null,
+  ]);
+
+  return resolveTimeZone(availability?.timeZone, company?.timeZone);
+}
+
+/**
+ * Turn a booking's date (and optional wall-clock time) into the instant stored on Inspection.date.
+ * A calendar day with a time is read in the scheduling zone rather than the server's.
+ */
+export function resolveScheduledDate(input: ScheduledDateInput, timeZone: string): { date?: Date; error?: string } {
+  const { date, time } = input;
+  if (!date) {
+    return {};
+  }
+
+  if (isDateKey(date)) {
+    const resolved = zonedTimeToUtc(date, time || '00:00', timeZone);
+    if (!resolved) {
+      return { error: `${time} does not exist on ${date} in ${timeZone} because of a daylight saving change` };
+    }
+    return { date: resolved };
+  }
+
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) {
+    return { error: 'Invalid inspection date' };
+  }
+  return { date: parsed };
+}
+
+export async function getSchedulingRules(companyId: ObjectIdLike): Promise<SchedulingRules> {
+  await dbConnect();
+
+  const options = await SchedulingOptions.findOne({ company: companyId })
+    .select('travelBufferMinutes inProgressBookingsBlockSchedule')
+    .lean();
+
+  return {
+    travelBufferMinutes: Math.max(Number(options?.travelBufferMinutes) || 0, 0),
+    holdsBlockSchedule: Boolean(options?.inProgressBookingsBlockSchedule),
+  };
+}
+
+/**
+ * Whether `start` is one of the times an active inspector of the company offers on that day, from
+ * their weekly hours and date-specific blocks. Existing bookings are left to reserveInspectionSlot.
+ */
+export async function isWithinInspectorHours(
+  companyId: ObjectIdLike,
+  inspectorId: ObjectIdLike,
+  start: Date
+): Promise<boolean> {
+  await dbConnect();
+
+  const [inspector, company, availability] = await Promise.all([
+    User.exists({ _id: inspectorId, company: companyId, role: 'inspector', isActive: true }),
+    Company.findById(companyId).select('availabilityViewMode timeZone').lean(),
+    Availability.findOne({ company: companyId, inspector: inspectorId }).lean(),
+  ]);
+  if (!inspector || !company || !availability) {
+    return false;
+  }
+
+  const days = normalizeDaysRecord(
+    Object.fromEntries(
+      availability.days.map((day) => [day.day, { openSchedule: day.openSchedule ?? [], timeSlots: day.timeSlots ?? [] }])
+    ) as Partial<InspectorAvailability['days']>
+  );
+  const inspectorHours: InspectorAvailability = {
+    days,
+    dateSpecific: availability.dateSpecific ?? [],
+    timeZone: availability.timeZone || null,
+  };
+
+  const viewMode = company.availabilityViewMode === 'timeSlots' ? 'timeSlots' : 'openSchedule';
+  const dateKey = toDateKey(start, resolveTimeZone(availability.timeZone, company.timeZone));
+
+  return getAvailableSlotsForDate(dateKey, viewMode, inspectorHours, company.timeZone).some(
+    (slot) => slot.start.getTime() === start.getTime()
+  );
+}
+
+/**
+ * How long an inspection keeps its inspector busy: the priced duration, or for older inspections
+ * without pricing the service base durations plus add-on hours
+ */
+export function getInspectionDurationMinutes(inspection: {
+  pricing?: { totalDurationHours?: number } | null;
+  services?: Array<{ serviceId?: any; addOns?: Array<{ addHours?: number }> }>;
+}): number {
+  const pricedHours = Number(inspection.pricing?.totalDurationHours) || 0;
+  const hours = pricedHours > 0
+    ? pricedHours
+    : (inspection.services || []).reduce(
+        (total, service) =>
+          total +
+          (Number(service.serviceId?.baseDurationHours) || 0) +
+          (service.addOns || []).reduce((sum, addOn) => sum + (Number(addOn.addHours) || 0), 0),
+        0
+      );
+
+  return hours > 0 ? Math.round(hours * 60) : DEFAULT_BOOKING_DURATION_MINUTES;
+}
+
+const idOf = (value: unknown) =>
+  value && typeof value === 'object' && '_id' in value ? String((value as { _id: unknown })._id) : String(value);
+
+const sumHours = (lines: Array<{ hours?: number; addHours?: number }> = []) =>
+  lines.reduce((sum, line) => sum + (Number(line.hours ?? line.addHours) || 0), 0);
+
+/**
+ * Who an inspection keeps busy and for how long. The lead, and anyone on the team without services
+ * of their own, is there for the whole inspection; someone assigned specific services only for
+ * those, starting when the inspection does.
+ */
+export function getInspectionAssignments(inspection: {
+  inspector?: unknown;
+  inspectors?: unknown[];
+  serviceAssignments?: Array<{ serviceId?: unknown; inspector?: unknown }>;
+  pricing?: {
+    totalDurationHours?: number;
+    services?: Array<{ serviceId?: unknown; hours?: number; addOns?: Array<{ hours?: number }> }>;
+  } | null;
+  services?: Array<{ serviceId?: any; addOns?: Array<{ addHours?: number }> }>;
+}): InspectorAssignment[] {
+  const totalMinutes = getInspectionDurationMinutes(inspection);
+  const lead = inspection.inspector ? idOf(inspection.inspector) : null;
+
+  const serviceMinutes = (serviceId: string) => {
+    const priced = inspection.pricing?.services?.find((line) => idOf(line.serviceId) === serviceId);
+    if (priced) {
+      return Math.round(((Number(priced.hours) || 0) + sumHours(priced.addOns)) * 60);
+    }
+    const service = inspection.services?.find((line) => idOf(line.serviceId) === serviceId);
+    return service
+      ? Math.round(((Number(service.serviceId?.baseDurationHours) || 0) + sumHours(service.addOns)) * 60)
+      : 0;
+  };
+
+  const assignedMinutes = new Map<string, number>();
+  (inspection.serviceAssignments || []).forEach((assignment) => {
+    const inspectorId = assignment.inspector ? idOf(assignment.inspector) : null;
+    if (!inspectorId || inspectorId === lead) return;
+    assignedMinutes.set(inspectorId, (assignedMinutes.get(inspectorId) || 0) + serviceMinutes(idOf(assignment.serviceId)));
+  });
+
+  const members = new Set<string>([
+    ...(lead ? [lead] : []),
+    ...(inspection.inspectors || []).map(idOf),
+    ...Array.from(assignedMinutes.keys()),
+  ]);
+
+  return Array.from(members).map((inspectorId) => {
+    const minutes = inspectorId === lead ? 0 : assignedMinutes.get(inspectorId) || 0;
+    return { inspectorId, durationMinutes: minutes > 0 ? Math.min(minutes, totalMinutes) : totalMinutes };
+  });
+}
+
+/**
+ * Time each inspector is already committed to between `from` and `to`: their inspections, events
+ * and, when the company blocks on them, other users' in-progress holds. Every interval is widened by
+ * the company's travel buffer on both sides.
+ */
+export async function getInspectorBusyIntervals(
+  companyId: ObjectIdLike,
+  inspectorIds: ObjectIdLike[],
+  range: { from: Date; to: Date },
+  options: BusyIntervalOptions = {}
+): Promise<Map<string, ScheduleBusyInterval[]>> {
+  await dbConnect();
+
+  const busy = new Map<string, ScheduleBusyInterval[]>();
+  const ids = inspectorIds
+    .filter((id) => mongoose.Types.ObjectId.isValid(id))
+    .map((id) => new mongoose.Types.ObjectId(String(id)));
+  ids.forEach((id) => busy.set(String(id), []));
+  if (ids.length === 0) {
+    return busy;
+  }
+
+  const rules = options.rules ?? (await getSchedulingRules(companyId));
+  const bufferMs = rules.travelBufferMinutes * 60000;
+  // Anything ending within a buffer of the window still pushes into it
+  const from = new Date(range.from.getTime() - bufferMs);
+  const to = new Date(range.to.getTime() + bufferMs);
+
+  const [inspections, events, holds] = await Promise.all([
+    Inspection.find({
+      companyId,
+      date: { $gte: new Date(from.getTime() - MAX_BOOKING_LOOKBACK_MS), $lt: to },
+      // Cancelled and no-show inspections give their time back
+      status: { $nin: [...INACTIVE_INSPECTION_STATUSES] },
+      $and: [notDeleted, { $or: [{ inspector: { $in: ids } }, { inspectors: { $in: ids } }] }],
+      ...(options.ignoreInspectionId ? { _id: { $ne: options.ignoreInspectionId } } : {}),
+    })
+      .select(
+        'inspector inspectors serviceAssignments date services pricing.totalDurationHours ' +
+          'pricing.services.serviceId pricing.services.hours pricing.services.addOns.hours'
+      )
+      .populate('services.serviceId', 'baseDurationHours')
+      .lean(),
+    Event.find({
+      inspector: { $in: ids },
+      startDate: { $lt: to },
+      endDate: { $gt: from },
+      ...(options.ignoreEventId ? { _id: { $ne: options.ignoreEventId } } : {}),
+    })
+      .select('inspector startDate endDate')
+      .lean(),
+    rules.holdsBlockSchedule
+      ? BookingHold.find({
+          company: companyId,
+          inspector: { $in: ids },
+          start: { $lt: to },
+          end: { $gt: from },
+          expiresAt: { $gt: new Date() },
+          ...(options.ignoreHoldsBy ? { createdBy: { $ne: options.ignoreHoldsBy } } : {}),
+        })
+          .select('inspector start end')
+          .lean()
+      : [],
+  ]);
+
+  const add = (inspectorId: unknown, start: Date, end: Date, source: BusySource) => {
+    const intervals = busy.get(String(inspectorId));
+    if (!intervals || end <= from) return;
+    intervals.push({
+      start: new Date(start.getTime() - bufferMs),
+      end: new Date(end.getTime() + bufferMs),
+      source,
+    });
+  };
+
+  inspections.forEach((inspection: any) => {
+    const start = new Date(inspection.date);
+    getInspectionAssignments(inspection).forEach(({ inspectorId, durationMinutes }) => {
+      add(inspectorId, start, new Date(start.getTime() + durationMinutes * 60000), 'inspection');
+    });
+  });
+  events.forEach((event) => add(event.inspector, new Date(event.startDate), new Date(event.endDate), 'event'));
+  holds.forEach((hold) => add(hold.inspector, new Date(hold.start), new Date(hold.end), 'hold'));
+
+  busy.forEach((intervals) => intervals.sort((a, b) => a.start.getTime() - b.start.getTime()));
+  return busy;
+}
+
+/**
+ * The first busy interval any assignee would run into, or null when the time is free for all of them
+ */
+export async function findTeamScheduleConflict(
+  request: Omit<TeamSlotRequest, 'timeZone'>,
+  options: BusyIntervalOptions = {}
+): Promise<ScheduleConflict | null> {
+  const longest = Math.max(0, ...request.assignments.map((assignment) => assignment.durationMinutes));
+  const busy = await getInspectorBusyIntervals(
+    request.companyId,
+    request.assignments.map((assignment) => assignment.inspectorId),
+    { from: request.start, to: new Date(request.start.getTime() + longest * 60000) },
+    { ignoreHoldsBy: request.userId, ...options }
+  );
+
+  for (const { inspectorId, durationMinutes } of request.assignments) {
+    const conflict = (busy.get(String(inspectorId)) || []).find((interval) =>
+      overlapsBusyInterval(request.start, durationMinutes, [interval])
+    );
+    if (conflict) {
+      return { ...conflict, inspectorId: String(inspectorId) };
+    }
+  }
+  return null;
+}
+
+/**
+ * The first busy interval a booking would run into, or null when the time is free
+ */
+export async function findScheduleConflict(
+  request: Omit<SlotRequest, 'timeZone'>,
+  options: BusyIntervalOptions = {}
+): Promise<ScheduleBusyInterval | null> {
+  return findTeamScheduleConflict(
+    {
+      ...request,
+      assignments: [{ inspectorId: String(request.inspectorId), durationMinutes: request.durationMinutes }],
+    },
+    options
+  );
+}
+
+/**
+ * Why a booking was refused; `inspectorName` says who is busy when several people are booked
+ */
+function describeConflict(conflict: ScheduleBusyInterval, timeZone: string, inspectorName?: string) {
+  if (conflict.source === 'hold') {
+    return 'That time is being held by another booking in progress. Please pick a different time.';
+  }
+
+  const format = (date: Date) => formatInTimeZone(date, timeZone, { hour: 'numeric', minute: '2-digit' });
+  const what = conflict.source === 'event' ? 'an event' : 'another inspection';
+  return `${inspectorName || 'The inspector'} already has ${what} from ${format(conflict.start)} to ${format(conflict.end)} (including travel time). Please pick a different time.`;
+}
+
+async function getInspectorName(inspectorId: ObjectIdLike) {
+  const user = await User.findById(inspectorId).select('firstName lastName').lean();
+  return user ? [user.firstName, user.lastName].filter(Boolean).join(' ') : undefined;
+}
+
+async function acquireScheduleLock(inspectorId: ObjectIdLike): Promise<string | null> {
+  const token = crypto.randomBytes(12).toString('hex');
+
+  for (let attempt = 0; attempt < LOCK_ATTEMPTS; attempt += 1) {
+    const now = new Date();
+    try {
+      // Takes over an expired lock, or inserts one; a live lock makes the insert hit the unique index
+      await ScheduleLock.findOneAndUpdate(
+        { inspector: inspectorId, expiresAt: { $lte: now } },
+        { $set: { token, expiresAt: new Date(now.getTime() + LOCK_TTL_MS) } },
+        { upsert: true }
+      );
+      return token;
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  return null;
+}
+
+/**
+ * Book a time for everyone working an inspection. The conflict check and `save` run while holding a
+ * lock on each assignee's calendar, so of two bookings for overlapping times only the first is saved.
+ */
+export async function reserveInspectionSlot<T>(
+  request: TeamSlotRequest,
+  save: () => Promise<T>,
+  options: Pick<BusyIntervalOptions, 'ignoreInspectionId' | 'ignoreEventId'> = {}
+): Promise<{ data?: T; error?: string; conflict?: ScheduleConflict }> {
+  await dbConnect();
+
+  // Always locked in the same order so two team bookings can't each wait on the other
+  const inspectorIds = Array.from(new Set(request.assignments.map((assignment) => String(assignment.inspectorId)))).sort();
+  const locks: Array<{ inspector: string; token: string }> = [];
+
+  try {
+    for (const inspector of inspectorIds) {
+      const token = await acquireScheduleLock(inspector);
+      if (!token) {
+        const name = inspectorIds.length > 1 ? await getInspectorName(inspector) : undefined;
+        return { error: `${name ? `${name}'s` : "The inspector's"} calendar is being updated. Please try again in a moment.` };
+      }
+      locks.push({ inspector, token });
+    }
+
+    const conflict = await findTeamScheduleConflict(request, options);
+    if (conflict) {
+      const name = inspectorIds.length > 1 ? await getInspectorName(conflict.inspectorId) : undefined;
+      return { error: describeConflict(conflict, request.timeZone, name), conflict };
+    }
+
+    const data = await save();
+    if (request.userId) {
+      await releaseInspectionSlotHold(request.userId);
+    }
+    return { data };
+  } finally {
+    await Promise.all(locks.map((lock) => ScheduleLock.deleteOne(lock)));
+  }
+}
+
+/**
+ * Save an inspection event, e.g. a radon pickup, once its inspector is confirmed free. The event's
+ * own inspection doesn't count against it; events without an inspector or already over just save.
+ */
+export async function reserveEventSlot<T>(
+  event: {
+    inspectionId: ObjectIdLike;
+    eventId?: ObjectIdLike | null;
+    inspectorId?: ObjectIdLike | null;
+    start: Date;
+    end: Date;
+  },
+  save: () => Promise<T>
+): Promise<{ data?: T; error?: string; conflict?: ScheduleConflict }> {
+  await dbConnect();
+
+  const durationMinutes = Math.round((event.end.getTime() - event.start.getTime()) / 60000);
+  const inspection = await Inspection.findById(event.inspectionId).select('companyId').lean();
+  if (
+    !inspection ||
+    !event.inspectorId ||
+    !mongoose.Types.ObjectId.isValid(event.inspectorId) ||
+    durationMinutes <= 0 ||
+    event.end.getTime() <= Date.now()
+  ) {
+    return { data: await save() };
+  }
+
+  return reserveInspectionSlot(
+    {
+      companyId: inspection.companyId,
+      assignments: [{ inspectorId: String(event.inspectorId), durationMinutes }],
+      start: event.start,
+      timeZone: await getSchedulingTimeZone(inspection.companyId, event.inspectorId),
+    },
+    save,
+    { ignoreInspectionId: event.inspectionId, ignoreEventId: event.eventId }
+  );
+}
+
+/**
+ * Hold a time for a New Inspection form that's still being filled in. Does nothing unless the
+ * company has in-progress bookings block the schedule; each user holds one time at most.
+ */
+export async function holdInspectionSlot(
+  request: SlotRequest & { userId: ObjectIdLike }
+): Promise<{ hold?: { start: Date; end: Date; expiresAt: Date } | null; error?: string }> {
+  await dbConnect();
+
+  const rules = await getSchedulingRules(request.companyId);
+  if (!rules.holdsBlockSchedule) {
+    return { hold: null };
+  }
+
+  const conflict = await findScheduleConflict(request, { rules });
+  if (conflict) {
+    return { error: describeConflict(conflict, request.timeZone) };
+  }
+
+  const end = new Date(request.start.getTime() + request.durationMinutes * 60000);
+  const expiresAt = new Date(Date.now() + BOOKING_HOLD_MINUTES * 60000);
+  await BookingHold.findOneAndUpdate(
+    { createdBy: request.userId },
+    {
+      $set: {
+        company: request.companyId,
+        inspector: request.inspectorId,
+        start: request.start,
+        end,
+        expiresAt,
+      },
+    },
+    { upsert: true, runValidators: true }
+  );
+
+  return { hold: { start: request.start, end, expiresAt } };
+}
+
+export async function releaseInspectionSlotHold(userId: ObjectIdLike): Promise<void> {
+  await dbConnect();
+  await BookingHold.deleteMany({ createdBy: userId });
+}
@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+
+import OnlineScheduler from '@/src/models/OnlineScheduler';
+import SmsDelivery, { ISmsDelivery } from '@/src/models/SmsDelivery';
+import { DEFAULT_SMS_TEMPLATES, SmsEvent } from '@/constants/smsTemplates';
+import { getSmsProvider, normalizePhoneNumber } from './sms';
+import { applyMergeFields, getInspectionMergeFields, loadInspectionForMerge } from './merge-fields';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+interface SmsRecipient {
+  recipientType: ISmsDelivery['recipientType'];
+  recipientUser?: mongoose.Types.ObjectId;
+  phone?: string;
+  optedIn: boolean;
+}
+
+/**
+ * Template used for an event: the company's own from the Online Scheduler settings, or the default
+ */
+export function getSmsTemplate(
+  scheduler: { smsCompleteBookingTemplate?: string } | null | undefined,
+  event: SmsEvent
+): string {
+  const custom = event === 'booking_complete' ? scheduler?.smsCompleteBookingTemplate : undefined;
+  return custom?.trim() || DEFAULT_SMS_TEMPLATES[event];
+}
+
+/**
+ * Text the company's notification number, and the inspector when they opted in to SMS,
+ * about a booking made through the Online Scheduler. Every attempt (including skipped
+ * recipients) is recorded as an SmsDelivery for the inspection. Never throws, so a failed
+ * text cannot fail the booking itself.
+ */
+export async function sendBookingSmsNotifications(
+  inspectionId: ObjectIdLike,
+  event: SmsEvent = 'booking_complete'
+): Promise<ISmsDelivery[]> {
+  try {
+    const inspection = await loadInspectionForMerge(inspectionId);
+    if (!inspection?.companyId) {
+      return [];
+    }
+
+    const companyId = inspection.companyId._id ?? inspection.companyId;
+    const scheduler = await OnlineScheduler.findOne({ company: companyId }).lean();
+    const enabled = event === 'booking_complete' ? scheduler?.smsForCompleteBooking : false;
+    if (!scheduler || !enabled) {
+      return [];
+    }
+
+    const body = applyMergeFields(getSmsTemplate(scheduler, event), getInspectionMergeFields(inspection))
+      .replace(/[ \t]{2,}/g, ' ')
+      .trim();
+
+    const recipients: SmsRecipient[] = [
+      { recipientType: 'company', phone: scheduler.smsNotificationNumber, optedIn: true },
+    ];
+    if (inspection.inspector) {
+      recipients.push({
+        recipientType: 'inspector',
+        recipientUser: inspection.inspector._id,
+        phone: inspection.inspector.phoneNumber,
+        optedIn: Boolean(inspection.inspector.smsOptIn),
+      });
+    }
+
+    const provider = getSmsProvider();
+    const deliveries: ISmsDelivery[] = [];
+    const sentTo = new Set<string>();
+
+    for (const recipient of recipients) {
+      const to = normalizePhoneNumber(recipient.phone);
+      const base = {
+        company: companyId,
+        inspection: inspection._id,
+        event,
+        recipientType: recipient.recipientType,
+        recipientUser: recipient.recipientUser,
+        to: to || recipient.phone,
+        body,
+        provider: provider.name,
+      };
+
+      if (!recipient.optedIn) {
+        deliveries.push(await SmsDelivery.create({ ...base, status: 'skipped', error: 'Recipient has not opted in to SMS' }));
+        continue;
+      }
+      if (!to) {
+        deliveries.push(await SmsDelivery.create({ ...base, status: 'skipped', error: 'No valid phone number' }));
+        continue;
+      }
+      if (sentTo.has(to)) {
+        continue;
+      }
+      sentTo.add(to);
+
+      try {
+        const result = await provider.send({ to, body });
+        deliveries.push(await SmsDelivery.create({ ...base, status: 'sent', providerMessageId: result.id }));
+      } catch (error: any) {
+        console.error(`Failed to send ${event} SMS to ${to}:`, error);
+        deliveries.push(await SmsDelivery.create({ ...base, status: 'failed', error: error.message || 'Failed to send SMS' }));
+      }
+    }
+
+    return deliveries;
+  } catch (error) {
+    console.error('Error sending booking SMS notifications:', error);
+    return [];
+  }
+}
@@ -0,0 +1,125 @@
+import { appendFile } from 'fs/promises';
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsSendResult {
+  id?: string;
+}
+
+/**
+ * Anything that can deliver a text message. Providers throw when a message is rejected.
+ */
+export interface SmsProvider {
+  name: string;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
+
+/**
+ * Sends through the Twilio Messages REST API
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  name = 'twilio';
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private fromNumber: string
+  ) {}
+
+  async send({ to, body }: SmsMessage): Promise<SmsSendResult> {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: to, From: this.fromNumber, Body: body }),
+      }
+    );
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.message || `Twilio request failed with status ${response.status}`);
+    }
+
+    return { id: result.sid };
+  }
+}
+
+/**
+ * Development provider: logs messages and, when SMS_OUTBOX_FILE is set, appends them to that
+ * file as JSON lines instead of sending anything
+ */
+export class LocalSmsProvider implements SmsProvider {
+  name = 'local';
+
+  constructor(private outboxFile?: string) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const id = `local_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+    if (this.outboxFile) {
+      await appendFile(
+        this.outboxFile,
+        `${JSON.stringify({ id, ...message, sentAt: new Date().toISOString() })}\n`
+      );
+    } else {
+      console.log(`[sms] to ${message.to}: ${message.body}`);
+    }
+
+    return { id };
+  }
+}
+
+let providerOverride: SmsProvider | null = null;
+
+/**
+ * Capture texts instead of sending them, e.g. in tests; null restores the configured provider.
+ */
+export function setSmsProvider(provider: SmsProvider | null) {
+  providerOverride = provider;
+}
+
+/**
+ * Twilio when its credentials are set. The local outbox only runs when SMS_PROVIDER=local asks
+ * for it, so a deploy missing Twilio credentials fails to send instead of quietly logging texts.
+ */
+export function getSmsProvider(): SmsProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER, SMS_OUTBOX_FILE, SMS_PROVIDER } = process.env;
+
+  if (SMS_PROVIDER === 'local') {
+    return new LocalSmsProvider(SMS_OUTBOX_FILE || undefined);
+  }
+  if (SMS_PROVIDER && SMS_PROVIDER !== 'twilio') {
+    throw new Error(`Unknown SMS_PROVIDER: ${SMS_PROVIDER}`);
+  }
+  if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM_NUMBER) {
+    throw new Error('Twilio credentials are not configured; set them or SMS_PROVIDER=local for development');
+  }
+  return new TwilioSmsProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER);
+}
+
+/**
+ * Normalize a phone number to E.164. Ten-digit numbers are treated as US numbers.
+ * Returns null when the number cannot be used.
+ */
+export function normalizePhoneNumber(value?: string | null): string | null {
+  if (!value) return null;
+
+  const digits = value.replace(/\D/g, '');
+  if (value.trim().startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { AnnotationDocument } from './annotations';
 
   interface AnalysisData {
     inspectionId: string;
@@ -12,7 +13,7 @@ import { persist } from 'zustand/middleware';
     analysisResult?: any;
     timestamp?: number;
     selectedArrowColor?: string; // Store the selected arrow color
-    annotations?: any[]; // Store annotation shapes for editable re-opening
+    annotations?: AnnotationDocument | null; // Annotation shapes for editable re-opening
     // estimated_costs: CostItem[];
   }
 
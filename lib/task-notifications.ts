@@ -0,0 +1,375 @@
+import mongoose from 'mongoose';
+
+import dbConnect from './db';
+import { sendEmail } from './email';
+import { wrapEmailBody } from './email-notifications';
+import { escapeHtml } from './merge-fields';
+import Company from '@/src/models/Company';
+import Inspection from '@/src/models/Inspection';
+import Notification from '@/src/models/Notification';
+import Task from '@/src/models/Task';
+import TaskComment from '@/src/models/TaskComment';
+import User from '@/src/models/User';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CHANNELS,
+  NotificationPreferences,
+  TASK_DIGEST_HOUR,
+  TASK_DUE_SOON_HOURS,
+  TASK_NOTIFICATION_EVENTS,
+  TaskNotificationEvent,
+} from '@/constants/notifications';
+import {
+  addDaysToDateKey,
+  formatInTimeZone,
+  getZonedParts,
+  resolveTimeZone,
+  startOfDayInTimeZone,
+  toDateKey,
+} from '@/src/lib/time-zones';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+const APP_URL = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+const HOUR_MS = 60 * 60 * 1000;
+
+// Overdue reminders only go out for tasks that became overdue recently, not a backlog of old ones
+const OVERDUE_LOOKBACK_MS = 7 * 24 * HOUR_MS;
+const REMINDER_BATCH_SIZE = 500;
+const DIGEST_TASK_LIMIT = 50;
+
+/**
+ * The user's notification settings with the defaults filled in for anything they never changed
+ */
+export function getNotificationPreferences(user: {
+  notificationPreferences?: Partial<NotificationPreferences> | null;
+}): NotificationPreferences {
+  const saved = user.notificationPreferences || {};
+  const tasks = Object.fromEntries(
+    TASK_NOTIFICATION_EVENTS.map((event) => [
+      event,
+      { ...DEFAULT_NOTIFICATION_PREFERENCES.tasks[event], ...(saved.tasks?.[event] || {}) },
+    ])
+  ) as NotificationPreferences['tasks'];
+
+  return {
+    tasks,
+    dailyDigest: typeof saved.dailyDigest === 'boolean' ? saved.dailyDigest : DEFAULT_NOTIFICATION_PREFERENCES.dailyDigest,
+  };
+}
+
+/**
+ * Validate a full preferences form. Returns `error` for anything missing or not a boolean.
+ */
+export function parseNotificationPreferences(body: any): { data?: NotificationPreferences; error?: string } {
+  const tasks = {} as NotificationPreferences['tasks'];
+  for (const event of TASK_NOTIFICATION_EVENTS) {
+    const channels = body?.tasks?.[event];
+    if (!channels || NOTIFICATION_CHANNELS.some((channel) => typeof channels[channel] !== 'boolean')) {
+      return { error: `Invalid settings for ${event}` };
+    }
+    tasks[event] = { email: channels.email, inApp: channels.inApp };
+  }
+
+  if (typeof body?.dailyDigest !== 'boolean') {
+    return { error: 'Invalid daily digest setting' };
+  }
+
+  return { data: { tasks, dailyDigest: body.dailyDigest } };
+}
+
+interface TaskNotice {
+  title: string;
+  message: string;
+  // Extra email content below the message, already escaped
+  emailHtml?: string;
+}
+
+async function loadTaskForNotice(taskId: ObjectIdLike) {
+  const task = await Task.findById(taskId)
+    .select('inspectionId companyId assignedTo createdBy title dueDate status')
+    .lean();
+  if (!task) return null;
+
+  const [inspection, company] = await Promise.all([
+    Inspection.findById(task.inspectionId).select('location.address deletedAt').lean(),
+    Company.findById(task.companyId).select('name timeZone').lean(),
+  ]);
+  if (!inspection || inspection.deletedAt) return null;
+
+  return {
+    task,
+    address: inspection.location?.address || '',
+    companyName: company?.name || 'ReportWriter AI',
+    timeZone: resolveTimeZone(company?.timeZone),
+    link: `/inspections/${task.inspectionId}/edit`,
+  };
+}
+
+type TaskNoticeContext = NonNullable<Awaited<ReturnType<typeof loadTaskForNotice>>>;
+
+const formatDue = (date: Date, timeZone: string) =>
+  formatInTimeZone(date, timeZone, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Send one task notification to each user, over the channels they have switched on
+ */
+async function deliverTaskNotice(
+  userIds: ObjectIdLike[],
+  event: TaskNotificationEvent,
+  context: TaskNoticeContext,
+  notice: TaskNotice
+) {
+  const users = await User.find({ _id: { $in: userIds }, isActive: true })
+    .select('email firstName notificationPreferences')
+    .lean();
+
+  for (const user of users) {
+    const channels = getNotificationPreferences(user).tasks[event];
+
+    if (channels.inApp) {
+      await Notification.create({
+        user: user._id,
+        company: context.task.companyId,
+        type: event,
+        title: notice.title,
+        message: notice.message,
+        link: context.link,
+        task: context.task._id,
+        inspection: context.task.inspectionId,
+      });
+    }
+
+    if (channels.email && user.email) {
+      const body = `
+        <p>Hi ${escapeHtml(user.firstName || '')},</p>
+        <p>${escapeHtml(notice.message)}</p>
+        ${notice.emailHtml || ''}
+        <p><a href="${APP_URL}${context.link}">Open the inspection</a></p>
+      `;
+      const result = await sendEmail({
+        to: [user.email],
+        subject: notice.title,
+        html: wrapEmailBody(body, escapeHtml(context.companyName)),
+      });
+      if (!result.success) {
+        console.error(`Error emailing ${event} notification:`, result.error);
+      }
+    }
+  }
+}
+
+const taskDetailsHtml = (context: TaskNoticeContext) => `
+  <p style="margin: 0 0 4px 0;"><strong>${escapeHtml(context.task.title)}</strong></p>
+  ${context.address ? `<p style="margin: 0 0 4px 0;">${escapeHtml(context.address)}</p>` : ''}
+  <p style="margin: 0 0 16px 0;">Due ${escapeHtml(formatDue(new Date(context.task.dueDate), context.timeZone))}</p>
+`;
+
+/**
+ * Tell the assignee about a task they were just given, unless they gave it to themselves.
+ * Best effort: failures are logged.
+ */
+export async function notifyTaskAssigned(taskId: ObjectIdLike, actor?: ObjectIdLike | null) {
+  try {
+    await dbConnect();
+
+    const context = await loadTaskForNotice(taskId);
+    if (!context || context.task.status === 'Complete') return;
+    if (actor && String(actor) === String(context.task.assignedTo)) return;
+
+    await deliverTaskNotice([context.task.assignedTo], 'task_assigned', context, {
+      title: `New task: ${context.task.title}`,
+      message: `You have been assigned "${context.task.title}"${context.address ? ` for ${context.address}` : ''}.`,
+      emailHtml: taskDetailsHtml(context),
+    });
+  } catch (error) {
+    console.error('Error sending task assignment notification:', error);
+  }
+}
+
+/**
+ * Tell everyone involved in a task about a new comment: the assignee, the creator and earlier
+ * commenters, but not the author. Best effort: failures are logged.
+ */
+export async function notifyTaskComment(commentId: ObjectIdLike) {
+  try {
+    await dbConnect();
+
+    const comment = await TaskComment.findById(commentId).select('taskId content createdBy').lean();
+    if (!comment) return;
+
+    const context = await loadTaskForNotice(comment.taskId);
+    if (!context) return;
+
+    const [author, commenters] = await Promise.all([
+      User.findById(comment.createdBy).select('firstName lastName').lean(),
+      TaskComment.distinct('createdBy', { taskId: comment.taskId }),
+    ]);
+
+    const recipients = new Set(
+      [context.task.assignedTo, context.task.createdBy, ...commenters].filter(Boolean).map(String)
+    );
+    recipients.delete(String(comment.createdBy));
+    if (recipients.size === 0) return;
+
+    const authorName = author ? `${author.firstName} ${author.lastName}`.trim() : 'Someone';
+    await deliverTaskNotice(Array.from(recipients), 'task_comment', context, {
+      title: `${authorName} commented on "${context.task.title}"`,
+      message: comment.content.length > 200 ? `${comment.content.slice(0, 200)}…` : comment.content,
+      emailHtml: taskDetailsHtml(context),
+    });
+  } catch (error) {
+    console.error('Error sending task comment notification:', error);
+  }
+}
+
+/**
+ * Remind assignees of open tasks coming due within TASK_DUE_SOON_HOURS and of tasks that have just
+ * become overdue. Each reminder goes out once per due date. Meant to run hourly.
+ */
+export async function sendTaskDueReminders(now = new Date()): Promise<number> {
+  const reminders: Array<{
+    event: 'task_due_soon' | 'task_overdue';
+    field: 'dueSoonNotifiedAt' | 'overdueNotifiedAt';
+    dueDate: Record<string, Date>;
+  }> = [
+    {
+      event: 'task_due_soon',
+      field: 'dueSoonNotifiedAt',
+      dueDate: { $gt: now, $lte: new Date(now.getTime() + TASK_DUE_SOON_HOURS * HOUR_MS) },
+    },
+    {
+      event: 'task_overdue',
+      field: 'overdueNotifiedAt',
+      dueDate: { $gt: new Date(now.getTime() - OVERDUE_LOOKBACK_MS), $lte: now },
+    },
+  ];
+
+  let sent = 0;
+  for (const { event, field, dueDate } of reminders) {
+    const tasks = await Task.find({ status: { $ne: 'Complete' }, dueDate, [field]: null })
+      .select('_id')
+      .limit(REMINDER_BATCH_SIZE)
+      .lean();
+
+    for (const { _id } of tasks) {
+      try {
+        // Claim the reminder first so overlapping runs don't both send it
+        const claimed = await Task.updateOne({ _id, [field]: null }, { $set: { [field]: now } });
+        if (claimed.modifiedCount === 0) continue;
+
+        const context = await loadTaskForNotice(String(_id));
+        if (!context) continue;
+
+        const due = formatDue(new Date(context.task.dueDate), context.timeZone);
+        await deliverTaskNotice([context.task.assignedTo], event, context, {
+          title: event === 'task_due_soon' ? `Task due soon: ${context.task.title}` : `Task overdue: ${context.task.title}`,
+          message:
+            event === 'task_due_soon'
+              ? `"${context.task.title}" is due ${due}.`
+              : `"${context.task.title}" was due ${due} and is not complete yet.`,
+          emailHtml: taskDetailsHtml(context),
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Error sending ${event} reminder for task ${_id}:`, error);
+      }
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Email each user a list of their overdue tasks and those due today, at TASK_DIGEST_HOUR in their
+ * company's time zone. Users with nothing due get no email. Meant to run hourly.
+ */
+export async function sendTaskDigests(now = new Date()): Promise<number> {
+  const assigneeIds = await Task.distinct('assignedTo', {
+    status: { $ne: 'Complete' },
+    dueDate: { $lte: new Date(now.getTime() + 24 * HOUR_MS) },
+  });
+  if (assigneeIds.length === 0) return 0;
+
+  // Anything sent in the last 20 hours counts as today's, whatever the run times
+  const notSentToday = { $or: [{ taskDigestSentAt: null }, { taskDigestSentAt: { $lt: new Date(now.getTime() - 20 * HOUR_MS) } }] };
+  const users = await User.find({ _id: { $in: assigneeIds }, isActive: true, ...notSentToday })
+    .select('email firstName company notificationPreferences')
+    .lean();
+
+  const companies = new Map(
+    (
+      await Company.find({ _id: { $in: users.map((user) => user.company).filter(Boolean) } })
+        .select('name timeZone')
+        .lean()
+    ).map((company) => [String(company._id), company])
+  );
+
+  let sent = 0;
+  for (const user of users) {
+    try {
+      if (!user.email || !getNotificationPreferences(user).dailyDigest) continue;
+
+      const company = companies.get(String(user.company));
+      const timeZone = resolveTimeZone(company?.timeZone);
+      if (getZonedParts(now, timeZone).hour !== TASK_DIGEST_HOUR) continue;
+
+      const endOfToday = startOfDayInTimeZone(addDaysToDateKey(toDateKey(now, timeZone), 1), timeZone);
+      const tasks = await Task.find({ assignedTo: user._id, status: { $ne: 'Complete' }, dueDate: { $lt: endOfToday } })
+        .sort({ dueDate: 1 })
+        .limit(DIGEST_TASK_LIMIT)
+        .populate('inspectionId', 'location.address deletedAt')
+        .lean();
+
+      const live = tasks.filter((task) => {
+        const inspection = task.inspectionId as unknown as { deletedAt?: Date } | null;
+        return inspection && !inspection.deletedAt;
+      });
+      if (live.length === 0) continue;
+
+      const claimed = await User.updateOne({ _id: user._id, ...notSentToday }, { $set: { taskDigestSentAt: now } });
+      if (claimed.modifiedCount === 0) continue;
+
+      const overdue = live.filter((task) => new Date(task.dueDate) <= now);
+      const dueToday = live.filter((task) => new Date(task.dueDate) > now);
+      const list = (items: typeof live) => `
+        <ul style="padding-left: 20px;">
+          ${items
+            .map((task) => {
+              const inspection = task.inspectionId as unknown as { _id: mongoose.Types.ObjectId; location?: { address?: string } };
+              const address = inspection.location?.address;
+              return `<li style="margin-bottom: 6px;">
+                <a href="${APP_URL}/inspections/${inspection._id}/edit">${escapeHtml(task.title)}</a>
+                ${address ? ` — ${escapeHtml(address)}` : ''}
+                <br><span style="color: #666666; font-size: 13px;">Due ${escapeHtml(formatDue(new Date(task.dueDate), timeZone))}</span>
+              </li>`;
+            })
+            .join('')}
+        </ul>
+      `;
+
+      const body = `
+        <p>Hi ${escapeHtml(user.firstName || '')},</p>
+        <p>Here are your tasks for ${escapeHtml(formatInTimeZone(now, timeZone, { weekday: 'long', month: 'long', day: 'numeric' }))}.</p>
+        ${overdue.length > 0 ? `<h3 style="color: #dc2626; margin-bottom: 4px;">Overdue (${overdue.length})</h3>${list(overdue)}` : ''}
+        ${dueToday.length > 0 ? `<h3 style="margin-bottom: 4px;">Due today (${dueToday.length})</h3>${list(dueToday)}` : ''}
+        <p><a href="${APP_URL}/tasks">View all your tasks</a></p>
+      `;
+
+      const result = await sendEmail({
+        to: [user.email],
+        subject: overdue.length > 0 ? `Your tasks today: ${overdue.length} overdue` : `Your tasks today: ${dueToday.length} due`,
+        html: wrapEmailBody(body, escapeHtml(company?.name || 'ReportWriter AI')),
+      });
+      if (result.success) {
+        sent++;
+      } else {
+        console.error(`Error emailing task digest to user ${user._id}:`, result.error);
+      }
+    } catch (error) {
+      console.error(`Error sending task digest to user ${user._id}:`, error);
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,317 @@
+import mongoose from 'mongoose';
+
+import dbConnect from './db';
+import { notifyTaskAssigned } from './task-notifications';
+import Inspection from '@/src/models/Inspection';
+import Task from '@/src/models/Task';
+import TaskTemplate, { ITaskTemplate } from '@/src/models/TaskTemplate';
+import User from '@/src/models/User';
+import {
+  TASK_ASSIGNEE_RULES,
+  TASK_DUE_ANCHORS,
+  TASK_PRIORITIES,
+  TASK_TYPES,
+  TaskAssigneeRule,
+  TaskTemplateTrigger,
+  isTaskTemplateTrigger,
+} from '@/constants/tasks';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+type TemplateTiming = Pick<ITaskTemplate, 'dueAnchor' | 'dueOffsetHours'>;
+
+/**
+ * When a task from the template is due. Offsets from the inspection date fall back to the event time
+ * for inspections without a date, and a task is never due before it was created.
+ */
+export function getTemplateDueDate(template: TemplateTiming, inspectionDate: Date | null | undefined, triggeredAt: Date) {
+  const anchor = template.dueAnchor === 'inspection_date' && inspectionDate ? new Date(inspectionDate) : triggeredAt;
+  const due = new Date(anchor.getTime() + (template.dueOffsetHours || 0) * HOUR_MS);
+  return due < triggeredAt ? triggeredAt : due;
+}
+
+interface InspectionPeople {
+  inspector?: mongoose.Types.ObjectId | null;
+  createdBy?: mongoose.Types.ObjectId | null;
+}
+
+// Who gets the task under each rule, in order of preference
+const ASSIGNEE_CANDIDATES: Record<
+  TaskAssigneeRule,
+  (template: Pick<ITaskTemplate, 'assignee'>, inspection: InspectionPeople) => Array<mongoose.Types.ObjectId | null | undefined>
+> = {
+  inspector: (_template, inspection) => [inspection.inspector, inspection.createdBy],
+  creator: (_template, inspection) => [inspection.createdBy, inspection.inspector],
+  user: (template, inspection) => [template.assignee, inspection.inspector, inspection.createdBy],
+};
+
+/**
+ * Turn a template form into fields to save. Returns `error` for anything invalid.
+ */
+export async function parseTaskTemplateInput(
+  body: any,
+  companyId: ObjectIdLike
+): Promise<{ data?: Partial<ITaskTemplate>; error?: string }> {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  const title = typeof body?.title === 'string' ? body.title.trim() : '';
+  if (!name) return { error: 'Template name is required' };
+  if (!title) return { error: 'Task title is required' };
+
+  if (!(TASK_TYPES as readonly string[]).includes(body.taskType)) return { error: 'Invalid task type' };
+  if (!(TASK_PRIORITIES as readonly string[]).includes(body.priority)) return { error: 'Invalid priority' };
+  if (!isTaskTemplateTrigger(body.trigger)) return { error: 'Invalid trigger' };
+  if (!(TASK_DUE_ANCHORS as readonly string[]).includes(body.dueAnchor)) return { error: 'Invalid due date anchor' };
+  if (!(TASK_ASSIGNEE_RULES as readonly string[]).includes(body.assignTo)) return { error: 'Invalid assignee rule' };
+
+  const dueOffsetHours = Number(body.dueOffsetHours ?? 0);
+  if (!Number.isFinite(dueOffsetHours) || Math.abs(dueOffsetHours) > 8760) {
+    return { error: 'Due date offset must be within a year' };
+  }
+
+  let assignee: mongoose.Types.ObjectId | undefined;
+  if (body.assignTo === 'user') {
+    if (!body.assignee || !mongoose.Types.ObjectId.isValid(body.assignee)) {
+      return { error: 'Choose the team member to assign the task to' };
+    }
+    const user = await User.findOne({ _id: body.assignee, company: companyId, isActive: true }).select('_id').lean();
+    if (!user) return { error: 'That team member is not in your company' };
+    assignee = user._id as mongoose.Types.ObjectId;
+  }
+
+  let repeatEveryDays: number | undefined;
+  let repeatTimes: number | undefined;
+  if (body.repeatEveryDays !== undefined && body.repeatEveryDays !== null && body.repeatEveryDays !== '') {
+    repeatEveryDays = Number(body.repeatEveryDays);
+    repeatTimes = Number(body.repeatTimes);
+    if (!Number.isInteger(repeatEveryDays) || repeatEveryDays < 1 || repeatEveryDays > 365) {
+      return { error: 'Repeat interval must be between 1 and 365 days' };
+    }
+    if (!Number.isInteger(repeatTimes) || repeatTimes < 2 || repeatTimes > 52) {
+      return { error: 'A repeating task must happen between 2 and 52 times' };
+    }
+  }
+
+  return {
+    data: {
+      name,
+      title,
+      description: typeof body.description === 'string' ? body.description.trim() : '',
+      taskType: body.taskType,
+      priority: body.priority,
+      trigger: body.trigger,
+      dueAnchor: body.dueAnchor,
+      dueOffsetHours,
+      assignTo: body.assignTo,
+      assignee,
+      repeatEveryDays,
+      repeatTimes,
+      active: body.active === undefined ? true : Boolean(body.active),
+    },
+  };
+}
+
+export interface TaskTemplateSummary {
+  _id: string;
+  name: string;
+  title: string;
+  description: string;
+  taskType: ITaskTemplate['taskType'];
+  priority: ITaskTemplate['priority'];
+  trigger: TaskTemplateTrigger;
+  dueAnchor: ITaskTemplate['dueAnchor'];
+  dueOffsetHours: number;
+  assignTo: TaskAssigneeRule;
+  assignee: string | null;
+  repeatEveryDays: number | null;
+  repeatTimes: number | null;
+  active: boolean;
+}
+
+export function formatTaskTemplate(template: any): TaskTemplateSummary {
+  return {
+    _id: String(template._id),
+    name: template.name,
+    title: template.title,
+    description: template.description || '',
+    taskType: template.taskType,
+    priority: template.priority,
+    trigger: template.trigger,
+    dueAnchor: template.dueAnchor,
+    dueOffsetHours: template.dueOffsetHours || 0,
+    assignTo: template.assignTo,
+    assignee: template.assignee ? String(template.assignee) : null,
+    repeatEveryDays: template.repeatEveryDays ?? null,
+    repeatTimes: template.repeatTimes ?? null,
+    active: template.active !== false,
+  };
+}
+
+/**
+ * Create the tasks the company's templates ask for when an inspection reaches `trigger`.
+ * A template only keeps one open task per inspection, so an event happening again (e.g. an
+ * inspection confirmed a second time) doesn't pile up duplicates. Best effort: failures are logged.
+ */
+export async function createTasksForInspectionEvent(
+  inspectionId: ObjectIdLike,
+  trigger: TaskTemplateTrigger,
+  actor?: ObjectIdLike | null
+) {
+  try {
+    await dbConnect();
+
+    const inspection = await Inspection.findById(inspectionId)
+      .select('companyId date inspector createdBy deletedAt')
+      .lean();
+    if (!inspection || inspection.deletedAt) return;
+
+    const templates = await TaskTemplate.find({ company: inspection.companyId, trigger, active: true }).lean();
+    if (templates.length === 0) return;
+
+    const openTemplateIds = new Set(
+      (
+        await Task.distinct('template', {
+          inspectionId: inspection._id,
+          template: { $in: templates.map((template) => template._id) },
+          status: { $ne: 'Complete' },
+        })
+      ).map(String)
+    );
+
+    const triggeredAt = new Date();
+    const actorId = actor ? new mongoose.Types.ObjectId(String(actor)) : null;
+    const tasks = templates
+      .filter((template) => !openTemplateIds.has(String(template._id)))
+      .map((template) => {
+        const assignee =
+          ASSIGNEE_CANDIDATES[template.assignTo](template, inspection).find(Boolean) || actorId;
+        if (!assignee) return null;
+
+        return {
+          inspectionId: inspection._id,
+          companyId: inspection.companyId,
+          taskType: template.taskType,
+          assignedTo: assignee,
+          priority: template.priority,
+          dueDate: getTemplateDueDate(template, inspection.date, triggeredAt),
+          title: template.title,
+          description: template.description || '',
+          status: 'On Hold',
+          createdBy: actorId || assignee,
+          template: template._id,
+          occurrence: 1,
+        };
+      })
+      .filter((task) => task !== null);
+
+    if (tasks.length > 0) {
+      const created = await Task.insertMany(tasks);
+      for (const task of created) {
+        await notifyTaskAssigned(task._id as mongoose.Types.ObjectId, actorId);
+      }
+    }
+  } catch (error) {
+    console.error(`Error creating ${trigger} tasks:`, error);
+  }
+}
+
+/**
+ * Follow a completed task from a repeating template with the next one, due `repeatEveryDays` after
+ * it was completed, until the template's number of repeats is reached.
+ */
+export async function createNextTaskOccurrence(taskId: ObjectIdLike) {
+  try {
+    await dbConnect();
+
+    const task = await Task.findById(taskId).lean();
+    if (!task?.template || task.status !== 'Complete') return;
+
+    const template = await TaskTemplate.findById(task.template).lean();
+    const occurrence = task.occurrence || 1;
+    if (!template?.active || !template.repeatEveryDays || occurrence >= (template.repeatTimes || 1)) return;
+
+    const inspection = await Inspection.findById(task.inspectionId).select('deletedAt').lean();
+    if (!inspection || inspection.deletedAt) return;
+
+    // Reopening and completing a task again mustn't create a second copy of the next one
+    const exists = await Task.exists({ inspectionId: task.inspectionId, template: template._id, occurrence: occurrence + 1 });
+    if (exists) return;
+
+    const next = await Task.create({
+      inspectionId: task.inspectionId,
+      companyId: task.companyId,
+      taskType: task.taskType,
+      assignedTo: task.assignedTo,
+      priority: task.priority,
+      dueDate: new Date((task.completedAt || new Date()).getTime() + template.repeatEveryDays * DAY_MS),
+      title: task.title,
+      description: task.description || '',
+      status: 'On Hold',
+      createdBy: task.createdBy,
+      template: template._id,
+      occurrence: occurrence + 1,
+    });
+    await notifyTaskAssigned(next._id as mongoose.Types.ObjectId);
+  } catch (error) {
+    console.error('Error creating next task occurrence:', error);
+  }
+}
+
+/**
+ * Move open tasks timed from the inspection date after the inspection is rescheduled
+ */
+export async function realignInspectionTemplateTasks(inspectionId: ObjectIdLike) {
+  try {
+    await dbConnect();
+
+    const inspection = await Inspection.findById(inspectionId).select('date').lean();
+    if (!inspection?.date) return;
+
+    // Repeats are timed from the task before them, so only first tasks follow the inspection
+    const tasks = await Task.find({
+      inspectionId: inspection._id,
+      template: { $exists: true },
+      status: { $ne: 'Complete' },
+      occurrence: { $in: [1, null] },
+    })
+      .select('template')
+      .lean();
+    if (tasks.length === 0) return;
+
+    const templates = new Map(
+      (
+        await TaskTemplate.find({ _id: { $in: tasks.map((task) => task.template) }, dueAnchor: 'inspection_date' })
+          .select('dueAnchor dueOffsetHours')
+          .lean()
+      ).map((template) => [String(template._id), template])
+    );
+
+    const now = new Date();
+    const updates = tasks.flatMap((task) => {
+      const template = templates.get(String(task.template));
+      if (!template) return [];
+      return [
+        {
+          updateOne: {
+            filter: { _id: task._id },
+            update: {
+              $set: {
+                dueDate: getTemplateDueDate(template, inspection.date, now),
+                dueSoonNotifiedAt: null,
+                overdueNotifiedAt: null,
+              },
+            },
+          },
+        },
+      ];
+    });
+
+    if (updates.length > 0) {
+      await Task.bulkWrite(updates);
+    }
+  } catch (error) {
+    console.error('Error realigning template tasks:', error);
+  }
+}
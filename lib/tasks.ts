@@ -0,0 +1,118 @@
+import mongoose from 'mongoose';
+
+import dbConnect from './db';
+import Task from '@/src/models/Task';
+import { IUser } from '@/src/models/User';
+import { TaskPriority, TaskStatus, TaskType } from '@/constants/tasks';
+
+type TaskViewer = Pick<IUser, '_id' | 'company'>;
+
+export const TASK_LIST_PAGE_SIZE = 50;
+
+export interface TaskListFilters {
+  // 'mine' lists the viewer's tasks, 'all' everyone's in the company
+  assignee: 'mine' | 'all';
+  status: 'open' | 'complete' | 'all';
+  overdueOnly: boolean;
+  page: number;
+}
+
+export interface TaskListItem {
+  _id: string;
+  inspectionId: string;
+  title: string;
+  description: string;
+  taskType: TaskType;
+  priority: TaskPriority;
+  status: TaskStatus;
+  dueDate: string | null;
+  overdue: boolean;
+  fromTemplate: boolean;
+  assignedTo: { _id: string; firstName: string; lastName: string } | null;
+  inspection: { _id: string; address: string; date: string | null; orderId: number | null } | null;
+}
+
+export function parseTaskListFilters(searchParams: URLSearchParams): TaskListFilters {
+  const status = searchParams.get('status');
+  const page = Number(searchParams.get('page'));
+  return {
+    assignee: searchParams.get('assignee') === 'all' ? 'all' : 'mine',
+    status: status === 'complete' || status === 'all' ? status : 'open',
+    overdueOnly: searchParams.get('overdue') === 'true',
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+}
+
+/**
+ * Tasks across every inspection, soonest due first. Tasks on deleted inspections show no inspection.
+ */
+export async function getTaskList(viewer: TaskViewer, filters: TaskListFilters) {
+  await dbConnect();
+
+  const now = new Date();
+  const query: Record<string, unknown> = { companyId: viewer.company };
+  if (filters.assignee === 'mine') query.assignedTo = viewer._id;
+  if (filters.status === 'open') query.status = { $ne: 'Complete' };
+  if (filters.status === 'complete') query.status = 'Complete';
+  if (filters.overdueOnly) {
+    query.status = { $ne: 'Complete' };
+    query.dueDate = { $lt: now };
+  }
+
+  const openQuery = { companyId: viewer.company, status: { $ne: 'Complete' }, ...(filters.assignee === 'mine' ? { assignedTo: viewer._id } : {}) };
+  const [tasks, total, openCount, overdueCount] = await Promise.all([
+    Task.find(query)
+      .sort({ dueDate: filters.status === 'complete' ? -1 : 1, _id: 1 })
+      .skip((filters.page - 1) * TASK_LIST_PAGE_SIZE)
+      .limit(TASK_LIST_PAGE_SIZE)
+      .populate('assignedTo', 'firstName lastName')
+      .populate('inspectionId', 'location.address date orderId deletedAt')
+      .lean(),
+    Task.countDocuments(query),
+    Task.countDocuments(openQuery),
+    Task.countDocuments({ ...openQuery, dueDate: { $lt: now } }),
+  ]);
+
+  const items: TaskListItem[] = tasks.map((task) => {
+    const assignedTo = task.assignedTo as unknown as Partial<IUser> | undefined;
+    const inspection = task.inspectionId as unknown as
+      | { _id: mongoose.Types.ObjectId; location?: { address?: string }; date?: Date; orderId?: number; deletedAt?: Date }
+      | null;
+    const dueDate = task.dueDate ? new Date(task.dueDate) : null;
+
+    return {
+      _id: String(task._id),
+      inspectionId: inspection?._id ? String(inspection._id) : '',
+      title: task.title,
+      description: task.description || '',
+      taskType: task.taskType,
+      priority: task.priority,
+      status: task.status,
+      dueDate: dueDate ? dueDate.toISOString() : null,
+      overdue: Boolean(dueDate && dueDate < now && task.status !== 'Complete'),
+      fromTemplate: Boolean(task.template),
+      assignedTo: assignedTo?._id
+        ? { _id: String(assignedTo._id), firstName: assignedTo.firstName || '', lastName: assignedTo.lastName || '' }
+        : null,
+      inspection: inspection?._id && !inspection.deletedAt
+        ? {
+            _id: String(inspection._id),
+            address: inspection.location?.address || '',
+            date: inspection.date ? new Date(inspection.date).toISOString() : null,
+            orderId: inspection.orderId ?? null,
+          }
+        : null,
+    };
+  });
+
+  return {
+    tasks: items,
+    counts: { open: openCount, overdue: overdueCount },
+    pagination: {
+      page: filters.page,
+      limit: TASK_LIST_PAGE_SIZE,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / TASK_LIST_PAGE_SIZE)),
+    },
+  };
+}
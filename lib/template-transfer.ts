@@ -0,0 +1,369 @@
+import mongoose from 'mongoose';
+
+import InspectionTemplate from '@/src/models/InspectionTemplate';
+import Section from '@/src/models/Section';
+import SectionChecklist from '@/src/models/SectionChecklist';
+
+export const TEMPLATE_EXPORT_FORMAT = 'inspection-template';
+export const TEMPLATE_EXPORT_VERSION = 1;
+
+type ChecklistType = 'status' | 'information';
+type ChecklistTab = 'information' | 'limitations';
+
+export interface TemplateTransferItem {
+  text: string;
+  type: ChecklistType;
+  tab: ChecklistTab;
+  comment?: string;
+  order_index: number;
+  answer_choices?: string[];
+  default_checked?: boolean;
+  default_selected_answers?: string[];
+}
+
+export interface TemplateTransferSection {
+  name: string;
+  order_index: number;
+  items: TemplateTransferItem[];
+}
+
+export interface TemplateExport {
+  format: typeof TEMPLATE_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  template: {
+    name: string;
+    description?: string;
+  };
+  sections: TemplateTransferSection[];
+}
+
+export type ImportItemAction = 'add' | 'change' | 'unchanged' | 'conflict';
+
+export interface ImportItemPreview {
+  text: string;
+  action: ImportItemAction;
+  // Field names that differ from the existing item
+  changes?: string[];
+  reason?: string;
+  // Conflicts that overwriteConflicts may apply; duplicates inside the import never are
+  overwritable?: boolean;
+}
+
+export interface ImportSectionPreview {
+  name: string;
+  action: 'add' | 'merge';
+  items: ImportItemPreview[];
+}
+
+export interface TemplateImportPreview {
+  sections: ImportSectionPreview[];
+  totals: Record<ImportItemAction, number> & { sectionsAdded: number };
+}
+
+export interface TemplateImportOptions {
+  // Apply conflicting items (type or tab differs) over the existing ones instead of skipping them
+  overwriteConflicts?: boolean;
+}
+
+const CHANGE_FIELDS: Array<keyof TemplateTransferItem> = [
+  'comment',
+  'answer_choices',
+  'default_checked',
+  'default_selected_answers',
+];
+
+const normalizeKey = (value: string) => value.trim().toLowerCase();
+
+const toStringArray = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const strings = value
+    .filter((entry) => typeof entry === 'string')
+    .map((entry: string) => entry.trim())
+    .filter(Boolean);
+  return strings.length > 0 ? strings : undefined;
+};
+
+const toOrder = (value: unknown, fallback: number) => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Normalize an uploaded template. Accepts our own export format and the Spectora-style
+ * `{ sections: [{ name, items: [{ text, type, tab, comment, order }] }] }` shape.
+ */
+export function parseTemplateImport(payload: unknown): {
+  sections?: TemplateTransferSection[];
+  template?: { name?: string; description?: string };
+  error?: string;
+} {
+  if (!payload || typeof payload !== 'object') {
+    return { error: 'Template file must be a JSON object' };
+  }
+
+  const data = payload as Record<string, any>;
+  if (!Array.isArray(data.sections)) {
+    return { error: 'Template file must contain a sections array' };
+  }
+
+  const sections: TemplateTransferSection[] = [];
+  const seenSections = new Set<string>();
+
+  for (let sectionIndex = 0; sectionIndex < data.sections.length; sectionIndex++) {
+    const rawSection = data.sections[sectionIndex];
+    const name = typeof rawSection?.name === 'string' ? rawSection.name.trim() : '';
+    if (!name) {
+      return { error: `Section ${sectionIndex + 1} is missing a name` };
+    }
+    if (seenSections.has(normalizeKey(name))) {
+      return { error: `Section "${name}" appears more than once` };
+    }
+    seenSections.add(normalizeKey(name));
+
+    const rawItems = Array.isArray(rawSection.items)
+      ? rawSection.items
+      : Array.isArray(rawSection.checklists)
+        ? rawSection.checklists
+        : [];
+
+    const items: TemplateTransferItem[] = [];
+    rawItems.forEach((rawItem: any, itemIndex: number) => {
+      const text = typeof rawItem?.text === 'string' ? rawItem.text.trim() : '';
+      if (!text) return;
+
+      const comment = typeof rawItem.comment === 'string' ? rawItem.comment.trim() : '';
+      items.push({
+        text,
+        type: rawItem.type === 'status' ? 'status' : 'information',
+        tab: rawItem.tab === 'limitations' ? 'limitations' : 'information',
+        comment: comment || undefined,
+        order_index: toOrder(rawItem.order_index ?? rawItem.order, itemIndex),
+        answer_choices: toStringArray(rawItem.answer_choices),
+        default_checked: typeof rawItem.default_checked === 'boolean' ? rawItem.default_checked : undefined,
+        default_selected_answers: toStringArray(rawItem.default_selected_answers),
+      });
+    });
+
+    sections.push({
+      name,
+      order_index: toOrder(rawSection.order_index ?? rawSection.order, sectionIndex),
+      items,
+    });
+  }
+
+  const template = data.template && typeof data.template === 'object'
+    ? {
+        name: typeof data.template.name === 'string' ? data.template.name : undefined,
+        description: typeof data.template.description === 'string' ? data.template.description : undefined,
+      }
+    : undefined;
+
+  return { sections, template };
+}
+
+/**
+ * Serialize a template into the portable export format
+ */
+export async function exportTemplate(templateId: string): Promise<TemplateExport | null> {
+  const template = await InspectionTemplate.findById(templateId).lean();
+  if (!template) {
+    return null;
+  }
+
+  const sections = await Section.find({ template: template._id }).sort({ order_index: 1 }).lean();
+  const checklists = await SectionChecklist.find({ section_id: { $in: sections.map((section) => section._id) } })
+    .sort({ order_index: 1 })
+    .lean();
+
+  const checklistMap = new Map<string, TemplateTransferItem[]>();
+  for (const checklist of checklists) {
+    const key = checklist.section_id.toString();
+    if (!checklistMap.has(key)) checklistMap.set(key, []);
+    checklistMap.get(key)!.push({
+      text: checklist.text,
+      type: checklist.type,
+      tab: checklist.tab,
+      comment: checklist.comment || undefined,
+      order_index: checklist.order_index,
+      answer_choices: checklist.answer_choices?.length ? checklist.answer_choices : undefined,
+      default_checked: checklist.default_checked || undefined,
+      default_selected_answers: checklist.default_selected_answers?.length ? checklist.default_selected_answers : undefined,
+    });
+  }
+
+  return {
+    format: TEMPLATE_EXPORT_FORMAT,
+    version: TEMPLATE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    template: {
+      name: template.name,
+      description: template.description,
+    },
+    sections: sections.map((section) => ({
+      name: section.name,
+      order_index: section.order_index,
+      items: checklistMap.get(section._id.toString()) || [],
+    })),
+  };
+}
+
+const sameValue = (a: unknown, b: unknown) => {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a || []) === JSON.stringify(b || []);
+  }
+  return (a ?? '') === (b ?? '') || (a === undefined && b === false) || (a === false && b === undefined);
+};
+
+/**
+ * Compare imported sections against a template without writing anything.
+ * Items match existing checklists by text within a section of the same name (case-insensitive).
+ * An item whose type or tab differs from the existing one is a conflict.
+ */
+export async function previewTemplateImport(
+  templateId: string,
+  sections: TemplateTransferSection[]
+): Promise<TemplateImportPreview> {
+  const existingSections = await Section.find({ template: templateId }).lean();
+  const existingChecklists = await SectionChecklist.find({
+    section_id: { $in: existingSections.map((section) => section._id) },
+  }).lean();
+
+  const sectionByName = new Map(existingSections.map((section) => [normalizeKey(section.name), section]));
+  const checklistsBySection = new Map<string, Map<string, (typeof existingChecklists)[number]>>();
+  for (const checklist of existingChecklists) {
+    const key = checklist.section_id.toString();
+    if (!checklistsBySection.has(key)) checklistsBySection.set(key, new Map());
+    checklistsBySection.get(key)!.set(normalizeKey(checklist.text), checklist);
+  }
+
+  const totals = { add: 0, change: 0, unchanged: 0, conflict: 0, sectionsAdded: 0 };
+
+  const previews = sections.map<ImportSectionPreview>((section) => {
+    const existingSection = sectionByName.get(normalizeKey(section.name));
+    const existingItems = existingSection
+      ? checklistsBySection.get(existingSection._id.toString()) || new Map()
+      : new Map();
+    const seenTexts = new Set<string>();
+
+    if (!existingSection) totals.sectionsAdded++;
+
+    const items = section.items.map<ImportItemPreview>((item) => {
+      const key = normalizeKey(item.text);
+      if (seenTexts.has(key)) {
+        totals.conflict++;
+        return { text: item.text, action: 'conflict', reason: 'Duplicate item in the imported section', overwritable: false };
+      }
+      seenTexts.add(key);
+
+      const existing = existingItems.get(key);
+      if (!existing) {
+        totals.add++;
+        return { text: item.text, action: 'add' };
+      }
+
+      if (existing.type !== item.type || existing.tab !== item.tab) {
+        totals.conflict++;
+        return {
+          text: item.text,
+          action: 'conflict',
+          reason: `Existing item is ${existing.type}/${existing.tab}, import is ${item.type}/${item.tab}`,
+          overwritable: true,
+        };
+      }
+
+      const changes = CHANGE_FIELDS.filter((field) => !sameValue((existing as any)[field], item[field]));
+      if (changes.length === 0) {
+        totals.unchanged++;
+        return { text: item.text, action: 'unchanged' };
+      }
+
+      totals.change++;
+      return { text: item.text, action: 'change', changes };
+    });
+
+    return { name: section.name, action: existingSection ? 'merge' : 'add', items };
+  });
+
+  return { sections: previews, totals };
+}
+
+/**
+ * Merge imported sections into a template: new sections and items are created, changed items
+ * are updated, unchanged items are left alone and conflicts are skipped unless overwriteConflicts is set.
+ */
+export async function applyTemplateImport(
+  templateId: string,
+  sections: TemplateTransferSection[],
+  options: TemplateImportOptions = {}
+): Promise<TemplateImportPreview> {
+  const template = await InspectionTemplate.findById(templateId).select('company').lean();
+  if (!template) {
+    throw new Error('Template not found');
+  }
+
+  const preview = await previewTemplateImport(templateId, sections);
+  const companyId = (template.company as mongoose.Types.ObjectId | null) ?? null;
+
+  const existingSections = await Section.find({ template: templateId }).lean();
+  const sectionByName = new Map(existingSections.map((section) => [normalizeKey(section.name), section]));
+  let nextSectionOrder = existingSections.reduce((max, section) => Math.max(max, section.order_index), -1) + 1;
+
+  for (let index = 0; index < sections.length; index++) {
+    const section = sections[index];
+    const sectionPreview = preview.sections[index];
+
+    let sectionId = sectionByName.get(normalizeKey(section.name))?._id as mongoose.Types.ObjectId | undefined;
+    if (!sectionId) {
+      const created = await Section.create({
+        name: section.name,
+        order_index: nextSectionOrder++,
+        template: templateId,
+        company: companyId,
+      });
+      sectionId = created._id as mongoose.Types.ObjectId;
+    }
+
+    for (let itemIndex = 0; itemIndex < section.items.length; itemIndex++) {
+      const item = section.items[itemIndex];
+      const { action, overwritable } = sectionPreview.items[itemIndex];
+
+      if (action === 'add') {
+        await SectionChecklist.create({
+          section_id: sectionId,
+          company: companyId,
+          text: item.text,
+          type: item.type,
+          tab: item.tab,
+          comment: item.comment,
+          answer_choices: item.answer_choices,
+          default_checked: item.default_checked ?? false,
+          default_selected_answers: item.default_selected_answers,
+          order_index: item.order_index,
+        });
+      } else if (action === 'change' || (action === 'conflict' && overwritable && options.overwriteConflicts)) {
+        // Optional fields missing from the import are removed, matching the checklist editor
+        const updateData: Record<string, unknown> = {
+          type: item.type,
+          tab: item.tab,
+          default_checked: item.default_checked ?? false,
+        };
+        const unsetData: Record<string, ''> = {};
+        for (const field of ['comment', 'answer_choices', 'default_selected_answers'] as const) {
+          if (item[field] !== undefined) {
+            updateData[field] = item[field];
+          } else {
+            unsetData[field] = '';
+          }
+        }
+
+        await SectionChecklist.updateOne(
+          { section_id: sectionId, text: item.text },
+          { $set: updateData, ...(Object.keys(unsetData).length > 0 ? { $unset: unsetData } : {}) }
+        ).collation({ locale: 'en', strength: 2 });
+      }
+    }
+  }
+
+  return preview;
+}
@@ -117,6 +117,7 @@ const PLACEHOLDER_SECTIONS: PlaceholderSection[] = [
       { token: "[SIGN_AND_PAY_LINK]", description: "Button leading to sign-and-pay portal." },
       { token: "[SIGN_LINK]", description: "Button linking to the client portal signature page." },
       { token: "[PAY_LINK]", description: "Button linking to the payment page." },
+      { token: "[CALENDAR_LINK]", description: "Link to add the inspection to a calendar (.ics)." },
       { token: "[INSPECTION_TEXT_LINK]", description: "Mobile-friendly inspection details link." },
       { token: "[INVOICE_LINK]", description: "Button linking to the invoice." },
       { token: "[INVOICE_TEXT_LINK]", description: "Mobile-friendly invoice link." },
@@ -342,7 +342,7 @@ export default function AgreementsPage() {
                   />
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  This text will appear on the client portal under "Sign Agreement(s)".
+                  This text will appear on the client portal under &quot;Sign Agreement(s)&quot;.
                 </p>
               </div>
             </div>
@@ -16,7 +16,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Calendar } from "@/components/ui/calendar"
 import { cn } from "@/lib/utils"
-import { DAY_KEYS, type DayKey, DAY_LABELS } from "@/src/constants/availability"
+import { COMMON_TIME_ZONES, DAY_KEYS, type DayKey, DAY_LABELS, DEFAULT_TIME_ZONE } from "@/src/constants/availability"
 import {
   ALLOWED_TIMES,
   normalizeDaysRecord,
@@ -25,6 +25,7 @@ import {
   validateTimeSlots,
   formatTimeLabel,
 } from "@/src/lib/availability-utils"
+import { getTimeZoneAbbreviation, getTimeZoneLabel } from "@/src/lib/time-zones"
 import { toast } from "sonner"
 import type { TimeBlock } from "@/src/models/Availability"
 import {
@@ -69,10 +70,13 @@ type InspectorForm = {
   email?: string
   days: Record<DayKey, DayForm>
   dateSpecific: DateSpecificForm[]
+  // Empty when the inspector follows the company time zone
+  timeZone: string
 }
 
 type AvailabilityFormValues = {
   viewMode: AvailabilityMode
+  timeZone: string
   inspectors: InspectorForm[]
 }
 
@@ -83,12 +87,14 @@ interface AvailabilityApiInspector {
   email?: string
   availability: Record<DayKey, { openSchedule: TimeBlock[]; timeSlots: string[] }>
   dateSpecific: Array<{ date: string; start: string; end: string }>
+  timeZone?: string | null
 }
 
 interface AvailabilityApiResponse {
   inspectors: AvailabilityApiInspector[]
   allowedTimes?: string[]
   viewMode?: AvailabilityMode
+  timeZone?: string
 }
 
 type SaveState = {
@@ -98,9 +104,13 @@ type SaveState = {
 
 const DEFAULT_FORM_VALUES: AvailabilityFormValues = {
   viewMode: "openSchedule",
+  timeZone: DEFAULT_TIME_ZONE,
   inspectors: [],
 }
 
+// Radix selects can't hold an empty value, so "follow the company" gets its own
+const COMPANY_TIME_ZONE_OPTION = "company"
+
 function createEmptyDay(): DayForm {
   return {
     openSchedule: [],
@@ -191,6 +201,7 @@ function mapInspectorToForm(inspector: AvailabilityApiInspector): InspectorForm
         start: entry.start,
         end: entry.end ?? entry.start,
       })) ?? [],
+    timeZone: inspector.timeZone ?? "",
   }
 }
 
@@ -225,6 +236,41 @@ function addMinutesToTime(value: string, minutesToAdd: number) {
   return `${newHours.toString().padStart(2, "0")}:${newMinutes.toString().padStart(2, "0")}`
 }
 
+interface TimeZoneSelectProps {
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+  // Label for the "use the company zone" option; omitted for the company setting itself
+  companyDefaultLabel?: string
+  className?: string
+}
+
+function TimeZoneSelect({ value, onChange, disabled, companyDefaultLabel, className }: TimeZoneSelectProps) {
+  const options = COMMON_TIME_ZONES.some((zone) => zone.value === value) || !value
+    ? COMMON_TIME_ZONES
+    : [...COMMON_TIME_ZONES, { value, label: getTimeZoneLabel(value) }]
+
+  return (
+    <Select
+      value={value || COMPANY_TIME_ZONE_OPTION}
+      onValueChange={(next) => onChange(next === COMPANY_TIME_ZONE_OPTION ? "" : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={cn("w-[240px]", className)}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {companyDefaultLabel && <SelectItem value={COMPANY_TIME_ZONE_OPTION}>{companyDefaultLabel}</SelectItem>}
+        {options.map((zone) => (
+          <SelectItem key={zone.value} value={zone.value}>
+            {zone.label} ({getTimeZoneAbbreviation(zone.value)})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
 function AvailabilityPage() {
   const form = useForm<AvailabilityFormValues>({
     defaultValues: DEFAULT_FORM_VALUES,
@@ -234,10 +280,12 @@ function AvailabilityPage() {
   const [error, setError] = useState<string | null>(null)
   const [saveStates, setSaveStates] = useState<Record<string, SaveState>>({})
   const [updatingViewMode, setUpdatingViewMode] = useState(false)
+  const [updatingTimeZone, setUpdatingTimeZone] = useState(false)
   const initializedRef = useRef(false)
   const lastSavedPayloadRef = useRef<Record<string, string>>({})
 
   const viewMode = useWatch({ control: form.control, name: "viewMode" })
+  const companyTimeZone = useWatch({ control: form.control, name: "timeZone" })
 
   const fetchAvailability = useCallback(async () => {
     try {
@@ -263,6 +311,7 @@ function AvailabilityPage() {
         data.viewMode === "timeSlots" ? "timeSlots" : "openSchedule"
       form.reset({
         viewMode: serverViewMode,
+        timeZone: data.timeZone || DEFAULT_TIME_ZONE,
         inspectors: mappedInspectors,
       })
 
@@ -410,6 +459,69 @@ function AvailabilityPage() {
     }
   }
 
+  const handleTimeZoneChange = async (timeZone: string) => {
+    if (!timeZone || companyTimeZone === timeZone) return
+    const previous = companyTimeZone
+    form.setValue("timeZone", timeZone, { shouldDirty: false, shouldTouch: false })
+    try {
+      setUpdatingTimeZone(true)
+      const response = await fetch("/api/availability/time-zone", {
+        method: "PUT",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ timeZone }),
+      })
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || "Failed to save time zone")
+      }
+      toast.success("Time zone updated")
+    } catch (err: any) {
+      console.error("handleTimeZoneChange error", err)
+      form.setValue("timeZone", previous, { shouldDirty: false, shouldTouch: false })
+      toast.error(err?.message || "Failed to save time zone")
+    } finally {
+      setUpdatingTimeZone(false)
+    }
+  }
+
+  const handleInspectorTimeZoneChange = useCallback(
+    async (index: number, timeZone: string) => {
+      const inspector = form.getValues(`inspectors.${index}`)
+      if (!inspector || inspector.timeZone === timeZone) return
+
+      const previous = inspector.timeZone
+      form.setValue(`inspectors.${index}.timeZone`, timeZone, { shouldDirty: false, shouldTouch: false })
+      try {
+        // The schedule goes along unchanged; the route replaces it on every save
+        const response = await fetch("/api/availability", {
+          method: "PUT",
+          credentials: "include",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            inspectorId: inspector.inspectorId,
+            ...buildInspectorPayload(inspector.days, inspector.dateSpecific),
+            timeZone: timeZone || null,
+          }),
+        })
+        if (!response.ok) {
+          const result = await response.json().catch(() => ({}))
+          throw new Error(result.error || "Failed to save time zone")
+        }
+        toast.success("Time zone updated")
+      } catch (err: any) {
+        console.error("handleInspectorTimeZoneChange error", err)
+        form.setValue(`inspectors.${index}.timeZone`, previous, { shouldDirty: false, shouldTouch: false })
+        toast.error(err?.message || "Failed to save time zone")
+      }
+    },
+    [form],
+  )
+
   const inspectors = useWatch({ control: form.control, name: "inspectors" })
 
   return (
@@ -425,33 +537,40 @@ function AvailabilityPage() {
                 </p>
               </div>
 
-              <div className="flex items-center gap-2 rounded-lg border border-border/50 bg-card/60 backdrop-blur-sm p-1.5">
-                <Button
-                  type="button"
-                  variant={viewMode === "openSchedule" ? "default" : "ghost"}
-                  className={cn(
-                    "rounded-md px-4 py-2 font-medium transition-all",
-                    viewMode === "openSchedule" && "shadow-lg",
-                    updatingViewMode && "opacity-70"
-                  )}
-                  onClick={() => handleModeToggle("openSchedule")}
-                  disabled={updatingViewMode}
-                >
-                  Open Schedule
-                </Button>
-                <Button
-                  type="button"
-                  variant={viewMode === "timeSlots" ? "default" : "ghost"}
-                  className={cn(
-                    "rounded-md px-4 py-2 font-medium transition-all",
-                    viewMode === "timeSlots" && "shadow-lg",
-                    updatingViewMode && "opacity-70"
-                  )}
-                  onClick={() => handleModeToggle("timeSlots")}
-                  disabled={updatingViewMode}
-                >
-                  Time Slots
-                </Button>
+              <div className="flex flex-wrap items-center gap-3">
+                <TimeZoneSelect
+                  value={companyTimeZone}
+                  onChange={handleTimeZoneChange}
+                  disabled={updatingTimeZone || loading}
+                />
+                <div className="flex items-center gap-2 rounded-lg border border-border/50 bg-card/60 backdrop-blur-sm p-1.5">
+                  <Button
+                    type="button"
+                    variant={viewMode === "openSchedule" ? "default" : "ghost"}
+                    className={cn(
+                      "rounded-md px-4 py-2 font-medium transition-all",
+                      viewMode === "openSchedule" && "shadow-lg",
+                      updatingViewMode && "opacity-70"
+                    )}
+                    onClick={() => handleModeToggle("openSchedule")}
+                    disabled={updatingViewMode}
+                  >
+                    Open Schedule
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={viewMode === "timeSlots" ? "default" : "ghost"}
+                    className={cn(
+                      "rounded-md px-4 py-2 font-medium transition-all",
+                      viewMode === "timeSlots" && "shadow-lg",
+                      updatingViewMode && "opacity-70"
+                    )}
+                    onClick={() => handleModeToggle("timeSlots")}
+                    disabled={updatingViewMode}
+                  >
+                    Time Slots
+                  </Button>
+                </div>
               </div>
             </div>
           </div>
@@ -498,6 +617,8 @@ function AvailabilityPage() {
                     saveState={saveStates[inspector.inspectorId] ?? { status: "idle" }}
                     isInitialized={initializedRef.current}
                     inspectorFirstName={inspector.inspectorFirstName}
+                    companyTimeZone={companyTimeZone}
+                    onTimeZoneChange={handleInspectorTimeZoneChange}
                   />
                 )
               })}
@@ -517,6 +638,8 @@ interface InspectorAvailabilityCardProps {
   saveState: SaveState
   isInitialized: boolean
   inspectorFirstName: string
+  companyTimeZone: string
+  onTimeZoneChange: (index: number, timeZone: string) => void
 }
 
 function InspectorAvailabilityCard({
@@ -527,6 +650,8 @@ function InspectorAvailabilityCard({
   saveState,
   isInitialized,
   inspectorFirstName,
+  companyTimeZone,
+  onTimeZoneChange,
 }: InspectorAvailabilityCardProps) {
   const { control, getValues, setError, clearErrors, formState, setValue } = useFormContext<AvailabilityFormValues>()
   const inspector = useWatch({ control, name: `inspectors.${index}` })
@@ -641,6 +766,12 @@ function InspectorAvailabilityCard({
               <CalendarIcon className="h-4 w-4" />
               Date-specific times
             </Button>
+            <TimeZoneSelect
+              value={inspector.timeZone}
+              onChange={(timeZone) => onTimeZoneChange(index, timeZone)}
+              companyDefaultLabel={`Company time zone (${getTimeZoneLabel(companyTimeZone)})`}
+              className="h-9 w-[280px]"
+            />
             {statusContent}
           </div>
 
@@ -4,7 +4,7 @@ import { useEffect, useState } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { Plus, Edit2, Trash2, Loader2, Search } from 'lucide-react';
+import { Plus, Edit2, Trash2, History, Loader2, Search } from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -29,6 +29,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { DataTable, Column } from '@/components/ui/data-table';
+import ChangeHistory from '@/components/ChangeHistory';
 
 const agencySchema = z.object({
   name: z.string().min(1, 'Agency name is required'),
@@ -49,6 +50,7 @@ export default function AgencyManager() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingAgency, setEditingAgency] = useState<Agency | null>(null);
   const [agencyToDelete, setAgencyToDelete] = useState<Agency | null>(null);
+  const [historyFor, setHistoryFor] = useState<Agency | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [saving, setSaving] = useState(false);
   const [pagination, setPagination] = useState({
@@ -145,6 +147,14 @@ export default function AgencyManager() {
       className: 'text-right',
       cell: (row) => (
         <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Change history"
+            onClick={() => setHistoryFor(row)}
+          >
+            <History className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -357,13 +367,23 @@ export default function AgencyManager() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={Boolean(historyFor)} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Change History</DialogTitle>
+            <DialogDescription>Every change made to this agency, newest first.</DialogDescription>
+          </DialogHeader>
+          {historyFor && <ChangeHistory target={{ entityType: 'agency', entityId: historyFor._id }} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={Boolean(agencyToDelete)} onOpenChange={(open) => !open && !isDeleting && setAgencyToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Agency?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{agencyToDelete?.name || ''}"? This action cannot be undone.
+              Are you sure you want to delete &quot;{agencyToDelete?.name || ''}&quot;? This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
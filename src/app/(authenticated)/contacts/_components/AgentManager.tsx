@@ -4,7 +4,7 @@ import { useEffect, useState, useMemo } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { Plus, Edit2, Trash2, Loader2, ChevronsUpDown, X, Search } from 'lucide-react';
+import { Plus, Edit2, Trash2, History, Loader2, ChevronsUpDown, X, Search } from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -54,6 +54,7 @@ import { DataTable, Column } from '@/components/ui/data-table';
 import { MultiSelect, MultiSelectOption } from '@/components/ui/multi-select';
 import { ImageUpload } from '@/components/ui/image-upload';
 import CreatableSelect from 'react-select/creatable';
+import ChangeHistory from '@/components/ChangeHistory';
 
 const months = [
   'January',
@@ -655,6 +656,7 @@ export default function AgentManager() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingAgent, setEditingAgent] = useState<Agent | null>(null);
   const [agentToDelete, setAgentToDelete] = useState<Agent | null>(null);
+  const [historyFor, setHistoryFor] = useState<Agent | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [saving, setSaving] = useState(false);
   const [pagination, setPagination] = useState({
@@ -881,6 +883,14 @@ export default function AgentManager() {
       className: 'text-right',
       cell: (row) => (
         <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Change history"
+            onClick={() => setHistoryFor(row)}
+          >
+            <History className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -1637,13 +1647,23 @@ export default function AgentManager() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={Boolean(historyFor)} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Change History</DialogTitle>
+            <DialogDescription>Every change made to this agent, newest first.</DialogDescription>
+          </DialogHeader>
+          {historyFor && <ChangeHistory target={{ entityType: 'agent', entityId: historyFor._id }} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={Boolean(agentToDelete)} onOpenChange={(open) => !open && !isDeleting && setAgentToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Agent?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{agentToDelete ? getAgentDisplayName(agentToDelete) : ''}"? This action cannot be undone.
+              Are you sure you want to delete &quot;{agentToDelete ? getAgentDisplayName(agentToDelete) : ''}&quot;? This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
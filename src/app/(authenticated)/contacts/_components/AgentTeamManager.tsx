@@ -670,7 +670,7 @@ export default function AgentTeamManager() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Agent Team?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{agentTeamToDelete?.name || ''}"? This action cannot be undone.
+              Are you sure you want to delete &quot;{agentTeamToDelete?.name || ''}&quot;? This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -51,21 +51,9 @@ import {
 } from '@/components/ui/command';
 import { DataTable, Column } from '@/components/ui/data-table';
 import { cn } from '@/lib/utils';
+import { CATEGORY_RULE_TYPES } from '@/constants/categoryRules';
 
-const ruleTypeOptions = [
-  'Total Inspections Count',
-  'Total Revenue',
-  'First Inspection',
-  'Last Inspection',
-  "Buyer's Agent Inspection Count",
-  "Seller's Agent Inspection Count",
-  "Buyer's Agent Revenue",
-  "Seller's Agent Revenue",
-  "Buyer's Agent First Inspection",
-  "Seller's Agent First Inspection",
-  "Buyer's Agent Last Inspection",
-  "Seller's Agent Last Inspection",
-];
+const ruleTypeOptions: string[] = [...CATEGORY_RULE_TYPES];
 
 const categoryRuleSchema = z.object({
   operation: z.enum(['AND', 'OR']).optional(),
@@ -822,7 +810,7 @@ export default function CategoriesManager() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Category?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete the category "{categoryToDelete?.name}"? This action cannot be undone.
+              Are you sure you want to delete the category &quot;{categoryToDelete?.name}&quot;? This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -4,7 +4,7 @@ import { useEffect, useState, useMemo } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { Plus, Edit2, Trash2, Loader2, Check, ChevronsUpDown, X, Search } from 'lucide-react';
+import { Plus, Edit2, Trash2, History, Loader2, Check, ChevronsUpDown, X, Search } from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -47,6 +47,7 @@ import { DataTable, Column } from '@/components/ui/data-table';
 import { MultiSelect, MultiSelectOption } from '@/components/ui/multi-select';
 import { cn } from '@/lib/utils';
 import CreatableSelect from 'react-select/creatable';
+import ChangeHistory from '@/components/ChangeHistory';
 
 const clientSchema = z.object({
   isCompany: z.boolean(),
@@ -247,6 +248,7 @@ export default function ClientManager() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
   const [clientToDelete, setClientToDelete] = useState<Client | null>(null);
+  const [historyFor, setHistoryFor] = useState<Client | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [saving, setSaving] = useState(false);
   const [pagination, setPagination] = useState({
@@ -466,6 +468,14 @@ export default function ClientManager() {
       className: 'text-right',
       cell: (row) => (
         <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Change history"
+            onClick={() => setHistoryFor(row)}
+          >
+            <History className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -960,13 +970,23 @@ export default function ClientManager() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={Boolean(historyFor)} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Change History</DialogTitle>
+            <DialogDescription>Every change made to this client, newest first.</DialogDescription>
+          </DialogHeader>
+          {historyFor && <ChangeHistory target={{ entityType: 'client', entityId: historyFor._id }} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={Boolean(clientToDelete)} onOpenChange={(open) => !open && !isDeleting && setClientToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Client?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{clientToDelete ? getClientDisplayName(clientToDelete) : ''}"? This action cannot be undone.
+              Are you sure you want to delete &quot;{clientToDelete ? getClientDisplayName(clientToDelete) : ''}&quot;? This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
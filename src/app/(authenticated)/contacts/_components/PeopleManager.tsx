@@ -4,7 +4,7 @@ import { useEffect, useState, useMemo } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { Plus, Edit2, Trash2, Loader2, Check, ChevronsUpDown, X, Search } from 'lucide-react';
+import { Plus, Edit2, Trash2, History, Loader2, Check, ChevronsUpDown, X, Search } from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -54,6 +54,7 @@ import { DataTable, Column } from '@/components/ui/data-table';
 import { MultiSelect, MultiSelectOption } from '@/components/ui/multi-select';
 import { cn } from '@/lib/utils';
 import CreatableSelect from 'react-select/creatable';
+import ChangeHistory from '@/components/ChangeHistory';
 
 const roleOptions = [
   'Attorney',
@@ -262,6 +263,7 @@ export default function PeopleManager() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingPerson, setEditingPerson] = useState<Person | null>(null);
   const [personToDelete, setPersonToDelete] = useState<Person | null>(null);
+  const [historyFor, setHistoryFor] = useState<Person | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [saving, setSaving] = useState(false);
   const [pagination, setPagination] = useState({
@@ -486,6 +488,14 @@ export default function PeopleManager() {
       className: 'text-right',
       cell: (row) => (
         <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Change history"
+            onClick={() => setHistoryFor(row)}
+          >
+            <History className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -977,13 +987,23 @@ export default function PeopleManager() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={Boolean(historyFor)} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Change History</DialogTitle>
+            <DialogDescription>Every change made to this person, newest first.</DialogDescription>
+          </DialogHeader>
+          {historyFor && <ChangeHistory target={{ entityType: 'person', entityId: historyFor._id }} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={Boolean(personToDelete)} onOpenChange={(open) => !open && !isDeleting && setPersonToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Person?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{personToDelete ? getPersonDisplayName(personToDelete) : ''}"? This action cannot be undone.
+              Are you sure you want to delete &quot;{personToDelete ? getPersonDisplayName(personToDelete) : ''}&quot;? This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
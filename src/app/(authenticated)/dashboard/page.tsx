@@ -1,140 +1,303 @@
 "use client";
 
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format, subDays } from 'date-fns';
 import { useAuth } from '../../../contexts/AuthContext';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { DashboardMetrics, DashboardTrendPoint } from '@/lib/dashboard';
+
+type RangePreset = '7' | '30' | '90' | '365' | 'custom';
+
+const RANGE_PRESETS: Array<{ value: RangePreset; label: string }> = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+interface StatCardProps {
+  title: string;
+  value: string | number;
+  description: string;
+  loading: boolean;
+}
+
+function StatCard({ title, value, description, loading }: StatCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? <Skeleton className="h-8 w-16" /> : <div className="text-2xl font-bold">{value}</div>}
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface TrendChartProps {
+  points: DashboardTrendPoint[];
+  valueKey: 'inspections' | 'revenue';
+  formatValue: (value: number) => string;
+}
+
+function TrendChart({ points, valueKey, formatValue }: TrendChartProps) {
+  const values = points.map((point) => point[valueKey] || 0);
+  const max = Math.max(...values, 0);
+
+  if (max === 0) {
+    return (
+      <div className="flex h-[200px] items-center justify-center text-muted-foreground">
+        No activity in this period
+      </div>
+    );
+  }
+
+  // Keep roughly six labels on the axis however many buckets there are
+  const labelEvery = Math.max(1, Math.ceil(points.length / 6));
+
+  return (
+    <div className="flex h-[200px] items-end gap-1">
+      {points.map((point, index) => (
+        <div key={point.period} className="flex h-full flex-1 flex-col justify-end gap-1">
+          <div
+            className="w-full rounded-t bg-primary/80 hover:bg-primary"
+            style={{ height: `${(values[index] / max) * 100}%`, minHeight: values[index] ? 2 : 0 }}
+            title={`${point.label}: ${formatValue(values[index])}`}
+          />
+          <span className="h-4 truncate text-center text-[10px] text-muted-foreground">
+            {index % labelEvery === 0 ? point.label : ''}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
 
 export default function DashboardPage() {
   const { user, logout } = useAuth();
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [from, setFrom] = useState(toDateInput(subDays(new Date(), 29)));
+  const [to, setTo] = useState(toDateInput(new Date()));
+  const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchMetrics = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const params = new URLSearchParams({ from, to });
+        const response = await fetch(`/api/dashboard?${params.toString()}`, { credentials: 'include' });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load dashboard');
+        }
+        setMetrics(result);
+      } catch (err: any) {
+        console.error('Error loading dashboard:', err);
+        setError(err.message || 'Failed to load dashboard');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (from && to) {
+      fetchMetrics();
+    }
+  }, [from, to]);
+
+  const handlePresetChange = (value: RangePreset) => {
+    setPreset(value);
+    if (value !== 'custom') {
+      setFrom(toDateInput(subDays(new Date(), Number(value) - 1)));
+      setTo(toDateInput(new Date()));
+    }
+  };
+
+  const showLoading = loading && !metrics;
 
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-3xl font-bold tracking-tight">Welcome back, {user?.firstName || 'User'}!</h2>
-        <p className="text-muted-foreground">
-          Here's what's happening with your inspections today.
-        </p>
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Welcome back, {user?.firstName || 'User'}!</h2>
+          <p className="text-muted-foreground">
+            Here&apos;s what&apos;s happening with your inspections today.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={preset} onValueChange={(value) => handlePresetChange(value as RangePreset)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_PRESETS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {preset === 'custom' && (
+            <>
+              <Input type="date" className="w-[150px]" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+              <span className="text-muted-foreground">to</span>
+              <Input type="date" className="w-[150px]" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </>
+          )}
+        </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">
-              Total Inspections
-            </CardTitle>
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth="2"
-              className="h-4 w-4 text-muted-foreground"
-            >
-              <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
-              <circle cx="9" cy="7" r="4" />
-              <path d="M22 21v-2a4 4 0 0 0-3-3.87M16 3.13a4 4 0 0 1 0 7.75" />
-            </svg>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground">
-              No inspections yet
-            </p>
-          </CardContent>
-        </Card>
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">
-              Pending Reports
-            </CardTitle>
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth="2"
-              className="h-4 w-4 text-muted-foreground"
-            >
-              <rect width="20" height="14" x="2" y="5" rx="2" />
-              <path d="M2 10h20" />
-            </svg>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground">
-              All caught up!
-            </p>
-          </CardContent>
-        </Card>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Inspections Today"
+          value={metrics?.inspectionsToday ?? 0}
+          description={`${metrics?.inspectionsThisWeek ?? 0} this week`}
+          loading={showLoading}
+        />
+        <StatCard
+          title="Pending Confirmation"
+          value={metrics?.pendingConfirmation ?? 0}
+          description={metrics?.pendingConfirmation ? 'Booked online, awaiting confirmation' : 'All caught up!'}
+          loading={showLoading}
+        />
+        <StatCard
+          title="Reports Not Generated"
+          value={metrics?.reportsNotGenerated ?? 0}
+          description="Past inspections without a report"
+          loading={showLoading}
+        />
+        {metrics?.revenue ? (
+          <StatCard
+            title="Revenue"
+            value={formatCurrency(metrics.revenue.booked)}
+            description={`${formatCurrency(metrics.revenue.collected)} collected in this period`}
+            loading={showLoading}
+          />
+        ) : (
+          <StatCard
+            title="Inspections in Period"
+            value={metrics?.inspectionsInRange ?? 0}
+            description="Scheduled in the selected range"
+            loading={showLoading}
+          />
+        )}
+      </div>
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Defects Found</CardTitle>
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth="2"
-              className="h-4 w-4 text-muted-foreground"
-            >
-              <path d="M22 12h-4l-3 9L9 3l-3 9H2" />
-            </svg>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
+        <Card className="col-span-4">
+          <CardHeader>
+            <CardTitle>Inspections</CardTitle>
+            <CardDescription>
+              {metrics?.inspectionsInRange ?? 0} inspections, grouped by {metrics?.interval ?? 'day'}
+            </CardDescription>
           </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground">
-              Ready to start
-            </p>
+          <CardContent className="pl-2">
+            {showLoading ? (
+              <Skeleton className="h-[200px] w-full" />
+            ) : (
+              <TrendChart points={metrics?.trend || []} valueKey="inspections" formatValue={String} />
+            )}
           </CardContent>
         </Card>
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">
-              Active Now
-            </CardTitle>
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth="2"
-              className="h-4 w-4 text-muted-foreground"
-            >
-              <path d="M22 12h-4l-3 9L9 3l-3 9H2" />
-            </svg>
+        <Card className="col-span-3">
+          <CardHeader>
+            <CardTitle>Top Referring Agents</CardTitle>
+            <CardDescription>By inspections in the selected range</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">1</div>
-            <p className="text-xs text-muted-foreground">
-              You are online
-            </p>
+            {showLoading ? (
+              <Skeleton className="h-[200px] w-full" />
+            ) : metrics?.topAgents.length ? (
+              <div className="space-y-3">
+                {metrics.topAgents.map((agent) => (
+                  <div key={agent.agentId} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="font-medium">{agent.name}</span>
+                    <span className="text-muted-foreground">
+                      {agent.inspections} {agent.inspections === 1 ? 'inspection' : 'inspections'}
+                      {agent.revenue !== undefined ? ` · ${formatCurrency(agent.revenue)}` : ''}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex h-[200px] items-center justify-center text-muted-foreground">
+                No referrals in this period
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
-        <Card className="col-span-4">
+        {metrics?.revenue ? (
+          <Card className="col-span-4">
+            <CardHeader>
+              <CardTitle>Revenue</CardTitle>
+              <CardDescription>Booked value of inspections, grouped by {metrics.interval}</CardDescription>
+            </CardHeader>
+            <CardContent className="pl-2">
+              <TrendChart points={metrics.trend} valueKey="revenue" formatValue={formatCurrency} />
+            </CardContent>
+          </Card>
+        ) : null}
+
+        <Card className={metrics?.revenue ? 'col-span-3' : 'col-span-4'}>
           <CardHeader>
-            <CardTitle>Recent Activity</CardTitle>
-            <CardDescription>
-              Your inspection activity over the last month
-            </CardDescription>
+            <CardTitle>My Open Tasks</CardTitle>
+            <CardDescription>Assigned to you, soonest due first</CardDescription>
           </CardHeader>
-          <CardContent className="pl-2">
-            <div className="flex h-[200px] items-center justify-center text-muted-foreground">
-              No recent activity to display
-            </div>
+          <CardContent>
+            {showLoading ? (
+              <Skeleton className="h-[200px] w-full" />
+            ) : metrics?.myTasks.length ? (
+              <div className="space-y-3">
+                {metrics.myTasks.map((task) => (
+                  <Link
+                    key={task._id}
+                    href={`/inspections/${task.inspectionId}/edit`}
+                    className="flex items-start justify-between gap-2 rounded-md p-2 text-sm hover:bg-muted"
+                  >
+                    <div>
+                      <div className="font-medium">{task.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[task.taskType, task.address].filter(Boolean).join(' · ')}
+                      </div>
+                    </div>
+                    <Badge
+                      variant={task.overdue ? 'outline' : 'secondary'}
+                      className={task.overdue ? 'shrink-0 border-red-300 text-red-700' : 'shrink-0'}
+                    >
+                      {format(new Date(task.dueDate), 'MMM d')}
+                    </Badge>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <div className="flex h-[200px] items-center justify-center text-muted-foreground">
+                No open tasks
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -146,17 +309,14 @@ export default function DashboardPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Button className="w-full" variant="default">
-              New Inspection
-            </Button>
-            <Button className="w-full" variant="outline">
-              View Reports
+            <Button className="w-full" variant="default" asChild>
+              <Link href="/inspections/create">New Inspection</Link>
             </Button>
-            <Button className="w-full" variant="outline">
-              Upload Images
+            <Button className="w-full" variant="outline" asChild>
+              <Link href="/inspections">View Inspections</Link>
             </Button>
-            <Button 
-              className="w-full" 
+            <Button
+              className="w-full"
               variant="destructive"
               onClick={logout}
             >
@@ -168,4 +328,3 @@ export default function DashboardPage() {
     </div>
   );
 }
-
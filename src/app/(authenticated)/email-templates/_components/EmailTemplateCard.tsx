@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { EMAIL_RECIPIENTS, EMAIL_RECIPIENT_LABELS, EmailRecipient } from "@/constants/emailTemplates";
+
+import "react-quill-new/dist/quill.snow.css";
+
+const ReactQuill = dynamic(() => import("react-quill-new"), { ssr: false });
+
+export interface EmailTemplateValue {
+  event: string;
+  label: string;
+  description: string;
+  subject: string;
+  body: string;
+  enabled: boolean;
+  recipients: EmailRecipient[];
+  fixedRecipients: boolean;
+  customized: boolean;
+}
+
+interface EmailTemplateCardProps {
+  template: EmailTemplateValue;
+  onSaved: (template: EmailTemplateValue) => void;
+}
+
+export function EmailTemplateCard({ template, onSaved }: EmailTemplateCardProps) {
+  const [subject, setSubject] = useState(template.subject);
+  const [body, setBody] = useState(template.body);
+  const [enabled, setEnabled] = useState(template.enabled);
+  const [recipients, setRecipients] = useState<EmailRecipient[]>(template.recipients);
+  const [saving, setSaving] = useState(false);
+  const [resetting, setResetting] = useState(false);
+
+  useEffect(() => {
+    setSubject(template.subject);
+    setBody(template.body);
+    setEnabled(template.enabled);
+    setRecipients(template.recipients);
+  }, [template]);
+
+  const quillModules = useMemo(
+    () => ({
+      toolbar: [
+        ["bold", "italic", "underline"],
+        [{ list: "ordered" }, { list: "bullet" }],
+        ["link"],
+        ["clean"],
+      ],
+    }),
+    []
+  );
+
+  const toggleRecipient = (recipient: EmailRecipient, checked: boolean) => {
+    setRecipients((current) =>
+      checked ? [...current, recipient] : current.filter((value) => value !== recipient)
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/email-templates/${template.event}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ subject, body, enabled, recipients }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save email template");
+      }
+      toast.success(`${template.label} email saved`);
+      onSaved(result.template);
+    } catch (error: any) {
+      console.error("Save email template error:", error);
+      toast.error(error.message || "Failed to save email template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      setResetting(true);
+      const response = await fetch(`/api/email-templates/${template.event}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to reset email template");
+      }
+      toast.success(`${template.label} email reset to default`);
+      onSaved(result.template);
+    } catch (error: any) {
+      console.error("Reset email template error:", error);
+      toast.error(error.message || "Failed to reset email template");
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="flex items-center gap-2">
+            {template.label}
+            <Badge variant={template.customized ? "default" : "secondary"}>
+              {template.customized ? "Customized" : "Default"}
+            </Badge>
+          </CardTitle>
+          <CardDescription>{template.description}</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${template.event}-enabled`} className="text-sm font-normal">
+            {enabled ? "On" : "Off"}
+          </Label>
+          <Switch id={`${template.event}-enabled`} checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!template.fixedRecipients && (
+          <div className="space-y-2">
+            <Label>Send to</Label>
+            <div className="flex flex-wrap gap-4">
+              {EMAIL_RECIPIENTS.map((recipient) => (
+                <div key={recipient} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`${template.event}-${recipient}`}
+                    checked={recipients.includes(recipient)}
+                    onCheckedChange={(checked) => toggleRecipient(recipient, checked === true)}
+                  />
+                  <Label htmlFor={`${template.event}-${recipient}`} className="text-sm font-normal">
+                    {EMAIL_RECIPIENT_LABELS[recipient]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">CC addresses saved on clients and agents are copied.</p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor={`${template.event}-subject`}>Subject</Label>
+          <Input
+            id={`${template.event}-subject`}
+            value={subject}
+            onChange={(event) => setSubject(event.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Message</Label>
+          <ReactQuill theme="snow" value={body} onChange={setBody} modules={quillModules} />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {template.customized && (
+            <Button variant="outline" onClick={handleReset} disabled={saving || resetting}>
+              {resetting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+              Reset to Default
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={saving || resetting}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
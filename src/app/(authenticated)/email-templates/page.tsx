@@ -0,0 +1,90 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EMAIL_MERGE_FIELDS } from "@/constants/emailTemplates";
+import { EmailTemplateCard, EmailTemplateValue } from "./_components/EmailTemplateCard";
+
+export default function EmailTemplatesPage() {
+  const [templates, setTemplates] = useState<EmailTemplateValue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch("/api/email-templates", { credentials: "include" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch email templates");
+      }
+      setTemplates(Array.isArray(result.templates) ? result.templates : []);
+    } catch (err: any) {
+      console.error("Error fetching email templates:", err);
+      setError(err.message || "Failed to load email templates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleSaved = (updated: EmailTemplateValue) => {
+    setTemplates((current) => current.map((template) => (template.event === updated.event ? updated : template)));
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Email Templates</h1>
+        <p className="text-muted-foreground">
+          Automated emails sent for your inspections. Turn off notifications for a single inspection from its edit page.
+        </p>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="flex items-start gap-3 p-4">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <p className="text-sm text-muted-foreground">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Merge Fields</CardTitle>
+          <CardDescription>Use these placeholders in subjects and messages; they are filled in for each inspection.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-2 text-sm sm:grid-cols-2">
+            {EMAIL_MERGE_FIELDS.map((field) => (
+              <div key={field.token}>
+                <code className="rounded bg-muted px-1.5 py-0.5 text-xs">{field.token}</code>{" "}
+                <span className="text-muted-foreground">{field.description}</span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <Card>
+          <CardContent className="flex items-center justify-center gap-2 p-10 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading email templates...
+          </CardContent>
+        </Card>
+      ) : (
+        templates.map((template) => (
+          <EmailTemplateCard key={template.event} template={template} onSaved={handleSaved} />
+        ))
+      )}
+    </div>
+  );
+}
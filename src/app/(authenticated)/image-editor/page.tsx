@@ -1,9 +1,11 @@
 "use client";
 
 import { useSearchParams, useRouter } from 'next/navigation';
-import ImageEditor from '../../../../components/ImageEditor';
+import ImageEditor, { EditorMode } from '../../../../components/ImageEditor';
+import AnalysisBatchPanel from '../../../../components/AnalysisBatchPanel';
 import { useState, useRef, useEffect, Suspense } from 'react';
 import { useAnalysisStore } from '@/lib/store';
+import { AnnotationDocument, hasAnnotations, migrateLegacyAnnotations } from '@/lib/annotations';
 
 function ImageEditorPageContent() {
   const searchParams = useSearchParams();
@@ -22,7 +24,7 @@ function ImageEditorPageContent() {
   const isDefectMainMode = mode === 'defect-main' && defectId; // Editing main defect image
   
   const [description, setDescription] = useState('');
-  const [activeMode, setActiveMode] = useState<'none' | 'crop' | 'arrow' | 'circle' | 'square'>('none');
+  const [activeMode, setActiveMode] = useState<EditorMode>('none');
   const [hasCropFrame, setHasCropFrame] = useState(false);
   const [showDrawingDropdown, setShowDrawingDropdown] = useState(false);
   const [showCircleDropdown, setShowCircleDropdown] = useState(false);
@@ -54,8 +56,9 @@ function ImageEditorPageContent() {
   const [videoSrc, setVideoSrc] = useState<string | null>(null);
   const [thumbnail, setThumbnail] = useState<string | null>(null);
   const [isThreeSixty, setIsThreeSixty] = useState(false); // 360° photo flag
-  const [preloadedAnnotations, setPreloadedAnnotations] = useState<any[] | undefined>(undefined);
-  const [currentAnnotations, setCurrentAnnotations] = useState<any[]>([]);
+  const [preloadedAnnotations, setPreloadedAnnotations] = useState<AnnotationDocument | null>(null);
+  // Null until the user changes something, so saving without edits leaves stored annotations alone
+  const [currentAnnotations, setCurrentAnnotations] = useState<AnnotationDocument | null>(null);
 
   // Custom items from localStorage - TEMPLATE (all inspections)
   const [customLocations, setCustomLocations] = useState<string[]>([]);
@@ -363,15 +366,15 @@ function ImageEditorPageContent() {
       const annotationsJson = localStorage.getItem('defectAnnotations');
       if (annotationsJson) {
         try {
-          const annotations = JSON.parse(annotationsJson);
-          console.log('✅ Loaded annotations from localStorage:', annotations.length);
+          const annotations = migrateLegacyAnnotations(JSON.parse(annotationsJson));
+          console.log('✅ Loaded annotations from localStorage:', annotations?.shapes.length || 0);
           setPreloadedAnnotations(annotations);
         } catch (e) {
           console.error('❌ Failed to parse annotations from localStorage:', e);
         }
       } else {
         console.log('ℹ️ No annotations found in localStorage');
-        setPreloadedAnnotations([]);
+        setPreloadedAnnotations(null);
       }
     }
   }, [isDefectMainMode]);
@@ -407,7 +410,7 @@ function ImageEditorPageContent() {
     }
   }, [selectedInspectionId]);
 
-  const handleActionClick = (mode: 'none' | 'crop' | 'arrow' | 'circle' | 'square') => {
+  const handleActionClick = (mode: EditorMode) => {
     if (mode === 'arrow') {
       setShowDrawingDropdown(!showDrawingDropdown);
       setShowCircleDropdown(false);
@@ -762,7 +765,7 @@ function ImageEditorPageContent() {
         }
 
         // Update defect with new main image AND annotations
-        console.log('💾 Saving annotations:', currentAnnotations.length);
+        console.log('💾 Saving annotation shapes:', currentAnnotations?.shapes.length ?? 'unchanged');
         console.log('📝 Full annotations data:', JSON.stringify(currentAnnotations, null, 2));
 
         // If there's an original image in localStorage, save it too
@@ -772,7 +775,7 @@ function ImageEditorPageContent() {
         const updatePayload = {
           inspection_id: currentDefect.inspection_id,
           image: uploadData.url,
-          annotations: currentAnnotations,
+          annotations: currentAnnotations ?? undefined,
           originalImage: originalImageUrl || currentDefect.originalImage || uploadData.url
         };
 
@@ -977,7 +980,7 @@ function ImageEditorPageContent() {
         const annotationData = {
           checklistId,
           imageUrl: uploadData.url,
-          annotations: 'annotated', // Mark as annotated
+          annotations: currentAnnotations ?? undefined,
           inspectionId: inspectionIdFromUrl, // Store inspection ID for modal reopening
           timestamp: Date.now()
         };
@@ -1077,7 +1080,7 @@ function ImageEditorPageContent() {
 
       // Upload original image (without annotations) if available and annotations exist
       let originalImageUrl: string | null = null;
-      if (originalFile && currentAnnotations.length > 0) {
+      if (originalFile && hasAnnotations(currentAnnotations)) {
         console.log('📤 Uploading original (unannotated) image for CREATE flow...');
         const presignedOrigRes = await fetch(
           `/api/r2api?action=presigned&fileName=original-${encodeURIComponent(originalFile.name)}&contentType=${encodeURIComponent(originalFile.type)}`
@@ -1181,7 +1184,7 @@ function ImageEditorPageContent() {
 
       // 2) Send only JSON metadata and URLs to the analysis endpoint
       console.log('🚀 Sending to analyze-image API...');
-      console.log('📝 Sending annotations:', currentAnnotations.length);
+      console.log('📝 Sending annotation shapes:', currentAnnotations?.shapes.length || 0);
       console.log('🖼️ Original image URL:', originalImageUrl || imagePublicUrl);
       console.log('🎨 Annotated image URL:', imagePublicUrl);
       const response = await fetch('/api/llm/analyze-image', {
@@ -1199,7 +1202,7 @@ function ImageEditorPageContent() {
           type: finalType,
           videoUrl: videoPublicUrl,
           thumbnailUrl: thumbnailPublicUrl,
-          annotations: currentAnnotations, // Include annotations for saving
+          annotations: currentAnnotations ?? undefined, // Include annotations for saving
           originalImage: originalImageUrl || imagePublicUrl, // Use original (unannotated) if available, otherwise annotated
         }),
       });
@@ -1519,6 +1522,38 @@ function ImageEditorPageContent() {
           )}
         </div>
 
+        <button
+          className={`action-btn text-btn ${activeMode === 'text' ? 'active' : ''}`}
+          onClick={() => handleActionClick('text')}
+          title="Text label (double-click a label to edit it)"
+        >
+          <i className="fas fa-font"></i>
+        </button>
+
+        <button
+          className={`action-btn callout-btn ${activeMode === 'callout' ? 'active' : ''}`}
+          onClick={() => handleActionClick('callout')}
+          title="Numbered callout (drag from the spot to where the number goes)"
+        >
+          <i className="fas fa-map-marker-alt"></i>
+        </button>
+
+        <button
+          className={`action-btn measure-btn ${activeMode === 'measure' ? 'active' : ''}`}
+          onClick={() => handleActionClick('measure')}
+          title="Measurement line (drag across, then type the length)"
+        >
+          <i className="fas fa-ruler-horizontal"></i>
+        </button>
+
+        <button
+          className={`action-btn blur-btn ${activeMode === 'blur' ? 'active' : ''}`}
+          onClick={() => handleActionClick('blur')}
+          title="Blur faces, plates or personal items"
+        >
+          <i className="fas fa-eye-slash"></i>
+        </button>
+
         <button
           className="action-btn delete-btn"
           onClick={handleDeleteAnnotation}
@@ -2246,6 +2281,17 @@ function ImageEditorPageContent() {
         </div>
         </div>
       ) : null}
+
+      {/* Batch analysis - only when creating new defects */}
+      {selectedInspectionId && !returnTo && !checklistId && !isAdditionalLocationMode && !isEditAdditionalMode && !isDefectMainMode && (
+        <AnalysisBatchPanel
+          inspectionId={selectedInspectionId}
+          location={selectedLocation2}
+          section={selectedLocation}
+          subSection={selectedSubLocation}
+          selectedColor={selectedColor}
+        />
+      )}
     </div>
   );
 }
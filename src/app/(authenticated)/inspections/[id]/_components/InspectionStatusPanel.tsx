@@ -0,0 +1,207 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  INSPECTION_STATUS_COLORS,
+  INSPECTION_STATUS_LABELS,
+  InspectionStatus,
+} from '@/constants/inspectionStatuses';
+
+interface StatusTransition {
+  status: InspectionStatus;
+  label: string;
+  allowed: boolean;
+}
+
+interface StatusHistoryEntry {
+  _id: string;
+  from: InspectionStatus | null;
+  to: InspectionStatus;
+  changedBy: { _id: string; name: string } | null;
+  note: string;
+  createdAt: string;
+}
+
+interface StatusState {
+  status: InspectionStatus;
+  transitions: StatusTransition[];
+  history: StatusHistoryEntry[];
+}
+
+interface InspectionStatusPanelProps {
+  inspectionId: string;
+  // Called after a change, since statuses also update fields such as the confirmation flag
+  onUpdated?: () => void | Promise<void>;
+}
+
+// Changes worth explaining are asked for a note before they are made
+const NOTE_PROMPTED: InspectionStatus[] = ['cancelled', 'no_show'];
+
+function StatusBadge({ status }: { status: InspectionStatus }) {
+  return (
+    <span className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-semibold ${INSPECTION_STATUS_COLORS[status]}`}>
+      {INSPECTION_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+export default function InspectionStatusPanel({ inspectionId, onUpdated }: InspectionStatusPanelProps) {
+  const [state, setState] = useState<StatusState | null>(null);
+  const [pending, setPending] = useState<InspectionStatus | null>(null);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/inspections/${inspectionId}/status`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load status');
+      }
+      setState(data);
+    } catch (error: any) {
+      console.error('Error fetching inspection status:', error);
+    }
+  }, [inspectionId]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const changeStatus = async (status: InspectionStatus, statusNote?: string) => {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/inspections/${inspectionId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ status, note: statusNote || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change status');
+      }
+
+      setState({ status: data.to, transitions: data.transitions, history: data.history });
+      setPending(null);
+      setNote('');
+      toast.success(`Marked ${INSPECTION_STATUS_LABELS[status].toLowerCase()}`);
+      await onUpdated?.();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to change status');
+      // Someone else may have moved it on; show where it is now
+      await fetchStatus();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTransition = (status: InspectionStatus) => {
+    if (NOTE_PROMPTED.includes(status)) {
+      setPending(status);
+    } else {
+      changeStatus(status);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg bg-muted/50">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-lg">Status</h3>
+        {state && <StatusBadge status={state.status} />}
+      </div>
+
+      {!state ? (
+        <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : (
+        <>
+          {state.transitions.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {state.transitions.map((transition) => (
+                <Button
+                  key={transition.status}
+                  type="button"
+                  variant={transition.status === 'cancelled' || transition.status === 'no_show' ? 'outline' : 'secondary'}
+                  size="sm"
+                  disabled={!transition.allowed || saving}
+                  title={transition.allowed ? undefined : "You don't have permission to make this change"}
+                  onClick={() => handleTransition(transition.status)}
+                >
+                  {transition.label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-4 space-y-2">
+            <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">History</h4>
+            {state.history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No status changes recorded yet</p>
+            ) : (
+              <ol className="space-y-2">
+                {[...state.history].reverse().map((entry) => (
+                  <li key={entry._id} className="p-3 bg-card border rounded-lg text-sm">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {entry.from ? (
+                        <>
+                          <StatusBadge status={entry.from} />
+                          <span className="text-muted-foreground">→</span>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">Created as</span>
+                      )}
+                      <StatusBadge status={entry.to} />
+                    </div>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {entry.changedBy?.name || 'System'} · {new Date(entry.createdAt).toLocaleString()}
+                    </p>
+                    {entry.note && <p className="mt-1 whitespace-pre-wrap">{entry.note}</p>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </>
+      )}
+
+      <Dialog open={Boolean(pending)} onOpenChange={(open) => !open && !saving && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark {pending ? INSPECTION_STATUS_LABELS[pending] : ''}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="status-note">Note (optional)</Label>
+            <Textarea
+              id="status-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Why is this changing?"
+              maxLength={1000}
+            />
+            {pending === 'cancelled' && (
+              <p className="text-xs text-muted-foreground">
+                Clients and agents who received a confirmation are sent a cancellation.
+              </p>
+            )}
+            {pending === 'no_show' && (
+              <p className="text-xs text-muted-foreground">A task to reschedule is created for you.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPending(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={() => pending && changeStatus(pending, note)} disabled={saving}>
+              {saving ? 'Saving…' : 'Confirm'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useState } from 'react';
+import ReactSelect from 'react-select';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+
+interface TeamMember {
+  _id: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  photoUrl?: string;
+}
+
+interface ServiceAssignment {
+  serviceId: string;
+  serviceName?: string;
+  // null when the lead does the service
+  inspectorId: string | null;
+}
+
+interface InspectionTeamPanelProps {
+  inspectionId: string;
+  inspector?: TeamMember | null;
+  inspectors?: TeamMember[];
+  serviceAssignments?: ServiceAssignment[];
+  inspectorOptions: Array<{ value: string; label: string }>;
+  onUpdated: () => void | Promise<void>;
+}
+
+interface TeamFormState {
+  inspector: string | null;
+  inspectors: string[];
+  assignments: Record<string, string | null>;
+}
+
+const memberName = (member?: TeamMember | null) => `${member?.firstName || ''} ${member?.lastName || ''}`.trim();
+
+function LeadCard({ inspector }: { inspector: TeamMember }) {
+  const name = memberName(inspector);
+
+  return (
+    <div className="p-4 bg-card border rounded-lg hover:shadow-sm transition-shadow">
+      <div className="flex items-start gap-3">
+        {inspector.photoUrl ? (
+          <img
+            src={inspector.photoUrl}
+            alt={name}
+            className="w-14 h-14 rounded-full object-cover"
+            onError={(e) => {
+              e.currentTarget.src = 'https://ui-avatars.com/api/?name=' + encodeURIComponent(name) + '&background=8230c9&color=fff';
+            }}
+          />
+        ) : (
+          <div className="w-14 h-14 rounded-full bg-primary flex items-center justify-center text-white font-bold text-xl shadow-md">
+            {`${inspector.firstName?.charAt(0) || ''}${inspector.lastName?.charAt(0) || ''}`.toUpperCase() || 'I'}
+          </div>
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="font-bold text-lg mb-1.5">{name}</p>
+          <div className="space-y-1">
+            {inspector.email && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <i className="fas fa-envelope w-4 text-xs"></i>
+                <span className="truncate">{inspector.email}</span>
+              </p>
+            )}
+            {inspector.phone && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <i className="fas fa-phone w-4 text-xs"></i>
+                {inspector.phone}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function InspectionTeamPanel({
+  inspectionId,
+  inspector,
+  inspectors = [],
+  serviceAssignments = [],
+  inspectorOptions,
+  onUpdated,
+}: InspectionTeamPanelProps) {
+  const [form, setForm] = useState<TeamFormState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const others = inspectors.filter((member) => member._id !== inspector?._id);
+  const namesById = new Map(inspectors.map((member) => [member._id, memberName(member)]));
+
+  const openForm = () => {
+    setForm({
+      inspector: inspector?._id || null,
+      inspectors: others.map((member) => member._id),
+      assignments: Object.fromEntries(serviceAssignments.map((entry) => [entry.serviceId, entry.inspectorId])),
+    });
+  };
+
+  // The lead first, then the rest of the team being edited
+  const teamOptions = form
+    ? [form.inspector, ...form.inspectors.filter((id) => id !== form.inspector)]
+        .map((id) => inspectorOptions.find((option) => option.value === id))
+        .filter((option): option is { value: string; label: string } => Boolean(option))
+    : [];
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setSaving(true);
+      const team = new Set(teamOptions.map((option) => option.value));
+      const response = await fetch(`/api/inspections/${inspectionId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          inspector: form.inspector,
+          inspectors: form.inspectors,
+          serviceAssignments: Object.entries(form.assignments)
+            .filter(([, inspectorId]) => inspectorId && inspectorId !== form.inspector && team.has(inspectorId))
+            .map(([serviceId, inspectorId]) => ({ serviceId, inspector: inspectorId })),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update inspectors');
+      }
+
+      toast.success('Inspection team updated');
+      setForm(null);
+      await onUpdated();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update inspectors');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-lg bg-muted/50">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-lg">Inspectors</h3>
+        <Button type="button" variant="outline" size="sm" onClick={openForm} disabled={inspectorOptions.length === 0}>
+          Edit
+        </Button>
+      </div>
+
+      {inspector ? (
+        <LeadCard inspector={inspector} />
+      ) : (
+        <div className="text-center py-8">
+          <div className="w-16 h-16 mx-auto mb-3 rounded-full bg-muted flex items-center justify-center">
+            <i className="fas fa-user-tie text-2xl text-muted-foreground"></i>
+          </div>
+          <p className="text-sm text-muted-foreground">No inspector assigned</p>
+        </div>
+      )}
+
+      {others.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Also on this job</h4>
+          {others.map((member) => (
+            <div key={member._id} className="p-3 bg-card border rounded-lg text-sm">
+              <p className="font-medium">{memberName(member)}</p>
+              {member.email && <p className="text-muted-foreground truncate">{member.email}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {serviceAssignments.some((entry) => entry.inspectorId) && (
+        <div className="mt-4 space-y-1">
+          <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Services</h4>
+          {serviceAssignments.map((entry) => (
+            <div key={entry.serviceId} className="flex justify-between gap-2 text-sm">
+              <span>{entry.serviceName || 'Service'}</span>
+              <span className="text-muted-foreground">
+                {entry.inspectorId ? namesById.get(entry.inspectorId) || 'Unknown' : memberName(inspector) || 'Lead'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={Boolean(form)} onOpenChange={(open) => !open && !saving && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Inspection Team</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Lead Inspector</Label>
+                <ReactSelect
+                  value={inspectorOptions.find((option) => option.value === form.inspector) || null}
+                  onChange={(option) => setForm({ ...form, inspector: option?.value || null })}
+                  options={inspectorOptions}
+                  isClearable
+                  placeholder="Select an inspector..."
+                  className="react-select-container"
+                  classNamePrefix="react-select"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Additional Inspectors</Label>
+                <ReactSelect
+                  isMulti
+                  value={inspectorOptions.filter((option) => form.inspectors.includes(option.value))}
+                  onChange={(options) => setForm({ ...form, inspectors: (options || []).map((option) => option.value) })}
+                  options={inspectorOptions.filter((option) => option.value !== form.inspector)}
+                  placeholder="Add inspectors..."
+                  className="react-select-container"
+                  classNamePrefix="react-select"
+                />
+              </div>
+
+              {serviceAssignments.length > 0 && teamOptions.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Services</Label>
+                  {serviceAssignments.map((entry) => (
+                    <div key={entry.serviceId} className="grid grid-cols-2 items-center gap-2">
+                      <span className="text-sm">{entry.serviceName || 'Service'}</span>
+                      <ReactSelect
+                        value={teamOptions.find((option) => option.value === form.assignments[entry.serviceId]) || teamOptions[0]}
+                        onChange={(option) =>
+                          setForm({ ...form, assignments: { ...form.assignments, [entry.serviceId]: option?.value || null } })
+                        }
+                        options={teamOptions}
+                        className="react-select-container"
+                        classNamePrefix="react-select"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                Upcoming inspections are checked against everyone&apos;s calendar before the change is saved.
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving…' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
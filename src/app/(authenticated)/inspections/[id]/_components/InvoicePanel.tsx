@@ -0,0 +1,265 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  INVOICE_STATUS_LABELS,
+  MANUAL_PAYMENT_METHODS,
+  ManualPaymentMethod,
+  PAYMENT_METHOD_LABELS,
+} from '@/constants/payments';
+
+interface InvoicePanelProps {
+  inspectionId: string;
+}
+
+interface PaymentFormState {
+  type: 'payment' | 'refund';
+  method: ManualPaymentMethod;
+  amount: string;
+  reference: string;
+  notes: string;
+  refundOf?: string;
+}
+
+const formatCurrency = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+export default function InvoicePanel({ inspectionId }: InvoicePanelProps) {
+  const [invoice, setInvoice] = useState<any>(null);
+  const [paymentLink, setPaymentLink] = useState('');
+  const [hidden, setHidden] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<PaymentFormState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchInvoice = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/inspections/${inspectionId}/invoice`, { credentials: 'include' });
+      // Users without financial access don't see the invoice
+      if (response.status === 403) {
+        setHidden(true);
+        return;
+      }
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load invoice');
+      }
+      setInvoice(result.invoice);
+      setPaymentLink(result.paymentLink);
+    } catch (error: any) {
+      console.error('Error fetching invoice:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [inspectionId]);
+
+  useEffect(() => {
+    fetchInvoice();
+  }, [fetchInvoice]);
+
+  const openPaymentForm = (type: 'payment' | 'refund', refundOf?: any) => {
+    const amount = type === 'payment' ? invoice.balance : refundOf?.amount ?? invoice.amountPaid - invoice.amountRefunded;
+    setForm({
+      type,
+      method: refundOf && refundOf.method !== 'online' ? refundOf.method : 'cash',
+      amount: amount > 0 ? String(amount) : '',
+      reference: '',
+      notes: '',
+      refundOf: refundOf?._id,
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!form) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/inspections/${inspectionId}/invoice/payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ ...form, amount: Number(form.amount) }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to record payment');
+      }
+      toast.success(result.message);
+      setForm(null);
+      await fetchInvoice();
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      toast.error(error.message || 'Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyPaymentLink = async () => {
+    try {
+      await navigator.clipboard.writeText(paymentLink);
+      toast.success('Payment link copied');
+    } catch (error) {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  if (hidden) return null;
+
+  return (
+    <div className="p-4 border rounded-lg bg-muted/50">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-lg">Invoice</h3>
+        {invoice && (
+          <Badge variant={invoice.status === 'paid' ? 'default' : 'secondary'}>
+            {INVOICE_STATUS_LABELS[invoice.status as keyof typeof INVOICE_STATUS_LABELS]}
+          </Badge>
+        )}
+      </div>
+
+      {loading && !invoice ? (
+        <div className="flex items-center justify-center py-8">
+          <i className="fas fa-spinner fa-spin text-2xl text-muted-foreground"></i>
+        </div>
+      ) : invoice ? (
+        <div className="space-y-3">
+          <div className="space-y-1 text-sm">
+            {invoice.lineItems.map((line: any, index: number) => (
+              <div key={index} className="flex justify-between gap-2">
+                <span className={line.kind === 'add_on' ? 'pl-3 text-muted-foreground' : undefined}>{line.description}</span>
+                <span>{formatCurrency(line.amount)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between gap-2 border-t pt-1 font-semibold">
+              <span>Total</span>
+              <span>{formatCurrency(invoice.total)}</span>
+            </div>
+          </div>
+
+          {invoice.payments.length > 0 && (
+            <div className="space-y-1 text-xs">
+              {invoice.payments.map((payment: any) => (
+                <div key={payment._id} className="flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground">
+                    {payment.type === 'refund' ? 'Refund' : 'Payment'} · {PAYMENT_METHOD_LABELS[payment.method as keyof typeof PAYMENT_METHOD_LABELS]}
+                    {payment.reference && payment.method !== 'online' ? ` #${payment.reference}` : ''} ·{' '}
+                    {format(new Date(payment.receivedAt), 'MMM d, yyyy')}
+                    {payment.recordedBy ? ` · ${payment.recordedBy.firstName} ${payment.recordedBy.lastName}` : ''}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {formatCurrency(payment.type === 'refund' ? -payment.amount : payment.amount)}
+                    {payment.type === 'payment' && (
+                      <button
+                        type="button"
+                        className="text-primary hover:underline"
+                        onClick={() => openPaymentForm('refund', payment)}
+                      >
+                        Refund
+                      </button>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between gap-2 text-sm font-semibold">
+            <span>Balance Due</span>
+            <span>{formatCurrency(invoice.balance)}</span>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {invoice.balance > 0 && (
+              <Button size="sm" onClick={() => openPaymentForm('payment')}>
+                Record Payment
+              </Button>
+            )}
+            {paymentLink && invoice.balance > 0 && (
+              <Button size="sm" variant="outline" onClick={copyPaymentLink}>
+                Copy Payment Link
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No invoice available</p>
+      )}
+
+      <Dialog open={Boolean(form)} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.type === 'refund' ? 'Record Refund' : 'Record Payment'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              {!(form.type === 'refund' && form.refundOf) && (
+                <div className="space-y-2">
+                  <Label>Method</Label>
+                  <Select
+                    value={form.method}
+                    onValueChange={(value) => setForm({ ...form, method: value as ManualPaymentMethod })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MANUAL_PAYMENT_METHODS.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {PAYMENT_METHOD_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="payment-amount">Amount</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(event) => setForm({ ...form, amount: event.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment-reference">Reference</Label>
+                <Input
+                  id="payment-reference"
+                  placeholder="Check number, card last four..."
+                  value={form.reference}
+                  onChange={(event) => setForm({ ...form, reference: event.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment-notes">Notes</Label>
+                <Input
+                  id="payment-notes"
+                  value={form.notes}
+                  onChange={(event) => setForm({ ...form, notes: event.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={saving || !form?.amount}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
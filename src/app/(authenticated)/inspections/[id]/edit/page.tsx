@@ -24,9 +24,14 @@ import { CalendarIcon } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { splitCommaSeparated } from '@/lib/utils';
+import { AnnotationDocument, hasAnnotations, migrateLegacyAnnotations } from '@/lib/annotations';
 import TaskDialog from '../_components/TaskDialog';
 import TaskCommentsDialog from '../_components/TaskCommentsDialog';
+import InvoicePanel from '../_components/InvoicePanel';
+import InspectionTeamPanel from '../_components/InspectionTeamPanel';
+import InspectionStatusPanel from '../_components/InspectionStatusPanel';
 import EventsManager from '@/components/EventsManager';
+import ChangeHistory from '@/components/ChangeHistory';
 
 const InformationSections = dynamic(() => import('../../../../../../components/InformationSections'), { 
   ssr: false,
@@ -101,7 +106,7 @@ interface Defect {
   isThreeSixty?: boolean;
   additional_images?: Array<{ url: string; location: string; isThreeSixty?: boolean }>;
   base_cost?: number;
-  annotations?: any[];
+  annotations?: AnnotationDocument;
   originalImage?: string;
 }
 
@@ -124,11 +129,14 @@ export default function InspectionEditPage() {
     date?: string;
     inspector?: any;
     inspectorId?: string;
+    inspectors?: any[];
+    serviceAssignments?: Array<{ serviceId: string; serviceName?: string; inspectorId: string | null }>;
     clients?: any[];
     agents?: any[];
     listingAgent?: any[];
     orderId?: number;
     referralSource?: string;
+    inspectionTemplate?: string | null;
     discountCode?: any;
     discountCodeId?: string;
     customData?: Record<string, any>;
@@ -166,7 +174,7 @@ export default function InspectionEditPage() {
   }>({});
   const [savingHeaderImage, setSavingHeaderImage] = useState(false);
   const [playingVideoId, setPlayingVideoId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'defects' | 'information' | 'details'>('details');
+  const [activeTab, setActiveTab] = useState<'defects' | 'information' | 'details' | 'history'>('details');
   const [autoSaving, setAutoSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<string | null>(null);
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -193,6 +201,7 @@ export default function InspectionEditPage() {
   const [inspectors, setInspectors] = useState<{ value: string; label: string }[]>([]);
   const [discountCodes, setDiscountCodes] = useState<any[]>([]);
   const [referralSourceOptions, setReferralSourceOptions] = useState<Array<{ value: string; label: string }>>([]);
+  const [inspectionTemplateOptions, setInspectionTemplateOptions] = useState<Array<{ value: string; label: string }>>([]);
   const [customFieldsDefinitions, setCustomFieldsDefinitions] = useState<any[]>([]);
 
   // Office notes states
@@ -219,6 +228,7 @@ export default function InspectionEditPage() {
 
   // Agreements state
   const [agreements, setAgreements] = useState<any[]>([]);
+  const [agreementSignatures, setAgreementSignatures] = useState<any[]>([]);
   const [loadingAgreements, setLoadingAgreements] = useState(false);
 
   // Fetch inspection details
@@ -239,11 +249,12 @@ export default function InspectionEditPage() {
   // Fetch form data options for Details tab
   const fetchFormDataOptions = async () => {
     try {
-      const [formDataRes, discountCodesRes, reusableDropdownsRes, customFieldsRes] = await Promise.all([
+      const [formDataRes, discountCodesRes, reusableDropdownsRes, customFieldsRes, templatesRes] = await Promise.all([
         fetch('/api/inspections/form-data', { credentials: 'include' }),
         fetch('/api/discount-codes', { credentials: 'include' }),
         fetch('/api/reusable-dropdowns', { credentials: 'include' }),
         fetch('/api/scheduling-options/custom-fields', { credentials: 'include' }),
+        fetch('/api/inspection-templates', { credentials: 'include' }),
       ]);
 
       if (formDataRes.ok) {
@@ -272,6 +283,16 @@ export default function InspectionEditPage() {
         const data = await customFieldsRes.json();
         setCustomFieldsDefinitions(data.customFields || []);
       }
+
+      if (templatesRes.ok) {
+        const data = await templatesRes.json();
+        setInspectionTemplateOptions(
+          (data.templates || []).map((template: any) => ({
+            value: template._id,
+            label: template.isDefault ? `${template.name} (default)` : template.name,
+          }))
+        );
+      }
     } catch (error) {
       console.error('Error fetching form data options:', error);
     }
@@ -336,6 +357,13 @@ export default function InspectionEditPage() {
       );
       
       setAgreements(uniqueAgreements);
+
+      // Each client's signature status for those agreements
+      const signaturesResponse = await fetch(`/api/inspections/${inspectionId}/agreements`, { credentials: 'include' });
+      if (signaturesResponse.ok) {
+        const signaturesData = await signaturesResponse.json();
+        setAgreementSignatures(signaturesData.signatures || []);
+      }
     } catch (error) {
       console.error('Error fetching agreements:', error);
     } finally {
@@ -602,7 +630,7 @@ export default function InspectionEditPage() {
           console.log(`Defect ${idx}:`, {
             id: defect._id,
             hasAnnotations: !!defect.annotations,
-            annotationsCount: defect.annotations?.length || 0,
+            annotationShapes: defect.annotations?.shapes?.length || 0,
             hasOriginalImage: !!defect.originalImage
           });
         });
@@ -728,7 +756,7 @@ export default function InspectionEditPage() {
     console.log('🎨 handleAnnotateMainImage called for defect:', defect._id);
     console.log('📊 Defect data:', {
       hasAnnotations: !!defect.annotations,
-      annotationsCount: defect.annotations?.length || 0,
+      annotationShapes: defect.annotations?.shapes?.length || 0,
       hasOriginalImage: !!defect.originalImage,
       originalImage: defect.originalImage,
       currentImage: defect.image
@@ -738,9 +766,11 @@ export default function InspectionEditPage() {
     localStorage.setItem('editingDefectId', defect._id);
     localStorage.setItem('editingInspectionId', inspectionId);
 
-    if (defect.annotations && defect.annotations.length > 0) {
-      console.log('✅ Saving annotations to localStorage:', defect.annotations);
-      localStorage.setItem('defectAnnotations', JSON.stringify(defect.annotations));
+    // Records saved before annotation documents existed still hold a plain array
+    const annotations = migrateLegacyAnnotations(defect.annotations);
+    if (hasAnnotations(annotations)) {
+      console.log('✅ Saving annotations to localStorage:', annotations);
+      localStorage.setItem('defectAnnotations', JSON.stringify(annotations));
     } else {
       console.log('⚠️ No annotations found in defect, removing from localStorage');
       localStorage.removeItem('defectAnnotations');
@@ -972,6 +1002,9 @@ export default function InspectionEditPage() {
       if (inspectionDetails.discountCodeId !== undefined) {
         updatePayload.discountCode = inspectionDetails.discountCodeId || null;
       }
+      if (inspectionDetails.inspectionTemplate !== undefined) {
+        updatePayload.inspectionTemplate = inspectionDetails.inspectionTemplate || null;
+      }
       if (inspectionDetails.customData !== undefined) {
         updatePayload.customData = inspectionDetails.customData;
       }
@@ -1016,6 +1049,11 @@ export default function InspectionEditPage() {
     triggerDetailsAutoSave();
   };
 
+  const updateInspectionTemplate = (templateId: string | undefined) => {
+    setInspectionDetails(prev => ({ ...prev, inspectionTemplate: templateId ?? null }));
+    triggerDetailsAutoSave();
+  };
+
   const updateDiscountCode = (codeId: string | undefined) => {
     setInspectionDetails(prev => ({ ...prev, discountCodeId: codeId }));
     triggerDetailsAutoSave();
@@ -1582,6 +1620,16 @@ export default function InspectionEditPage() {
           >
             Information Sections
           </button>
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`px-4 py-3 border-b-2 font-semibold transition-colors ${
+              activeTab === 'history'
+                ? 'border-primary text-primary'
+                : 'border-transparent text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            Change History
+          </button>
         </div>
       </div>
 
@@ -2054,7 +2102,7 @@ export default function InspectionEditPage() {
                               
                               {(!displayDefect.additional_images || displayDefect.additional_images.length === 0) && (
                                 <p className="text-xs text-muted-foreground italic">
-                                  No additional location photos yet. Click "Add Location Photo" to add photos from different locations with the same defect.
+                                  No additional location photos yet. Click &quot;Add Location Photo&quot; to add photos from different locations with the same defect.
                                 </p>
                               )}
                             </div>
@@ -2099,61 +2147,28 @@ export default function InspectionEditPage() {
         {activeTab === 'information' && (
           <InformationSections inspectionId={inspectionId} />
         )}
+        {activeTab === 'history' && (
+          <ChangeHistory
+            target={{ inspection: inspectionId }}
+            onRestored={(entityType) => (entityType === 'defect' ? fetchDefects() : undefined)}
+          />
+        )}
         {activeTab === 'details' && (
           <>
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Left Grid - 1/3 width on desktop */}
             <div className="space-y-6 lg:col-span-1 order-2 lg:order-1">
+              <InspectionStatusPanel inspectionId={inspectionId} onUpdated={fetchInspectionDetails} />
+
               {/* Inspector Section */}
-              <div className="p-4 border rounded-lg bg-muted/50">
-                <h3 className="font-semibold text-lg mb-4">Inspector</h3>
-                {inspectionDetails.inspector ? (
-                  <div className="p-4 bg-card border rounded-lg hover:shadow-sm transition-shadow">
-                    <div className="flex items-start gap-3">
-                      {inspectionDetails.inspector.photoUrl ? (
-                        <img 
-                          src={inspectionDetails.inspector.photoUrl} 
-                          alt={`${inspectionDetails.inspector.firstName} ${inspectionDetails.inspector.lastName}`}
-                          className="w-14 h-14 rounded-full object-cover"
-                          onError={(e) => {
-                            e.currentTarget.src = 'https://ui-avatars.com/api/?name=' + encodeURIComponent(`${inspectionDetails.inspector.firstName} ${inspectionDetails.inspector.lastName}`) + '&background=8230c9&color=fff';
-                          }}
-                        />
-                      ) : (
-                        <div className="w-14 h-14 rounded-full bg-primary flex items-center justify-center text-white font-bold text-xl shadow-md">
-                          {`${inspectionDetails.inspector.firstName?.charAt(0) || ''}${inspectionDetails.inspector.lastName?.charAt(0) || ''}`.toUpperCase() || 'I'}
-                        </div>
-                      )}
-                      <div className="flex-1 min-w-0">
-                        <p className="font-bold text-lg mb-1.5">
-                          {inspectionDetails.inspector.firstName} {inspectionDetails.inspector.lastName}
-                        </p>
-                        <div className="space-y-1">
-                          {inspectionDetails.inspector.email && (
-                            <p className="text-sm text-muted-foreground flex items-center gap-2">
-                              <i className="fas fa-envelope w-4 text-xs"></i>
-                              <span className="truncate">{inspectionDetails.inspector.email}</span>
-                            </p>
-                          )}
-                          {inspectionDetails.inspector.phone && (
-                            <p className="text-sm text-muted-foreground flex items-center gap-2">
-                              <i className="fas fa-phone w-4 text-xs"></i>
-                              {inspectionDetails.inspector.phone}
-                            </p>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="text-center py-8">
-                    <div className="w-16 h-16 mx-auto mb-3 rounded-full bg-muted flex items-center justify-center">
-                      <i className="fas fa-user-tie text-2xl text-muted-foreground"></i>
-                    </div>
-                    <p className="text-sm text-muted-foreground">No inspector assigned</p>
-                  </div>
-                )}
-              </div>
+              <InspectionTeamPanel
+                inspectionId={inspectionId}
+                inspector={inspectionDetails.inspector}
+                inspectors={inspectionDetails.inspectors}
+                serviceAssignments={inspectionDetails.serviceAssignments}
+                inspectorOptions={inspectors}
+                onUpdated={fetchInspectionDetails}
+              />
 
               {/* Combined People Section */}
               <div className="p-4 border rounded-lg bg-muted/50">
@@ -2207,7 +2222,7 @@ export default function InspectionEditPage() {
                   <div className="mb-6">
                     <div className="flex items-center gap-2 mb-3">
                       <div className="h-px flex-1 bg-border"></div>
-                      <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Client's Agents ({inspectionDetails.agents.length})</h4>
+                      <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Client&apos;s Agents ({inspectionDetails.agents.length})</h4>
                       <div className="h-px flex-1 bg-border"></div>
                     </div>
                     <div className="space-y-3">
@@ -2327,6 +2342,31 @@ export default function InspectionEditPage() {
                     {agreements.map((agreement, index) => (
                       <div key={agreement._id} className="p-3 bg-card border rounded-lg hover:shadow-sm transition-shadow">
                         <p className="text-sm font-medium">{agreement.name}</p>
+                        {agreementSignatures
+                          .filter((signature) => String(signature.agreement) === String(agreement._id))
+                          .map((signature) => {
+                            const clientName = signature.client?.isCompany
+                              ? signature.client?.companyName
+                              : [signature.client?.firstName, signature.client?.lastName].filter(Boolean).join(' ');
+                            return (
+                              <div key={signature._id} className="mt-2 flex items-center justify-between gap-2 text-xs">
+                                <span className="text-muted-foreground">
+                                  {clientName || 'Client'}:{' '}
+                                  {signature.status === 'signed'
+                                    ? `signed by ${signature.signerName} on ${format(new Date(signature.signedAt), 'MMM d, yyyy h:mm a')}`
+                                    : 'awaiting signature'}
+                                </span>
+                                <a
+                                  href={signature.signingLink}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="shrink-0 text-primary hover:underline"
+                                >
+                                  {signature.status === 'signed' ? 'View' : 'Signing link'}
+                                </a>
+                              </div>
+                            );
+                          })}
                       </div>
                     ))}
                   </div>
@@ -2340,6 +2380,8 @@ export default function InspectionEditPage() {
                 )}
               </div>
 
+              <InvoicePanel inspectionId={inspectionId} />
+
             </div>
             
             {/* Right Grid - Combined Card - 2/3 width on desktop */}
@@ -2393,6 +2435,23 @@ export default function InspectionEditPage() {
                   </div>
                 </div>
 
+                {/* Inspection Template */}
+                <div className="mb-6">
+                  <Label className="text-sm font-semibold mb-2 block">Inspection Template</Label>
+                  <ReactSelect
+                    value={inspectionTemplateOptions.find((option) => option.value === inspectionDetails.inspectionTemplate) || null}
+                    onChange={(option) => updateInspectionTemplate(option?.value)}
+                    options={inspectionTemplateOptions}
+                    isClearable
+                    placeholder="Use the service or company default template..."
+                    className="react-select-container"
+                    classNamePrefix="react-select"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Sections and comments available in this inspection&apos;s report
+                  </p>
+                </div>
+
                 {/* Custom Fields */}
                 {customFieldsDefinitions.length > 0 && (
                   <>
@@ -0,0 +1,265 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import ReactSelect from 'react-select';
+import AsyncSelect from 'react-select/async';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { INVOICE_STATUSES, INVOICE_STATUS_LABELS } from '@/constants/payments';
+import { INSPECTION_STATUSES, INSPECTION_STATUS_LABELS, isInspectionStatus } from '@/constants/inspectionStatuses';
+
+/**
+ * Advanced filters in the search API's URL-parameter form, e.g. `{ status: 'scheduled', 'cf.gateCode': '1234' }`
+ */
+export type InspectionFilters = Record<string, string>;
+
+interface FilterOptions {
+  referralSources: string[];
+  counties: string[];
+  services: Array<{ value: string; label: string }>;
+  customFields: Array<{ fieldKey: string; name: string; fieldType: string; dropdownOptions: string[] }>;
+}
+
+type Option = { value: string; label: string };
+
+interface InspectionFiltersPanelProps {
+  value: InspectionFilters;
+  onChange: (value: InspectionFilters) => void;
+}
+
+const ANY = 'any';
+
+const statusOptions: Option[] = INSPECTION_STATUSES.map((status) => ({ value: status, label: INSPECTION_STATUS_LABELS[status] }));
+
+const toOptions = (values: string[]): Option[] => values.map((value) => ({ value, label: value }));
+
+const personLabel = (person: any) =>
+  person.isCompany
+    ? person.companyName || 'Unnamed Company'
+    : `${person.firstName || ''} ${person.lastName || ''}`.trim() || person.email || 'Unnamed';
+
+// Clients, agents and agencies are searched as the user types, like on the New Inspection form
+const lookup = (endpoint: 'clients' | 'agents' | 'agencies', key: string, label: (item: any) => string) =>
+  async (inputValue: string): Promise<Option[]> => {
+    if (!inputValue || inputValue.length < 2) return [];
+    try {
+      const response = await fetch(`/api/${endpoint}?search=${encodeURIComponent(inputValue)}&limit=20`, {
+        credentials: 'include',
+      });
+      if (!response.ok) return [];
+      const data = await response.json();
+      return (data[key] || []).map((item: any) => ({ value: String(item._id), label: label(item) }));
+    } catch (error) {
+      console.error(`Error searching ${endpoint}:`, error);
+      return [];
+    }
+  };
+
+const loadClients = lookup('clients', 'clients', personLabel);
+const loadAgents = lookup('agents', 'agents', personLabel);
+const loadAgencies = lookup('agencies', 'agencies', (agency) => agency.name || 'Unnamed Agency');
+
+export default function InspectionFiltersPanel({ value, onChange }: InspectionFiltersPanelProps) {
+  const [options, setOptions] = useState<FilterOptions | null>(null);
+  // Names of the clients, agents and agencies picked here; ones from a saved filter aren't known
+  const [labels, setLabels] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const response = await fetch('/api/inspections/filter-options', { credentials: 'include' });
+        if (response.ok) {
+          setOptions(await response.json());
+        }
+      } catch (error) {
+        console.error('Error fetching filter options:', error);
+      }
+    };
+
+    fetchOptions();
+  }, []);
+
+  const set = (key: string, next: string | null | undefined) => {
+    const updated = { ...value };
+    if (next) {
+      updated[key] = next;
+    } else {
+      delete updated[key];
+    }
+    onChange(updated);
+  };
+
+  const selected = (key: string, choices: Option[] = []) => {
+    const current = value[key];
+    if (!current) return null;
+    return choices.find((option) => option.value === current) || { value: current, label: labels[key] || 'Selected' };
+  };
+
+  const asyncField = (key: string, label: string, loadOptions: (input: string) => Promise<Option[]>) => (
+    <div className="space-y-1.5">
+      <Label>{label}</Label>
+      <AsyncSelect
+        loadOptions={loadOptions}
+        value={selected(key)}
+        onChange={(option) => {
+          if (option) setLabels({ ...labels, [key]: option.label });
+          set(key, option?.value);
+        }}
+        isClearable
+        placeholder="Type to search..."
+        noOptionsMessage={({ inputValue }) => (inputValue.length < 2 ? 'Type at least 2 characters to search' : 'No matches')}
+        className="react-select-container"
+        classNamePrefix="react-select"
+      />
+    </div>
+  );
+
+  const choiceField = (key: string, label: string, choices: Option[], anyLabel: string) => (
+    <div className="space-y-1.5">
+      <Label>{label}</Label>
+      <Select value={value[key] || ANY} onValueChange={(next) => set(key, next === ANY ? null : next)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{anyLabel}</SelectItem>
+          {choices.map((choice) => (
+            <SelectItem key={choice.value} value={choice.value}>
+              {choice.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-4 space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-1.5">
+          <Label>From</Label>
+          <Input type="date" value={value.from || ''} onChange={(event) => set('from', event.target.value)} />
+        </div>
+        <div className="space-y-1.5">
+          <Label>To</Label>
+          <Input type="date" value={value.to || ''} onChange={(event) => set('to', event.target.value)} />
+        </div>
+        <div className="space-y-1.5">
+          <Label>Status</Label>
+          <ReactSelect
+            isMulti
+            options={statusOptions}
+            value={(value.status || '')
+              .split(',')
+              .filter(isInspectionStatus)
+              .map((status): Option => ({ value: status, label: INSPECTION_STATUS_LABELS[status] }))}
+            onChange={(selection) => set('status', (selection || []).map((option) => option.value).join(','))}
+            placeholder="Any status"
+            className="react-select-container"
+            classNamePrefix="react-select"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label>Service</Label>
+          <ReactSelect
+            options={options?.services || []}
+            value={selected('service', options?.services)}
+            onChange={(option) => set('service', option?.value)}
+            isClearable
+            placeholder="Any service"
+            className="react-select-container"
+            classNamePrefix="react-select"
+          />
+        </div>
+        {asyncField('client', 'Client', loadClients)}
+        {asyncField('agent', 'Agent', loadAgents)}
+        {asyncField('agency', 'Agency', loadAgencies)}
+        <div className="space-y-1.5">
+          <Label>Referral Source</Label>
+          <ReactSelect
+            options={toOptions(options?.referralSources || [])}
+            value={selected('referralSource', toOptions(options?.referralSources || []))}
+            onChange={(option) => set('referralSource', option?.value)}
+            isClearable
+            placeholder="Any source"
+            className="react-select-container"
+            classNamePrefix="react-select"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label>Zip</Label>
+          <Input value={value.zip || ''} onChange={(event) => set('zip', event.target.value)} placeholder="Starts with..." />
+        </div>
+        <div className="space-y-1.5">
+          <Label>County</Label>
+          <ReactSelect
+            options={toOptions(options?.counties || [])}
+            value={selected('county', toOptions(options?.counties || []))}
+            onChange={(option) => set('county', option?.value)}
+            isClearable
+            placeholder="Any county"
+            className="react-select-container"
+            classNamePrefix="react-select"
+          />
+        </div>
+        {choiceField(
+          'payment',
+          'Payment',
+          [
+            { value: 'none', label: 'No invoice' },
+            ...INVOICE_STATUSES.map((status) => ({ value: status, label: INVOICE_STATUS_LABELS[status] })),
+          ],
+          'Any payment state'
+        )}
+        {choiceField(
+          'report',
+          'Report',
+          [
+            { value: 'published', label: 'Published' },
+            { value: 'unpublished', label: 'Not published' },
+          ],
+          'Any report state'
+        )}
+      </div>
+
+      {options && options.customFields.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-muted-foreground">Custom Fields</h4>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {options.customFields.map((field) => {
+              const key = `cf.${field.fieldKey}`;
+              if (field.fieldType === 'Checkbox') {
+                return (
+                  <div key={key}>
+                    {choiceField(key, field.name, [{ value: 'true', label: 'Checked' }, { value: 'false', label: 'Not checked' }], 'Any')}
+                  </div>
+                );
+              }
+              if (field.fieldType === 'Dropdown') {
+                return <div key={key}>{choiceField(key, field.name, toOptions(field.dropdownOptions), 'Any')}</div>;
+              }
+              return (
+                <div key={key} className="space-y-1.5">
+                  <Label>{field.name}</Label>
+                  <Input
+                    type={field.fieldType === 'Number' ? 'number' : 'text'}
+                    value={value[key] || ''}
+                    onChange={(event) => set(key, event.target.value)}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange({})} disabled={Object.keys(value).length === 0}>
+          Clear filters
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,507 @@
+"use client";
+
+import { useRef, type DragEvent } from 'react';
+import {
+  DEFAULT_BOOKING_DURATION_MINUTES,
+  SCHEDULE_END_TIME,
+  SCHEDULE_INTERVAL_MINUTES,
+  SCHEDULE_START_TIME,
+  type DayKey,
+} from '@/src/constants/availability';
+import { timeToMinutes } from '@/src/lib/availability-utils';
+import type { InspectorAvailability } from '@/src/lib/inspection-availability';
+import {
+  formatInTimeZone,
+  getDayKeyFromDateKey,
+  resolveTimeZone,
+  toDateKey,
+  toTimeKey,
+  zonedTimeToUtc,
+} from '@/src/lib/time-zones';
+import { cn } from '@/lib/utils';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+export interface CalendarInspector {
+  _id: string;
+  name: string;
+  availability: Omit<InspectorAvailability, 'busy'>;
+}
+
+export interface CalendarData {
+  range: { from: string; to: string };
+  timeZone: string;
+  viewMode: 'openSchedule' | 'timeSlots';
+  inspectors: CalendarInspector[];
+  inspections: Array<{
+    _id: string;
+    date: string;
+    status: string;
+    confirmedInspection: boolean;
+    orderId?: number;
+    address: string;
+    inspector: string | null;
+    assignments: Array<{ inspectorId: string; durationMinutes: number }>;
+    serviceAssignments: Array<{ serviceId: string; inspector: string }>;
+  }>;
+  events: Array<{
+    _id: string;
+    inspectionId: string;
+    name: string;
+    inspector: string | null;
+    startDate: string;
+    endDate: string;
+  }>;
+}
+
+/**
+ * One block on the calendar. A team inspection shows up once in each assignee's lane, for that
+ * person's share of it.
+ */
+export interface CalendarItem {
+  key: string;
+  kind: 'inspection' | 'event';
+  id: string;
+  inspectionId: string;
+  laneId: string;
+  start: Date;
+  end: Date;
+  title: string;
+  isLead: boolean;
+  confirmed: boolean;
+}
+
+export interface CalendarDrop {
+  item: CalendarItem;
+  laneId: string;
+  dateKey: string;
+  // Wall-clock time in the company's zone
+  time: string;
+}
+
+export const UNASSIGNED_LANE = 'unassigned';
+
+const DAY_START_MINUTES = timeToMinutes(SCHEDULE_START_TIME);
+const DAY_END_MINUTES = timeToMinutes(SCHEDULE_END_TIME) + SCHEDULE_INTERVAL_MINUTES;
+const DAY_SPAN_MINUTES = DAY_END_MINUTES - DAY_START_MINUTES;
+const ROW_HEIGHT = 28;
+const MONTH_CELL_LIMIT = 3;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const minutesToTime = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/**
+ * Label a calendar day without letting the browser's zone shift it
+ */
+export const formatDateKey = (dateKey: string, options: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' }).format(new Date(`${dateKey}T12:00:00Z`));
+
+const formatTime = (date: Date, timeZone: string) =>
+  formatInTimeZone(date, timeZone, { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Minutes past midnight of `dateKey` on the wall clock, clamped to that day
+ */
+function minutesIntoDay(date: Date, dateKey: string, timeZone: string) {
+  const day = toDateKey(date, timeZone);
+  if (day < dateKey) return 0;
+  if (day > dateKey) return 24 * 60;
+  return timeToMinutes(toTimeKey(date, timeZone));
+}
+
+export function buildCalendarItems(data: CalendarData): CalendarItem[] {
+  const lanes = new Set(data.inspectors.map((inspector) => inspector._id));
+  const items: CalendarItem[] = [];
+
+  data.inspections.forEach((inspection) => {
+    const start = new Date(inspection.date);
+    const title = inspection.address || (inspection.orderId ? `Order #${inspection.orderId}` : 'Inspection');
+    const assignments = inspection.assignments.length > 0
+      ? inspection.assignments
+      : [{ inspectorId: UNASSIGNED_LANE, durationMinutes: DEFAULT_BOOKING_DURATION_MINUTES }];
+
+    assignments
+      .filter((assignment) => assignment.inspectorId === UNASSIGNED_LANE || lanes.has(assignment.inspectorId))
+      .forEach((assignment) => {
+        items.push({
+          key: `inspection-${inspection._id}-${assignment.inspectorId}`,
+          kind: 'inspection',
+          id: inspection._id,
+          inspectionId: inspection._id,
+          laneId: assignment.inspectorId,
+          start,
+          end: new Date(start.getTime() + assignment.durationMinutes * 60000),
+          title,
+          isLead: assignment.inspectorId === inspection.inspector,
+          confirmed: inspection.confirmedInspection,
+        });
+      });
+  });
+
+  data.events.forEach((event) => {
+    const laneId = event.inspector || UNASSIGNED_LANE;
+    if (laneId !== UNASSIGNED_LANE && !lanes.has(laneId)) return;
+    items.push({
+      key: `event-${event._id}`,
+      kind: 'event',
+      id: event._id,
+      inspectionId: event.inspectionId,
+      laneId,
+      start: new Date(event.startDate),
+      end: new Date(event.endDate),
+      title: event.name,
+      isLead: true,
+      confirmed: true,
+    });
+  });
+
+  return items.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Working hours and blocked times of an inspector on a calendar day, as minutes on the company's
+ * wall clock. Hours kept in the inspector's own zone are moved onto the company's.
+ */
+function getAvailabilityBlocks(
+  inspector: CalendarInspector,
+  dateKey: string,
+  data: CalendarData
+): { open: Array<[number, number]>; blocked: Array<[number, number]> } {
+  const inspectorZone = resolveTimeZone(inspector.availability.timeZone, data.timeZone);
+  const day = inspector.availability.days[getDayKeyFromDateKey(dateKey) as DayKey];
+
+  const toBlock = (start: string, end: string): [number, number] | null => {
+    const startAt = zonedTimeToUtc(dateKey, start, inspectorZone);
+    const endAt = zonedTimeToUtc(dateKey, end, inspectorZone);
+    if (!startAt || !endAt) return null;
+    return [minutesIntoDay(startAt, dateKey, data.timeZone), minutesIntoDay(endAt, dateKey, data.timeZone)];
+  };
+  const slotEnd = (time: string) => minutesToTime(Math.min(timeToMinutes(time) + SCHEDULE_INTERVAL_MINUTES, 24 * 60 - 1));
+
+  const open = data.viewMode === 'timeSlots'
+    ? (day?.timeSlots || []).map((time) => toBlock(time, slotEnd(time)))
+    : (day?.openSchedule || []).map((block) => toBlock(block.start, block.end));
+  const blocked = inspector.availability.dateSpecific
+    .filter((entry) => entry.date === dateKey)
+    .map((entry) => toBlock(entry.start, data.viewMode === 'timeSlots' ? slotEnd(entry.start) : entry.end));
+
+  const present = (block: [number, number] | null): block is [number, number] => Boolean(block);
+  return { open: open.filter(present), blocked: blocked.filter(present) };
+}
+
+function describeHours(inspector: CalendarInspector, dateKey: string, data: CalendarData) {
+  const { open, blocked } = getAvailabilityBlocks(inspector, dateKey, data);
+  const label = ([start, end]: [number, number]) => `${formatMinutes(start)}–${formatMinutes(end)}`;
+  return {
+    open: open.length > 0 ? (data.viewMode === 'timeSlots' ? `${open.length} slots` : open.map(label).join(', ')) : null,
+    blocked: blocked.map(label),
+  };
+}
+
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60) % 24;
+  const mins = minutes % 60;
+  const suffix = hours < 12 ? 'am' : 'pm';
+  return `${hours % 12 || 12}${mins ? `:${pad(mins)}` : ''}${suffix}`;
+}
+
+/**
+ * Stack overlapping blocks into rows so none of them hide each other
+ */
+function packRows(items: CalendarItem[]) {
+  const rowEnds: number[] = [];
+  const rows = new Map<string, number>();
+  items.forEach((item) => {
+    const row = rowEnds.findIndex((end) => end <= item.start.getTime());
+    const index = row === -1 ? rowEnds.length : row;
+    rowEnds[index] = item.end.getTime();
+    rows.set(item.key, index);
+  });
+  return { rows, count: Math.max(rowEnds.length, 1) };
+}
+
+function itemClasses(item: CalendarItem) {
+  if (item.kind === 'event') {
+    return 'bg-amber-100 border-amber-300 text-amber-900 dark:bg-amber-900/40 dark:border-amber-700 dark:text-amber-100';
+  }
+  if (!item.confirmed) {
+    return 'bg-background border-dashed border-primary text-primary';
+  }
+  return item.isLead
+    ? 'bg-primary border-primary text-primary-foreground'
+    : 'bg-primary/20 border-primary/40 text-foreground';
+}
+
+interface InspectionCalendarProps {
+  view: CalendarView;
+  days: string[];
+  // Month being shown, to dim the days around it
+  month?: string;
+  data: CalendarData;
+  onDrop: (drop: CalendarDrop) => void;
+  onOpen: (item: CalendarItem) => void;
+  onSelectDay: (dateKey: string) => void;
+}
+
+export default function InspectionCalendar({ view, days, month, data, onDrop, onOpen, onSelectDay }: InspectionCalendarProps) {
+  const dragging = useRef<{ item: CalendarItem; offsetMinutes: number } | null>(null);
+
+  const items = buildCalendarItems(data);
+  const lanes: Array<{ _id: string; name: string; inspector?: CalendarInspector }> = [
+    ...data.inspectors.map((inspector) => ({ _id: inspector._id, name: inspector.name, inspector })),
+    ...(items.some((item) => item.laneId === UNASSIGNED_LANE) ? [{ _id: UNASSIGNED_LANE, name: 'Unassigned' }] : []),
+  ];
+  const dayOf = (item: CalendarItem) => toDateKey(item.start, data.timeZone);
+
+  const startDrag = (event: DragEvent<HTMLElement>, item: CalendarItem, offsetMinutes = 0) => {
+    dragging.current = { item, offsetMinutes };
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', item.key);
+  };
+
+  const allowDrop = (event: DragEvent<HTMLElement>) => {
+    if (dragging.current) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+    }
+  };
+
+  // Dropped on a day without a time: the item keeps its time of day
+  const dropOnDay = (event: DragEvent<HTMLElement>, laneId: string, dateKey: string) => {
+    event.preventDefault();
+    const current = dragging.current;
+    dragging.current = null;
+    if (!current) return;
+    onDrop({ item: current.item, laneId, dateKey, time: toTimeKey(current.item.start, data.timeZone) });
+  };
+
+  // Dropped on the day view's time axis: the item starts where its left edge lands
+  const dropOnTrack = (event: DragEvent<HTMLElement>, laneId: string, dateKey: string) => {
+    event.preventDefault();
+    const current = dragging.current;
+    dragging.current = null;
+    if (!current) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const pointer = DAY_START_MINUTES + ((event.clientX - rect.left) / rect.width) * DAY_SPAN_MINUTES;
+    const snapped = Math.round((pointer - current.offsetMinutes) / SCHEDULE_INTERVAL_MINUTES) * SCHEDULE_INTERVAL_MINUTES;
+    const minutes = Math.min(Math.max(snapped, DAY_START_MINUTES), DAY_END_MINUTES - SCHEDULE_INTERVAL_MINUTES);
+    onDrop({ item: current.item, laneId, dateKey, time: minutesToTime(minutes) });
+  };
+
+  const renderChip = (item: CalendarItem, showLane = false) => (
+    <button
+      key={item.key}
+      type="button"
+      draggable
+      onDragStart={(event) => startDrag(event, item)}
+      onClick={() => onOpen(item)}
+      className={cn('w-full truncate rounded border px-1.5 py-0.5 text-left text-xs cursor-grab', itemClasses(item))}
+      title={`${formatTime(item.start, data.timeZone)}–${formatTime(item.end, data.timeZone)} ${item.title}`}
+    >
+      <span className="font-medium">{formatTime(item.start, data.timeZone)}</span> {item.title}
+      {showLane && item.laneId !== UNASSIGNED_LANE && (
+        <span className="opacity-75"> · {lanes.find((lane) => lane._id === item.laneId)?.name}</span>
+      )}
+    </button>
+  );
+
+  if (view === 'month') {
+    // One chip per inspection, in its lead's lane when the lead is shown, plus the events
+    const shown = items.filter((item) => {
+      if (item.kind === 'event') return true;
+      const copies = items.filter((other) => other.kind === 'inspection' && other.id === item.id);
+      return (copies.find((other) => other.isLead) || copies[0]) === item;
+    });
+
+    return (
+      <div className="grid grid-cols-7 border-l border-t rounded-md overflow-hidden">
+        {days.slice(0, 7).map((dateKey) => (
+          <div key={`header-${dateKey}`} className="border-r border-b bg-muted/50 px-2 py-1 text-xs font-semibold text-muted-foreground">
+            {formatDateKey(dateKey, { weekday: 'short' })}
+          </div>
+        ))}
+        {days.map((dateKey) => {
+          const dayItems = shown.filter((item) => dayOf(item) === dateKey);
+          return (
+            <div
+              key={dateKey}
+              onDragOver={allowDrop}
+              onDrop={(event) => {
+                const item = dragging.current?.item;
+                dropOnDay(event, item?.laneId || UNASSIGNED_LANE, dateKey);
+              }}
+              className={cn(
+                'min-h-28 border-r border-b p-1 space-y-1',
+                month && !dateKey.startsWith(month) && 'bg-muted/30 text-muted-foreground'
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => onSelectDay(dateKey)}
+                className="text-xs font-medium hover:underline"
+              >
+                {formatDateKey(dateKey, { day: 'numeric' })}
+              </button>
+              {dayItems.slice(0, MONTH_CELL_LIMIT).map((item) => renderChip(item, true))}
+              {dayItems.length > MONTH_CELL_LIMIT && (
+                <button
+                  type="button"
+                  onClick={() => onSelectDay(dateKey)}
+                  className="text-xs text-muted-foreground hover:underline"
+                >
+                  +{dayItems.length - MONTH_CELL_LIMIT} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  if (lanes.length === 0) {
+    return (
+      <div className="rounded-md border p-8 text-center text-sm text-muted-foreground">
+        No inspectors to show. Add inspectors to your company to see their calendars.
+      </div>
+    );
+  }
+
+  if (view === 'week') {
+    return (
+      <div className="overflow-x-auto rounded-md border">
+        <div className="grid min-w-[900px]" style={{ gridTemplateColumns: `10rem repeat(${days.length}, minmax(0, 1fr))` }}>
+          <div className="border-b bg-muted/50" />
+          {days.map((dateKey) => (
+            <button
+              key={`header-${dateKey}`}
+              type="button"
+              onClick={() => onSelectDay(dateKey)}
+              className="border-b border-l bg-muted/50 px-2 py-1 text-left text-xs font-semibold hover:underline"
+            >
+              {formatDateKey(dateKey, { weekday: 'short', month: 'short', day: 'numeric' })}
+            </button>
+          ))}
+          {lanes.map((lane) => (
+            <div key={lane._id} className="contents">
+              <div className="border-b px-2 py-2 text-sm font-medium truncate">{lane.name}</div>
+              {days.map((dateKey) => {
+                const hours = lane.inspector ? describeHours(lane.inspector, dateKey, data) : null;
+                return (
+                  <div
+                    key={`${lane._id}-${dateKey}`}
+                    onDragOver={allowDrop}
+                    onDrop={(event) => dropOnDay(event, lane._id, dateKey)}
+                    className={cn('min-h-20 border-b border-l p-1 space-y-1', hours && !hours.open && 'bg-muted/60')}
+                  >
+                    {hours && (
+                      <p className="text-[10px] leading-tight text-muted-foreground">
+                        {hours.open || 'Unavailable'}
+                        {hours.blocked.length > 0 && (
+                          <span className="block text-destructive">Blocked {hours.blocked.join(', ')}</span>
+                        )}
+                      </p>
+                    )}
+                    {items
+                      .filter((item) => item.laneId === lane._id && dayOf(item) === dateKey)
+                      .map((item) => renderChip(item))}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const dateKey = days[0];
+  const position = (start: number, end: number) => ({
+    left: `${((Math.max(start, DAY_START_MINUTES) - DAY_START_MINUTES) / DAY_SPAN_MINUTES) * 100}%`,
+    width: `${((Math.min(end, DAY_END_MINUTES) - Math.max(start, DAY_START_MINUTES)) / DAY_SPAN_MINUTES) * 100}%`,
+  });
+  const hourMarks: number[] = [];
+  for (let minutes = Math.ceil(DAY_START_MINUTES / 60) * 60; minutes < DAY_END_MINUTES; minutes += 60) {
+    hourMarks.push(minutes);
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-md border">
+      <div className="min-w-[1000px]">
+        <div className="flex border-b bg-muted/50">
+          <div className="w-40 shrink-0" />
+          <div className="relative h-7 flex-1">
+            {hourMarks.map((minutes) => (
+              <span
+                key={minutes}
+                className="absolute top-1 -translate-x-1/2 text-[10px] text-muted-foreground"
+                style={{ left: position(minutes, minutes).left }}
+              >
+                {formatMinutes(minutes)}
+              </span>
+            ))}
+          </div>
+        </div>
+        {lanes.map((lane) => {
+          const laneItems = items.filter((item) => item.laneId === lane._id && dayOf(item) === dateKey);
+          const { rows, count } = packRows(laneItems);
+          const blocks = lane.inspector ? getAvailabilityBlocks(lane.inspector, dateKey, data) : { open: [], blocked: [] };
+
+          return (
+            <div key={lane._id} className="flex border-b last:border-b-0">
+              <div className="w-40 shrink-0 border-r px-2 py-2 text-sm font-medium truncate">{lane.name}</div>
+              <div
+                className={cn('relative flex-1', lane.inspector && blocks.open.length === 0 && 'bg-muted/60')}
+                style={{ height: count * ROW_HEIGHT + 8 }}
+                onDragOver={allowDrop}
+                onDrop={(event) => dropOnTrack(event, lane._id, dateKey)}
+              >
+                {hourMarks.map((minutes) => (
+                  <div key={minutes} className="absolute inset-y-0 border-l border-dashed border-border/60" style={{ left: position(minutes, minutes).left }} />
+                ))}
+                {blocks.open.map(([start, end], index) => (
+                  <div key={`open-${index}`} className="absolute inset-y-0 bg-emerald-500/10" style={position(start, end)} />
+                ))}
+                {blocks.blocked.map(([start, end], index) => (
+                  <div
+                    key={`blocked-${index}`}
+                    className="absolute inset-y-0 bg-destructive/15"
+                    style={position(start, end)}
+                    title="Blocked"
+                  />
+                ))}
+                {laneItems.map((item) => {
+                  const start = minutesIntoDay(item.start, dateKey, data.timeZone);
+                  const end = Math.max(minutesIntoDay(item.end, dateKey, data.timeZone), start + SCHEDULE_INTERVAL_MINUTES / 2);
+                  return (
+                    <button
+                      key={item.key}
+                      type="button"
+                      draggable
+                      onDragStart={(event) => {
+                        const rect = event.currentTarget.parentElement!.getBoundingClientRect();
+                        const pointer = DAY_START_MINUTES + ((event.clientX - rect.left) / rect.width) * DAY_SPAN_MINUTES;
+                        startDrag(event, item, pointer - Math.max(start, DAY_START_MINUTES));
+                      }}
+                      onClick={() => onOpen(item)}
+                      className={cn(
+                        'absolute truncate rounded border px-1.5 text-left text-xs leading-6 cursor-grab',
+                        itemClasses(item)
+                      )}
+                      style={{ ...position(start, end), top: 4 + (rows.get(item.key) || 0) * ROW_HEIGHT, height: ROW_HEIGHT - 4 }}
+                      title={`${formatTime(item.start, data.timeZone)}–${formatTime(item.end, data.timeZone)} ${item.title}`}
+                    >
+                      {item.title}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { ChevronLeft, ChevronRight, List, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DAY_KEYS } from '@/src/constants/availability';
+import { checkInspectorAvailability } from '@/src/lib/inspection-availability';
+import {
+  addDaysToDateKey,
+  formatInTimeZone,
+  getDayKeyFromDateKey,
+  getLocalTimeZone,
+  resolveTimeZone,
+  toDateKey,
+  toTimeKey,
+  zonedTimeToUtc,
+} from '@/src/lib/time-zones';
+import InspectionCalendar, {
+  formatDateKey,
+  UNASSIGNED_LANE,
+  type CalendarData,
+  type CalendarDrop,
+  type CalendarItem,
+  type CalendarView,
+} from './_components/InspectionCalendar';
+
+const ALL_INSPECTORS = 'all';
+const MY_INSPECTIONS = 'me';
+
+const startOfWeek = (dateKey: string) => addDaysToDateKey(dateKey, -DAY_KEYS.indexOf(getDayKeyFromDateKey(dateKey)));
+
+const shiftMonth = (dateKey: string, months: number) => {
+  const [year, month] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1 + months, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-01`;
+};
+
+/**
+ * The days a view shows around the day it's anchored on; a month is padded out to whole weeks
+ */
+function getVisibleDays(view: CalendarView, anchor: string): string[] {
+  if (view === 'day') return [anchor];
+
+  const first = view === 'week' ? startOfWeek(anchor) : startOfWeek(shiftMonth(anchor, 0));
+  const count = view === 'week' ? 7 : 42;
+  return Array.from({ length: count }, (_, index) => addDaysToDateKey(first, index));
+}
+
+export default function InspectionCalendarPage() {
+  const router = useRouter();
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => toDateKey(new Date(), getLocalTimeZone()));
+  const [inspectorFilter, setInspectorFilter] = useState<string>(ALL_INSPECTORS);
+  const [inspectorOptions, setInspectorOptions] = useState<Array<{ value: string; label: string }>>([]);
+  const [data, setData] = useState<CalendarData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const days = useMemo(() => getVisibleDays(view, anchor), [view, anchor]);
+
+  useEffect(() => {
+    const fetchInspectorOptions = async () => {
+      try {
+        const response = await fetch('/api/inspections/form-data', { credentials: 'include' });
+        if (response.ok) {
+          const result = await response.json();
+          setInspectorOptions(result.inspectors || []);
+        }
+      } catch (error) {
+        console.error('Error fetching inspectors:', error);
+      }
+    };
+
+    fetchInspectorOptions();
+  }, []);
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ from: days[0], to: days[days.length - 1] });
+      if (inspectorFilter !== ALL_INSPECTORS) {
+        params.append('inspector', inspectorFilter);
+      }
+
+      const response = await fetch(`/api/inspections/calendar?${params.toString()}`, { credentials: 'include' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load calendar');
+      }
+      setData(result);
+    } catch (error: any) {
+      console.error('Error fetching calendar:', error);
+      toast.error(error.message || 'Failed to load calendar');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, inspectorFilter]);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  const timeZone = data?.timeZone || getLocalTimeZone();
+
+  const navigate = (direction: -1 | 1) => {
+    if (view === 'day') setAnchor(addDaysToDateKey(anchor, direction));
+    else if (view === 'week') setAnchor(addDaysToDateKey(anchor, direction * 7));
+    else setAnchor(shiftMonth(anchor, direction));
+  };
+
+  const title = view === 'day'
+    ? formatDateKey(anchor, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+    : view === 'week'
+      ? `${formatDateKey(days[0], { month: 'short', day: 'numeric' })} – ${formatDateKey(days[6], { month: 'short', day: 'numeric', year: 'numeric' })}`
+      : formatDateKey(shiftMonth(anchor, 0), { month: 'long', year: 'numeric' });
+
+  /**
+   * The same working-hours check the New Inspection form makes before offering a time; double
+   * bookings are caught by the server when the change is saved
+   */
+  const findUnavailableInspector = (inspectorIds: string[], start: Date) => {
+    if (!data) return null;
+
+    for (const inspectorId of inspectorIds) {
+      const inspector = data.inspectors.find((entry) => entry._id === inspectorId);
+      if (!inspector) continue;
+
+      const inspectorZone = resolveTimeZone(inspector.availability.timeZone, data.timeZone);
+      const { available } = checkInspectorAvailability(
+        toDateKey(start, inspectorZone),
+        toTimeKey(start, inspectorZone),
+        data.viewMode,
+        inspector.availability
+      );
+      if (!available) return inspector;
+    }
+    return null;
+  };
+
+  const buildInspectionUpdate = (item: CalendarItem, laneId: string, start: Date) => {
+    const inspection = data?.inspections.find((entry) => entry._id === item.id);
+    if (!inspection) return { error: 'Inspection not found' };
+
+    const team = inspection.assignments.map((assignment) => assignment.inspectorId);
+    const body: Record<string, unknown> = {};
+    let checkInspectors = team;
+
+    if (start.getTime() !== item.start.getTime()) {
+      body.date = start.toISOString();
+    }
+
+    if (laneId !== item.laneId) {
+      if (team.includes(laneId)) {
+        return { error: `${data?.inspectors.find((entry) => entry._id === laneId)?.name || 'That inspector'} is already on this inspection` };
+      }
+
+      if (item.laneId === UNASSIGNED_LANE || item.isLead) {
+        body.inspector = laneId;
+      } else {
+        // A team member hands their part of the job, services included, to someone else
+        body.inspectors = [...team.filter((id) => id !== item.laneId), laneId];
+        body.serviceAssignments = inspection.serviceAssignments.map((assignment) => ({
+          serviceId: assignment.serviceId,
+          inspector: assignment.inspector === item.laneId ? laneId : assignment.inspector,
+        }));
+      }
+      checkInspectors = body.date ? [...team.filter((id) => id !== item.laneId), laneId] : [laneId];
+    }
+
+    const unavailable = findUnavailableInspector(checkInspectors, start);
+    if (unavailable) {
+      const when = formatInTimeZone(start, timeZone, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+      return { error: `${unavailable.name} isn't available ${when}. Please pick a different time.` };
+    }
+
+    return { url: `/api/inspections/${item.id}`, body };
+  };
+
+  const handleDrop = async ({ item, laneId, dateKey, time }: CalendarDrop) => {
+    if (saving || !data) return;
+
+    const start = zonedTimeToUtc(dateKey, time, data.timeZone);
+    if (!start) {
+      toast.error(`${time} does not exist on ${dateKey} because of a daylight saving change`);
+      return;
+    }
+    if (laneId === item.laneId && start.getTime() === item.start.getTime()) {
+      return;
+    }
+    if (laneId === UNASSIGNED_LANE && item.laneId !== UNASSIGNED_LANE) {
+      toast.error('Open the inspection to take an inspector off it');
+      return;
+    }
+
+    let update: { url?: string; body?: Record<string, unknown>; error?: string };
+    if (item.kind === 'event') {
+      update = {
+        url: `/api/inspections/${item.inspectionId}/events/${item.id}`,
+        body: {
+          startDate: start.toISOString(),
+          endDate: new Date(start.getTime() + (item.end.getTime() - item.start.getTime())).toISOString(),
+          ...(laneId !== item.laneId ? { inspector: laneId } : {}),
+        },
+      };
+    } else {
+      update = buildInspectionUpdate(item, laneId, start);
+    }
+
+    if (update.error || !update.url) {
+      toast.error(update.error || 'Unable to move this item');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(update.url, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(update.body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update the schedule');
+      }
+
+      toast.success(item.kind === 'event' ? 'Event moved' : 'Inspection moved');
+      await fetchCalendar();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update the schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Inspection Calendar</h1>
+          <p className="text-muted-foreground mt-1">
+            Drag an inspection or event to move it, or onto another inspector to reassign it
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/inspections')}>
+            <List className="h-4 w-4 mr-2" />
+            List
+          </Button>
+          <Button onClick={() => router.push('/inspections/create')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Inspection
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => navigate(-1)} title="Previous">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setAnchor(toDateKey(new Date(), timeZone))}>
+          Today
+        </Button>
+        <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => navigate(1)} title="Next">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <h2 className="ml-2 text-lg font-semibold">{title}</h2>
+
+        <div className="ml-auto flex items-center gap-2">
+          {(['day', 'week', 'month'] as const).map((option) => (
+            <Button
+              key={option}
+              variant={view === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setView(option)}
+              className="capitalize"
+            >
+              {option}
+            </Button>
+          ))}
+          <Select value={inspectorFilter} onValueChange={setInspectorFilter}>
+            <SelectTrigger className="h-9 w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_INSPECTORS}>All inspectors</SelectItem>
+              <SelectItem value={MY_INSPECTIONS}>My inspections</SelectItem>
+              {inspectorOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {data ? (
+        <div className={loading || saving ? 'opacity-60 pointer-events-none transition-opacity' : 'transition-opacity'}>
+          <InspectionCalendar
+            view={view}
+            days={days}
+            month={view === 'month' ? anchor.slice(0, 7) : undefined}
+            data={data}
+            onDrop={handleDrop}
+            onOpen={(item) => router.push(`/inspections/${item.inspectionId}/edit`)}
+            onSelectDay={(dateKey) => {
+              setAnchor(dateKey);
+              setView('day');
+            }}
+          />
+          <p className="mt-2 text-xs text-muted-foreground">
+            Times are shown in {data.timeZone.replace(/_/g, ' ')}. Shaded hours are when each inspector works; red
+            blocks are time they&apos;ve blocked off.
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-md border p-8 text-center text-sm text-muted-foreground">
+          {loading ? 'Loading calendar…' : 'Unable to load the calendar'}
+        </div>
+      )}
+    </div>
+  );
+}
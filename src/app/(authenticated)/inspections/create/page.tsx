@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useMemo, useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -28,7 +28,8 @@ import { ImageUpload } from '@/components/ui/image-upload';
 import CustomFields from '@/components/custom-fields/CustomFields';
 import { AddressAutocomplete } from '@/components/ui/address-autocomplete';
 import { toast } from 'sonner';
-import { checkInspectorAvailability, type InspectorAvailability, getDayKeyFromDate, getAvailableTimesForDate, isDateAvailable } from '@/src/lib/inspection-availability';
+import { checkInspectorAvailability, type InspectorAvailability, getDayKeyFromDate, getAvailableSlotsForDate, isDateAvailable } from '@/src/lib/inspection-availability';
+import { getTimeZoneAbbreviation, getTimeZoneLabel } from '@/src/lib/time-zones';
 import { formatTimeLabel, timeToMinutes } from '@/src/lib/availability-utils';
 import { DAY_LABELS } from '@/src/constants/availability';
 import { TimeBlock } from '@/src/models/Availability';
@@ -47,6 +48,8 @@ const isValidObjectId = (str: string): boolean => {
 
 const inspectionFormSchema = z.object({
   inspector: z.string().optional(),
+  // Others working the inspection alongside the lead
+  inspectors: z.array(z.string()),
   companyOwnerRequested: z.boolean(),
   date: z.date().optional(),
   time: z.string(),
@@ -127,6 +130,7 @@ export default function CreateInspectionPage() {
     reValidateMode: 'onChange',
     defaultValues: {
       inspector: undefined,
+      inspectors: [],
       companyOwnerRequested: false,
       date: getDefaultDate(),
       time: '00:00',
@@ -201,6 +205,8 @@ export default function CreateInspectionPage() {
     serviceId: string;
     service: any;
     addOns: Array<{ name: string; addFee?: number; addHours?: number }>;
+    // Team member doing this service; unset means the lead
+    inspector?: string;
   }>>([]);
   const [selectedDiscountCode, setSelectedDiscountCode] = useState<{ value: string; label: string; discountCode: any } | null>(null);
   const [agencyNames, setAgencyNames] = useState<Record<string, string>>({});
@@ -219,14 +225,50 @@ export default function CreateInspectionPage() {
   const [viewMode, setViewMode] = useState<'openSchedule' | 'timeSlots'>('openSchedule');
   const [inspectorName, setInspectorName] = useState<string>('');
   const [availableTimes, setAvailableTimes] = useState<string[]>([]);
+  // Zone the selected inspector's times are in; the date and time are saved in it
+  const [schedulingTimeZone, setSchedulingTimeZone] = useState<string | null>(null);
   const [referralSourceOptions, setReferralSourceOptions] = useState<Array<{ value: string; label: string }>>([]);
   const [foundationOptions, setFoundationOptions] = useState<Array<{ value: string; label: string }>>([]);
   const [addonMenuOpen, setAddonMenuOpen] = useState<Record<number, boolean>>({});
 
+  // Length of the booking, so times that would run into the inspector's other bookings are left out
+  const selectedDurationMinutes = useMemo(
+    () =>
+      Math.round(
+        selectedServices.reduce(
+          (sum, s) =>
+            sum +
+            (s.service.baseDurationHours || 0) +
+            s.addOns.reduce((addOnSum, addOn) => addOnSum + (addOn.addHours || 0), 0),
+          0
+        ) * 60
+      ),
+    [selectedServices]
+  );
+
+  // The lead first, then everyone added to the job; services can go to any of them
+  const leadInspectorId = form.watch('inspector');
+  const additionalInspectorIds = form.watch('inspectors');
+  const teamOptions = useMemo(
+    () =>
+      [leadInspectorId, ...additionalInspectorIds.filter(id => id !== leadInspectorId)]
+        .map(id => inspectors.find(opt => opt.value === id))
+        .filter((opt): opt is { value: string; label: string } => Boolean(opt))
+        .map((opt, index) => (index === 0 && opt.value === leadInspectorId ? { ...opt, label: `${opt.label} (lead)` } : opt)),
+    [leadInspectorId, additionalInspectorIds, inspectors]
+  );
+
   useEffect(() => {
     fetchFormData();
   }, []);
 
+  // Release this form's hold on the inspector's time if it is left without saving
+  useEffect(() => {
+    return () => {
+      fetch('/api/inspections/holds', { method: 'DELETE', credentials: 'include', keepalive: true }).catch(() => {});
+    };
+  }, []);
+
   // Load agency names for selected agencies (only for existing agencies with IDs)
   const agents = form.watch('agents');
   useEffect(() => {
@@ -433,6 +475,7 @@ export default function CreateInspectionPage() {
         setInspectorAvailability(data.availability);
         setViewMode(data.viewMode);
         setInspectorName(data.inspectorName || '');
+        setSchedulingTimeZone(data.timeZone || null);
 
         // Check availability for the selected date and time
         if (!data.availability) {
@@ -449,11 +492,14 @@ export default function CreateInspectionPage() {
         // This considers both weekly schedule and date-specific blocks
         // IMPORTANT: Date-specific entries indicate when inspector is NOT available (they block times)
         // The helper function filters out blocked times from the weekly schedule
-        const computedAvailableTimes = getAvailableTimesForDate(
-          date,
+        // Times skipped by a daylight saving change on this day are left out
+        const computedAvailableTimes = getAvailableSlotsForDate(
+          dateString,
           data.viewMode,
-          data.availability
-        );
+          data.availability,
+          data.companyTimeZone,
+          selectedDurationMinutes
+        ).map((slot) => slot.time);
         setAvailableTimes(computedAvailableTimes);
 
         // Handle time selection logic
@@ -631,7 +677,41 @@ export default function CreateInspectionPage() {
 
     checkAvailability();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [form.watch('inspector'), form.watch('date')]);
+  }, [form.watch('inspector'), form.watch('date'), selectedDurationMinutes]);
+
+  // Hold the chosen time while the form is filled in; the server ignores this unless the company
+  // has in-progress bookings block the schedule
+  useEffect(() => {
+    const inspectorId = form.getValues('inspector');
+    const date = form.getValues('date');
+    const time = form.getValues('time');
+    if (!inspectorId || !date || !time) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/inspections/holds', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            inspectorId,
+            date: format(date, 'yyyy-MM-dd'),
+            time,
+            durationMinutes: selectedDurationMinutes,
+          }),
+        });
+        if (response.status === 409) {
+          const result = await response.json();
+          toast.warning(result.error, { duration: 5000 });
+        }
+      } catch (error) {
+        console.error('Error holding inspection time:', error);
+      }
+    }, 500);
+
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [form.watch('inspector'), form.watch('date'), form.watch('time'), selectedDurationMinutes]);
 
   // Auto-set first available time when availableTimes changes and no time is selected
   useEffect(() => {
@@ -721,14 +801,8 @@ export default function CreateInspectionPage() {
     
     try {
       setIsSubmitting(true);
-      let dateTime: Date | undefined = undefined;
-      if (data.date) {
-        dateTime = new Date(data.date);
-        if (data.time) {
-          const [hours, minutes] = data.time.split(':').map(Number);
-          dateTime.setHours(hours, minutes, 0, 0);
-        }
-      }
+      // Sent as the picked calendar day and wall-clock time; the server reads them in the inspector's time zone
+      const scheduledDate = data.date ? format(data.date, 'yyyy-MM-dd') : undefined;
 
       const locationData: any = {};
       if (data.location) {
@@ -774,7 +848,7 @@ export default function CreateInspectionPage() {
       });
 
       // Set status based on confirmedInspection
-      const status = data.confirmedInspection ? 'Approved' : 'Pending';
+      const status = data.confirmedInspection ? 'confirmed' : 'scheduled';
 
       const response = await fetch('/api/inspections', {
         method: 'POST',
@@ -784,8 +858,13 @@ export default function CreateInspectionPage() {
         credentials: 'include',
         body: JSON.stringify({
           inspector: data.inspector,
+          inspectors: data.inspectors,
+          serviceAssignments: selectedServices
+            .filter(s => s.inspector && teamOptions.some(opt => opt.value === s.inspector))
+            .map(s => ({ serviceId: s.serviceId, inspector: s.inspector })),
           companyOwnerRequested: data.companyOwnerRequested,
-          dateTime: dateTime?.toISOString(),
+          date: scheduledDate,
+          time: scheduledDate ? data.time || undefined : undefined,
           location: Object.keys(locationData).length > 0 ? locationData : undefined,
           clients: data.clients.filter(c => c.email?.trim()),
           services: selectedServices.map(s => ({
@@ -862,6 +941,29 @@ export default function CreateInspectionPage() {
             />
           </div>
 
+          <div className="space-y-2">
+            <Label>Additional Inspectors</Label>
+            <Controller
+              name="inspectors"
+              control={form.control}
+              render={({ field }) => (
+                <ReactSelect
+                  isMulti
+                  value={inspectors.filter(opt => field.value.includes(opt.value))}
+                  onChange={(options) => field.onChange((options || []).map(option => option.value))}
+                  options={inspectors.filter(opt => opt.value !== leadInspectorId)}
+                  placeholder="Add inspectors for this job..."
+                  isLoading={loadingFormData}
+                  className="react-select-container"
+                  classNamePrefix="react-select"
+                />
+              )}
+            />
+            <p className="text-xs text-muted-foreground">
+              Assign services below to anyone on the team; everyone&apos;s calendar is checked when you save.
+            </p>
+          </div>
+
           {companyOwner && (
             <div className="flex items-center space-x-2">
               <Controller
@@ -991,6 +1093,14 @@ export default function CreateInspectionPage() {
                       );
                     }}
                   />
+                  {schedulingTimeZone && (
+                    <p
+                      className="mt-1 text-xs text-muted-foreground"
+                      title={getTimeZoneLabel(schedulingTimeZone)}
+                    >
+                      {getTimeZoneAbbreviation(schedulingTimeZone, form.watch('date') || new Date())}
+                    </p>
+                  )}
                 </div>
               </div>
               <div></div>
@@ -1480,7 +1590,7 @@ export default function CreateInspectionPage() {
           <Accordion type="single" collapsible className="border-t pt-4">
             <AccordionItem value="agent" className="border-none">
               <AccordionTrigger className="text-lg font-semibold py-2">
-                Client's Agent
+                Client&apos;s Agent
               </AccordionTrigger>
               <AccordionContent className="space-y-4 pt-4">
                 {form.watch('agents').map((agent, index) => {
@@ -2425,6 +2535,26 @@ export default function CreateInspectionPage() {
                             </Button>
                           </div>
 
+                          {teamOptions.length > 1 && (
+                            <div className="space-y-2 mt-3">
+                              <Label>Performed by</Label>
+                              <ReactSelect
+                                value={teamOptions.find(opt => opt.value === selectedService.inspector) || teamOptions[0]}
+                                onChange={(option: any) => {
+                                  const newSelectedServices = [...selectedServices];
+                                  newSelectedServices[index] = {
+                                    ...selectedService,
+                                    inspector: option && option.value !== leadInspectorId ? option.value : undefined,
+                                  };
+                                  setSelectedServices(newSelectedServices);
+                                }}
+                                options={teamOptions}
+                                className="react-select-container"
+                                classNamePrefix="react-select"
+                              />
+                            </div>
+                          )}
+
                           {availableAddOns.length > 0 && (
                             <div className="space-y-2 mt-3">
                               <Label>Add-ons</Label>
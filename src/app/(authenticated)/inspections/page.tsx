@@ -13,13 +13,38 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { FileText, Edit, Trash2, Plus, RotateCcw, Search } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import {
+  FileText,
+  Edit,
+  Trash2,
+  Plus,
+  RotateCcw,
+  Search,
+  CalendarDays,
+  SlidersHorizontal,
+  Download,
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+} from 'lucide-react';
+import { addDaysToDateKey, getLocalTimeZone, toDateKey } from '@/src/lib/time-zones';
+import InspectionFiltersPanel, { type InspectionFilters } from './_components/InspectionFiltersPanel';
+import {
+  INSPECTION_STATUS_COLORS,
+  INSPECTION_STATUS_LABELS,
+  InspectionStatus,
+  normalizeInspectionStatus,
+} from '@/constants/inspectionStatuses';
 
 interface Inspection {
   id: string;
   date: string;
+  status: InspectionStatus;
   location?: {
     address?: string;
     city?: string;
@@ -46,17 +71,56 @@ interface Inspection {
     lastName?: string;
     formattedName?: string;
   }>;
+  // Lead first, then the rest of the team
+  inspectors?: Array<{
+    _id: string;
+    firstName?: string;
+    lastName?: string;
+  }>;
+}
+
+const ALL_INSPECTORS = 'all';
+const MY_INSPECTIONS = 'me';
+const NO_PRESET = 'none';
+const PAGE_SIZE = 25;
+
+const SORT_OPTIONS = [
+  { value: 'date', label: 'Inspection date' },
+  { value: 'createdAt', label: 'Date created' },
+  { value: 'updatedAt', label: 'Last updated' },
+  { value: 'orderId', label: 'Order #' },
+  { value: 'status', label: 'Status' },
+  { value: 'address', label: 'Address' },
+  { value: 'city', label: 'City' },
+  { value: 'zip', label: 'Zip' },
+];
+
+// Parameters the toolbar sets itself; everything else in a saved filter goes to the filters panel
+const TOOLBAR_PARAMS = ['q', 'inspector', 'sort', 'order', 'deleted', 'page', 'pageSize'];
+
+interface FilterPreset {
+  _id: string;
+  name: string;
+  query: string;
 }
 
+const mapInspectors = (item: any): Inspection['inspectors'] => {
+  const lead = item?.inspector || null;
+  const team = (item?.inspectors || []).filter((member: any) => member && member._id !== lead?._id);
+  return lead ? [lead, ...team] : team;
+};
+
 const mapInspection = (item: any): Inspection => ({
   id: (item && (item.id || item._id))?.toString?.() || Math.random().toString(36).slice(2, 9),
   date: item?.date
     ? new Date(item.date).toLocaleDateString()
     : new Date().toLocaleDateString(),
+  status: normalizeInspectionStatus(item?.status),
   location: item?.location || undefined,
   clients: item?.clients || [],
   agents: item?.agents || [],
   listingAgent: item?.listingAgent || [],
+  inspectors: mapInspectors(item),
 });
 
 export default function InspectionsPage() {
@@ -68,35 +132,102 @@ export default function InspectionsPage() {
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [filter, setFilter] = useState<'all' | 'today' | 'tomorrow' | 'pending' | 'in-progress' | 'trash'>('all');
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const [inspectorFilter, setInspectorFilter] = useState<string>(ALL_INSPECTORS);
+  const [inspectorOptions, setInspectorOptions] = useState<Array<{ value: string; label: string }>>([]);
+  const [advancedFilters, setAdvancedFilters] = useState<InspectionFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [sort, setSort] = useState('date');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState({ total: 0, totalPages: 1 });
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [selectedPreset, setSelectedPreset] = useState<string>(NO_PRESET);
+  const [presetName, setPresetName] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    const fetchPresets = async () => {
+      try {
+        const response = await fetch('/api/inspections/filter-presets', { credentials: 'include' });
+        if (response.ok) {
+          const data = await response.json();
+          setPresets(data.presets || []);
+        }
+      } catch (error) {
+        console.error('Error fetching saved filters:', error);
+      }
+    };
+
+    fetchPresets();
+  }, []);
+
+  useEffect(() => {
+    const fetchInspectorOptions = async () => {
+      try {
+        const response = await fetch('/api/inspections/form-data', { credentials: 'include' });
+        if (response.ok) {
+          const data = await response.json();
+          setInspectorOptions(data.inspectors || []);
+        }
+      } catch (error) {
+        console.error('Error fetching inspectors:', error);
+      }
+    };
+
+    fetchInspectorOptions();
+  }, []);
 
   // Fetch inspections on component mount and when filter/search changes
   useEffect(() => {
     fetchInspections();
-  }, [filter, searchQuery]);
+  }, [filter, searchQuery, inspectorFilter, advancedFilters, sort, order, page]);
+
+  // The search as API parameters; quick filters are shorthand for date, status and trash filters
+  const buildSearchParams = () => {
+    const params = new URLSearchParams();
+    const today = toDateKey(new Date(), getLocalTimeZone());
+    if (filter === 'today' || filter === 'tomorrow') {
+      const day = filter === 'today' ? today : addDaysToDateKey(today, 1);
+      params.set('from', day);
+      params.set('to', day);
+    } else if (filter === 'pending') {
+      params.set('status', 'unconfirmed,scheduled');
+    } else if (filter === 'in-progress') {
+      params.set('status', 'in_progress');
+    } else if (filter === 'trash') {
+      params.set('deleted', 'true');
+    }
+    if (searchQuery.trim()) {
+      params.set('q', searchQuery.trim());
+    }
+    if (inspectorFilter !== ALL_INSPECTORS) {
+      params.set('inspector', inspectorFilter);
+    }
+    Object.entries(advancedFilters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    params.set('sort', sort);
+    params.set('order', order);
+    return params;
+  };
 
   const fetchInspections = async () => {
     try {
       setLoading(true);
-      const params = new URLSearchParams();
-      if (filter !== 'all') {
-        params.append('filter', filter);
-      }
-      if (searchQuery.trim()) {
-        params.append('search', searchQuery.trim());
-      }
-      
-      const url = `/api/inspections${params.toString() ? `?${params.toString()}` : ''}`;
-      const response = await fetch(url, {
+      const params = buildSearchParams();
+      params.set('page', String(page));
+      params.set('pageSize', String(PAGE_SIZE));
+
+      const response = await fetch(`/api/inspections/search?${params.toString()}`, {
         credentials: 'include',
       });
+      const data = await response.json();
       if (response.ok) {
-        const data = await response.json();
-        const mappedInspections: Inspection[] = Array.isArray(data)
-          ? data.map(mapInspection)
-          : [];
-        setInspections(mappedInspections);
+        setInspections((data.items || []).map(mapInspection));
+        setPagination({ total: data.total || 0, totalPages: data.totalPages || 1 });
       } else {
         console.error('Failed to fetch inspections');
+        toast.error(data.error || 'Failed to load inspections');
       }
     } catch (error) {
       console.error('Error fetching inspections:', error);
@@ -199,6 +330,114 @@ export default function InspectionsPage() {
     router.push('/inspections/create');
   };
 
+  // Any change to the search starts again from the first page
+  const changeSearch = (apply: () => void) => {
+    apply();
+    setPage(1);
+    setSelectedPreset(NO_PRESET);
+  };
+
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find((entry) => entry._id === presetId);
+    setSelectedPreset(presetId);
+    if (!preset) return;
+
+    const params = new URLSearchParams(preset.query);
+    setFilter(params.get('deleted') === 'true' ? 'trash' : 'all');
+    setSearchQuery(params.get('q') || '');
+    setInspectorFilter(params.get('inspector') || ALL_INSPECTORS);
+    setSort(params.get('sort') || 'date');
+    setOrder(params.get('order') === 'asc' ? 'asc' : 'desc');
+    const filters: InspectionFilters = {};
+    params.forEach((value, key) => {
+      if (!TOOLBAR_PARAMS.includes(key)) filters[key] = value;
+    });
+    setAdvancedFilters(filters);
+    setShowFilters(Object.keys(filters).length > 0);
+    setPage(1);
+  };
+
+  const savePreset = async () => {
+    const name = presetName?.trim();
+    if (!name) return;
+
+    try {
+      const response = await fetch('/api/inspections/filter-presets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ name, query: buildSearchParams().toString() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save filter');
+      }
+
+      setPresets((current) =>
+        [...current.filter((preset) => preset._id !== data.preset._id), data.preset].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setSelectedPreset(data.preset._id);
+      setPresetName(null);
+      toast.success(`Saved "${data.preset.name}"`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save filter');
+    }
+  };
+
+  const deletePreset = async () => {
+    const preset = presets.find((entry) => entry._id === selectedPreset);
+    if (!preset) return;
+
+    try {
+      const response = await fetch(`/api/inspections/filter-presets/${preset._id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete filter');
+      }
+
+      setPresets((current) => current.filter((entry) => entry._id !== preset._id));
+      setSelectedPreset(NO_PRESET);
+      toast.success(`Deleted "${preset.name}"`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete filter');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const response = await fetch(`/api/inspections/export?${buildSearchParams().toString()}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to export inspections');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'inspections.csv';
+      link.click();
+      URL.revokeObjectURL(url);
+
+      const truncated = response.headers.get('X-Export-Truncated');
+      if (truncated) {
+        toast.warning(`Only the first ${truncated} inspections were exported. Narrow the filters to export the rest.`);
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to export inspections');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const activeFilterCount = Object.keys(advancedFilters).length;
+
   // Helper function to format client names (comma-separated)
   const formatClientNames = (clients: Inspection['clients']): string => {
     if (!clients || !Array.isArray(clients) || clients.length === 0) return '';
@@ -239,6 +478,15 @@ export default function InspectionsPage() {
       .join(', ');
   };
 
+  // Lead first, comma-separated
+  const formatInspectorNames = (inspectors: Inspection['inspectors']): string => {
+    if (!inspectors || inspectors.length === 0) return '';
+    return inspectors
+      .map((inspector) => `${inspector.firstName || ''} ${inspector.lastName || ''}`.trim())
+      .filter((name) => name)
+      .join(', ');
+  };
+
   // Handle undelete click to restore inspection
   const handleUndeleteClick = async (inspectionId: string) => {
     try {
@@ -294,6 +542,22 @@ export default function InspectionsPage() {
         <span className="text-muted-foreground">{row.location?.zip || ''}</span>
       ),
     },
+    {
+      id: 'status',
+      header: 'Status',
+      cell: (row) => (
+        <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium whitespace-nowrap ${INSPECTION_STATUS_COLORS[row.status]}`}>
+          {INSPECTION_STATUS_LABELS[row.status]}
+        </span>
+      ),
+    },
+    {
+      id: 'inspectors',
+      header: 'Inspectors',
+      cell: (row) => (
+        <span className="text-muted-foreground">{formatInspectorNames(row.inspectors)}</span>
+      ),
+    },
     {
       id: 'clientName',
       header: 'Client Name',
@@ -389,10 +653,16 @@ export default function InspectionsPage() {
             Manage your property inspections efficiently
           </p>
         </div>
-        <Button onClick={handleAddInspection}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Inspection
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/inspections/calendar')}>
+            <CalendarDays className="h-4 w-4 mr-2" />
+            Calendar
+          </Button>
+          <Button onClick={handleAddInspection}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Inspection
+          </Button>
+        </div>
       </div>
 
       {/* Filters and Search */}
@@ -402,58 +672,135 @@ export default function InspectionsPage() {
           <Button
             variant={filter === 'all' ? 'default' : 'outline'}
             size="sm"
-            onClick={() => setFilter('all')}
+            onClick={() => changeSearch(() => setFilter('all'))}
           >
             All
           </Button>
           <Button
             variant={filter === 'today' ? 'default' : 'outline'}
             size="sm"
-            onClick={() => setFilter('today')}
+            onClick={() => changeSearch(() => setFilter('today'))}
           >
             Today
           </Button>
           <Button
             variant={filter === 'tomorrow' ? 'default' : 'outline'}
             size="sm"
-            onClick={() => setFilter('tomorrow')}
+            onClick={() => changeSearch(() => setFilter('tomorrow'))}
           >
             Tomorrow
           </Button>
           <Button
             variant={filter === 'pending' ? 'default' : 'outline'}
             size="sm"
-            onClick={() => setFilter('pending')}
+            onClick={() => changeSearch(() => setFilter('pending'))}
           >
             Pending
           </Button>
           <Button
             variant={filter === 'in-progress' ? 'default' : 'outline'}
             size="sm"
-            onClick={() => setFilter('in-progress')}
+            onClick={() => changeSearch(() => setFilter('in-progress'))}
           >
             In Progress
           </Button>
           <Button
             variant={filter === 'trash' ? 'default' : 'outline'}
             size="sm"
-            onClick={() => setFilter('trash')}
+            onClick={() => changeSearch(() => setFilter('trash'))}
           >
             Trash
           </Button>
+          <Select value={inspectorFilter} onValueChange={(value) => changeSearch(() => setInspectorFilter(value))}>
+            <SelectTrigger className="ml-auto h-9 w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_INSPECTORS}>All inspectors</SelectItem>
+              <SelectItem value={MY_INSPECTIONS}>My inspections</SelectItem>
+              {inspectorOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         {/* Search Input */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            type="text"
-            placeholder="Search by address, city, state, zip, client name, agent name..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-          />
+        <div className="flex flex-wrap gap-2">
+          <div className="relative flex-1 min-w-[240px]">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="text"
+              placeholder="Search by address, city, state, zip, order #, client name, agent name..."
+              value={searchQuery}
+              onChange={(e) => {
+                const value = e.target.value;
+                changeSearch(() => setSearchQuery(value));
+              }}
+              className="pl-10"
+            />
+          </div>
+          <Button variant={showFilters ? 'default' : 'outline'} onClick={() => setShowFilters(!showFilters)}>
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+          </Button>
+          <Select value={sort} onValueChange={(value) => changeSearch(() => setSort(value))}>
+            <SelectTrigger className="h-10 w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-10 w-10"
+            onClick={() => changeSearch(() => setOrder(order === 'asc' ? 'desc' : 'asc'))}
+            title={order === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {order === 'asc' ? <ArrowUpNarrowWide className="h-4 w-4" /> : <ArrowDownWideNarrow className="h-4 w-4" />}
+          </Button>
+          <Select value={selectedPreset} onValueChange={applyPreset}>
+            <SelectTrigger className="h-10 w-[180px]">
+              <SelectValue placeholder="Saved filters" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PRESET}>Saved filters</SelectItem>
+              {presets.map((preset) => (
+                <SelectItem key={preset._id} value={preset._id}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedPreset !== NO_PRESET ? (
+            <Button variant="outline" size="icon" className="h-10 w-10" onClick={deletePreset} title="Delete saved filter">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => setPresetName('')}>
+              Save filters
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleExport} disabled={exporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Exporting…' : 'Export CSV'}
+          </Button>
         </div>
+
+        {showFilters && (
+          <InspectionFiltersPanel
+            value={advancedFilters}
+            onChange={(value) => changeSearch(() => setAdvancedFilters(value))}
+          />
+        )}
       </div>
 
       {/* Data Table */}
@@ -463,8 +810,45 @@ export default function InspectionsPage() {
         loading={loading}
         emptyMessage="No inspections found. Get started by creating your first inspection."
         onRowClick={(row) => handleRowClick(row.id)}
+        pagination={{
+          page,
+          limit: PAGE_SIZE,
+          total: pagination.total,
+          totalPages: pagination.totalPages,
+          onPageChange: setPage,
+        }}
       />
 
+      {/* Save Filter Dialog */}
+      <Dialog open={presetName !== null} onOpenChange={(open) => !open && setPresetName(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save filters</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="preset-name">Name</Label>
+            <Input
+              id="preset-name"
+              value={presetName || ''}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="e.g. Unpaid this month"
+              maxLength={100}
+            />
+            <p className="text-xs text-muted-foreground">
+              Saves the current search, filters and sort order. Saving under an existing name replaces it.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPresetName(null)}>
+              Cancel
+            </Button>
+            <Button onClick={savePreset} disabled={!presetName?.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={Boolean(inspectionPendingDelete)} onOpenChange={closeDeleteDialog}>
         <AlertDialogContent>
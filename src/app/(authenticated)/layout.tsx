@@ -1,6 +1,7 @@
 "use client";
 
 import { AppSidebar } from "@/components/app-sidebar";
+import NotificationBell from "@/components/NotificationBell";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 import { Separator } from "@/components/ui/separator";
 import { Toaster } from "@/components/ui/sonner";
@@ -17,6 +18,9 @@ function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
           <div className="flex items-center gap-2">
             <h1 className="text-lg font-semibold">ReportWriter AI Inspection</h1>
           </div>
+          <div className="ml-auto">
+            <NotificationBell />
+          </div>
         </header>
         <main className="flex flex-1 flex-col gap-4 p-4">
           {children}
@@ -14,6 +14,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Tooltip,
   TooltipContent,
@@ -21,6 +22,12 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 
+import {
+  DEFAULT_SMS_TEMPLATES,
+  SMS_TEMPLATE_MAX_LENGTH,
+  SMS_TEMPLATE_PLACEHOLDERS,
+} from '@/constants/smsTemplates';
+
 import 'react-quill-new/dist/quill.snow.css';
 
 const ReactQuill = dynamic(() => import('react-quill-new'), { ssr: false });
@@ -46,6 +53,10 @@ const schedulerSchema = z.object({
   smsForCompleteBooking: z.boolean(),
   smsForInProgressBooking: z.boolean(),
   smsNotificationNumber: z.string().optional(),
+  smsCompleteBookingTemplate: z
+    .string()
+    .max(SMS_TEMPLATE_MAX_LENGTH, `Message must be at most ${SMS_TEMPLATE_MAX_LENGTH} characters`)
+    .optional(),
 });
 
 type SchedulerFormValues = z.infer<typeof schedulerSchema>;
@@ -75,6 +86,7 @@ export default function OnlineSchedulerPage() {
       smsForCompleteBooking: false,
       smsForInProgressBooking: false,
       smsNotificationNumber: '',
+      smsCompleteBookingTemplate: '',
     },
   });
 
@@ -151,6 +163,7 @@ export default function OnlineSchedulerPage() {
           smsForCompleteBooking: schedulerData.smsForCompleteBooking ?? false,
           smsForInProgressBooking: schedulerData.smsForInProgressBooking ?? false,
           smsNotificationNumber: schedulerData.smsNotificationNumber || '',
+          smsCompleteBookingTemplate: schedulerData.smsCompleteBookingTemplate || '',
         });
       } catch (error: any) {
         console.error(error);
@@ -214,6 +227,7 @@ export default function OnlineSchedulerPage() {
         smsForCompleteBooking: data.smsForCompleteBooking ?? false,
         smsForInProgressBooking: data.smsForInProgressBooking ?? false,
         smsNotificationNumber: data.smsNotificationNumber || '',
+        smsCompleteBookingTemplate: data.smsCompleteBookingTemplate || '',
       });
 
       toast.success('Scheduler settings updated successfully');
@@ -355,7 +369,7 @@ export default function OnlineSchedulerPage() {
 
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
-                    <Label htmlFor="schedulingMinimumHours">Don't allow scheduling within (hours)</Label>
+                    <Label htmlFor="schedulingMinimumHours">Don&apos;t allow scheduling within (hours)</Label>
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <button
@@ -367,7 +381,7 @@ export default function OnlineSchedulerPage() {
                         </button>
                       </TooltipTrigger>
                       <TooltipContent className="max-w-xs text-left">
-                        Prevent last-minute bookings by showing "Not Available" for this many hours from now.
+                        Prevent last-minute bookings by showing &quot;Not Available&quot; for this many hours from now.
                       </TooltipContent>
                     </Tooltip>
                   </div>
@@ -386,7 +400,7 @@ export default function OnlineSchedulerPage() {
                     )}
                   />
                   <p className="text-sm text-muted-foreground">
-                    Prevent last-minute bookings by showing "Not Available" for this many hours from now.
+                    Prevent last-minute bookings by showing &quot;Not Available&quot; for this many hours from now.
                   </p>
                   {errors.schedulingMinimumHours && (
                     <p className="text-sm text-destructive">
@@ -647,6 +661,34 @@ export default function OnlineSchedulerPage() {
                       />
                     </div>
                   )}
+
+                  {smsForCompleteBooking && (
+                    <div className="space-y-2 pl-4">
+                      <Label htmlFor="smsCompleteBookingTemplate">Completed Booking Message</Label>
+                      <Controller
+                        name="smsCompleteBookingTemplate"
+                        control={control}
+                        render={({ field }) => (
+                          <Textarea
+                            id="smsCompleteBookingTemplate"
+                            rows={3}
+                            placeholder={DEFAULT_SMS_TEMPLATES.booking_complete}
+                            {...field}
+                          />
+                        )}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Leave empty to use the default message. Available placeholders:{' '}
+                        {SMS_TEMPLATE_PLACEHOLDERS.join(', ')}.
+                        The assigned inspector is also texted if they opted in to SMS.
+                      </p>
+                      {errors.smsCompleteBookingTemplate && (
+                        <p className="text-sm text-destructive">
+                          {errors.smsCompleteBookingTemplate.message}
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
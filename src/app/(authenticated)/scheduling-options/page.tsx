@@ -28,6 +28,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { MAX_TRAVEL_BUFFER_MINUTES } from '@/src/constants/availability';
 import {
   Tooltip,
   TooltipContent,
@@ -61,6 +62,11 @@ import {
 
 const schedulingOptionsSchema = z.object({
   inProgressBookingsBlockSchedule: z.boolean(),
+  travelBufferMinutes: z
+    .number({ invalid_type_error: 'Enter a number of minutes' })
+    .int('Enter whole minutes')
+    .min(0, 'Travel buffer cannot be negative')
+    .max(MAX_TRAVEL_BUFFER_MINUTES, `Travel buffer cannot exceed ${MAX_TRAVEL_BUFFER_MINUTES} minutes`),
   defaultConfirmed: z.boolean(),
   allowClientCcEmails: z.boolean(),
   captureBuyerAddress: z.boolean(),
@@ -229,6 +235,7 @@ export default function SchedulingOptionsPage() {
     resolver: zodResolver(schedulingOptionsSchema),
     defaultValues: {
       inProgressBookingsBlockSchedule: false,
+      travelBufferMinutes: 0,
       defaultConfirmed: false,
       allowClientCcEmails: false,
       captureBuyerAddress: false,
@@ -288,6 +295,7 @@ export default function SchedulingOptionsPage() {
 
         reset({
           inProgressBookingsBlockSchedule: data.inProgressBookingsBlockSchedule ?? false,
+          travelBufferMinutes: data.travelBufferMinutes ?? 0,
           defaultConfirmed: data.defaultConfirmed ?? false,
           allowClientCcEmails: data.allowClientCcEmails ?? false,
           captureBuyerAddress: data.captureBuyerAddress ?? false,
@@ -326,6 +334,7 @@ export default function SchedulingOptionsPage() {
 
       reset({
         inProgressBookingsBlockSchedule: data.inProgressBookingsBlockSchedule ?? false,
+        travelBufferMinutes: data.travelBufferMinutes ?? 0,
         defaultConfirmed: data.defaultConfirmed ?? false,
         allowClientCcEmails: data.allowClientCcEmails ?? false,
         captureBuyerAddress: data.captureBuyerAddress ?? false,
@@ -638,6 +647,34 @@ export default function SchedulingOptionsPage() {
                   }
                 />
 
+                <Controller
+                  name="travelBufferMinutes"
+                  control={control}
+                  render={({ field }) => (
+                    <div className="space-y-2">
+                      <Label htmlFor="travelBufferMinutes" className="font-medium">
+                        Travel buffer (minutes)
+                      </Label>
+                      <Input
+                        id="travelBufferMinutes"
+                        type="number"
+                        min={0}
+                        max={MAX_TRAVEL_BUFFER_MINUTES}
+                        step={5}
+                        className="w-32"
+                        value={Number.isNaN(field.value) ? '' : field.value}
+                        onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        Time kept free before and after each inspection and event when offering times to book.
+                      </p>
+                      {errors.travelBufferMinutes && (
+                        <p className="text-sm text-destructive">{errors.travelBufferMinutes.message}</p>
+                      )}
+                    </div>
+                  )}
+                />
+
                 <Controller
                   name="defaultConfirmed"
                   control={control}
@@ -730,7 +767,7 @@ export default function SchedulingOptionsPage() {
                   </div>
                 ) : customFields.length === 0 ? (
                   <div className="py-12 text-center text-muted-foreground">
-                    No custom fields found. Click "Create" to add one.
+                    No custom fields found. Click &quot;Create&quot; to add one.
                   </div>
                 ) : (
                   <DndContext
@@ -996,7 +1033,7 @@ export default function SchedulingOptionsPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Custom Field?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete the custom field "{fieldToDelete?.name}"? This action cannot be undone.
+              Are you sure you want to delete the custom field &quot;{fieldToDelete?.name}&quot;? This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
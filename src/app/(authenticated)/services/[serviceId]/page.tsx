@@ -28,6 +28,7 @@ interface ServiceResponse {
     defaultInspectionEvents: string[];
     organizationServiceId?: string;
     agreementIds?: string[];
+    inspectionTemplate?: string | null;
     modifiers: Array<{
       field: string;
       type?: string;
@@ -128,6 +129,7 @@ export default function EditServicePage() {
           agreementIds: Array.isArray(service.agreementIds)
             ? service.agreementIds.map((id) => id.toString())
             : [],
+          inspectionTemplate: service.inspectionTemplate ? service.inspectionTemplate.toString() : "",
           modifiers: service.modifiers?.map(mapModifierToForm) || [],
           addOns:
             service.addOns
@@ -110,6 +110,7 @@ const taxSchema = z.object({
 });
 
 export const serviceFormSchema = baseServiceFieldsSchema.extend({
+  inspectionTemplate: z.string().optional(),
   addOns: z.array(addOnSchema).default([]),
   taxes: z.array(taxSchema).default([]),
 });
@@ -140,6 +141,7 @@ export interface ServiceFormNormalizedValues {
   defaultInspectionEvents: string[];
   organizationServiceId?: string;
   agreementIds: string[];
+  inspectionTemplate: string | null;
   modifiers: ServiceFormNormalizedModifier[];
   addOns: Array<{
     name: string;
@@ -171,6 +173,7 @@ const DEFAULT_VALUES: ServiceFormValues = {
   defaultInspectionEvents: "",
   organizationServiceId: "",
   agreementIds: [],
+  inspectionTemplate: "",
   modifiers: [],
   addOns: [],
   taxes: [],
@@ -226,6 +229,15 @@ interface AgreementOption {
   name: string;
 }
 
+interface InspectionTemplateOption {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+// Radix Select items cannot use an empty value
+const COMPANY_DEFAULT_TEMPLATE = "__company_default__";
+
 function SearchableSelect({
   value,
   onValueChange,
@@ -363,6 +375,8 @@ export function ServiceForm({
   const [agreements, setAgreements] = useState<AgreementOption[]>([]);
   const [agreementsLoading, setAgreementsLoading] = useState(true);
   const [agreementsError, setAgreementsError] = useState<string | null>(null);
+  const [inspectionTemplates, setInspectionTemplates] = useState<InspectionTemplateOption[]>([]);
+  const [inspectionTemplatesLoading, setInspectionTemplatesLoading] = useState(true);
 
   useEffect(() => {
     const fetchModifierOptions = async () => {
@@ -428,6 +442,35 @@ export function ServiceForm({
     fetchAgreements();
   }, []);
 
+  useEffect(() => {
+    const fetchInspectionTemplates = async () => {
+      try {
+        setInspectionTemplatesLoading(true);
+        const response = await fetch("/api/inspection-templates", { credentials: "include" });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to load templates");
+        }
+        setInspectionTemplates(
+          Array.isArray(result.templates)
+            ? result.templates.map((template: any) => ({
+                id: template._id,
+                name: template.name,
+                isDefault: Boolean(template.isDefault),
+              }))
+            : []
+        );
+      } catch (error: any) {
+        console.error("Inspection template options error:", error);
+        setInspectionTemplates([]);
+      } finally {
+        setInspectionTemplatesLoading(false);
+      }
+    };
+
+    fetchInspectionTemplates();
+  }, []);
+
   const { fields: modifierFields, append, remove, update, replace } = useFieldArray({
     control: form.control,
     name: "modifiers",
@@ -694,6 +737,7 @@ export function ServiceForm({
       defaultInspectionEvents: normalizeDefaultEvents(values.defaultInspectionEvents),
       organizationServiceId: values.organizationServiceId?.trim() || undefined,
       agreementIds: values.agreementIds ?? [],
+      inspectionTemplate: values.inspectionTemplate || null,
       modifiers: normalizeModifiers(values.modifiers),
       addOns:
         values.addOns?.map((addOn, index) => {
@@ -1017,6 +1061,37 @@ export function ServiceForm({
         </p>
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="inspectionTemplate">Inspection Template</Label>
+        <Controller
+          name="inspectionTemplate"
+          control={form.control}
+          render={({ field }) => (
+            <Select
+              value={field.value || COMPANY_DEFAULT_TEMPLATE}
+              onValueChange={(value) => field.onChange(value === COMPANY_DEFAULT_TEMPLATE ? "" : value)}
+              disabled={inspectionTemplatesLoading || isSubmitting}
+            >
+              <SelectTrigger id="inspectionTemplate">
+                <SelectValue placeholder={inspectionTemplatesLoading ? "Loading templates..." : "Company default"} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={COMPANY_DEFAULT_TEMPLATE}>Company default</SelectItem>
+                {inspectionTemplates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                    {template.isDefault ? " (default)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        />
+        <p className="text-xs text-muted-foreground">
+          Reports for inspections with this service use this template unless the inspection picks its own.
+        </p>
+      </div>
+
         <div className="space-y-2">
           <div className="flex items-center gap-1">
             <Label htmlFor="hiddenFromScheduler">Hidden from scheduler</Label>
@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+type FeedScope = 'inspector' | 'company';
+
+const FEEDS: Array<{ scope: FeedScope; label: string; description: string }> = [
+  {
+    scope: 'inspector',
+    label: 'My inspections',
+    description: 'Inspections and events assigned to you.',
+  },
+  {
+    scope: 'company',
+    label: 'All company inspections',
+    description: 'Every inspection and event in the company, for office staff.',
+  },
+];
+
+export default function CalendarFeedsCard() {
+  const [urls, setUrls] = useState<Partial<Record<FeedScope, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const [regenerating, setRegenerating] = useState<FeedScope | null>(null);
+
+  useEffect(() => {
+    const fetchUrls = async () => {
+      try {
+        const results = await Promise.all(
+          FEEDS.map(async ({ scope }) => {
+            const response = await fetch(`/api/calendar/feed-url?scope=${scope}`, { credentials: 'include' });
+            // The company feed is for admins only; everyone else just doesn't see it
+            if (!response.ok) return [scope, undefined] as const;
+            const result = await response.json();
+            return [scope, result.url as string] as const;
+          })
+        );
+        setUrls(Object.fromEntries(results.filter(([, url]) => url)));
+      } catch (error) {
+        console.error('Error loading calendar feeds:', error);
+        toast.error('Failed to load calendar feeds');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUrls();
+  }, []);
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Feed URL copied');
+    } catch {
+      toast.error('Failed to copy URL');
+    }
+  };
+
+  const handleRegenerate = async (scope: FeedScope) => {
+    if (!confirm('Calendars subscribed to the current URL will stop updating. Generate a new URL?')) {
+      return;
+    }
+
+    try {
+      setRegenerating(scope);
+      const response = await fetch(`/api/calendar/feed-url?scope=${scope}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to regenerate feed URL');
+      }
+      setUrls((prev) => ({ ...prev, [scope]: result.url }));
+      toast.success('New feed URL generated');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to regenerate feed URL');
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Feeds</CardTitle>
+        <CardDescription>
+          Subscribe in Google Calendar, Outlook or Apple Calendar. Anyone with a URL can see its
+          inspections, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          FEEDS.filter(({ scope }) => urls[scope]).map(({ scope, label, description }) => (
+            <div key={scope} className="space-y-2">
+              <Label htmlFor={`calendar-feed-${scope}`}>{label}</Label>
+              <p className="text-xs text-muted-foreground">{description}</p>
+              <div className="flex gap-2">
+                <Input id={`calendar-feed-${scope}`} value={urls[scope]} readOnly className="font-mono text-xs" />
+                <Button type="button" variant="outline" onClick={() => handleCopy(urls[scope]!)}>
+                  Copy
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleRegenerate(scope)}
+                  disabled={regenerating === scope}
+                >
+                  {regenerating === scope ? 'Generating…' : 'Regenerate'}
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  NotificationChannel,
+  NotificationPreferences,
+  TASK_DIGEST_HOUR,
+  TASK_NOTIFICATION_EVENTS,
+  TASK_NOTIFICATION_EVENT_LABELS,
+  TaskNotificationEvent,
+} from '@/constants/notifications';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  inApp: 'In app',
+};
+
+const digestTime = `${TASK_DIGEST_HOUR % 12 || 12} ${TASK_DIGEST_HOUR < 12 ? 'AM' : 'PM'}`;
+
+export default function NotificationPreferencesCard() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch('/api/notifications/preferences', { credentials: 'include' });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load notification settings');
+        }
+        setPreferences(result.preferences);
+      } catch (error: any) {
+        console.error('Error loading notification settings:', error);
+        toast.error(error.message || 'Failed to load notification settings');
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const toggle = (event: TaskNotificationEvent, channel: NotificationChannel, checked: boolean) => {
+    setPreferences((prev) =>
+      prev ? { ...prev, tasks: { ...prev.tasks, [event]: { ...prev.tasks[event], [channel]: checked } } } : prev
+    );
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(preferences),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save notification settings');
+      }
+      setPreferences(result.preferences);
+      toast.success('Notification settings saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save notification settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>Choose how you hear about the tasks assigned to you</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!preferences ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+                  <th className="py-2 font-semibold">Task event</th>
+                  {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+                    <th key={channel} className="w-20 py-2 text-center font-semibold">
+                      {CHANNEL_LABELS[channel]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {TASK_NOTIFICATION_EVENTS.map((event) => (
+                  <tr key={event}>
+                    <td className="py-3 pr-4">
+                      <div className="font-medium">{TASK_NOTIFICATION_EVENT_LABELS[event].label}</div>
+                      <div className="text-xs text-muted-foreground">{TASK_NOTIFICATION_EVENT_LABELS[event].description}</div>
+                    </td>
+                    {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+                      <td key={channel} className="py-3 text-center">
+                        <Checkbox
+                          checked={preferences.tasks[event][channel]}
+                          onCheckedChange={(checked) => toggle(event, channel, checked === true)}
+                          aria-label={`${TASK_NOTIFICATION_EVENT_LABELS[event].label} by ${CHANNEL_LABELS[channel]}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex items-start gap-3 rounded-md border p-4">
+              <Switch
+                id="daily-digest"
+                checked={preferences.dailyDigest}
+                onCheckedChange={(checked) => setPreferences((prev) => (prev ? { ...prev, dailyDigest: checked } : prev))}
+              />
+              <div>
+                <Label htmlFor="daily-digest" className="cursor-pointer">
+                  Daily digest
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  An email at {digestTime} (company time) listing your overdue tasks and those due that day. Skipped when
+                  nothing is due.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Notification Settings'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
+import CalendarFeedsCard from './_components/CalendarFeedsCard';
+import NotificationPreferencesCard from './_components/NotificationPreferencesCard';
 
 export default function SettingsPage() {
   return (
@@ -16,34 +18,9 @@ export default function SettingsPage() {
         </p>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Notifications</CardTitle>
-          <CardDescription>
-            Configure how you receive notifications
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex items-center space-x-2">
-            <Checkbox id="email-notifications" />
-            <Label htmlFor="email-notifications" className="cursor-pointer">
-              Email notifications
-            </Label>
-          </div>
-          <div className="flex items-center space-x-2">
-            <Checkbox id="sms-notifications" />
-            <Label htmlFor="sms-notifications" className="cursor-pointer">
-              SMS notifications
-            </Label>
-          </div>
-          <div className="flex items-center space-x-2">
-            <Checkbox id="push-notifications" />
-            <Label htmlFor="push-notifications" className="cursor-pointer">
-              Push notifications
-            </Label>
-          </div>
-        </CardContent>
-      </Card>
+      <NotificationPreferencesCard />
+
+      <CalendarFeedsCard />
 
       <Card>
         <CardHeader>
@@ -276,7 +276,7 @@ export default function SocialLinksPage() {
         <div>
           <h2 className="text-3xl font-bold tracking-tight">Social Links</h2>
           <p className="text-muted-foreground">
-            Add your company's social media profiles to help customers find you online
+            Add your company&apos;s social media profiles to help customers find you online
           </p>
         </div>
 
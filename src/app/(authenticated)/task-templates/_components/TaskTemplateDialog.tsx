@@ -0,0 +1,414 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  TASK_ASSIGNEE_RULES,
+  TASK_ASSIGNEE_RULE_LABELS,
+  TASK_DUE_ANCHORS,
+  TASK_DUE_ANCHOR_LABELS,
+  TASK_PRIORITIES,
+  TASK_TEMPLATE_TRIGGERS,
+  TASK_TEMPLATE_TRIGGER_LABELS,
+  TASK_TYPES,
+  TaskAssigneeRule,
+  TaskDueAnchor,
+  TaskPriority,
+  TaskTemplateTrigger,
+  TaskType,
+} from "@/constants/tasks";
+
+export interface TaskTemplate {
+  _id: string;
+  name: string;
+  title: string;
+  description: string;
+  taskType: TaskType;
+  priority: TaskPriority;
+  trigger: TaskTemplateTrigger;
+  dueAnchor: TaskDueAnchor;
+  dueOffsetHours: number;
+  assignTo: TaskAssigneeRule;
+  assignee: string | null;
+  repeatEveryDays: number | null;
+  repeatTimes: number | null;
+  active: boolean;
+}
+
+export interface TeamMember {
+  _id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface TaskTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template: TaskTemplate | null;
+  team: TeamMember[];
+  onSaved: () => void;
+}
+
+type OffsetUnit = "hours" | "days";
+type OffsetDirection = "before" | "after";
+
+interface FormState {
+  name: string;
+  title: string;
+  description: string;
+  taskType: TaskType;
+  priority: TaskPriority;
+  trigger: TaskTemplateTrigger;
+  dueAnchor: TaskDueAnchor;
+  offsetAmount: string;
+  offsetUnit: OffsetUnit;
+  offsetDirection: OffsetDirection;
+  assignTo: TaskAssigneeRule;
+  assignee: string;
+  repeats: boolean;
+  repeatEveryDays: string;
+  repeatTimes: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: FormState = {
+  name: "",
+  title: "",
+  description: "",
+  taskType: "Other",
+  priority: "Normal",
+  trigger: "inspection_created",
+  dueAnchor: "trigger",
+  offsetAmount: "1",
+  offsetUnit: "days",
+  offsetDirection: "after",
+  assignTo: "inspector",
+  assignee: "",
+  repeats: false,
+  repeatEveryDays: "7",
+  repeatTimes: "2",
+  active: true,
+};
+
+function toFormState(template: TaskTemplate | null): FormState {
+  if (!template) return EMPTY_FORM;
+
+  // Show whole days when the offset is a whole number of days
+  const hours = Math.abs(template.dueOffsetHours);
+  const inDays = hours > 0 && hours % 24 === 0;
+  return {
+    name: template.name,
+    title: template.title,
+    description: template.description,
+    taskType: template.taskType,
+    priority: template.priority,
+    trigger: template.trigger,
+    dueAnchor: template.dueAnchor,
+    offsetAmount: String(inDays ? hours / 24 : hours),
+    offsetUnit: inDays ? "days" : "hours",
+    offsetDirection: template.dueOffsetHours < 0 ? "before" : "after",
+    assignTo: template.assignTo,
+    assignee: template.assignee || "",
+    repeats: Boolean(template.repeatEveryDays),
+    repeatEveryDays: String(template.repeatEveryDays ?? 7),
+    repeatTimes: String(template.repeatTimes ?? 2),
+    active: template.active,
+  };
+}
+
+export function TaskTemplateDialog({ open, onOpenChange, template, team, onSaved }: TaskTemplateDialogProps) {
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setForm(toFormState(template));
+  }, [open, template]);
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    const amount = Number(form.offsetAmount || 0);
+    if (!Number.isFinite(amount) || amount < 0) {
+      toast.error("Enter a due offset of zero or more");
+      return;
+    }
+    const hours = form.offsetUnit === "days" ? amount * 24 : amount;
+
+    try {
+      setSaving(true);
+      const response = await fetch(template ? `/api/task-templates/${template._id}` : "/api/task-templates", {
+        method: template ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          name: form.name,
+          title: form.title,
+          description: form.description,
+          taskType: form.taskType,
+          priority: form.priority,
+          trigger: form.trigger,
+          dueAnchor: form.dueAnchor,
+          dueOffsetHours: form.offsetDirection === "before" ? -hours : hours,
+          assignTo: form.assignTo,
+          assignee: form.assignTo === "user" ? form.assignee : undefined,
+          repeatEveryDays: form.repeats ? form.repeatEveryDays : undefined,
+          repeatTimes: form.repeats ? form.repeatTimes : undefined,
+          active: form.active,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save task template");
+      }
+      toast.success(template ? "Task template updated" : "Task template created");
+      onOpenChange(false);
+      onSaved();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save task template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Task Template" : "New Task Template"}</DialogTitle>
+          <DialogDescription>
+            A task is added to the inspection automatically each time the chosen event happens.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Template Name</Label>
+              <Input
+                id="template-name"
+                value={form.name}
+                onChange={(event) => update("name", event.target.value)}
+                placeholder="Post-inspection follow-up"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>When</Label>
+              <Select value={form.trigger} onValueChange={(value) => update("trigger", value as TaskTemplateTrigger)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_TEMPLATE_TRIGGERS.map((trigger) => (
+                    <SelectItem key={trigger} value={trigger}>
+                      {TASK_TEMPLATE_TRIGGER_LABELS[trigger]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-title">Task Title</Label>
+            <Input
+              id="template-title"
+              value={form.title}
+              onChange={(event) => update("title", event.target.value)}
+              placeholder="Call the client to follow up"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={form.description}
+              onChange={(event) => update("description", event.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Task Type</Label>
+              <Select value={form.taskType} onValueChange={(value) => update("taskType", value as TaskType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={form.priority} onValueChange={(value) => update("priority", value as TaskPriority)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITIES.map((priority) => (
+                    <SelectItem key={priority} value={priority}>
+                      {priority}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Due</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                className="w-24"
+                value={form.offsetAmount}
+                onChange={(event) => update("offsetAmount", event.target.value)}
+              />
+              <Select value={form.offsetUnit} onValueChange={(value) => update("offsetUnit", value as OffsetUnit)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hours">hours</SelectItem>
+                  <SelectItem value="days">days</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={form.offsetDirection}
+                onValueChange={(value) => update("offsetDirection", value as OffsetDirection)}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="before">before</SelectItem>
+                  <SelectItem value="after">after</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={form.dueAnchor} onValueChange={(value) => update("dueAnchor", value as TaskDueAnchor)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_DUE_ANCHORS.map((anchor) => (
+                    <SelectItem key={anchor} value={anchor}>
+                      {TASK_DUE_ANCHOR_LABELS[anchor]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Tasks are never due before they are created. Inspections without a date use the time of the event.
+            </p>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Assign To</Label>
+              <Select value={form.assignTo} onValueChange={(value) => update("assignTo", value as TaskAssigneeRule)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_ASSIGNEE_RULES.map((rule) => (
+                    <SelectItem key={rule} value={rule}>
+                      {TASK_ASSIGNEE_RULE_LABELS[rule]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.assignTo === "user" && (
+              <div className="space-y-2">
+                <Label>Team Member</Label>
+                <Select value={form.assignee} onValueChange={(value) => update("assignee", value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a team member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {team.map((member) => (
+                      <SelectItem key={member._id} value={member._id}>
+                        {`${member.firstName} ${member.lastName}`.trim()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3 rounded-md border p-4">
+            <div className="flex items-center gap-2">
+              <Switch id="template-repeats" checked={form.repeats} onCheckedChange={(checked) => update("repeats", checked)} />
+              <Label htmlFor="template-repeats">Repeat after completion</Label>
+            </div>
+            {form.repeats && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>Every</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={365}
+                  className="w-20"
+                  value={form.repeatEveryDays}
+                  onChange={(event) => update("repeatEveryDays", event.target.value)}
+                />
+                <span>days, up to</span>
+                <Input
+                  type="number"
+                  min={2}
+                  max={52}
+                  className="w-20"
+                  value={form.repeatTimes}
+                  onChange={(event) => update("repeatTimes", event.target.value)}
+                />
+                <span>times in total</span>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="template-active" checked={form.active} onCheckedChange={(checked) => update("active", checked)} />
+            <Label htmlFor="template-active">Active</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {template ? "Save Changes" : "Create Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Pencil, PlusCircle, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  TASK_ASSIGNEE_RULE_LABELS,
+  TASK_DUE_ANCHOR_LABELS,
+  TASK_TEMPLATE_TRIGGER_LABELS,
+} from "@/constants/tasks";
+import { TaskTemplate, TaskTemplateDialog, TeamMember } from "./_components/TaskTemplateDialog";
+
+function describeDue(template: TaskTemplate) {
+  const hours = Math.abs(template.dueOffsetHours);
+  const anchor = TASK_DUE_ANCHOR_LABELS[template.dueAnchor];
+  if (hours === 0) return `At ${anchor}`;
+
+  const amount = hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? "" : "s"}` : `${hours} hour${hours === 1 ? "" : "s"}`;
+  return `${amount} ${template.dueOffsetHours < 0 ? "before" : "after"} ${anchor}`;
+}
+
+export default function TaskTemplatesPage() {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TaskTemplate | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<TaskTemplate | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/task-templates", { credentials: "include" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load task templates");
+      }
+      setTemplates(Array.isArray(result.templates) ? result.templates : []);
+    } catch (error: any) {
+      console.error("Error fetching task templates:", error);
+      toast.error(error.message || "Failed to load task templates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => {
+    fetch("/api/team", { credentials: "include" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setTeam(Array.isArray(result?.team) ? result.team : []))
+      .catch((error) => console.error("Error fetching team:", error));
+  }, []);
+
+  const openDialog = (template: TaskTemplate | null) => {
+    setEditing(template);
+    setDialogOpen(true);
+  };
+
+  const assigneeName = (template: TaskTemplate) => {
+    if (template.assignTo !== "user") return TASK_ASSIGNEE_RULE_LABELS[template.assignTo];
+    const member = team.find((user) => user._id === template.assignee);
+    return member ? `${member.firstName} ${member.lastName}`.trim() : TASK_ASSIGNEE_RULE_LABELS.user;
+  };
+
+  const handleDelete = async () => {
+    if (!templateToDelete) return;
+
+    try {
+      setIsDeleting(true);
+      const response = await fetch(`/api/task-templates/${templateToDelete._id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete task template");
+      }
+      toast.success("Task template deleted");
+      setTemplateToDelete(null);
+      fetchTemplates();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete task template");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-6xl space-y-6">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Task Templates</h1>
+          <p className="text-muted-foreground">
+            Create tasks automatically when inspections are booked, confirmed, published and more.
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          New Template
+        </Button>
+      </div>
+
+      {loading ? (
+        <Card>
+          <CardContent className="flex items-center justify-center gap-2 p-10 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading task templates...
+          </CardContent>
+        </Card>
+      ) : templates.length === 0 ? (
+        <Card>
+          <CardContent className="space-y-4 p-10 text-center text-muted-foreground">
+            <p>No task templates yet.</p>
+            <Button variant="link" onClick={() => openDialog(null)}>
+              Create your first task template
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Templates</CardTitle>
+            <CardDescription>
+              Changes apply to tasks created from now on. Tasks already on inspections are left as they are.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-muted border-collapse text-sm">
+              <thead className="bg-muted/50 text-left text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-3">Template</th>
+                  <th className="px-4 py-3">When</th>
+                  <th className="px-4 py-3">Due</th>
+                  <th className="px-4 py-3">Assigned To</th>
+                  <th className="px-4 py-3">Repeats</th>
+                  <th className="px-4 py-3 text-center">Status</th>
+                  <th className="px-4 py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-muted">
+                {templates.map((template) => (
+                  <tr key={template._id} className="hover:bg-muted/30">
+                    <td className="px-4 py-3 align-top">
+                      <div className="font-medium text-foreground">{template.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {template.title} · {template.taskType} · {template.priority}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 align-top">{TASK_TEMPLATE_TRIGGER_LABELS[template.trigger]}</td>
+                    <td className="px-4 py-3 align-top">{describeDue(template)}</td>
+                    <td className="px-4 py-3 align-top">{assigneeName(template)}</td>
+                    <td className="px-4 py-3 align-top text-muted-foreground">
+                      {template.repeatEveryDays
+                        ? `Every ${template.repeatEveryDays} days, ${template.repeatTimes} times`
+                        : "No"}
+                    </td>
+                    <td className="px-4 py-3 text-center align-top">
+                      <Badge variant={template.active ? "secondary" : "outline"}>
+                        {template.active ? "Active" : "Inactive"}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-3 text-right align-top">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="icon" onClick={() => openDialog(template)} title="Edit task template">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="icon"
+                          onClick={() => setTemplateToDelete(template)}
+                          title="Delete task template"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <TaskTemplateDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        template={editing}
+        team={team}
+        onSaved={fetchTemplates}
+      />
+
+      <Dialog open={Boolean(templateToDelete)} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Task Template</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete{" "}
+              <span className="font-semibold">{templateToDelete?.name}</span>? Tasks it already created are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateToDelete(null)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
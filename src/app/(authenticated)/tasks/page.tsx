@@ -0,0 +1,264 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Column, DataTable } from "@/components/ui/data-table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+interface TaskListItem {
+  _id: string;
+  inspectionId: string;
+  title: string;
+  description: string;
+  taskType: string;
+  priority: "Low" | "Normal" | "High";
+  status: "On Hold" | "In Progress" | "Complete";
+  dueDate: string | null;
+  overdue: boolean;
+  fromTemplate: boolean;
+  assignedTo: { _id: string; firstName: string; lastName: string } | null;
+  inspection: { _id: string; address: string; date: string | null; orderId: number | null } | null;
+}
+
+interface TaskListResponse {
+  tasks: TaskListItem[];
+  counts: { open: number; overdue: number };
+  pagination: { page: number; limit: number; total: number; totalPages: number };
+}
+
+const PRIORITY_BADGES: Record<TaskListItem["priority"], string> = {
+  Low: "bg-muted text-muted-foreground",
+  Normal: "bg-blue-100 text-blue-800",
+  High: "bg-red-100 text-red-800",
+};
+
+export default function TasksPage() {
+  const [data, setData] = useState<TaskListResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [assignee, setAssignee] = useState<"mine" | "all">("mine");
+  const [status, setStatus] = useState<"open" | "complete" | "all">("open");
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ assignee, status, page: String(page) });
+      if (overdueOnly) params.set("overdue", "true");
+
+      const response = await fetch(`/api/tasks?${params.toString()}`, { credentials: "include" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load tasks");
+      }
+      setData(result);
+    } catch (error: any) {
+      console.error("Error fetching tasks:", error);
+      toast.error(error.message || "Failed to load tasks");
+    } finally {
+      setLoading(false);
+    }
+  }, [assignee, status, overdueOnly, page]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  const changeFilter = (apply: () => void) => {
+    apply();
+    setPage(1);
+  };
+
+  const toggleComplete = async (task: TaskListItem) => {
+    try {
+      setUpdating(task._id);
+      const response = await fetch(`/api/inspections/${task.inspectionId}/tasks/${task._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ status: task.status === "Complete" ? "On Hold" : "Complete" }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update task");
+      }
+      await fetchTasks();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update task");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const columns: Column<TaskListItem>[] = [
+    {
+      id: "complete",
+      header: "",
+      className: "w-10",
+      cell: (task) => (
+        <Checkbox
+          checked={task.status === "Complete"}
+          disabled={updating === task._id || !task.inspectionId}
+          onCheckedChange={() => toggleComplete(task)}
+          aria-label={task.status === "Complete" ? "Reopen task" : "Mark task complete"}
+        />
+      ),
+    },
+    {
+      id: "dueDate",
+      header: "Due",
+      cell: (task) =>
+        task.dueDate ? (
+          <div className={cn("whitespace-nowrap", task.overdue && "font-semibold text-red-600")}>
+            {format(new Date(task.dueDate), "MMM d, yyyy h:mm a")}
+            {task.overdue && (
+              <span className="ml-2 inline-flex items-center gap-1 text-xs">
+                <AlertCircle className="h-3 w-3" />
+                Overdue
+              </span>
+            )}
+          </div>
+        ) : (
+          <span className="text-muted-foreground">—</span>
+        ),
+    },
+    {
+      id: "title",
+      header: "Task",
+      cell: (task) => (
+        <div className={cn(task.status === "Complete" && "text-muted-foreground line-through")}>
+          <div className="font-medium">{task.title}</div>
+          {task.description && <div className="text-xs text-muted-foreground line-clamp-2">{task.description}</div>}
+        </div>
+      ),
+    },
+    {
+      id: "taskType",
+      header: "Type",
+      cell: (task) => (
+        <div className="flex flex-wrap gap-1">
+          <Badge variant="outline">{task.taskType}</Badge>
+          {task.fromTemplate && <Badge variant="secondary">Automatic</Badge>}
+        </div>
+      ),
+    },
+    {
+      id: "priority",
+      header: "Priority",
+      cell: (task) => (
+        <span className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-semibold ${PRIORITY_BADGES[task.priority]}`}>
+          {task.priority}
+        </span>
+      ),
+    },
+    {
+      id: "inspection",
+      header: "Inspection",
+      cell: (task) =>
+        task.inspection ? (
+          <Link href={`/inspections/${task.inspection._id}/edit`} className="text-primary hover:underline">
+            {task.inspection.address || `Order #${task.inspection.orderId ?? task.inspection._id.slice(-6)}`}
+            {task.inspection.date && (
+              <span className="block text-xs text-muted-foreground">
+                {format(new Date(task.inspection.date), "MMM d, yyyy")}
+              </span>
+            )}
+          </Link>
+        ) : (
+          <span className="text-muted-foreground">Deleted inspection</span>
+        ),
+    },
+    ...(assignee === "all"
+      ? [
+          {
+            id: "assignedTo",
+            header: "Assigned To",
+            cell: (task: TaskListItem) =>
+              task.assignedTo ? `${task.assignedTo.firstName} ${task.assignedTo.lastName}`.trim() : "—",
+          },
+        ]
+      : []),
+    {
+      id: "status",
+      header: "Status",
+      cell: (task) => task.status,
+    },
+  ];
+
+  return (
+    <div className="mx-auto w-full max-w-6xl space-y-6">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{assignee === "mine" ? "My Tasks" : "All Tasks"}</h1>
+          <p className="text-muted-foreground">
+            {data
+              ? `${data.counts.open} open${data.counts.overdue > 0 ? `, ${data.counts.overdue} overdue` : ""}`
+              : "Tasks across all your inspections."}
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tasks</CardTitle>
+          <CardDescription>Tasks from every inspection, soonest due first. Overdue tasks are shown in red.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={assignee} onValueChange={(value) => changeFilter(() => setAssignee(value as "mine" | "all"))}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mine">Assigned to me</SelectItem>
+                <SelectItem value="all">Everyone</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={(value) => changeFilter(() => setStatus(value as "open" | "complete" | "all"))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="complete">Complete</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="overdue-only"
+                checked={overdueOnly}
+                onCheckedChange={(checked) => changeFilter(() => setOverdueOnly(checked))}
+              />
+              <Label htmlFor="overdue-only">Overdue only</Label>
+            </div>
+            {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
+
+          <DataTable
+            columns={columns}
+            data={data?.tasks || []}
+            loading={loading && !data}
+            emptyMessage={overdueOnly ? "Nothing overdue" : "No tasks"}
+            pagination={
+              data && data.pagination.totalPages > 1
+                ? { ...data.pagination, onPageChange: setPage }
+                : undefined
+            }
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type ImportItemAction = "add" | "change" | "unchanged" | "conflict";
+
+interface ImportPreview {
+  sections: Array<{
+    name: string;
+    action: "add" | "merge";
+    items: Array<{
+      text: string;
+      action: ImportItemAction;
+      changes?: string[];
+      reason?: string;
+    }>;
+  }>;
+  totals: Record<ImportItemAction, number> & { sectionsAdded: number };
+}
+
+interface TemplateImportDialogProps {
+  template: { _id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const ACTION_STYLES: Record<ImportItemAction, string> = {
+  add: "bg-green-100 text-green-800",
+  change: "bg-blue-100 text-blue-800",
+  unchanged: "bg-muted text-muted-foreground",
+  conflict: "bg-amber-100 text-amber-800",
+};
+
+export function TemplateImportDialog({ template, onOpenChange, onImported }: TemplateImportDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [data, setData] = useState<unknown>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setData(null);
+    setPreview(null);
+    setOverwriteConflicts(false);
+    setError(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) reset();
+    onOpenChange(open);
+  };
+
+  const requestImport = async (payload: unknown, apply: boolean) => {
+    if (!template) return null;
+    const response = await fetch(`/api/inspection-templates/${template._id}/import`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ data: payload, apply, overwriteConflicts }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to import template");
+    }
+    return result.preview as ImportPreview;
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setPreview(null);
+    setFileName(file.name);
+
+    try {
+      setLoading(true);
+      const parsed = JSON.parse(await file.text());
+      setData(parsed);
+      setPreview(await requestImport(parsed, false));
+    } catch (err: any) {
+      console.error("Template import preview error:", err);
+      setData(null);
+      setError(err instanceof SyntaxError ? "File is not valid JSON" : err.message || "Failed to read template file");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!data) return;
+    try {
+      setLoading(true);
+      const result = await requestImport(data, true);
+      const totals = result?.totals;
+      toast.success(
+        totals
+          ? `Imported ${totals.add} new and ${totals.change} updated items`
+          : "Template imported"
+      );
+      handleOpenChange(false);
+      onImported();
+    } catch (err: any) {
+      console.error("Template import error:", err);
+      setError(err.message || "Failed to import template");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changedSections = preview?.sections.filter(
+    (section) => section.action === "add" || section.items.some((item) => item.action !== "unchanged")
+  ) ?? [];
+
+  return (
+    <Dialog open={Boolean(template)} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import into {template?.name}</DialogTitle>
+          <DialogDescription>
+            Upload a template exported from this app or a Spectora-style JSON file. Sections and items are
+            matched by name; nothing is saved until you apply the import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateImportFile">Template file</Label>
+            <Input id="templateImportFile" type="file" accept="application/json,.json" onChange={handleFileChange} disabled={loading} />
+            {fileName && <p className="text-xs text-muted-foreground">{fileName}</p>}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {loading && !preview && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking file...
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline">{preview.totals.sectionsAdded} new sections</Badge>
+                <Badge className={ACTION_STYLES.add}>{preview.totals.add} to add</Badge>
+                <Badge className={ACTION_STYLES.change}>{preview.totals.change} to update</Badge>
+                <Badge className={ACTION_STYLES.unchanged}>{preview.totals.unchanged} unchanged</Badge>
+                <Badge className={ACTION_STYLES.conflict}>{preview.totals.conflict} conflicts</Badge>
+              </div>
+
+              <div className="max-h-80 space-y-3 overflow-y-auto rounded-md border p-3">
+                {changedSections.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">This file matches the template; nothing to import.</p>
+                ) : (
+                  changedSections.map((section) => (
+                    <div key={section.name} className="space-y-1">
+                      <p className="text-sm font-semibold">
+                        {section.name}
+                        {section.action === "add" && <span className="ml-2 text-xs font-normal text-green-700">new section</span>}
+                      </p>
+                      <ul className="space-y-1">
+                        {section.items
+                          .filter((item) => item.action !== "unchanged")
+                          .map((item, index) => (
+                            <li key={`${item.text}-${index}`} className="flex items-start gap-2 text-xs">
+                              <span className={`rounded px-1.5 py-0.5 font-medium capitalize ${ACTION_STYLES[item.action]}`}>
+                                {item.action}
+                              </span>
+                              <span>
+                                {item.text}
+                                {item.changes && item.changes.length > 0 && (
+                                  <span className="text-muted-foreground"> ({item.changes.join(", ")})</span>
+                                )}
+                                {item.reason && <span className="text-muted-foreground"> ({item.reason})</span>}
+                              </span>
+                            </li>
+                          ))}
+                      </ul>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              {preview.totals.conflict > 0 && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="overwriteConflicts"
+                    checked={overwriteConflicts}
+                    onCheckedChange={(checked) => setOverwriteConflicts(checked === true)}
+                  />
+                  <Label htmlFor="overwriteConflicts" className="text-sm font-normal">
+                    Overwrite conflicting items with the imported type and tab (duplicates are always skipped)
+                  </Label>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={loading || !preview || changedSections.length === 0}>
+            {loading && preview ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Apply Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
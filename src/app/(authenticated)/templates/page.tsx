@@ -0,0 +1,340 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertCircle, Download, Loader2, PlusCircle, Star, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TemplateImportDialog } from "./_components/TemplateImportDialog";
+
+interface InspectionTemplate {
+  _id: string;
+  name: string;
+  description?: string;
+  isDefault: boolean;
+  sectionCount: number;
+  updatedAt: string;
+}
+
+const SYSTEM_SOURCE = "__system__";
+const BLANK_SOURCE = "__blank__";
+
+export default function TemplatesPage() {
+  const [templates, setTemplates] = useState<InspectionTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [newSource, setNewSource] = useState<string>(SYSTEM_SOURCE);
+  const [creating, setCreating] = useState(false);
+
+  const [templateToDelete, setTemplateToDelete] = useState<InspectionTemplate | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [importTarget, setImportTarget] = useState<InspectionTemplate | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch("/api/inspection-templates", { credentials: "include" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch templates");
+      }
+      setTemplates(Array.isArray(result.templates) ? result.templates : []);
+    } catch (err: any) {
+      console.error("Error fetching templates:", err);
+      setError(err.message || "Failed to load templates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const resetCreateForm = () => {
+    setNewName("");
+    setNewDescription("");
+    setNewSource(SYSTEM_SOURCE);
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      toast.error("Template name is required");
+      return;
+    }
+
+    try {
+      setCreating(true);
+      const response = await fetch("/api/inspection-templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          name: newName,
+          description: newDescription,
+          blank: newSource === BLANK_SOURCE,
+          sourceTemplateId: newSource === SYSTEM_SOURCE || newSource === BLANK_SOURCE ? undefined : newSource,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to create template");
+      }
+      toast.success("Template created");
+      setCreateOpen(false);
+      resetCreateForm();
+      fetchTemplates();
+    } catch (err: any) {
+      console.error("Create template error:", err);
+      toast.error(err.message || "Failed to create template");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleSetDefault = async (template: InspectionTemplate) => {
+    try {
+      const response = await fetch(`/api/inspection-templates/${template._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ isDefault: true }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update template");
+      }
+      toast.success(`${template.name} is now the default template`);
+      fetchTemplates();
+    } catch (err: any) {
+      console.error("Set default template error:", err);
+      toast.error(err.message || "Failed to update template");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!templateToDelete) return;
+
+    try {
+      setIsDeleting(true);
+      const response = await fetch(`/api/inspection-templates/${templateToDelete._id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to delete template");
+      }
+      toast.success("Template deleted");
+      setTemplateToDelete(null);
+      fetchTemplates();
+    } catch (err: any) {
+      console.error("Delete template error:", err);
+      toast.error(err.message || "Failed to delete template");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-6xl space-y-6">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Inspection Templates</h1>
+          <p className="text-muted-foreground">
+            Sections and comments used in your reports. Pick a template per service or per inspection.
+          </p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          New Template
+        </Button>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="flex items-start gap-3 p-4">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <p className="text-sm text-muted-foreground">{error}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <Card>
+          <CardContent className="flex items-center justify-center gap-2 p-10 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading templates...
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Templates</CardTitle>
+            <CardDescription>Export a template to back it up or share it, or import sections from a JSON file.</CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-muted border-collapse text-sm">
+              <thead className="bg-muted/50 text-left text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-3">Name</th>
+                  <th className="px-4 py-3">Description</th>
+                  <th className="px-4 py-3">Sections</th>
+                  <th className="px-4 py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-muted">
+                {templates.map((template) => (
+                  <tr key={template._id} className="hover:bg-muted/30">
+                    <td className="px-4 py-3 align-top font-medium text-foreground">
+                      {template.name}
+                      {template.isDefault && (
+                        <Badge variant="secondary" className="ml-2">
+                          Default
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 align-top text-muted-foreground">{template.description || "—"}</td>
+                    <td className="px-4 py-3 align-top">{template.sectionCount}</td>
+                    <td className="px-4 py-3 text-right align-top">
+                      <div className="flex justify-end gap-2">
+                        {!template.isDefault && (
+                          <Button variant="outline" size="icon" onClick={() => handleSetDefault(template)} title="Make default">
+                            <Star className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="outline" size="icon" onClick={() => setImportTarget(template)} title="Import into template">
+                          <Upload className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="icon" asChild title="Export template">
+                          <a href={`/api/inspection-templates/${template._id}/export`} download>
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                        {!template.isDefault && (
+                          <Button
+                            variant="destructive"
+                            size="icon"
+                            onClick={() => setTemplateToDelete(template)}
+                            title="Delete template"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog
+        open={createOpen}
+        onOpenChange={(open) => {
+          setCreateOpen(open);
+          if (!open) resetCreateForm();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Template</DialogTitle>
+            <DialogDescription>Start from the system default, copy one of your templates, or start empty and import.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="templateName">Name</Label>
+              <Input
+                id="templateName"
+                value={newName}
+                onChange={(event) => setNewName(event.target.value)}
+                placeholder="e.g. Pre-listing"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateDescription">Description</Label>
+              <Textarea
+                id="templateDescription"
+                value={newDescription}
+                onChange={(event) => setNewDescription(event.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateSource">Start from</Label>
+              <Select value={newSource} onValueChange={setNewSource}>
+                <SelectTrigger id="templateSource">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SYSTEM_SOURCE}>System default</SelectItem>
+                  <SelectItem value={BLANK_SOURCE}>Empty template</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template._id} value={template._id}>
+                      Copy of {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)} disabled={creating}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={creating}>
+              {creating ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(templateToDelete)} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Template</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete <span className="font-semibold">{templateToDelete?.name}</span>? Its
+              sections and comments are removed and services using it fall back to the default template.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateToDelete(null)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TemplateImportDialog
+        template={importTarget}
+        onOpenChange={(open) => !open && setImportTarget(null)}
+        onImported={fetchTemplates}
+      />
+    </div>
+  );
+}
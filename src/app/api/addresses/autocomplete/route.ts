@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth-helpers';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -57,6 +58,9 @@ export async function GET(request: NextRequest) {
       );
     }
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Address autocomplete error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch address suggestions' },
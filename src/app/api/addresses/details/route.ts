@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth-helpers';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -100,6 +101,9 @@ export async function GET(request: NextRequest) {
       county,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Address details error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch address details' },
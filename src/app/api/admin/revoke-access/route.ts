@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '../../../../../lib/db';
 import User from '../../../../../src/models/User';
 import { authenticateRequest } from '../../../../../lib/auth';
+import { forbiddenResponse } from '../../../../../lib/permissions';
 
 /**
  * Revoke or restore user access
@@ -25,10 +26,7 @@ export async function POST(request: NextRequest) {
     const admin = await User.findById(currentUser.userId);
     
     if (!admin || !admin.is_company_admin) {
-      return NextResponse.json(
-        { error: 'Forbidden: Admin access required' },
-        { status: 403 }
-      );
+      return forbiddenResponse(['is_company_admin']);
     }
 
     const body = await request.json();
@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Agency from '@/src/models/Agency';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit-log';
 
 export async function GET(request: NextRequest) {
   try {
@@ -58,6 +60,9 @@ export async function GET(request: NextRequest) {
       }
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get agencies error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch agencies' },
@@ -94,11 +99,21 @@ export async function POST(request: NextRequest) {
       updatedBy: currentUser._id,
     });
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'agency',
+      entityId: String(agency._id),
+      action: 'create',
+      after: agency,
+    });
+
     return NextResponse.json(
       { message: 'Agency created successfully', agency: agency.toObject() },
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create agency error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create agency' },
@@ -132,6 +147,7 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Agency name is required' }, { status: 400 });
     }
 
+    const before = await Agency.findOne({ _id, company: currentUser.company }).lean();
     const agency = await Agency.findOneAndUpdate(
       { _id, company: currentUser.company },
       {
@@ -145,10 +161,21 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Agency not found' }, { status: 404 });
     }
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'agency',
+      entityId: String(agency._id),
+      action: 'update',
+      before,
+      after: agency,
+    });
+
     return NextResponse.json(
       { message: 'Agency updated successfully', agency: agency.toObject() }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update agency error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update agency' },
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Agency from '@/src/models/Agency';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -37,6 +38,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ agencies });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Search agencies error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to search agencies' },
@@ -4,6 +4,7 @@ import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import AgentTeam from '@/src/models/AgentTeam';
 import Agent from '@/src/models/Agent';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function DELETE(
   request: NextRequest,
@@ -56,6 +57,9 @@ export async function DELETE(
 
     return NextResponse.json({ message: 'Agent team deleted successfully' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete agent team error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete agent team' },
@@ -4,6 +4,7 @@ import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import AgentTeam from '@/src/models/AgentTeam';
 import '@/src/models/Agent';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -60,6 +61,9 @@ export async function GET(request: NextRequest) {
       }
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get agent teams error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch agent teams' },
@@ -130,6 +134,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create agent team error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create agent team' },
@@ -222,6 +229,9 @@ export async function PUT(request: NextRequest) {
       { message: 'Agent team updated successfully', agentTeam }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update agent team error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update agent team' },
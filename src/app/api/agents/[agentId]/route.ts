@@ -4,6 +4,8 @@ import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Agent from '@/src/models/Agent';
 import AgentTeam from '@/src/models/AgentTeam';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit-log';
 
 export async function DELETE(
   request: NextRequest,
@@ -51,8 +53,18 @@ export async function DELETE(
       company: currentUser.company,
     });
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'agent',
+      entityId: agentId,
+      action: 'delete',
+      before: agent,
+    });
+
     return NextResponse.json({ message: 'Agent deleted successfully' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete agent error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete agent' },
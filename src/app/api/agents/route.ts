@@ -7,6 +7,8 @@ import AgentTeam from '@/src/models/AgentTeam';
 import '@/src/models/Agency';
 import { getOrCreateCategories } from '@/lib/category-utils';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit-log';
 
 export async function GET(request: NextRequest) {
   try {
@@ -98,6 +100,9 @@ export async function GET(request: NextRequest) {
       }
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get agents error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch agents' },
@@ -254,6 +259,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'agent',
+      entityId: agent._id as mongoose.Types.ObjectId,
+      action: 'create',
+      after: agent,
+    });
+
     const populatedAgent = await Agent.findById(agent._id)
       .populate('categories', 'name color')
       .populate('agency', 'name')
@@ -274,6 +286,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create agent error:', error);
     
     // Handle duplicate key error
@@ -426,6 +441,7 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    const before = await Agent.findOne({ _id, company: currentUser.company }).lean();
     const agent = await Agent.findOneAndUpdate(
       { _id, company: currentUser.company },
       {
@@ -469,6 +485,14 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
     }
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'agent',
+      entityId: _id,
+      action: 'update',
+      before,
+      after: await Agent.findById(_id).lean(),
+    });
+
     // Find which team this agent belongs to
     const agentTeamData = await AgentTeam.findOne({
       company: currentUser.company,
@@ -483,6 +507,9 @@ export async function PUT(request: NextRequest) {
       { message: 'Agent updated successfully', agent }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update agent error:', error);
     
     // Handle duplicate key error
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Agent from '@/src/models/Agent';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -41,6 +42,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ agents });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Search agents error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to search agents' },
@@ -4,6 +4,8 @@ import mongoose from 'mongoose';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Agreement from '@/src/models/Agreement';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { removePendingAgreementSignatures } from '@/lib/agreement-signatures';
 
 interface RouteParams {
   params: Promise<{
@@ -45,6 +47,9 @@ export async function GET(request: NextRequest, context: RouteParams) {
 
     return NextResponse.json({ agreement: agreement.toObject() });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get agreement error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch agreement' },
@@ -95,6 +100,9 @@ export async function PUT(request: NextRequest, context: RouteParams) {
       agreement: updated.toObject(),
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update agreement error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update agreement' },
@@ -119,9 +127,13 @@ export async function DELETE(request: NextRequest, context: RouteParams) {
     }
 
     await agreement.deleteOne();
+    await removePendingAgreementSignatures(agreement._id as mongoose.Types.ObjectId);
 
     return NextResponse.json({ message: 'Agreement deleted successfully' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete agreement error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete agreement' },
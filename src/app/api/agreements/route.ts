@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Agreement from '@/src/models/Agreement';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 function extractPlainText(html: string) {
   return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
@@ -27,6 +28,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ agreements });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get agreements error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch agreements' },
@@ -74,6 +78,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create agreement error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create agreement' },
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Company from '@/src/models/Company';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 const DEFAULT_INSTRUCTIONS = 'Please read through and sign:';
 
@@ -31,6 +32,9 @@ export async function GET(request: NextRequest) {
       clientInstructions: company?.agreementClientInstructions ?? DEFAULT_INSTRUCTIONS,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get agreement settings error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch settings' },
@@ -70,6 +74,9 @@ export async function PUT(request: NextRequest) {
       clientInstructions: instructions,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update agreement settings error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update settings' },
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { AnalysisBatchError, retryFailedAnalysisItems } from '@/lib/analysis-batches';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+type RouteParams = {
+  params: Promise<{ batchId: string }>;
+};
+
+// POST /api/analysis-batches/[batchId]/retry → queue failed photos again ({ itemIds? }, all failed photos when omitted)
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const itemIds = Array.isArray(body?.itemIds) ? body.itemIds.map(String) : undefined;
+
+    const { batchId } = await params;
+    const retried = await retryFailedAnalysisItems(currentUser, batchId, itemIds);
+
+    return NextResponse.json({ retried });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    if (error instanceof AnalysisBatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error retrying analysis items:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to retry analysis items' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { AnalysisBatchError, getAnalysisBatch } from '@/lib/analysis-batches';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+type RouteParams = {
+  params: Promise<{ batchId: string }>;
+};
+
+// Force dynamic rendering to avoid build-time execution
+export const dynamic = 'force-dynamic';
+
+// GET /api/analysis-batches/[batchId] → batch progress and the state of every photo in it
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { batchId } = await params;
+    const result = await getAnalysisBatch(currentUser, batchId);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    if (error instanceof AnalysisBatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error fetching analysis batch:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch analysis batch' },
+      { status: 500 }
+    );
+  }
+}
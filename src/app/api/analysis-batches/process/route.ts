@@ -0,0 +1,31 @@
+// /app/api/analysis-batches/process/route.ts
+// Worker for analysis batches: QStash delivers { batchId } here, see lib/analysis-batches.ts.
+import { NextResponse } from 'next/server';
+import { verifySignatureAppRouter } from '@upstash/qstash/nextjs';
+
+import dbConnect from '@/lib/db';
+import { runAnalysisWorker } from '@/lib/analysis-batches';
+
+// Force dynamic rendering to avoid build-time execution
+export const dynamic = 'force-dynamic';
+
+async function handler(request: Request) {
+  try {
+    await dbConnect();
+
+    const { batchId } = await request.json();
+    if (typeof batchId !== 'string') {
+      return NextResponse.json({ error: 'batchId is required' }, { status: 400 });
+    }
+
+    const item = await runAnalysisWorker(batchId);
+
+    return NextResponse.json({ success: true, item });
+  } catch (err: any) {
+    console.error('Analysis batch worker error:', err);
+    return NextResponse.json({ error: err.message }, { status: 500 });
+  }
+}
+
+// Secure endpoint with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import {
+  AnalysisBatchError,
+  createAnalysisBatch,
+  listAnalysisBatches,
+  parseAnalysisBatchInput,
+} from '@/lib/analysis-batches';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+// Force dynamic rendering to avoid build-time execution
+export const dynamic = 'force-dynamic';
+
+// GET /api/analysis-batches?inspectionId= → recent analysis batches for the inspection with progress counts
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const inspectionId = req.nextUrl.searchParams.get('inspectionId') || '';
+    const batches = await listAnalysisBatches(currentUser, inspectionId);
+
+    return NextResponse.json({ batches });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    if (error instanceof AnalysisBatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error fetching analysis batches:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch analysis batches' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/analysis-batches → queue uploaded photos ({ inspectionId, items: [{ imageUrl, location, section, subSection, ... }], concurrency? })
+// for AI analysis; each finished photo becomes a defect
+export async function POST(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { data, error } = parseAnalysisBatchInput(await req.json());
+    if (error || !data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const batch = await createAnalysisBatch(currentUser, data);
+
+    return NextResponse.json({ batch }, { status: 202 });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    if (error instanceof AnalysisBatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error creating analysis batch:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to create analysis batch' },
+      { status: 500 }
+    );
+  }
+}
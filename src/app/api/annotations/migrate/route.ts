@@ -0,0 +1,27 @@
+// /app/api/annotations/migrate/route.ts
+// One-off migration of legacy defect and information block annotations to annotation documents.
+// Publish a single QStash message to this endpoint after deploying; re-running it is harmless.
+import { NextResponse } from 'next/server';
+import { verifySignatureAppRouter } from '@upstash/qstash/nextjs';
+
+import dbConnect from '@/lib/db';
+import { migrateLegacyAnnotationRecords } from '@/lib/annotation-migration';
+
+// Force dynamic rendering to avoid build-time execution
+export const dynamic = 'force-dynamic';
+
+async function handler() {
+  try {
+    await dbConnect();
+
+    const result = await migrateLegacyAnnotationRecords();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (err: any) {
+    console.error('Annotation migration error:', err);
+    return NextResponse.json({ error: err.message }, { status: 500 });
+  }
+}
+
+// Secure endpoint with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { getDefect } from '@/lib/defect';
+import { permissionErrorResponse } from '@/lib/permissions';
+import Inspection from '@/src/models/Inspection';
+import { getAnnotatedImageUrl, REPORT_IMAGE_MAX_DIMENSION } from '@/lib/annotation-images';
+
+export const runtime = 'nodejs'; // sharp needs the Node runtime
+export const dynamic = 'force-dynamic';
+
+// GET /api/annotations/render?defectId=...&size=print|full → redirect to the defect's annotated photo,
+// rendered from the original and its annotations (cached in R2). Falls back to the saved image.
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const defectId = req.nextUrl.searchParams.get('defectId') || '';
+    if (!mongoose.isValidObjectId(defectId)) {
+      return NextResponse.json({ error: 'Invalid defectId' }, { status: 400 });
+    }
+    const size = req.nextUrl.searchParams.get('size') || 'print';
+    if (size !== 'print' && size !== 'full') {
+      return NextResponse.json({ error: 'size must be print or full' }, { status: 400 });
+    }
+
+    // Defects from another company's inspections look the same as missing ones
+    const defect = await getDefect(defectId);
+    const inspection = defect && currentUser.company
+      ? await Inspection.exists({ _id: defect.inspection_id, companyId: currentUser.company })
+      : null;
+    if (!defect || !inspection) {
+      return NextResponse.json({ error: 'Defect not found' }, { status: 404 });
+    }
+
+    const rendered = defect.originalImage
+      ? await getAnnotatedImageUrl(defect.originalImage, defect.annotations, {
+          maxDimension: size === 'print' ? REPORT_IMAGE_MAX_DIMENSION : undefined,
+        })
+      : null;
+    const url = rendered || defect.image;
+    if (!url) {
+      return NextResponse.json({ error: 'Defect has no image' }, { status: 404 });
+    }
+
+    return NextResponse.redirect(url, { status: 302 });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('GET /api/annotations/render error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to render annotated image' }, { status: 500 });
+  }
+}
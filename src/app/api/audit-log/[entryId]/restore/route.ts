@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { AuditRestoreError, restoreAuditVersion } from '@/lib/audit-log';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+type RouteParams = {
+  params: Promise<{ entryId: string }>;
+};
+
+// POST /api/audit-log/[entryId]/restore → put the defect or information block back the way it was before this change
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { entryId } = await params;
+    const restored = await restoreAuditVersion(req, currentUser, entryId);
+
+    return NextResponse.json({ message: 'Version restored successfully', ...restored });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    if (error instanceof AuditRestoreError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error restoring version:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to restore version' },
+      { status: 500 }
+    );
+  }
+}
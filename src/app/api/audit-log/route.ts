@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { getAuditHistory } from '@/lib/audit-log';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { isAuditEntityType } from '@/constants/auditLog';
+
+// GET /api/audit-log?entityType=defect&entityId=… or ?inspection=… → change history, newest first
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { searchParams } = req.nextUrl;
+    const inspection = searchParams.get('inspection');
+    const entityType = searchParams.get('entityType');
+    const entityId = searchParams.get('entityId');
+
+    if (inspection) {
+      if (!mongoose.Types.ObjectId.isValid(inspection)) {
+        return NextResponse.json({ error: 'Invalid inspection ID format' }, { status: 400 });
+      }
+      return NextResponse.json({ entries: await getAuditHistory(currentUser, { inspection }) });
+    }
+
+    if (!isAuditEntityType(entityType) || !entityId || !mongoose.Types.ObjectId.isValid(entityId)) {
+      return NextResponse.json({ error: 'Either inspection or a valid entityType and entityId is required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ entries: await getAuditHistory(currentUser, { entityType, entityId }) });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch change history' },
+      { status: 500 }
+    );
+  }
+}
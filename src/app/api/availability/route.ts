@@ -16,6 +16,8 @@ import {
   validateOpenSchedule,
   validateTimeSlots,
 } from "@/src/lib/availability-utils";
+import { isValidTimeZone, resolveTimeZone } from "@/src/lib/time-zones";
+import { permissionErrorResponse } from "@/lib/permissions";
 
 interface DateSpecificPayload {
   date: string;
@@ -27,6 +29,8 @@ interface UpdatePayload {
   inspectorId: string;
   days: Record<DayKey, { openSchedule: TimeBlock[]; timeSlots: string[] }>;
   dateSpecific?: DateSpecificPayload[];
+  // Inspector time zone override; null or "" falls back to the company zone
+  timeZone?: string | null;
 }
 
 function normalizeDays(days: UpdatePayload["days"]) {
@@ -108,6 +112,7 @@ function formatAvailabilityResponse(availability: IAvailability[]) {
     {
       days: Record<DayKey, { openSchedule: TimeBlock[]; timeSlots: string[] }>;
       dateSpecific: DateSpecificAvailability[];
+      timeZone: string | null;
     }
   >();
 
@@ -128,6 +133,7 @@ function formatAvailabilityResponse(availability: IAvailability[]) {
     map.set(String(doc.inspector), {
       days: normalized,
       dateSpecific: doc.dateSpecific ?? [],
+      timeZone: doc.timeZone || null,
     });
   });
 
@@ -178,14 +184,23 @@ export async function GET(request: NextRequest) {
         email: inspector.email,
         availability,
         dateSpecific: inspectorAvailability?.dateSpecific ?? [],
+        timeZone: inspectorAvailability?.timeZone ?? null,
       };
     });
 
-    const company = await Company.findById(currentUser.company).select("availabilityViewMode");
+    const company = await Company.findById(currentUser.company).select("availabilityViewMode timeZone");
     const viewMode = company?.availabilityViewMode === "timeSlots" ? "timeSlots" : "openSchedule";
 
-    return NextResponse.json({ inspectors: response, allowedTimes: ALLOWED_TIMES, viewMode });
+    return NextResponse.json({
+      inspectors: response,
+      allowedTimes: ALLOWED_TIMES,
+      viewMode,
+      timeZone: resolveTimeZone(company?.timeZone),
+    });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error("Availability GET error:", error);
     return NextResponse.json(
       { error: error?.message ?? "Failed to fetch availability" },
@@ -223,17 +238,30 @@ export async function PUT(request: NextRequest) {
     const normalizedDays = normalizeDays(body.days);
     const normalizedDateSpecific = normalizeDateSpecific(body.dateSpecific ?? []);
 
+    if (body.timeZone && !isValidTimeZone(body.timeZone)) {
+      throw new Error("Invalid time zone");
+    }
+
+    const update: Record<string, unknown> = {
+      company: currentUser.company,
+      inspector: inspector._id,
+      days: normalizedDays,
+      dateSpecific: normalizedDateSpecific,
+    };
+
+    // Leave the time zone override alone when the payload does not mention it
+    if (body.timeZone) {
+      update.timeZone = body.timeZone;
+    } else if (body.timeZone !== undefined) {
+      update.$unset = { timeZone: 1 };
+    }
+
     const availabilityDoc = await Availability.findOneAndUpdate(
       {
         company: currentUser.company,
         inspector: inspector._id,
       },
-      {
-        company: currentUser.company,
-        inspector: inspector._id,
-        days: normalizedDays,
-        dateSpecific: normalizedDateSpecific,
-      },
+      update,
       {
         upsert: true,
         new: true,
@@ -252,8 +280,12 @@ export async function PUT(request: NextRequest) {
     inspectorId: String(inspector._id),
     availability: payload?.days,
     dateSpecific: payload?.dateSpecific ?? [],
+    timeZone: payload?.timeZone ?? null,
   });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error("Availability PUT error:", error);
     return NextResponse.json(
       { error: error?.message ?? "Failed to update availability" },
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import Company from '@/src/models/Company';
+import { DEFAULT_TIME_ZONE } from '@/src/constants/availability';
+import { isValidTimeZone, resolveTimeZone } from '@/src/lib/time-zones';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+export async function GET(request: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ timeZone: DEFAULT_TIME_ZONE });
+    }
+
+    const company = await Company.findById(currentUser.company).select('timeZone');
+    return NextResponse.json({
+      timeZone: resolveTimeZone(company?.timeZone),
+    });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Get company time zone error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch time zone' },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const timeZone = body?.timeZone;
+
+    if (!isValidTimeZone(timeZone)) {
+      return NextResponse.json({ error: 'Invalid time zone' }, { status: 400 });
+    }
+
+    await Company.findByIdAndUpdate(currentUser.company, { timeZone });
+
+    return NextResponse.json({ message: 'Time zone updated', timeZone });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Update company time zone error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update time zone' },
+      { status: 500 },
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Company from '@/src/models/Company';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 type AvailabilityViewMode = 'openSchedule' | 'timeSlots';
 
@@ -28,6 +29,9 @@ export async function GET(request: NextRequest) {
       viewMode: (company?.availabilityViewMode ?? 'openSchedule') as AvailabilityViewMode,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get availability view mode error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch view mode' },
@@ -62,6 +66,9 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json({ message: 'View mode updated', viewMode });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update availability view mode error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update view mode' },
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { CalendarFeedScope, getCalendarFeedToken, getCalendarFeedUrl } from '@/lib/calendar-feeds';
+import { forbiddenResponse, hasPermission, permissionErrorResponse } from '@/lib/permissions';
+
+type CurrentUser = NonNullable<Awaited<ReturnType<typeof getCurrentUser>>>;
+
+/**
+ * The feed a request is about: the caller's own (default) or, for admins, the company's
+ */
+function resolveFeed(request: NextRequest, currentUser: CurrentUser) {
+  const scope: CalendarFeedScope = request.nextUrl.searchParams.get('scope') === 'company' ? 'company' : 'inspector';
+
+  if (scope === 'company') {
+    if (!hasPermission(currentUser, 'is_company_admin')) {
+      return { error: forbiddenResponse(['is_company_admin'], 'Only company admins can use the company calendar feed') };
+    }
+    if (!currentUser.company) {
+      return { error: NextResponse.json({ error: 'No company associated with user' }, { status: 400 }) };
+    }
+    return { scope, id: String(currentUser.company) };
+  }
+
+  return { scope, id: String(currentUser._id) };
+}
+
+async function respondWithFeedUrl(request: NextRequest, regenerate: boolean) {
+  await dbConnect();
+
+  const currentUser = await getCurrentUser(request);
+  if (!currentUser) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const feed = resolveFeed(request, currentUser);
+  if (feed.error) return feed.error;
+
+  const token = await getCalendarFeedToken(feed.scope!, feed.id!, { regenerate });
+  if (!token) {
+    return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ scope: feed.scope, url: getCalendarFeedUrl(token) });
+}
+
+// GET → the subscription URL, created on first use
+export async function GET(request: NextRequest) {
+  try {
+    return await respondWithFeedUrl(request, false);
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Get calendar feed URL error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch calendar feed URL' },
+      { status: 500 },
+    );
+  }
+}
+
+// POST → a new subscription URL; the old one stops working
+export async function POST(request: NextRequest) {
+  try {
+    return await respondWithFeedUrl(request, true);
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Regenerate calendar feed URL error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to regenerate calendar feed URL' },
+      { status: 500 },
+    );
+  }
+}
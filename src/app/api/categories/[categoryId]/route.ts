@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Category from '@/src/models/Category';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function DELETE(
   request: NextRequest,
@@ -33,6 +34,9 @@ export async function DELETE(
 
     return NextResponse.json({ message: 'Category deleted successfully' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete category error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete category' },
@@ -0,0 +1,26 @@
+// /app/api/categories/auto-categorize/cron/route.ts
+// Nightly batch run, triggered by a QStash schedule pointing at this endpoint.
+import { NextResponse } from 'next/server';
+import { verifySignatureAppRouter } from '@upstash/qstash/nextjs';
+
+import dbConnect from '@/lib/db';
+import { runAutoCategorizationForAllCompanies } from '@/lib/category-rules';
+
+// Force dynamic rendering to avoid build-time execution
+export const dynamic = 'force-dynamic';
+
+async function handler() {
+  try {
+    await dbConnect();
+
+    const companies = await runAutoCategorizationForAllCompanies();
+
+    return NextResponse.json({ success: true, companies });
+  } catch (err: any) {
+    console.error('Auto categorize batch error:', err);
+    return NextResponse.json({ error: err.message }, { status: 500 });
+  }
+}
+
+// Secure endpoint with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
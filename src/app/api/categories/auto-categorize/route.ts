@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { evaluateAutoCategories } from '@/lib/category-rules';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+// GET /api/categories/auto-categorize?categoryId=... → dry run showing which contacts would gain or lose each category
+export async function GET(request: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const categoryId = searchParams.get('categoryId') || undefined;
+
+    if (categoryId && !mongoose.Types.ObjectId.isValid(categoryId)) {
+      return NextResponse.json({ error: 'Invalid category ID' }, { status: 400 });
+    }
+
+    const results = await evaluateAutoCategories(currentUser.company, { categoryId, dryRun: true });
+
+    return NextResponse.json({ dryRun: true, results });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Auto categorize preview error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to preview auto categories' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/categories/auto-categorize → apply auto categories now for the current company
+export async function POST(request: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const categoryId = typeof body?.categoryId === 'string' ? body.categoryId : undefined;
+
+    if (categoryId && !mongoose.Types.ObjectId.isValid(categoryId)) {
+      return NextResponse.json({ error: 'Invalid category ID' }, { status: 400 });
+    }
+
+    const results = await evaluateAutoCategories(currentUser.company, { categoryId });
+
+    return NextResponse.json({ message: 'Auto categories applied successfully', results });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Auto categorize error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to apply auto categories' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Category from '@/src/models/Category';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -49,6 +50,9 @@ export async function GET(request: NextRequest) {
       }
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get categories error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch categories' },
@@ -131,6 +135,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create category error:', error);
     if (error.code === 11000) {
       return NextResponse.json(
@@ -229,6 +236,9 @@ export async function PUT(request: NextRequest) {
       { message: 'Category updated successfully', category: category.toObject() }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update category error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update category' },
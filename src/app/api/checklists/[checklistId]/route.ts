@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import mongoose from 'mongoose';
 import SectionChecklist from '@/src/models/SectionChecklist';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 async function dbConnect() {
   if (mongoose.connection.readyState === 0) {
@@ -15,6 +17,12 @@ export async function PUT(
 ) {
   try {
     await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { checklistId } = await params;
 
     if (!checklistId || !mongoose.isValidObjectId(checklistId)) {
@@ -75,8 +83,8 @@ export async function PUT(
       updateOperation.$unset = unsetData;
     }
 
-    const updated = await SectionChecklist.findByIdAndUpdate(
-      checklistId,
+    const updated = await SectionChecklist.findOneAndUpdate(
+      { _id: checklistId, company: currentUser.company },
       updateOperation,
       { new: true, runValidators: true }
     ).lean();
@@ -96,6 +104,9 @@ export async function PUT(
       }
     );
   } catch (err: any) {
+    const permissionResponse = permissionErrorResponse(err);
+    if (permissionResponse) return permissionResponse;
+
     console.error('PUT /api/checklists/[checklistId] error:', err);
     return NextResponse.json({ success: false, error: err.message }, { status: 500 });
   }
@@ -108,13 +119,19 @@ export async function DELETE(
 ) {
   try {
     await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { checklistId } = await params;
 
     if (!checklistId || !mongoose.isValidObjectId(checklistId)) {
       return NextResponse.json({ success: false, error: 'Invalid checklistId' }, { status: 400 });
     }
 
-    const deleted = await SectionChecklist.findByIdAndDelete(checklistId);
+    const deleted = await SectionChecklist.findOneAndDelete({ _id: checklistId, company: currentUser.company });
 
     if (!deleted) {
       return NextResponse.json({ success: false, error: 'Checklist not found' }, { status: 404 });
@@ -131,6 +148,9 @@ export async function DELETE(
       }
     );
   } catch (err: any) {
+    const permissionResponse = permissionErrorResponse(err);
+    if (permissionResponse) return permissionResponse;
+
     console.error('DELETE /api/checklists/[checklistId] error:', err);
     return NextResponse.json({ success: false, error: err.message }, { status: 500 });
   }
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import mongoose from 'mongoose';
 import SectionChecklist from '@/src/models/SectionChecklist';
+import Section from '@/src/models/Section';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 async function dbConnect() {
   if (mongoose.connection.readyState === 0) {
@@ -12,6 +15,12 @@ async function dbConnect() {
 export async function POST(req: NextRequest) {
   try {
     await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
   const body = await req.json();
   const { section_id, text, comment, type, tab, order_index, answer_choices, default_checked } = body || {};
 
@@ -27,6 +36,12 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ success: false, error: 'type must be status or information' }, { status: 400 });
     }
 
+    // Only sections of the user's own company templates can be added to
+    const section = await Section.findOne({ _id: section_id, company: currentUser.company }).select('company').lean();
+    if (!section) {
+      return NextResponse.json({ success: false, error: 'Section not found' }, { status: 404 });
+    }
+
     // Get the highest order_index for this section
     let maxOrder = 0;
     if (order_index === undefined) {
@@ -39,6 +54,7 @@ export async function POST(req: NextRequest) {
 
     const checklist = await SectionChecklist.create({
       section_id,
+      company: section.company,
       text: text.trim(),
       comment: comment ? comment.trim() : undefined,
       type,
@@ -50,6 +66,9 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json({ success: true, data: checklist }, { status: 201 });
   } catch (err: any) {
+    const permissionResponse = permissionErrorResponse(err);
+    if (permissionResponse) return permissionResponse;
+
     console.error('POST /api/checklists error:', err);
     return NextResponse.json({ success: false, error: err.message }, { status: 500 });
   }
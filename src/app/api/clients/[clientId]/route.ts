@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Client from '@/src/models/Client';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit-log';
 
 export async function DELETE(
   request: NextRequest,
@@ -31,8 +33,18 @@ export async function DELETE(
       return NextResponse.json({ error: 'Client not found' }, { status: 404 });
     }
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'client',
+      entityId: clientId,
+      action: 'delete',
+      before: client,
+    });
+
     return NextResponse.json({ message: 'Client deleted successfully' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete client error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete client' },
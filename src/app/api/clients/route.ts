@@ -5,6 +5,8 @@ import { getCurrentUser } from '@/lib/auth-helpers';
 import Client from '@/src/models/Client';
 import { getOrCreateCategories } from '@/lib/category-utils';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit-log';
 
 export async function GET(request: NextRequest) {
   try {
@@ -72,6 +74,9 @@ export async function GET(request: NextRequest) {
       }
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get clients error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch clients' },
@@ -168,6 +173,13 @@ export async function POST(request: NextRequest) {
       updatedBy: currentUser._id,
     });
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'client',
+      entityId: client._id as mongoose.Types.ObjectId,
+      action: 'create',
+      after: client,
+    });
+
     const populatedClient = await Client.findById(client._id)
       .populate('categories', 'name color')
       .lean();
@@ -177,6 +189,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create client error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create client' },
@@ -258,6 +273,7 @@ export async function PUT(request: NextRequest) {
       currentUser._id as mongoose.Types.ObjectId
     );
 
+    const before = await Client.findOne({ _id, company: currentUser.company }).lean();
     const client = await Client.findOneAndUpdate(
       { _id, company: currentUser.company },
       {
@@ -284,10 +300,21 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Client not found' }, { status: 404 });
     }
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'client',
+      entityId: client._id as mongoose.Types.ObjectId,
+      action: 'update',
+      before,
+      after: await Client.findById(client._id).lean(),
+    });
+
     return NextResponse.json(
       { message: 'Client updated successfully', client: client.toObject() }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update client error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update client' },
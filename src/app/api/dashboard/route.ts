@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { getDashboardMetrics, parseDashboardRange } from '@/lib/dashboard';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { getSchedulingTimeZone } from '@/lib/scheduling';
+
+// GET /api/dashboard?from=&to= → company metrics for the dashboard cards and trend charts
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'User is not associated with a company' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const timeZone = await getSchedulingTimeZone(currentUser.company);
+    const range = parseDashboardRange(searchParams.get('from'), searchParams.get('to'), timeZone);
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 });
+    }
+
+    const metrics = await getDashboardMetrics(currentUser, range);
+    return NextResponse.json(metrics);
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error loading dashboard metrics:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load dashboard metrics' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,23 @@
-import { NextResponse } from "next/server";
-import { getDefectsByInspection } from "@/lib/defect";
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/db";
+import { getDefect, getDefectsByInspection } from "@/lib/defect";
+import { getCurrentUser } from "@/lib/auth-helpers";
+import { recordAuditEvent } from "@/lib/audit-log";
+import { AnnotationValidationError } from "@/lib/annotations";
+import { permissionErrorResponse } from "@/lib/permissions";
+import Inspection from "@/src/models/Inspection";
+
+type CurrentUser = NonNullable<Awaited<ReturnType<typeof getCurrentUser>>>;
+
+// The defect, when it belongs to one of the user's company's inspections
+async function findCompanyDefect(defectId: string, currentUser: CurrentUser) {
+  if (!mongoose.isValidObjectId(defectId)) return null;
+  const defect = await getDefect(defectId);
+  if (!defect) return null;
+  const inspection = await Inspection.exists({ _id: defect.inspection_id, companyId: currentUser.company });
+  return inspection ? defect : null;
+}
 
 
 // GET /api/defects/[inspectionId]
@@ -22,10 +40,16 @@ import { deleteDefect } from "@/lib/defect";
 
 // DELETE /api/defects/[defectId]
 export async function DELETE(
-  req: Request,
+  req: NextRequest,
   { params }: { params: Promise<{ inspectionId: string }> }
 ) {
   try {
+    await dbConnect();
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     const { inspectionId } = await params;
     
     if (!inspectionId) {
@@ -36,6 +60,13 @@ export async function DELETE(
       );
     }
 
+    const before = await findCompanyDefect(inspectionId, currentUser);
+    if (!before) {
+      return NextResponse.json(
+        { error: "Defect not found" },
+        { status: 404 }
+      );
+    }
     const result = await deleteDefect(inspectionId);
 
     if (result.deletedCount === 0) {
@@ -45,11 +76,22 @@ export async function DELETE(
       );
     }
 
+    await recordAuditEvent(req, currentUser, {
+      entityType: "defect",
+      entityId: inspectionId,
+      action: "delete",
+      before,
+      inspection: before?.inspection_id,
+    });
+
     return NextResponse.json(
       { message: "Defect deleted successfully" },
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error("Error deleting defect:", error);
     
     if (error.message.includes("Invalid defect ID format")) {
@@ -100,10 +142,16 @@ const normalizeObjectId = (value: unknown): string | null => {
 
 // PATCH /api/defects/[defectId]
 export async function PATCH(
-  req: Request,
+  req: NextRequest,
   { params }: { params: Promise<{ inspectionId: string }> }
 ) {
   try {
+    await dbConnect();
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     const { inspectionId } = await params;
     const defectId = inspectionId;
     const body = await req.json();
@@ -132,8 +180,7 @@ export async function PATCH(
 
     console.log('📊 Annotations in PATCH request:');
     console.log('  - annotations:', annotations);
-    console.log('  - is array:', Array.isArray(annotations));
-    console.log('  - length:', annotations?.length || 0);
+    console.log('  - shapes:', annotations?.shapes?.length || 0);
     console.log('🖼️ originalImage:', originalImage);
 
     const normalizedInspectionId = normalizeObjectId(inspection_id);
@@ -164,7 +211,7 @@ export async function PATCH(
 
     console.log('💾 Updates object before cleanup:', {
       hasAnnotations: updates.annotations !== undefined,
-      annotationsLength: updates.annotations?.length || 0,
+      annotationShapes: updates.annotations?.shapes?.length || 0,
       hasOriginalImage: updates.originalImage !== undefined
     });
 
@@ -175,10 +222,17 @@ export async function PATCH(
 
     console.log('💾 Updates object after cleanup:', {
       hasAnnotations: updates.annotations !== undefined,
-      annotationsLength: updates.annotations?.length || 0,
+      annotationShapes: updates.annotations?.shapes?.length || 0,
       hasOriginalImage: updates.originalImage !== undefined
     });
 
+    const before = await findCompanyDefect(defectId, currentUser);
+    if (!before) {
+      return NextResponse.json(
+        { error: "Defect not found for this inspection" },
+        { status: 404 }
+      );
+    }
     const result = await updateDefect(defectId, normalizedInspectionId, updates);
 
     console.log('✅ updateDefect completed:', {
@@ -193,12 +247,27 @@ export async function PATCH(
       );
     }
 
+    await recordAuditEvent(req, currentUser, {
+      entityType: "defect",
+      entityId: defectId,
+      action: "update",
+      before,
+      after: await getDefect(defectId),
+      inspection: normalizedInspectionId,
+    });
+
     return NextResponse.json(
       { message: "Defect updated successfully" },
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error("Error updating defect:", error);
+    if (error instanceof AnnotationValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     return NextResponse.json(
       { error: error.message || "Failed to update defect" },
       { status: 500 }
@@ -1,13 +1,48 @@
-import { NextResponse } from "next/server";
-import { createDefect } from "@/lib/defect";
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/db";
+import { createDefect, getDefect } from "@/lib/defect";
+import { getCurrentUser } from "@/lib/auth-helpers";
+import { recordAuditEvent } from "@/lib/audit-log";
+import { AnnotationValidationError } from "@/lib/annotations";
+import { permissionErrorResponse } from "@/lib/permissions";
+import Inspection from "@/src/models/Inspection";
 
 // POST /api/defects → create defect
-export async function POST(req: Request) {
+export async function POST(req: NextRequest) {
   try {
+    await dbConnect();
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     const body = await req.json();
+    if (!mongoose.isValidObjectId(body?.inspection_id)) {
+      return NextResponse.json({ error: "inspection_id is required or invalid" }, { status: 400 });
+    }
+    const inspection = await Inspection.exists({ _id: body.inspection_id, companyId: currentUser.company });
+    if (!inspection) {
+      return NextResponse.json({ error: "Inspection not found" }, { status: 404 });
+    }
+
     const id = await createDefect(body);
+
+    await recordAuditEvent(req, currentUser, {
+      entityType: "defect",
+      entityId: id,
+      action: "create",
+      after: await getDefect(id),
+      inspection: body.inspection_id,
+    });
     return NextResponse.json({ id }, { status: 201 });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    if (error instanceof AnnotationValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 }
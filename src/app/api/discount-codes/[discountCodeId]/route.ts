@@ -9,6 +9,7 @@ import {
   withDiscountCodeRelations,
   type DiscountCodeLean,
 } from '@/lib/discount-code-utils';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 interface RouteParams {
   params: Promise<{
@@ -50,6 +51,9 @@ export async function GET(request: NextRequest, context: RouteParams) {
 
     return NextResponse.json({ discountCode: hydrated ?? discountCode.toObject() });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get discount code error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch discount code' },
@@ -126,6 +130,9 @@ export async function PUT(request: NextRequest, context: RouteParams) {
       discountCode: updated.toObject(),
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update discount code error:', error);
     if (error?.code === 11000) {
       return NextResponse.json(
@@ -159,6 +166,9 @@ export async function DELETE(request: NextRequest, context: RouteParams) {
 
     return NextResponse.json({ message: 'Discount code deleted successfully' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete discount code error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete discount code' },
@@ -8,6 +8,7 @@ import {
   withDiscountCodeRelations,
   type DiscountCodeLean,
 } from '@/lib/discount-code-utils';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -30,6 +31,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ discountCodes: hydrated });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get discount codes error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch discount codes' },
@@ -88,6 +92,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create discount code error:', error);
     if (error?.code === 11000) {
       return NextResponse.json(
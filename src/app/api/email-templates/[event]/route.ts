@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import EmailTemplate from '@/src/models/EmailTemplate';
+import { getEmailTemplate, isEmailEvent } from '@/lib/email-notifications';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { DEFAULT_EMAIL_TEMPLATES, EMAIL_RECIPIENTS, EmailRecipient } from '@/constants/emailTemplates';
+
+interface RouteParams {
+  params: Promise<{
+    event: string;
+  }>;
+}
+
+const stripHtml = (value: string) => value.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+
+export async function PUT(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { event } = await context.params;
+    if (!isEmailEvent(event)) {
+      return NextResponse.json({ error: 'Unknown email event' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const subject = typeof body.subject === 'string' ? body.subject.trim() : '';
+    const html = typeof body.body === 'string' ? body.body : '';
+
+    if (!subject) {
+      return NextResponse.json({ error: 'Subject is required' }, { status: 400 });
+    }
+
+    if (!stripHtml(html)) {
+      return NextResponse.json({ error: 'Email body cannot be empty' }, { status: 400 });
+    }
+
+    const recipients: EmailRecipient[] = DEFAULT_EMAIL_TEMPLATES[event].fixedRecipients
+      ? []
+      : Array.isArray(body.recipients)
+        ? body.recipients.filter((recipient: unknown): recipient is EmailRecipient =>
+            (EMAIL_RECIPIENTS as readonly unknown[]).includes(recipient)
+          )
+        : DEFAULT_EMAIL_TEMPLATES[event].recipients;
+
+    await EmailTemplate.findOneAndUpdate(
+      { company: currentUser.company, event },
+      {
+        $set: {
+          subject,
+          body: html,
+          enabled: body.enabled !== false,
+          recipients,
+          updatedBy: currentUser._id,
+        },
+      },
+      { upsert: true, new: true, runValidators: true }
+    );
+
+    const template = await getEmailTemplate(currentUser.company as mongoose.Types.ObjectId, event);
+
+    return NextResponse.json({ message: 'Email template updated', template });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Update email template error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update email template' },
+      { status: 500 }
+    );
+  }
+}
+
+// Restores the built-in default for the event
+export async function DELETE(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { event } = await context.params;
+    if (!isEmailEvent(event)) {
+      return NextResponse.json({ error: 'Unknown email event' }, { status: 404 });
+    }
+
+    await EmailTemplate.deleteOne({ company: currentUser.company, event });
+    const template = await getEmailTemplate(currentUser.company as mongoose.Types.ObjectId, event);
+
+    return NextResponse.json({ message: 'Email template reset to default', template });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Reset email template error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to reset email template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { listEmailTemplates } from '@/lib/email-notifications';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+export async function GET(request: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const templates = await listEmailTemplates(currentUser.company as mongoose.Types.ObjectId);
+
+    return NextResponse.json({ templates });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Get email templates error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch email templates' },
+      { status: 500 }
+    );
+  }
+}
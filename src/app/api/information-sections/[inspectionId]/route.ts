@@ -4,6 +4,11 @@ import InspectionInformationBlock from '@/src/models/InspectionInformationBlock'
 // Import Section and SectionChecklist models to ensure they're registered before populate
 import Section from '@/src/models/Section';
 import SectionChecklist from '@/src/models/SectionChecklist';
+import Inspection from '@/src/models/Inspection';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { AnnotationValidationError, normalizeAnnotationsInput } from '@/lib/annotations';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 async function dbConnect() {
   if (mongoose.connection.readyState === 0) {
@@ -18,6 +23,19 @@ async function dbConnect() {
   }
 }
 
+// The signed-in user when they may change the inspection's blocks, otherwise the response to send
+async function authorizeInspection(req: NextRequest, inspectionId: string) {
+  const currentUser = await getCurrentUser(req);
+  if (!currentUser) {
+    return { response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }) };
+  }
+  const inspection = await Inspection.exists({ _id: inspectionId, companyId: currentUser.company });
+  if (!inspection) {
+    return { response: NextResponse.json({ success: false, error: 'Inspection not found' }, { status: 404 }) };
+  }
+  return { currentUser };
+}
+
 // GET /api/information-sections/[inspectionId]
 export async function GET(
   _req: NextRequest,
@@ -78,6 +96,9 @@ export async function POST(
       return NextResponse.json({ success: false, error: 'Invalid inspectionId' }, { status: 400 });
     }
 
+    const { currentUser, response } = await authorizeInspection(req, inspectionId);
+    if (response) return response;
+
     const body = await req.json();
     const {
       section_id,
@@ -125,7 +146,7 @@ export async function POST(
       ? images
           .map((img: any) => ({
             url: typeof img?.url === 'string' ? img.url : '',
-            annotations: typeof img?.annotations === 'string' ? img.annotations : undefined,
+            annotations: normalizeAnnotationsInput(img?.annotations) ?? undefined,
             checklist_id: typeof img?.checklist_id === 'string' ? img.checklist_id : undefined,
             location: typeof img?.location === 'string' ? img.location : undefined,
             isThreeSixty: typeof img?.isThreeSixty === 'boolean' ? img.isThreeSixty : false, // Include 360° flag
@@ -146,6 +167,14 @@ export async function POST(
       images: cleanImages,
     });
 
+    await recordAuditEvent(req, currentUser, {
+      entityType: 'information_block',
+      entityId: doc._id as mongoose.Types.ObjectId,
+      action: 'create',
+      after: doc,
+      inspection: inspectionId,
+    });
+
     // Populate before returning
     const populated = await InspectionInformationBlock.findById(doc._id)
       .populate('section_id')
@@ -164,7 +193,14 @@ export async function POST(
       }
     );
   } catch (err: any) {
+    const permissionResponse = permissionErrorResponse(err);
+    if (permissionResponse) return permissionResponse;
+
     console.error('POST /api/information-sections/[inspectionId] error:', err);
+
+    if (err instanceof AnnotationValidationError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
     
     // Handle duplicate constraint (inspection_id + section_id unique)
     if (err?.code === 11000) {
@@ -192,6 +228,9 @@ export async function PUT(
     if (!inspectionId || !mongoose.isValidObjectId(inspectionId)) {
       return NextResponse.json({ success: false, error: 'Invalid inspectionId' }, { status: 400 });
     }
+
+    const { currentUser, response } = await authorizeInspection(req, inspectionId);
+    if (response) return response;
     
     if (!blockId || !mongoose.isValidObjectId(blockId)) {
       return NextResponse.json({ success: false, error: 'Invalid blockId' }, { status: 400 });
@@ -239,7 +278,7 @@ export async function PUT(
       ? images
           .map((img: any) => ({
             url: typeof img?.url === 'string' ? img.url : '',
-            annotations: typeof img?.annotations === 'string' ? img.annotations : undefined,
+            annotations: normalizeAnnotationsInput(img?.annotations) ?? undefined,
             checklist_id: typeof img?.checklist_id === 'string' ? img.checklist_id : undefined,
             location: typeof img?.location === 'string' ? img.location : undefined,
             isThreeSixty: typeof img?.isThreeSixty === 'boolean' ? img.isThreeSixty : false, // Include 360° flag
@@ -250,6 +289,8 @@ export async function PUT(
     console.log('✅ PUT - Clean images after validation:', cleanImages);
     console.log('🔍 PUT - Images with 360° flag:', cleanImages.filter((img: any) => img.isThreeSixty));
 
+    const before = await InspectionInformationBlock.findOne({ _id: blockId, inspection_id: inspectionId }).lean();
+
     // Update information block
     const updated = await InspectionInformationBlock.findOneAndUpdate(
       { _id: blockId, inspection_id: inspectionId },
@@ -269,6 +310,15 @@ export async function PUT(
       return NextResponse.json({ success: false, error: 'Block not found' }, { status: 404 });
     }
 
+    await recordAuditEvent(req, currentUser, {
+      entityType: 'information_block',
+      entityId: blockId,
+      action: 'update',
+      before,
+      after: await InspectionInformationBlock.findById(blockId).lean(),
+      inspection: inspectionId,
+    });
+
     return NextResponse.json(
       { success: true, data: updated },
       {
@@ -280,7 +330,13 @@ export async function PUT(
       }
     );
   } catch (err: any) {
+    const permissionResponse = permissionErrorResponse(err);
+    if (permissionResponse) return permissionResponse;
+
     console.error('PUT /api/information-sections/[inspectionId] error:', err);
+    if (err instanceof AnnotationValidationError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
     return NextResponse.json({ success: false, error: err.message }, { status: 500 });
   }
 }
@@ -299,6 +355,9 @@ export async function DELETE(
     if (!inspectionId || !mongoose.isValidObjectId(inspectionId)) {
       return NextResponse.json({ success: false, error: 'Invalid inspectionId' }, { status: 400 });
     }
+
+    const { currentUser, response } = await authorizeInspection(req, inspectionId);
+    if (response) return response;
     
     if (!blockId || !mongoose.isValidObjectId(blockId)) {
       return NextResponse.json({ success: false, error: 'Invalid blockId' }, { status: 400 });
@@ -313,6 +372,14 @@ export async function DELETE(
       return NextResponse.json({ success: false, error: 'Block not found' }, { status: 404 });
     }
 
+    await recordAuditEvent(req, currentUser, {
+      entityType: 'information_block',
+      entityId: blockId,
+      action: 'delete',
+      before: deleted,
+      inspection: inspectionId,
+    });
+
     return NextResponse.json(
       { success: true, data: { _id: blockId } },
       {
@@ -324,6 +391,9 @@ export async function DELETE(
       }
     );
   } catch (err: any) {
+    const permissionResponse = permissionErrorResponse(err);
+    if (permissionResponse) return permissionResponse;
+
     console.error('DELETE /api/information-sections/[inspectionId] error:', err);
     return NextResponse.json({ success: false, error: err.message }, { status: 500 });
   }
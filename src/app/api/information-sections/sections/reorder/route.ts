@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import mongoose from 'mongoose';
 import SectionChecklist from '@/src/models/SectionChecklist';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 async function dbConnect() {
   if (mongoose.connection.readyState === 0) {
@@ -14,6 +16,12 @@ export async function POST(req: NextRequest) {
   try {
     await dbConnect();
 
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+
     const body = await req.json().catch(() => ({}));
     const { sectionId, kind, orderedIds } = body || {};
 
@@ -21,8 +29,8 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ success: false, error: 'Invalid payload' }, { status: 400 });
     }
 
-    // Build filter based on kind
-    const filter: any = { section_id: sectionId };
+    // Build filter based on kind; only the user's own company templates can be reordered
+    const filter: any = { section_id: sectionId, company: currentUser.company };
     if (kind === 'status') filter.type = 'status';
     if (kind === 'limitations') filter.tab = 'limitations';
 
@@ -52,6 +60,9 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json({ success: true });
   } catch (err: any) {
+    const permissionResponse = permissionErrorResponse(err);
+    if (permissionResponse) return permissionResponse;
+
     console.error('POST /api/information-sections/sections/reorder error:', err);
     return NextResponse.json({ success: false, error: err.message }, { status: 500 });
   }
@@ -1,7 +1,16 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import mongoose from 'mongoose';
 import Section from '@/src/models/Section';
 import SectionChecklist from '@/src/models/SectionChecklist';
+import InspectionTemplate from '@/src/models/InspectionTemplate';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { permissionErrorResponse } from '@/lib/permissions';
+import {
+  ensureCompanyDefaultTemplate,
+  findCompanyTemplateId,
+  getSystemTemplate,
+  resolveInspectionTemplateId,
+} from '@/lib/inspection-templates';
 
 const RESOURCES_SECTION_NAME = '18 - Resources and Disclaimers';
 const LEGACY_RESOURCES_SECTION_NAME = 'Resources and Disclaimers';
@@ -111,13 +120,20 @@ async function dbConnect() {
   }
 }
 
-export async function GET() {
+// GET /api/information-sections/sections?templateId=...|inspectionId=...
+// Without either, returns the signed-in user's company default template
+export async function GET(req: NextRequest) {
   try {
     await dbConnect();
-    await ensureResourcesSection();
 
-    // Fetch all sections sorted by order_index
-    const sections = await Section.find({}).sort({ order_index: 1 }).lean();
+    const templateId = await resolveTemplateId(req);
+    if (!templateId) {
+      return NextResponse.json({ success: false, error: 'Template not found' }, { status: 404 });
+    }
+    await ensureResourcesSection(templateId);
+
+    // Fetch the template's sections sorted by order_index
+    const sections = await Section.find({ template: templateId }).sort({ order_index: 1 }).lean();
     
     if (!sections.length) {
       return NextResponse.json({ success: true, data: [] });
@@ -144,7 +160,7 @@ export async function GET() {
 
     // Ensure no caching in production to always get fresh section/checklist data
     return NextResponse.json(
-      { success: true, data: result },
+      { success: true, data: result, templateId: templateId.toString() },
       {
         headers: {
           'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
@@ -154,16 +170,49 @@ export async function GET() {
       }
     );
   } catch (err: any) {
+    const permissionResponse = permissionErrorResponse(err);
+    if (permissionResponse) return permissionResponse;
+
     console.error('GET /api/information-sections/sections error:', err);
     return NextResponse.json({ success: false, error: err.message }, { status: 500 });
   }
 }
 
-async function ensureResourcesSection() {
-  let section = await Section.findOne({ name: RESOURCES_SECTION_NAME });
+// Null when templateId is not the system template or one of the signed-in user's company templates
+async function resolveTemplateId(req: NextRequest): Promise<mongoose.Types.ObjectId | null> {
+  const { searchParams } = new URL(req.url);
+  const templateId = searchParams.get('templateId');
+  const inspectionId = searchParams.get('inspectionId');
+
+  if (templateId) {
+    const systemTemplate = await getSystemTemplate();
+    if (templateId === systemTemplate._id!.toString()) {
+      return systemTemplate._id as mongoose.Types.ObjectId;
+    }
+    const currentUser = await getCurrentUser(req);
+    return currentUser?.company ? findCompanyTemplateId(currentUser.company as mongoose.Types.ObjectId, templateId) : null;
+  }
+
+  if (inspectionId) {
+    const inspectionTemplateId = await resolveInspectionTemplateId(inspectionId);
+    if (inspectionTemplateId) return inspectionTemplateId;
+  }
+
+  const currentUser = await getCurrentUser(req);
+  if (currentUser?.company) {
+    const template = await ensureCompanyDefaultTemplate(currentUser.company as mongoose.Types.ObjectId, currentUser._id as mongoose.Types.ObjectId);
+    return template._id as mongoose.Types.ObjectId;
+  }
+
+  const systemTemplate = await getSystemTemplate();
+  return systemTemplate._id as mongoose.Types.ObjectId;
+}
+
+async function ensureResourcesSection(templateId: mongoose.Types.ObjectId) {
+  let section = await Section.findOne({ template: templateId, name: RESOURCES_SECTION_NAME });
 
   if (!section) {
-    const legacySection = await Section.findOne({ name: LEGACY_RESOURCES_SECTION_NAME });
+    const legacySection = await Section.findOne({ template: templateId, name: LEGACY_RESOURCES_SECTION_NAME });
     if (legacySection) {
       legacySection.name = RESOURCES_SECTION_NAME;
       await legacySection.save();
@@ -172,16 +221,20 @@ async function ensureResourcesSection() {
   }
 
   if (!section) {
-    const lastSection = await Section.findOne({}).sort({ order_index: -1 }).select('order_index').lean();
+    const lastSection = await Section.findOne({ template: templateId }).sort({ order_index: -1 }).select('order_index').lean();
     const orderIndex = lastSection ? lastSection.order_index + 1 : 0;
+    const template = await InspectionTemplate.findById(templateId).select('company').lean();
     section = await Section.create({
       name: RESOURCES_SECTION_NAME,
       order_index: orderIndex,
+      template: templateId,
+      company: template?.company ?? null,
     });
 
     for (const item of RESOURCES_CHECKLISTS) {
       await SectionChecklist.create({
         section_id: section._id,
+        company: section.company ?? null,
         text: item.text,
         comment: item.comment,
         type: 'information',
@@ -197,6 +250,7 @@ async function ensureResourcesSection() {
     if (!existingChecklist) {
       await SectionChecklist.create({
         section_id: section._id,
+        company: section.company ?? null,
         text: item.text,
         comment: item.comment,
         type: 'information',
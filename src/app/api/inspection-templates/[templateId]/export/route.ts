@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import InspectionTemplate from '@/src/models/InspectionTemplate';
+import { exportTemplate } from '@/lib/template-transfer';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+// GET - Download a company template in the portable JSON format
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { templateId } = await context.params;
+    if (!mongoose.Types.ObjectId.isValid(templateId)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const template = await InspectionTemplate.findOne({ _id: templateId, company: currentUser.company })
+      .select('_id name')
+      .lean();
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    const data = await exportTemplate(templateId);
+    const fileName = `${template.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'template'}.json`;
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Export inspection template error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to export inspection template' },
+      { status: 500 }
+    );
+  }
+}
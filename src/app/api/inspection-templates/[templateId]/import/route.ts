@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import InspectionTemplate from '@/src/models/InspectionTemplate';
+import { applyTemplateImport, parseTemplateImport, previewTemplateImport } from '@/lib/template-transfer';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+// POST - Preview or apply an import into a company template
+// Body: { data: <template JSON>, apply?: boolean, overwriteConflicts?: boolean }
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { templateId } = await context.params;
+    if (!mongoose.Types.ObjectId.isValid(templateId)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const template = await InspectionTemplate.findOne({ _id: templateId, company: currentUser.company })
+      .select('_id')
+      .lean();
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { sections, error } = parseTemplateImport(body?.data);
+    if (!sections) {
+      return NextResponse.json({ error: error || 'Invalid template file' }, { status: 400 });
+    }
+
+    if (!body.apply) {
+      const preview = await previewTemplateImport(templateId, sections);
+      return NextResponse.json({ preview });
+    }
+
+    const preview = await applyTemplateImport(templateId, sections, {
+      overwriteConflicts: Boolean(body.overwriteConflicts),
+    });
+
+    await InspectionTemplate.updateOne({ _id: templateId }, { $set: { updatedBy: currentUser._id } });
+
+    return NextResponse.json({ message: 'Template imported successfully', preview });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Import inspection template error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to import inspection template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import InspectionTemplate from '@/src/models/InspectionTemplate';
+import { deleteTemplateContents, setDefaultTemplate } from '@/lib/inspection-templates';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+export async function PUT(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { templateId } = await context.params;
+    if (!mongoose.Types.ObjectId.isValid(templateId)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const template = await InspectionTemplate.findOne({ _id: templateId, company: currentUser.company });
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { name, description, isDefault } = body;
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ error: 'Template name is required' }, { status: 400 });
+      }
+
+      const duplicate = await InspectionTemplate.findOne({
+        company: currentUser.company,
+        name: name.trim(),
+        _id: { $ne: template._id },
+      })
+        .collation({ locale: 'en', strength: 2 })
+        .lean();
+      if (duplicate) {
+        return NextResponse.json({ error: 'A template with this name already exists' }, { status: 400 });
+      }
+
+      template.name = name.trim();
+    }
+
+    if (description !== undefined) {
+      template.description = typeof description === 'string' ? description.trim() : undefined;
+    }
+
+    if (isDefault === false && template.isDefault) {
+      return NextResponse.json({ error: 'Choose another default template instead' }, { status: 400 });
+    }
+
+    template.updatedBy = currentUser._id as mongoose.Types.ObjectId;
+    await template.save();
+
+    if (isDefault === true && !template.isDefault) {
+      await setDefaultTemplate(currentUser.company as mongoose.Types.ObjectId, template._id as mongoose.Types.ObjectId);
+      template.isDefault = true;
+    }
+
+    return NextResponse.json({ message: 'Template updated successfully', template: template.toObject() });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Update inspection template error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update inspection template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const { templateId } = await context.params;
+    if (!mongoose.Types.ObjectId.isValid(templateId)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const template = await InspectionTemplate.findOne({ _id: templateId, company: currentUser.company }).lean();
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    if (template.isDefault) {
+      return NextResponse.json({ error: 'The default template cannot be deleted' }, { status: 400 });
+    }
+
+    await deleteTemplateContents(template._id as mongoose.Types.ObjectId);
+
+    return NextResponse.json({ message: 'Template deleted successfully' });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Delete inspection template error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete inspection template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+// /app/api/inspection-templates/migrate/route.ts
+// One-off migration from the single global template to per-company templates.
+// Publish a single QStash message to this endpoint after deploying; re-running it is harmless.
+import { NextResponse } from 'next/server';
+import { verifySignatureAppRouter } from '@upstash/qstash/nextjs';
+
+import dbConnect from '@/lib/db';
+import { migrateGlobalSectionsToCompanies } from '@/lib/inspection-templates';
+
+// Force dynamic rendering to avoid build-time execution
+export const dynamic = 'force-dynamic';
+
+async function handler() {
+  try {
+    await dbConnect();
+
+    const result = await migrateGlobalSectionsToCompanies();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (err: any) {
+    console.error('Inspection template migration error:', err);
+    return NextResponse.json({ error: err.message }, { status: 500 });
+  }
+}
+
+// Secure endpoint with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import InspectionTemplate from '@/src/models/InspectionTemplate';
+import Section from '@/src/models/Section';
+import {
+  cloneTemplate,
+  createEmptyTemplate,
+  ensureCompanyDefaultTemplate,
+  getSystemTemplate,
+  setDefaultTemplate,
+} from '@/lib/inspection-templates';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+export async function GET(request: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ templates: [] });
+    }
+
+    await ensureCompanyDefaultTemplate(currentUser.company as mongoose.Types.ObjectId, currentUser._id as mongoose.Types.ObjectId);
+
+    const templates = await InspectionTemplate.find({ company: currentUser.company })
+      .sort({ isDefault: -1, name: 1 })
+      .lean();
+
+    const sectionCounts = await Section.aggregate([
+      { $match: { template: { $in: templates.map((template) => template._id) } } },
+      { $group: { _id: '$template', count: { $sum: 1 } } },
+    ]);
+    const countMap = new Map(sectionCounts.map((entry) => [entry._id.toString(), entry.count]));
+
+    return NextResponse.json({
+      templates: templates.map((template) => ({
+        ...template,
+        sectionCount: countMap.get(template._id.toString()) || 0,
+      })),
+    });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Get inspection templates error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch inspection templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a template by cloning an existing company template or the system default,
+// or an empty one (blank: true) to import into
+export async function POST(request: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'No company associated with user' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { name, description, sourceTemplateId, isDefault, blank } = body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Template name is required' }, { status: 400 });
+    }
+
+    if (sourceTemplateId && !mongoose.Types.ObjectId.isValid(sourceTemplateId)) {
+      return NextResponse.json({ error: 'Invalid source template ID' }, { status: 400 });
+    }
+
+    const templateOptions = {
+      companyId: currentUser.company as mongoose.Types.ObjectId,
+      name,
+      description,
+      createdBy: currentUser._id as mongoose.Types.ObjectId,
+    };
+
+    const { template, error } = blank
+      ? await createEmptyTemplate(templateOptions)
+      : await cloneTemplate(sourceTemplateId || (await getSystemTemplate())._id, templateOptions);
+
+    if (!template) {
+      return NextResponse.json({ error: error || 'Failed to create template' }, { status: 400 });
+    }
+
+    if (isDefault) {
+      await setDefaultTemplate(currentUser.company as mongoose.Types.ObjectId, template._id as mongoose.Types.ObjectId);
+      template.isDefault = true;
+    }
+
+    return NextResponse.json(
+      { message: 'Template created successfully', template: template.toObject() },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Create inspection template error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to create inspection template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { listInspectionSignatures } from '@/lib/agreement-signatures';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+// Each client's signature status for the agreements on the inspection's services
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ inspectionId: string }> }
+) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'User is not associated with a company' }, { status: 400 });
+    }
+
+    const { inspectionId } = await params;
+
+    if (!inspectionId || !mongoose.Types.ObjectId.isValid(inspectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid inspection ID' },
+        { status: 400 }
+      );
+    }
+
+    const signatures = await listInspectionSignatures(inspectionId, currentUser.company as mongoose.Types.ObjectId);
+
+    return NextResponse.json({ signatures });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching agreement signatures:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch agreement signatures' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import Inspection from '@/src/models/Inspection';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { isEmailEvent, sendAgreementPendingEmails, sendInspectionEmail } from '@/lib/email-notifications';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+// GET → emails sent (or attempted) for the inspection, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ inspectionId: string }> }
+) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { inspectionId } = await params;
+
+    if (!inspectionId || !mongoose.Types.ObjectId.isValid(inspectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid inspection ID' },
+        { status: 400 }
+      );
+    }
+
+    const inspection = await Inspection.findOne({ _id: inspectionId, companyId: currentUser.company })
+      .select('emailLog')
+      .populate('emailLog.sentBy', 'firstName lastName')
+      .lean();
+
+    if (!inspection) {
+      return NextResponse.json(
+        { error: 'Inspection not found' },
+        { status: 404 }
+      );
+    }
+
+    const emails = [...(inspection.emailLog || [])].sort(
+      (a, b) => new Date(b.sentAt).getTime() - new Date(a.sentAt).getTime()
+    );
+
+    return NextResponse.json({ emails });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching inspection emails:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch inspection emails' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST → send (or resend) one of the company's email templates now, e.g. { event: 'booking_confirmation' }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ inspectionId: string }> }
+) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { inspectionId } = await params;
+
+    if (!inspectionId || !mongoose.Types.ObjectId.isValid(inspectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid inspection ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    if (!isEmailEvent(body.event)) {
+      return NextResponse.json(
+        { error: 'Unknown email event' },
+        { status: 400 }
+      );
+    }
+
+    const exists = await Inspection.exists({ _id: inspectionId, companyId: currentUser.company });
+    if (!exists) {
+      return NextResponse.json(
+        { error: 'Inspection not found' },
+        { status: 404 }
+      );
+    }
+
+    const sendOptions = { manual: true, sentBy: currentUser._id as mongoose.Types.ObjectId };
+
+    // Each client with unsigned agreements gets their own signing link
+    if (body.event === 'agreement_pending') {
+      const emails = await sendAgreementPendingEmails(inspectionId, sendOptions);
+      if (emails.length === 0) {
+        return NextResponse.json(
+          { error: 'There are no unsigned agreements for this inspection' },
+          { status: 400 }
+        );
+      }
+
+      const failed = emails.find((email) => email.status !== 'sent');
+      if (failed) {
+        return NextResponse.json(
+          { error: failed.error || 'Failed to send email', email: failed, emails },
+          { status: failed.status === 'failed' ? 502 : 400 }
+        );
+      }
+
+      return NextResponse.json({ message: 'Email sent successfully', email: emails[0], emails });
+    }
+
+    const email = await sendInspectionEmail(inspectionId, body.event, sendOptions);
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'This email is not configured to be sent' },
+        { status: 400 }
+      );
+    }
+
+    if (email.status !== 'sent') {
+      return NextResponse.json(
+        { error: email.error || 'Failed to send email', email },
+        { status: email.status === 'failed' ? 502 : 400 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Email sent successfully', email });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error sending inspection email:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to send email' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,8 @@ import dbConnect from '@/lib/db';
 import Event from '@/src/models/Event';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { reserveEventSlot } from '@/lib/scheduling';
 
 export async function PUT(
   req: NextRequest,
@@ -59,16 +61,37 @@ export async function PUT(
       updateData.endDate = new Date(endDate);
     }
 
-    // Update the event
-    const result = await Event.updateOne(
+    const current = await Event.findOne({ _id: eventId, inspectionId }).select('inspector startDate endDate').lean();
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    // Update the event, unless that books its inspector twice
+    const reservation = await reserveEventSlot(
       {
-        _id: new mongoose.Types.ObjectId(eventId),
-        inspectionId: new mongoose.Types.ObjectId(inspectionId),
+        inspectionId,
+        eventId,
+        inspectorId: 'inspector' in updateData ? updateData.inspector : current.inspector,
+        start: updateData.startDate ?? current.startDate,
+        end: updateData.endDate ?? current.endDate,
       },
-      { $set: updateData }
+      () => Event.updateOne(
+        {
+          _id: new mongoose.Types.ObjectId(eventId),
+          inspectionId: new mongoose.Types.ObjectId(inspectionId),
+        },
+        { $set: updateData, $inc: { sequence: 1 } }
+      )
     );
+    if (reservation.error) {
+      return NextResponse.json({ error: reservation.error }, { status: 409 });
+    }
+    const result = reservation.data;
 
-    if (result.matchedCount === 0) {
+    if (!result || result.matchedCount === 0) {
       return NextResponse.json(
         { error: 'Event not found' },
         { status: 404 }
@@ -111,6 +134,9 @@ export async function PUT(
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error updating event:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update event' },
@@ -158,6 +184,9 @@ export async function DELETE(
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error deleting event:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete event' },
@@ -3,6 +3,8 @@ import dbConnect from '@/lib/db';
 import Event from '@/src/models/Event';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { reserveEventSlot } from '@/lib/scheduling';
 
 export async function GET(
   req: NextRequest,
@@ -55,6 +57,9 @@ export async function GET(
 
     return NextResponse.json({ events: formattedEvents }, { status: 200 });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error fetching events:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch events' },
@@ -109,17 +114,24 @@ export async function POST(
       );
     }
 
-    // Create the event
-    const event = await Event.create({
-      inspectionId: new mongoose.Types.ObjectId(inspectionId),
-      name: name.trim(),
-      description: description?.trim() || undefined,
-      inspector: inspector && mongoose.Types.ObjectId.isValid(inspector)
-        ? new mongoose.Types.ObjectId(inspector)
-        : undefined,
-      startDate: new Date(startDate),
-      endDate: new Date(endDate),
-    });
+    // Create the event, unless its inspector is already booked then
+    const reservation = await reserveEventSlot(
+      { inspectionId, inspectorId: inspector, start: new Date(startDate), end: new Date(endDate) },
+      () => Event.create({
+        inspectionId: new mongoose.Types.ObjectId(inspectionId),
+        name: name.trim(),
+        description: description?.trim() || undefined,
+        inspector: inspector && mongoose.Types.ObjectId.isValid(inspector)
+          ? new mongoose.Types.ObjectId(inspector)
+          : undefined,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+      })
+    );
+    if (reservation.error || !reservation.data) {
+      return NextResponse.json({ error: reservation.error || 'Failed to create event' }, { status: 409 });
+    }
+    const event = reservation.data;
 
     // Populate the created event
     const populatedEvent = await Event.findById(event._id)
@@ -157,6 +169,9 @@ export async function POST(
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error creating event:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create event' },
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import Inspection from '@/src/models/Inspection';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { recordInvoicePayment, syncInspectionInvoice } from '@/lib/invoices';
+import { sendReportPublishedEmail } from '@/lib/email-notifications';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { MANUAL_PAYMENT_METHODS, ManualPaymentMethod } from '@/constants/payments';
+
+const isManualMethod = (value: unknown): value is ManualPaymentMethod =>
+  typeof value === 'string' && (MANUAL_PAYMENT_METHODS as readonly string[]).includes(value);
+
+// POST → record a payment or refund, e.g. { type: 'payment', method: 'check', amount: 350, reference: '1042' }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ inspectionId: string }> }
+) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { inspectionId } = await params;
+
+    if (!inspectionId || !mongoose.Types.ObjectId.isValid(inspectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid inspection ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const type = body.type === 'refund' ? 'refund' : 'payment';
+    const refundOf = type === 'refund' && body.refundOf ? String(body.refundOf) : undefined;
+
+    if (refundOf && !mongoose.Types.ObjectId.isValid(refundOf)) {
+      return NextResponse.json({ error: 'Invalid payment ID' }, { status: 400 });
+    }
+
+    // Refunds of a specific payment go back the way it was paid
+    if (!refundOf && !isManualMethod(body.method)) {
+      return NextResponse.json(
+        { error: `Payment method must be one of ${MANUAL_PAYMENT_METHODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const exists = await Inspection.exists({ _id: inspectionId, companyId: currentUser.company });
+    if (!exists) {
+      return NextResponse.json(
+        { error: 'Inspection not found' },
+        { status: 404 }
+      );
+    }
+
+    const invoice = await syncInspectionInvoice(inspectionId);
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Failed to load invoice' },
+        { status: 500 }
+      );
+    }
+
+    const original = refundOf ? invoice.payments.find((payment) => payment._id.toString() === refundOf) : undefined;
+    const result = await recordInvoicePayment(invoice, {
+      type,
+      method: original?.method ?? body.method,
+      amount: Number(body.amount),
+      reference: typeof body.reference === 'string' ? body.reference : undefined,
+      notes: typeof body.notes === 'string' ? body.notes : undefined,
+      refundOf,
+      recordedBy: currentUser._id as mongoose.Types.ObjectId,
+    });
+
+    if (result.error || !result.invoice) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to record payment' },
+        { status: 400 }
+      );
+    }
+
+    // A report held back for payment can go out now
+    if (result.invoice.status === 'paid') {
+      await sendReportPublishedEmail(inspectionId);
+    }
+
+    return NextResponse.json(
+      {
+        message: type === 'refund' ? 'Refund recorded successfully' : 'Payment recorded successfully',
+        invoice: result.invoice,
+        payment: result.payment,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error recording payment:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to record payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import Inspection from '@/src/models/Inspection';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { getPaymentLink, syncInspectionInvoice } from '@/lib/invoices';
+import { getReportReleaseStatus } from '@/lib/report-release';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+// GET → the inspection's invoice, created from its current quote on first use
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ inspectionId: string }> }
+) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { inspectionId } = await params;
+
+    if (!inspectionId || !mongoose.Types.ObjectId.isValid(inspectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid inspection ID' },
+        { status: 400 }
+      );
+    }
+
+    const exists = await Inspection.exists({ _id: inspectionId, companyId: currentUser.company });
+    if (!exists) {
+      return NextResponse.json(
+        { error: 'Inspection not found' },
+        { status: 404 }
+      );
+    }
+
+    const invoice = await syncInspectionInvoice(inspectionId);
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'Failed to load invoice' },
+        { status: 500 }
+      );
+    }
+
+    await invoice.populate('payments.recordedBy', 'firstName lastName');
+    const reportRelease = await getReportReleaseStatus(inspectionId);
+
+    return NextResponse.json({
+      invoice,
+      paymentLink: getPaymentLink(invoice.paymentToken),
+      reportRelease,
+    });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching invoice:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch invoice' },
+      { status: 500 }
+    );
+  }
+}
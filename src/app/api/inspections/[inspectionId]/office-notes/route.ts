@@ -3,6 +3,7 @@ import dbConnect from '@/lib/db';
 import Inspection from '@/src/models/Inspection';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function POST(
   req: NextRequest,
@@ -75,6 +76,9 @@ export async function POST(
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error adding office note:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to add note' },
@@ -139,6 +143,9 @@ export async function DELETE(
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error deleting office note:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete note' },
@@ -1,12 +1,35 @@
-import { NextResponse } from "next/server";
-import { deleteInspection, updateInspection, getInspection } from "@/lib/inspection";
+import { NextRequest, NextResponse } from "next/server";
+import { deleteInspection, updateInspection, getInspection, mergeInspectionTeam, TEAM_FIELDS } from "@/lib/inspection";
 import dbConnect from "@/lib/db";
 import Inspection from "@/src/models/Inspection";
 import mongoose from "mongoose";
 import { extractR2KeyFromUrl, deleteFromR2 } from "@/lib/r2";
+import { getInspectionContactIds, refreshAutoCategoriesForInspection } from "@/lib/category-rules";
+import { recalculateInspectionPricing } from "@/lib/pricing";
+import { getCurrentUser } from "@/lib/auth-helpers";
+import { findCompanyTemplateId } from "@/lib/inspection-templates";
+import {
+  getInspectionNotificationState,
+  sendInspectionCancelledEmail,
+  sendInspectionUpdateEmails,
+  sendReportPublishedEmail,
+} from "@/lib/email-notifications";
+import {
+  FINANCIAL_FIELDS,
+  forbiddenResponse,
+  hasPermission,
+  permissionErrorResponse,
+  stripFinancialFields,
+} from "@/lib/permissions";
+import { syncAgreementSignatures } from "@/lib/agreement-signatures";
+import { getReportReleaseStatus, isCompanyViewer } from "@/lib/report-release";
+import { syncInspectionInvoice } from "@/lib/invoices";
+import { getInspectionAssignments, getSchedulingTimeZone, reserveInspectionSlot } from "@/lib/scheduling";
+import { recordAuditEvent } from "@/lib/audit-log";
+import { realignInspectionTemplateTasks } from "@/lib/task-templates";
 
 export async function GET(
-  req: Request,
+  req: NextRequest,
   { params }: { params: Promise<{ inspectionId: string }> }
 ) {
   try {
@@ -28,6 +51,7 @@ export async function GET(
       );
     }
 
+    const currentUser = await getCurrentUser(req);
     const inspection = await getInspection(inspectionId);
 
     if (!inspection) {
@@ -37,7 +61,14 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(inspection);
+    // Clients and agents only get the report links once the report is released
+    const reportRelease = await getReportReleaseStatus(inspectionId);
+    const visibleInspection = reportRelease.released || isCompanyViewer(currentUser, inspection.companyId)
+      ? inspection
+      : { ...inspection, pdfReportUrl: null, htmlReportUrl: null };
+
+    // Pricing is hidden from viewers without financial access, including the public report page
+    return NextResponse.json({ ...stripFinancialFields(visibleInspection, currentUser), reportRelease });
   } catch (error: any) {
     console.error("Error fetching inspection:", error);
     
@@ -49,11 +80,19 @@ export async function GET(
 }
 
 export async function PUT(
-  req: Request,
+  req: NextRequest,
   { params }: { params: Promise<{ inspectionId: string }> }
 ) {
   try {
     await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
     
     const { inspectionId } = await params;
     
@@ -66,16 +105,113 @@ export async function PUT(
       );
     }
 
+    if (!mongoose.Types.ObjectId.isValid(inspectionId)) {
+      return NextResponse.json(
+        { error: "Invalid inspection ID format" },
+        { status: 400 }
+      );
+    }
+
+    const before = await Inspection.findOne({ _id: inspectionId, companyId: currentUser.company }).lean();
+    if (!before) {
+      return NextResponse.json(
+        { error: "Inspection not found" },
+        { status: 404 }
+      );
+    }
+
     const body = await req.json();
-    const result = await updateInspection(inspectionId, body);
 
-    if (result.matchedCount === 0) {
+    // Pricing and the payment gate decide what the client pays and when the report goes out
+    if (
+      !hasPermission(currentUser, 'can_access_financial_data') &&
+      [...FINANCIAL_FIELDS, 'requirePaymentToReleaseReports'].some((key) => key in body)
+    ) {
+      return forbiddenResponse(['can_access_financial_data']);
+    }
+
+    if (body.status !== undefined) {
+      return NextResponse.json(
+        { error: "Change the inspection status with POST /api/inspections/[inspectionId]/status" },
+        { status: 400 }
+      );
+    }
+
+    // Only templates owned by the user's company can be picked
+    if (body.inspectionTemplate !== undefined && body.inspectionTemplate !== null) {
+      const templateId = await findCompanyTemplateId(currentUser.company as mongoose.Types.ObjectId, body.inspectionTemplate);
+      body.inspectionTemplate = templateId ? templateId.toString() : null;
+    }
+
+    const previousContactIds = await getInspectionContactIds(inspectionId);
+    const previousNotificationState = await getInspectionNotificationState(inspectionId);
+
+    let result: Awaited<ReturnType<typeof updateInspection>> | undefined;
+    if (['date', ...TEAM_FIELDS].some((key) => body[key] !== undefined)) {
+      const current = await Inspection.findById(inspectionId)
+        .select('companyId date services pricing.totalDurationHours pricing.services')
+        .populate('services.serviceId', 'baseDurationHours')
+        .lean();
+      const team = await mergeInspectionTeam(
+        inspectionId,
+        Object.fromEntries(TEAM_FIELDS.filter((key) => body[key] !== undefined).map((key) => [key, body[key]]))
+      );
+      const date = body.date !== undefined ? (body.date ? new Date(body.date) : null) : current?.date;
+
+      // Moving an upcoming inspection or changing who works it needs everyone free; past ones are just records
+      if (current && date && date.getTime() > Date.now() && team.inspectors.length > 0) {
+        const reservation = await reserveInspectionSlot(
+          {
+            companyId: current.companyId,
+            assignments: getInspectionAssignments({ ...current, ...team }),
+            start: date,
+            timeZone: await getSchedulingTimeZone(current.companyId, team.inspector),
+          },
+          () => updateInspection(inspectionId, body),
+          { ignoreInspectionId: inspectionId }
+        );
+        if (reservation.error) {
+          return NextResponse.json({ error: reservation.error }, { status: 409 });
+        }
+        result = reservation.data;
+      }
+    }
+    result ??= await updateInspection(inspectionId, body);
+
+    if (!result || result.matchedCount === 0) {
       return NextResponse.json(
         { error: "Inspection not found" },
         { status: 404 }
       );
     }
 
+    // Keep the stored quote in sync with anything that affects price
+    if (['services', 'discountCode', 'location', 'customData'].some((key) => key in body)) {
+      await recalculateInspectionPricing(inspectionId);
+      await syncInspectionInvoice(inspectionId);
+    }
+
+    await refreshAutoCategoriesForInspection(inspectionId, previousContactIds);
+    if (body.date !== undefined) {
+      await realignInspectionTemplateTasks(inspectionId);
+    }
+    if (['services', 'clients'].some((key) => key in body)) {
+      await syncAgreementSignatures(inspectionId);
+    }
+    await sendInspectionUpdateEmails(inspectionId, previousNotificationState);
+    // Turning off the payment requirement can release a report that was waiting on it
+    if (body.requirePaymentToReleaseReports === false) {
+      await sendReportPublishedEmail(inspectionId);
+    }
+
+    await recordAuditEvent(req, currentUser, {
+      entityType: "inspection",
+      entityId: inspectionId,
+      action: "update",
+      before,
+      after: await Inspection.findById(inspectionId).lean(),
+    });
+
     return NextResponse.json(
       { 
         message: "Inspection updated successfully",
@@ -84,6 +220,9 @@ export async function PUT(
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error("Error updating inspection:", error);
     
     if (error.message.includes("Invalid inspection ID format")) {
@@ -101,11 +240,19 @@ export async function PUT(
 }
 
 export async function PATCH(
-  req: Request,
+  req: NextRequest,
   { params }: { params: Promise<{ inspectionId: string }> }
 ) {
   try {
     await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
     
     const { inspectionId } = await params;
     
@@ -123,12 +270,15 @@ export async function PATCH(
       );
     }
 
+    const before = await Inspection.findById(inspectionId).lean();
     const result = await Inspection.updateOne(
       {
         _id: new mongoose.Types.ObjectId(inspectionId)
       },
       {
-        $set: { deletedAt: null }
+        $set: { deletedAt: null },
+        // A restored inspection replaces its cancellation in calendar feeds
+        $inc: { calendarSequence: 1 },
       }
     );
 
@@ -139,6 +289,15 @@ export async function PATCH(
       );
     }
 
+    await refreshAutoCategoriesForInspection(inspectionId);
+    await recordAuditEvent(req, currentUser, {
+      entityType: "inspection",
+      entityId: inspectionId,
+      action: "restore",
+      before,
+      after: await Inspection.findById(inspectionId).lean(),
+    });
+
     return NextResponse.json(
       { 
         message: "Inspection restored successfully",
@@ -147,6 +306,9 @@ export async function PATCH(
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error("Error restoring inspection:", error);
     
     return NextResponse.json(
@@ -157,11 +319,19 @@ export async function PATCH(
 }
 
 export async function DELETE(
-  req: Request,
+  req: NextRequest,
   { params }: { params: Promise<{ inspectionId: string }> }
 ) {
   try {
     await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
     
     const { inspectionId } = await params;
     
@@ -257,6 +427,16 @@ export async function DELETE(
       );
     }
 
+    await refreshAutoCategoriesForInspection(inspectionId);
+    await sendInspectionCancelledEmail(inspectionId);
+    await recordAuditEvent(req, currentUser, {
+      entityType: "inspection",
+      entityId: inspectionId,
+      action: "delete",
+      before: inspectionDoc,
+      after: await Inspection.findById(inspectionId).lean(),
+    });
+
     return NextResponse.json(
       { 
         message: "Inspection deleted successfully",
@@ -266,6 +446,9 @@ export async function DELETE(
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error("Error deleting inspection:", error);
     
     if (error.message.includes("Invalid inspection ID format")) {
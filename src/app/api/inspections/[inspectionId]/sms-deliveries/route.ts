@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import SmsDelivery from '@/src/models/SmsDelivery';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+// Text messages attempted for an inspection, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ inspectionId: string }> }
+) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'User is not associated with a company' }, { status: 400 });
+    }
+
+    const { inspectionId } = await params;
+
+    if (!inspectionId || !mongoose.Types.ObjectId.isValid(inspectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid inspection ID' },
+        { status: 400 }
+      );
+    }
+
+    const deliveries = await SmsDelivery.find({
+      inspection: inspectionId,
+      company: currentUser.company,
+    })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return NextResponse.json({ deliveries });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching SMS deliveries:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch SMS deliveries' },
+      { status: 500 }
+    );
+  }
+}
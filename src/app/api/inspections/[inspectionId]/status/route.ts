@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import {
+  changeInspectionStatus,
+  getInspectionStatusHistory,
+  getStatusTransitionOptions,
+  InspectionStatusError,
+} from '@/lib/inspection-status';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { INSPECTION_STATUS_LABELS, isInspectionStatus, normalizeInspectionStatus } from '@/constants/inspectionStatuses';
+import Inspection from '@/src/models/Inspection';
+
+type RouteParams = {
+  params: Promise<{ inspectionId: string }>;
+};
+
+// GET /api/inspections/[inspectionId]/status → current status, where it can go next and its history
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { inspectionId } = await params;
+    if (!mongoose.Types.ObjectId.isValid(inspectionId)) {
+      return NextResponse.json({ error: 'Invalid inspection ID format' }, { status: 400 });
+    }
+
+    const inspection = await Inspection.findOne({ _id: inspectionId, companyId: currentUser.company }).select('status').lean();
+    if (!inspection) {
+      return NextResponse.json({ error: 'Inspection not found' }, { status: 404 });
+    }
+
+    const status = normalizeInspectionStatus(inspection.status);
+    return NextResponse.json({
+      status,
+      label: INSPECTION_STATUS_LABELS[status],
+      transitions: getStatusTransitionOptions(status, currentUser),
+      history: await getInspectionStatusHistory(inspectionId),
+    });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching inspection status:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch inspection status' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/inspections/[inspectionId]/status → move the inspection to another status, e.g. { status: 'confirmed', note }
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { inspectionId } = await params;
+    const body = await req.json();
+    if (!isInspectionStatus(body.status)) {
+      return NextResponse.json({ error: 'A valid status is required' }, { status: 400 });
+    }
+    if (body.note !== undefined && typeof body.note !== 'string') {
+      return NextResponse.json({ error: 'Note must be text' }, { status: 400 });
+    }
+
+    const before = mongoose.Types.ObjectId.isValid(inspectionId) ? await Inspection.findById(inspectionId).lean() : null;
+    const result = await changeInspectionStatus(inspectionId, body.status, { user: currentUser, note: body.note });
+    if (result.changed) {
+      await recordAuditEvent(req, currentUser, {
+        entityType: 'inspection',
+        entityId: inspectionId,
+        action: 'update',
+        before,
+        after: await Inspection.findById(inspectionId).lean(),
+      });
+    }
+
+    return NextResponse.json({
+      ...result,
+      transitions: getStatusTransitionOptions(result.to, currentUser),
+      history: await getInspectionStatusHistory(inspectionId),
+    });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    if (error instanceof InspectionStatusError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error changing inspection status:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to change inspection status' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,8 @@ import Task from '@/src/models/Task';
 import TaskComment from '@/src/models/TaskComment';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { notifyTaskComment } from '@/lib/task-notifications';
 
 export async function POST(
   req: NextRequest,
@@ -57,6 +59,8 @@ export async function POST(
       createdBy: currentUser._id,
     });
 
+    await notifyTaskComment(comment._id as mongoose.Types.ObjectId);
+
     // Populate the created comment
     const populatedComment = await TaskComment.findById(comment._id)
       .populate('createdBy', 'firstName lastName profileImageUrl')
@@ -89,6 +93,9 @@ export async function POST(
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error adding comment:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to add comment' },
@@ -146,6 +153,9 @@ export async function DELETE(
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error deleting comment:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete comment' },
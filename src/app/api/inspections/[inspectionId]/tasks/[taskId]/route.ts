@@ -4,6 +4,9 @@ import Task from '@/src/models/Task';
 import TaskComment from '@/src/models/TaskComment';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { createNextTaskOccurrence } from '@/lib/task-templates';
+import { notifyTaskAssigned } from '@/lib/task-notifications';
 
 export async function GET(
   req: NextRequest,
@@ -96,6 +99,9 @@ export async function GET(
 
     return NextResponse.json({ task: formattedTask }, { status: 200 });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error fetching task:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch task' },
@@ -125,6 +131,20 @@ export async function PUT(
       );
     }
 
+    const taskFilter = {
+      _id: new mongoose.Types.ObjectId(taskId),
+      inspectionId: new mongoose.Types.ObjectId(inspectionId),
+      companyId: currentUser.company,
+    };
+
+    const existingTask = await Task.findOne(taskFilter).select('assignedTo dueDate').lean();
+    if (!existingTask) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
     const body = await req.json();
     const { taskType, assignedTo, priority, dueDate, title, description, status } = body;
 
@@ -190,17 +210,19 @@ export async function PUT(
         );
       }
       updateData.status = status;
+      updateData.completedAt = status === 'Complete' ? new Date() : null;
+    }
+
+    const reassigned = updateData.assignedTo && String(updateData.assignedTo) !== String(existingTask.assignedTo);
+    const rescheduled = updateData.dueDate && updateData.dueDate.getTime() !== new Date(existingTask.dueDate).getTime();
+    // The new assignee or due date gets its own reminders
+    if (reassigned || rescheduled) {
+      updateData.dueSoonNotifiedAt = null;
+      updateData.overdueNotifiedAt = null;
     }
 
     // Update the task
-    const result = await Task.updateOne(
-      {
-        _id: new mongoose.Types.ObjectId(taskId),
-        inspectionId: new mongoose.Types.ObjectId(inspectionId),
-        companyId: currentUser.company,
-      },
-      { $set: updateData }
-    );
+    const result = await Task.updateOne(taskFilter, { $set: updateData });
 
     if (result.matchedCount === 0) {
       return NextResponse.json(
@@ -209,6 +231,14 @@ export async function PUT(
       );
     }
 
+    if (status === 'Complete') {
+      await createNextTaskOccurrence(taskId);
+    }
+
+    if (reassigned) {
+      await notifyTaskAssigned(taskId, currentUser._id as mongoose.Types.ObjectId);
+    }
+
     // Fetch updated task
     const updatedTask = await Task.findById(taskId)
       .populate('assignedTo', 'firstName lastName profileImageUrl')
@@ -259,6 +289,9 @@ export async function PUT(
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error updating task:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update task' },
@@ -310,6 +343,9 @@ export async function DELETE(
       { status: 200 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error deleting task:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete task' },
@@ -4,6 +4,8 @@ import Task from '@/src/models/Task';
 import TaskComment from '@/src/models/TaskComment';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { notifyTaskAssigned } from '@/lib/task-notifications';
 
 export async function GET(
   req: NextRequest,
@@ -80,6 +82,9 @@ export async function GET(
 
     return NextResponse.json({ tasks: formattedTasks }, { status: 200 });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error fetching tasks:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch tasks' },
@@ -166,6 +171,8 @@ export async function POST(
       createdBy: currentUser._id,
     });
 
+    await notifyTaskAssigned(task._id as mongoose.Types.ObjectId, currentUser._id as mongoose.Types.ObjectId);
+
     // Populate the created task
     const populatedTask = await Task.findById(task._id)
       .populate('assignedTo', 'firstName lastName profileImageUrl')
@@ -214,6 +221,9 @@ export async function POST(
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Error creating task:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create task' },
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { getInspectionCalendar, parseCalendarRange } from '@/lib/inspection-calendar';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+// GET /api/inspections/calendar?from=&to=&inspector= → inspections, events and availability per inspector
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'User is not associated with a company' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const range = parseCalendarRange(searchParams.get('from'), searchParams.get('to'));
+    if ('error' in range) {
+      return NextResponse.json({ error: range.error }, { status: 400 });
+    }
+
+    const inspector = searchParams.get('inspector');
+    const calendar = await getInspectionCalendar(currentUser.company, range, {
+      inspectorId: inspector === 'me' ? String(currentUser._id) : inspector,
+    });
+    return NextResponse.json(calendar);
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error loading inspection calendar:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load calendar' },
+      { status: 500 }
+    );
+  }
+}
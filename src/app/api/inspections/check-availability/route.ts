@@ -8,6 +8,9 @@ import type { IAvailability } from "@/src/models/Availability";
 import type { DayKey } from "@/src/constants/availability";
 import { normalizeDaysRecord } from "@/src/lib/availability-utils";
 import { TimeBlock } from "@/src/models/Availability";
+import { addDaysToDateKey, isDateKey, resolveTimeZone, startOfDayInTimeZone, toDateKey } from "@/src/lib/time-zones";
+import { getInspectorBusyIntervals } from "@/lib/scheduling";
+import { permissionErrorResponse } from "@/lib/permissions";
 
 type DayAvailabilityDoc = IAvailability["days"][number];
 
@@ -32,6 +35,7 @@ function formatAvailabilityResponse(availability: IAvailability | null) {
   return {
     days: normalized,
     dateSpecific: availability.dateSpecific ?? [],
+    timeZone: availability.timeZone || null,
   };
 }
 
@@ -56,6 +60,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "date is required" }, { status: 400 });
     }
 
+    if (!isDateKey(date) && Number.isNaN(new Date(date).getTime())) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+
     // Verify inspector exists and belongs to the company
     const inspector = await User.findOne({
       _id: inspectorId,
@@ -77,19 +85,43 @@ export async function GET(request: NextRequest) {
 
     const availability = formatAvailabilityResponse(availabilityDoc);
 
-    // Get company view mode
-    const company = await Company.findById(currentUser.company).select("availabilityViewMode");
+    // Get company view mode and time zone
+    const company = await Company.findById(currentUser.company).select("availabilityViewMode timeZone");
     const viewMode = company?.availabilityViewMode === "timeSlots" ? "timeSlots" : "openSchedule";
+    const companyTimeZone = resolveTimeZone(company?.timeZone);
+    const timeZone = resolveTimeZone(availability?.timeZone, companyTimeZone);
+
+    // Bookings from the day before can run into this one, so take a day either side
+    const dateKey = isDateKey(date) ? date : toDateKey(new Date(date), timeZone);
+    const busy = await getInspectorBusyIntervals(
+      currentUser.company,
+      [inspectorId],
+      {
+        from: startOfDayInTimeZone(addDaysToDateKey(dateKey, -1), timeZone),
+        to: startOfDayInTimeZone(addDaysToDateKey(dateKey, 2), timeZone),
+      },
+      { ignoreHoldsBy: String(currentUser._id) }
+    );
 
     return NextResponse.json({
-      availability: availability || {
-        days: {} as Record<DayKey, { openSchedule: TimeBlock[]; timeSlots: string[] }>,
-        dateSpecific: [],
+      availability: {
+        ...(availability || {
+          days: {} as Record<DayKey, { openSchedule: TimeBlock[]; timeSlots: string[] }>,
+          dateSpecific: [],
+          timeZone: null,
+        }),
+        busy: busy.get(inspectorId) || [],
       },
       viewMode,
+      // Zone the inspector's times are in, after applying their override
+      timeZone,
+      companyTimeZone,
       inspectorName: `${inspector.firstName} ${inspector.lastName}`.trim(),
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error("Check availability error:", error);
     return NextResponse.json(
       { error: error?.message ?? "Failed to check availability" },
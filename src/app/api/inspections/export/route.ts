@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { exportInspectionsCsv, MAX_INSPECTION_EXPORT_ROWS, parseInspectionSearchParams } from '@/lib/inspection-search';
+import { forbiddenResponse, hasPermission, permissionErrorResponse } from '@/lib/permissions';
+
+// GET /api/inspections/export?<search parameters> → the matching inspections as a CSV download
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'User is not associated with a company' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const query = parseInspectionSearchParams(searchParams);
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    const includeFinancials = hasPermission(currentUser, 'can_access_financial_data');
+    if ((query.payment || query.sort === 'total') && !includeFinancials) {
+      return forbiddenResponse(['can_access_financial_data'], 'You do not have permission to filter or sort by payment');
+    }
+
+    if (query.inspector === 'me') {
+      query.inspector = String(currentUser._id);
+    }
+
+    const { csv, rows, truncated } = await exportInspectionsCsv(currentUser.company, query, { includeFinancials });
+    const filename = `inspections-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+        'X-Export-Rows': String(rows),
+        // Set when more inspections matched than one export holds
+        ...(truncated ? { 'X-Export-Truncated': String(MAX_INSPECTION_EXPORT_ROWS) } : {}),
+      },
+    });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error exporting inspections:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to export inspections' },
+      { status: 500 }
+    );
+  }
+}
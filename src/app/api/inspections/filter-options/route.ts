@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { getInspectionFilterOptions } from '@/lib/inspection-search';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+// GET /api/inspections/filter-options → statuses, services, referral sources and custom fields to filter by
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'User is not associated with a company' }, { status: 400 });
+    }
+
+    return NextResponse.json(await getInspectionFilterOptions(currentUser.company));
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error loading inspection filter options:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load filter options' },
+      { status: 500 }
+    );
+  }
+}
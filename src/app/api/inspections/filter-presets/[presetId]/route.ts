@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { formatFilterPreset, normalizePresetQuery } from '@/lib/inspection-search';
+import { permissionErrorResponse } from '@/lib/permissions';
+import InspectionFilterPreset from '@/src/models/InspectionFilterPreset';
+
+type RouteParams = {
+  params: Promise<{ presetId: string }>;
+};
+
+// PUT /api/inspections/filter-presets/[presetId] → rename a saved search or replace its filters
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { presetId } = await params;
+    if (!mongoose.Types.ObjectId.isValid(presetId)) {
+      return NextResponse.json({ error: 'Invalid preset ID' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const updates: Record<string, string> = {};
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        return NextResponse.json({ error: 'Preset name cannot be empty' }, { status: 400 });
+      }
+      updates.name = name;
+    }
+
+    if (body.query !== undefined) {
+      const { query, error } = normalizePresetQuery(body.query);
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+      updates.query = query!;
+    }
+
+    const preset = await InspectionFilterPreset.findOneAndUpdate(
+      { _id: presetId, user: currentUser._id },
+      { $set: updates },
+      { new: true, runValidators: true }
+    ).lean();
+
+    if (!preset) {
+      return NextResponse.json({ error: 'Preset not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ preset: formatFilterPreset(preset) });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    if (error?.code === 11000) {
+      return NextResponse.json({ error: 'You already have a saved filter with that name' }, { status: 409 });
+    }
+
+    console.error('Error updating filter preset:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update filter' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/inspections/filter-presets/[presetId]
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { presetId } = await params;
+    if (!mongoose.Types.ObjectId.isValid(presetId)) {
+      return NextResponse.json({ error: 'Invalid preset ID' }, { status: 400 });
+    }
+
+    const result = await InspectionFilterPreset.deleteOne({ _id: presetId, user: currentUser._id });
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ error: 'Preset not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Preset deleted' });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error deleting filter preset:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete filter' },
+      { status: 500 }
+    );
+  }
+}
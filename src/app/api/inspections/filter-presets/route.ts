@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { formatFilterPreset, normalizePresetQuery } from '@/lib/inspection-search';
+import { permissionErrorResponse } from '@/lib/permissions';
+import InspectionFilterPreset from '@/src/models/InspectionFilterPreset';
+
+// GET /api/inspections/filter-presets → the signed-in user's saved inspection searches
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const presets = await InspectionFilterPreset.find({ user: currentUser._id, company: currentUser.company })
+      .sort({ name: 1 })
+      .lean();
+
+    return NextResponse.json({ presets: presets.map(formatFilterPreset) });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching filter presets:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load saved filters' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/inspections/filter-presets → save a search under a name, replacing one with the same name
+export async function POST(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'User is not associated with a company' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json({ error: 'Preset name is required' }, { status: 400 });
+    }
+
+    const { query, error } = normalizePresetQuery(body.query);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const preset = await InspectionFilterPreset.findOneAndUpdate(
+      { user: currentUser._id, name },
+      { $set: { company: currentUser.company, query } },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    ).lean();
+
+    return NextResponse.json({ preset: formatFilterPreset(preset) }, { status: 201 });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error saving filter preset:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to save filter' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getCurrentUser } from "@/lib/auth-helpers";
 import dbConnect from "@/lib/db";
 import User from "@/src/models/User";
 import Company from "@/src/models/Company";
+import { permissionErrorResponse } from "@/lib/permissions";
 
 export async function GET(req: NextRequest) {
   try {
@@ -49,6 +50,9 @@ export async function GET(req: NextRequest) {
       companyOwner,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error("Error fetching form data:", error);
     return NextResponse.json(
       { error: error.message || "Failed to load form data" },
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/db";
+import { getCurrentUser } from "@/lib/auth-helpers";
+import { forbiddenResponse, hasPermission, permissionErrorResponse } from "@/lib/permissions";
+import {
+  getSchedulingTimeZone,
+  holdInspectionSlot,
+  releaseInspectionSlotHold,
+  resolveScheduledDate,
+} from "@/lib/scheduling";
+import { DEFAULT_BOOKING_DURATION_MINUTES } from "@/src/constants/availability";
+
+// POST /api/inspections/holds → block the time picked on the New Inspection form while it is filled in
+export async function POST(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser || !currentUser.company) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const inspectorId = body.inspectorId;
+
+    if (!inspectorId || !mongoose.Types.ObjectId.isValid(inspectorId)) {
+      return NextResponse.json({ error: "Valid inspector is required" }, { status: 400 });
+    }
+
+    if (!hasPermission(currentUser, "can_schedule") && String(inspectorId) !== String(currentUser._id)) {
+      return forbiddenResponse(["can_schedule"], "You can only schedule inspections assigned to yourself");
+    }
+
+    const timeZone = await getSchedulingTimeZone(currentUser.company as mongoose.Types.ObjectId, inspectorId);
+    const { date, error: dateError } = resolveScheduledDate({ date: body.date, time: body.time }, timeZone);
+    if (dateError || !date) {
+      return NextResponse.json({ error: dateError || "Date is required" }, { status: 400 });
+    }
+
+    const durationMinutes = Number(body.durationMinutes) > 0
+      ? Math.round(Number(body.durationMinutes))
+      : DEFAULT_BOOKING_DURATION_MINUTES;
+
+    const { hold, error } = await holdInspectionSlot({
+      companyId: currentUser.company as mongoose.Types.ObjectId,
+      inspectorId,
+      start: date,
+      durationMinutes,
+      timeZone,
+      userId: currentUser._id as mongoose.Types.ObjectId,
+    });
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 409 });
+    }
+
+    return NextResponse.json({ hold });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error("Hold inspection time error:", error);
+    return NextResponse.json(
+      { error: error?.message ?? "Failed to hold time" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/inspections/holds → release the current user's hold
+export async function DELETE(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await releaseInspectionSlotHold(currentUser._id as mongoose.Types.ObjectId);
+
+    return NextResponse.json({ message: "Hold released" });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error("Release inspection hold error:", error);
+    return NextResponse.json(
+      { error: error?.message ?? "Failed to release hold" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createInspection, getAllInspections } from "@/lib/inspection";
+import { createInspection, getAllInspections, normalizeInspectionTeam } from "@/lib/inspection";
 import { getCurrentUser } from "@/lib/auth-helpers";
 import dbConnect from "@/lib/db";
 import Event from "@/src/models/Event";
 import OrderIdCounter from "@/src/models/OrderIdCounter";
 import Inspection from "@/src/models/Inspection";
+import User from "@/src/models/User";
+import DiscountCode from "@/src/models/DiscountCode";
 import mongoose from "mongoose";
 import { createOrUpdateClient, createOrUpdateAgent } from "@/lib/client-agent-utils";
+import { refreshAutoCategoriesForInspection } from "@/lib/category-rules";
+import { buildInspectionQuote, InspectionQuote, quoteToInspectionServices } from "@/lib/pricing";
+import { DiscountCodeLean } from "@/lib/discount-code-utils";
+import { findCompanyTemplateId } from "@/lib/inspection-templates";
+import { sendNewInspectionEmails } from "@/lib/email-notifications";
+import { syncAgreementSignatures } from "@/lib/agreement-signatures";
+import { syncInspectionInvoice } from "@/lib/invoices";
+import {
+  getInspectionAssignments,
+  getSchedulingTimeZone,
+  reserveInspectionSlot,
+  resolveScheduledDate,
+} from "@/lib/scheduling";
+import { forbiddenResponse, hasPermission, permissionErrorResponse, stripFinancialFields } from "@/lib/permissions";
+import { recordAuditEvent } from "@/lib/audit-log";
+import { INITIAL_INSPECTION_STATUSES, normalizeInspectionStatus } from "@/constants/inspectionStatuses";
 
 const mapInspectionResponse = (inspection: any) => {
   if (!inspection) return null;
@@ -34,9 +52,19 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const status = body.status ?? "Pending";
-    const date = body.date ?? body.dateTime;
-    const inspector = body.inspector;
+    const status = body.status !== undefined ? normalizeInspectionStatus(body.status) : undefined;
+    if (status && !(INITIAL_INSPECTION_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json(
+        { error: "New inspections can only be unconfirmed, scheduled or confirmed" },
+        { status: 400 }
+      );
+    }
+    const team = normalizeInspectionTeam({
+      inspector: body.inspector,
+      inspectors: body.inspectors,
+      serviceAssignments: body.serviceAssignments,
+    });
+    const inspector = team.inspector ? String(team.inspector) : undefined;
     const companyOwnerRequested = body.companyOwnerRequested ?? false;
     const services = body.services || [];
     const discountCode = body.discountCode;
@@ -52,40 +80,116 @@ export async function POST(req: NextRequest) {
     const disableAutomatedNotifications = body.disableAutomatedNotifications ?? false;
     const internalNotes = body.internalNotes;
     const customData = body.customData || {};
+    const inspectionTemplate = await findCompanyTemplateId(currentUser.company as mongoose.Types.ObjectId, body.inspectionTemplate);
 
-    // Generate Order ID using OrderIdCounter
-    let orderId: number | undefined = undefined;
-    try {
-      const counter = await OrderIdCounter.findOneAndUpdate(
-        { company: currentUser.company },
-        { $inc: { lastOrderId: 1 } },
-        { upsert: true, new: true, setDefaultsOnInsert: true }
-      );
-      orderId = counter.lastOrderId; // This will be 1001 for first inspection (1000 + 1)
-    } catch (error) {
-      console.error('Error generating Order ID:', error);
-      // Continue without orderId if generation fails
+    // Users limited to can_schedule_self may only book inspections assigned to themselves
+    if (!hasPermission(currentUser, 'can_schedule') && String(inspector) !== String(currentUser._id)) {
+      return forbiddenResponse(['can_schedule'], 'You can only schedule inspections assigned to yourself');
     }
 
-    const inspection = await createInspection({
-      status,
-      date,
-      companyId: currentUser.company.toString(),
-      createdBy: currentUser._id?.toString(),
-      inspector,
-      companyOwnerRequested,
-      services,
-      discountCode,
-      location,
-      requirePaymentToReleaseReports,
-      paymentNotes,
-      orderId,
-      referralSource: referralSource?.trim() || undefined,
-      confirmedInspection,
-      disableAutomatedNotifications,
-      internalNotes: internalNotes?.trim() || undefined,
-      customData,
-    });
+    if (team.inspectors.length > 0) {
+      const members = await User.countDocuments({ _id: { $in: team.inspectors }, company: currentUser.company });
+      if (members !== team.inspectors.length) {
+        return NextResponse.json({ error: "Every inspector must belong to your company" }, { status: 400 });
+      }
+    }
+
+    // A calendar day and wall-clock time are read in the inspector's (or company's) time zone
+    const timeZone = await getSchedulingTimeZone(currentUser.company as mongoose.Types.ObjectId, inspector);
+    const { date, error: dateError } = resolveScheduledDate(
+      { date: body.date ?? body.dateTime, time: body.time },
+      timeZone
+    );
+    if (dateError) {
+      return NextResponse.json({ error: dateError }, { status: 400 });
+    }
+
+    // Price the order on the server from the company's service definitions
+    let pricing: InspectionQuote | undefined;
+    let pricedServices = services;
+    if (services.length > 0) {
+      const discountCodeDoc = discountCode && mongoose.Types.ObjectId.isValid(discountCode)
+        ? await DiscountCode.findOne({ _id: discountCode, company: currentUser.company }).lean<DiscountCodeLean>()
+        : null;
+
+      const { quote, error } = await buildInspectionQuote({
+        companyId: currentUser.company,
+        services,
+        location,
+        customData,
+        discountCode: discountCodeDoc,
+      });
+
+      if (error || !quote) {
+        return NextResponse.json({ error: error || "Failed to price inspection" }, { status: 400 });
+      }
+
+      pricing = quote;
+      pricedServices = quoteToInspectionServices(quote);
+    }
+
+    // The order ID is only taken once the time is confirmed free
+    const saveInspection = async () => {
+      // Generate Order ID using OrderIdCounter
+      let orderId: number | undefined = undefined;
+      try {
+        const counter = await OrderIdCounter.findOneAndUpdate(
+          { company: currentUser.company },
+          { $inc: { lastOrderId: 1 } },
+          { upsert: true, new: true, setDefaultsOnInsert: true }
+        );
+        orderId = counter.lastOrderId; // This will be 1001 for first inspection (1000 + 1)
+      } catch (error) {
+        console.error('Error generating Order ID:', error);
+        // Continue without orderId if generation fails
+      }
+
+      return createInspection({
+        status,
+        date,
+        timeZone,
+        companyId: String(currentUser.company),
+        createdBy: currentUser._id?.toString(),
+        inspector,
+        inspectors: team.inspectors,
+        serviceAssignments: team.serviceAssignments,
+        companyOwnerRequested,
+        services: pricedServices,
+        discountCode,
+        pricing,
+        inspectionTemplate: inspectionTemplate?.toString(),
+        location,
+        requirePaymentToReleaseReports,
+        paymentNotes,
+        orderId,
+        referralSource: referralSource?.trim() || undefined,
+        confirmedInspection,
+        disableAutomatedNotifications,
+        internalNotes: internalNotes?.trim() || undefined,
+        customData,
+      });
+    };
+
+    let inspection;
+    if (team.inspectors.length > 0 && date) {
+      // Everyone on the team has to be free for their part of the inspection
+      const reservation = await reserveInspectionSlot(
+        {
+          companyId: currentUser.company as mongoose.Types.ObjectId,
+          assignments: getInspectionAssignments({ ...team, pricing }),
+          start: date,
+          timeZone,
+          userId: currentUser._id as mongoose.Types.ObjectId,
+        },
+        saveInspection
+      );
+      if (reservation.error) {
+        return NextResponse.json({ error: reservation.error }, { status: 409 });
+      }
+      inspection = reservation.data;
+    } else {
+      inspection = await saveInspection();
+    }
 
     // Handle clients creation/update
     const clientIds: mongoose.Types.ObjectId[] = [];
@@ -180,8 +284,24 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    if (inspection?._id) {
+      await refreshAutoCategoriesForInspection(inspection._id);
+      await syncAgreementSignatures(inspection._id);
+      await syncInspectionInvoice(inspection._id);
+      await sendNewInspectionEmails(inspection._id);
+      await recordAuditEvent(req, currentUser, {
+        entityType: "inspection",
+        entityId: inspection._id,
+        action: "create",
+        after: await Inspection.findById(inspection._id).lean(),
+      });
+    }
+
     return NextResponse.json(mapInspectionResponse(inspection), { status: 201 });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.log("error", error);
     return NextResponse.json(
       { error: error.message || "Failed to create inspection" },
@@ -208,16 +328,26 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const filter = searchParams.get('filter') as 'all' | 'today' | 'tomorrow' | 'pending' | 'in-progress' | 'trash' || 'all';
     const search = searchParams.get('search') || '';
+    // "me" is the signed-in user's own inspections
+    const inspectorParam = searchParams.get('inspector');
+    const inspector = inspectorParam === 'me' ? String(currentUser._id) : inspectorParam || undefined;
 
     const inspections = await getAllInspections(currentUser.company.toString(), {
       filter,
       search,
+      inspector,
     });
     
     return NextResponse.json(
-      inspections.map((inspection: any) => mapInspectionResponse(inspection))
+      stripFinancialFields(
+        inspections.map((inspection: any) => mapInspectionResponse(inspection)),
+        currentUser
+      )
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.log(error);
     return NextResponse.json(
       { error: error.message || "Failed to load inspections" },
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { parseInspectionSearchParams, searchInspections } from '@/lib/inspection-search';
+import { forbiddenResponse, hasPermission, permissionErrorResponse, stripFinancialFields } from '@/lib/permissions';
+
+// GET /api/inspections/search?q=&from=&to=&status=&sort=&order=&page=&pageSize= → one page of matching inspections
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'User is not associated with a company' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const query = parseInspectionSearchParams(searchParams);
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    // Payment state and totals are financial data, even as a filter or sort order
+    if ((query.payment || query.sort === 'total') && !hasPermission(currentUser, 'can_access_financial_data')) {
+      return forbiddenResponse(['can_access_financial_data'], 'You do not have permission to filter or sort by payment');
+    }
+
+    if (query.inspector === 'me') {
+      query.inspector = String(currentUser._id);
+    }
+
+    const result = await searchInspections(currentUser.company, query);
+    return NextResponse.json({ ...result, items: stripFinancialFields(result.items, currentUser) });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error searching inspections:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to search inspections' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,32 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { uploadToR2 } from "@/lib/r2";
 import { createDefect } from "@/lib/defect";
+import { AnnotationDocument, AnnotationValidationError, normalizeAnnotationsInput } from "@/lib/annotations";
 
 // Force dynamic rendering to avoid build-time execution
 export const dynamic = 'force-dynamic';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
-
 interface ErrorResponse {
   error: string;
   message: string;
   details?: string;
 }
 
-interface AnalysisResult {
-  defect?: string;
-  materials_names?: string;
-  materials_total_cost?: number;
-  labor_type?: string;
-  labor_rate?: number;
-  hours_required?: number;
-  recommendation?: string;
-  analysis?: string;
-}
-
 import { Client } from "@upstash/qstash";
 
 const getQstashClient = () => {
@@ -72,7 +57,7 @@ export async function POST(request: Request) {
     let type: string | undefined;
     let videoSrc: string | null = null;
     let isThreeSixty = false;
-    let annotations: any[] | undefined;
+    let annotations: AnnotationDocument | null | undefined;
     let originalImage: string | undefined;
   
     const contentType = request.headers.get("content-type") || "";
@@ -91,13 +76,20 @@ export async function POST(request: Request) {
       // Optional: video/thumbnail urls already uploaded to R2
       videoUrlJson = body.videoUrl;
       thumbnailUrlJson = body.thumbnailUrl;
-      annotations = body.annotations; // Editable annotations
       originalImage = body.originalImage; // Original unannotated image
 
+      // Editable annotations; checked here so a bad document fails now rather than in the queued job
+      try {
+        annotations = normalizeAnnotationsInput(body.annotations);
+      } catch (err) {
+        if (err instanceof AnnotationValidationError) {
+          return NextResponse.json({ error: err.message }, { status: err.status });
+        }
+        throw err;
+      }
+
       console.log('🔍 analyze-image received JSON body');
-      console.log('📊 annotations:', annotations);
-      console.log('  - is array:', Array.isArray(annotations));
-      console.log('  - length:', annotations?.length || 0);
+      console.log('📊 annotation shapes:', annotations?.shapes.length || 0);
       console.log('🖼️ originalImage:', originalImage);
     }
     else if (contentType.includes("multipart/form-data")) {
@@ -186,8 +178,7 @@ export async function POST(request: Request) {
   // Publish job to QStash -> will call /api/process-analysis
   try {
     console.log('📤 About to publish to QStash:');
-    console.log('  - annotations:', annotations);
-    console.log('  - annotations length:', annotations?.length || 0);
+    console.log('  - annotation shapes:', annotations?.shapes.length || 0);
     console.log('  - originalImage:', originalImage);
 
     const qstashResponse = await client.publishJSON({
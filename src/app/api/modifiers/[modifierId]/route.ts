@@ -4,6 +4,7 @@ import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import ModifierField from '@/src/models/ModifierField';
 import Service from '@/src/models/Service';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 const isValidObjectId = (value: string) => mongoose.Types.ObjectId.isValid(value);
 
@@ -61,6 +62,9 @@ export async function DELETE(request: NextRequest, context: RouteParams) {
 
     return NextResponse.json({ message: 'Modifier deleted' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete modifier error:', error);
     return NextResponse.json({ error: error.message || 'Failed to delete modifier' }, { status: 500 });
   }
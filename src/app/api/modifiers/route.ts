@@ -3,6 +3,7 @@ import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import ModifierField from '@/src/models/ModifierField';
 import { ensureDefaultModifiersForCompany } from '@/lib/modifier-service';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 const normalizeKey = (key?: string, fallbackLabel?: string) => {
   const source = key?.trim() || fallbackLabel?.trim() || '';
@@ -35,6 +36,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ modifiers });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get modifiers error:', error);
     return NextResponse.json({ error: error.message || 'Failed to fetch modifiers' }, { status: 500 });
   }
@@ -94,6 +98,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ message: 'Modifier created', modifier: modifier.toObject() }, { status: 201 });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create modifier error:', error);
     if (error?.code === 11000) {
       return NextResponse.json({ error: 'Identifier already exists' }, { status: 400 });
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { getNotificationPreferences, parseNotificationPreferences } from '@/lib/task-notifications';
+import User from '@/src/models/User';
+
+// GET /api/notifications/preferences → the current user's notification settings
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ preferences: getNotificationPreferences(currentUser) });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching notification preferences:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load notification preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/notifications/preferences → replace the current user's notification settings
+export async function PUT(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data, error } = parseNotificationPreferences(await req.json());
+    if (error || !data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await User.updateOne({ _id: currentUser._id }, { $set: { notificationPreferences: data } });
+
+    return NextResponse.json({ preferences: data });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error updating notification preferences:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update notification preferences' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+// /app/api/notifications/reminders/cron/route.ts
+// Hourly run, triggered by a QStash schedule pointing at this endpoint.
+import { NextResponse } from 'next/server';
+import { verifySignatureAppRouter } from '@upstash/qstash/nextjs';
+
+import dbConnect from '@/lib/db';
+import { sendDueInspectionReminders } from '@/lib/email-notifications';
+
+// Force dynamic rendering to avoid build-time execution
+export const dynamic = 'force-dynamic';
+
+async function handler() {
+  try {
+    await dbConnect();
+
+    const remindersSent = await sendDueInspectionReminders();
+
+    return NextResponse.json({ success: true, remindersSent });
+  } catch (err: any) {
+    console.error('Inspection reminder batch error:', err);
+    return NextResponse.json({ error: err.message }, { status: 500 });
+  }
+}
+
+// Secure endpoint with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
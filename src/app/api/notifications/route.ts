@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { permissionErrorResponse } from '@/lib/permissions';
+import Notification from '@/src/models/Notification';
+
+const NOTIFICATION_LIST_LIMIT = 30;
+
+// GET /api/notifications → the current user's latest in-app notifications and unread count
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find({ user: currentUser._id })
+        .sort({ createdAt: -1 })
+        .limit(NOTIFICATION_LIST_LIMIT)
+        .lean(),
+      Notification.countDocuments({ user: currentUser._id, readAt: null }),
+    ]);
+
+    return NextResponse.json({
+      notifications: notifications.map((notification) => ({
+        _id: String(notification._id),
+        type: notification.type,
+        title: notification.title,
+        message: notification.message || '',
+        link: notification.link || null,
+        read: Boolean(notification.readAt),
+        createdAt: new Date(notification.createdAt).toISOString(),
+      })),
+      unreadCount,
+    });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/notifications → mark the given notifications read, or all of them when no ids are sent
+export async function PATCH(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const ids = body?.ids;
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => mongoose.Types.ObjectId.isValid(id)))) {
+      return NextResponse.json({ error: 'Invalid notification IDs' }, { status: 400 });
+    }
+
+    const result = await Notification.updateMany(
+      { user: currentUser._id, readAt: null, ...(ids ? { _id: { $in: ids } } : {}) },
+      { $set: { readAt: new Date() } }
+    );
+
+    return NextResponse.json({ updated: result.modifiedCount });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error updating notifications:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+// /app/api/notifications/tasks/cron/route.ts
+// Hourly run, triggered by a QStash schedule pointing at this endpoint.
+import { NextResponse } from 'next/server';
+import { verifySignatureAppRouter } from '@upstash/qstash/nextjs';
+
+import dbConnect from '@/lib/db';
+import { sendTaskDigests, sendTaskDueReminders } from '@/lib/task-notifications';
+
+// Force dynamic rendering to avoid build-time execution
+export const dynamic = 'force-dynamic';
+
+async function handler() {
+  try {
+    await dbConnect();
+
+    const remindersSent = await sendTaskDueReminders();
+    const digestsSent = await sendTaskDigests();
+
+    return NextResponse.json({ success: true, remindersSent, digestsSent });
+  } catch (err: any) {
+    console.error('Task reminder batch error:', err);
+    return NextResponse.json({ error: err.message }, { status: 500 });
+  }
+}
+
+// Secure endpoint with QStash signature verification
+export const POST = verifySignatureAppRouter(handler);
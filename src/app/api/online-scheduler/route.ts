@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '../../../../lib/db';
 import { getCurrentUser } from '../../../../lib/auth-helpers';
 import OnlineScheduler from '../../../../src/models/OnlineScheduler';
+import { permissionErrorResponse } from '../../../../lib/permissions';
+import { normalizePhoneNumber } from '../../../../lib/sms';
 
 const sanitizeString = (value?: string | null) => {
   if (value === undefined || value === null) return undefined;
@@ -36,6 +38,7 @@ export async function GET(request: NextRequest) {
         smsForCompleteBooking: false,
         smsForInProgressBooking: false,
         smsNotificationNumber: '',
+        smsCompleteBookingTemplate: '',
       });
     }
 
@@ -58,8 +61,12 @@ export async function GET(request: NextRequest) {
       smsForCompleteBooking: schedulerDoc?.smsForCompleteBooking ?? false,
       smsForInProgressBooking: schedulerDoc?.smsForInProgressBooking ?? false,
       smsNotificationNumber: schedulerDoc?.smsNotificationNumber || '',
+      smsCompleteBookingTemplate: schedulerDoc?.smsCompleteBookingTemplate || '',
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Online Scheduler GET error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to load scheduler settings' },
@@ -91,6 +98,14 @@ export async function PUT(request: NextRequest) {
     const sanitizedGoogleAnalyticsNumber = sanitizeString(body.googleAnalyticsNumber);
     const sanitizedEmailNotificationAddress = sanitizeString(body.emailNotificationAddress);
     const sanitizedSmsNotificationNumber = sanitizeString(body.smsNotificationNumber);
+    const sanitizedSmsCompleteBookingTemplate = sanitizeString(body.smsCompleteBookingTemplate);
+
+    if (sanitizedSmsNotificationNumber && !normalizePhoneNumber(sanitizedSmsNotificationNumber)) {
+      return NextResponse.json(
+        { error: 'SMS notification number must be a valid phone number' },
+        { status: 400 }
+      );
+    }
 
     // Build update object
     const updateData: Record<string, any> = {
@@ -110,6 +125,7 @@ export async function PUT(request: NextRequest) {
       smsForInProgressBooking: Boolean(body.smsForInProgressBooking),
       emailNotificationAddress: sanitizedEmailNotificationAddress,
       smsNotificationNumber: sanitizedSmsNotificationNumber,
+      smsCompleteBookingTemplate: sanitizedSmsCompleteBookingTemplate ?? '',
     };
 
     // Remove undefined values
@@ -157,8 +173,12 @@ export async function PUT(request: NextRequest) {
       smsForCompleteBooking: updatedScheduler.smsForCompleteBooking ?? false,
       smsForInProgressBooking: updatedScheduler.smsForInProgressBooking ?? false,
       smsNotificationNumber: updatedScheduler.smsNotificationNumber || '',
+      smsCompleteBookingTemplate: updatedScheduler.smsCompleteBookingTemplate || '',
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Online Scheduler PUT error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update scheduler settings' },
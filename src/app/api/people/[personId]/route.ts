@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Person from '@/src/models/Person';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit-log';
 
 export async function DELETE(
   request: NextRequest,
@@ -31,8 +33,18 @@ export async function DELETE(
       return NextResponse.json({ error: 'Person not found' }, { status: 404 });
     }
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'person',
+      entityId: personId,
+      action: 'delete',
+      before: person,
+    });
+
     return NextResponse.json({ message: 'Person deleted successfully' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete person error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete person' },
@@ -4,6 +4,7 @@ import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import Person from '@/src/models/Person';
 import Category from '@/src/models/Category';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -44,6 +45,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ categories });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get people categories error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch categories' },
@@ -5,6 +5,8 @@ import { getCurrentUser } from '@/lib/auth-helpers';
 import Person from '@/src/models/Person';
 import { getOrCreateCategories } from '@/lib/category-utils';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit-log';
 
 export async function GET(request: NextRequest) {
   try {
@@ -72,6 +74,9 @@ export async function GET(request: NextRequest) {
       }
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get people error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch people' },
@@ -168,6 +173,13 @@ export async function POST(request: NextRequest) {
       updatedBy: currentUser._id,
     });
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'person',
+      entityId: person._id as mongoose.Types.ObjectId,
+      action: 'create',
+      after: person,
+    });
+
     const populatedPerson = await Person.findById(person._id)
       .populate('categories', 'name color')
       .lean();
@@ -177,6 +189,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create person error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create person' },
@@ -258,6 +273,7 @@ export async function PUT(request: NextRequest) {
       currentUser._id as mongoose.Types.ObjectId
     );
 
+    const before = await Person.findOne({ _id, company: currentUser.company }).lean();
     const person = await Person.findOneAndUpdate(
       { _id, company: currentUser.company },
       {
@@ -284,10 +300,21 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Person not found' }, { status: 404 });
     }
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'person',
+      entityId: person._id as mongoose.Types.ObjectId,
+      action: 'update',
+      before,
+      after: await Person.findById(person._id).lean(),
+    });
+
     return NextResponse.json(
       { message: 'Person updated successfully', person: person.toObject() }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update person error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update person' },
@@ -1,9 +1,9 @@
 // /app/api/process-analysis/route.ts
 import { NextResponse } from "next/server";
 import { verifySignature } from "@upstash/qstash/nextjs";
-import OpenAI from 'openai';
 import { uploadToR2 } from "@/lib/r2";
 import { createDefect } from "@/lib/defect";
+import { analysisToDefectFields, getAnalysisProvider } from "@/lib/defect-analysis";
 
 import { verifySignatureAppRouter } from "@upstash/qstash/nextjs";
 // import { NextResponse } from "next/server";
@@ -11,10 +11,6 @@ import { verifySignatureAppRouter } from "@upstash/qstash/nextjs";
 // Force dynamic rendering to avoid build-time execution
 export const dynamic = 'force-dynamic';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
-
 function decodeBase64Image(dataString: string) {
     const matches = dataString.match(/^data:(.+);base64,(.+)$/);
     if (!matches || matches.length !== 3) {
@@ -34,9 +30,7 @@ async function handler(request: Request) {
 
     console.log('🔍 process-analysis received request');
     console.log('📦 Body keys:', Object.keys(body));
-    console.log('📊 annotations field:', body.annotations);
-    console.log('  - is array:', Array.isArray(body.annotations));
-    console.log('  - length:', body.annotations?.length || 0);
+    console.log('📊 annotation shapes:', body.annotations?.shapes?.length || 0);
     console.log('🖼️ originalImage field:', body.originalImage);
 
     const {
@@ -104,71 +98,16 @@ async function handler(request: Request) {
       //   console.log('no video found')
       // }
 
-    // ✅ Create OpenAI thread
-    const thread = await openai.beta.threads.create();
-
-    const content: any[] = [
-      { type: "text", text: `Description: ${description} || Location: ${location}` },
-    ];
-
-    // if (file) {
-    //   const uploaded = await openai.files.create({ file, purpose: "vision" });
-    //   content.push({ type: "image_file", image_file: { file_id: uploaded.id } });
-    
-      content.push({ type: "image_url", image_url: { url: finalImageUrl } });
-    // }
-
-    await openai.beta.threads.messages.create(thread.id, {
-      role: "user",
-      content,
-    });
-
-    
-    const run = await openai.beta.threads.runs.create(thread.id, {
-      assistant_id: process.env.OPENAI_ASSISTANT_ID!,
+    // Throws once the provider runs out of retries; QStash then redelivers the job
+    const provider = getAnalysisProvider();
+    console.log(`🤖 Analyzing with ${provider.name} provider`);
+    const parsed = await provider.analyze({
+      imageUrl: finalImageUrl!,
+      description: description || "",
+      location,
+      section,
+      subSection,
     });
-    
-    // Poll until done
-    let runStatus = run.status;
-    while (!["completed", "failed", "cancelled"].includes(runStatus)) {
-      await new Promise((r) => setTimeout(r, 2000));
-      const currentRun = await openai.beta.threads.runs.retrieve(run.id, {
-        thread_id: thread.id,
-      });
-      runStatus = currentRun.status;
-    }
-
-    
-    if (runStatus !== "completed") {
-  console.error("Run failed:", runStatus);
-      return NextResponse.json({ error: "Run failed" }, { status: 500 });
-    }
-
-    const messages = await openai.beta.threads.messages.list(thread.id);
-
-    let assistantResponse = "";
-    for (const msg of messages.data) {
-      if (msg.role === "assistant") {
-        for (const c of msg.content) {
-          if (c.type === "text") {
-            assistantResponse = c.text.value;
-            break;
-          }
-        }
-      }
-      if (assistantResponse) break;
-    }
-
-    const jsonMatch = assistantResponse.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-  console.error("Assistant response not JSON:", assistantResponse);
-      return NextResponse.json({ error: "Invalid AI response" }, { status: 500 });
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]);
-
-    // Calculate total cost from AI analysis
-    const totalCost = (parsed.materials_total_cost || 0) + ((parsed.labor_rate || 0) * (parsed.hours_required || 0));
 
     const defectData = {
       inspection_id: inspectionId,
@@ -176,28 +115,21 @@ async function handler(request: Request) {
       location: location || "",
       section: section || "",
       subsection: subSection || "",
+      ...analysisToDefectFields(parsed), // Estimate and base_cost from the AI analysis
       defect_description: parsed.defect || description || "",
-      defect_short_description: parsed.short_description || "",
-      materials: parsed.materials_names || "",
-      material_total_cost: totalCost, // Use calculated total cost
-      labor_type: parsed.labor_type || "",
-      labor_rate: parsed.labor_rate || 0,
-      hours_required: parsed.hours_required || 0,
-      recommendation: parsed.recommendation || "",
       color: selectedColor || undefined,
       type: type,
       thumbnail: finalThumbnailUrl,
       video: finalVideoUrl,
       isThreeSixty: isThreeSixty || false,
-      base_cost: totalCost, // Save base cost for future multiplication
       additional_images: [], // Initialize empty array for additional location photos
-      annotations: annotations || [], // Save editable annotations
+      annotations: annotations || null, // Save editable annotations (validated by analyze-image)
       originalImage: originalImage || finalImageUrl!, // Save original unannotated image
     };
 
     console.log('💾 About to call createDefect with:');
     console.log('  - annotations:', defectData.annotations);
-    console.log('  - annotations length:', defectData.annotations?.length || 0);
+    console.log('  - annotation shapes:', defectData.annotations?.shapes?.length || 0);
     console.log('  - originalImage:', defectData.originalImage);
 
   await createDefect(defectData);
@@ -3,6 +3,7 @@ import dbConnect from '../../../../lib/db';
 import { getCurrentUser } from '../../../../lib/auth-helpers';
 import Company from '../../../../src/models/Company';
 import SocialLinks from '../../../../src/models/SocialLinks';
+import { permissionErrorResponse } from '../../../../lib/permissions';
 
 const sanitizeString = (value?: string | null) => {
   if (value === undefined || value === null) return undefined;
@@ -98,6 +99,9 @@ export async function GET(request: NextRequest) {
       socialLinks: socialLinksData,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Profile GET error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to load profile data' },
@@ -237,6 +241,9 @@ export async function PUT(request: NextRequest) {
       company: responseCompany,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Profile PUT error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update profile' },
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getSigningSession, signAgreements } from '@/lib/agreement-signatures';
+import { sendReportPublishedEmail } from '@/lib/email-notifications';
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+// The first address in x-forwarded-for is the client; the rest are proxies
+const getClientIp = (request: NextRequest) =>
+  request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+  request.headers.get('x-real-ip') ||
+  undefined;
+
+// GET → the agreements behind a client's signing link, merged with the inspection's details
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const { token } = await context.params;
+    const session = await getSigningSession(token);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'This signing link is not valid' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(session);
+  } catch (error: any) {
+    console.error('Get agreement signing session error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load agreements' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST → sign every pending agreement, e.g. { signerName, accepted: true } or { signerName, signatureType: 'drawn', signatureData }
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const { token } = await context.params;
+    const body = await request.json();
+
+    const result = await signAgreements(token, {
+      signerName: typeof body.signerName === 'string' ? body.signerName : undefined,
+      signatureType: body.signatureType,
+      signatureData: typeof body.signatureData === 'string' ? body.signatureData : undefined,
+      accepted: body.accepted === true,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    if (result.error) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    // A report held back for the signature can go out now
+    if (result.allSigned && result.inspectionId) {
+      await sendReportPublishedEmail(result.inspectionId);
+    }
+
+    return NextResponse.json({ message: 'Agreements signed successfully', session: result.session });
+  } catch (error: any) {
+    console.error('Sign agreements error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to sign agreements' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCalendarFeed } from '@/lib/calendar-feeds';
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+// GET → the iCal feed behind an inspector's or company's subscription URL
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const { token } = await context.params;
+    const feed = await getCalendarFeed(token);
+
+    if (!feed) {
+      return NextResponse.json(
+        { error: 'This calendar feed is not valid' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(feed.calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="inspections.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('Get calendar feed error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load calendar feed' },
+      { status: 500 }
+    );
+  }
+}
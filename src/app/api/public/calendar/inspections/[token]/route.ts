@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInspectionInvite } from '@/lib/calendar-feeds';
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+// GET → a single inspection as an .ics file, from the link in booking emails
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const { token } = await context.params;
+    const invite = token ? await getInspectionInvite({ token }) : null;
+
+    if (!invite) {
+      return NextResponse.json(
+        { error: 'This calendar link is not valid' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(invite.content, {
+      headers: {
+        'Content-Type': `text/calendar; charset=utf-8; method=${invite.method}`,
+        'Content-Disposition': `attachment; filename="${invite.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('Get inspection calendar invite error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load calendar invite' },
+      { status: 500 }
+    );
+  }
+}
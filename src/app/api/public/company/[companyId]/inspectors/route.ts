@@ -7,6 +7,8 @@ import Availability, { TimeBlock } from '@/src/models/Availability';
 import type { DateSpecificAvailability, IAvailability } from '@/src/models/Availability';
 import type { DayKey } from '@/src/constants/availability';
 import { DAY_KEYS, normalizeDaysRecord } from '@/src/lib/availability-utils';
+import { resolveTimeZone } from '@/src/lib/time-zones';
+import { getInspectorBusyIntervals } from '@/lib/scheduling';
 
 interface RouteParams {
   params: Promise<{
@@ -16,12 +18,16 @@ interface RouteParams {
 
 type DayAvailabilityDoc = IAvailability["days"][number];
 
+// How far ahead the scheduler is told about existing bookings; later ones are still checked on submit
+const BUSY_WINDOW_DAYS = 180;
+
 function formatAvailabilityResponse(availability: IAvailability[]) {
   const map = new Map<
     string,
     {
       days: Record<DayKey, { openSchedule: TimeBlock[]; timeSlots: string[] }>;
       dateSpecific: DateSpecificAvailability[];
+      timeZone: string | null;
     }
   >();
 
@@ -42,6 +48,7 @@ function formatAvailabilityResponse(availability: IAvailability[]) {
     map.set(String(doc.inspector), {
       days: normalized,
       dateSpecific: doc.dateSpecific ?? [],
+      timeZone: doc.timeZone || null,
     });
   });
 
@@ -64,7 +71,7 @@ export async function GET(request: NextRequest, context: RouteParams) {
 
     // Find company to get view mode and owner
     const company = await Company.findById(companyId)
-      .select('createdBy availabilityViewMode')
+      .select('createdBy availabilityViewMode timeZone')
       .lean();
 
     if (!company) {
@@ -89,6 +96,7 @@ export async function GET(request: NextRequest, context: RouteParams) {
         inspectors: [],
         companyOwnerId: company.createdBy ? String(company.createdBy) : null,
         viewMode: company.availabilityViewMode === 'timeSlots' ? 'timeSlots' : 'openSchedule',
+        timeZone: resolveTimeZone(company.timeZone),
       });
     }
 
@@ -100,6 +108,13 @@ export async function GET(request: NextRequest, context: RouteParams) {
 
     const availabilityMap = formatAvailabilityResponse(availabilityDocs);
 
+    const now = new Date();
+    const busyMap = await getInspectorBusyIntervals(
+      companyId,
+      inspectors.map((inspector) => String(inspector._id)),
+      { from: now, to: new Date(now.getTime() + BUSY_WINDOW_DAYS * 24 * 60 * 60 * 1000) }
+    );
+
     // Format response
     const response = inspectors.map((inspector) => {
       const inspectorId = String(inspector._id);
@@ -123,6 +138,9 @@ export async function GET(request: NextRequest, context: RouteParams) {
         availability: {
           days,
           dateSpecific: inspectorAvailability?.dateSpecific ?? [],
+          timeZone: inspectorAvailability?.timeZone ?? null,
+          // Only when the inspector is busy, not why
+          busy: (busyMap.get(inspectorId) || []).map(({ start, end }) => ({ start, end })),
         },
       };
     });
@@ -134,6 +152,7 @@ export async function GET(request: NextRequest, context: RouteParams) {
       inspectors: response,
       companyOwnerId,
       viewMode,
+      timeZone: resolveTimeZone(company.timeZone),
     });
   } catch (error: any) {
     console.error('Get public inspectors error:', error);
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import { DiscountCodeLean, findRedeemableDiscountCode } from '@/lib/discount-code-utils';
+import { buildInspectionQuote } from '@/lib/pricing';
+
+interface RouteParams {
+  params: Promise<{
+    companyId: string;
+  }>;
+}
+
+// POST → itemized quote (modifiers, add-ons, discount, taxes, duration) for the selected services
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const { companyId } = await context.params;
+
+    // Validate ObjectId format
+    if (!mongoose.Types.ObjectId.isValid(companyId)) {
+      return NextResponse.json(
+        { error: 'Invalid company ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    // An invalid discount code never blocks the quote, it is just left out
+    let discountCode: DiscountCodeLean | null = null;
+    if (typeof body.discountCode === 'string' && body.discountCode.trim()) {
+      discountCode = (await findRedeemableDiscountCode(companyId, body.discountCode)).discountCode ?? null;
+    }
+
+    const { quote, error } = await buildInspectionQuote({
+      companyId,
+      services: body.services || [],
+      location: body.location,
+      customData: body.customData || {},
+      discountCode,
+    });
+
+    if (error || !quote) {
+      return NextResponse.json(
+        { error: error || 'Failed to price inspection' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ quote });
+  } catch (error: any) {
+    console.error('Public quote error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to calculate quote' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import mongoose from 'mongoose';
 import dbConnect from '@/lib/db';
 import Company from '@/src/models/Company';
+import { resolveTimeZone } from '@/src/lib/time-zones';
 
 interface RouteParams {
   params: Promise<{
@@ -41,6 +42,7 @@ export async function GET(request: NextRequest, context: RouteParams) {
         logoUrl: company.logoUrl,
         headerLogoUrl: company.headerLogoUrl,
         availabilityViewMode: company.availabilityViewMode || 'openSchedule',
+        timeZone: resolveTimeZone(company.timeZone),
         description: company.description,
         serviceOffered: company.serviceOffered,
         serviceArea: company.serviceArea,
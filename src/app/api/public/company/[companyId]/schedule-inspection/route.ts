@@ -4,7 +4,21 @@ import dbConnect from '@/lib/db';
 import { createInspection } from '@/lib/inspection';
 import Inspection from '@/src/models/Inspection';
 import DiscountCode from '@/src/models/DiscountCode';
+import { DiscountCodeLean, findRedeemableDiscountCode } from '@/lib/discount-code-utils';
+import { buildInspectionQuote, quoteToInspectionServices } from '@/lib/pricing';
 import { createOrUpdateClient, createOrUpdateAgent } from '@/lib/client-agent-utils';
+import { refreshAutoCategoriesForInspection } from '@/lib/category-rules';
+import { sendBookingSmsNotifications } from '@/lib/sms-notifications';
+import { sendNewInspectionEmails } from '@/lib/email-notifications';
+import { syncAgreementSignatures } from '@/lib/agreement-signatures';
+import { syncInspectionInvoice } from '@/lib/invoices';
+import {
+  getInspectionDurationMinutes,
+  getSchedulingTimeZone,
+  isWithinInspectorHours,
+  reserveInspectionSlot,
+  resolveScheduledDate,
+} from '@/lib/scheduling';
 
 interface RouteParams {
   params: Promise<{
@@ -29,7 +43,6 @@ export async function POST(request: NextRequest, context: RouteParams) {
     const body = await request.json();
 
     // Extract data from request body
-    const date = body.date;
     const inspector = body.inspector;
     const services = body.services || [];
     const discountCodeString = body.discountCode;
@@ -43,7 +56,7 @@ export async function POST(request: NextRequest, context: RouteParams) {
     const customData = body.customData || {};
 
     // Validate required fields
-    if (!date) {
+    if (!body.date) {
       return NextResponse.json(
         { error: 'Date is required' },
         { status: 400 }
@@ -57,6 +70,24 @@ export async function POST(request: NextRequest, context: RouteParams) {
       );
     }
 
+    // The scheduler sends the calendar day and time it showed, in the inspector's time zone
+    const timeZone = await getSchedulingTimeZone(companyId, inspector);
+    const { date, error: dateError } = resolveScheduledDate({ date: body.date, time: body.time }, timeZone);
+    if (dateError || !date) {
+      return NextResponse.json(
+        { error: dateError || 'Date is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only the company's own inspectors, at a time their weekly hours or date-specific blocks offer
+    if (!(await isWithinInspectorHours(companyId, inspector, date))) {
+      return NextResponse.json(
+        { error: 'The inspector is not available at that time' },
+        { status: 409 }
+      );
+    }
+
     if (services.length === 0) {
       return NextResponse.json(
         { error: 'At least one service is required' },
@@ -79,54 +110,71 @@ export async function POST(request: NextRequest, context: RouteParams) {
     }
 
     // Convert discount code string to ObjectId if provided
-    let discountCodeId: string | undefined = undefined;
+    let discountCodeDoc: DiscountCodeLean | null = null;
     if (discountCodeString && discountCodeString.trim()) {
-      const discountCode = await DiscountCode.findOne({
-        company: companyId,
-        code: discountCodeString.trim(),
-        active: true,
-      }).lean();
+      const { discountCode, error, status } = await findRedeemableDiscountCode(companyId, discountCodeString);
 
       if (discountCode) {
-        // Check if expired
-        if (discountCode.expirationDate && new Date(discountCode.expirationDate) < new Date()) {
-          return NextResponse.json(
-            { error: 'Discount code has expired' },
-            { status: 400 }
-          );
-        }
-
-        // Check if max uses exceeded
-        if (discountCode.maxUses && discountCode.usageCount >= discountCode.maxUses) {
-          return NextResponse.json(
-            { error: 'Discount code has reached maximum uses' },
-            { status: 400 }
-          );
-        }
-
-        discountCodeId = discountCode._id.toString();
+        discountCodeDoc = discountCode;
+      } else if (status !== 404) {
+        return NextResponse.json({ error }, { status });
       }
       // If discount code not found, we'll just ignore it (don't fail the request)
     }
+    const discountCodeId = discountCodeDoc?._id.toString();
 
-    const companyObjectId = new mongoose.Types.ObjectId(companyId);
-
-    // Create the inspection with status "unconfirmed"
-    const inspection = await createInspection({
-      status: 'unconfirmed',
-      date,
+    // Recompute the price on the server; client-side totals are display-only
+    const { quote, error: quoteError } = await buildInspectionQuote({
       companyId,
-      inspector,
       services,
-      discountCode: discountCodeId,
       location,
-      referralSource: referralSource?.trim() || undefined,
-      confirmedInspection: false,
-      clientNote: clientNote?.trim() || undefined,
-      clientAgreedToTerms,
       customData,
+      discountCode: discountCodeDoc,
     });
 
+    if (quoteError || !quote) {
+      return NextResponse.json(
+        { error: quoteError || 'Failed to price inspection' },
+        { status: 400 }
+      );
+    }
+
+    const companyObjectId = new mongoose.Types.ObjectId(companyId);
+
+    // Create the inspection with status "unconfirmed", unless someone booked the time first
+    const reservation = await reserveInspectionSlot(
+      {
+        companyId,
+        assignments: [{ inspectorId: String(inspector), durationMinutes: getInspectionDurationMinutes({ pricing: quote }) }],
+        start: date,
+        timeZone,
+      },
+      () => createInspection({
+        status: 'unconfirmed',
+        date,
+        timeZone,
+        companyId,
+        inspector,
+        services: quoteToInspectionServices(quote),
+        discountCode: discountCodeId,
+        pricing: quote,
+        location,
+        referralSource: referralSource?.trim() || undefined,
+        confirmedInspection: false,
+        clientNote: clientNote?.trim() || undefined,
+        clientAgreedToTerms,
+        customData,
+      })
+    );
+
+    if (reservation.error) {
+      return NextResponse.json(
+        { error: reservation.error },
+        { status: 409 }
+      );
+    }
+    const inspection = reservation.data;
+
     // Handle clients creation/update
     const clientIds: mongoose.Types.ObjectId[] = [];
     
@@ -199,6 +247,14 @@ export async function POST(request: NextRequest, context: RouteParams) {
       }
     }
 
+    if (inspection?._id) {
+      await refreshAutoCategoriesForInspection(inspection._id);
+      await syncAgreementSignatures(inspection._id);
+      await syncInspectionInvoice(inspection._id);
+      await sendBookingSmsNotifications(inspection._id, 'booking_complete');
+      await sendNewInspectionEmails(inspection._id, { onlineBooking: true });
+    }
+
     // Increment discount code usage count if applicable
     if (discountCodeId) {
       await DiscountCode.findByIdAndUpdate(discountCodeId, {
@@ -213,6 +269,7 @@ export async function POST(request: NextRequest, context: RouteParams) {
           id: inspection?._id || inspection?.id,
           status: 'unconfirmed',
         },
+        quote,
       },
       { status: 201 }
     );
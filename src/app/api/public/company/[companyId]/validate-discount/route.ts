@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import mongoose from 'mongoose';
 import dbConnect from '@/lib/db';
-import DiscountCode from '@/src/models/DiscountCode';
+import { findRedeemableDiscountCode } from '@/lib/discount-code-utils';
+import { buildInspectionQuote } from '@/lib/pricing';
 
 interface RouteParams {
   params: Promise<{
@@ -33,37 +34,75 @@ export async function GET(request: NextRequest, context: RouteParams) {
       );
     }
 
-    // Find the discount code
-    const discountCode = await DiscountCode.findOne({
-      company: companyId,
-      code: code.trim(),
-      active: true,
-    }).lean();
+    const { discountCode, error, status } = await findRedeemableDiscountCode(companyId, code);
 
     if (!discountCode) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    // Return discount code details
+    return NextResponse.json({
+      discountCode: {
+        code: discountCode.code,
+        type: discountCode.type,
+        value: discountCode.value,
+        description: discountCode.description,
+      },
+    });
+  } catch (error: any) {
+    console.error('Validate discount code error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to validate discount code' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST → validate a discount code against a set of services and return the discounted quote
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const { companyId } = await context.params;
+
+    if (!mongoose.Types.ObjectId.isValid(companyId)) {
       return NextResponse.json(
-        { error: 'Invalid discount code' },
-        { status: 404 }
+        { error: 'Invalid company ID' },
+        { status: 400 }
       );
     }
 
-    // Check if expired
-    if (discountCode.expirationDate && new Date(discountCode.expirationDate) < new Date()) {
+    const body = await request.json();
+    const code = typeof body.code === 'string' ? body.code : '';
+
+    if (!code.trim()) {
       return NextResponse.json(
-        { error: 'Discount code has expired' },
+        { error: 'Discount code is required' },
         { status: 400 }
       );
     }
 
-    // Check if max uses exceeded
-    if (discountCode.maxUses && discountCode.usageCount >= discountCode.maxUses) {
+    const { discountCode, error, status } = await findRedeemableDiscountCode(companyId, code);
+
+    if (!discountCode) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { quote, error: quoteError } = await buildInspectionQuote({
+      companyId,
+      services: body.services || [],
+      location: body.location,
+      customData: body.customData || {},
+      discountCode,
+    });
+
+    if (quoteError || !quote) {
       return NextResponse.json(
-        { error: 'Discount code has reached maximum uses' },
+        { error: quoteError || 'Failed to price inspection' },
         { status: 400 }
       );
     }
 
-    // Return discount code details
     return NextResponse.json({
       discountCode: {
         code: discountCode.code,
@@ -71,6 +110,7 @@ export async function GET(request: NextRequest, context: RouteParams) {
         value: discountCode.value,
         description: discountCode.description,
       },
+      quote,
     });
   } catch (error: any) {
     console.error('Validate discount code error:', error);
@@ -80,4 +120,3 @@ export async function GET(request: NextRequest, context: RouteParams) {
     );
   }
 }
-
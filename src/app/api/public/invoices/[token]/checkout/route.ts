@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { createInvoiceCheckout } from '@/lib/invoices';
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+// POST → start an online card payment for the balance; the client is sent to the returned url
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const { token } = await context.params;
+    const { url, error } = await createInvoiceCheckout(token);
+
+    if (error || !url) {
+      return NextResponse.json(
+        { error: error || 'Failed to start payment' },
+        { status: error === 'Invoice not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ url });
+  } catch (error: any) {
+    console.error('Create invoice checkout error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to start payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { completeInvoiceCheckout, getPublicInvoice } from '@/lib/invoices';
+import { sendReportPublishedEmail } from '@/lib/email-notifications';
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+// POST → record a finished checkout when the client returns from the payment page, e.g. { sessionId }
+export async function POST(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const { token } = await context.params;
+    const body = await request.json();
+
+    if (typeof body.sessionId !== 'string' || !body.sessionId) {
+      return NextResponse.json({ error: 'Checkout session is required' }, { status: 400 });
+    }
+
+    const result = await completeInvoiceCheckout(token, body.sessionId);
+    if (result.error || !result.invoice) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to confirm payment' },
+        { status: 404 }
+      );
+    }
+
+    // A report held back for payment can go out now
+    if (result.invoice.status === 'paid') {
+      await sendReportPublishedEmail(result.invoice.inspection);
+    }
+
+    return NextResponse.json({ paid: result.paid, invoice: await getPublicInvoice(token) });
+  } catch (error: any) {
+    console.error('Confirm invoice checkout error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to confirm payment' },
+      { status: 500 }
+    );
+  }
+}
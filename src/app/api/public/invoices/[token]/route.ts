@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getPublicInvoice } from '@/lib/invoices';
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+// GET → the invoice behind a client's payment link
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    await dbConnect();
+
+    const { token } = await context.params;
+    const invoice = await getPublicInvoice(token);
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'This payment link is not valid' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(invoice);
+  } catch (error: any) {
+    console.error('Get public invoice error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load invoice' },
+      { status: 500 }
+    );
+  }
+}
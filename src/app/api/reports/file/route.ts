@@ -1,25 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getR2Object } from "../../../../../lib/r2";
+import { generatePresignedDownloadUrl } from "../../../../../lib/r2";
+import dbConnect from "@/lib/db";
+import { getCurrentUser } from "@/lib/auth-helpers";
+import { permissionErrorResponse } from "@/lib/permissions";
+import Inspection from "@/src/models/Inspection";
+import {
+  getInspectionIdFromReportKey,
+  getReportReleaseStatus,
+  isCompanyViewer,
+  REPORT_RELEASE_BLOCKER_MESSAGES,
+} from "@/lib/report-release";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const maxDuration = 60;
 
-function inferMimeFromKey(key: string): string {
-  const ext = (key.split('.').pop() || '').toLowerCase();
-  switch (ext) {
-    case 'html': return 'text/html; charset=utf-8';
-    case 'pdf': return 'application/pdf';
-    case 'png': return 'image/png';
-    case 'jpg':
-    case 'jpeg': return 'image/jpeg';
-    case 'gif': return 'image/gif';
-    case 'webp': return 'image/webp';
-    case 'svg': return 'image/svg+xml';
-    default: return 'application/octet-stream';
-  }
-}
-
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
@@ -36,26 +31,31 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Path traversal detected' }, { status: 400 });
     }
 
-    // Prefer redirecting to public R2 URL to avoid streaming bytes through Vercel
-    const publicBase = process.env.CLOUDFLARE_PUBLIC_URL?.replace(/\/$/, '');
-    if (publicBase) {
-      const target = `${publicBase}/${key}`;
-      // 307 preserves method; suitable for GET and avoids caching surprises
-      return NextResponse.redirect(target, 307);
+    // Published reports stay with the company until they are released to the client
+    const inspectionId = getInspectionIdFromReportKey(key);
+    if (inspectionId) {
+      await dbConnect();
+      const inspection = await Inspection.findById(inspectionId).select('companyId').lean();
+      const currentUser = await getCurrentUser(req);
+      if (inspection && !isCompanyViewer(currentUser, inspection.companyId)) {
+        const release = await getReportReleaseStatus(inspectionId);
+        if (!release.released) {
+          return NextResponse.json(
+            { error: release.blockers.map((blocker) => REPORT_RELEASE_BLOCKER_MESSAGES[blocker]).join(' '), blockers: release.blockers },
+            { status: 403, headers: { 'Cache-Control': 'no-store' } }
+          );
+        }
+      }
     }
 
-    const { buffer, contentType } = await getR2Object(key);
-    const ct = contentType || inferMimeFromKey(key);
-    const headers: Record<string, string> = {
-      'Content-Type': ct,
-      'Cache-Control': 'public, max-age=31536000, immutable',
-    };
-    // For PDFs/HTML prefer inline display
-    const filename = key.split('/').pop() || 'file';
-    headers['Content-Disposition'] = `inline; filename="${filename}"`;
-
-  return new NextResponse(new Uint8Array(buffer), { status: 200, headers });
+    // Redirect to a short-lived signed URL rather than the permanent public one, so the access
+    // check above cannot be bypassed by keeping the link; this still avoids streaming bytes through Vercel
+    const target = await generatePresignedDownloadUrl(key);
+    return NextResponse.redirect(target, { status: 307, headers: { 'Cache-Control': 'no-store' } });
   } catch (err: any) {
+    const permissionResponse = permissionErrorResponse(err);
+    if (permissionResponse) return permissionResponse;
+
     console.error('❌ R2 file proxy failed:', err);
     const status = err?.$metadata?.httpStatusCode || 500;
     return NextResponse.json({ error: 'Failed to fetch file' }, { status });
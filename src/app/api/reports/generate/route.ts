@@ -3,11 +3,19 @@ import { generateInspectionReportHTML, type DefectItem, type ReportMeta } from "
 import { extractR2KeyFromUrl, getR2ObjectAsDataURI, resolveR2KeyFromUrl } from "../../../../../lib/r2";
 import { uploadReportToR2 } from "../../../../../lib/r2";
 import { updateInspection } from "../../../../../lib/inspection";
+import { getCurrentUser } from "../../../../../lib/auth-helpers";
+import { permissionErrorResponse } from "../../../../../lib/permissions";
+import { sendReportPublishedEmail } from "../../../../../lib/email-notifications";
+import { markInspectionReportPublished } from "../../../../../lib/inspection-status";
+import { getAnnotatedImageUrl, REPORT_IMAGE_MAX_DIMENSION } from "../../../../../lib/annotation-images";
 
 export const runtime = "nodejs"; // ensure Node runtime for puppeteer
 export const dynamic = "force-dynamic"; // avoid caching
 export const maxDuration = 60; // allow enough time on Vercel
 
+// Annotated photos rendered at the same time; each holds a full-size image in memory while sharp works
+const RENDER_CONCURRENCY = 3;
+
 type Payload = {
   defects: DefectItem[];
   meta?: ReportMeta;
@@ -30,8 +38,42 @@ async function maybeInline(url?: string): Promise<string | undefined> {
   }
 }
 
+// Annotated photos are re-rendered from the original at print resolution, so they always use the
+// current annotation styling. Falls back to the image flattened by the editor.
+async function resolveDefectImage(d: DefectItem): Promise<string | undefined> {
+  if (!d.originalImage || !d.annotations) return d.image;
+  try {
+    return (await getAnnotatedImageUrl(d.originalImage, d.annotations, { maxDimension: REPORT_IMAGE_MAX_DIMENSION })) || d.image;
+  } catch (error) {
+    console.error("⚠️ Failed to render annotated image, using the saved one:", error);
+    return d.image;
+  }
+}
+
+// Resolves every defect's photo with at most RENDER_CONCURRENCY renders in flight, keeping the order
+async function resolveDefectImages(defects: DefectItem[]): Promise<Array<string | undefined>> {
+  const images: Array<string | undefined> = new Array(defects.length);
+  let next = 0;
+  const resolveNext = async (): Promise<void> => {
+    const index = next++;
+    if (index >= defects.length) return;
+    images[index] = await maybeInline(await resolveDefectImage(defects[index]));
+    return resolveNext();
+  };
+  await Promise.all(Array.from({ length: Math.min(RENDER_CONCURRENCY, defects.length) }, resolveNext));
+  return images;
+}
+
 export async function POST(req: NextRequest) {
   try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
     const { defects, meta, inspectionId, reportMode = 'full' } = (await req.json()) as Payload;
 
     if (!Array.isArray(defects) || defects.length === 0) {
@@ -43,12 +85,8 @@ export async function POST(req: NextRequest) {
 
     // Pre-process image URLs in defects and information blocks to inline data URIs when they point to R2
 
-    const enrichedDefects: DefectItem[] = await Promise.all(
-      defects.map(async (d) => ({
-        ...d,
-        image: await maybeInline(d.image),
-      }))
-    );
+    const defectImages = await resolveDefectImages(defects);
+    const enrichedDefects: DefectItem[] = defects.map((d, index) => ({ ...d, image: defectImages[index] }));
 
     const enrichedMeta: ReportMeta | undefined = meta
       ? {
@@ -197,6 +235,8 @@ export async function POST(req: NextRequest) {
           pdfReportUrl: downloadUrl,
           pdfReportGeneratedAt: new Date()
         });
+        await sendReportPublishedEmail(inspectionId);
+        await markInspectionReportPublished(inspectionId, currentUser);
         
         console.log(`✅ PDF uploaded to R2. Proxy URL: ${downloadUrl}`);
         
@@ -233,6 +273,9 @@ export async function POST(req: NextRequest) {
       headers: { "content-type": "application/json" },
     });
   } catch (err: any) {
+    const permissionResponse = permissionErrorResponse(err);
+    if (permissionResponse) return permissionResponse;
+
     console.error("PDF generation error:", err);
     return new Response(JSON.stringify({ error: err?.message || "Failed to generate PDF" }), {
       status: 500,
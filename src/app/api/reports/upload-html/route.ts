@@ -1,12 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { uploadReportToR2, extractR2KeyFromUrl, copyInR2, getR2ObjectAsDataURI } from "../../../../../lib/r2";
 import { updateInspection } from "../../../../../lib/inspection";
+import { getCurrentUser } from "../../../../../lib/auth-helpers";
+import { permissionErrorResponse } from "../../../../../lib/permissions";
+import { sendReportPublishedEmail } from "../../../../../lib/email-notifications";
+import { markInspectionReportPublished } from "../../../../../lib/inspection-status";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function POST(req: NextRequest) {
   try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
     const { htmlContent, inspectionId, reportMode = 'full' } = await req.json();
 
     if (!htmlContent || !inspectionId) {
@@ -333,6 +345,8 @@ export async function POST(req: NextRequest) {
       htmlReportUrl: proxiedUrl,
       htmlReportGeneratedAt: new Date()
     });
+    await sendReportPublishedEmail(inspectionId);
+    await markInspectionReportPublished(inspectionId, currentUser);
 
   console.log(`✅ HTML permanent URL saved: ${proxiedUrl}`);
 
@@ -345,6 +359,9 @@ export async function POST(req: NextRequest) {
     });
 
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('❌ Failed to upload HTML report:', error);
     return NextResponse.json(
       { error: error.message || "Failed to upload HTML report" },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth-helpers';
 import ReusableDropdown from '@/src/models/ReusableDropdown';
+import { permissionErrorResponse } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -30,6 +31,9 @@ export async function GET(request: NextRequest) {
       referralSources: dropdown.referralSources || '',
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('ReusableDropdown GET error:', error);
     return NextResponse.json(
       { error: error?.message ?? 'Failed to fetch reusable dropdowns' },
@@ -124,6 +128,9 @@ export async function PUT(request: NextRequest) {
       referralSources: dropdown.referralSources || '',
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('ReusableDropdown PUT error:', error);
     return NextResponse.json(
       { error: error?.message ?? 'Failed to update reusable dropdowns' },
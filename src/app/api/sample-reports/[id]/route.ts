@@ -4,6 +4,7 @@ import dbConnect from '../../../../../lib/db';
 import { getCurrentUser } from '../../../../../lib/auth-helpers';
 import SampleReport from '../../../../../src/models/SampleReport';
 import clientPromise from '../../../../../lib/mongodb';
+import { permissionErrorResponse } from '../../../../../lib/permissions';
 
 type RouteParams = {
   params: Promise<{ id: string }>;
@@ -104,6 +105,9 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({ message: 'Sample report updated', sampleReport });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update sample report error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update sample report' },
@@ -150,6 +154,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({ message: 'Sample report deleted' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete sample report error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete sample report' },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '../../../../../lib/db';
 import { getCurrentUser } from '../../../../../lib/auth-helpers';
 import SampleReport from '../../../../../src/models/SampleReport';
+import { permissionErrorResponse } from '../../../../../lib/permissions';
 
 type ReportInput = {
   id?: unknown;
@@ -86,6 +87,9 @@ export async function PATCH(request: NextRequest) {
 
     return NextResponse.json({ message: 'Sample reports reordered' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Reorder sample reports error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to reorder sample reports' },
@@ -4,6 +4,7 @@ import dbConnect from '../../../../lib/db';
 import { getCurrentUser } from '../../../../lib/auth-helpers';
 import SampleReport from '../../../../src/models/SampleReport';
 import clientPromise from '../../../../lib/mongodb';
+import { permissionErrorResponse } from '../../../../lib/permissions';
 
 const INSPECTION_DB_NAME = process.env.INSPECTIONS_DB_NAME ?? 'agi_inspections_db';
 
@@ -83,6 +84,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ sampleReports: sampleReportsWithHeader });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get sample reports error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch sample reports' },
@@ -152,6 +156,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create sample report error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create sample report' },
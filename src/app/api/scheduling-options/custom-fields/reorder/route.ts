@@ -3,6 +3,7 @@ import dbConnect from '../../../../../../lib/db';
 import { getCurrentUser } from '../../../../../../lib/auth-helpers';
 import SchedulingOptions from '../../../../../../src/models/SchedulingOptions';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '../../../../../../lib/permissions';
 
 export async function PATCH(request: NextRequest) {
   try {
@@ -82,6 +83,9 @@ export async function PATCH(request: NextRequest) {
       customFields: updatedDoc?.customFields || [],
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Custom Fields Reorder error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to reorder custom fields' },
@@ -3,6 +3,7 @@ import dbConnect from '../../../../../lib/db';
 import { getCurrentUser } from '../../../../../lib/auth-helpers';
 import SchedulingOptions from '../../../../../src/models/SchedulingOptions';
 import mongoose from 'mongoose';
+import { permissionErrorResponse } from '../../../../../lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,6 +24,9 @@ export async function GET(request: NextRequest) {
       customFields: optionsDoc?.customFields || [],
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Custom Fields GET error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to load custom fields' },
@@ -121,6 +125,9 @@ export async function POST(request: NextRequest) {
       customField: createdField,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Custom Fields POST error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create custom field' },
@@ -201,6 +208,9 @@ export async function PUT(request: NextRequest) {
       customField: updatedField,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Custom Fields PUT error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update custom field' },
@@ -256,6 +266,9 @@ export async function DELETE(request: NextRequest) {
       message: 'Custom field deleted successfully',
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Custom Fields DELETE error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete custom field' },
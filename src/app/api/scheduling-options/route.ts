@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '../../../../lib/db';
 import { getCurrentUser } from '../../../../lib/auth-helpers';
 import SchedulingOptions from '../../../../src/models/SchedulingOptions';
+import { permissionErrorResponse } from '../../../../lib/permissions';
+import { MAX_TRAVEL_BUFFER_MINUTES } from '@/src/constants/availability';
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,6 +17,7 @@ export async function GET(request: NextRequest) {
     if (!currentUser.company) {
       return NextResponse.json({
         inProgressBookingsBlockSchedule: false,
+        travelBufferMinutes: 0,
         defaultConfirmed: false,
         allowClientCcEmails: false,
         captureBuyerAddress: false,
@@ -27,6 +30,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       inProgressBookingsBlockSchedule: optionsDoc?.inProgressBookingsBlockSchedule ?? false,
+      travelBufferMinutes: optionsDoc?.travelBufferMinutes ?? 0,
       defaultConfirmed: optionsDoc?.defaultConfirmed ?? false,
       allowClientCcEmails: optionsDoc?.allowClientCcEmails ?? false,
       captureBuyerAddress: optionsDoc?.captureBuyerAddress ?? false,
@@ -35,6 +39,9 @@ export async function GET(request: NextRequest) {
       customFields: optionsDoc?.customFields || [],
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Scheduling Options GET error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to load scheduling options' },
@@ -64,6 +71,7 @@ export async function PUT(request: NextRequest) {
     // Build update object
     const updateData: Record<string, any> = {
       inProgressBookingsBlockSchedule: Boolean(body.inProgressBookingsBlockSchedule),
+      travelBufferMinutes: body.travelBufferMinutes === undefined ? undefined : Number(body.travelBufferMinutes),
       defaultConfirmed: Boolean(body.defaultConfirmed),
       allowClientCcEmails: Boolean(body.allowClientCcEmails),
       captureBuyerAddress: Boolean(body.captureBuyerAddress),
@@ -71,6 +79,18 @@ export async function PUT(request: NextRequest) {
       captureListingAgentAddress: Boolean(body.captureListingAgentAddress),
     };
 
+    if (
+      updateData.travelBufferMinutes !== undefined &&
+      !(Number.isInteger(updateData.travelBufferMinutes) &&
+        updateData.travelBufferMinutes >= 0 &&
+        updateData.travelBufferMinutes <= MAX_TRAVEL_BUFFER_MINUTES)
+    ) {
+      return NextResponse.json(
+        { error: `Travel buffer must be between 0 and ${MAX_TRAVEL_BUFFER_MINUTES} minutes` },
+        { status: 400 }
+      );
+    }
+
     // Remove undefined values
     Object.keys(updateData).forEach((key) => {
       if (updateData[key] === undefined) {
@@ -101,6 +121,7 @@ export async function PUT(request: NextRequest) {
     return NextResponse.json({
       message: 'Scheduling options updated successfully',
       inProgressBookingsBlockSchedule: updatedOptions.inProgressBookingsBlockSchedule ?? false,
+      travelBufferMinutes: updatedOptions.travelBufferMinutes ?? 0,
       defaultConfirmed: updatedOptions.defaultConfirmed ?? false,
       allowClientCcEmails: updatedOptions.allowClientCcEmails ?? false,
       captureBuyerAddress: updatedOptions.captureBuyerAddress ?? false,
@@ -108,6 +129,9 @@ export async function PUT(request: NextRequest) {
       captureListingAgentAddress: updatedOptions.captureListingAgentAddress ?? false,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Scheduling Options PUT error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update scheduling options' },
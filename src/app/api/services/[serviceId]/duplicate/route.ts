@@ -4,6 +4,8 @@ import dbConnect from '../../../../../../lib/db';
 import { getCurrentUser } from '../../../../../../lib/auth-helpers';
 import Service from '../../../../../../src/models/Service';
 import { sanitizeAddOns, sanitizeModifiers, sanitizeTaxes } from '../../../../../../lib/modifier-utils';
+import { permissionErrorResponse } from '../../../../../../lib/permissions';
+import { recordAuditEvent } from '../../../../../../lib/audit-log';
 
 interface RouteParams {
   params: Promise<{
@@ -76,12 +78,21 @@ export async function POST(request: NextRequest, context: RouteParams) {
     };
 
     const duplicateService = await Service.create(duplicatePayload);
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'service',
+      entityId: duplicateService._id as mongoose.Types.ObjectId,
+      action: 'create',
+      after: duplicateService,
+    });
 
     return NextResponse.json({
       message: 'Service duplicated successfully',
       service: duplicateService.toObject(),
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Duplicate service error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to duplicate service' },
@@ -4,6 +4,9 @@ import dbConnect from '../../../../../lib/db';
 import { getCurrentUser } from '../../../../../lib/auth-helpers';
 import Service from '../../../../../src/models/Service';
 import { sanitizeAddOns, sanitizeModifiers, sanitizeTaxes } from '../../../../../lib/modifier-utils';
+import { permissionErrorResponse, stripFinancialFields } from '../../../../../lib/permissions';
+import { findCompanyTemplateId } from '../../../../../lib/inspection-templates';
+import { recordAuditEvent } from '../../../../../lib/audit-log';
 
 interface RouteParams {
   params: Promise<{
@@ -47,8 +50,11 @@ export async function GET(request: NextRequest, context: RouteParams) {
       return NextResponse.json({ error: 'Service not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ service: service.toObject() });
+    return NextResponse.json({ service: stripFinancialFields(service.toObject(), currentUser) });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get service error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch service' },
@@ -71,6 +77,7 @@ export async function PUT(request: NextRequest, context: RouteParams) {
     if (!service) {
       return NextResponse.json({ error: 'Service not found' }, { status: 404 });
     }
+    const before = service.toObject();
 
     const body = await request.json();
     const {
@@ -83,6 +90,7 @@ export async function PUT(request: NextRequest, context: RouteParams) {
       defaultInspectionEvents,
       organizationServiceId,
       agreementIds,
+      inspectionTemplate,
       modifiers,
     } = body;
 
@@ -180,6 +188,10 @@ export async function PUT(request: NextRequest, context: RouteParams) {
       service.markModified('agreementIds');
     }
 
+    if (inspectionTemplate !== undefined) {
+      service.inspectionTemplate = await findCompanyTemplateId(currentUser.company as mongoose.Types.ObjectId, inspectionTemplate);
+    }
+
     if (modifiers !== undefined) {
       service.modifiers = sanitizeModifiers(modifiers);
       service.markModified('modifiers');
@@ -196,9 +208,19 @@ export async function PUT(request: NextRequest, context: RouteParams) {
     }
 
     const updatedService = await service.save();
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'service',
+      entityId: updatedService._id as mongoose.Types.ObjectId,
+      action: 'update',
+      before,
+      after: updatedService,
+    });
 
     return NextResponse.json({ message: 'Service updated successfully', service: updatedService.toObject() });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update service error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update service' },
@@ -223,9 +245,18 @@ export async function DELETE(request: NextRequest, context: RouteParams) {
     }
 
     await service.deleteOne();
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'service',
+      entityId: service._id as mongoose.Types.ObjectId,
+      action: 'delete',
+      before: service,
+    });
 
     return NextResponse.json({ message: 'Service deleted successfully' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete service error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete service' },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '../../../../../lib/db';
 import { getCurrentUser } from '../../../../../lib/auth-helpers';
 import Service from '../../../../../src/models/Service';
+import { permissionErrorResponse } from '../../../../../lib/permissions';
 
 type ServiceInput = {
   id?: unknown;
@@ -84,6 +85,9 @@ export async function PATCH(request: NextRequest) {
 
     return NextResponse.json({ message: 'Services reordered' });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Reorder services error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to reorder services' },
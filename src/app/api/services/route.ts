@@ -4,6 +4,9 @@ import dbConnect from '../../../../lib/db';
 import { getCurrentUser } from '../../../../lib/auth-helpers';
 import Service from '../../../../src/models/Service';
 import { sanitizeAddOns, sanitizeModifiers, sanitizeTaxes } from '../../../../lib/modifier-utils';
+import { permissionErrorResponse, stripFinancialFields } from '../../../../lib/permissions';
+import { findCompanyTemplateId } from '../../../../lib/inspection-templates';
+import { recordAuditEvent } from '../../../../lib/audit-log';
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,8 +25,11 @@ export async function GET(request: NextRequest) {
       .sort({ orderIndex: 1, createdAt: 1 })
       .lean();
 
-    return NextResponse.json({ services });
+    return NextResponse.json({ services: stripFinancialFields(services, currentUser) });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get services error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch services' },
@@ -60,6 +66,7 @@ export async function POST(request: NextRequest) {
       defaultInspectionEvents,
       organizationServiceId,
       agreementIds,
+      inspectionTemplate,
       modifiers,
     } = body;
 
@@ -132,6 +139,8 @@ export async function POST(request: NextRequest) {
         .map((id: any) => new mongoose.Types.ObjectId(id));
     }
     
+    const inspectionTemplateId = await findCompanyTemplateId(currentUser.company as mongoose.Types.ObjectId, inspectionTemplate);
+
     const lastService = await Service.findOne({ company: currentUser.company })
       .sort({ orderIndex: -1 })
       .select('orderIndex')
@@ -150,6 +159,7 @@ export async function POST(request: NextRequest) {
       defaultInspectionEvents: events,
       organizationServiceId: organizationServiceId?.trim() || undefined,
       agreementIds: agreementObjectIds,
+      inspectionTemplate: inspectionTemplateId,
       orderIndex: nextOrderIndex,
       company: currentUser.company,
       createdBy: currentUser._id,
@@ -158,11 +168,21 @@ export async function POST(request: NextRequest) {
       taxes: sanitizedTaxes,
     });
 
+    await recordAuditEvent(request, currentUser, {
+      entityType: 'service',
+      entityId: newService._id as mongoose.Types.ObjectId,
+      action: 'create',
+      after: newService,
+    });
+
     return NextResponse.json(
       { message: 'Service created successfully', service: newService.toObject() },
       { status: 201 }
     );
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create service error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create service' },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '../../../../lib/db';
 import { getCurrentUser } from '../../../../lib/auth-helpers';
 import SocialLinks from '../../../../src/models/SocialLinks';
+import { permissionErrorResponse } from '../../../../lib/permissions';
 
 const sanitizeString = (value?: string | null) => {
   if (value === undefined || value === null) return undefined;
@@ -46,6 +47,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ socialLinks });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Social Links GET error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to load social links' },
@@ -132,6 +136,9 @@ export async function PUT(request: NextRequest) {
       socialLinks: responseSocialLinks,
     });
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Social Links PUT error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update social links' },
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { formatTaskTemplate, parseTaskTemplateInput } from '@/lib/task-templates';
+import { permissionErrorResponse } from '@/lib/permissions';
+import TaskTemplate from '@/src/models/TaskTemplate';
+
+type RouteParams = {
+  params: Promise<{ templateId: string }>;
+};
+
+// PUT /api/task-templates/[templateId] → replace a task template; tasks already created are left as they are
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { templateId } = await params;
+    if (!mongoose.Types.ObjectId.isValid(templateId)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const { data, error } = await parseTaskTemplateInput(await req.json(), currentUser.company as mongoose.Types.ObjectId);
+    if (error || !data) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    // Fields left out of the form are cleared rather than kept
+    const { assignee, repeatEveryDays, repeatTimes, ...fields } = data;
+    const template = await TaskTemplate.findOneAndUpdate(
+      { _id: templateId, company: currentUser.company },
+      {
+        $set: {
+          ...fields,
+          ...(assignee ? { assignee } : {}),
+          ...(repeatEveryDays ? { repeatEveryDays, repeatTimes } : {}),
+        },
+        $unset: {
+          ...(assignee ? {} : { assignee: '' }),
+          ...(repeatEveryDays ? {} : { repeatEveryDays: '', repeatTimes: '' }),
+        },
+      },
+      { new: true, runValidators: true }
+    ).lean();
+
+    if (!template) {
+      return NextResponse.json({ error: 'Task template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ template: formatTaskTemplate(template) });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error updating task template:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to update task template' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/task-templates/[templateId] → remove a task template; tasks already created are kept
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { templateId } = await params;
+    if (!mongoose.Types.ObjectId.isValid(templateId)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const result = await TaskTemplate.deleteOne({ _id: templateId, company: currentUser.company });
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ error: 'Task template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Task template deleted successfully' });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error deleting task template:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete task template' },
+      { status: 500 }
+    );
+  }
+}
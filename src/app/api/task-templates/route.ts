@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { formatTaskTemplate, parseTaskTemplateInput } from '@/lib/task-templates';
+import { permissionErrorResponse } from '@/lib/permissions';
+import TaskTemplate from '@/src/models/TaskTemplate';
+
+// GET /api/task-templates → the company's task templates
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const templates = await TaskTemplate.find({ company: currentUser.company })
+      .sort({ trigger: 1, name: 1 })
+      .lean();
+
+    return NextResponse.json({ templates: templates.map(formatTaskTemplate) });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching task templates:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load task templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/task-templates → add a task template
+export async function POST(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'User is not associated with a company' }, { status: 400 });
+    }
+
+    const { data, error } = await parseTaskTemplateInput(await req.json(), currentUser.company);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const template = await TaskTemplate.create({
+      ...data,
+      company: currentUser.company,
+      createdBy: currentUser._id,
+    });
+
+    return NextResponse.json({ template: formatTaskTemplate(template) }, { status: 201 });
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error creating task template:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to create task template' },
+      { status: 500 }
+    );
+  }
+}
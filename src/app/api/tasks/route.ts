@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth-helpers';
+import { getTaskList, parseTaskListFilters } from '@/lib/tasks';
+import { permissionErrorResponse } from '@/lib/permissions';
+
+// GET /api/tasks?assignee=mine|all&status=open|complete|all&overdue=true&page= → tasks across inspections
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!currentUser.company) {
+      return NextResponse.json({ error: 'User is not associated with a company' }, { status: 400 });
+    }
+
+    const result = await getTaskList(currentUser, parseTaskListFilters(req.nextUrl.searchParams));
+    return NextResponse.json(result);
+  } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
+    console.error('Error fetching tasks:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch tasks' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import User from '../../../../../src/models/User';
 import Company from '../../../../../src/models/Company';
 import Availability from '../../../../../src/models/Availability';
 import { getCurrentUser } from '../../../../../lib/auth-helpers';
+import { forbiddenResponse, permissionErrorResponse } from '../../../../../lib/permissions';
 
 // PUT - Update a team member
 export async function PUT(
@@ -24,10 +25,7 @@ export async function PUT(
 
     // Check if current user has admin permissions
     if (!currentUser.is_company_admin) {
-      return NextResponse.json(
-        { error: 'You do not have permission to update team members' },
-        { status: 403 }
-      );
+      return forbiddenResponse(['is_company_admin'], 'You do not have permission to update team members');
     }
 
     const body = await request.json();
@@ -105,6 +103,9 @@ export async function PUT(
     });
 
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Update team member error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to update team member' },
@@ -132,10 +133,7 @@ export async function DELETE(
 
     // Check if current user has admin permissions
     if (!currentUser.is_company_admin) {
-      return NextResponse.json(
-        { error: 'You do not have permission to delete team members' },
-        { status: 403 }
-      );
+      return forbiddenResponse(['is_company_admin'], 'You do not have permission to delete team members');
     }
 
     const { userId } = await params;
@@ -185,6 +183,9 @@ export async function DELETE(
     });
 
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Delete team member error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to delete team member' },
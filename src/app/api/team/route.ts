@@ -5,6 +5,7 @@ import Company from '../../../../src/models/Company';
 import crypto from 'crypto';
 import { sendVerificationEmail } from '../../../../lib/email';
 import { getCurrentUser } from '../../../../lib/auth-helpers';
+import { forbiddenResponse, permissionErrorResponse } from '../../../../lib/permissions';
 
 // GET - List all team members
 export async function GET(request: NextRequest) {
@@ -47,6 +48,9 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Get team error:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to fetch team members' },
@@ -71,10 +75,7 @@ export async function POST(request: NextRequest) {
 
     // Check if current user has admin permissions
     if (!currentUser.is_company_admin) {
-      return NextResponse.json(
-        { error: 'You do not have permission to add team members' },
-        { status: 403 }
-      );
+      return forbiddenResponse(['is_company_admin'], 'You do not have permission to add team members');
     }
 
     const body = await request.json();
@@ -205,6 +206,9 @@ export async function POST(request: NextRequest) {
     );
 
   } catch (error: any) {
+    const permissionResponse = permissionErrorResponse(error);
+    if (permissionResponse) return permissionResponse;
+
     console.error('Create team member error:', error);
 
     // Handle duplicate key error
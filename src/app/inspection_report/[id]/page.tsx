@@ -812,7 +812,8 @@ export default function Page() {
   useEffect(() => {
     const fetchSections = async () => {
       try {
-        const response = await fetch('/api/information-sections/sections');
+        const query = resolvedInspectionId ? `?inspectionId=${encodeURIComponent(resolvedInspectionId)}` : '';
+        const response = await fetch(`/api/information-sections/sections${query}`);
         if (response.ok) {
           const result = await response.json();
           if (result.success && result.data) {
@@ -824,7 +825,7 @@ export default function Page() {
       }
     };
     fetchSections();
-  }, []);
+  }, [resolvedInspectionId]);
   
   // Fetch inspection data including header image
   useEffect(() => {
@@ -921,6 +922,8 @@ export default function Page() {
         subsection: r.heading2?.split(' - ')[1] || '',
   defect_description: r.defect_description || r.defect || '',
         image: r.image,
+        originalImage: r.originalImage,
+        annotations: r.annotations,
         location: r.location,
         material_total_cost: r.estimatedCosts?.materialsCost ?? 0,
         labor_type: r.estimatedCosts?.labor ?? '',
@@ -2159,6 +2162,8 @@ export default function Page() {
           heading2: `${actualSectionName} - ${defect.subsection}`, // Use actual section name
           heading: `${numbering} ${defect.subsection}`,
           image: defect.image,
+          originalImage: defect.originalImage,
+          annotations: defect.annotations,
           isThreeSixty: Boolean(defect.isThreeSixty),
           additional_images: defect.additional_images || [],
           base_cost: defect.base_cost,
@@ -576,7 +576,7 @@ function LoginPageContent() {
                       onCheckedChange={(checked) => signupForm.setValue('smsOptIn', checked as boolean)}
                     />
                     <Label htmlFor="smsOptIn" className="text-sm font-normal cursor-pointer leading-relaxed">
-                      Yes, I'd like to receive updates via text/SMS from ReportWriter AI
+                      Yes, I&apos;d like to receive updates via text/SMS from ReportWriter AI
                     </Label>
                   </div>
                 </div>
@@ -610,7 +610,7 @@ function LoginPageContent() {
                 Reset Password
               </CardTitle>
               <CardDescription>
-                Enter your email address and we'll send you a link to reset your password.
+                Enter your email address and we&apos;ll send you a link to reset your password.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -689,7 +689,7 @@ function LoginPageContent() {
                 Resend Confirmation Email
               </CardTitle>
               <CardDescription>
-                Enter your email address and we'll send you a new confirmation link.
+                Enter your email address and we&apos;ll send you a new confirmation link.
               </CardDescription>
             </CardHeader>
             <CardContent>
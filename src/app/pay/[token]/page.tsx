@@ -0,0 +1,207 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { format } from "date-fns";
+import { AlertCircle, CheckCircle2, CreditCard, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { Toaster } from "@/components/ui/sonner";
+import { INVOICE_STATUS_LABELS, PAYMENT_METHOD_LABELS } from "@/constants/payments";
+import type { PublicInvoice } from "@/lib/invoices";
+
+const formatCurrency = (value: number) => value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+function PayInvoiceContent() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = params.token as string;
+  const sessionId = searchParams.get("session_id");
+
+  const [invoice, setInvoice] = useState<PublicInvoice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [paying, setPaying] = useState(false);
+  const confirmedSession = useRef<string | null>(null);
+
+  useEffect(() => {
+    const loadInvoice = async () => {
+      try {
+        setLoading(true);
+
+        // Returning from the payment provider: record the payment before showing the invoice
+        if (sessionId && confirmedSession.current !== sessionId) {
+          confirmedSession.current = sessionId;
+          const response = await fetch(`/api/public/invoices/${token}/confirm`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ sessionId }),
+          });
+          const result = await response.json();
+          if (!response.ok) {
+            throw new Error(result.error || "Failed to confirm payment");
+          }
+          if (result.paid) {
+            toast.success("Thank you, your payment was received");
+          }
+          setInvoice(result.invoice);
+          router.replace(`/pay/${token}`);
+          return;
+        }
+
+        const response = await fetch(`/api/public/invoices/${token}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to load invoice");
+        }
+        setInvoice(result);
+      } catch (err: any) {
+        console.error("Error loading invoice:", err);
+        setError(err.message || "Failed to load invoice");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      loadInvoice();
+    }
+  }, [token, sessionId, router]);
+
+  const handlePay = async () => {
+    try {
+      setPaying(true);
+      const response = await fetch(`/api/public/invoices/${token}/checkout`, { method: "POST" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to start payment");
+      }
+      window.location.href = result.url;
+    } catch (err: any) {
+      console.error("Error starting payment:", err);
+      toast.error(err.message || "Failed to start payment");
+      setPaying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center gap-2 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        Loading invoice...
+      </div>
+    );
+  }
+
+  if (error || !invoice) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="w-full max-w-md border-red-200 bg-red-50">
+          <CardContent className="flex items-start gap-3 p-4">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <p className="text-sm text-muted-foreground">{error || "This payment link is not valid"}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/30 py-8">
+      <div className="mx-auto w-full max-w-2xl space-y-6 px-4">
+        <div>
+          <h1 className="text-3xl font-bold">{invoice.companyName}</h1>
+          <p className="text-muted-foreground">
+            {[invoice.address, invoice.inspectionDate ? format(new Date(invoice.inspectionDate), "MMMM d, yyyy") : null]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        </div>
+
+        {invoice.status === "paid" && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="flex items-start gap-3 p-4">
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+              <p className="text-sm">This invoice is paid. Thank you!</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1">
+              <CardTitle>Invoice {invoice.number}</CardTitle>
+              <CardDescription>Inspection services</CardDescription>
+            </div>
+            <Badge variant={invoice.status === "paid" ? "default" : "secondary"}>
+              {INVOICE_STATUS_LABELS[invoice.status]}
+            </Badge>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableBody>
+                {invoice.lineItems.map((line, index) => (
+                  <TableRow key={index}>
+                    <TableCell className={line.kind === "add_on" ? "pl-6 text-muted-foreground" : undefined}>
+                      {line.description}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.amount)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-semibold">Total</TableCell>
+                  <TableCell className="text-right font-semibold">{formatCurrency(invoice.total)}</TableCell>
+                </TableRow>
+                {invoice.payments.map((payment, index) => (
+                  <TableRow key={`payment-${index}`}>
+                    <TableCell className="text-muted-foreground">
+                      {payment.type === "refund" ? "Refund" : "Payment"} ({PAYMENT_METHOD_LABELS[payment.method]}),{" "}
+                      {format(new Date(payment.receivedAt), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatCurrency(payment.type === "refund" ? payment.amount : -payment.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-semibold">Balance Due</TableCell>
+                  <TableCell className="text-right font-semibold">{formatCurrency(invoice.balance)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            {invoice.balance > 0 && (
+              <div className="flex justify-end">
+                <Button onClick={handlePay} disabled={paying}>
+                  {paying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CreditCard className="mr-2 h-4 w-4" />}
+                  Pay {formatCurrency(invoice.balance)}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <Toaster />
+    </div>
+  );
+}
+
+export default function PayInvoicePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center gap-2 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading invoice...
+        </div>
+      }
+    >
+      <PayInvoiceContent />
+    </Suspense>
+  );
+}
@@ -21,8 +21,18 @@ import { extractCompanyIdFromSlug } from '@/src/lib/scheduler-utils';
 import { toast } from 'sonner';
 import { Toaster } from '@/components/ui/sonner';
 import { format } from 'date-fns';
-import { getAvailableTimesForDate, type InspectorAvailability } from '@/src/lib/inspection-availability';
-import { formatTimeLabel } from '@/src/lib/availability-utils';
+import { getAvailableSlotsForDate, type AvailableSlot, type InspectorAvailability } from '@/src/lib/inspection-availability';
+import {
+  formatInTimeZone,
+  getLocalTimeZone,
+  getTimeZoneAbbreviation,
+  getTimeZoneLabel,
+  getTimeZoneOffset,
+  resolveTimeZone,
+  toDateKey,
+} from '@/src/lib/time-zones';
+import { DEFAULT_TIME_ZONE } from '@/src/constants/availability';
+import type { InspectionQuote } from '@/lib/pricing';
 
 // Schema for scheduler form (simplified version)
 const schedulerFormSchema = z.object({
@@ -102,6 +112,19 @@ type Inspector = {
   availability: InspectorAvailability;
 };
 
+// A local Date holding the calendar day it currently is in the zone, for the date grid
+const calendarDayInTimeZone = (timeZone: string) => {
+  const [year, month, day] = toDateKey(new Date(), timeZone).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const getWeekStart = (day: Date) => {
+  const sunday = new Date(day);
+  sunday.setDate(day.getDate() - day.getDay());
+  sunday.setHours(0, 0, 0, 0);
+  return sunday;
+};
+
 export default function SchedulePage() {
   const params = useParams();
   const router = useRouter();
@@ -128,20 +151,16 @@ export default function SchedulePage() {
   const [selectedInspectorId, setSelectedInspectorId] = useState<string | null>(null);
   const [companyOwnerId, setCompanyOwnerId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'openSchedule' | 'timeSlots'>('openSchedule');
-  const [currentWeekStart, setCurrentWeekStart] = useState<Date>(() => {
-    // Get current Sunday
-    const today = new Date();
-    const day = today.getDay();
-    const diff = today.getDate() - day;
-    const sunday = new Date(today);
-    sunday.setDate(diff);
-    sunday.setHours(0, 0, 0, 0);
-    return sunday;
-  });
+  // Times are offered in the company's zone; the visitor's own zone is shown alongside
+  const [timeZone, setTimeZone] = useState<string>(DEFAULT_TIME_ZONE);
+  const visitorTimeZone = useMemo(() => getLocalTimeZone(), []);
+  const [selectedSlotStart, setSelectedSlotStart] = useState<Date | null>(null);
+  const [currentWeekStart, setCurrentWeekStart] = useState<Date>(() => getWeekStart(new Date()));
   const [loadingInspectors, setLoadingInspectors] = useState(false);
   const [discountCodeValid, setDiscountCodeValid] = useState<boolean | null>(null);
   const [validatingDiscount, setValidatingDiscount] = useState(false);
   const [discountDetails, setDiscountDetails] = useState<any>(null);
+  const [quote, setQuote] = useState<InspectionQuote | null>(null);
   const [referralSourceOptions, setReferralSourceOptions] = useState<Array<{ value: string; label: string }>>([]);
   const [submitting, setSubmitting] = useState(false);
   const [scheduleSuccess, setScheduleSuccess] = useState(false);
@@ -315,6 +334,10 @@ export default function SchedulePage() {
           setInspectors(data.inspectors || []);
           setCompanyOwnerId(data.companyOwnerId);
           setViewMode(data.viewMode || 'openSchedule');
+
+          const companyTimeZone = resolveTimeZone(data.timeZone);
+          setTimeZone(companyTimeZone);
+          setCurrentWeekStart(getWeekStart(calendarDayInTimeZone(companyTimeZone)));
           
           // Set default inspector to company owner or first inspector
           if (data.companyOwnerId && data.inspectors?.length > 0) {
@@ -634,13 +657,7 @@ export default function SchedulePage() {
   };
 
   const handleTodayClick = () => {
-    const today = new Date();
-    const day = today.getDay();
-    const diff = today.getDate() - day;
-    const sunday = new Date(today);
-    sunday.setDate(diff);
-    sunday.setHours(0, 0, 0, 0);
-    setCurrentWeekStart(sunday);
+    setCurrentWeekStart(getWeekStart(calendarDayInTimeZone(timeZone)));
   };
 
   const handlePrevWeek = () => {
@@ -655,7 +672,16 @@ export default function SchedulePage() {
     setCurrentWeekStart(newStart);
   };
 
-  const handleTimeSlotClick = (date: Date, time: string) => {
+  const formatSlotTime = (start: Date, zone: string) =>
+    formatInTimeZone(start, zone, { hour: 'numeric', minute: '2-digit' });
+
+  // Only worth showing when the visitor's clock differs from the company's at that moment
+  const getVisitorTimeLabel = (start: Date): string | null =>
+    getTimeZoneOffset(start, visitorTimeZone) === getTimeZoneOffset(start, timeZone)
+      ? null
+      : formatSlotTime(start, visitorTimeZone);
+
+  const handleTimeSlotClick = (date: Date, slot: AvailableSlot) => {
     if (!selectedInspectorId) {
       toast.error('Please select an inspector first');
       return;
@@ -663,10 +689,11 @@ export default function SchedulePage() {
     
     // Set date, time, and inspector ID
     form.setValue('date', date);
-    form.setValue('time', time);
+    form.setValue('time', slot.time);
     form.setValue('inspectorId', selectedInspectorId);
+    setSelectedSlotStart(slot.start);
     
-    toast.success(`Selected ${format(date, 'MMM d')} at ${formatTimeLabel(time)}`);
+    toast.success(`Selected ${format(date, 'MMM d')} at ${formatSlotTime(slot.start, timeZone)}`);
     
     // Automatically navigate to next tab
     setTimeout(() => {
@@ -675,30 +702,32 @@ export default function SchedulePage() {
     }, 100);
   };
 
-  const getAvailableTimesForDateCell = (date: Date): string[] => {
+  const getAvailableSlotsForDateCell = (date: Date): AvailableSlot[] => {
     if (!selectedInspectorId) return [];
     const inspector = inspectors.find(i => i.inspectorId === selectedInspectorId);
     if (!inspector || !inspector.availability || !inspector.availability.days) return [];
     
     try {
-      const availableTimes = getAvailableTimesForDate(date, viewMode, inspector.availability);
+      // Slots carry the instant they start in the inspector's zone, so the checks below don't depend on the browser's.
+      // Times that would run into the inspector's existing bookings for the quoted duration are left out.
+      const availableSlots = getAvailableSlotsForDate(
+        format(date, 'yyyy-MM-dd'),
+        viewMode,
+        inspector.availability,
+        timeZone,
+        Math.round((quote?.totalDurationHours || 0) * 60)
+      );
       
       // Filter out times that are within the minimum scheduling hours
       if (schedulingMinimumHours > 0) {
         const now = new Date();
         const minimumAllowedTime = new Date(now.getTime() + schedulingMinimumHours * 60 * 60 * 1000);
         
-        return availableTimes.filter(time => {
-          const [hours, minutes] = time.split(':').map(Number);
-          const timeSlotDate = new Date(date);
-          timeSlotDate.setHours(hours, minutes, 0, 0);
-          
-          // Only filter if the time slot is in the future but within the minimum window
-          return timeSlotDate >= minimumAllowedTime;
-        });
+        // Only filter if the time slot is in the future but within the minimum window
+        return availableSlots.filter(slot => slot.start >= minimumAllowedTime);
       }
       
-      return availableTimes;
+      return availableSlots;
     } catch (error) {
       console.error('Error getting available times:', error);
       return [];
@@ -706,11 +735,7 @@ export default function SchedulePage() {
   };
 
   const isPastDate = (date: Date): boolean => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const checkDate = new Date(date);
-    checkDate.setHours(0, 0, 0, 0);
-    return checkDate < today;
+    return format(date, 'yyyy-MM-dd') < toDateKey(new Date(), timeZone);
   };
 
   const isDateSelected = (date: Date): boolean => {
@@ -759,7 +784,68 @@ export default function SchedulePage() {
     }
   };
 
+  const watchedLocation = form.watch('location');
+  const watchedCustomData = form.watch('customData');
+  const quoteRequestKey = JSON.stringify({
+    services: selectedServices.map(s => ({
+      serviceId: s.serviceId,
+      addOns: s.addOns.map(addOn => ({ name: addOn.name })),
+    })),
+    location: {
+      zip: watchedLocation?.zip || undefined,
+      county: watchedLocation?.county || undefined,
+      squareFeet: watchedLocation?.squareFeet ? Number(watchedLocation.squareFeet) : undefined,
+      yearBuild: watchedLocation?.yearBuild ? Number(watchedLocation.yearBuild) : undefined,
+      foundation: watchedLocation?.foundation || undefined,
+    },
+    customData: watchedCustomData || {},
+    discountCode: discountDetails?.code || undefined,
+  });
+  const hasSelectedServices = selectedServices.length > 0;
+
+  // Price the order on the server so modifiers, add-ons, discounts and taxes match what will be booked
+  useEffect(() => {
+    if (!companyId || !hasSelectedServices) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/public/company/${companyId}/quote`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: quoteRequestKey,
+        });
+
+        if (!cancelled) {
+          setQuote(response.ok ? (await response.json()).quote : null);
+        }
+      } catch (error) {
+        console.error('Error fetching quote:', error);
+        if (!cancelled) setQuote(null);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [companyId, hasSelectedServices, quoteRequestKey]);
+
   const calculateTotal = () => {
+    if (quote) {
+      return {
+        subtotal: quote.subtotal,
+        discountAmount: quote.discountTotal,
+        taxTotal: quote.taxTotal,
+        total: quote.total,
+      };
+    }
+
     const subtotal = selectedServices.reduce((sum, s) => {
       const serviceCost = s.service.baseCost || 0;
       const addOnsCost = s.addOns.reduce((addOnSum, addOn) => addOnSum + (addOn.addFee || 0), 0);
@@ -777,7 +863,7 @@ export default function SchedulePage() {
 
     const total = Math.max(0, subtotal - discountAmount);
 
-    return { subtotal, discountAmount, total };
+    return { subtotal, discountAmount, taxTotal: 0, total };
   };
 
   const handleScheduleInspection = async () => {
@@ -797,11 +883,6 @@ export default function SchedulePage() {
         return;
       }
 
-      // Combine date and time into a single Date object
-      const [hours, minutes] = selectedTime.split(':').map(Number);
-      const inspectionDate = new Date(selectedDate);
-      inspectionDate.setHours(hours, minutes, 0, 0);
-
       // Transform services data
       const servicesPayload = selectedServices.map(s => ({
         serviceId: s.serviceId,
@@ -845,7 +926,9 @@ export default function SchedulePage() {
 
       // Build the API payload
       const payload = {
-        date: inspectionDate.toISOString(),
+        // The server reads the day and time in the inspector's time zone
+        date: format(selectedDate, 'yyyy-MM-dd'),
+        time: selectedTime,
         inspector: formData.inspectorId,
         services: servicesPayload,
         discountCode: formData.discountCode || undefined,
@@ -1214,6 +1297,7 @@ export default function SchedulePage() {
                           form.setValue('inspectorId', value);
                           form.setValue('date', undefined);
                           form.setValue('time', undefined);
+                          setSelectedSlotStart(null);
                         }}
                       >
                         <SelectTrigger className="w-full max-w-xs">
@@ -1246,6 +1330,12 @@ export default function SchedulePage() {
                     <div className="text-base font-semibold text-foreground">{getDateRangeLabel()}</div>
                     <div className="w-[120px]"></div>
                   </div>
+                  <p className="text-xs text-muted-foreground mb-3">
+                    Times are shown in {getTimeZoneLabel(timeZone)} ({getTimeZoneAbbreviation(timeZone)})
+                    {visitorTimeZone !== timeZone && getTimeZoneOffset(new Date(), visitorTimeZone) !== getTimeZoneOffset(new Date(), timeZone)
+                      ? `, with your local time (${getTimeZoneAbbreviation(visitorTimeZone)}) underneath`
+                      : ''}
+                  </p>
 
                   {/* Calendar Grid */}
                   <div className="space-y-0 border border-border rounded-lg overflow-hidden">
@@ -1261,11 +1351,11 @@ export default function SchedulePage() {
                     {/* Calendar Dates */}
                     <div className="grid grid-cols-7">
                       {getTwoWeekDates.map((date, index) => {
-                        const availableTimes = getAvailableTimesForDateCell(date);
+                        const availableSlots = getAvailableSlotsForDateCell(date);
                         const isPast = isPastDate(date);
                         const dateSelected = isDateSelected(date);
                         const dayNumber = date.getDate();
-                        const isToday = format(date, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd');
+                        const isToday = format(date, 'yyyy-MM-dd') === toDateKey(new Date(), timeZone);
 
                         return (
                           <div
@@ -1285,24 +1375,28 @@ export default function SchedulePage() {
                             <div className="flex-1 px-3 pb-3 overflow-y-auto">
                               {isPast ? (
                                 <p className="text-xs text-muted-foreground/50 text-center py-2">Past</p>
-                              ) : availableTimes.length === 0 ? (
+                              ) : availableSlots.length === 0 ? (
                                 <p className="text-xs text-muted-foreground/50 text-center py-2">Not available</p>
                               ) : (
                                 <div className="space-y-1.5">
-                                  {availableTimes.map((time) => {
-                                    const timeSelected = isTimeSelected(date, time);
+                                  {availableSlots.map((slot) => {
+                                    const timeSelected = isTimeSelected(date, slot.time);
+                                    const visitorTime = getVisitorTimeLabel(slot.start);
                                     return (
                                       <button
-                                        key={time}
+                                        key={slot.time}
                                         type="button"
-                                        onClick={() => handleTimeSlotClick(date, time)}
+                                        onClick={() => handleTimeSlotClick(date, slot)}
                                         className={`w-full text-center text-xs py-2 px-2 rounded border transition-all ${
                                           timeSelected
                                             ? 'bg-primary text-primary-foreground border-primary font-medium shadow-sm'
                                             : 'text-foreground border-border hover:bg-accent hover:text-accent-foreground hover:border-accent-foreground'
                                         }`}
                                       >
-                                        {formatTimeLabel(time)}
+                                        {formatSlotTime(slot.start, timeZone)}
+                                        {visitorTime && (
+                                          <span className="block text-[10px] opacity-70">{visitorTime} your time</span>
+                                        )}
                                       </button>
                                     );
                                   })}
@@ -1926,9 +2020,15 @@ export default function SchedulePage() {
                   ) : (
                     <p className="text-sm text-muted-foreground">Inspector: Not selected</p>
                   )}
-                  {form.watch('date') && form.watch('time') ? (
+                  {form.watch('date') && form.watch('time') && selectedSlotStart ? (
                     <p className="text-sm">
-                      {format(form.watch('date')!, 'PPP')} at {formatTimeLabel(form.watch('time')!)}
+                      {format(form.watch('date')!, 'PPP')} at {formatSlotTime(selectedSlotStart, timeZone)}{' '}
+                      {getTimeZoneAbbreviation(timeZone, selectedSlotStart)}
+                      {getVisitorTimeLabel(selectedSlotStart) && (
+                        <span className="text-muted-foreground">
+                          {' '}({getVisitorTimeLabel(selectedSlotStart)} {getTimeZoneAbbreviation(visitorTimeZone, selectedSlotStart)} your time)
+                        </span>
+                      )}
                     </p>
                   ) : (
                     <p className="text-sm text-muted-foreground">Date/Time: Not selected</p>
@@ -1944,22 +2044,35 @@ export default function SchedulePage() {
                     <div className="space-y-3">
                       {selectedServices.map((selectedService, index) => {
                         const service = selectedService.service;
+                        const quotedService = quote?.services.find(line => line.serviceId === selectedService.serviceId);
                         return (
                           <div key={index}>
                             <div className={hidePricing ? "text-sm" : "flex justify-between text-sm"}>
                               <span>{service.name}</span>
-                              {!hidePricing && <span>${service.baseCost || 0}</span>}
+                              {!hidePricing && <span>${quotedService ? quotedService.fee.toFixed(2) : service.baseCost || 0}</span>}
                             </div>
-                            {selectedService.addOns.length > 0 && (
+                            {!hidePricing && quotedService && quotedService.modifiers.length > 0 && (
                               <div className="ml-4 mt-1 space-y-1">
-                                {selectedService.addOns.map((addOn, addOnIndex) => (
-                                  <div key={addOnIndex} className={hidePricing ? "text-xs text-muted-foreground" : "flex justify-between text-xs text-muted-foreground"}>
-                                    <span>+ {addOn.name}</span>
-                                    {!hidePricing && <span>${addOn.addFee || 0}</span>}
+                                {quotedService.modifiers.map((modifier, modifierIndex) => (
+                                  <div key={modifierIndex} className="text-xs text-muted-foreground">
+                                    incl. {modifier.label} adjustment (${modifier.fee.toFixed(2)})
                                   </div>
                                 ))}
                               </div>
                             )}
+                            {selectedService.addOns.length > 0 && (
+                              <div className="ml-4 mt-1 space-y-1">
+                                {selectedService.addOns.map((addOn, addOnIndex) => {
+                                  const quotedAddOn = quotedService?.addOns.find(line => line.name === addOn.name);
+                                  return (
+                                    <div key={addOnIndex} className={hidePricing ? "text-xs text-muted-foreground" : "flex justify-between text-xs text-muted-foreground"}>
+                                      <span>+ {addOn.name}</span>
+                                      {!hidePricing && <span>${quotedAddOn ? quotedAddOn.fee.toFixed(2) : addOn.addFee || 0}</span>}
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            )}
                           </div>
                         );
                       })}
@@ -1975,6 +2088,12 @@ export default function SchedulePage() {
                               <span>-${calculateTotal().discountAmount.toFixed(2)}</span>
                             </div>
                           )}
+                          {quote?.taxes.map((tax, taxIndex) => (
+                            <div key={taxIndex} className="flex justify-between text-sm mt-1">
+                              <span>{tax.name} ({tax.percent}%)</span>
+                              <span>${tax.amount.toFixed(2)}</span>
+                            </div>
+                          ))}
                           <div className="flex justify-between font-semibold mt-2">
                             <span>Total</span>
                             <span>${calculateTotal().total.toFixed(2)}</span>
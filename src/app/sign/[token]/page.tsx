@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { format } from "date-fns";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Toaster } from "@/components/ui/sonner";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { SigningSession } from "@/lib/agreement-signatures";
+import { SignaturePad } from "./_components/SignaturePad";
+
+import "react-quill-new/dist/quill.snow.css";
+
+export default function SignAgreementsPage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  const [session, setSession] = useState<SigningSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [signerName, setSignerName] = useState("");
+  const [accepted, setAccepted] = useState(false);
+  const [signatureMode, setSignatureMode] = useState<"drawn" | "typed">("drawn");
+  const [drawnSignature, setDrawnSignature] = useState<string | null>(null);
+  const [typedSignature, setTypedSignature] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/public/agreements/${token}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to load agreements");
+        }
+        setSession(result);
+        setSignerName(result.clientName || "");
+      } catch (err: any) {
+        console.error("Error loading agreements:", err);
+        setError(err.message || "Failed to load agreements");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      fetchSession();
+    }
+  }, [token]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!session) return;
+
+    try {
+      setSubmitting(true);
+      const body =
+        session.signatureType === "checkbox"
+          ? { signerName, accepted }
+          : {
+              signerName,
+              signatureType: signatureMode,
+              signatureData: signatureMode === "drawn" ? drawnSignature : typedSignature,
+            };
+
+      const response = await fetch(`/api/public/agreements/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to sign agreements");
+      }
+      setSession(result.session);
+      toast.success("Thank you, your agreement has been signed");
+    } catch (err: any) {
+      console.error("Error signing agreements:", err);
+      toast.error(err.message || "Failed to sign agreements");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center gap-2 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        Loading agreements...
+      </div>
+    );
+  }
+
+  if (error || !session) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="w-full max-w-md border-red-200 bg-red-50">
+          <CardContent className="flex items-start gap-3 p-4">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <p className="text-sm text-muted-foreground">{error || "This signing link is not valid"}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const canSubmit =
+    signerName.trim() &&
+    (session.signatureType === "checkbox"
+      ? accepted
+      : signatureMode === "drawn"
+        ? Boolean(drawnSignature)
+        : Boolean(typedSignature.trim()));
+
+  return (
+    <div className="min-h-screen bg-muted/30 py-8">
+      <div className="mx-auto w-full max-w-3xl space-y-6 px-4">
+        <div>
+          <h1 className="text-3xl font-bold">{session.companyName}</h1>
+          <p className="text-muted-foreground">
+            {[session.address, session.inspectionDate].filter(Boolean).join(" · ")}
+          </p>
+        </div>
+
+        {session.complete ? (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="flex items-start gap-3 p-4">
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+              <p className="text-sm">All agreements have been signed. A copy of each is shown below for your records.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <p className="text-sm">{session.instructions}</p>
+        )}
+
+        {session.documents.map((agreement) => (
+          <Card key={agreement._id}>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1">
+                <CardTitle>{agreement.name}</CardTitle>
+                {agreement.status === "signed" && agreement.signedAt && (
+                  <CardDescription>
+                    Signed by {agreement.signerName} on {format(new Date(agreement.signedAt), "MMMM d, yyyy 'at' h:mm a")}
+                  </CardDescription>
+                )}
+              </div>
+              <Badge variant={agreement.status === "signed" ? "default" : "secondary"}>
+                {agreement.status === "signed" ? "Signed" : "Awaiting signature"}
+              </Badge>
+            </CardHeader>
+            <CardContent>
+              <div
+                className="ql-editor max-h-[28rem] overflow-y-auto rounded-md border bg-white p-4 text-sm"
+                dangerouslySetInnerHTML={{ __html: agreement.html }}
+              />
+            </CardContent>
+          </Card>
+        ))}
+
+        {!session.complete && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Sign</CardTitle>
+              <CardDescription>Your name, the time and your IP address are recorded with your signature.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="signer-name">Full name</Label>
+                  <Input
+                    id="signer-name"
+                    value={signerName}
+                    onChange={(event) => setSignerName(event.target.value)}
+                    disabled={submitting}
+                  />
+                </div>
+
+                {session.signatureType === "checkbox" ? (
+                  <div className="flex items-start gap-2">
+                    <Checkbox
+                      id="accept-agreements"
+                      checked={accepted}
+                      onCheckedChange={(checked) => setAccepted(checked === true)}
+                      disabled={submitting}
+                    />
+                    <Label htmlFor="accept-agreements" className="text-sm font-normal leading-snug">
+                      I have read and agree to the {session.documents.length === 1 ? "agreement" : "agreements"} above
+                    </Label>
+                  </div>
+                ) : (
+                  <Tabs value={signatureMode} onValueChange={(value) => setSignatureMode(value as "drawn" | "typed")}>
+                    <TabsList>
+                      <TabsTrigger value="drawn">Draw</TabsTrigger>
+                      <TabsTrigger value="typed">Type</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="drawn">
+                      <SignaturePad onChange={setDrawnSignature} disabled={submitting} />
+                    </TabsContent>
+                    <TabsContent value="typed" className="space-y-2">
+                      <Input
+                        value={typedSignature}
+                        onChange={(event) => setTypedSignature(event.target.value)}
+                        placeholder="Type your signature"
+                        disabled={submitting}
+                      />
+                      {typedSignature.trim() && (
+                        <p className="border-b pb-1 font-serif text-2xl italic">{typedSignature}</p>
+                      )}
+                    </TabsContent>
+                  </Tabs>
+                )}
+
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={!canSubmit || submitting}>
+                    {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {submitting ? "Signing..." : "Sign Agreements"}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+      <Toaster />
+    </div>
+  );
+}
@@ -24,3 +24,30 @@ export const SCHEDULE_START_TIME = "06:00";
 export const SCHEDULE_END_TIME = "23:30";
 export const SCHEDULE_INTERVAL_MINUTES = 30;
 
+
+// Used for companies that have not picked a time zone yet
+export const DEFAULT_TIME_ZONE = "America/New_York";
+
+export const COMMON_TIME_ZONES: Array<{ value: string; label: string }> = [
+  { value: "America/New_York", label: "Eastern Time" },
+  { value: "America/Chicago", label: "Central Time" },
+  { value: "America/Denver", label: "Mountain Time" },
+  { value: "America/Phoenix", label: "Mountain Time (Arizona)" },
+  { value: "America/Los_Angeles", label: "Pacific Time" },
+  { value: "America/Anchorage", label: "Alaska Time" },
+  { value: "Pacific/Honolulu", label: "Hawaii Time" },
+  { value: "America/Puerto_Rico", label: "Atlantic Time (Puerto Rico)" },
+  { value: "America/Halifax", label: "Atlantic Time (Canada)" },
+  { value: "America/St_Johns", label: "Newfoundland Time" },
+  { value: "Europe/London", label: "United Kingdom" },
+  { value: "Australia/Sydney", label: "Australia Eastern Time" },
+  { value: "UTC", label: "UTC" },
+];
+
+// Length assumed for a booking whose services don't carry a duration
+export const DEFAULT_BOOKING_DURATION_MINUTES = 120;
+
+// How long an unsubmitted New Inspection form keeps its time blocked
+export const BOOKING_HOLD_MINUTES = 10;
+
+export const MAX_TRAVEL_BUFFER_MINUTES = 240;
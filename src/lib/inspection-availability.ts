@@ -1,19 +1,43 @@
 import { DAY_KEYS, type DayKey } from "@/src/constants/availability";
 import { TimeBlock, type DateSpecificAvailability } from "@/src/models/Availability";
 import { timeToMinutes } from "@/src/lib/availability-utils";
+import { getDayKeyFromDateKey, isDateKey, resolveTimeZone, zonedTimeToUtc } from "@/src/lib/time-zones";
 
 export interface InspectorAvailability {
   days: Record<DayKey, { openSchedule: TimeBlock[]; timeSlots: string[] }>;
   dateSpecific: DateSpecificAvailability[];
+  // Zone the inspector's hours are kept in when it differs from the company's
+  timeZone?: string | null;
+  // Time already taken by bookings, events and holds, travel buffers included
+  busy?: BusyInterval[];
 }
 
 /**
- * Convert JavaScript Date to DayKey
- * JavaScript Date.getDay() returns 0 for Sunday, 1 for Monday, etc.
+ * A stretch of time the inspector is already committed to. Dates arrive as ISO strings over JSON.
+ */
+export interface BusyInterval {
+  start: Date | string;
+  end: Date | string;
+}
+
+/**
+ * A bookable time on a calendar day and the instant it happens in the schedule's time zone
+ */
+export interface AvailableSlot {
+  time: string;
+  start: Date;
+}
+
+/**
+ * Convert a date to DayKey.
+ * A "YYYY-MM-DD" string is a calendar day as-is; a Date uses its calendar day in the local zone.
  * DAY_KEYS[0] is "sunday", DAY_KEYS[1] is "monday", etc.
  */
-export function getDayKeyFromDate(date: Date): DayKey {
-  const dayIndex = date.getDay();
+export function getDayKeyFromDate(date: Date | string): DayKey {
+  if (isDateKey(date)) {
+    return getDayKeyFromDateKey(date);
+  }
+  const dayIndex = (date as Date).getDay();
   return DAY_KEYS[dayIndex];
 }
 
@@ -96,7 +120,7 @@ export function getAvailableTimesForDay(
  * It overrides the weekly schedule - if a time falls within a date-specific block, the inspector is not available.
  */
 export function checkInspectorAvailability(
-  date: Date,
+  date: Date | string,
   time: string,
   viewMode: "openSchedule" | "timeSlots",
   availability: InspectorAvailability
@@ -173,9 +197,13 @@ export function checkInspectorAvailability(
 }
 
 /**
- * Format date to ISO string (YYYY-MM-DD)
+ * Format date to ISO string (YYYY-MM-DD). Calendar day strings pass through unchanged.
  */
-export function formatDateToISO(date: Date): string {
+export function formatDateToISO(date: Date | string): string {
+  if (isDateKey(date)) {
+    return date;
+  }
+  date = date as Date;
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, "0");
   const day = String(date.getDate()).padStart(2, "0");
@@ -188,13 +216,13 @@ export function formatDateToISO(date: Date): string {
  * IMPORTANT: Date-specific availability entries indicate when the inspector is NOT available.
  * They block out times from the weekly schedule.
  * 
- * @param date - The date to check availability for
+ * @param date - The date to check availability for, as a Date or a "YYYY-MM-DD" calendar day
  * @param viewMode - Either "timeSlots" or "openSchedule"
  * @param availability - The inspector's availability data
  * @returns Array of available time strings (HH:MM format), sorted and deduplicated
  */
 export function getAvailableTimesForDate(
-  date: Date,
+  date: Date | string,
   viewMode: "openSchedule" | "timeSlots",
   availability: InspectorAvailability
 ): string[] {
@@ -270,13 +298,13 @@ export function getAvailableTimesForDate(
  * IMPORTANT: Date-specific entries block times. If they block all times from the weekly schedule,
  * the date is not available.
  * 
- * @param date - The date to check
+ * @param date - The date to check, as a Date or a "YYYY-MM-DD" calendar day
  * @param viewMode - Either "timeSlots" or "openSchedule"
  * @param availability - The inspector's availability data
  * @returns true if the date has any available times, false otherwise
  */
 export function isDateAvailable(
-  date: Date,
+  date: Date | string,
   viewMode: "openSchedule" | "timeSlots",
   availability: InspectorAvailability
 ): boolean {
@@ -287,3 +315,49 @@ export function isDateAvailable(
   return availableTimes.length > 0;
 }
 
+/**
+ * Whether a booking starting at `start` and lasting `durationMinutes` runs into any busy interval.
+ * A booking of unknown length (0 minutes) only collides when it starts inside one.
+ */
+export function overlapsBusyInterval(start: Date, durationMinutes: number, busy: BusyInterval[] = []): boolean {
+  const startMs = start.getTime();
+  const endMs = startMs + Math.max(durationMinutes, 0) * 60000;
+
+  return busy.some((interval) => {
+    const busyStart = new Date(interval.start).getTime();
+    const busyEnd = new Date(interval.end).getTime();
+    return startMs < busyEnd && (endMs > busyStart || startMs >= busyStart);
+  });
+}
+
+/**
+ * Available times on a calendar day together with the instant each one starts, worked out in the
+ * inspector's time zone (or the company's when the inspector has none).
+ *
+ * Times that do not exist on that day because clocks spring forward are left out, so every slot
+ * maps to exactly one instant. Slots that would run into the inspector's busy intervals are left
+ * out as well.
+ *
+ * @param dateKey - The calendar day in "YYYY-MM-DD" form
+ * @param viewMode - Either "timeSlots" or "openSchedule"
+ * @param availability - The inspector's availability data
+ * @param companyTimeZone - The company's time zone
+ * @param durationMinutes - Length of the booking being placed, when known
+ */
+export function getAvailableSlotsForDate(
+  dateKey: string,
+  viewMode: "openSchedule" | "timeSlots",
+  availability: InspectorAvailability,
+  companyTimeZone?: string | null,
+  durationMinutes = 0
+): AvailableSlot[] {
+  const timeZone = resolveTimeZone(availability.timeZone, companyTimeZone);
+
+  return getAvailableTimesForDate(dateKey, viewMode, availability).reduce<AvailableSlot[]>((slots, time) => {
+    const start = zonedTimeToUtc(dateKey, time, timeZone);
+    if (start && !overlapsBusyInterval(start, durationMinutes, availability.busy)) {
+      slots.push({ time, start });
+    }
+    return slots;
+  }, []);
+}
@@ -0,0 +1,183 @@
+import { COMMON_TIME_ZONES, DAY_KEYS, DEFAULT_TIME_ZONE, type DayKey } from "@/src/constants/availability";
+
+/**
+ * Calendar and wall-clock helpers for a named IANA time zone. Schedules are stored as wall-clock
+ * "HH:MM" strings on "YYYY-MM-DD" dates; these convert them to and from instants regardless of the
+ * zone the server or browser runs in.
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string) {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The first valid zone in the list, e.g. an inspector override before the company zone
+ */
+export function resolveTimeZone(...candidates: Array<string | null | undefined>): string {
+  return candidates.find(isValidTimeZone) || DEFAULT_TIME_ZONE;
+}
+
+/**
+ * The zone the browser or server process runs in
+ */
+export function getLocalTimeZone(): string {
+  return resolveTimeZone(new Intl.DateTimeFormat().resolvedOptions().timeZone);
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  // en-US with hour12: false formats as "MM/DD/YYYY, HH:MM"; some engines print midnight as 24
+  const match = getPartsFormatter(timeZone)
+    .format(date)
+    .match(/(\d+)\/(\d+)\/(\d+),?\s+(\d+):(\d+)/);
+
+  if (!match) {
+    throw new Error(`Unable to read the time in ${timeZone}`);
+  }
+
+  const [, month, day, year, hour, minute] = match.map(Number);
+  return { year, month, day, hour: hour % 24, minute };
+}
+
+/**
+ * Minutes the zone is ahead of UTC at the given instant (negative west of Greenwich)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const instant = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * The calendar day (YYYY-MM-DD) of an instant in the zone
+ */
+export function toDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * The wall-clock time (HH:MM) of an instant in the zone
+ */
+export function toTimeKey(date: Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+function parseDateKey(dateKey: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateKey);
+  if (!match) {
+    throw new Error(`Invalid date: ${dateKey}`);
+  }
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+export function isDateKey(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const { year, month, day } = parseDateKey(dateKey);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/**
+ * Weekday of a calendar day; the same everywhere, so no zone is needed
+ */
+export function getDayKeyFromDateKey(dateKey: string): DayKey {
+  const { year, month, day } = parseDateKey(dateKey);
+  return DAY_KEYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+/**
+ * The instant a wall-clock time on a calendar day happens in the zone. Returns null for times
+ * skipped by a daylight saving jump; a time repeated when clocks fall back resolves to its first
+ * occurrence.
+ */
+export function zonedTimeToUtc(dateKey: string, time: string, timeZone: string): Date | null {
+  const { year, month, day } = parseDateKey(dateKey);
+  const [hours, minutes] = time.split(":").map(Number);
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) {
+    return null;
+  }
+
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  // A day either side of the time sits outside any DST transition, so each offset is one candidate
+  const candidates = [
+    getTimeZoneOffset(new Date(wallClock - dayMs), timeZone),
+    getTimeZoneOffset(new Date(wallClock + dayMs), timeZone),
+  ]
+    .map((offset) => new Date(wallClock - offset * 60000))
+    .filter((candidate) => {
+      const parts = getZonedParts(candidate, timeZone);
+      return parts.year === year && parts.month === month && parts.day === day && parts.hour === hours && parts.minute === minutes;
+    })
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  return candidates[0] ?? null;
+}
+
+/**
+ * The instant a calendar day starts in the zone
+ */
+export function startOfDayInTimeZone(dateKey: string, timeZone: string): Date {
+  // Midnight can be skipped by DST in a few zones; the first valid minute of the day follows it
+  return zonedTimeToUtc(dateKey, "00:00", timeZone) ?? zonedTimeToUtc(dateKey, "01:00", timeZone)!;
+}
+
+export function formatInTimeZone(date: Date, timeZone: string, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat("en-US", { ...options, timeZone }).format(date);
+}
+
+/**
+ * Short zone name such as "EST" or "GMT-7" at the given instant
+ */
+export function getTimeZoneAbbreviation(timeZone: string, date: Date = new Date()): string {
+  const formatted = formatInTimeZone(date, timeZone, { hour: "numeric", timeZoneName: "short" });
+  return formatted.split(" ").pop() || timeZone;
+}
+
+/**
+ * Friendly name for a zone, falling back to the IANA id
+ */
+export function getTimeZoneLabel(timeZone: string): string {
+  return COMMON_TIME_ZONES.find((zone) => zone.value === timeZone)?.label || timeZone.replace(/_/g, " ");
+}
@@ -0,0 +1,106 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type AgreementSignatureStatus = 'pending' | 'signed';
+export type AgreementSignatureMethod = 'checkbox' | 'drawn' | 'typed';
+
+export interface IAgreementSignature extends Document {
+  company: mongoose.Types.ObjectId;
+  inspection: mongoose.Types.ObjectId;
+  agreement: mongoose.Types.ObjectId;
+  client: mongoose.Types.ObjectId;
+  // Shared by all of one client's agreements on the inspection; the signing link carries it
+  token: string;
+  status: AgreementSignatureStatus;
+  agreementName: string;
+  signerName?: string;
+  signatureType?: AgreementSignatureMethod;
+  // Drawn signatures are a PNG data URL, typed signatures the typed text
+  signatureData?: string;
+  signedAt?: Date;
+  ipAddress?: string;
+  userAgent?: string;
+  // The agreement exactly as the client saw it, with the inspection's merge fields filled in
+  renderedHtml?: string;
+  contentHash?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AgreementSignatureSchema = new Schema<IAgreementSignature>(
+  {
+    company: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: [true, 'Company is required'],
+    },
+    inspection: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Inspection',
+      required: [true, 'Inspection is required'],
+    },
+    agreement: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Agreement',
+      required: [true, 'Agreement is required'],
+    },
+    client: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Client',
+      required: [true, 'Client is required'],
+    },
+    token: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'signed'],
+      default: 'pending',
+    },
+    agreementName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    signerName: {
+      type: String,
+      trim: true,
+    },
+    signatureType: {
+      type: String,
+      enum: ['checkbox', 'drawn', 'typed'],
+    },
+    signatureData: {
+      type: String,
+    },
+    signedAt: {
+      type: Date,
+    },
+    ipAddress: {
+      type: String,
+      trim: true,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+    },
+    renderedHtml: {
+      type: String,
+    },
+    contentHash: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AgreementSignatureSchema.index({ inspection: 1, client: 1, agreement: 1 }, { unique: true });
+AgreementSignatureSchema.index({ token: 1 });
+
+const AgreementSignature: Model<IAgreementSignature> =
+  mongoose.models.AgreementSignature ||
+  mongoose.model<IAgreementSignature>('AgreementSignature', AgreementSignatureSchema);
+
+export default AgreementSignature;
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * A set of photos submitted together for AI defect analysis. Progress lives on the items
+ * (AnalysisBatchItem); the batch only holds who asked and how many may run at once.
+ */
+export interface IAnalysisBatch extends Document {
+  inspectionId: mongoose.Types.ObjectId;
+  companyId: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId;
+  concurrency: number;
+  totalItems: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AnalysisBatchSchema = new Schema<IAnalysisBatch>(
+  {
+    inspectionId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Inspection',
+      required: [true, 'Inspection ID is required'],
+    },
+    companyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: [true, 'Company ID is required'],
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+    concurrency: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    totalItems: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AnalysisBatchSchema.index({ inspectionId: 1, createdAt: -1 });
+
+const AnalysisBatch: Model<IAnalysisBatch> =
+  mongoose.models.AnalysisBatch || mongoose.model<IAnalysisBatch>('AnalysisBatch', AnalysisBatchSchema);
+
+export default AnalysisBatch;
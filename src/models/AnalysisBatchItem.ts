@@ -0,0 +1,115 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { ANALYSIS_ITEM_STATUSES, AnalysisItemStatus } from '@/constants/analysisBatches';
+import type { AnnotationDocument } from '@/lib/annotations';
+
+/**
+ * One photo in an analysis batch. Items move queued → running → done | failed; failed items
+ * can be queued again. A done item points at the defect created from it.
+ */
+export interface IAnalysisBatchItem extends Document {
+  batchId: mongoose.Types.ObjectId;
+  inspectionId: mongoose.Types.ObjectId;
+  // Position in the submitted list; items are analyzed in this order
+  order: number;
+  imageUrl: string;
+  originalImage?: string;
+  annotations?: AnnotationDocument;
+  description?: string;
+  location?: string;
+  section?: string;
+  subSection?: string;
+  selectedColor?: string;
+  status: AnalysisItemStatus;
+  attempts: number;
+  error?: string;
+  defectId?: mongoose.Types.ObjectId;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AnalysisBatchItemSchema = new Schema<IAnalysisBatchItem>(
+  {
+    batchId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'AnalysisBatch',
+      required: [true, 'Batch ID is required'],
+    },
+    inspectionId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Inspection',
+      required: [true, 'Inspection ID is required'],
+    },
+    order: {
+      type: Number,
+      required: true,
+    },
+    imageUrl: {
+      type: String,
+      required: [true, 'Image URL is required'],
+      trim: true,
+    },
+    originalImage: {
+      type: String,
+      trim: true,
+    },
+    annotations: {
+      type: Schema.Types.Mixed,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    location: {
+      type: String,
+      trim: true,
+    },
+    section: {
+      type: String,
+      trim: true,
+    },
+    subSection: {
+      type: String,
+      trim: true,
+    },
+    selectedColor: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ANALYSIS_ITEM_STATUSES,
+      default: 'queued',
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    error: {
+      type: String,
+      trim: true,
+    },
+    defectId: {
+      type: mongoose.Schema.Types.ObjectId,
+    },
+    startedAt: {
+      type: Date,
+    },
+    finishedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AnalysisBatchItemSchema.index({ batchId: 1, status: 1, order: 1 });
+
+const AnalysisBatchItem: Model<IAnalysisBatchItem> =
+  mongoose.models.AnalysisBatchItem ||
+  mongoose.model<IAnalysisBatchItem>('AnalysisBatchItem', AnalysisBatchItemSchema);
+
+export default AnalysisBatchItem;
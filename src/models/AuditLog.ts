@@ -0,0 +1,134 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, AuditAction, AuditEntityType } from '@/constants/auditLog';
+
+export interface IAuditChange {
+  // Dotted path of the changed field, e.g. "location.city"
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IAuditOrigin {
+  method?: string;
+  path?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * One change to a record, with the record as it was before and after. Entries are only ever added;
+ * updates and deletes are refused.
+ */
+export interface IAuditLog extends Document {
+  company: mongoose.Types.ObjectId;
+  // Missing when the change came from someone who wasn't signed in, e.g. a public booking
+  actor?: mongoose.Types.ObjectId;
+  entityType: AuditEntityType;
+  entityId: mongoose.Types.ObjectId;
+  // The inspection a defect or information block belongs to, so an inspection's history can include them
+  inspection?: mongoose.Types.ObjectId;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: IAuditChange[];
+  origin: IAuditOrigin;
+  // Entry this one restored the record from
+  restoredFrom?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>(
+  {
+    company: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+      immutable: true,
+    },
+    actor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      immutable: true,
+    },
+    entityType: {
+      type: String,
+      enum: AUDIT_ENTITY_TYPES,
+      required: true,
+      immutable: true,
+    },
+    entityId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      immutable: true,
+    },
+    inspection: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Inspection',
+      immutable: true,
+    },
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: true,
+      immutable: true,
+    },
+    before: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+      immutable: true,
+    },
+    after: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+      immutable: true,
+    },
+    changes: {
+      type: [
+        {
+          _id: false,
+          path: { type: String, required: true },
+          before: { type: mongoose.Schema.Types.Mixed },
+          after: { type: mongoose.Schema.Types.Mixed },
+        },
+      ],
+      default: [],
+      immutable: true,
+    },
+    origin: {
+      method: { type: String, immutable: true },
+      path: { type: String, immutable: true },
+      ip: { type: String, immutable: true },
+      userAgent: { type: String, immutable: true },
+    },
+    restoredFrom: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'AuditLog',
+      immutable: true,
+    },
+  },
+  {
+    timestamps: { createdAt: 'createdAt', updatedAt: false },
+    // Snapshots are stored as given, including empty objects
+    minimize: false,
+  }
+);
+
+AuditLogSchema.index({ company: 1, entityType: 1, entityId: 1, createdAt: -1 });
+AuditLogSchema.index({ company: 1, inspection: 1, createdAt: -1 });
+
+const refuseChange = () => {
+  throw new Error('Audit log entries cannot be changed');
+};
+
+AuditLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  refuseChange
+);
+AuditLogSchema.pre('save', function () {
+  if (!this.isNew) refuseChange();
+});
+
+export const AuditLog: Model<IAuditLog> =
+  mongoose.models.AuditLog || mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
+
+export default AuditLog;
@@ -24,6 +24,8 @@ export interface IAvailability extends Document {
   inspector: mongoose.Types.ObjectId;
   days: DayAvailability[];
   dateSpecific: DateSpecificAvailability[];
+  // Overrides the company time zone for this inspector's hours
+  timeZone?: string;
   updatedAt: Date;
   createdAt: Date;
 }
@@ -100,6 +102,10 @@ const AvailabilitySchema = new Schema<IAvailability>(
       type: [DateSpecificAvailabilitySchema],
       default: [],
     },
+    timeZone: {
+      type: String,
+      trim: true,
+    },
   },
   {
     timestamps: {
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * Time blocked by a New Inspection form that hasn't been submitted yet. Only counts against an
+ * inspector's availability when the company turns on "In-Progress bookings block schedule";
+ * MongoDB removes it once it expires.
+ */
+export interface IBookingHold extends Document {
+  company: mongoose.Types.ObjectId;
+  inspector: mongoose.Types.ObjectId;
+  // The user filling in the form; each user holds at most one time
+  createdBy: mongoose.Types.ObjectId;
+  start: Date;
+  end: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BookingHoldSchema = new Schema<IBookingHold>(
+  {
+    company: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    inspector: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+    start: {
+      type: Date,
+      required: true,
+    },
+    end: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+BookingHoldSchema.index({ company: 1, inspector: 1, start: 1 });
+BookingHoldSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const BookingHold: Model<IBookingHold> =
+  mongoose.models.BookingHold || mongoose.model<IBookingHold>('BookingHold', BookingHoldSchema);
+
+export default BookingHold;
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { DEFAULT_TIME_ZONE } from '@/src/constants/availability';
 
 export interface ICompany extends Document {
   name: string;
@@ -22,6 +23,10 @@ export interface ICompany extends Document {
   agreementSignatureType?: 'checkbox' | 'written';
   agreementClientInstructions?: string;
   availabilityViewMode?: 'openSchedule' | 'timeSlots';
+  // IANA zone availability and inspection times are expressed in
+  timeZone: string;
+  // Secret in the URL of the company-wide iCal subscription
+  calendarFeedToken?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -117,6 +122,17 @@ const CompanySchema = new Schema<ICompany>(
       enum: ['openSchedule', 'timeSlots'],
       default: 'openSchedule',
     },
+    timeZone: {
+      type: String,
+      trim: true,
+      default: DEFAULT_TIME_ZONE,
+    },
+    calendarFeedToken: {
+      type: String,
+      select: false,
+      unique: true,
+      sparse: true,
+    },
   },
   {
     timestamps: { createdAt: 'createdAt', updatedAt: 'updatedAt' },
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { EMAIL_EVENTS, EMAIL_RECIPIENTS, EmailEvent, EmailRecipient } from '@/constants/emailTemplates';
+
+// A company's customized version of one automated email; events without one use the defaults
+export interface IEmailTemplate extends Document {
+  company: mongoose.Types.ObjectId;
+  event: EmailEvent;
+  subject: string;
+  body: string;
+  enabled: boolean;
+  recipients: EmailRecipient[];
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailTemplateSchema = new Schema<IEmailTemplate>(
+  {
+    company: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: [true, 'Company is required'],
+    },
+    event: {
+      type: String,
+      enum: EMAIL_EVENTS,
+      required: [true, 'Event is required'],
+    },
+    subject: {
+      type: String,
+      required: [true, 'Subject is required'],
+      trim: true,
+    },
+    body: {
+      type: String,
+      required: [true, 'Body is required'],
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    recipients: {
+      type: [String],
+      enum: EMAIL_RECIPIENTS,
+      default: [],
+    },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+EmailTemplateSchema.index({ company: 1, event: 1 }, { unique: true });
+
+const EmailTemplate: Model<IEmailTemplate> =
+  mongoose.models.EmailTemplate || mongoose.model<IEmailTemplate>('EmailTemplate', EmailTemplateSchema);
+
+export default EmailTemplate;
@@ -7,6 +7,8 @@ export interface IEvent extends Document {
   inspector?: mongoose.Types.ObjectId;
   startDate: Date;
   endDate: Date;
+  // iCalendar SEQUENCE, bumped on every edit
+  sequence: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -40,6 +42,10 @@ const EventSchema = new Schema<IEvent>(
       type: Date,
       required: [true, 'End date is required'],
     },
+    sequence: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: { createdAt: 'createdAt', updatedAt: 'updatedAt' },
@@ -1,11 +1,96 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 
+export interface IInspectionPricingModifier {
+  field: string;
+  label: string;
+  type?: string;
+  fee: number;
+  hours: number;
+}
+
+export interface IInspectionPricingTax {
+  name: string;
+  percent: number;
+  amount: number;
+}
+
+export interface IInspectionPricingAddOn {
+  name: string;
+  baseCost: number;
+  baseDurationHours: number;
+  modifiers: IInspectionPricingModifier[];
+  fee: number;
+  hours: number;
+  discount: number;
+}
+
+export interface IInspectionPricingService {
+  serviceId: string;
+  name: string;
+  baseCost: number;
+  baseDurationHours: number;
+  modifiers: IInspectionPricingModifier[];
+  addOns: IInspectionPricingAddOn[];
+  fee: number;
+  hours: number;
+  discount: number;
+  subtotal: number;
+  taxes: IInspectionPricingTax[];
+  total: number;
+}
+
+export interface IInspectionPricing {
+  services: IInspectionPricingService[];
+  discountCode: {
+    _id: string;
+    code: string;
+    type: string;
+    value: number;
+  } | null;
+  subtotal: number;
+  discountTotal: number;
+  taxes: IInspectionPricingTax[];
+  taxTotal: number;
+  total: number;
+  totalDurationHours: number;
+  calculatedAt: Date;
+}
+
+export interface IInspectionEmailLogEntry {
+  event: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
+  messageId?: string;
+  // Sends triggered by a user rather than by the notification workflows
+  sentBy?: mongoose.Types.ObjectId;
+  sentAt: Date;
+}
+
+export interface IInspectionServiceAssignment {
+  serviceId: mongoose.Types.ObjectId;
+  inspector: mongoose.Types.ObjectId;
+}
+
 export interface IInspection extends Document {
   status: string;
   date: Date;
+  // Zone the inspection was booked in; its date is shown in this zone
+  timeZone?: string;
+  // Bumped whenever the appointment changes so calendar apps replace their copy
+  calendarSequence: number;
+  // Carried by the client's "add to calendar" link
+  calendarToken?: string;
   companyId: mongoose.Types.ObjectId;
   createdBy?: mongoose.Types.ObjectId;
+  // Lead inspector
   inspector?: mongoose.Types.ObjectId;
+  // Everyone working the inspection, lead included
+  inspectors?: mongoose.Types.ObjectId[];
+  // Services done by someone other than the lead, e.g. a sewer scope or radon specialist
+  serviceAssignments?: IInspectionServiceAssignment[];
   companyOwnerRequested?: boolean;
   services?: Array<{
     serviceId: mongoose.Types.ObjectId;
@@ -16,6 +101,8 @@ export interface IInspection extends Document {
     }>;
   }>;
   discountCode?: mongoose.Types.ObjectId;
+  pricing?: IInspectionPricing;
+  inspectionTemplate?: mongoose.Types.ObjectId;
   location?: {
     address?: string;
     unit?: string;
@@ -66,22 +153,98 @@ export interface IInspection extends Document {
     createdBy: mongoose.Types.ObjectId;
     createdAt: Date;
   }>;
+  emailLog?: IInspectionEmailLogEntry[];
   deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const PricingModifierSchema = new Schema<IInspectionPricingModifier>(
+  {
+    field: { type: String, required: true },
+    label: { type: String },
+    type: { type: String },
+    fee: { type: Number, default: 0 },
+    hours: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const PricingTaxSchema = new Schema<IInspectionPricingTax>(
+  {
+    name: { type: String, required: true },
+    percent: { type: Number, default: 0 },
+    amount: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const PricingSchema = new Schema<IInspectionPricing>(
+  {
+    services: [{
+      _id: false,
+      serviceId: { type: String, required: true },
+      name: { type: String },
+      baseCost: { type: Number, default: 0 },
+      baseDurationHours: { type: Number, default: 0 },
+      modifiers: { type: [PricingModifierSchema], default: [] },
+      addOns: [{
+        _id: false,
+        name: { type: String, required: true },
+        baseCost: { type: Number, default: 0 },
+        baseDurationHours: { type: Number, default: 0 },
+        modifiers: { type: [PricingModifierSchema], default: [] },
+        fee: { type: Number, default: 0 },
+        hours: { type: Number, default: 0 },
+        discount: { type: Number, default: 0 },
+      }],
+      fee: { type: Number, default: 0 },
+      hours: { type: Number, default: 0 },
+      discount: { type: Number, default: 0 },
+      subtotal: { type: Number, default: 0 },
+      taxes: { type: [PricingTaxSchema], default: [] },
+      total: { type: Number, default: 0 },
+    }],
+    discountCode: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+    },
+    subtotal: { type: Number, default: 0 },
+    discountTotal: { type: Number, default: 0 },
+    taxes: { type: [PricingTaxSchema], default: [] },
+    taxTotal: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+    totalDurationHours: { type: Number, default: 0 },
+    calculatedAt: { type: Date },
+  },
+  { _id: false }
+);
+
 const InspectionSchema = new Schema<IInspection>(
   {
+    // One of INSPECTION_STATUSES; older inspections may still hold free-form values like "Pending"
     status: {
       type: String,
-      default: 'Pending',
+      default: 'scheduled',
       trim: true,
     },
     date: {
       type: Date,
       default: Date.now,
     },
+    timeZone: {
+      type: String,
+      trim: true,
+    },
+    calendarSequence: {
+      type: Number,
+      default: 0,
+    },
+    calendarToken: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
     companyId: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Company',
@@ -96,6 +259,23 @@ const InspectionSchema = new Schema<IInspection>(
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
     },
+    inspectors: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    serviceAssignments: [{
+      _id: false,
+      serviceId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Service',
+        required: true,
+      },
+      inspector: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+      },
+    }],
     companyOwnerRequested: {
       type: Boolean,
       default: false,
@@ -124,6 +304,13 @@ const InspectionSchema = new Schema<IInspection>(
       type: mongoose.Schema.Types.ObjectId,
       ref: 'DiscountCode',
     },
+    pricing: {
+      type: PricingSchema,
+    },
+    inspectionTemplate: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InspectionTemplate',
+    },
     location: {
       address: {
         type: String,
@@ -292,6 +479,18 @@ const InspectionSchema = new Schema<IInspection>(
         default: Date.now,
       },
     }],
+    emailLog: [{
+      _id: false,
+      event: { type: String, required: true },
+      to: { type: [String], default: [] },
+      cc: { type: [String], default: [] },
+      subject: { type: String },
+      status: { type: String, enum: ['sent', 'failed', 'skipped'], required: true },
+      error: { type: String },
+      messageId: { type: String },
+      sentBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+      sentAt: { type: Date, default: Date.now },
+    }],
     deletedAt: {
       type: Date,
       default: null,
@@ -304,6 +503,7 @@ const InspectionSchema = new Schema<IInspection>(
 
 // Index for efficient queries
 InspectionSchema.index({ companyId: 1, updatedAt: -1 });
+InspectionSchema.index({ companyId: 1, inspectors: 1, date: 1 });
 
 export const Inspection: Model<IInspection> =
   mongoose.models.Inspection || mongoose.model<IInspection>('Inspection', InspectionSchema);
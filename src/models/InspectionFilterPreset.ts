@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * A search on the inspections list saved by a user under a name. The query is kept in the same
+ * URL-parameter form the search API takes, so a preset is applied by appending it to the request.
+ */
+export interface IInspectionFilterPreset extends Document {
+  company: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  name: string;
+  query: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InspectionFilterPresetSchema = new Schema<IInspectionFilterPreset>(
+  {
+    company: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Preset name is required'],
+      trim: true,
+      maxlength: 100,
+    },
+    query: {
+      type: String,
+      default: '',
+      maxlength: 4000,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+InspectionFilterPresetSchema.index({ user: 1, name: 1 }, { unique: true });
+
+const InspectionFilterPreset: Model<IInspectionFilterPreset> =
+  mongoose.models.InspectionFilterPreset ||
+  mongoose.model<IInspectionFilterPreset>('InspectionFilterPreset', InspectionFilterPresetSchema);
+
+export default InspectionFilterPreset;
@@ -1,10 +1,11 @@
 import mongoose, { Schema, Document, Model, Types } from 'mongoose';
 import { ISection } from './Section';
 import { ISectionChecklist } from './SectionChecklist';
+import { AnnotationDocument } from '@/lib/annotations';
 
 export interface IInspectionInformationBlockImage {
   url: string;
-  annotations?: string;
+  annotations?: AnnotationDocument; // Validated by normalizeAnnotationsInput before saving
   checklist_id?: string; // Associate image with specific checklist item
   location?: string; // Location tag for the image (e.g., "Garage", "Left Side of House")
   isThreeSixty?: boolean; // 360° photo flag
@@ -30,7 +31,7 @@ export interface IInspectionInformationBlock extends Document {
 const ImageSchema = new Schema<IInspectionInformationBlockImage>(
   {
     url: { type: String, required: true, trim: true },
-    annotations: { type: String, trim: true },
+    annotations: { type: Schema.Types.Mixed },
     checklist_id: { type: String, trim: true }, // ID of the checklist item this image belongs to
     location: { type: String, trim: true }, // Location tag for the image
     isThreeSixty: { type: Boolean, default: false }, // 360° photo flag
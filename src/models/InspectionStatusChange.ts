@@ -0,0 +1,80 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { INSPECTION_STATUSES, type InspectionStatus } from '@/constants/inspectionStatuses';
+
+/**
+ * One step in an inspection's status history. Entries are only ever added; updates and deletes are refused.
+ */
+export interface IInspectionStatusChange extends Document {
+  inspection: mongoose.Types.ObjectId;
+  company: mongoose.Types.ObjectId;
+  // null for the status the inspection was created in
+  from: InspectionStatus | null;
+  to: InspectionStatus;
+  // Missing for changes made by the system, e.g. online bookings or report publishing
+  changedBy?: mongoose.Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+}
+
+const InspectionStatusChangeSchema = new Schema<IInspectionStatusChange>(
+  {
+    inspection: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Inspection',
+      required: true,
+      immutable: true,
+    },
+    company: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+      immutable: true,
+    },
+    from: {
+      type: String,
+      enum: [...INSPECTION_STATUSES, null],
+      default: null,
+      immutable: true,
+    },
+    to: {
+      type: String,
+      enum: INSPECTION_STATUSES,
+      required: true,
+      immutable: true,
+    },
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      immutable: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+      immutable: true,
+    },
+  },
+  {
+    timestamps: { createdAt: 'createdAt', updatedAt: false },
+  }
+);
+
+InspectionStatusChangeSchema.index({ inspection: 1, createdAt: 1 });
+
+const refuseChange = () => {
+  throw new Error('Inspection status history cannot be changed');
+};
+
+InspectionStatusChangeSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  refuseChange
+);
+InspectionStatusChangeSchema.pre('save', function () {
+  if (!this.isNew) refuseChange();
+});
+
+export const InspectionStatusChange: Model<IInspectionStatusChange> =
+  mongoose.models.InspectionStatusChange ||
+  mongoose.model<IInspectionStatusChange>('InspectionStatusChange', InspectionStatusChangeSchema);
+
+export default InspectionStatusChange;
@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IInspectionTemplate extends Document {
+  name: string;
+  description?: string;
+  // null for the system default template that every company is cloned from
+  company?: mongoose.Types.ObjectId | null;
+  isSystem: boolean;
+  isDefault: boolean;
+  clonedFrom?: mongoose.Types.ObjectId;
+  createdBy?: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InspectionTemplateSchema = new Schema<IInspectionTemplate>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Template name is required'],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    company: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      default: null,
+    },
+    isSystem: {
+      type: Boolean,
+      default: false,
+    },
+    isDefault: {
+      type: Boolean,
+      default: false,
+    },
+    clonedFrom: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InspectionTemplate',
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+InspectionTemplateSchema.index({ company: 1, name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
+InspectionTemplateSchema.index({ company: 1, isDefault: 1 });
+
+const InspectionTemplate: Model<IInspectionTemplate> =
+  mongoose.models.InspectionTemplate || mongoose.model<IInspectionTemplate>('InspectionTemplate', InspectionTemplateSchema);
+
+export default InspectionTemplate;
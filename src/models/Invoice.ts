@@ -0,0 +1,154 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { INVOICE_STATUSES, InvoiceStatus, PAYMENT_METHODS, PaymentMethod } from '@/constants/payments';
+
+export interface IInvoiceLineItem {
+  kind: 'service' | 'add_on' | 'discount' | 'tax';
+  description: string;
+  // Discounts are negative
+  amount: number;
+  serviceId?: string;
+}
+
+export interface IInvoicePayment {
+  _id: mongoose.Types.ObjectId;
+  type: 'payment' | 'refund';
+  method: PaymentMethod;
+  // Always positive; refunds are subtracted
+  amount: number;
+  // Check number, card last four, etc.
+  reference?: string;
+  notes?: string;
+  provider?: string;
+  providerPaymentId?: string;
+  // The payment a refund returns money from
+  refundOf?: mongoose.Types.ObjectId;
+  recordedBy?: mongoose.Types.ObjectId;
+  receivedAt: Date;
+}
+
+export interface IInvoiceCheckoutSession {
+  provider: string;
+  sessionId: string;
+  amount: number;
+  createdAt: Date;
+}
+
+export interface IInvoice extends Document {
+  company: mongoose.Types.ObjectId;
+  inspection: mongoose.Types.ObjectId;
+  number: string;
+  lineItems: IInvoiceLineItem[];
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  total: number;
+  amountPaid: number;
+  amountRefunded: number;
+  balance: number;
+  status: InvoiceStatus;
+  payments: IInvoicePayment[];
+  checkoutSessions: IInvoiceCheckoutSession[];
+  // Carried by the client's payment link
+  paymentToken: string;
+  paidAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InvoiceLineItemSchema = new Schema<IInvoiceLineItem>(
+  {
+    kind: { type: String, enum: ['service', 'add_on', 'discount', 'tax'], required: true },
+    description: { type: String, required: true },
+    amount: { type: Number, default: 0 },
+    serviceId: { type: String },
+  },
+  { _id: false }
+);
+
+const InvoicePaymentSchema = new Schema<IInvoicePayment>(
+  {
+    type: { type: String, enum: ['payment', 'refund'], required: true },
+    method: { type: String, enum: PAYMENT_METHODS, required: true },
+    amount: { type: Number, required: true, min: [0.01, 'Amount must be greater than zero'] },
+    reference: { type: String, trim: true },
+    notes: { type: String, trim: true },
+    provider: { type: String, trim: true },
+    providerPaymentId: { type: String, trim: true },
+    refundOf: { type: mongoose.Schema.Types.ObjectId },
+    recordedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    receivedAt: { type: Date, default: Date.now },
+  }
+);
+
+const InvoiceCheckoutSessionSchema = new Schema<IInvoiceCheckoutSession>(
+  {
+    provider: { type: String, required: true },
+    sessionId: { type: String, required: true },
+    amount: { type: Number, required: true },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const InvoiceSchema = new Schema<IInvoice>(
+  {
+    company: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: [true, 'Company is required'],
+    },
+    inspection: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Inspection',
+      required: [true, 'Inspection is required'],
+    },
+    number: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    lineItems: {
+      type: [InvoiceLineItemSchema],
+      default: [],
+    },
+    subtotal: { type: Number, default: 0 },
+    discountTotal: { type: Number, default: 0 },
+    taxTotal: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+    amountPaid: { type: Number, default: 0 },
+    amountRefunded: { type: Number, default: 0 },
+    balance: { type: Number, default: 0 },
+    status: {
+      type: String,
+      enum: INVOICE_STATUSES,
+      default: 'unpaid',
+    },
+    payments: {
+      type: [InvoicePaymentSchema],
+      default: [],
+    },
+    checkoutSessions: {
+      type: [InvoiceCheckoutSessionSchema],
+      default: [],
+    },
+    paymentToken: {
+      type: String,
+      required: true,
+    },
+    paidAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+InvoiceSchema.index({ inspection: 1 }, { unique: true });
+InvoiceSchema.index({ paymentToken: 1 }, { unique: true });
+InvoiceSchema.index({ company: 1, status: 1 });
+
+const Invoice: Model<IInvoice> =
+  mongoose.models.Invoice || mongoose.model<IInvoice>('Invoice', InvoiceSchema);
+
+export default Invoice;
@@ -0,0 +1,80 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { TASK_NOTIFICATION_EVENTS, TaskNotificationEvent } from '@/constants/notifications';
+
+/**
+ * In-app notification for one user. MongoDB removes it 90 days after it was created.
+ */
+export interface INotification extends Document {
+  user: mongoose.Types.ObjectId;
+  company: mongoose.Types.ObjectId;
+  type: TaskNotificationEvent;
+  title: string;
+  message: string;
+  // App path the notification opens, e.g. /inspections/<id>/edit
+  link?: string;
+  task?: mongoose.Types.ObjectId;
+  inspection?: mongoose.Types.ObjectId;
+  readAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NOTIFICATION_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+const NotificationSchema = new Schema<INotification>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    company: {
+      type: Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: TASK_NOTIFICATION_EVENTS,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    message: {
+      type: String,
+      default: '',
+      trim: true,
+    },
+    link: {
+      type: String,
+      trim: true,
+    },
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+    },
+    inspection: {
+      type: Schema.Types.ObjectId,
+      ref: 'Inspection',
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+NotificationSchema.index({ user: 1, createdAt: -1 });
+NotificationSchema.index({ user: 1, readAt: 1 });
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_RETENTION_SECONDS });
+
+export const Notification: Model<INotification> =
+  mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema);
+
+export default Notification;
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { SMS_TEMPLATE_MAX_LENGTH } from '@/constants/smsTemplates';
 
 export interface IOnlineScheduler extends Document {
   company: mongoose.Types.ObjectId;
@@ -18,6 +19,8 @@ export interface IOnlineScheduler extends Document {
   smsForCompleteBooking: boolean;
   smsForInProgressBooking: boolean;
   smsNotificationNumber?: string;
+  // Message template for completed bookings; empty uses the default template
+  smsCompleteBookingTemplate?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -95,6 +98,11 @@ const OnlineSchedulerSchema = new Schema<IOnlineScheduler>(
       type: String,
       trim: true,
     },
+    smsCompleteBookingTemplate: {
+      type: String,
+      trim: true,
+      maxlength: [SMS_TEMPLATE_MAX_LENGTH, `SMS template must be at most ${SMS_TEMPLATE_MAX_LENGTH} characters`],
+    },
   },
   {
     timestamps: { createdAt: 'createdAt', updatedAt: 'updatedAt' },
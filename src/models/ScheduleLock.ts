@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * Short-lived lock on an inspector's calendar, held while a booking is checked for conflicts and
+ * saved so two requests can't both claim the same time. The unique inspector index is what makes
+ * acquiring it atomic.
+ */
+export interface IScheduleLock extends Document {
+  inspector: mongoose.Types.ObjectId;
+  token: string;
+  expiresAt: Date;
+}
+
+const ScheduleLockSchema = new Schema<IScheduleLock>({
+  inspector: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true,
+  },
+  token: {
+    type: String,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Clears locks left behind by a crashed request; acquiring also ignores expired ones
+ScheduleLockSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const ScheduleLock: Model<IScheduleLock> =
+  mongoose.models.ScheduleLock || mongoose.model<IScheduleLock>('ScheduleLock', ScheduleLockSchema);
+
+export default ScheduleLock;
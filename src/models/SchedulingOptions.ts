@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { MAX_TRAVEL_BUFFER_MINUTES } from '@/src/constants/availability';
 
 export interface ICustomField {
   _id?: mongoose.Types.ObjectId;
@@ -16,6 +17,8 @@ export interface ICustomField {
 export interface ISchedulingOptions extends Document {
   company: mongoose.Types.ObjectId;
   inProgressBookingsBlockSchedule: boolean;
+  // Kept free before and after each booking for driving between properties
+  travelBufferMinutes: number;
   defaultConfirmed: boolean;
   allowClientCcEmails: boolean;
   captureBuyerAddress: boolean;
@@ -38,6 +41,12 @@ const SchedulingOptionsSchema = new Schema<ISchedulingOptions>(
       type: Boolean,
       default: false,
     },
+    travelBufferMinutes: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: MAX_TRAVEL_BUFFER_MINUTES,
+    },
     defaultConfirmed: {
       type: Boolean,
       default: false,
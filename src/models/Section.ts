@@ -1,7 +1,9 @@
-import mongoose, { Schema, Document, Model } from 'mongoose';
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
 
 export interface ISection extends Document {
   name: string;
+  template?: Types.ObjectId | null; // InspectionTemplate this section belongs to
+  company?: Types.ObjectId | null; // null for sections of the system default template
   order_index: number;
   createdAt: Date;
   updatedAt: Date;
@@ -11,12 +13,15 @@ const SectionSchema = new Schema<ISection>(
   {
     name: { type: String, required: true, trim: true },
     order_index: { type: Number, required: true }, // Removed 'index: true' to avoid duplicate
+    template: { type: Schema.Types.ObjectId, ref: 'InspectionTemplate', default: null },
+    company: { type: Schema.Types.ObjectId, ref: 'Company', default: null },
   },
   { timestamps: true }
 );
 
-SectionSchema.index({ order_index: 1 }); // Keep this explicit index instead
-SectionSchema.index({ name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
+SectionSchema.index({ template: 1, order_index: 1 }); // Keep this explicit index instead
+// Names are unique per template; the old global { name: 1 } index is dropped by the template migration
+SectionSchema.index({ template: 1, name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
 
 export const Section: Model<ISection> = mongoose.models.Section || mongoose.model<ISection>('Section', SectionSchema);
 export default Section;
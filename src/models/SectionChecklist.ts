@@ -3,6 +3,7 @@ import { ISection } from './Section';
 
 export interface ISectionChecklist extends Document {
   section_id: Types.ObjectId | ISection;
+  company?: Types.ObjectId | null; // Mirrors the parent section's company
   text: string;
   value?: string; // For status items - user-entered values (e.g., "Concrete", "Rain")
   comment?: string; // For information items - template text
@@ -19,6 +20,7 @@ export interface ISectionChecklist extends Document {
 const SectionChecklistSchema = new Schema<ISectionChecklist>(
   {
     section_id: { type: Schema.Types.ObjectId, ref: 'Section', required: true, index: true },
+    company: { type: Schema.Types.ObjectId, ref: 'Company', default: null, index: true },
     text: { type: String, required: true, trim: true },
     value: { type: String, trim: true }, // Optional - for status items (user-entered values)
     comment: { type: String, trim: true }, // Optional - for information items (template text)
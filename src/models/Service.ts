@@ -40,6 +40,7 @@ export interface IService extends Document {
   defaultInspectionEvents: string[];
   organizationServiceId?: string;
   agreementIds: mongoose.Types.ObjectId[];
+  inspectionTemplate?: mongoose.Types.ObjectId | null;
   modifiers: IServiceModifier[];
   addOns: IServiceAddOn[];
   taxes: IServiceTax[];
@@ -130,6 +131,11 @@ const ServiceSchema = new Schema<IService>(
       ref: 'Agreement',
       default: [],
     },
+    inspectionTemplate: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'InspectionTemplate',
+      default: null,
+    },
     modifiers: {
       type: [ModifierSchema],
       default: [],
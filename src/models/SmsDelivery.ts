@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { SMS_EVENTS, SmsEvent } from '@/constants/smsTemplates';
+
+export type SmsDeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+export interface ISmsDelivery extends Document {
+  company: mongoose.Types.ObjectId;
+  inspection?: mongoose.Types.ObjectId;
+  event: SmsEvent;
+  recipientType: 'company' | 'inspector';
+  recipientUser?: mongoose.Types.ObjectId;
+  to?: string;
+  body: string;
+  provider?: string;
+  status: SmsDeliveryStatus;
+  providerMessageId?: string;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SmsDeliverySchema = new Schema<ISmsDelivery>(
+  {
+    company: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: [true, 'Company is required'],
+    },
+    inspection: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Inspection',
+    },
+    event: {
+      type: String,
+      enum: SMS_EVENTS,
+      required: true,
+    },
+    recipientType: {
+      type: String,
+      enum: ['company', 'inspector'],
+      required: true,
+    },
+    recipientUser: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    to: {
+      type: String,
+      trim: true,
+    },
+    body: {
+      type: String,
+      required: true,
+    },
+    provider: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ['sent', 'failed', 'skipped'],
+      required: true,
+    },
+    providerMessageId: {
+      type: String,
+      trim: true,
+    },
+    error: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SmsDeliverySchema.index({ inspection: 1, createdAt: -1 });
+SmsDeliverySchema.index({ company: 1, createdAt: -1 });
+
+const SmsDelivery: Model<ISmsDelivery> =
+  mongoose.models.SmsDelivery || mongoose.model<ISmsDelivery>('SmsDelivery', SmsDeliverySchema);
+
+export default SmsDelivery;
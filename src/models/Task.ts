@@ -1,16 +1,25 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { TASK_PRIORITIES, TASK_STATUSES, TASK_TYPES, TaskPriority, TaskStatus, TaskType } from '@/constants/tasks';
 
 export interface ITask extends Document {
   inspectionId: mongoose.Types.ObjectId;
   companyId: mongoose.Types.ObjectId;
-  taskType: 'Confirm' | 'Inquiry' | 'Networking' | 'Scheduling' | 'Other';
+  taskType: TaskType;
   assignedTo: mongoose.Types.ObjectId;
-  priority: 'Low' | 'Normal' | 'High';
+  priority: TaskPriority;
   dueDate: Date;
   title: string;
   description?: string;
-  status: 'On Hold' | 'In Progress' | 'Complete';
+  status: TaskStatus;
   createdBy: mongoose.Types.ObjectId;
+  // Set on tasks created from a task template
+  template?: mongoose.Types.ObjectId;
+  // 1 for the first task from a recurring template, counting up with each repeat
+  occurrence?: number;
+  completedAt?: Date;
+  // When the assignee was reminded; cleared when the due date or assignee changes
+  dueSoonNotifiedAt?: Date | null;
+  overdueNotifiedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -31,7 +40,7 @@ const TaskSchema = new Schema<ITask>(
     },
     taskType: {
       type: String,
-      enum: ['Confirm', 'Inquiry', 'Networking', 'Scheduling', 'Other'],
+      enum: TASK_TYPES,
       required: [true, 'Task type is required'],
     },
     assignedTo: {
@@ -41,7 +50,7 @@ const TaskSchema = new Schema<ITask>(
     },
     priority: {
       type: String,
-      enum: ['Low', 'Normal', 'High'],
+      enum: TASK_PRIORITIES,
       default: 'Normal',
       required: true,
     },
@@ -60,7 +69,7 @@ const TaskSchema = new Schema<ITask>(
     },
     status: {
       type: String,
-      enum: ['On Hold', 'In Progress', 'Complete'],
+      enum: TASK_STATUSES,
       default: 'On Hold',
       required: true,
     },
@@ -69,6 +78,23 @@ const TaskSchema = new Schema<ITask>(
       ref: 'User',
       required: [true, 'Creator is required'],
     },
+    template: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'TaskTemplate',
+    },
+    occurrence: {
+      type: Number,
+      min: 1,
+    },
+    completedAt: {
+      type: Date,
+    },
+    dueSoonNotifiedAt: {
+      type: Date,
+    },
+    overdueNotifiedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: { createdAt: 'createdAt', updatedAt: 'updatedAt' },
@@ -79,6 +105,7 @@ const TaskSchema = new Schema<ITask>(
 TaskSchema.index({ inspectionId: 1, companyId: 1 });
 TaskSchema.index({ assignedTo: 1, status: 1 });
 TaskSchema.index({ dueDate: 1 });
+TaskSchema.index({ inspectionId: 1, template: 1 });
 
 export const Task: Model<ITask> =
   mongoose.models.Task || mongoose.model<ITask>('Task', TaskSchema);
@@ -0,0 +1,133 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import {
+  TASK_ASSIGNEE_RULES,
+  TASK_DUE_ANCHORS,
+  TASK_PRIORITIES,
+  TASK_TEMPLATE_TRIGGERS,
+  TASK_TYPES,
+  TaskAssigneeRule,
+  TaskDueAnchor,
+  TaskPriority,
+  TaskTemplateTrigger,
+  TaskType,
+} from '@/constants/tasks';
+
+/**
+ * A task the company wants done for every inspection, created when the inspection reaches `trigger`.
+ * The due date is `dueOffsetHours` from the anchor, negative for before it, e.g. -48 from the
+ * inspection date for "confirm with the client two days before".
+ */
+export interface ITaskTemplate extends Document {
+  company: mongoose.Types.ObjectId;
+  name: string;
+  title: string;
+  description?: string;
+  taskType: TaskType;
+  priority: TaskPriority;
+  trigger: TaskTemplateTrigger;
+  dueAnchor: TaskDueAnchor;
+  dueOffsetHours: number;
+  assignTo: TaskAssigneeRule;
+  // The team member given the task when assignTo is 'user'
+  assignee?: mongoose.Types.ObjectId;
+  // Completing the task creates the next one this many days later, up to repeatTimes tasks in all
+  repeatEveryDays?: number;
+  repeatTimes?: number;
+  active: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TaskTemplateSchema = new Schema<ITaskTemplate>(
+  {
+    company: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Company',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Template name is required'],
+      trim: true,
+      maxlength: 100,
+    },
+    title: {
+      type: String,
+      required: [true, 'Task title is required'],
+      trim: true,
+      maxlength: 200,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+    },
+    taskType: {
+      type: String,
+      enum: TASK_TYPES,
+      required: true,
+    },
+    priority: {
+      type: String,
+      enum: TASK_PRIORITIES,
+      default: 'Normal',
+    },
+    trigger: {
+      type: String,
+      enum: TASK_TEMPLATE_TRIGGERS,
+      required: [true, 'Trigger is required'],
+    },
+    dueAnchor: {
+      type: String,
+      enum: TASK_DUE_ANCHORS,
+      default: 'trigger',
+    },
+    dueOffsetHours: {
+      type: Number,
+      default: 0,
+      // A year either way
+      min: -8760,
+      max: 8760,
+    },
+    assignTo: {
+      type: String,
+      enum: TASK_ASSIGNEE_RULES,
+      default: 'inspector',
+    },
+    assignee: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    repeatEveryDays: {
+      type: Number,
+      min: 1,
+      max: 365,
+    },
+    repeatTimes: {
+      type: Number,
+      min: 2,
+      max: 52,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+TaskTemplateSchema.index({ company: 1, trigger: 1, active: 1 });
+
+const TaskTemplate: Model<ITaskTemplate> =
+  mongoose.models.TaskTemplate || mongoose.model<ITaskTemplate>('TaskTemplate', TaskTemplateSchema);
+
+export default TaskTemplate;
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import type { NotificationPreferences } from '@/constants/notifications';
 
 export interface IUser extends Document {
   firstName: string;
@@ -25,6 +26,11 @@ export interface IUser extends Document {
   resetPasswordExpires?: Date;
   rememberMeToken?: string;
   rememberMeExpires?: Date;
+  // Secret in the URL of the user's iCal subscription
+  calendarFeedToken?: string;
+  // Only what the user changed; see getNotificationPreferences for the defaults
+  notificationPreferences?: Partial<NotificationPreferences>;
+  taskDigestSentAt?: Date;
   createdBy?: mongoose.Types.ObjectId;
   
   // Inspector permissions
@@ -203,6 +209,18 @@ const UserSchema = new Schema<IUser>(
       type: Date,
       select: false,
     },
+    calendarFeedToken: {
+      type: String,
+      select: false,
+      unique: true,
+      sparse: true,
+    },
+    notificationPreferences: {
+      type: Schema.Types.Mixed,
+    },
+    taskDigestSentAt: {
+      type: Date,
+    },
   },
   {
     timestamps: { createdAt: 'createdAt', updatedAt: 'updatedAt' },
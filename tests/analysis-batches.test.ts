@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { setAnalysisProvider, type AnalysisResult } from '@/lib/defect-analysis';
+import {
+  AnalysisBatchError,
+  processNextAnalysisItem,
+  retryFailedAnalysisItems,
+  runAnalysisWorker,
+} from '@/lib/analysis-batches';
+
+type Doc = Record<string, any>;
+
+// Just enough of MongoDB's query and update language for the filters lib/analysis-batches.ts sends
+const store = vi.hoisted(() => {
+  const same = (a: unknown, b: unknown) => String(a) === String(b);
+  const time = (value: unknown) => (value instanceof Date ? value.getTime() : (value as number));
+
+  function matches(doc: Record<string, any>, filter: Record<string, any>): boolean {
+    return Object.entries(filter).every(([key, condition]) => {
+      if (key === '$or') return condition.some((branch: Record<string, any>) => matches(doc, branch));
+      const value = doc[key];
+      const isOperator = condition && typeof condition === 'object' && Object.keys(condition).every((op) => op.startsWith('$'));
+      if (!isOperator) return same(value, condition);
+      return Object.entries(condition).every(([op, operand]: [string, any]) => {
+        if (op === '$lt') return value !== undefined && time(value) < time(operand);
+        if (op === '$gte') return value !== undefined && time(value) >= time(operand);
+        if (op === '$in') return operand.some((entry: unknown) => same(value, entry));
+        throw new Error(`Unsupported operator ${op}`);
+      });
+    });
+  }
+
+  function apply(doc: Record<string, any>, update: Record<string, any>) {
+    Object.assign(doc, update.$set || {});
+    Object.keys(update.$unset || {}).forEach((key) => delete doc[key]);
+    Object.entries(update.$inc || {}).forEach(([key, by]) => (doc[key] = (doc[key] || 0) + (by as number)));
+  }
+
+  const batches: Record<string, any>[] = [];
+  const items: Record<string, any>[] = [];
+
+  return {
+    batches,
+    items,
+    AnalysisBatch: {
+      findById: async (id: unknown) => batches.find((batch) => same(batch._id, id)) || null,
+      findOne: async (filter: Record<string, any>) => batches.find((batch) => matches(batch, filter)) || null,
+    },
+    AnalysisBatchItem: {
+      countDocuments: async (filter: Record<string, any>) => items.filter((item) => matches(item, filter)).length,
+      exists: async (filter: Record<string, any>) => items.find((item) => matches(item, filter)) || null,
+      updateMany: async (filter: Record<string, any>, update: Record<string, any>) => {
+        const matched = items.filter((item) => matches(item, filter));
+        matched.forEach((item) => apply(item, update));
+        return { modifiedCount: matched.length };
+      },
+      findOneAndUpdate: async (filter: Record<string, any>, update: Record<string, any>) => {
+        const [item] = items.filter((entry) => matches(entry, filter)).sort((a, b) => a.order - b.order);
+        if (item) apply(item, update);
+        return item || null;
+      },
+    },
+    publishJSON: vi.fn(async () => ({ messageId: 'msg' })),
+    createDefect: vi.fn(async () => new mongoose.Types.ObjectId().toString()),
+  };
+});
+
+vi.mock('@/lib/db', () => ({ default: async () => undefined }));
+vi.mock('@/lib/defect', () => ({ createDefect: store.createDefect }));
+vi.mock('@/src/models/AnalysisBatch', () => ({ default: store.AnalysisBatch }));
+vi.mock('@/src/models/AnalysisBatchItem', () => ({ default: store.AnalysisBatchItem }));
+vi.mock('@upstash/qstash', () => ({
+  Client: class {
+    publishJSON = store.publishJSON;
+  },
+}));
+
+const RESULT: AnalysisResult = {
+  defect: 'Loose handrail at the stairs.',
+  short_description: 'Loose handrail',
+  materials_names: 'Wood screws, brackets',
+  materials_total_cost: 20,
+  labor_type: 'Handyman',
+  labor_rate: 60,
+  hours_required: 1,
+  recommendation: 'Recommend securing the handrail.',
+};
+
+const MINUTE = 60 * 1000;
+const companyId = new mongoose.Types.ObjectId();
+const viewer = { _id: new mongoose.Types.ObjectId(), company: companyId } as any;
+const analyze = vi.fn(async () => RESULT);
+
+function addBatch(concurrency: number) {
+  const batch = { _id: new mongoose.Types.ObjectId(), inspectionId: new mongoose.Types.ObjectId(), companyId, concurrency };
+  store.batches.push(batch);
+  return batch;
+}
+
+function addItem(batch: Doc, order: number, fields: Doc = {}) {
+  const item: Doc = {
+    _id: new mongoose.Types.ObjectId(),
+    batchId: batch._id,
+    inspectionId: batch.inspectionId,
+    order,
+    imageUrl: `https://cdn.example.com/uploads/${order}.jpg`,
+    status: 'queued',
+    attempts: 0,
+    save: async () => item,
+    ...fields,
+  };
+  store.items.push(item);
+  return item;
+}
+
+beforeEach(() => {
+  store.batches.length = 0;
+  store.items.length = 0;
+  store.publishJSON.mockClear();
+  store.createDefect.mockClear();
+  analyze.mockReset().mockResolvedValue(RESULT);
+  setAnalysisProvider({ name: 'fake', analyze });
+  vi.stubEnv('QSTASH_TOKEN', 'token');
+  vi.stubEnv('NEXT_PUBLIC_BASE_URL', 'https://app.example.com');
+});
+
+afterEach(() => {
+  setAnalysisProvider(null);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('processNextAnalysisItem', () => {
+  it('claims the first queued item and turns it into a defect', async () => {
+    const batch = addBatch(2);
+    const second = addItem(batch, 1);
+    const first = addItem(batch, 0);
+
+    const view = await processNextAnalysisItem(String(batch._id));
+
+    expect(view).toMatchObject({ _id: String(first._id), status: 'done', attempts: 1 });
+    expect(first.defectId).toBeDefined();
+    expect(second.status).toBe('queued');
+    expect(store.createDefect).toHaveBeenCalledWith(
+      expect.objectContaining({ inspection_id: String(batch.inspectionId), defect_description: RESULT.defect })
+    );
+  });
+
+  it('returns null when the queue is empty', async () => {
+    const batch = addBatch(2);
+    addItem(batch, 0, { status: 'done' });
+
+    expect(await processNextAnalysisItem(String(batch._id))).toBeNull();
+  });
+
+  it('records a failed analysis on the item instead of throwing', async () => {
+    const batch = addBatch(1);
+    const item = addItem(batch, 0);
+    analyze.mockRejectedValue(new Error('Model unavailable'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(processNextAnalysisItem(String(batch._id))).resolves.toMatchObject({ status: 'failed' });
+    expect(item.error).toBe('Model unavailable');
+    expect(store.createDefect).not.toHaveBeenCalled();
+  });
+
+  it('claims nothing while the batch has as many live items running as its concurrency', async () => {
+    const batch = addBatch(2);
+    addItem(batch, 0, { status: 'running', startedAt: new Date(), attempts: 1 });
+    addItem(batch, 1, { status: 'running', startedAt: new Date(), attempts: 1 });
+    const queued = addItem(batch, 2);
+
+    expect(await processNextAnalysisItem(String(batch._id))).toBeNull();
+    expect(queued.status).toBe('queued');
+    expect(analyze).not.toHaveBeenCalled();
+  });
+
+  it('does not count stale running items against the concurrency and runs them again', async () => {
+    const batch = addBatch(1);
+    const stale = addItem(batch, 0, { status: 'running', startedAt: new Date(Date.now() - 30 * MINUTE), attempts: 1 });
+
+    await expect(processNextAnalysisItem(String(batch._id))).resolves.toMatchObject({
+      _id: String(stale._id),
+      status: 'done',
+      attempts: 2,
+    });
+  });
+
+  it('fails stale items that have used all their attempts', async () => {
+    const batch = addBatch(1);
+    const stale = addItem(batch, 0, { status: 'running', startedAt: new Date(Date.now() - 30 * MINUTE), attempts: 3 });
+
+    expect(await processNextAnalysisItem(String(batch._id))).toBeNull();
+    expect(stale).toMatchObject({ status: 'failed', error: 'Analysis timed out' });
+  });
+});
+
+describe('runAnalysisWorker', () => {
+  it('hands the batch to a new worker while items are queued', async () => {
+    const batch = addBatch(1);
+    addItem(batch, 0);
+    addItem(batch, 1);
+
+    await runAnalysisWorker(String(batch._id));
+    expect(store.publishJSON).toHaveBeenCalledTimes(1);
+
+    await runAnalysisWorker(String(batch._id));
+    expect(store.publishJSON).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('retryFailedAnalysisItems', () => {
+  it('queues failed items again and starts workers for the free slots', async () => {
+    const batch = addBatch(3);
+    addItem(batch, 0, { status: 'running', startedAt: new Date(), attempts: 1 });
+    const failed = [0, 1, 2].map((order) => addItem(batch, order + 1, { status: 'failed', error: 'Boom', attempts: 1 }));
+
+    await expect(retryFailedAnalysisItems(viewer, String(batch._id))).resolves.toBe(3);
+    failed.forEach((item) => expect(item).toMatchObject({ status: 'queued', attempts: 0 }));
+    expect(failed[0].error).toBeUndefined();
+    expect(store.publishJSON).toHaveBeenCalledTimes(2);
+  });
+
+  it('restarts a batch whose last worker died mid-item', async () => {
+    const batch = addBatch(2);
+    addItem(batch, 0, { status: 'done' });
+    const stale = addItem(batch, 1, { status: 'running', startedAt: new Date(Date.now() - 30 * MINUTE), attempts: 1 });
+
+    await expect(retryFailedAnalysisItems(viewer, String(batch._id))).resolves.toBe(0);
+    expect(stale.status).toBe('queued');
+    expect(store.publishJSON).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a batch with nothing to retry', async () => {
+    const batch = addBatch(2);
+    addItem(batch, 0, { status: 'done' });
+    addItem(batch, 1, { status: 'running', startedAt: new Date(), attempts: 1 });
+
+    const retry = retryFailedAnalysisItems(viewer, String(batch._id));
+    await expect(retry).rejects.toBeInstanceOf(AnalysisBatchError);
+    await expect(retry).rejects.toMatchObject({ status: 409 });
+    expect(store.publishJSON).not.toHaveBeenCalled();
+  });
+});
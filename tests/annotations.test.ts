@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ANNOTATION_ROTATIONS,
+  getImageFrame,
+  normalizeAnnotationShape,
+  normalizeAnnotationsInput,
+  normalizeRotation,
+  placeAnnotationShape,
+  type AnnotationFrame,
+  type AnnotationShape,
+} from '@/lib/annotations';
+
+const arrow: AnnotationShape = { id: 1, type: 'arrow', color: '#ff0000', size: 0.01, from: { x: 0.25, y: 0.1 }, to: { x: 0.75, y: 0.5 } };
+const box: AnnotationShape = { id: 2, type: 'square', color: '#00ff00', size: 0.005, center: { x: 0.2, y: 0.3 }, width: 0.4, height: 0.2 };
+
+describe('getImageFrame', () => {
+  it('swaps width and height for quarter turns', () => {
+    expect(getImageFrame(400, 300, 0)).toEqual({ left: 0, top: 0, width: 400, height: 300, rotation: 0 });
+    expect(getImageFrame(400, 300, 90)).toEqual({ left: 0, top: 0, width: 300, height: 400, rotation: 90 });
+  });
+});
+
+describe('normalizeRotation', () => {
+  it('snaps to the nearest quarter turn within one revolution', () => {
+    expect(normalizeRotation(-90)).toBe(270);
+    expect(normalizeRotation(450)).toBe(90);
+    expect(normalizeRotation(190)).toBe(180);
+  });
+});
+
+describe('placeAnnotationShape', () => {
+  it('places document points in the frame', () => {
+    const frame = getImageFrame(400, 300, 0);
+    expect(placeAnnotationShape(arrow, frame)).toEqual({ ...arrow, size: 4, from: { x: 100, y: 30 }, to: { x: 300, y: 150 } });
+  });
+
+  it('turns points clockwise with the photo', () => {
+    // The 400×300 photo turned a quarter clockwise is 300 wide: its top-left corner ends up top-right
+    const frame = getImageFrame(400, 300, 90);
+    const placed = placeAnnotationShape(arrow, frame) as Extract<AnnotationShape, { type: 'arrow' }>;
+
+    expect(placed.from.x).toBeCloseTo(270);
+    expect(placed.from.y).toBeCloseTo(100);
+    expect(placeAnnotationShape(box, frame)).toMatchObject({ width: 0.2 * 300, height: 0.4 * 400 });
+  });
+
+  it('offsets by where the frame sits', () => {
+    const frame: AnnotationFrame = { left: 50, top: 20, width: 400, height: 300, rotation: 180 };
+    expect(placeAnnotationShape(arrow, frame)).toMatchObject({ from: { x: 350, y: 290 }, to: { x: 150, y: 170 } });
+  });
+});
+
+describe('normalizeAnnotationShape', () => {
+  it.each(ANNOTATION_ROTATIONS)('undoes placeAnnotationShape at %i degrees', (rotation) => {
+    const frame: AnnotationFrame = { ...getImageFrame(640, 480, rotation), left: 12, top: 8 };
+
+    [arrow, box].forEach((shape) => {
+      const roundTrip = normalizeAnnotationShape(placeAnnotationShape(shape, frame), frame) as Record<string, any>;
+      Object.entries(shape).forEach(([key, value]) => {
+        if (typeof value === 'number') expect(roundTrip[key]).toBeCloseTo(value);
+        else if (typeof value === 'object') {
+          expect(roundTrip[key].x).toBeCloseTo(value.x);
+          expect(roundTrip[key].y).toBeCloseTo(value.y);
+        } else expect(roundTrip[key]).toBe(value);
+      });
+    });
+  });
+});
+
+describe('normalizeAnnotationsInput', () => {
+  it('keeps legacy editor shapes for the editor to convert', () => {
+    expect(normalizeAnnotationsInput([{ id: 1 }])).toEqual({ version: 1, rotation: 0, shapes: [], legacy: { lines: [{ id: 1 }] } });
+    expect(normalizeAnnotationsInput([])).toBeNull();
+  });
+
+  it('rejects shapes outside the schema', () => {
+    expect(() => normalizeAnnotationsInput({ version: 1, rotation: 45, shapes: [] })).toThrow('annotations.rotation');
+    expect(() => normalizeAnnotationsInput({ version: 1, rotation: 0, shapes: [{ ...arrow, color: 'red' }] })).toThrow('hex colour');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import mongoose from 'mongoose';
+import { evaluateRuleChain, getInspectionRevenue } from '@/lib/category-rules';
+
+describe('getInspectionRevenue', () => {
+  const serviceId = new mongoose.Types.ObjectId();
+  const serviceCosts = new Map([[serviceId.toString(), 400]]);
+  const services = [{ serviceId, addOns: [{ addFee: 75 }, { addFee: 25 }] }];
+
+  it('uses the quoted total, with its modifiers, discounts and taxes', () => {
+    expect(getInspectionRevenue({ pricing: { total: 462.5 }, services }, serviceCosts)).toBe(462.5);
+  });
+
+  it('keeps a fully discounted quote at zero', () => {
+    expect(getInspectionRevenue({ pricing: { total: 0 }, services }, serviceCosts)).toBe(0);
+  });
+
+  it('falls back to catalog base costs and add-on fees for unpriced inspections', () => {
+    expect(getInspectionRevenue({ services }, serviceCosts)).toBe(500);
+    expect(getInspectionRevenue({ pricing: null, services }, serviceCosts)).toBe(500);
+  });
+
+  it('counts services missing from the catalog as free', () => {
+    const unknown = [{ serviceId: new mongoose.Types.ObjectId(), addOns: [{ addFee: 40 }] }];
+    expect(getInspectionRevenue({ services: unknown }, serviceCosts)).toBe(40);
+  });
+});
+
+describe('evaluateRuleChain', () => {
+  type Stats = Parameters<typeof evaluateRuleChain>[1];
+  type Rule = Parameters<typeof evaluateRuleChain>[0][number];
+
+  const now = new Date('2025-06-30T12:00:00Z');
+  const daysAgo = (days: number, revenue = 0) => ({ date: new Date(now.getTime() - days * 24 * 60 * 60 * 1000), revenue });
+
+  // Two buyer-side inspections in the last month, one seller-side one last year
+  const stats: Stats = {
+    buyer: [daysAgo(5, 400), daysAgo(20, 350.5)],
+    seller: [daysAgo(300, 600)],
+    all: [daysAgo(5, 400), daysAgo(20, 350.5), daysAgo(300, 600)],
+  };
+
+  const rule = (fields: Partial<Rule>): Rule => ({ ruleType: 'Inspection Count', condition: 'Greater Than', count: 0, ...fields });
+
+  it('fails an empty chain', () => {
+    expect(evaluateRuleChain([], stats, now)).toBe(false);
+  });
+
+  it('counts inspections inside the window only', () => {
+    expect(evaluateRuleChain([rule({ condition: 'Equal To', count: 3 })], stats, now)).toBe(true);
+    expect(evaluateRuleChain([rule({ condition: 'Equal To', count: 2, within: 'Last', days: 30 })], stats, now)).toBe(true);
+  });
+
+  it("reads buyer's and seller's agent rules from their own side", () => {
+    expect(evaluateRuleChain([rule({ ruleType: "Buyer's Agent Inspection Count", condition: 'Equal To', count: 2 })], stats, now)).toBe(true);
+    expect(evaluateRuleChain([rule({ ruleType: "Seller's Agent Inspection Count", condition: 'Equal To', count: 1 })], stats, now)).toBe(true);
+  });
+
+  it('sums revenue to the cent', () => {
+    expect(evaluateRuleChain([rule({ ruleType: 'Inspection Revenue', condition: 'Equal To', count: 1350.5 })], stats, now)).toBe(true);
+    expect(
+      evaluateRuleChain([rule({ ruleType: 'Inspection Revenue', condition: 'Less Than', count: 1000, within: 'Last', days: 30 })], stats, now)
+    ).toBe(true);
+  });
+
+  it('measures first and last inspection rules in days and fails them without inspections', () => {
+    expect(evaluateRuleChain([rule({ ruleType: 'Last Inspection', condition: 'Equal To', count: 5 })], stats, now)).toBe(true);
+    expect(evaluateRuleChain([rule({ ruleType: 'First Inspection', condition: 'Greater Than', count: 299 })], stats, now)).toBe(true);
+    expect(
+      evaluateRuleChain([rule({ ruleType: 'Last Inspection', condition: 'Less Than', count: 1000, within: 'Next', days: 30 })], stats, now)
+    ).toBe(false);
+  });
+
+  it('joins rules left to right, ignoring the first operation', () => {
+    const passes = rule({ condition: 'Greater Than', count: 0 });
+    const fails = rule({ condition: 'Greater Than', count: 10 });
+
+    expect(evaluateRuleChain([{ ...passes, operation: 'OR' }, { ...fails }], stats, now)).toBe(false);
+    expect(evaluateRuleChain([fails, { ...passes, operation: 'OR' }], stats, now)).toBe(true);
+    expect(evaluateRuleChain([fails, { ...passes, operation: 'OR' }, { ...fails, operation: 'AND' }], stats, now)).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type OpenAI from 'openai';
+import {
+  AnalysisOutputError,
+  ChatAnalysisProvider,
+  DEFAULT_ANALYSIS_FIXTURES,
+  MockAnalysisProvider,
+  OpenAICompatibleAnalysisProvider,
+  getAnalysisProvider,
+  parseAnalysisResult,
+  type AnalysisResult,
+  type ChatAnalysisOptions,
+} from '@/lib/defect-analysis';
+
+const VALID_RESULT: AnalysisResult = {
+  defect: 'Cracked foundation wall with visible displacement.',
+  short_description: 'Foundation crack',
+  materials_names: 'Epoxy injection kit',
+  materials_total_cost: 150,
+  labor_type: 'Structural contractor',
+  labor_rate: 120,
+  hours_required: 4,
+  recommendation: 'Recommend a structural engineer evaluate the wall.',
+};
+
+type FakeReply = { content?: string; refusal?: string };
+
+// Stands in for the OpenAI SDK: answers each chat completion with the next queued reply
+function fakeClient(replies: FakeReply[]) {
+  const calls: Array<{ messages: unknown[] }> = [];
+  const client = {
+    chat: {
+      completions: {
+        create: vi.fn(async (params: { messages: unknown[] }) => {
+          calls.push({ messages: [...params.messages] });
+          const reply = replies[calls.length - 1] ?? replies[replies.length - 1];
+          return { choices: [{ message: { content: reply.content ?? null, refusal: reply.refusal ?? null } }] };
+        }),
+      },
+    },
+  };
+  return { client: client as unknown as OpenAI, calls };
+}
+
+class FakeChatProvider extends ChatAnalysisProvider {
+  name = 'fake';
+
+  constructor(client: OpenAI, options: Partial<ChatAnalysisOptions> = {}) {
+    super(client, { model: 'test-model', ...options });
+  }
+
+  protected responseFormat() {
+    return undefined;
+  }
+}
+
+const request = { imageUrl: 'https://example.com/uploads/photo.jpg', description: 'Crack in the basement wall' };
+
+describe('parseAnalysisResult', () => {
+  it('accepts a reply that is exactly the result object', () => {
+    expect(parseAnalysisResult(JSON.stringify(VALID_RESULT))).toEqual({ data: VALID_RESULT });
+  });
+
+  it('tolerates a markdown code fence around the JSON', () => {
+    const output = '```json\n' + JSON.stringify(VALID_RESULT) + '\n```';
+    expect(parseAnalysisResult(output).data).toEqual(VALID_RESULT);
+  });
+
+  it('rejects a reply that is not JSON', () => {
+    expect(parseAnalysisResult('The photo shows a cracked wall.')).toEqual({ error: 'Reply is not valid JSON' });
+  });
+
+  it('lists missing and invalid fields', () => {
+    const { hours_required, ...missing } = VALID_RESULT;
+    const { error } = parseAnalysisResult(JSON.stringify({ ...missing, labor_rate: -5 }));
+    expect(error).toContain('hours_required');
+    expect(error).toContain('labor_rate');
+  });
+
+  it('rejects fields outside the schema', () => {
+    const { data, error } = parseAnalysisResult(JSON.stringify({ ...VALID_RESULT, severity: 'high' }));
+    expect(data).toBeUndefined();
+    expect(error).toMatch(/severity/);
+  });
+});
+
+describe('ChatAnalysisProvider', () => {
+  it('returns the first valid reply', async () => {
+    const { client, calls } = fakeClient([{ content: JSON.stringify(VALID_RESULT) }]);
+    await expect(new FakeChatProvider(client).analyze(request)).resolves.toEqual(VALID_RESULT);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('sends an invalid reply back with the problems and retries', async () => {
+    const { client, calls } = fakeClient([{ content: 'not json' }, { content: JSON.stringify(VALID_RESULT) }]);
+
+    await expect(new FakeChatProvider(client).analyze(request)).resolves.toEqual(VALID_RESULT);
+    expect(calls).toHaveLength(2);
+    expect(calls[1].messages.slice(-2)).toEqual([
+      { role: 'assistant', content: 'not json' },
+      { role: 'user', content: expect.stringContaining('Reply is not valid JSON') },
+    ]);
+  });
+
+  it('gives up after maxAttempts invalid replies', async () => {
+    const { client, calls } = fakeClient([{ content: '{"defect": "only this"}' }]);
+
+    const analysis = new FakeChatProvider(client, { maxAttempts: 2 }).analyze(request);
+    await expect(analysis).rejects.toBeInstanceOf(AnalysisOutputError);
+    await expect(analysis).rejects.toThrow('No valid analysis after 2 attempts');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not retry a refusal', async () => {
+    const { client, calls } = fakeClient([{ refusal: 'I cannot help with that' }]);
+
+    await expect(new FakeChatProvider(client).analyze(request)).rejects.toThrow('Model refused the analysis');
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('OpenAICompatibleAnalysisProvider', () => {
+  it('refuses photos outside the bucket before calling the model', async () => {
+    const provider = new OpenAICompatibleAnalysisProvider('http://localhost:11434/v1', { model: 'llava' });
+    await expect(
+      provider.analyze({ imageUrl: 'http://169.254.169.254/latest/meta-data/', description: '' })
+    ).rejects.toThrow('Only uploaded photos can be analyzed');
+  });
+});
+
+describe('MockAnalysisProvider', () => {
+  const provider = new MockAnalysisProvider();
+
+  it('picks the fixture whose keyword appears in the description', async () => {
+    const result = await provider.analyze({ imageUrl: 'a.jpg', description: 'Water LEAK under the sink' });
+    expect(result.labor_type).toBe('Plumber');
+  });
+
+  it('returns the same result for the same photo and notes', async () => {
+    const photos = Array.from({ length: 8 }, (_, index) => ({ imageUrl: `photo-${index}.jpg`, description: 'Odd stain' }));
+    const first = await Promise.all(photos.map((photo) => provider.analyze(photo)));
+    const second = await Promise.all(photos.map((photo) => provider.analyze(photo)));
+
+    expect(second).toEqual(first);
+    first.forEach((result) => expect(DEFAULT_ANALYSIS_FIXTURES.map((fixture) => fixture.result)).toContainEqual(result));
+  });
+
+  it('hands out copies so callers cannot change the fixtures', async () => {
+    const result = await provider.analyze({ imageUrl: 'a.jpg', description: 'roof' });
+    result.labor_rate = 0;
+    expect((await provider.analyze({ imageUrl: 'a.jpg', description: 'roof' })).labor_rate).toBe(85);
+  });
+
+  it('fails without fixtures', async () => {
+    await expect(new MockAnalysisProvider([]).analyze(request)).rejects.toThrow('no fixtures');
+  });
+});
+
+describe('getAnalysisProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the mock only when asked for', () => {
+    vi.stubEnv('AI_ANALYSIS_PROVIDER', 'mock');
+    expect(getAnalysisProvider().name).toBe('mock');
+  });
+
+  it('fails instead of falling back to the mock when OpenAI is not configured', () => {
+    vi.stubEnv('AI_ANALYSIS_PROVIDER', '');
+    vi.stubEnv('OPENAI_API_KEY', '');
+    expect(() => getAnalysisProvider()).toThrow('OPENAI_API_KEY is not configured');
+  });
+
+  it('uses OpenAI when a key is set', () => {
+    vi.stubEnv('AI_ANALYSIS_PROVIDER', '');
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    expect(getAnalysisProvider().name).toBe('openai');
+  });
+});
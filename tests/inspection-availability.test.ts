@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { DAY_KEYS, type DayKey } from '@/src/constants/availability';
+import {
+  getAvailableSlotsForDate,
+  overlapsBusyInterval,
+  type InspectorAvailability,
+} from '@/src/lib/inspection-availability';
+
+const NEW_YORK = 'America/New_York';
+
+function availability(
+  day: DayKey,
+  schedule: Partial<InspectorAvailability['days'][DayKey]>,
+  extra: Partial<InspectorAvailability> = {}
+): InspectorAvailability {
+  const days = DAY_KEYS.reduce(
+    (acc, key) => {
+      acc[key] = { openSchedule: [], timeSlots: [] };
+      return acc;
+    },
+    {} as InspectorAvailability['days']
+  );
+  days[day] = { ...days[day], ...schedule };
+  return { days, dateSpecific: [], ...extra };
+}
+
+describe('overlapsBusyInterval', () => {
+  const busy = [{ start: '2025-07-01T14:00:00Z', end: '2025-07-01T16:00:00Z' }];
+  const at = (iso: string) => new Date(iso);
+
+  it('collides when the booking runs into the interval', () => {
+    expect(overlapsBusyInterval(at('2025-07-01T13:00:00Z'), 90, busy)).toBe(true);
+    expect(overlapsBusyInterval(at('2025-07-01T15:00:00Z'), 30, busy)).toBe(true);
+  });
+
+  it('lets bookings end or start exactly at the edges', () => {
+    expect(overlapsBusyInterval(at('2025-07-01T13:00:00Z'), 60, busy)).toBe(false);
+    expect(overlapsBusyInterval(at('2025-07-01T16:00:00Z'), 60, busy)).toBe(false);
+  });
+
+  it('only collides a booking of unknown length when it starts inside the interval', () => {
+    expect(overlapsBusyInterval(at('2025-07-01T13:59:00Z'), 0, busy)).toBe(false);
+    expect(overlapsBusyInterval(at('2025-07-01T14:00:00Z'), 0, busy)).toBe(true);
+  });
+
+  it('accepts Date intervals and no intervals at all', () => {
+    expect(overlapsBusyInterval(at('2025-07-01T15:00:00Z'), 30, [{ start: at(busy[0].start), end: at(busy[0].end) }])).toBe(true);
+    expect(overlapsBusyInterval(at('2025-07-01T15:00:00Z'), 30)).toBe(false);
+  });
+});
+
+describe('getAvailableSlotsForDate', () => {
+  it('turns open schedule blocks into half-hour slots at their instants in the zone', () => {
+    const hours = availability('tuesday', { openSchedule: [{ start: '09:00', end: '10:15' }] });
+
+    expect(getAvailableSlotsForDate('2025-07-01', 'openSchedule', hours, NEW_YORK)).toEqual([
+      { time: '09:00', start: new Date('2025-07-01T13:00:00Z') },
+      { time: '09:30', start: new Date('2025-07-01T13:30:00Z') },
+      { time: '10:00', start: new Date('2025-07-01T14:00:00Z') },
+      { time: '10:15', start: new Date('2025-07-01T14:15:00Z') },
+    ]);
+  });
+
+  it("uses the inspector's own zone over the company's", () => {
+    const hours = availability('tuesday', { timeSlots: ['09:00'] }, { timeZone: 'America/Los_Angeles' });
+
+    expect(getAvailableSlotsForDate('2025-07-01', 'timeSlots', hours, NEW_YORK)).toEqual([
+      { time: '09:00', start: new Date('2025-07-01T16:00:00Z') },
+    ]);
+  });
+
+  it('leaves out slots blocked for that date', () => {
+    const slots = availability('tuesday', { timeSlots: ['09:00', '13:00'] }, {
+      dateSpecific: [{ date: '2025-07-01', start: '09:00', end: '10:00' }],
+    });
+    const blocks = availability('tuesday', { openSchedule: [{ start: '09:00', end: '11:00' }] }, {
+      dateSpecific: [{ date: '2025-07-01', start: '09:00', end: '10:00' }],
+    });
+
+    expect(getAvailableSlotsForDate('2025-07-01', 'timeSlots', slots, NEW_YORK).map((slot) => slot.time)).toEqual(['13:00']);
+    expect(getAvailableSlotsForDate('2025-07-01', 'openSchedule', blocks, NEW_YORK).map((slot) => slot.time)).toEqual([
+      '10:00',
+      '10:30',
+      '11:00',
+    ]);
+    expect(getAvailableSlotsForDate('2025-07-08', 'timeSlots', slots, NEW_YORK).map((slot) => slot.time)).toEqual(['09:00', '13:00']);
+  });
+
+  it('drops times that do not exist because clocks spring forward', () => {
+    const hours = availability('sunday', { timeSlots: ['01:30', '02:30', '03:30'] });
+
+    expect(getAvailableSlotsForDate('2025-03-09', 'timeSlots', hours, NEW_YORK).map((slot) => slot.time)).toEqual(['01:30', '03:30']);
+  });
+
+  it('drops slots a booking of the given length would not fit around busy time', () => {
+    const hours = availability('tuesday', { timeSlots: ['08:00', '09:00', '12:00'] }, {
+      busy: [{ start: '2025-07-01T14:00:00Z', end: '2025-07-01T15:00:00Z' }],
+    });
+
+    expect(getAvailableSlotsForDate('2025-07-01', 'timeSlots', hours, NEW_YORK).map((slot) => slot.time)).toEqual(['08:00', '09:00', '12:00']);
+    expect(getAvailableSlotsForDate('2025-07-01', 'timeSlots', hours, NEW_YORK, 150).map((slot) => slot.time)).toEqual(['12:00']);
+  });
+});
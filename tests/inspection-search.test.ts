@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import {
+  DEFAULT_INSPECTION_PAGE_SIZE,
+  normalizePresetQuery,
+  parseInspectionSearchParams,
+  toCsv,
+} from '@/lib/inspection-search';
+
+vi.mock('@/lib/db', () => ({ default: async () => undefined }));
+vi.mock('@/lib/inspection', () => ({ formatInspection: vi.fn() }));
+
+const parse = (query: string) => parseInspectionSearchParams(new URLSearchParams(query));
+
+describe('parseInspectionSearchParams', () => {
+  it('defaults to the newest inspections first, one page at a time', () => {
+    expect(parse('')).toMatchObject({ sort: 'date', order: 'desc', page: 1, pageSize: DEFAULT_INSPECTION_PAGE_SIZE, deleted: false });
+  });
+
+  it('reads filters, statuses and custom fields', () => {
+    const service = new mongoose.Types.ObjectId().toString();
+    const query = parse(`q=+Main+St+&status=scheduled,+confirmed&from=2025-01-01&to=2025-01-31&service=${service}&inspector=me&cf.gateCode=1234&cf.bad%20key=x&sort=total&order=asc`);
+
+    expect(query).toMatchObject({
+      search: 'Main St',
+      statuses: ['scheduled', 'confirmed'],
+      from: '2025-01-01',
+      to: '2025-01-31',
+      service,
+      inspector: 'me',
+      customData: { gateCode: '1234' },
+      sort: 'total',
+      order: 'asc',
+    });
+  });
+
+  it('keeps the page size within bounds', () => {
+    expect(parse('page=-3&pageSize=1000')).toMatchObject({ page: 1, pageSize: 100 });
+    expect(parse('pageSize=abc')).toMatchObject({ pageSize: DEFAULT_INSPECTION_PAGE_SIZE });
+  });
+
+  it.each([
+    ['from=01/02/2025', 'from and to must be dates in YYYY-MM-DD form'],
+    ['from=2025-02-01&to=2025-01-01', 'to must not be before from'],
+    ['status=scheduled,done', 'status must be'],
+    ['payment=maybe', 'payment must be one of'],
+    ['report=draft', 'report must be published or unpublished'],
+    ['agent=123', 'Invalid agent ID'],
+    ['sort=orderId;drop', 'sort must be one of'],
+  ])('rejects %s', (query, error) => {
+    expect(parse(query)).toEqual({ error: expect.stringContaining(error) });
+  });
+
+  it.each(['constructor', '__proto__', 'toString', 'hasOwnProperty'])('rejects the inherited key %s as a sort field', (sort) => {
+    expect(parse(`sort=${sort}`)).toEqual({ error: expect.stringContaining('sort must be one of') });
+  });
+});
+
+describe('normalizePresetQuery', () => {
+  it('drops the page and keeps the rest of a valid search', () => {
+    expect(normalizePresetQuery('?status=confirmed&page=4')).toEqual({ query: 'status=confirmed' });
+  });
+
+  it('refuses invalid searches', () => {
+    expect(normalizePresetQuery('sort=__proto__')).toEqual({ error: expect.stringContaining('sort must be one of') });
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv([['Order', 'Address'], [1042, '12 Oak St, Apt "B"\nRear']])).toBe('Order,Address\r\n1042,"12 Oak St, Apt ""B""\nRear"\r\n');
+  });
+
+  it('writes empty cells for missing values and ISO dates', () => {
+    expect(toCsv([[null, undefined, new Date('2025-07-01T13:00:00Z'), 0]])).toBe(',,2025-07-01T13:00:00.000Z,0\r\n');
+  });
+
+  it('keeps spreadsheet apps from running cells as formulas', () => {
+    expect(toCsv([['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)']])).toBe(`"'=HYPERLINK(""http://x"")",'+1,'-2,'@SUM(A1)\r\n`);
+  });
+});
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import {
+  INSPECTION_STATUSES,
+  INSPECTION_STATUS_TRANSITIONS,
+  normalizeInspectionStatus,
+} from '@/constants/inspectionStatuses';
+import {
+  InspectionStatusError,
+  changeInspectionStatus,
+  getStatusTransitionOptions,
+  getStatusTransitionPermissions,
+} from '@/lib/inspection-status';
+import { PermissionDeniedError } from '@/lib/permissions';
+
+const db = vi.hoisted(() => ({
+  inspection: null as Record<string, any> | null,
+  updateOne: vi.fn(),
+  recordChange: vi.fn(async () => ({})),
+  sendCancelled: vi.fn(async () => undefined),
+}));
+
+vi.mock('@/lib/db', () => ({ default: async () => undefined }));
+vi.mock('@/src/models/Inspection', () => ({
+  default: {
+    findById: () => ({ select: () => ({ lean: async () => db.inspection }) }),
+    updateOne: db.updateOne,
+  },
+}));
+vi.mock('@/src/models/InspectionStatusChange', () => ({ default: { create: db.recordChange } }));
+vi.mock('@/src/models/Task', () => ({ default: { create: vi.fn() } }));
+vi.mock('@/lib/email-notifications', () => ({
+  getInspectionNotificationState: async () => null,
+  sendInspectionCancelledEmail: db.sendCancelled,
+  sendInspectionUpdateEmails: vi.fn(),
+  sendReportPublishedEmail: vi.fn(),
+}));
+vi.mock('@/lib/task-templates', () => ({ createTasksForInspectionEvent: vi.fn(async () => undefined) }));
+
+const companyId = new mongoose.Types.ObjectId();
+const inspectionId = new mongoose.Types.ObjectId();
+const scheduler = { _id: new mongoose.Types.ObjectId(), company: companyId, can_schedule: true } as any;
+const admin = { _id: new mongoose.Types.ObjectId(), company: companyId, is_company_admin: true } as any;
+
+beforeEach(() => {
+  db.inspection = { _id: inspectionId, companyId, status: 'scheduled' };
+  db.updateOne.mockReset().mockResolvedValue({ matchedCount: 1 });
+  db.recordChange.mockClear();
+  db.sendCancelled.mockClear();
+});
+
+describe('status transition table', () => {
+  it('only moves to known statuses and never to the same one', () => {
+    INSPECTION_STATUSES.forEach((from) => {
+      INSPECTION_STATUS_TRANSITIONS[from].forEach((to) => {
+        expect(INSPECTION_STATUSES).toContain(to);
+        expect(to).not.toBe(from);
+      });
+    });
+  });
+
+  it('reads legacy and unknown values onto the lifecycle', () => {
+    expect(normalizeInspectionStatus('Pending')).toBe('scheduled');
+    expect(normalizeInspectionStatus('in-progress')).toBe('in_progress');
+    expect(normalizeInspectionStatus('Completed')).toBe('closed');
+    expect(normalizeInspectionStatus(undefined)).toBe('scheduled');
+    expect(normalizeInspectionStatus('whatever')).toBe('scheduled');
+  });
+
+  it('leaves reopening closed and cancelled inspections to admins', () => {
+    expect(getStatusTransitionPermissions('closed', 'published')).toEqual(['is_company_admin']);
+    expect(getStatusTransitionPermissions('cancelled', 'scheduled')).toEqual(['is_company_admin']);
+    expect(getStatusTransitionPermissions('report_draft', 'published')).toEqual(['can_publish']);
+    expect(getStatusTransitionPermissions('scheduled', 'confirmed')).toEqual(['can_schedule', 'can_edit_inspections']);
+  });
+
+  it('lists the next statuses with whether the user may choose them', () => {
+    expect(getStatusTransitionOptions('confirmed', scheduler)).toEqual([
+      { status: 'scheduled', label: 'Scheduled', allowed: true },
+      { status: 'in_progress', label: 'In Progress', allowed: false },
+      { status: 'cancelled', label: 'Cancelled', allowed: true },
+      { status: 'no_show', label: 'No-Show', allowed: true },
+    ]);
+  });
+});
+
+describe('changeInspectionStatus', () => {
+  it('records an allowed change and runs its side effects', async () => {
+    await expect(changeInspectionStatus(inspectionId, 'cancelled', { user: scheduler, note: ' Client moved ' })).resolves.toEqual({
+      from: 'scheduled',
+      to: 'cancelled',
+      changed: true,
+    });
+
+    expect(db.updateOne).toHaveBeenCalledWith(
+      { _id: inspectionId, status: 'scheduled' },
+      { $set: { status: 'cancelled' }, $inc: { calendarSequence: 1 } }
+    );
+    expect(db.recordChange).toHaveBeenCalledWith(expect.objectContaining({ from: 'scheduled', to: 'cancelled', note: 'Client moved' }));
+    expect(db.sendCancelled).toHaveBeenCalledWith(inspectionId);
+  });
+
+  it('does nothing when the inspection is already in that status', async () => {
+    await expect(changeInspectionStatus(inspectionId, 'scheduled', { user: scheduler })).resolves.toMatchObject({ changed: false });
+    expect(db.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('refuses transitions the table does not allow', async () => {
+    const change = changeInspectionStatus(inspectionId, 'published', { user: admin });
+    await expect(change).rejects.toBeInstanceOf(InspectionStatusError);
+    await expect(change).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('refuses users without a permission for the transition', async () => {
+    db.inspection = { _id: inspectionId, companyId, status: 'closed' };
+
+    await expect(changeInspectionStatus(inspectionId, 'published', { user: scheduler })).rejects.toBeInstanceOf(PermissionDeniedError);
+    expect(db.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("hides another company's inspection", async () => {
+    const outsider = { ...admin, company: new mongoose.Types.ObjectId() };
+    await expect(changeInspectionStatus(inspectionId, 'confirmed', { user: outsider })).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('fails when someone else changed the status first', async () => {
+    db.updateOne.mockResolvedValue({ matchedCount: 0 });
+    await expect(changeInspectionStatus(inspectionId, 'confirmed', { user: scheduler })).rejects.toThrow('changed by someone else');
+    expect(db.recordChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { buildInspectionQuote } from '@/lib/pricing';
+import type { DiscountCodeLean } from '@/lib/discount-code-utils';
+
+const catalog = vi.hoisted(() => ({ services: [] as Record<string, any>[] }));
+
+vi.mock('@/src/models/Service', () => ({
+  default: {
+    find: (filter: { _id: { $in: unknown[] } }) => ({
+      select: () => ({
+        lean: async () =>
+          catalog.services.filter((service) => filter._id.$in.some((id) => String(id) === String(service._id))),
+      }),
+    }),
+  },
+}));
+
+const companyId = new mongoose.Types.ObjectId();
+
+function addService(fields: Record<string, any>) {
+  const service = { _id: new mongoose.Types.ObjectId(), modifiers: [], addOns: [], taxes: [], ...fields };
+  catalog.services.push(service);
+  return service;
+}
+
+function discount(fields: Partial<DiscountCodeLean>): DiscountCodeLean {
+  return { _id: new mongoose.Types.ObjectId(), code: 'SAVE', ...fields };
+}
+
+beforeEach(() => {
+  catalog.services.length = 0;
+});
+
+describe('buildInspectionQuote', () => {
+  let home: Record<string, any>;
+
+  beforeEach(() => {
+    home = addService({
+      name: 'Home Inspection',
+      baseCost: 300,
+      baseDurationHours: 2.5,
+      modifiers: [{ field: 'sq_ft', greaterThan: 2000, lessThanOrEqual: 3000, addFee: 50, addHours: 0.5 }],
+      addOns: [
+        {
+          name: 'Radon',
+          baseCost: 150,
+          baseDurationHours: 1,
+          modifiers: [{ field: 'foundation', equals: 'basement', addFee: 25, addHours: 0 }],
+        },
+      ],
+      taxes: [
+        { name: 'State', addPercent: 6, orderIndex: 1 },
+        { name: 'City', addPercent: 2, orderIndex: 0 },
+      ],
+    });
+  });
+
+  const order = () => ({
+    companyId,
+    services: [{ serviceId: String(home._id), addOns: [{ name: 'radon' }] }],
+    location: { squareFeet: 2500, foundation: 'Basement' },
+  });
+
+  it('prices services and add-ons from the catalog with their matching modifiers', async () => {
+    const { quote } = await buildInspectionQuote(order());
+
+    const [line] = quote!.services;
+    expect(line).toMatchObject({ fee: 350, hours: 3, subtotal: 525 });
+    expect(line.modifiers).toEqual([{ field: 'sq_ft', label: 'Sq.Ft.', fee: 50, hours: 0.5 }]);
+    expect(line.addOns[0]).toMatchObject({ name: 'Radon', fee: 175, hours: 1 });
+    expect(quote).toMatchObject({ subtotal: 525, discountTotal: 0, totalDurationHours: 4 });
+  });
+
+  it('skips modifiers whose field has no value or falls outside the range', async () => {
+    const { quote } = await buildInspectionQuote({ ...order(), location: { squareFeet: 3500 } });
+
+    expect(quote!.services[0].modifiers).toEqual([]);
+    expect(quote!.services[0].addOns[0].fee).toBe(150);
+  });
+
+  it('adds each service tax in order on the discounted amount', async () => {
+    const { quote } = await buildInspectionQuote({ ...order(), discountCode: discount({ type: 'percent', value: 10 }) });
+
+    expect(quote!.services[0].discount).toBe(35);
+    expect(quote!.services[0].addOns[0].discount).toBe(17.5);
+    expect(quote!.services[0].taxes).toEqual([
+      { name: 'City', percent: 2, amount: 9.45 },
+      { name: 'State', percent: 6, amount: 28.35 },
+    ]);
+    expect(quote).toMatchObject({ subtotal: 525, discountTotal: 52.5, taxTotal: 37.8, total: 510.3 });
+  });
+
+  it('discounts only the add-ons a code is limited to', async () => {
+    const code = discount({
+      type: 'amount',
+      value: 50,
+      appliesToAddOns: [{ service: home._id, addOnName: 'RADON' }],
+    });
+    const { quote } = await buildInspectionQuote({ ...order(), discountCode: code });
+
+    expect(quote!.services[0].discount).toBe(0);
+    expect(quote!.services[0].addOns[0].discount).toBe(50);
+    expect(quote!.discountTotal).toBe(50);
+  });
+
+  it('rejects services and add-ons the company does not offer', async () => {
+    await expect(
+      buildInspectionQuote({ companyId, services: [{ serviceId: String(new mongoose.Types.ObjectId()) }] })
+    ).resolves.toEqual({ error: 'Service not found' });
+    await expect(
+      buildInspectionQuote({ ...order(), services: [{ serviceId: String(home._id), addOns: [{ name: 'Mold' }] }] })
+    ).resolves.toEqual({ error: 'Add-on "Mold" is not available for Home Inspection' });
+    await expect(buildInspectionQuote({ companyId, services: [{ serviceId: 'abc' }] })).resolves.toEqual({
+      error: 'Invalid service ID',
+    });
+  });
+});
+
+describe('buildInspectionQuote amount discounts', () => {
+  const threeServices = () => {
+    const services = ['Roof', 'Pool', 'Sewer'].map((name) => addService({ name, baseCost: 100, baseDurationHours: 1 }));
+    return { companyId, services: services.map((service) => ({ serviceId: String(service._id) })) };
+  };
+
+  it('spreads the amount in proportion and lets the last line absorb the rounding', async () => {
+    const { quote } = await buildInspectionQuote({ ...threeServices(), discountCode: discount({ type: 'amount', value: 10 }) });
+
+    expect(quote!.services.map((line) => line.discount)).toEqual([3.33, 3.33, 3.34]);
+    expect(quote).toMatchObject({ subtotal: 300, discountTotal: 10, total: 290 });
+  });
+
+  it('never discounts more than the eligible total', async () => {
+    const { quote } = await buildInspectionQuote({ ...threeServices(), discountCode: discount({ type: 'amount', value: 1000 }) });
+
+    expect(quote).toMatchObject({ discountTotal: 300, total: 0 });
+  });
+});
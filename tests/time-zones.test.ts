@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addDaysToDateKey,
+  getDayKeyFromDateKey,
+  startOfDayInTimeZone,
+  toDateKey,
+  toTimeKey,
+  zonedTimeToUtc,
+} from '@/src/lib/time-zones';
+
+const NEW_YORK = 'America/New_York';
+
+describe('zonedTimeToUtc', () => {
+  it('reads a wall-clock time in the given zone', () => {
+    expect(zonedTimeToUtc('2025-07-01', '09:00', NEW_YORK)).toEqual(new Date('2025-07-01T13:00:00Z'));
+    expect(zonedTimeToUtc('2025-01-15', '09:00', NEW_YORK)).toEqual(new Date('2025-01-15T14:00:00Z'));
+    expect(zonedTimeToUtc('2025-07-01', '09:00', 'Asia/Kolkata')).toEqual(new Date('2025-07-01T03:30:00Z'));
+  });
+
+  it('returns null for a time skipped when clocks spring forward', () => {
+    expect(zonedTimeToUtc('2025-03-09', '02:30', NEW_YORK)).toBeNull();
+    expect(zonedTimeToUtc('2025-03-09', '03:00', NEW_YORK)).toEqual(new Date('2025-03-09T07:00:00Z'));
+  });
+
+  it('picks the first of a time repeated when clocks fall back', () => {
+    expect(zonedTimeToUtc('2025-11-02', '01:30', NEW_YORK)).toEqual(new Date('2025-11-02T05:30:00Z'));
+    expect(zonedTimeToUtc('2025-11-02', '02:00', NEW_YORK)).toEqual(new Date('2025-11-02T07:00:00Z'));
+  });
+
+  it('rejects a malformed time', () => {
+    expect(zonedTimeToUtc('2025-07-01', 'noon', NEW_YORK)).toBeNull();
+  });
+});
+
+describe('startOfDayInTimeZone', () => {
+  it('starts a day at its first valid minute when midnight is skipped', () => {
+    // Cuba moves its clocks from midnight to 1am
+    expect(startOfDayInTimeZone('2025-03-09', 'America/Havana')).toEqual(new Date('2025-03-09T05:00:00Z'));
+    expect(startOfDayInTimeZone('2025-03-09', NEW_YORK)).toEqual(new Date('2025-03-09T05:00:00Z'));
+  });
+});
+
+describe('calendar days', () => {
+  it('reads the calendar day and time of an instant in the zone', () => {
+    const instant = new Date('2025-07-01T02:30:00Z');
+    expect(toDateKey(instant, NEW_YORK)).toBe('2025-06-30');
+    expect(toTimeKey(instant, NEW_YORK)).toBe('22:30');
+    expect(toDateKey(instant, 'UTC')).toBe('2025-07-01');
+  });
+
+  it('adds days across month and year ends', () => {
+    expect(addDaysToDateKey('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDaysToDateKey('2025-12-31', 1)).toBe('2026-01-01');
+    expect(addDaysToDateKey('2025-03-01', -1)).toBe('2025-02-28');
+  });
+
+  it('names the weekday of a calendar day', () => {
+    expect(getDayKeyFromDateKey('2025-03-09')).toBe('sunday');
+    expect(getDayKeyFromDateKey('2025-07-04')).toBe('friday');
+  });
+});